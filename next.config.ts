@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // API endpoints end in a slash (e.g. /payments/mpesa/stk-push/); serve the
+  // mock payment routes at those paths instead of redirecting them
+  skipTrailingSlashRedirect: true,
 };
 
 export default nextConfig;
@@ -0,0 +1,708 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  Badge,
+  Spinner,
+  Center,
+  SimpleGrid,
+  Progress,
+} from '@chakra-ui/react';
+import {
+  FiArrowDown,
+  FiArrowUp,
+  FiCheck,
+  FiDownload,
+  FiFileText,
+  FiList,
+  FiMail,
+  FiPlus,
+} from 'react-icons/fi';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import {
+  BILLING_PLANS,
+  USAGE_METRICS,
+  changePlan,
+  formatAmount,
+  getAnnualSavings,
+  getInvoiceStatusDisplay,
+  getInvoices,
+  getPlanCopy,
+  getPlanLimit,
+  getPlanPrice,
+  getPricingPlan,
+  getSubscription,
+  getSubscriptionStatusDisplay,
+  getUsageSummary,
+  isBillingUpgrade,
+  takePlanSelection,
+} from '@/src/lib/billing';
+import { getDateLocale } from '@/src/lib/i18n';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import useWalletBalance from '@/src/hooks/useWalletBalance';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import MpesaCheckoutDialog from '@/src/components/billing/MpesaCheckoutDialog';
+import { ROUTES, THEME } from '@/src/lib/constants';
+import type {
+  ApiError,
+  BillingCycle,
+  Invoice,
+  PaymentPurpose,
+  PaymentTransaction,
+  PlanId,
+  Subscription,
+  UsageSummary,
+} from '@/src/types';
+
+/**
+ * Format a billing timestamp for display
+ */
+const formatBillingDate = (timestamp: string): string =>
+  new Date(timestamp).toLocaleDateString(getDateLocale(), {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+/**
+ * Billing Page Component
+ *
+ * Shows the user's current plan from PRICING_PLANS, usage in the current
+ * billing period against the plan limits, the Pay As You Go credit
+ * balance, plan changes and invoice history. Paid plans can be billed
+ * monthly or annually. Upgrades to a paid plan and credit top-ups are paid
+ * with M-Pesa; a plan picked on the pricing page opens checkout on arrival.
+ */
+export default function BillingPage() {
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [planChangeTarget, setPlanChangeTarget] = useState<PlanId | null>(null);
+  const [isChangingPlan, setIsChangingPlan] = useState(false);
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>('monthly');
+  const [checkout, setCheckout] = useState<{
+    purpose: PaymentPurpose;
+    plan?: PlanId;
+    billingCycle?: BillingCycle;
+  } | null>(null);
+
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+  const { activeOrganizationId } = useOrganization();
+  const { wallet, refresh: refreshWallet } = useWalletBalance();
+
+  /**
+   * Load the subscription, usage and invoices
+   *
+   * @param showSpinner - Replace the page with a spinner while loading
+   * @returns The subscription, or null if loading failed
+   */
+  const loadBilling = async (showSpinner: boolean = true): Promise<Subscription | null> => {
+    if (showSpinner) setLoading(true);
+    try {
+      const [subscriptionData, usageData, invoiceData] = await Promise.all([
+        getSubscription(),
+        getUsageSummary(),
+        getInvoices(),
+      ]);
+      setSubscription(subscriptionData);
+      setUsage(usageData);
+      setInvoices(invoiceData);
+      return subscriptionData;
+    } catch (error) {
+      toast.error(
+        t('billing.loadError'),
+        (error as ApiError)?.message || t('billing.loadErrorMessage')
+      );
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const loadPage = async () => {
+      const subscriptionData = await loadBilling();
+      if (!subscriptionData) return;
+
+      // Continue with the plan picked on the pricing page, if any
+      const selection = takePlanSelection();
+      const cycle = selection?.billing_cycle ?? subscriptionData.billing_cycle;
+      setBillingCycle(cycle);
+      if (
+        selection &&
+        getPlanPrice(selection.plan, cycle) &&
+        isBillingUpgrade(subscriptionData, selection.plan, cycle)
+      ) {
+        setCheckout({ purpose: 'subscription', plan: selection.plan, billingCycle: cycle });
+      }
+    };
+
+    loadPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeOrganizationId]);
+
+  const handlePaymentSuccess = (transaction: PaymentTransaction) => {
+    toast.success(
+      transaction.purpose === 'topup' ? t('invitations.creditAdded') : t('billing.upgraded'),
+      transaction.purpose === 'topup'
+        ? t('invitations.creditAddedMessage', {
+            amount: formatAmount(transaction.amount, transaction.currency),
+          })
+        : t(
+            transaction.billing_cycle === 'annual'
+              ? 'billing.upgradedAnnual'
+              : 'billing.upgradedMonthly',
+            { plan: getPricingPlan(transaction.plan ?? 'payg').name }
+          )
+    );
+    loadBilling(false);
+    refreshWallet().catch(() => undefined);
+  };
+
+  const handleChangePlan = async () => {
+    if (!subscription || !planChangeTarget) return;
+
+    // Plans without a fixed price are always billed monthly
+    const targetCycle =
+      getPlanPrice(planChangeTarget, billingCycle) === null ? 'monthly' : billingCycle;
+    const upgrade = isBillingUpgrade(subscription, planChangeTarget, targetCycle);
+    setIsChangingPlan(true);
+    try {
+      const updated = await changePlan(planChangeTarget, targetCycle);
+      setSubscription(updated);
+      toast.success(
+        upgrade ? t('billing.upgraded') : t('billing.changeScheduled'),
+        upgrade
+          ? t('billing.upgradedMessage', { plan: getPricingPlan(updated.plan).name })
+          : t('billing.changeScheduledMessage', { plan: getPricingPlan(planChangeTarget).name })
+      );
+      setPlanChangeTarget(null);
+    } catch (error) {
+      toast.error(
+        t('billing.changeError'),
+        (error as ApiError)?.message || t('billing.changeErrorMessage')
+      );
+    } finally {
+      setIsChangingPlan(false);
+    }
+  };
+
+  const currentPlan = subscription ? getPricingPlan(subscription.plan) : null;
+  const statusDisplay = subscription ? getSubscriptionStatusDisplay(subscription.status) : null;
+  const targetPlan = planChangeTarget ? getPricingPlan(planChangeTarget) : null;
+  const isTargetUpgrade =
+    subscription && planChangeTarget
+      ? isBillingUpgrade(subscription, planChangeTarget, billingCycle)
+      : false;
+  const isCycleChange = !!subscription && planChangeTarget === subscription.plan;
+  const currentPrice = subscription
+    ? getPlanPrice(subscription.plan, subscription.billing_cycle)
+    : null;
+  const checkoutPlan = checkout?.plan ? getPricingPlan(checkout.plan) : null;
+  const periodEnd = subscription?.current_period_end
+    ? ` (${formatBillingDate(subscription.current_period_end)})`
+    : '';
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {/* PAGE HEADER */}
+          <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+            <Container maxW="container.xl">
+              <Stack gap={1}>
+                <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                  {t('billing.title')}
+                </Heading>
+                <Text color="gray.600">{t('billing.subtitle')}</Text>
+              </Stack>
+            </Container>
+          </Box>
+
+          <Container maxW="container.xl" py={8}>
+            {loading ? (
+              <Center py={20}>
+                <Spinner size="xl" color={THEME.COLORS.primary} />
+              </Center>
+            ) : subscription && currentPlan && statusDisplay ? (
+              <Stack gap={8}>
+                <SimpleGrid columns={{ base: 1, lg: 3 }} gap={6}>
+                  {/* CURRENT PLAN */}
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                    <Stack gap={4}>
+                      <Flex justify="space-between" align="center">
+                        <Text fontSize="sm" fontWeight="semibold" color="gray.500" textTransform="uppercase">
+                          {t('billing.currentPlan')}
+                        </Text>
+                        <Badge colorScheme={statusDisplay.color}>{statusDisplay.label}</Badge>
+                      </Flex>
+                      <Stack gap={1}>
+                        <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                          {currentPlan.name}
+                        </Heading>
+                        <Text color="gray.600">{getPlanCopy(subscription.plan).description}</Text>
+                      </Stack>
+                      {currentPrice !== null && (
+                        <Text fontSize="xl" fontWeight="bold" color="gray.800">
+                          {formatAmount(currentPrice)}
+                          <Text as="span" fontSize="md" fontWeight="normal" color="gray.600">
+                            {' '}
+                            {subscription.billing_cycle === 'annual'
+                              ? t('billing.perYear')
+                              : t('billing.perMonth')}
+                          </Text>
+                        </Text>
+                      )}
+                      {subscription.current_period_end && (
+                        <Text fontSize="sm" color="gray.600">
+                          {t('billing.currentPeriod', {
+                            start: formatBillingDate(subscription.current_period_start),
+                            end: formatBillingDate(subscription.current_period_end),
+                          })}
+                        </Text>
+                      )}
+                      {subscription.scheduled_plan && (
+                        <Box bg="blue.50" borderRadius="md" p={3}>
+                          <Text fontSize="sm" color="blue.700">
+                            {subscription.current_period_end
+                              ? t('billing.changesOn', {
+                                  plan: getPricingPlan(subscription.scheduled_plan).name,
+                                  date: formatBillingDate(subscription.current_period_end),
+                                })
+                              : t('billing.changesAtPeriodEnd', {
+                                  plan: getPricingPlan(subscription.scheduled_plan).name,
+                                })}
+                          </Text>
+                        </Box>
+                      )}
+                    </Stack>
+                  </Box>
+
+                  {/* USAGE */}
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                    <Stack gap={5}>
+                      <Stack gap={1}>
+                        <Text fontSize="sm" fontWeight="semibold" color="gray.500" textTransform="uppercase">
+                          {t('billing.usageThisPeriod')}
+                        </Text>
+                        {usage && (
+                          <Text fontSize="sm" color="gray.600">
+                            {formatBillingDate(usage.period_start)} –{' '}
+                            {formatBillingDate(usage.period_end)}
+                          </Text>
+                        )}
+                      </Stack>
+                      {USAGE_METRICS.map((metric) => {
+                        const used = usage?.[metric] ?? 0;
+                        const limit = getPlanLimit(subscription.plan, metric);
+                        const percent = limit ? Math.min((used / limit) * 100, 100) : 0;
+                        const nearLimit = limit !== null && used / limit >= 0.8;
+
+                        return (
+                          <Stack key={metric} gap={2}>
+                            <Flex justify="space-between" fontSize="sm">
+                              <Text color="gray.700">{t(`usageMetrics.${metric}`)}</Text>
+                              <Text fontWeight="semibold" color={nearLimit ? 'orange.600' : 'gray.800'}>
+                                {used.toLocaleString()}
+                                {limit !== null
+                                  ? ` / ${limit.toLocaleString()}`
+                                  : currentPlan.type === 'payg'
+                                  ? ` (${t('billing.billedPerUse')})`
+                                  : ` (${t('billing.unlimited')})`}
+                              </Text>
+                            </Flex>
+                            {limit !== null && (
+                              <Progress.Root
+                                value={percent}
+                                colorPalette={nearLimit ? 'orange' : 'teal'}
+                                size="sm"
+                              >
+                                <Progress.Track>
+                                  <Progress.Range />
+                                </Progress.Track>
+                              </Progress.Root>
+                            )}
+                          </Stack>
+                        );
+                      })}
+                    </Stack>
+                  </Box>
+
+                  {/* CREDIT BALANCE */}
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                    <Stack gap={4} h="full">
+                      <Text fontSize="sm" fontWeight="semibold" color="gray.500" textTransform="uppercase">
+                        {t('billing.creditBalance')}
+                      </Text>
+                      <Heading fontSize="3xl" color={THEME.COLORS.primary}>
+                        {wallet ? formatAmount(wallet.balance, wallet.currency) : '—'}
+                      </Heading>
+                      <Text fontSize="sm" color="gray.600" flex="1">
+                        {t('billing.creditText')}
+                      </Text>
+                      <Flex gap={3}>
+                        <Button
+                          flex="1"
+                          {...THEME.BUTTON_STYLES.primaryButton}
+                          onClick={() => setCheckout({ purpose: 'topup' })}
+                        >
+                          <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                            <Icon as={FiPlus} />
+                          </Box>
+                          {t('invitations.topUp')}
+                        </Button>
+                        <Link href={ROUTES.PROTECTED.WALLET}>
+                          <Button variant="outline">
+                            <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                              <Icon as={FiList} />
+                            </Box>
+                            {t('billing.history')}
+                          </Button>
+                        </Link>
+                      </Flex>
+                    </Stack>
+                  </Box>
+                </SimpleGrid>
+
+                {/* PLANS */}
+                <Stack gap={4}>
+                  <Flex justify="space-between" align="center" gap={4} wrap="wrap">
+                    <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                      {t('billing.changePlan')}
+                    </Heading>
+                    <Box
+                      bg="white"
+                      borderRadius="full"
+                      border="1px solid"
+                      borderColor="gray.200"
+                      p={1}
+                      display="inline-flex"
+                      gap={1}
+                    >
+                      {(['monthly', 'annual'] as BillingCycle[]).map((cycle) => (
+                        <Button
+                          key={cycle}
+                          size="sm"
+                          borderRadius="full"
+                          onClick={() => setBillingCycle(cycle)}
+                          bg={billingCycle === cycle ? THEME.COLORS.primary : 'transparent'}
+                          color={billingCycle === cycle ? 'white' : 'gray.700'}
+                          _hover={{ bg: billingCycle === cycle ? THEME.COLORS.primary : 'gray.50' }}
+                        >
+                          {cycle === 'monthly' ? t('billing.monthly') : t('billing.annual')}
+                        </Button>
+                      ))}
+                    </Box>
+                  </Flex>
+                  <SimpleGrid columns={{ base: 1, md: 2, xl: 4 }} gap={6}>
+                    {BILLING_PLANS.map(({ id, plan }) => {
+                      const price = getPlanPrice(id, billingCycle);
+                      const savings = billingCycle === 'annual' ? getAnnualSavings(id) : null;
+                      // Plans without a fixed price have a single cycle
+                      const isCurrent =
+                        id === subscription.plan &&
+                        (price === null || billingCycle === subscription.billing_cycle);
+                      const isScheduled = id === subscription.scheduled_plan;
+                      const upgrade = isBillingUpgrade(subscription, id, billingCycle);
+                      const actionLabel =
+                        id === subscription.plan
+                          ? t(
+                              billingCycle === 'annual'
+                                ? 'billing.switchToAnnual'
+                                : 'billing.switchToMonthly'
+                            )
+                          : upgrade
+                          ? t('billing.upgrade')
+                          : t('billing.downgrade');
+
+                      return (
+                        <Box
+                          key={id}
+                          bg="white"
+                          borderRadius="xl"
+                          boxShadow="md"
+                          p={6}
+                          border="2px solid"
+                          borderColor={isCurrent ? THEME.COLORS.primary : 'transparent'}
+                          display="flex"
+                          flexDirection="column"
+                        >
+                          <Stack gap={3} flex="1">
+                            <Flex justify="space-between" align="center" gap={2}>
+                              <Heading fontSize="lg" color="gray.800">
+                                {plan.name}
+                              </Heading>
+                              {plan.popular && <Badge colorScheme="orange">{t('billing.popular')}</Badge>}
+                            </Flex>
+                            <Stack gap={0}>
+                              <Text fontSize="2xl" fontWeight="bold" color={THEME.COLORS.primary}>
+                                {plan.type === 'payg'
+                                  ? t('billing.payPerUse')
+                                  : price !== null
+                                  ? formatAmount(price, plan.currency)
+                                  : t('costCalculator.custom')}
+                                {price !== null && (
+                                  <Text as="span" fontSize="sm" fontWeight="normal" color="gray.600">
+                                    {' '}
+                                    {billingCycle === 'annual'
+                                      ? t('billing.perYear')
+                                      : t('billing.perMonth')}
+                                  </Text>
+                                )}
+                              </Text>
+                              {savings !== null && (
+                                <Text fontSize="sm" color="green.600">
+                                  {t('billing.saveAYear', { amount: formatAmount(savings) })}
+                                </Text>
+                              )}
+                            </Stack>
+                            <Stack gap={2}>
+                              {getPlanCopy(id).features.slice(0, 4).map((feature) => (
+                                <Flex key={feature} gap={2} align="start">
+                                  <Icon as={FiCheck} color="green.500" mt={0.5} />
+                                  <Text fontSize="sm" color="gray.700">
+                                    {feature}
+                                  </Text>
+                                </Flex>
+                              ))}
+                            </Stack>
+                          </Stack>
+
+                          {isCurrent ? (
+                            <Button mt={6} w="full" variant="outline" disabled>
+                              {t('billing.currentPlan')}
+                            </Button>
+                          ) : isScheduled ? (
+                            <Button mt={6} w="full" variant="outline" disabled>
+                              {t('billing.scheduled')}
+                            </Button>
+                          ) : plan.type === 'custom' ? (
+                            <Link href="/contact">
+                              <Button
+                                mt={6}
+                                w="full"
+                                {...THEME.BUTTON_STYLES.secondaryButton}
+                                variant="outline"
+                              >
+                                <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                                  <Icon as={FiMail} />
+                                </Box>
+                                {t('upgradePlan.contactSales')}
+                              </Button>
+                            </Link>
+                          ) : (
+                            <Button
+                              mt={6}
+                              w="full"
+                              {...(upgrade
+                                ? THEME.BUTTON_STYLES.primaryButton
+                                : { ...THEME.BUTTON_STYLES.secondaryButton, variant: 'outline' as const })}
+                              onClick={() =>
+                                // Upgrades to a paid plan are paid up front with M-Pesa
+                                upgrade && price
+                                  ? setCheckout({ purpose: 'subscription', plan: id, billingCycle })
+                                  : setPlanChangeTarget(id)
+                              }
+                            >
+                              <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                                <Icon as={upgrade ? FiArrowUp : FiArrowDown} />
+                              </Box>
+                              {actionLabel}
+                            </Button>
+                          )}
+                        </Box>
+                      );
+                    })}
+                  </SimpleGrid>
+                </Stack>
+
+                {/* INVOICES */}
+                <Stack gap={4}>
+                  <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                    {t('billing.invoices')}
+                  </Heading>
+                  {invoices.length === 0 ? (
+                    <Box bg="white" p={8} borderRadius="xl" boxShadow="md" textAlign="center">
+                      <Stack gap={3} align="center">
+                        <Icon as={FiFileText} w={10} h={10} color="gray.300" />
+                        <Text color="gray.600">{t('billing.noInvoices')}</Text>
+                      </Stack>
+                    </Box>
+                  ) : (
+                    <Box bg="white" borderRadius="xl" boxShadow="md" overflowX="auto">
+                      <Box as="table" width="100%" borderCollapse="collapse" fontSize="sm">
+                        <Box as="thead" bg="gray.50">
+                          <Box as="tr">
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('billing.invoice')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('eventDetail.date')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('eventDetail.description')}
+                            </Box>
+                            <Box as="th" textAlign="right" p={4} fontWeight="semibold">
+                              {t('billing.amount')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('rsvps.status')}
+                            </Box>
+                            <Box as="th" textAlign="right" p={4} fontWeight="semibold">
+                              PDF
+                            </Box>
+                          </Box>
+                        </Box>
+                        <Box as="tbody">
+                          {invoices.map((invoice) => {
+                            const invoiceStatus = getInvoiceStatusDisplay(invoice.status);
+                            return (
+                              <Box
+                                as="tr"
+                                key={invoice.id}
+                                borderTop="1px solid"
+                                borderColor="gray.200"
+                              >
+                                <Box as="td" p={4} fontWeight="semibold" color="gray.800">
+                                  {invoice.number}
+                                </Box>
+                                <Box as="td" p={4} color="gray.700">
+                                  {formatBillingDate(invoice.issued_at)}
+                                </Box>
+                                <Box as="td" p={4} color="gray.700">
+                                  {invoice.description}
+                                </Box>
+                                <Box as="td" p={4} textAlign="right" color="gray.800">
+                                  {formatAmount(invoice.amount, invoice.currency)}
+                                </Box>
+                                <Box as="td" p={4}>
+                                  <Badge colorScheme={invoiceStatus.color}>
+                                    {invoiceStatus.label}
+                                  </Badge>
+                                </Box>
+                                <Box as="td" p={4} textAlign="right">
+                                  {invoice.pdf_url && (
+                                    <a href={invoice.pdf_url} target="_blank" rel="noopener noreferrer">
+                                      <Button size="sm" variant="ghost" color={THEME.COLORS.primary}>
+                                        <Icon as={FiDownload} />
+                                      </Button>
+                                    </a>
+                                  )}
+                                </Box>
+                              </Box>
+                            );
+                          })}
+                        </Box>
+                      </Box>
+                    </Box>
+                  )}
+                </Stack>
+              </Stack>
+            ) : null}
+          </Container>
+        </Box>
+
+        {/* PLAN CHANGE CONFIRMATION */}
+        {planChangeTarget && targetPlan && currentPlan && subscription && (
+          <Box
+            position="fixed"
+            inset={0}
+            bg="blackAlpha.600"
+            display="flex"
+            alignItems="center"
+            justifyContent="center"
+            zIndex={1000}
+          >
+            <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+              <Stack gap={4}>
+                <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                  {isCycleChange
+                    ? t(
+                        billingCycle === 'annual'
+                          ? 'billing.confirmAnnualTitle'
+                          : 'billing.confirmMonthlyTitle'
+                      )
+                    : t(
+                        isTargetUpgrade
+                          ? 'billing.confirmUpgradeTitle'
+                          : 'billing.confirmDowngradeTitle',
+                        { plan: targetPlan.name }
+                      )}
+                </Heading>
+                <Text color="gray.700">
+                  {isCycleChange
+                    ? t(
+                        billingCycle === 'annual'
+                          ? 'billing.confirmAnnualText'
+                          : 'billing.confirmMonthlyText',
+                        { plan: currentPlan.name, period: periodEnd }
+                      )
+                    : isTargetUpgrade
+                    ? t('billing.confirmUpgradeText', { plan: currentPlan.name })
+                    : t('billing.confirmDowngradeText', {
+                        plan: currentPlan.name,
+                        target: targetPlan.name,
+                        period: periodEnd,
+                      })}
+                </Text>
+                <Flex justify="flex-end" gap={3}>
+                  <Button
+                    variant="outline"
+                    onClick={() => setPlanChangeTarget(null)}
+                    disabled={isChangingPlan}
+                  >
+                    {t('common.cancel')}
+                  </Button>
+                  <Button
+                    {...THEME.BUTTON_STYLES.primaryButton}
+                    onClick={handleChangePlan}
+                    loading={isChangingPlan}
+                  >
+                    {t('billing.confirm')}
+                  </Button>
+                </Flex>
+              </Stack>
+            </Box>
+          </Box>
+        )}
+
+        {/* M-PESA CHECKOUT */}
+        <MpesaCheckoutDialog
+          isOpen={!!checkout}
+          purpose={checkout?.purpose ?? 'topup'}
+          plan={checkout?.plan}
+          billingCycle={checkout?.billingCycle}
+          planName={checkoutPlan?.name}
+          amount={
+            checkout?.plan ? getPlanPrice(checkout.plan, checkout.billingCycle) ?? undefined : undefined
+          }
+          onSuccess={handlePaymentSuccess}
+          onClose={() => setCheckout(null)}
+        />
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
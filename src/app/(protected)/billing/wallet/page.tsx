@@ -0,0 +1,394 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  Badge,
+  Spinner,
+  Center,
+  SimpleGrid,
+} from '@chakra-ui/react';
+import { FiArrowLeft, FiList, FiPlus } from 'react-icons/fi';
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  formatAmount,
+  getWalletTransactionDisplay,
+  getWalletTransactions,
+} from '@/src/lib/billing';
+import { getAllEvents } from '@/src/lib/events';
+import { getDateLocale } from '@/src/lib/i18n';
+import { getChannelDisplay } from '@/src/lib/invitations';
+import { encodeEventId } from '@/src/lib/id';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import useWalletBalance from '@/src/hooks/useWalletBalance';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import MpesaCheckoutDialog from '@/src/components/billing/MpesaCheckoutDialog';
+import { PRICING_PLANS, ROUTES, THEME } from '@/src/lib/constants';
+import type { ApiError, EventListItem, PaymentTransaction, WalletTransaction } from '@/src/types';
+
+/**
+ * Format a ledger timestamp for display
+ */
+const formatLedgerDate = (timestamp: string): string =>
+  new Date(timestamp).toLocaleDateString(getDateLocale(), {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * Credit Wallet Page Component
+ *
+ * Shows the Pay As You Go credit balance, top-ups with M-Pesa and the
+ * ledger of top-ups, per-event message deductions and refunds. The ledger
+ * can be narrowed to a single event.
+ */
+export default function WalletPage() {
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [events, setEvents] = useState<EventListItem[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isTopUpOpen, setIsTopUpOpen] = useState(false);
+
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+  const { activeOrganizationId } = useOrganization();
+  const { wallet, refresh: refreshWallet } = useWalletBalance();
+
+  const loadTransactions = async () => {
+    setLoading(true);
+    try {
+      const data = await getWalletTransactions(
+        selectedEvent ? { event: Number(selectedEvent) } : undefined
+      );
+      setTransactions(data);
+    } catch (error) {
+      toast.error(
+        t('wallet.loadError'),
+        (error as ApiError)?.message || t('wallet.loadErrorMessage')
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    getAllEvents()
+      .then(setEvents)
+      .catch((error) => console.error('Error loading events:', error));
+  }, [activeOrganizationId]);
+
+  useEffect(() => {
+    loadTransactions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedEvent, activeOrganizationId]);
+
+  // Message spending per event, largest first
+  const spendingByEvent = useMemo(() => {
+    const totals = new Map<number, { name: string; spent: number; messages: number }>();
+    transactions.forEach((entry) => {
+      if (!entry.event) return;
+      const current = totals.get(entry.event) ?? {
+        name: entry.event_name ?? t('wallet.deletedEvent'),
+        spent: 0,
+        messages: 0,
+      };
+      current.spent -= entry.amount;
+      current.messages += (entry.type === 'refund' ? -1 : 1) * (entry.message_count ?? 0);
+      totals.set(entry.event, current);
+    });
+    return Array.from(totals.entries())
+      .map(([id, total]) => ({ id, ...total }))
+      .sort((a, b) => b.spent - a.spent);
+  }, [transactions, t]);
+
+  const handleTopUpSuccess = (transaction: PaymentTransaction) => {
+    toast.success(
+      t('invitations.creditAdded'),
+      t('invitations.creditAddedMessage', {
+        amount: formatAmount(transaction.amount, transaction.currency),
+      })
+    );
+    refreshWallet().catch(() => undefined);
+    loadTransactions();
+  };
+
+  const { pricing } = PRICING_PLANS.PAY_AS_YOU_GO;
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {/* PAGE HEADER */}
+          <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+            <Container maxW="container.xl">
+              <Stack gap={4}>
+                <Link href={ROUTES.PROTECTED.BILLING}>
+                  <Button variant="ghost" size="sm" color={THEME.COLORS.primary}>
+                    <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                      <Icon as={FiArrowLeft} />
+                    </Box>
+                    {t('wallet.backToBilling')}
+                  </Button>
+                </Link>
+                <Flex
+                  justify="space-between"
+                  align={{ base: 'start', md: 'center' }}
+                  direction={{ base: 'column', md: 'row' }}
+                  gap={4}
+                >
+                  <Stack gap={1}>
+                    <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                      {t('wallet.title')}
+                    </Heading>
+                    <Text color="gray.600">
+                      {t('wallet.subtitle', {
+                        whatsapp: formatAmount(pricing.whatsapp_message.amount),
+                        sms: formatAmount(pricing.sms_message.amount),
+                      })}
+                    </Text>
+                  </Stack>
+                  <Button
+                    {...THEME.BUTTON_STYLES.primaryButton}
+                    onClick={() => setIsTopUpOpen(true)}
+                  >
+                    <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                      <Icon as={FiPlus} />
+                    </Box>
+                    {t('invitations.topUp')}
+                  </Button>
+                </Flex>
+              </Stack>
+            </Container>
+          </Box>
+
+          <Container maxW="container.xl" py={8}>
+            <Stack gap={8}>
+              <SimpleGrid columns={{ base: 1, lg: 3 }} gap={6}>
+                {/* BALANCE */}
+                <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                  <Stack gap={2}>
+                    <Text fontSize="sm" fontWeight="semibold" color="gray.500" textTransform="uppercase">
+                      {t('wallet.available')}
+                    </Text>
+                    <Heading fontSize="3xl" color={THEME.COLORS.primary}>
+                      {wallet ? formatAmount(wallet.balance, wallet.currency) : '—'}
+                    </Heading>
+                    {wallet && (
+                      <Text fontSize="sm" color="gray.600">
+                        {t('wallet.about', {
+                          whatsapp: Math.floor(
+                            wallet.balance / pricing.whatsapp_message.amount
+                          ).toLocaleString(),
+                          sms: Math.floor(wallet.balance / pricing.sms_message.amount).toLocaleString(),
+                        })}
+                      </Text>
+                    )}
+                  </Stack>
+                </Box>
+
+                {/* SPENDING BY EVENT */}
+                <Box bg="white" borderRadius="xl" boxShadow="md" p={6} gridColumn={{ lg: 'span 2' }}>
+                  <Stack gap={4}>
+                    <Text fontSize="sm" fontWeight="semibold" color="gray.500" textTransform="uppercase">
+                      {t('wallet.spendingByEvent')}
+                    </Text>
+                    {spendingByEvent.length === 0 ? (
+                      <Text fontSize="sm" color="gray.600">
+                        {t('wallet.noSpending')}
+                      </Text>
+                    ) : (
+                      <Stack gap={3}>
+                        {spendingByEvent.slice(0, 5).map((item) => (
+                          <Flex key={item.id} justify="space-between" align="center" gap={4}>
+                            <Stack gap={0}>
+                              <Link href={ROUTES.PROTECTED.EVENT_DETAIL(encodeEventId(item.id))}>
+                                <Text
+                                  fontSize="sm"
+                                  fontWeight="semibold"
+                                  color="gray.800"
+                                  _hover={{ color: THEME.COLORS.primary }}
+                                >
+                                  {item.name}
+                                </Text>
+                              </Link>
+                              <Text fontSize="xs" color="gray.500">
+                                {t('wallet.messages', {
+                                  count: item.messages,
+                                  formatted: item.messages.toLocaleString(),
+                                })}
+                              </Text>
+                            </Stack>
+                            <Text fontSize="sm" fontWeight="semibold" color="gray.800">
+                              {formatAmount(item.spent, wallet?.currency)}
+                            </Text>
+                          </Flex>
+                        ))}
+                      </Stack>
+                    )}
+                  </Stack>
+                </Box>
+              </SimpleGrid>
+
+              {/* LEDGER */}
+              <Stack gap={4}>
+                <Flex
+                  justify="space-between"
+                  align={{ base: 'start', md: 'center' }}
+                  direction={{ base: 'column', md: 'row' }}
+                  gap={3}
+                >
+                  <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                    {t('billing.history')}
+                  </Heading>
+                  <Box w={{ base: 'full', md: '280px' }}>
+                    <select
+                      value={selectedEvent}
+                      onChange={(e) => setSelectedEvent(e.target.value)}
+                      aria-label={t('wallet.filterByEvent')}
+                      style={{
+                        width: '100%',
+                        padding: '8px 12px',
+                        borderRadius: '6px',
+                        border: '2px solid #E2E8F0',
+                        backgroundColor: 'white',
+                        fontSize: '14px',
+                        cursor: 'pointer',
+                        outline: 'none',
+                      }}
+                    >
+                      <option value="">{t('wallet.allActivity')}</option>
+                      {events.map((event) => (
+                        <option key={event.id} value={event.id}>
+                          {event.event_name}
+                        </option>
+                      ))}
+                    </select>
+                  </Box>
+                </Flex>
+
+                {loading ? (
+                  <Center py={12}>
+                    <Spinner size="lg" color={THEME.COLORS.primary} />
+                  </Center>
+                ) : transactions.length === 0 ? (
+                  <Box bg="white" p={8} borderRadius="xl" boxShadow="md" textAlign="center">
+                    <Stack gap={3} align="center">
+                      <Icon as={FiList} w={10} h={10} color="gray.300" />
+                      <Text color="gray.600">
+                        {selectedEvent ? t('wallet.emptyEvent') : t('wallet.empty')}
+                      </Text>
+                    </Stack>
+                  </Box>
+                ) : (
+                  <Box bg="white" borderRadius="xl" boxShadow="md" overflowX="auto">
+                    <Box as="table" width="100%" borderCollapse="collapse" fontSize="sm">
+                      <Box as="thead" bg="gray.50">
+                        <Box as="tr">
+                          <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                            {t('eventDetail.date')}
+                          </Box>
+                          <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                            {t('wallet.type')}
+                          </Box>
+                          <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                            {t('wallet.details')}
+                          </Box>
+                          <Box as="th" textAlign="right" p={4} fontWeight="semibold">
+                            {t('billing.amount')}
+                          </Box>
+                          <Box as="th" textAlign="right" p={4} fontWeight="semibold">
+                            {t('wallet.balance')}
+                          </Box>
+                        </Box>
+                      </Box>
+                      <Box as="tbody">
+                        {transactions.map((entry) => {
+                          const typeDisplay = getWalletTransactionDisplay(entry.type);
+                          const channel = entry.channel ? getChannelDisplay(entry.channel) : null;
+                          return (
+                            <Box as="tr" key={entry.id} borderTop="1px solid" borderColor="gray.200">
+                              <Box as="td" p={4} color="gray.700" whiteSpace="nowrap">
+                                {formatLedgerDate(entry.created_at)}
+                              </Box>
+                              <Box as="td" p={4}>
+                                <Badge colorScheme={typeDisplay.color}>{typeDisplay.label}</Badge>
+                              </Box>
+                              <Box as="td" p={4}>
+                                <Text color="gray.800">{entry.description}</Text>
+                                {entry.event_name && (
+                                  <Text fontSize="xs" color="gray.500">
+                                    {entry.event_name}
+                                    {channel && entry.message_count !== null
+                                      ? ` · ${t('wallet.channelMessages', {
+                                          count: entry.message_count,
+                                          channel: channel.label,
+                                        })}`
+                                      : ''}
+                                  </Text>
+                                )}
+                                {entry.mpesa_receipt && (
+                                  <Text fontSize="xs" color="gray.500">
+                                    {t('wallet.receipt', { receipt: entry.mpesa_receipt })}
+                                  </Text>
+                                )}
+                              </Box>
+                              <Box
+                                as="td"
+                                p={4}
+                                textAlign="right"
+                                fontWeight="semibold"
+                                color={entry.amount < 0 ? 'red.600' : 'green.600'}
+                                whiteSpace="nowrap"
+                              >
+                                {entry.amount < 0 ? '−' : '+'}
+                                {formatAmount(Math.abs(entry.amount), entry.currency)}
+                              </Box>
+                              <Box as="td" p={4} textAlign="right" color="gray.700" whiteSpace="nowrap">
+                                {formatAmount(entry.balance_after, entry.currency)}
+                              </Box>
+                            </Box>
+                          );
+                        })}
+                      </Box>
+                    </Box>
+                  </Box>
+                )}
+              </Stack>
+            </Stack>
+          </Container>
+        </Box>
+
+        {/* TOP UP */}
+        <MpesaCheckoutDialog
+          isOpen={isTopUpOpen}
+          purpose="topup"
+          onSuccess={handleTopUpSuccess}
+          onClose={() => setIsTopUpOpen(false)}
+        />
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
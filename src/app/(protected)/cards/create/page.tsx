@@ -0,0 +1,748 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Input,
+  Textarea,
+  Button,
+  Icon,
+  IconButton,
+  Flex,
+  Field,
+  Spinner,
+  Center,
+  SimpleGrid,
+} from '@chakra-ui/react';
+import {
+  FiArrowLeft,
+  FiDownload,
+  FiImage,
+  FiPlus,
+  FiSave,
+  FiTrash2,
+} from 'react-icons/fi';
+import Link from 'next/link';
+import { useEffect, useRef, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { getAllEvents, getEventById, getEventTypeLabel } from '@/src/lib/events';
+import { getEventCardDesign, saveEventCardDesign } from '@/src/lib/cards';
+import {
+  CARD_BACKGROUND_ACCEPT,
+  CARD_BACKGROUND_MAX_SIZE,
+  CARD_BORDER_STYLES,
+  CARD_COLOR_OPTIONS,
+  CARD_TEMPLATES,
+  CARD_TEXT_BINDINGS,
+  createCardTextBlock,
+  getCardTemplate,
+  resolveCardColor,
+} from '@/src/lib/cardTemplates';
+import { decodeEventId, encodeEventId } from '@/src/lib/id';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import CardPreview from '@/src/components/cards/CardPreview';
+import CardExportDialog from '@/src/components/cards/CardExportDialog';
+import { ROUTES, THEME } from '@/src/lib/constants';
+import type {
+  ApiError,
+  CardBorderStyle,
+  CardColor,
+  CardDesign,
+  CardLayout,
+  CardTextBinding,
+  CardTextBlock,
+  EventDetail,
+  EventListItem,
+  EventType,
+} from '@/src/types';
+
+const PREVIEW_WIDTH = 360;
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  height: 36,
+  padding: '0 0.75rem',
+  borderRadius: 6,
+  border: '1px solid #E2E8F0',
+  backgroundColor: 'white',
+  color: THEME.COLORS.textPrimary,
+  fontSize: 14,
+  cursor: 'pointer',
+};
+
+const focusStyle = {
+  borderColor: THEME.COLORS.primary,
+  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+  outline: 'none',
+};
+
+/**
+ * Palette swatches limited to THEME.COLORS
+ */
+const ColorSwatches = ({
+  value,
+  onChange,
+}: {
+  value: CardColor;
+  onChange: (color: CardColor) => void;
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <Flex gap={2} flexWrap="wrap">
+      {CARD_COLOR_OPTIONS.map((option) => (
+        <Box
+          key={option.value}
+          as="button"
+          title={t(`cardDesigner.colors.${option.value}`)}
+          aria-label={t(`cardDesigner.colors.${option.value}`)}
+          w="28px"
+          h="28px"
+          borderRadius="full"
+          bg={resolveCardColor(option.value)}
+          border="2px solid"
+          borderColor={value === option.value ? THEME.COLORS.accent : 'gray.200'}
+          boxShadow={value === option.value ? `0 0 0 2px ${THEME.COLORS.accent}40` : 'none'}
+          onClick={() => onChange(option.value)}
+        />
+      ))}
+    </Flex>
+  );
+};
+
+/**
+ * Card Designer Page Component
+ *
+ * Designs the invitation card of an event: start from the template for
+ * any event type, edit text blocks bound to event fields, pick colors
+ * from the brand palette and upload a background image. The design is
+ * saved against the event selected via the `event` query parameter.
+ */
+export default function CardDesignerPage() {
+  const [events, setEvents] = useState<EventListItem[]>([]);
+  const [event, setEvent] = useState<EventDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [template, setTemplate] = useState<EventType>('other');
+  const [backgroundColor, setBackgroundColor] = useState<CardColor>('cardBg');
+  const [accentColor, setAccentColor] = useState<CardColor>('primary');
+  const [borderStyle, setBorderStyle] = useState<CardBorderStyle>('solid');
+  const [textBlocks, setTextBlocks] = useState<CardTextBlock[]>([]);
+  const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
+  const [backgroundFile, setBackgroundFile] = useState<File | null>(null);
+  const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+
+  const slug = searchParams.get('event');
+  const eventId = slug ? decodeEventId(slug) : null;
+
+  const applyDesign = (design: Pick<CardDesign, 'template' | 'background_color' | 'accent_color' | 'border_style' | 'text_blocks'>) => {
+    setTemplate(design.template);
+    setBackgroundColor(design.background_color);
+    setAccentColor(design.accent_color);
+    setBorderStyle(design.border_style);
+    setTextBlocks(design.text_blocks);
+    setSelectedBlockId(null);
+  };
+
+  const applyTemplate = (type: EventType) => {
+    const cardTemplate = getCardTemplate(type);
+    applyDesign({ ...cardTemplate, template: cardTemplate.value });
+  };
+
+  // Load the event list (for the picker) and the selected event's design
+  useEffect(() => {
+    const loadPage = async () => {
+      setLoading(true);
+      try {
+        const eventData = await getAllEvents();
+        setEvents(eventData);
+
+        if (!eventId) {
+          setEvent(null);
+          return;
+        }
+
+        const [detail, design] = await Promise.all([
+          getEventById(eventId),
+          getEventCardDesign(eventId),
+        ]);
+        setEvent(detail);
+        setBackgroundFile(null);
+        if (design) {
+          applyDesign(design);
+          setBackgroundImage(design.background_image);
+        } else {
+          applyTemplate(detail.event_type);
+          setBackgroundImage(null);
+        }
+      } catch (error) {
+        toast.error(
+          t('cardDesigner.loadError'),
+          (error as ApiError)?.message || t('cardDesigner.loadErrorMessage')
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId]);
+
+  // Release object URLs created for local background previews
+  useEffect(() => {
+    return () => {
+      if (backgroundImage?.startsWith('blob:')) {
+        URL.revokeObjectURL(backgroundImage);
+      }
+    };
+  }, [backgroundImage]);
+
+  const layout: CardLayout = {
+    background_color: backgroundColor,
+    accent_color: accentColor,
+    border_style: borderStyle,
+    background_image: backgroundImage,
+    text_blocks: textBlocks,
+  };
+
+  const selectedBlock = textBlocks.find((block) => block.id === selectedBlockId) ?? null;
+
+  const updateBlock = (blockId: string, changes: Partial<CardTextBlock>) => {
+    setTextBlocks((prev) =>
+      prev.map((block) => (block.id === blockId ? { ...block, ...changes } : block))
+    );
+  };
+
+  const addBlock = () => {
+    const lastY = textBlocks.reduce((max, block) => Math.max(max, block.y), 0);
+    const block = createCardTextBlock(Math.min(lastY + 8, 90));
+    setTextBlocks((prev) => [...prev, block]);
+    setSelectedBlockId(block.id);
+  };
+
+  const removeBlock = (blockId: string) => {
+    setTextBlocks((prev) => prev.filter((block) => block.id !== blockId));
+    setSelectedBlockId(null);
+  };
+
+  const handleBackgroundSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!CARD_BACKGROUND_ACCEPT.split(',').includes(file.type)) {
+      toast.error(t('cardDesigner.unsupportedImage'), t('cardDesigner.unsupportedImageMessage'));
+      return;
+    }
+    if (file.size > CARD_BACKGROUND_MAX_SIZE) {
+      toast.error(t('cardDesigner.imageTooLarge'), t('cardDesigner.imageTooLargeMessage'));
+      return;
+    }
+
+    setBackgroundFile(file);
+    setBackgroundImage(URL.createObjectURL(file));
+  };
+
+  const removeBackground = () => {
+    setBackgroundFile(null);
+    setBackgroundImage(null);
+  };
+
+  const handleSave = async () => {
+    if (!eventId) return;
+    setIsSaving(true);
+    try {
+      const saved = await saveEventCardDesign(eventId, {
+        template,
+        background_color: backgroundColor,
+        accent_color: accentColor,
+        border_style: borderStyle,
+        text_blocks: textBlocks,
+        background_image: backgroundFile,
+        remove_background_image: !backgroundImage,
+      });
+      setBackgroundFile(null);
+      setBackgroundImage(saved.background_image);
+      toast.success(
+        t('cardDesigner.saved'),
+        t('cardDesigner.savedMessage', { event: event?.event_name ?? '' })
+      );
+    } catch (error) {
+      toast.error(
+        t('cardDesigner.saveError'),
+        (error as ApiError)?.message || t('cardDesigner.saveErrorMessage')
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEventChange = (value: string) => {
+    router.replace(
+      value ? `${ROUTES.PROTECTED.CARD_CREATE}?event=${value}` : ROUTES.PROTECTED.CARD_CREATE
+    );
+  };
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {/* PAGE HEADER */}
+          <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+            <Container maxW="container.xl">
+              <Flex justify="space-between" align="flex-end" flexWrap="wrap" gap={4}>
+                <Stack gap={3}>
+                  <Link href={ROUTES.PROTECTED.CARDS}>
+                    <Button variant="ghost" size="sm" color={THEME.COLORS.primary}>
+                      <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                        <Icon as={FiArrowLeft} />
+                      </Box>
+                      {t('cardDesigner.backToCards')}
+                    </Button>
+                  </Link>
+                  <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                    {t('cardDesigner.title')}
+                  </Heading>
+                </Stack>
+
+                <Flex gap={3} align="center" flexWrap="wrap">
+                  <Box minW="240px">
+                    <select
+                      aria-label={t('cardDesigner.event')}
+                      value={eventId ? slug ?? '' : ''}
+                      onChange={(e) => handleEventChange(e.target.value)}
+                      style={selectStyle}
+                    >
+                      <option value="">{t('cardDesigner.selectEvent')}</option>
+                      {events.map((item) => (
+                        <option key={item.id} value={encodeEventId(item.id)}>
+                          {item.event_name}
+                        </option>
+                      ))}
+                    </select>
+                  </Box>
+                  <Button
+                    {...THEME.BUTTON_STYLES.secondaryButton}
+                    variant="outline"
+                    onClick={() => setIsExportOpen(true)}
+                    disabled={!event}
+                  >
+                    <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                      <Icon as={FiDownload} />
+                    </Box>
+                    {t('cardDesigner.export')}
+                  </Button>
+                  <Button
+                    {...THEME.BUTTON_STYLES.primaryButton}
+                    onClick={handleSave}
+                    loading={isSaving}
+                    disabled={!event}
+                  >
+                    <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                      <Icon as={FiSave} />
+                    </Box>
+                    {t('cardDesigner.save')}
+                  </Button>
+                </Flex>
+              </Flex>
+            </Container>
+          </Box>
+
+          <Container maxW="container.xl" py={8}>
+            {loading ? (
+              <Center py={20}>
+                <Spinner size="xl" color={THEME.COLORS.primary} />
+              </Center>
+            ) : !event ? (
+              <Box bg="white" p={8} borderRadius="xl" boxShadow="md" textAlign="center">
+                <Text color="gray.600">
+                  {events.length === 0
+                    ? t('cardDesigner.noEvents')
+                    : t('cardDesigner.noEventSelected')}
+                </Text>
+              </Box>
+            ) : (
+              <Flex gap={8} direction={{ base: 'column', lg: 'row' }} align="flex-start">
+                {/* PREVIEW */}
+                <Box
+                  position={{ base: 'static', lg: 'sticky' }}
+                  top="90px"
+                  bg="white"
+                  borderRadius="xl"
+                  boxShadow="md"
+                  p={6}
+                  alignSelf={{ base: 'center', lg: 'flex-start' }}
+                >
+                  <CardPreview
+                    layout={layout}
+                    event={event}
+                    width={PREVIEW_WIDTH}
+                    selectedBlockId={selectedBlockId}
+                    onSelectBlock={setSelectedBlockId}
+                  />
+                  <Text fontSize="xs" color="gray.500" textAlign="center" mt={3}>
+                    {t('cardDesigner.clickToEdit')}
+                  </Text>
+                </Box>
+
+                {/* CONTROLS */}
+                <Stack gap={6} flex="1" w="full">
+                  {/* TEMPLATE */}
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                    <Stack gap={4}>
+                      <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                        {t('cardDesigner.template')}
+                      </Heading>
+                      <SimpleGrid columns={{ base: 2, md: 3 }} gap={3}>
+                        {CARD_TEMPLATES.map((item) => (
+                          <Box
+                            key={item.value}
+                            as="button"
+                            p={3}
+                            borderRadius="md"
+                            border="2px solid"
+                            borderColor={template === item.value ? THEME.COLORS.primary : 'gray.200'}
+                            bg={template === item.value ? `${THEME.COLORS.primary}10` : 'white'}
+                            onClick={() => applyTemplate(item.value)}
+                          >
+                            <Text fontSize="xl">{item.icon}</Text>
+                            <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+                              {getEventTypeLabel(item.value)}
+                            </Text>
+                          </Box>
+                        ))}
+                      </SimpleGrid>
+                      <Text fontSize="xs" color="gray.500">
+                        {t('cardDesigner.templateHint')}
+                      </Text>
+                    </Stack>
+                  </Box>
+
+                  {/* COLORS & BACKGROUND */}
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                    <Stack gap={5}>
+                      <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                        {t('cardDesigner.colorsAndBackground')}
+                      </Heading>
+                      <Field.Root>
+                        <Field.Label fontWeight="semibold" color="gray.700">
+                          {t('cardDesigner.backgroundColor')}
+                        </Field.Label>
+                        <ColorSwatches value={backgroundColor} onChange={setBackgroundColor} />
+                      </Field.Root>
+                      <Field.Root>
+                        <Field.Label fontWeight="semibold" color="gray.700">
+                          {t('cardDesigner.accentColor')}
+                        </Field.Label>
+                        <ColorSwatches value={accentColor} onChange={setAccentColor} />
+                      </Field.Root>
+                      <Field.Root>
+                        <Field.Label fontWeight="semibold" color="gray.700">
+                          {t('cardDesigner.border')}
+                        </Field.Label>
+                        <select
+                          value={borderStyle}
+                          onChange={(e) => setBorderStyle(e.target.value as CardBorderStyle)}
+                          style={selectStyle}
+                        >
+                          {CARD_BORDER_STYLES.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {t(`cardDesigner.borders.${option.value}`)}
+                            </option>
+                          ))}
+                        </select>
+                      </Field.Root>
+                      <Field.Root>
+                        <Field.Label fontWeight="semibold" color="gray.700">
+                          {t('cardDesigner.backgroundImage')}
+                        </Field.Label>
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          accept={CARD_BACKGROUND_ACCEPT}
+                          onChange={handleBackgroundSelect}
+                          style={{ display: 'none' }}
+                        />
+                        <Flex gap={3} flexWrap="wrap">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => fileInputRef.current?.click()}
+                          >
+                            <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                              <Icon as={FiImage} />
+                            </Box>
+                            {backgroundImage ? t('cardDesigner.replaceImage') : t('cardDesigner.uploadImage')}
+                          </Button>
+                          {backgroundImage && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              color={THEME.COLORS.error}
+                              onClick={removeBackground}
+                            >
+                              {t('cardDesigner.removeImage')}
+                            </Button>
+                          )}
+                        </Flex>
+                        <Field.HelperText>{t('cardDesigner.imageHelper')}</Field.HelperText>
+                      </Field.Root>
+                    </Stack>
+                  </Box>
+
+                  {/* TEXT BLOCKS */}
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                    <Stack gap={4}>
+                      <Flex justify="space-between" align="center">
+                        <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                          {t('cardDesigner.textBlocks')}
+                        </Heading>
+                        <Button size="sm" variant="outline" onClick={addBlock}>
+                          <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                            <Icon as={FiPlus} />
+                          </Box>
+                          {t('cardDesigner.addText')}
+                        </Button>
+                      </Flex>
+
+                      <Stack gap={2}>
+                        {textBlocks.map((block, index) => (
+                          <Flex
+                            key={block.id}
+                            as="button"
+                            justify="space-between"
+                            align="center"
+                            px={3}
+                            py={2}
+                            borderRadius="md"
+                            border="1px solid"
+                            borderColor={block.id === selectedBlockId ? THEME.COLORS.primary : 'gray.200'}
+                            bg={block.id === selectedBlockId ? `${THEME.COLORS.primary}10` : 'white'}
+                            onClick={() => setSelectedBlockId(block.id)}
+                          >
+                            <Text fontSize="sm" color="gray.700" lineClamp={1} textAlign="left">
+                              {index + 1}.{' '}
+                              {block.binding === 'custom'
+                                ? block.text || t('cardDesigner.bindings.custom')
+                                : t(`cardDesigner.bindings.${block.binding}`)}
+                            </Text>
+                          </Flex>
+                        ))}
+                      </Stack>
+
+                      {selectedBlock && (
+                        <Stack
+                          gap={4}
+                          p={4}
+                          borderRadius="md"
+                          bg={THEME.COLORS.background}
+                          border="1px solid"
+                          borderColor="gray.200"
+                        >
+                          <Flex justify="space-between" align="center">
+                            <Text fontWeight="semibold" color="gray.700">
+                              {t('cardDesigner.editBlock')}
+                            </Text>
+                            <IconButton
+                              aria-label={t('cardDesigner.removeBlock')}
+                              variant="ghost"
+                              size="sm"
+                              color={THEME.COLORS.error}
+                              onClick={() => removeBlock(selectedBlock.id)}
+                            >
+                              <FiTrash2 />
+                            </IconButton>
+                          </Flex>
+
+                          <Field.Root>
+                            <Field.Label fontSize="sm" color="gray.700">
+                              {t('cardDesigner.shows')}
+                            </Field.Label>
+                            <select
+                              value={selectedBlock.binding}
+                              onChange={(e) =>
+                                updateBlock(selectedBlock.id, {
+                                  binding: e.target.value as CardTextBinding,
+                                })
+                              }
+                              style={selectStyle}
+                            >
+                              {CARD_TEXT_BINDINGS.map((option) => (
+                                <option key={option.value} value={option.value}>
+                                  {t(`cardDesigner.bindings.${option.value}`)}
+                                </option>
+                              ))}
+                            </select>
+                          </Field.Root>
+
+                          {selectedBlock.binding === 'custom' && (
+                            <Field.Root>
+                              <Field.Label fontSize="sm" color="gray.700">
+                                {t('cardDesigner.text')}
+                              </Field.Label>
+                              <Textarea
+                                value={selectedBlock.text}
+                                onChange={(e) =>
+                                  updateBlock(selectedBlock.id, { text: e.target.value })
+                                }
+                                rows={2}
+                                bg="white"
+                                borderRadius="md"
+                                borderColor="gray.200"
+                                _focus={focusStyle}
+                              />
+                            </Field.Root>
+                          )}
+
+                          <SimpleGrid columns={{ base: 1, md: 2 }} gap={4}>
+                            <Field.Root>
+                              <Field.Label fontSize="sm" color="gray.700">
+                                {t('cardDesigner.position', { percent: Math.round(selectedBlock.y) })}
+                              </Field.Label>
+                              <Input
+                                type="range"
+                                min={0}
+                                max={95}
+                                step={1}
+                                value={selectedBlock.y}
+                                onChange={(e) =>
+                                  updateBlock(selectedBlock.id, { y: Number(e.target.value) })
+                                }
+                                p={0}
+                                border="none"
+                                accentColor={THEME.COLORS.primary}
+                              />
+                            </Field.Root>
+                            <Field.Root>
+                              <Field.Label fontSize="sm" color="gray.700">
+                                {t('cardDesigner.size', { size: selectedBlock.font_size })}
+                              </Field.Label>
+                              <Input
+                                type="range"
+                                min={2}
+                                max={14}
+                                step={0.5}
+                                value={selectedBlock.font_size}
+                                onChange={(e) =>
+                                  updateBlock(selectedBlock.id, {
+                                    font_size: Number(e.target.value),
+                                  })
+                                }
+                                p={0}
+                                border="none"
+                                accentColor={THEME.COLORS.primary}
+                              />
+                            </Field.Root>
+                          </SimpleGrid>
+
+                          <SimpleGrid columns={3} gap={3}>
+                            <Field.Root>
+                              <Field.Label fontSize="sm" color="gray.700">
+                                {t('cardDesigner.font')}
+                              </Field.Label>
+                              <select
+                                value={selectedBlock.font_family}
+                                onChange={(e) =>
+                                  updateBlock(selectedBlock.id, {
+                                    font_family: e.target.value as CardTextBlock['font_family'],
+                                  })
+                                }
+                                style={selectStyle}
+                              >
+                                <option value="serif">{t('cardDesigner.fonts.serif')}</option>
+                                <option value="sans-serif">{t('cardDesigner.fonts.sansSerif')}</option>
+                              </select>
+                            </Field.Root>
+                            <Field.Root>
+                              <Field.Label fontSize="sm" color="gray.700">
+                                {t('cardDesigner.weight')}
+                              </Field.Label>
+                              <select
+                                value={selectedBlock.font_weight}
+                                onChange={(e) =>
+                                  updateBlock(selectedBlock.id, {
+                                    font_weight: e.target.value as CardTextBlock['font_weight'],
+                                  })
+                                }
+                                style={selectStyle}
+                              >
+                                <option value="normal">{t('cardDesigner.weights.normal')}</option>
+                                <option value="bold">{t('cardDesigner.weights.bold')}</option>
+                              </select>
+                            </Field.Root>
+                            <Field.Root>
+                              <Field.Label fontSize="sm" color="gray.700">
+                                {t('cardDesigner.align')}
+                              </Field.Label>
+                              <select
+                                value={selectedBlock.align}
+                                onChange={(e) =>
+                                  updateBlock(selectedBlock.id, {
+                                    align: e.target.value as CardTextBlock['align'],
+                                  })
+                                }
+                                style={selectStyle}
+                              >
+                                <option value="left">{t('cardDesigner.alignments.left')}</option>
+                                <option value="center">{t('cardDesigner.alignments.center')}</option>
+                                <option value="right">{t('cardDesigner.alignments.right')}</option>
+                              </select>
+                            </Field.Root>
+                          </SimpleGrid>
+
+                          <Field.Root>
+                            <Field.Label fontSize="sm" color="gray.700">
+                              {t('cardDesigner.color')}
+                            </Field.Label>
+                            <ColorSwatches
+                              value={selectedBlock.color}
+                              onChange={(color) => updateBlock(selectedBlock.id, { color })}
+                            />
+                          </Field.Root>
+                        </Stack>
+                      )}
+                    </Stack>
+                  </Box>
+                </Stack>
+              </Flex>
+            )}
+          </Container>
+        </Box>
+
+        {event && (
+          <CardExportDialog
+            eventId={event.id}
+            event={event}
+            layout={layout}
+            isOpen={isExportOpen}
+            onClose={() => setIsExportOpen(false)}
+          />
+        )}
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  SimpleGrid,
+  Badge,
+  Spinner,
+  Center,
+} from '@chakra-ui/react';
+import { FiCreditCard, FiEdit, FiPlus } from 'react-icons/fi';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { getAllEvents, getEventTypeLabel } from '@/src/lib/events';
+import { getCardDesigns } from '@/src/lib/cards';
+import { getCardTemplate } from '@/src/lib/cardTemplates';
+import { encodeEventId } from '@/src/lib/id';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import CardPreview from '@/src/components/cards/CardPreview';
+import { ROUTES, THEME } from '@/src/lib/constants';
+import type { ApiError, CardDesign, CardLayout, EventListItem } from '@/src/types';
+
+/**
+ * Invitation Cards Page Component
+ *
+ * Lists the user's events with their invitation card. Events without a
+ * saved design show their event type's template as a starting point.
+ */
+export default function CardsPage() {
+  const [events, setEvents] = useState<EventListItem[]>([]);
+  const [designs, setDesigns] = useState<CardDesign[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+  const { activeOrganizationId } = useOrganization();
+
+  useEffect(() => {
+    const loadCards = async () => {
+      setLoading(true);
+      try {
+        const [eventData, designData] = await Promise.all([getAllEvents(), getCardDesigns()]);
+        setEvents(eventData);
+        setDesigns(designData);
+      } catch (error) {
+        toast.error(
+          t('cards.loadError'),
+          (error as ApiError)?.message || t('cards.loadErrorMessage')
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadCards();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeOrganizationId]);
+
+  const designsByEvent = new Map(designs.map((design) => [design.event, design]));
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {/* PAGE HEADER */}
+          <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+            <Container maxW="container.xl">
+              <Flex justify="space-between" align="center" flexWrap="wrap" gap={4}>
+                <Stack gap={1}>
+                  <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                    {t('cards.title')}
+                  </Heading>
+                  <Text color="gray.600">
+                    {t('cards.designedCount', { designed: designs.length, count: events.length })}
+                  </Text>
+                </Stack>
+
+                <Link href={ROUTES.PROTECTED.CARD_CREATE}>
+                  <Button {...THEME.BUTTON_STYLES.primaryButton}>
+                    <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                      <FiPlus size={20} />
+                    </Box>
+                    {t('cards.designCard')}
+                  </Button>
+                </Link>
+              </Flex>
+            </Container>
+          </Box>
+
+          <Container maxW="container.xl" py={8}>
+            {loading ? (
+              <Center py={20}>
+                <Spinner size="xl" color={THEME.COLORS.primary} />
+              </Center>
+            ) : events.length === 0 ? (
+              <Box bg="white" p={8} borderRadius="xl" boxShadow="md" textAlign="center">
+                <Stack gap={4} align="center">
+                  <Icon as={FiCreditCard} w={12} h={12} color="gray.300" />
+                  <Heading fontSize="xl" color="gray.700">
+                    {t('cards.emptyTitle')}
+                  </Heading>
+                  <Text color="gray.600" maxW="md">
+                    {t('cards.emptyText')}
+                  </Text>
+                  <Link href={ROUTES.PROTECTED.EVENT_CREATE}>
+                    <Button {...THEME.BUTTON_STYLES.primaryButton}>
+                      {t('cards.createEvent')}
+                    </Button>
+                  </Link>
+                </Stack>
+              </Box>
+            ) : (
+              <SimpleGrid columns={{ base: 1, sm: 2, lg: 3, xl: 4 }} gap={6}>
+                {events.map((event) => {
+                  const design = designsByEvent.get(event.id);
+                  const template = getCardTemplate(event.event_type);
+                  const layout: CardLayout = design ?? { ...template, background_image: null };
+
+                  return (
+                    <Box key={event.id} bg="white" borderRadius="xl" boxShadow="md" p={5}>
+                      <Stack gap={4}>
+                        <Center
+                          bg={THEME.COLORS.background}
+                          borderRadius="md"
+                          py={4}
+                          opacity={design ? 1 : 0.6}
+                        >
+                          <CardPreview layout={layout} event={event} width={180} />
+                        </Center>
+                        <Stack gap={1}>
+                          <Text fontWeight="semibold" color="gray.800" lineClamp={1}>
+                            {event.event_name}
+                          </Text>
+                          <Flex gap={2}>
+                            <Badge colorScheme={design ? 'green' : 'gray'}>
+                              {design ? t('cards.designed') : t('cards.notDesigned')}
+                            </Badge>
+                            <Badge variant="outline">{getEventTypeLabel(event.event_type)}</Badge>
+                          </Flex>
+                        </Stack>
+                        <Link
+                          href={`${ROUTES.PROTECTED.CARD_CREATE}?event=${encodeEventId(event.id)}`}
+                        >
+                          <Button
+                            w="full"
+                            size="sm"
+                            {...THEME.BUTTON_STYLES.secondaryButton}
+                            variant="outline"
+                          >
+                            <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                              <Icon as={design ? FiEdit : FiPlus} />
+                            </Box>
+                            {design ? t('cards.editDesign') : t('cards.designCard')}
+                          </Button>
+                        </Link>
+                      </Stack>
+                    </Box>
+                  );
+                })}
+              </SimpleGrid>
+            )}
+          </Container>
+        </Box>
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
@@ -5,6 +5,7 @@
  * Features:
  * - Welcome message with user's first name
  * - Statistics cards showing event metrics
+ * - Remaining event quota on the current plan
  * - Quick action buttons for common tasks
  * - Recent activity placeholder
  * - Protected route wrapper
@@ -42,9 +43,16 @@ import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { useState, useEffect, type ReactNode } from 'react';
 import { useAuth } from '@/src/contexts/AuthContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
 import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
 import { ROUTES, THEME } from '@/src/lib/constants';
 import { getEventStats } from '@/src/lib/events';
+import { getPricingPlan } from '@/src/lib/billing';
+import useEventQuota from '@/src/hooks/useEventQuota';
+import EventQuotaNotice from '@/src/components/billing/EventQuotaNotice';
+import UpgradePlanDialog from '@/src/components/billing/UpgradePlanDialog';
+import ActivityFeed from '@/src/components/activity/ActivityFeed';
 import type { IconType } from 'react-icons';
 import type { EventStats } from '@/src/types';
 
@@ -173,8 +181,12 @@ function QuickActionButton({ href, icon: IconComponent, title, description }: Qu
  */
 export default function DashboardPage() {
   const { user } = useAuth();
+  const { activeOrganizationId } = useOrganization();
+  const { t } = useTranslation();
   const [eventStats, setEventStats] = useState<EventStats | null>(null);
   const [statsLoading, setStatsLoading] = useState<boolean>(true);
+  const [isUpgradeOpen, setIsUpgradeOpen] = useState<boolean>(false);
+  const { quota } = useEventQuota();
 
   useEffect(() => {
     const loadStats = async () => {
@@ -192,7 +204,7 @@ export default function DashboardPage() {
     };
 
     loadStats();
-  }, []);
+  }, [activeOrganizationId]);
 
   return (
     <ProtectedRoute>
@@ -212,15 +224,24 @@ export default function DashboardPage() {
                 {/* LEFT - Welcome Message */}
                 <Stack gap={2}>
                   <Heading fontSize="3xl" color={THEME.COLORS.primary} fontWeight="bold">
-                    Welcome back, {user?.first_name || 'User'}!
+                    {t('dashboard.welcome', { name: user?.first_name || t('dashboard.user') })}
                   </Heading>
                   <Text color="gray.600" fontSize="lg">
-                    Here's what's happening with your events
+                    {t('dashboard.subtitle')}
                   </Text>
                 </Stack>
 
                 {/* RIGHT - Create Event Button */}
-                <Link href="/events/create">
+                <Link
+                  href="/events/create"
+                  onClick={(e) => {
+                    // No events left on the plan: suggest an upgrade instead
+                    if (quota?.remaining === 0) {
+                      e.preventDefault();
+                      setIsUpgradeOpen(true);
+                    }
+                  }}
+                >
                   <Button
                     size="lg"
                     {...THEME.BUTTON_STYLES.primaryButton}
@@ -233,7 +254,7 @@ export default function DashboardPage() {
                     >
                       <FiPlus size={20} />
                     </Box>
-                    Create Event
+                    {t('dashboard.createEvent')}
                   </Button>
                 </Link>
               </Flex>
@@ -246,7 +267,7 @@ export default function DashboardPage() {
               {/* STATS SECTION */}
               <SimpleGrid columns={{ base: 1, md: 2, lg: 5 }} gap={6}>
                 <StatCard
-                  label="Total Events"
+                  label={t('dashboard.stats.totalEvents')}
                   value={
                     statsLoading ? (
                       <Spinner size="sm" />
@@ -256,14 +277,16 @@ export default function DashboardPage() {
                   }
                   helpText={
                     <>
-                      {eventStats?.active_events || 0} active •{' '}
-                      {eventStats?.draft_events || 0} draft
+                      {t('dashboard.stats.activeDraft', {
+                        active: eventStats?.active_events || 0,
+                        draft: eventStats?.draft_events || 0,
+                      })}
                     </>
                   }
                   icon={FiCalendar}
                 />
                 <StatCard
-                  label="Invitations Sent"
+                  label={t('eventDetail.stats.invitationsSent')}
                   value={
                     statsLoading ? (
                       <Spinner size="sm" />
@@ -271,11 +294,11 @@ export default function DashboardPage() {
                       eventStats?.total_invitations_sent || 0
                     )
                   }
-                  helpText="Total sent"
+                  helpText={t('eventDetail.stats.totalSent')}
                   icon={FiMail}
                 />
                 <StatCard
-                  label="RSVPs Received"
+                  label={t('eventDetail.stats.rsvpsReceived')}
                   value={
                     statsLoading ? (
                       <Spinner size="sm" />
@@ -283,11 +306,11 @@ export default function DashboardPage() {
                       eventStats?.total_confirmations || 0
                     )
                   }
-                  helpText="Confirmed attendees"
+                  helpText={t('dashboard.stats.confirmedAttendees')}
                   icon={FiCheckCircle}
                 />
                 <StatCard
-                  label="Upcoming Events"
+                  label={t('dashboard.stats.upcomingEvents')}
                   value={
                     statsLoading ? (
                       <Spinner size="sm" />
@@ -295,7 +318,7 @@ export default function DashboardPage() {
                       eventStats?.upcoming_events || 0
                     )
                   }
-                  helpText="Events coming soon"
+                  helpText={t('dashboard.stats.comingSoon')}
                   icon={FiTrendingUp}
                 />
                 {/* Stat Card 5 - Past Events */}
@@ -311,7 +334,7 @@ export default function DashboardPage() {
                     <Flex justify="space-between" align="start">
                       <Stack gap={1} flex={1}>
                         <Stat.Label color="gray.600" fontWeight="medium">
-                          Past Events
+                          {t('dashboard.stats.pastEvents')}
                         </Stat.Label>
                         <Stat.ValueText fontSize="3xl" color={THEME.COLORS.primary}>
                           {statsLoading ? (
@@ -321,7 +344,7 @@ export default function DashboardPage() {
                           )}
                         </Stat.ValueText>
                         <Stat.HelpText color="gray.500">
-                          Completed
+                          {t('dashboard.stats.completed')}
                         </Stat.HelpText>
                       </Stack>
                       <Box
@@ -341,6 +364,9 @@ export default function DashboardPage() {
                 </Box>
               </SimpleGrid>
 
+              {/* EVENT QUOTA */}
+              {quota && <EventQuotaNotice quota={quota} />}
+
               {/* Empty State - No Events */}
               {!statsLoading && eventStats && eventStats.total_events === 0 && (
                 <Box
@@ -355,10 +381,10 @@ export default function DashboardPage() {
                       📅
                     </Text>
                     <Heading fontSize="xl" color="gray.700">
-                      No Events Yet
+                      {t('dashboard.emptyTitle')}
                     </Heading>
                     <Text color="gray.600" maxW="md">
-                      You haven't created any events. Start by creating your first event to see statistics here.
+                      {t('dashboard.emptyText')}
                     </Text>
                     <Link href={ROUTES.PROTECTED.EVENT_CREATE}>
                       <Button
@@ -372,7 +398,7 @@ export default function DashboardPage() {
                         >
                           <FiPlus size={20} />
                         </Box>
-                        Create Your First Event
+                        {t('dashboard.createFirst')}
                       </Button>
                     </Link>
                   </Stack>
@@ -388,26 +414,26 @@ export default function DashboardPage() {
               >
                 <Stack gap={6}>
                   <Heading fontSize="xl" color={THEME.COLORS.primary} fontWeight="bold">
-                    Quick Actions
+                    {t('eventDetail.quickActions')}
                   </Heading>
                   <SimpleGrid columns={{ base: 1, md: 3 }} gap={4}>
                     <QuickActionButton
                       href="/events/create"
                       icon={FiCalendar}
-                      title="Create Event"
-                      description="Start planning your next event"
+                      title={t('dashboard.createEvent')}
+                      description={t('dashboard.actions.createEventText')}
                     />
                     <QuickActionButton
-                      href="/cards/create"
+                      href={ROUTES.PROTECTED.CARD_CREATE}
                       icon={FiCreditCard}
-                      title="Design Card"
-                      description="Create beautiful invitations"
+                      title={t('dashboard.actions.designCard')}
+                      description={t('dashboard.actions.designCardText')}
                     />
                     <QuickActionButton
                       href="/events"
                       icon={FiUsers}
-                      title="View Events"
-                      description="Manage your events"
+                      title={t('dashboard.actions.viewEvents')}
+                      description={t('dashboard.actions.viewEventsText')}
                     />
                   </SimpleGrid>
                 </Stack>
@@ -440,12 +466,12 @@ export default function DashboardPage() {
                   <Flex align="center" gap={3}>
                     <Icon as={FiZap} w={8} h={8} />
                     <Heading fontSize="2xl">
-                      Upgrade Your Plan
+                      {t('dashboard.upgradeTitle')}
                     </Heading>
                   </Flex>
 
                   <Text fontSize="lg" opacity={0.95}>
-                    Get more events, unlimited messages, and premium features. Choose a plan that grows with you.
+                    {t('dashboard.upgradeText')}
                   </Text>
 
                   <Flex gap={4} flexWrap="wrap">
@@ -464,12 +490,12 @@ export default function DashboardPage() {
                         >
                           <Icon as={FiArrowRight} />
                         </Box>
-                        View Pricing
+                        {t('dashboard.viewPricing')}
                       </Button>
                     </Link>
 
                     <Text fontSize="sm" alignSelf="center">
-                      Currently on:{' '}
+                      {t('dashboard.currentPlan')}{' '}
                       <Box
                         as="span"
                         ml={2}
@@ -479,43 +505,30 @@ export default function DashboardPage() {
                         bg="whiteAlpha.300"
                         fontWeight="semibold"
                       >
-                        Pay As You Go
+                        {getPricingPlan(quota?.plan ?? 'payg').name}
                       </Box>
                     </Text>
                   </Flex>
                 </Stack>
               </Box>
 
-              {/* RECENT ACTIVITY (Placeholder) */}
-              <Box
-                bg="white"
-                p={8}
-                borderRadius="xl"
-                boxShadow="md"
-              >
-                <Stack gap={6}>
-                  <Heading fontSize="xl" color={THEME.COLORS.primary} fontWeight="bold">
-                    Recent Activity
-                  </Heading>
-                  {!statsLoading && eventStats && eventStats.total_events > 0 ? (
-                    <Text color="gray.500" textAlign="center" py={8}>
-                      Recent activity feed coming soon. You have {eventStats.total_events}{' '}
-                      event{eventStats.total_events !== 1 ? 's' : ''}.
-                    </Text>
-                  ) : (
-                    <Text color="gray.500" textAlign="center" py={8}>
-                      No recent activity. Create your first event to get started!
-                    </Text>
-                  )}
-                </Stack>
-              </Box>
+              {/* RECENT ACTIVITY */}
+              <ActivityFeed emptyMessage={t('dashboard.activityEmpty')} />
             </Stack>
           </Container>
         </Box>
+
+        {/* EVENT LIMIT REACHED */}
+        <UpgradePlanDialog
+          isOpen={isUpgradeOpen}
+          quota={quota}
+          onClose={() => setIsUpgradeOpen(false)}
+        />
+
         <Box as="footer" py={6} bg={THEME.COLORS.background}>
           <Container maxW="container.xl">
             <Text textAlign="center" color="gray.400" fontSize="sm">
-              © 2025 Ekadi Platform. All rights reserved.
+              {t('common.copyright')}
             </Text>
           </Container>
         </Box>
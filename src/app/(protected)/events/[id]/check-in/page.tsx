@@ -0,0 +1,723 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Input,
+  Button,
+  Icon,
+  Flex,
+  Badge,
+  Spinner,
+  Center,
+  SimpleGrid,
+  Stat,
+  Progress,
+} from '@chakra-ui/react';
+import {
+  FiAlertTriangle,
+  FiArrowLeft,
+  FiCamera,
+  FiCameraOff,
+  FiCheckCircle,
+  FiRefreshCw,
+  FiSearch,
+  FiWifi,
+  FiWifiOff,
+  FiXCircle,
+} from 'react-icons/fi';
+import Link from 'next/link';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { getEventById } from '@/src/lib/events';
+import { getEventAccess } from '@/src/lib/collaborators';
+import { getEventGuests } from '@/src/lib/guests';
+import {
+  CHECK_IN_RECONNECT_MAX_MS,
+  CHECK_IN_RECONNECT_MIN_MS,
+  CHECK_IN_SUMMARY_REFRESH_MS,
+  checkInGuest,
+  getCheckInSummary,
+  preloadCheckInQrDecoder,
+  searchGuestsByName,
+} from '@/src/lib/checkIn';
+import {
+  cacheCheckInData,
+  checkInOffline,
+  getCachedCheckInData,
+  getPendingCheckIns,
+  syncPendingCheckIns,
+} from '@/src/lib/checkInOffline';
+import { isNetworkError } from '@/src/lib/api';
+import { getDateLocale } from '@/src/lib/i18n';
+import { decodeEventId } from '@/src/lib/id';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import QrScanner from '@/src/components/checkin/QrScanner';
+import { ROUTES, THEME } from '@/src/lib/constants';
+import type {
+  ApiError,
+  CheckInConflict,
+  CheckInPayload,
+  CheckInResult,
+  EventDetail,
+  Guest,
+} from '@/src/types';
+
+/**
+ * Outcome of the most recent check-in attempt, shown under the scanner
+ */
+interface ScanOutcome {
+  type: 'success' | 'duplicate' | 'error';
+  title: string;
+  detail: string;
+}
+
+const OUTCOME_STYLES = {
+  success: { icon: FiCheckCircle, bg: 'green.50', border: 'green.400', color: 'green.700' },
+  duplicate: { icon: FiAlertTriangle, bg: 'orange.50', border: 'orange.400', color: 'orange.700' },
+  error: { icon: FiXCircle, bg: 'red.50', border: 'red.400', color: 'red.700' },
+} as const;
+
+/**
+ * Format a check-in timestamp for display
+ */
+const formatCheckedInAt = (timestamp: string): string =>
+  new Date(timestamp).toLocaleTimeString(getDateLocale(), { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Event Check-in Page Component
+ *
+ * Door check-in for an event. Staff scan the QR code on a guest's RSVP
+ * page with the device camera, or search the guest list by name when
+ * the guest does not have their phone. Guests checked in twice trigger
+ * a warning. The arrived counter refreshes periodically so several
+ * devices can check guests in at once.
+ *
+ * The guest list is saved on the device so check-in continues offline;
+ * offline check-ins are queued and synced when the connection returns,
+ * and guests checked in on two devices are listed for review.
+ */
+export default function EventCheckInPage() {
+  const [event, setEvent] = useState<EventDetail | null>(null);
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [arrivedCount, setArrivedCount] = useState(0);
+  const [expectedCount, setExpectedCount] = useState(0);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [checkingInGuestId, setCheckingInGuestId] = useState<number | null>(null);
+  const [outcome, setOutcome] = useState<ScanOutcome | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<CheckInConflict[]>([]);
+
+  const params = useParams();
+  const router = useRouter();
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+
+  const slug = (params as { id: string }).id;
+  const eventId = decodeEventId(slug);
+
+  useEffect(() => {
+    const loadPage = async () => {
+      if (!eventId) {
+        router.push(ROUTES.PROTECTED.EVENTS);
+        return;
+      }
+
+      setLoading(true);
+      setIsOnline(navigator.onLine);
+      preloadCheckInQrDecoder();
+
+      const pending = await getPendingCheckIns(eventId).catch(() => []);
+      setPendingCount(pending.length);
+
+      try {
+        const [eventData, guestData, summary] = await Promise.all([
+          getEventById(eventId),
+          getEventGuests(eventId),
+          getCheckInSummary(eventId),
+        ]);
+        if (!getEventAccess(eventData).canCheckIn) {
+          toast.error(t('checkIn.noAccess'));
+          router.push(ROUTES.PROTECTED.EVENT_DETAIL(slug));
+          return;
+        }
+        setEvent(eventData);
+        setGuests(guestData);
+        setArrivedCount(summary.arrived_count);
+        setExpectedCount(summary.attendee_count);
+
+        // Sync anything left over from an earlier session
+        if (pending.length > 0) {
+          syncQueue();
+        }
+      } catch (error) {
+        // Fall back to the guest list saved on this device
+        const cached = isNetworkError(error)
+          ? await getCachedCheckInData(eventId).catch(() => null)
+          : null;
+
+        if (cached && getEventAccess(cached.event).canCheckIn) {
+          setEvent(cached.event);
+          setGuests(cached.guests);
+          setArrivedCount(cached.arrived_count);
+          setExpectedCount(cached.attendee_count);
+          setIsOnline(false);
+          toast.warning(
+            t('checkIn.workingOffline'),
+            t('checkIn.workingOfflineMessage', {
+              time: new Date(cached.cached_at).toLocaleString(getDateLocale()),
+            })
+          );
+          return;
+        }
+
+        toast.error(
+          t('checkIn.loadError'),
+          (error as ApiError)?.message || t('checkIn.loadErrorMessage')
+        );
+        router.push(ROUTES.PROTECTED.EVENTS);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId]);
+
+  // Save the guest list on the device whenever it changes
+  useEffect(() => {
+    if (!eventId || !event) return;
+    cacheCheckInData({
+      event_id: eventId,
+      event,
+      guests,
+      arrived_count: arrivedCount,
+      attendee_count: expectedCount,
+    }).catch(() => undefined);
+  }, [eventId, event, guests, arrivedCount, expectedCount]);
+
+  const syncQueue = useCallback(async () => {
+    if (!eventId) return;
+
+    setIsSyncing(true);
+    try {
+      const result = await syncPendingCheckIns(eventId);
+      const serverGuests = new Map(result.guests.map((guest) => [guest.id, guest]));
+      setGuests((prev) => prev.map((guest) => serverGuests.get(guest.id) ?? guest));
+      setPendingCount(result.remaining);
+
+      if (result.conflicts.length > 0) {
+        setConflicts((prev) => [...result.conflicts, ...prev]);
+        toast.warning(
+          t('checkIn.conflicts'),
+          t('checkIn.conflictsMessage', { count: result.conflicts.length })
+        );
+      }
+      if (result.synced > 0) {
+        toast.success(
+          t('checkIn.synced'),
+          t('checkIn.syncedMessage', { count: result.synced })
+        );
+      }
+      if (result.rejected > 0) {
+        toast.error(
+          t('checkIn.rejected'),
+          t('checkIn.rejectedMessage', { count: result.rejected })
+        );
+      }
+
+      if (result.remaining === 0) {
+        const summary = await getCheckInSummary(eventId);
+        setArrivedCount(summary.arrived_count);
+        setExpectedCount(summary.attendee_count);
+      }
+    } catch {
+      // Still offline or the device store is unavailable; try again later
+    } finally {
+      setIsSyncing(false);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId]);
+
+  // Track connectivity and replay queued check-ins when it returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncQueue]);
+
+  // The online event only fires when the device gets a network back, not
+  // when the server answers again, so check the API with a growing delay
+  useEffect(() => {
+    if (!eventId || loading || isOnline) return;
+
+    let delay = CHECK_IN_RECONNECT_MIN_MS;
+    let timeout: ReturnType<typeof setTimeout>;
+    let cancelled = false;
+
+    const checkConnection = () => {
+      timeout = setTimeout(async () => {
+        try {
+          const summary = await getCheckInSummary(eventId);
+          if (cancelled) return;
+          setArrivedCount(summary.arrived_count);
+          setExpectedCount(summary.attendee_count);
+          setIsOnline(true);
+          syncQueue();
+        } catch {
+          if (cancelled) return;
+          delay = Math.min(delay * 2, CHECK_IN_RECONNECT_MAX_MS);
+          checkConnection();
+        }
+      }, delay);
+    };
+
+    checkConnection();
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [eventId, loading, isOnline, syncQueue]);
+
+  // Keep the counter in step with other devices checking guests in
+  useEffect(() => {
+    if (!eventId || loading || !isOnline) return;
+
+    const interval = setInterval(() => {
+      getCheckInSummary(eventId)
+        .then((summary) => {
+          setArrivedCount(summary.arrived_count);
+          setExpectedCount(summary.attendee_count);
+        })
+        .catch((error) => {
+          if (isNetworkError(error)) setIsOnline(false);
+        });
+    }, CHECK_IN_SUMMARY_REFRESH_MS);
+
+    return () => clearInterval(interval);
+  }, [eventId, loading, isOnline]);
+
+  const searchResults = useMemo(
+    () => searchGuestsByName(guests, searchQuery).slice(0, 20),
+    [guests, searchQuery]
+  );
+
+  const handleCheckIn = async (payload: CheckInPayload) => {
+    if (!eventId || !event || isCheckingIn || !getEventAccess(event).canCheckIn) return;
+
+    setIsCheckingIn(true);
+    setCheckingInGuestId(payload.guest_id ?? null);
+    try {
+      let result: CheckInResult | null = null;
+      let queued = false;
+
+      if (navigator.onLine) {
+        try {
+          result = await checkInGuest(eventId, payload);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+        }
+      }
+
+      if (!result) {
+        // No connection: check in against the saved guest list and queue it
+        setIsOnline(false);
+        const local = await checkInOffline(eventId, guests, payload);
+        queued = !local.already_checked_in;
+        result = { ...local, arrived_count: arrivedCount + (queued ? 1 : 0) };
+        if (queued) setPendingCount((count) => count + 1);
+      }
+
+      setGuests((prev) =>
+        prev.map((guest) => (guest.id === result.guest.id ? result.guest : guest))
+      );
+      setArrivedCount(result.arrived_count);
+
+      if (result.already_checked_in) {
+        setOutcome({
+          type: 'duplicate',
+          title: t('checkIn.alreadyCheckedInName', { name: result.guest.full_name }),
+          detail: result.guest.checked_in_at
+            ? t('checkIn.arrivedAt', { time: formatCheckedInAt(result.guest.checked_in_at) })
+            : t('checkIn.arrivedEarlier'),
+        });
+        toast.warning(t('checkIn.alreadyCheckedIn'), result.guest.full_name);
+      } else {
+        setOutcome({
+          type: 'success',
+          title: t('checkIn.welcome', { name: result.guest.full_name }),
+          detail: [
+            result.guest.plus_ones > 0
+              ? t('checkIn.mayBring', { count: result.guest.plus_ones })
+              : t('checkIn.checkedIn'),
+            queued ? t('checkIn.queued') : '',
+          ]
+            .filter(Boolean)
+            .join(' '),
+        });
+      }
+    } catch (error) {
+      setOutcome({
+        type: 'error',
+        title: t('checkIn.failed'),
+        detail: (error as ApiError | Error)?.message || t('checkIn.invalidCode'),
+      });
+    } finally {
+      setIsCheckingIn(false);
+      setCheckingInGuestId(null);
+    }
+  };
+
+  const handleScan = (token: string) => {
+    handleCheckIn({ method: 'qr', token });
+  };
+
+  const expected = expectedCount || event?.attendee_count || 0;
+  const progress = expected > 0 ? Math.min((arrivedCount / expected) * 100, 100) : 0;
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {loading ? (
+            <Center py={20}>
+              <Spinner size="xl" color={THEME.COLORS.primary} />
+            </Center>
+          ) : event ? (
+            <>
+              {/* PAGE HEADER */}
+              <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+                <Container maxW="container.xl">
+                  <Stack gap={3}>
+                    <Link href={ROUTES.PROTECTED.EVENT_DETAIL(slug)}>
+                      <Button variant="ghost" size="sm" color={THEME.COLORS.primary}>
+                        <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                          <Icon as={FiArrowLeft} />
+                        </Box>
+                        {t('eventDetail.backToEvent')}
+                      </Button>
+                    </Link>
+                    <Stack gap={1}>
+                      <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                        {t('checkIn.title')}
+                      </Heading>
+                      <Text color="gray.600">
+                        {event.event_name} • {t('checkIn.onTheList', { count: guests.length })}
+                      </Text>
+                    </Stack>
+                  </Stack>
+                </Container>
+              </Box>
+
+              <Container maxW="container.xl" py={8}>
+                <Stack gap={6}>
+                  {/* CONNECTION STATUS */}
+                  {(!isOnline || pendingCount > 0) && (
+                    <Box
+                      bg={isOnline ? 'blue.50' : 'orange.50'}
+                      borderLeft="4px solid"
+                      borderColor={isOnline ? 'blue.400' : 'orange.400'}
+                      borderRadius="md"
+                      p={4}
+                    >
+                      <Flex justify="space-between" align="center" gap={4} flexWrap="wrap">
+                        <Flex gap={3} align="center">
+                          <Icon
+                            as={isOnline ? FiWifi : FiWifiOff}
+                            w={5}
+                            h={5}
+                            color={isOnline ? 'blue.600' : 'orange.600'}
+                          />
+                          <Stack gap={0}>
+                            <Text fontWeight="semibold" color={isOnline ? 'blue.700' : 'orange.700'}>
+                              {isOnline ? t('checkIn.backOnline') : t('checkIn.offline')}
+                            </Text>
+                            <Text fontSize="sm" color="gray.700">
+                              {t('checkIn.pending', { count: pendingCount })}
+                            </Text>
+                          </Stack>
+                        </Flex>
+                        {isOnline && pendingCount > 0 && (
+                          <Button
+                            size="sm"
+                            {...THEME.BUTTON_STYLES.secondaryButton}
+                            variant="outline"
+                            onClick={syncQueue}
+                            loading={isSyncing}
+                          >
+                            <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                              <Icon as={FiRefreshCw} />
+                            </Box>
+                            {t('checkIn.syncNow')}
+                          </Button>
+                        )}
+                      </Flex>
+                    </Box>
+                  )}
+
+                  {/* CONFLICTS */}
+                  {conflicts.length > 0 && (
+                    <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                      <Stack gap={4}>
+                        <Flex justify="space-between" align="center" gap={3}>
+                          <Stack gap={1}>
+                            <Heading fontSize="lg" color="orange.600">
+                              {t('checkIn.twoDevices')}
+                            </Heading>
+                            <Text fontSize="sm" color="gray.600">
+                              {t('checkIn.twoDevicesText')}
+                            </Text>
+                          </Stack>
+                          <Button size="sm" variant="ghost" onClick={() => setConflicts([])}>
+                            {t('checkIn.dismiss')}
+                          </Button>
+                        </Flex>
+                        <Stack gap={0}>
+                          {conflicts.map((conflict) => (
+                            <Flex
+                              key={`${conflict.guest_id}-${conflict.local_checked_in_at}`}
+                              justify="space-between"
+                              align="center"
+                              gap={3}
+                              py={3}
+                              borderTop="1px solid"
+                              borderColor="gray.100"
+                              flexWrap="wrap"
+                            >
+                              <Text fontWeight="semibold" color="gray.800">
+                                {conflict.guest_name}
+                              </Text>
+                              <Text fontSize="sm" color="gray.600">
+                                {t('checkIn.conflictTimes', {
+                                  other: conflict.server_checked_in_at
+                                    ? formatCheckedInAt(conflict.server_checked_in_at)
+                                    : '-',
+                                  local: formatCheckedInAt(conflict.local_checked_in_at),
+                                })}
+                              </Text>
+                            </Flex>
+                          ))}
+                        </Stack>
+                      </Stack>
+                    </Box>
+                  )}
+
+                  {/* COUNTER */}
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                    <Stack gap={4}>
+                      <SimpleGrid columns={{ base: 2, md: 3 }} gap={6}>
+                        <Stat.Root>
+                          <Stat.Label fontSize="xs" color="gray.600">
+                            {t('checkIn.arrived')}
+                          </Stat.Label>
+                          <Stat.ValueText fontSize="3xl" color={THEME.COLORS.success}>
+                            {arrivedCount}
+                          </Stat.ValueText>
+                        </Stat.Root>
+                        <Stat.Root>
+                          <Stat.Label fontSize="xs" color="gray.600">
+                            {t('checkIn.expected')}
+                          </Stat.Label>
+                          <Stat.ValueText fontSize="3xl" color={THEME.COLORS.primary}>
+                            {expected}
+                          </Stat.ValueText>
+                          <Stat.HelpText color="gray.500">
+                            {t('dashboard.stats.confirmedAttendees')}
+                          </Stat.HelpText>
+                        </Stat.Root>
+                        <Stat.Root>
+                          <Stat.Label fontSize="xs" color="gray.600">
+                            {t('checkIn.stillToArrive')}
+                          </Stat.Label>
+                          <Stat.ValueText fontSize="3xl" color="gray.700">
+                            {Math.max(expected - arrivedCount, 0)}
+                          </Stat.ValueText>
+                        </Stat.Root>
+                      </SimpleGrid>
+                      <Progress.Root value={progress} colorPalette="teal">
+                        <Progress.Track>
+                          <Progress.Range />
+                        </Progress.Track>
+                      </Progress.Root>
+                    </Stack>
+                  </Box>
+
+                  <SimpleGrid columns={{ base: 1, lg: 2 }} gap={6} alignItems="start">
+                    {/* SCANNER */}
+                    <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                      <Stack gap={4}>
+                        <Flex justify="space-between" align="center" gap={3}>
+                          <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                            {t('checkIn.scan')}
+                          </Heading>
+                          <Button
+                            size="sm"
+                            {...(isCameraOn
+                              ? { variant: 'outline' as const }
+                              : THEME.BUTTON_STYLES.primaryButton)}
+                            onClick={() => setIsCameraOn((on) => !on)}
+                          >
+                            <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                              <Icon as={isCameraOn ? FiCameraOff : FiCamera} />
+                            </Box>
+                            {isCameraOn ? t('checkIn.stopCamera') : t('checkIn.startCamera')}
+                          </Button>
+                        </Flex>
+
+                        <QrScanner active={isCameraOn} onScan={handleScan} />
+
+                        {isCheckingIn && checkingInGuestId === null && (
+                          <Flex align="center" gap={2} color="gray.600" fontSize="sm">
+                            <Spinner size="sm" color={THEME.COLORS.primary} />
+                            {t('checkIn.checking')}
+                          </Flex>
+                        )}
+
+                        {outcome && (
+                          <Box
+                            bg={OUTCOME_STYLES[outcome.type].bg}
+                            borderLeft="4px solid"
+                            borderColor={OUTCOME_STYLES[outcome.type].border}
+                            borderRadius="md"
+                            p={4}
+                          >
+                            <Flex gap={3} align="flex-start">
+                              <Icon
+                                as={OUTCOME_STYLES[outcome.type].icon}
+                                w={6}
+                                h={6}
+                                color={OUTCOME_STYLES[outcome.type].color}
+                                flexShrink={0}
+                              />
+                              <Stack gap={1}>
+                                <Text fontWeight="semibold" color={OUTCOME_STYLES[outcome.type].color}>
+                                  {outcome.title}
+                                </Text>
+                                <Text fontSize="sm" color="gray.700">
+                                  {outcome.detail}
+                                </Text>
+                              </Stack>
+                            </Flex>
+                          </Box>
+                        )}
+                      </Stack>
+                    </Box>
+
+                    {/* MANUAL SEARCH */}
+                    <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                      <Stack gap={4}>
+                        <Stack gap={1}>
+                          <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                            {t('checkIn.findByName')}
+                          </Heading>
+                          <Text fontSize="sm" color="gray.600">
+                            {t('checkIn.findByNameText')}
+                          </Text>
+                        </Stack>
+
+                        <Flex align="center" gap={3}>
+                          <Icon as={FiSearch} color="gray.400" />
+                          <Input
+                            placeholder={t('checkIn.searchPlaceholder')}
+                            variant="flushed"
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                          />
+                        </Flex>
+
+                        {searchQuery.trim() === '' ? (
+                          <Text fontSize="sm" color="gray.500" textAlign="center" py={6}>
+                            {t('checkIn.startTyping')}
+                          </Text>
+                        ) : searchResults.length === 0 ? (
+                          <Text fontSize="sm" color="gray.500" textAlign="center" py={6}>
+                            {t('checkIn.noMatch', { query: searchQuery.trim() })}
+                          </Text>
+                        ) : (
+                          <Stack gap={0}>
+                            {searchResults.map((guest) => (
+                              <Flex
+                                key={guest.id}
+                                justify="space-between"
+                                align="center"
+                                gap={3}
+                                py={3}
+                                borderTop="1px solid"
+                                borderColor="gray.100"
+                              >
+                                <Box minW={0}>
+                                  <Text fontWeight="semibold" color="gray.800" lineClamp={1}>
+                                    {guest.full_name}
+                                  </Text>
+                                  <Text fontSize="xs" color="gray.500">
+                                    {guest.phone_number}
+                                    {guest.plus_ones > 0 ? ` • +${guest.plus_ones}` : ''}
+                                  </Text>
+                                </Box>
+                                {guest.checked_in_at ? (
+                                  <Badge colorScheme="green" flexShrink={0}>
+                                    {t('checkIn.arrivedBadge', {
+                                      time: formatCheckedInAt(guest.checked_in_at),
+                                    })}
+                                  </Badge>
+                                ) : (
+                                  <Button
+                                    size="sm"
+                                    flexShrink={0}
+                                    {...THEME.BUTTON_STYLES.primaryButton}
+                                    onClick={() =>
+                                      handleCheckIn({ method: 'manual', guest_id: guest.id })
+                                    }
+                                    loading={checkingInGuestId === guest.id}
+                                    disabled={isCheckingIn}
+                                  >
+                                    {t('checkIn.checkIn')}
+                                  </Button>
+                                )}
+                              </Flex>
+                            ))}
+                          </Stack>
+                        )}
+                      </Stack>
+                    </Box>
+                  </SimpleGrid>
+                </Stack>
+              </Container>
+            </>
+          ) : null}
+        </Box>
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
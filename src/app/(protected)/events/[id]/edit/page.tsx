@@ -20,49 +20,52 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import Link from 'next/link';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { getEventById, updateEvent } from '@/src/lib/events';
+import { getEventById, getEventTypeLabel, updateEvent } from '@/src/lib/events';
+import { getEventAccess } from '@/src/lib/collaborators';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import AuthNav from '@/src/components/layout/AuthNav';
 import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
 import { ROUTES, THEME, EVENT_TYPES, EVENT_STATUSES } from '@/src/lib/constants';
-import type { EventFormData, EventDetail } from '@/src/types';
+import type { EventFormData, EventDetail, LocaleContextType } from '@/src/types';
 import { decodeEventId, encodeEventId } from '@/src/lib/id';
 
-const eventUpdateSchema = z
-  .object({
-    event_type: z.enum(['wedding', 'send_off', 'conference', 'birthday', 'corporate', 'other']).optional(),
-    event_name: z
-      .string()
-      .min(3, 'Event name must be at least 3 characters')
-      .max(255, 'Event name must be at most 255 characters')
-      .optional(),
-    event_location: z
-      .string()
-      .min(3, 'Location is required')
-      .optional(),
-    event_date: z.string().optional(),
-    event_time: z.string().optional(),
-    event_description: z.string().optional(),
-    status: z.enum(['draft', 'active', 'closed']).optional(),
-  })
-  .refine(
-    (data) => {
-      if (!data.event_date) return true;
-      const selected = new Date(data.event_date);
-      const today = new Date();
-      selected.setHours(0, 0, 0, 0);
-      today.setHours(0, 0, 0, 0);
-      return selected >= today;
-    },
-    {
-      path: ['event_date'],
-      message: 'Event date cannot be in the past',
-    }
-  );
+const createEventUpdateSchema = (t: LocaleContextType['t']) =>
+  z
+    .object({
+      event_type: z.enum(['wedding', 'send_off', 'conference', 'birthday', 'corporate', 'other']).optional(),
+      event_name: z
+        .string()
+        .min(3, t('eventForm.validation.nameMin'))
+        .max(255, t('eventForm.validation.nameMax'))
+        .optional(),
+      event_location: z
+        .string()
+        .min(3, t('eventForm.validation.locationRequired'))
+        .optional(),
+      event_date: z.string().optional(),
+      event_time: z.string().optional(),
+      event_description: z.string().optional(),
+      status: z.enum(['draft', 'active', 'closed']).optional(),
+    })
+    .refine(
+      (data) => {
+        if (!data.event_date) return true;
+        const selected = new Date(data.event_date);
+        const today = new Date();
+        selected.setHours(0, 0, 0, 0);
+        today.setHours(0, 0, 0, 0);
+        return selected >= today;
+      },
+      {
+        path: ['event_date'],
+        message: t('eventForm.validation.datePast'),
+      }
+    );
 
-type EventUpdateFormValues = z.infer<typeof eventUpdateSchema>;
+type EventUpdateFormValues = z.infer<ReturnType<typeof createEventUpdateSchema>>;
 
 export default function EditEventPage() {
   const [event, setEvent] = useState<EventDetail | null>(null);
@@ -75,6 +78,8 @@ export default function EditEventPage() {
 
   const router = useRouter();
   const toast = useCustomToast();
+  const { t } = useTranslation();
+  const eventUpdateSchema = useMemo(() => createEventUpdateSchema(t), [t]);
 
   const {
     register,
@@ -101,7 +106,13 @@ export default function EditEventPage() {
         setEvent(data);
 
         if (!data.can_edit) {
-          toast.error('Cannot edit closed events');
+          toast.error(t('eventForm.cannotEditClosed'));
+          router.push(ROUTES.PROTECTED.EVENT_DETAIL(encodeEventId(data.id)));
+          return;
+        }
+
+        if (!getEventAccess(data).canEdit) {
+          toast.error(t('eventForm.noEditAccess'));
           router.push(ROUTES.PROTECTED.EVENT_DETAIL(encodeEventId(data.id)));
           return;
         }
@@ -117,8 +128,8 @@ export default function EditEventPage() {
         });
       } catch (error: any) {
         toast.error(
-          'Error loading event',
-          error?.message || 'Failed to load event. Please try again.'
+          t('eventForm.loadError'),
+          error?.message || t('eventForm.loadErrorMessage')
         );
         router.push(ROUTES.PROTECTED.EVENTS);
       } finally {
@@ -135,14 +146,14 @@ export default function EditEventPage() {
     setIsSubmitting(true);
     try {
       await updateEvent(eventId, data);
-      toast.success('Event updated successfully!');
+      toast.success(t('eventForm.updated'));
       router.push(ROUTES.PROTECTED.EVENT_DETAIL(slug));
     } catch (error: any) {
       const message =
         error?.response?.data?.message ||
         error?.message ||
-        'Failed to update event. Please try again.';
-      toast.error('Error updating event', message);
+        t('eventForm.updateErrorMessage');
+      toast.error(t('eventForm.updateError'), message);
       // eslint-disable-next-line no-console
       console.error('Update event error:', error);
     } finally {
@@ -168,10 +179,10 @@ export default function EditEventPage() {
                   <Flex justify="space-between" align="center" flexWrap="wrap" gap={4}>
                     <Stack gap={1}>
                       <Heading fontSize="2xl" color={THEME.COLORS.primary}>
-                        Edit Event
+                        {t('eventForm.editTitle')}
                       </Heading>
                       <Text color="gray.600">
-                        Update the details of {event.event_name}
+                        {t('eventForm.editSubtitle', { name: event.event_name })}
                       </Text>
                     </Stack>
 
@@ -188,7 +199,7 @@ export default function EditEventPage() {
                         >
                           <Icon as={FiX} />
                         </Box>
-                        Cancel
+                        {t('common.cancel')}
                       </Button>
                     </Link>
                   </Flex>
@@ -208,7 +219,7 @@ export default function EditEventPage() {
                     <Flex align="center" gap={3}>
                       <Icon as={FiAlertTriangle} color="red.500" />
                       <Text fontSize="sm" color="gray.800">
-                        This event is closed and cannot be edited. Please reopen the event first.
+                        {t('eventForm.closedWarning')}
                       </Text>
                     </Flex>
                   </Box>
@@ -223,7 +234,7 @@ export default function EditEventPage() {
                       {/* EVENT TYPE */}
                       <Field.Root invalid={!!errors.event_type} required>
                         <Field.Label fontWeight="semibold" color="gray.700">
-                          Event Type
+                          {t('eventForm.eventType')}
                         </Field.Label>
                         <Box
                           as="select"
@@ -252,7 +263,7 @@ export default function EditEventPage() {
                               value={type.value}
                               style={{ backgroundColor: '#fff' }}
                             >
-                              {type.icon} {type.label}
+                              {type.icon} {getEventTypeLabel(type.value)}
                             </option>
                           ))}
                         </Box>
@@ -262,10 +273,10 @@ export default function EditEventPage() {
                       {/* EVENT NAME */}
                       <Field.Root invalid={!!errors.event_name} required>
                         <Field.Label fontWeight="semibold" color="gray.700">
-                          Event Name
+                          {t('eventForm.eventName')}
                         </Field.Label>
                         <Input
-                          placeholder="e.g., John & Mary Wedding"
+                          placeholder={t('eventForm.namePlaceholder')}
                           borderRadius="md"
                           borderColor="gray.200"
                           _focus={{
@@ -282,7 +293,7 @@ export default function EditEventPage() {
                       <Stack direction={{ base: 'column', md: 'row' }} gap={4}>
                         <Field.Root invalid={!!errors.event_date} required flex="1">
                           <Field.Label fontWeight="semibold" color="gray.700">
-                            Event Date
+                            {t('eventForm.eventDate')}
                           </Field.Label>
                           <Input
                             type="date"
@@ -301,7 +312,7 @@ export default function EditEventPage() {
 
                         <Field.Root invalid={!!errors.event_time} required flex="1">
                           <Field.Label fontWeight="semibold" color="gray.700">
-                            Event Time
+                            {t('eventForm.eventTime')}
                           </Field.Label>
                           <Input
                             type="time"
@@ -321,10 +332,10 @@ export default function EditEventPage() {
                       {/* LOCATION */}
                       <Field.Root invalid={!!errors.event_location} required>
                         <Field.Label fontWeight="semibold" color="gray.700">
-                          Event Location
+                          {t('eventForm.eventLocation')}
                         </Field.Label>
                         <Input
-                          placeholder="e.g., Safari Park Hotel, Nairobi"
+                          placeholder={t('eventForm.locationPlaceholder')}
                           borderRadius="md"
                           borderColor="gray.200"
                           _focus={{
@@ -340,10 +351,10 @@ export default function EditEventPage() {
                       {/* DESCRIPTION */}
                       <Field.Root invalid={!!errors.event_description}>
                         <Field.Label fontWeight="semibold" color="gray.700">
-                          Event Description
+                          {t('eventForm.eventDescription')}
                         </Field.Label>
                         <Textarea
-                          placeholder="Add any additional details about your event..."
+                          placeholder={t('eventForm.descriptionPlaceholder')}
                           rows={6}
                           borderRadius="md"
                           borderColor="gray.200"
@@ -355,7 +366,7 @@ export default function EditEventPage() {
                           {...register('event_description')}
                         />
                         <Text fontSize="xs" color="gray.500" mt={1}>
-                          Optional - Describe what guests should know
+                          {t('eventForm.descriptionHelp')}
                         </Text>
                         <Field.ErrorText>{errors.event_description?.message}</Field.ErrorText>
                       </Field.Root>
@@ -363,7 +374,7 @@ export default function EditEventPage() {
                       {/* STATUS */}
                       <Field.Root invalid={!!errors.status}>
                         <Field.Label fontWeight="semibold" color="gray.700">
-                          Event Status
+                          {t('eventForm.eventStatus')}
                         </Field.Label>
                         <Box
                           as="select"
@@ -392,12 +403,13 @@ export default function EditEventPage() {
                               value={status.value}
                               style={{ backgroundColor: '#fff' }}
                             >
-                              {status.label} - {status.description}
+                              {t(`eventStatuses.${status.value}.label`)} -{' '}
+                              {t(`eventStatuses.${status.value}.description`)}
                             </option>
                           ))}
                         </Box>
                         <Text fontSize="xs" color="gray.500" mt={1}>
-                          Change status to control event visibility and editability
+                          {t('eventForm.statusHelpEdit')}
                         </Text>
                         <Field.ErrorText>{errors.status?.message}</Field.ErrorText>
                       </Field.Root>
@@ -420,8 +432,7 @@ export default function EditEventPage() {
                               mt={0.5}
                             />
                             <Text fontSize="sm" color="gray.700">
-                              Closing this event will prevent further edits. You can reopen it later
-                              from the event details page.
+                              {t('eventForm.closingWarning')}
                             </Text>
                           </Flex>
                         </Box>
@@ -443,7 +454,7 @@ export default function EditEventPage() {
                           >
                             <Icon as={FiSave} />
                           </Box>
-                          Save Changes
+                          {t('common.saveChanges')}
                         </Button>
                         <Link href={ROUTES.PROTECTED.EVENT_DETAIL(slug)} style={{ flex: 1 }}>
                           <Button
@@ -451,7 +462,7 @@ export default function EditEventPage() {
                             {...THEME.BUTTON_STYLES.secondaryButton}
                             variant="outline"
                           >
-                            Cancel
+                            {t('common.cancel')}
                           </Button>
                         </Link>
                       </Stack>
@@ -462,7 +473,7 @@ export default function EditEventPage() {
             </>
           ) : (
             <Center py={20}>
-              <Text>Event not found.</Text>
+              <Text>{t('eventForm.notFound')}</Text>
             </Center>
           )}
         </Box>
@@ -470,7 +481,7 @@ export default function EditEventPage() {
         <Box as="footer" py={6} bg={THEME.COLORS.background}>
           <Container maxW="container.xl">
             <Text textAlign="center" color="gray.400" fontSize="sm">
-              © 2025 Ekadi Platform. All rights reserved.
+              {t('common.copyright')}
             </Text>
           </Container>
         </Box>
@@ -0,0 +1,636 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Input,
+  Textarea,
+  Button,
+  Icon,
+  IconButton,
+  Flex,
+  Field,
+  Badge,
+  Spinner,
+  Center,
+} from '@chakra-ui/react';
+import {
+  FiArrowLeft,
+  FiEdit,
+  FiPlus,
+  FiSave,
+  FiSearch,
+  FiTrash2,
+  FiUsers,
+  FiX,
+} from 'react-icons/fi';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { getEventById } from '@/src/lib/events';
+import { getEventAccess } from '@/src/lib/collaborators';
+import {
+  getEventGuests,
+  createGuest,
+  updateGuest,
+  deleteGuest,
+} from '@/src/lib/guests';
+import {
+  countryCodeSchema,
+  phoneNumberSchema,
+  formatPhoneNumber,
+  splitPhoneNumber,
+} from '@/src/lib/validation';
+import { decodeEventId } from '@/src/lib/id';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import { ROUTES, THEME, COUNTRY_CODES } from '@/src/lib/constants';
+import type {
+  ApiError,
+  EventDetail,
+  Guest,
+  GuestFormData,
+  LocaleContextType,
+} from '@/src/types';
+
+const createGuestSchema = (t: LocaleContextType['t']) =>
+  z.object({
+    full_name: z
+      .string()
+      .min(2, t('guests.validation.nameMin'))
+      .max(255, t('guests.validation.nameMax')),
+    email: z
+      .string()
+      .email(t('validation.emailInvalid'))
+      .optional()
+      .or(z.literal('')),
+    country_code: countryCodeSchema,
+    phone_number: phoneNumberSchema,
+    plus_ones: z
+      .number({ message: t('guests.validation.plusOnesNumber') })
+      .int(t('guests.validation.plusOnesInt'))
+      .min(0, t('guests.validation.plusOnesMin'))
+      .max(20, t('guests.validation.plusOnesMax')),
+    notes: z.string().optional(),
+  });
+
+type GuestFormValues = z.infer<ReturnType<typeof createGuestSchema>>;
+
+const EMPTY_FORM: GuestFormValues = {
+  full_name: '',
+  email: '',
+  country_code: COUNTRY_CODES[0].value,
+  phone_number: '',
+  plus_ones: 0,
+  notes: '',
+};
+
+const focusStyle = {
+  borderColor: THEME.COLORS.primary,
+  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+  outline: 'none',
+};
+
+/**
+ * Event Guest List Page Component
+ *
+ * Lists the guests of a single event and lets the organizer add,
+ * edit and remove them. Phone numbers are validated and normalised
+ * the same way as during registration.
+ */
+export default function EventGuestsPage() {
+  const [event, setEvent] = useState<EventDetail | null>(null);
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingGuest, setEditingGuest] = useState<Guest | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Guest | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const params = useParams();
+  const router = useRouter();
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+  const guestSchema = useMemo(() => createGuestSchema(t), [t]);
+
+  const slug = (params as { id: string }).id;
+  const eventId = decodeEventId(slug);
+  // Workspace viewers and co-hosts without guest access only see the list
+  const canManageGuests = !!event && event.can_edit && getEventAccess(event).canManageGuests;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<GuestFormValues>({
+    resolver: zodResolver(guestSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  const loadGuests = async (search?: string) => {
+    if (!eventId) return;
+    try {
+      const data = await getEventGuests(eventId, search ? { search } : undefined);
+      setGuests(data);
+    } catch (error) {
+      toast.error(
+        t('guests.loadError'),
+        (error as ApiError)?.message || t('guests.loadErrorMessage')
+      );
+      setGuests([]);
+    }
+  };
+
+  useEffect(() => {
+    const loadPage = async () => {
+      if (!eventId) {
+        router.push(ROUTES.PROTECTED.EVENTS);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const data = await getEventById(eventId);
+        setEvent(data);
+        await loadGuests();
+      } catch (error) {
+        toast.error(
+          t('eventForm.loadError'),
+          (error as ApiError)?.message || t('eventDetail.loadErrorMessage')
+        );
+        router.push(ROUTES.PROTECTED.EVENTS);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId]);
+
+  // Debounced server-side search
+  useEffect(() => {
+    if (loading) return;
+    const timeout = setTimeout(() => {
+      loadGuests(searchQuery);
+    }, 400);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchQuery]);
+
+  const openCreateForm = () => {
+    setEditingGuest(null);
+    reset(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (guest: Guest) => {
+    const { country_code, phone_number } = splitPhoneNumber(guest.phone_number);
+    setEditingGuest(guest);
+    reset({
+      full_name: guest.full_name,
+      email: guest.email || '',
+      country_code,
+      phone_number,
+      plus_ones: guest.plus_ones,
+      notes: guest.notes || '',
+    });
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingGuest(null);
+    reset(EMPTY_FORM);
+  };
+
+  const onSubmit = async (data: GuestFormValues) => {
+    if (!eventId || !canManageGuests) return;
+    setIsSubmitting(true);
+
+    // Updates send empty strings so clearing email or notes removes them;
+    // new guests simply leave them out
+    const emptyValue = editingGuest ? '' : undefined;
+    const payload: GuestFormData = {
+      full_name: data.full_name.trim(),
+      email: data.email || emptyValue,
+      phone_number: formatPhoneNumber(data.country_code, data.phone_number),
+      plus_ones: data.plus_ones,
+      notes: data.notes || emptyValue,
+    };
+
+    try {
+      if (editingGuest) {
+        await updateGuest(eventId, editingGuest.id, payload);
+        toast.success(t('guests.updated'));
+      } else {
+        await createGuest(eventId, payload);
+        toast.success(t('guests.added'));
+      }
+      closeForm();
+      await loadGuests(searchQuery);
+    } catch (error) {
+      toast.error(
+        editingGuest ? t('guests.updateError') : t('guests.addError'),
+        (error as ApiError)?.message || t('guests.saveErrorMessage')
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!eventId || !deleteTarget || !canManageGuests) return;
+    setIsDeleting(true);
+    try {
+      await deleteGuest(eventId, deleteTarget.id);
+      toast.success(t('guests.removed'));
+      setGuests((prev) => prev.filter((guest) => guest.id !== deleteTarget.id));
+    } catch (error) {
+      toast.error(
+        t('guests.removeError'),
+        (error as ApiError)?.message || t('guests.removeErrorMessage')
+      );
+    } finally {
+      setIsDeleting(false);
+      setDeleteTarget(null);
+    }
+  };
+
+  const totalAttendees = guests.reduce((sum, guest) => sum + 1 + guest.plus_ones, 0);
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {loading ? (
+            <Center py={20}>
+              <Spinner size="xl" color={THEME.COLORS.primary} />
+            </Center>
+          ) : event ? (
+            <>
+              {/* PAGE HEADER */}
+              <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+                <Container maxW="container.xl">
+                  <Flex justify="space-between" align="center" flexWrap="wrap" gap={4}>
+                    <Stack gap={3}>
+                      <Link href={ROUTES.PROTECTED.EVENT_DETAIL(slug)}>
+                        <Button variant="ghost" size="sm" color={THEME.COLORS.primary}>
+                          <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                            <Icon as={FiArrowLeft} />
+                          </Box>
+                          {t('eventDetail.backToEvent')}
+                        </Button>
+                      </Link>
+                      <Stack gap={1}>
+                        <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                          {t('guests.title')}
+                        </Heading>
+                        <Text color="gray.600">
+                          {event.event_name} • {t('guests.guestCount', { count: guests.length })} •{' '}
+                          {t('guests.attendeeCount', { count: totalAttendees })}
+                        </Text>
+                      </Stack>
+                    </Stack>
+
+                    <Button
+                      {...THEME.BUTTON_STYLES.primaryButton}
+                      onClick={openCreateForm}
+                      disabled={!canManageGuests}
+                    >
+                      <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                        <Icon as={FiPlus} />
+                      </Box>
+                      {t('guests.addGuest')}
+                    </Button>
+                  </Flex>
+                </Container>
+              </Box>
+
+              <Container maxW="container.xl" py={8}>
+                <Stack gap={6}>
+                  {/* GUEST FORM */}
+                  {isFormOpen && (
+                    <Box bg="white" borderRadius="xl" boxShadow="md" p={8}>
+                      <form onSubmit={handleSubmit(onSubmit)}>
+                        <Stack gap={6}>
+                          <Flex justify="space-between" align="center">
+                            <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                              {editingGuest ? t('guests.editGuest') : t('guests.addGuest')}
+                            </Heading>
+                            <IconButton
+                              aria-label={t('guests.closeForm')}
+                              variant="ghost"
+                              onClick={closeForm}
+                            >
+                              <FiX />
+                            </IconButton>
+                          </Flex>
+
+                          <Stack direction={{ base: 'column', md: 'row' }} gap={4}>
+                            <Field.Root invalid={!!errors.full_name} required flex="1">
+                              <Field.Label fontWeight="semibold" color="gray.700">
+                                {t('guests.fullName')}
+                              </Field.Label>
+                              <Input
+                                placeholder={t('guests.namePlaceholder')}
+                                borderRadius="md"
+                                borderColor="gray.200"
+                                _focus={focusStyle}
+                                {...register('full_name')}
+                              />
+                              <Field.ErrorText>{errors.full_name?.message}</Field.ErrorText>
+                            </Field.Root>
+
+                            <Field.Root invalid={!!errors.email} flex="1">
+                              <Field.Label fontWeight="semibold" color="gray.700">
+                                {t('guests.email')}
+                              </Field.Label>
+                              <Input
+                                type="email"
+                                placeholder={t('guests.optional')}
+                                borderRadius="md"
+                                borderColor="gray.200"
+                                _focus={focusStyle}
+                                {...register('email')}
+                              />
+                              <Field.ErrorText>{errors.email?.message}</Field.ErrorText>
+                            </Field.Root>
+                          </Stack>
+
+                          <Stack direction={{ base: 'column', md: 'row' }} gap={4}>
+                            <Field.Root invalid={!!errors.country_code} required w={{ base: 'full', md: '220px' }}>
+                              <Field.Label fontWeight="semibold" color="gray.700">
+                                {t('guests.countryCode')}
+                              </Field.Label>
+                              <Box
+                                as="select"
+                                {...register('country_code')}
+                                w="100%"
+                                h="40px"
+                                pl="0.75rem"
+                                pr="0.5rem"
+                                borderRadius="md"
+                                border="1px solid"
+                                borderColor="gray.200"
+                                bg="white"
+                                color={THEME.COLORS.textPrimary}
+                                fontSize="sm"
+                                _focus={focusStyle}
+                                cursor="pointer"
+                              >
+                                {COUNTRY_CODES.map((code) => (
+                                  <option key={code.value} value={code.value} style={{ backgroundColor: '#fff' }}>
+                                    {code.flag} {code.label}
+                                  </option>
+                                ))}
+                              </Box>
+                              <Field.ErrorText>{errors.country_code?.message}</Field.ErrorText>
+                            </Field.Root>
+
+                            <Field.Root invalid={!!errors.phone_number} required flex="1">
+                              <Field.Label fontWeight="semibold" color="gray.700">
+                                {t('guests.phoneNumber')}
+                              </Field.Label>
+                              <Input
+                                type="tel"
+                                placeholder="712 345 678"
+                                borderRadius="md"
+                                borderColor="gray.200"
+                                _focus={focusStyle}
+                                {...register('phone_number')}
+                              />
+                              <Field.ErrorText>{errors.phone_number?.message}</Field.ErrorText>
+                            </Field.Root>
+
+                            <Field.Root invalid={!!errors.plus_ones} w={{ base: 'full', md: '140px' }}>
+                              <Field.Label fontWeight="semibold" color="gray.700">
+                                {t('guests.plusOnes')}
+                              </Field.Label>
+                              <Input
+                                type="number"
+                                min={0}
+                                borderRadius="md"
+                                borderColor="gray.200"
+                                _focus={focusStyle}
+                                {...register('plus_ones', { valueAsNumber: true })}
+                              />
+                              <Field.ErrorText>{errors.plus_ones?.message}</Field.ErrorText>
+                            </Field.Root>
+                          </Stack>
+
+                          <Field.Root invalid={!!errors.notes}>
+                            <Field.Label fontWeight="semibold" color="gray.700">
+                              {t('guests.notes')}
+                            </Field.Label>
+                            <Textarea
+                              placeholder={t('guests.notesPlaceholder')}
+                              rows={3}
+                              borderRadius="md"
+                              borderColor="gray.200"
+                              _focus={focusStyle}
+                              {...register('notes')}
+                            />
+                            <Field.ErrorText>{errors.notes?.message}</Field.ErrorText>
+                          </Field.Root>
+
+                          <Stack direction={{ base: 'column', md: 'row' }} gap={4}>
+                            <Button
+                              type="submit"
+                              loading={isSubmitting}
+                              flex="1"
+                              {...THEME.BUTTON_STYLES.primaryButton}
+                            >
+                              <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                                <Icon as={FiSave} />
+                              </Box>
+                              {editingGuest ? t('common.saveChanges') : t('guests.addGuest')}
+                            </Button>
+                            <Button
+                              flex="1"
+                              {...THEME.BUTTON_STYLES.secondaryButton}
+                              variant="outline"
+                              onClick={closeForm}
+                            >
+                              {t('common.cancel')}
+                            </Button>
+                          </Stack>
+                        </Stack>
+                      </form>
+                    </Box>
+                  )}
+
+                  {/* SEARCH */}
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={4}>
+                    <Flex align="center" gap={3}>
+                      <Icon as={FiSearch} color="gray.400" />
+                      <Input
+                        placeholder={t('guests.searchPlaceholder')}
+                        variant="flushed"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                      />
+                    </Flex>
+                  </Box>
+
+                  {/* GUEST TABLE */}
+                  {guests.length === 0 ? (
+                    <Box bg="white" p={8} borderRadius="xl" boxShadow="md" textAlign="center">
+                      <Stack gap={4} align="center">
+                        <Icon as={FiUsers} w={12} h={12} color="gray.300" />
+                        <Heading fontSize="xl" color="gray.700">
+                          {searchQuery ? t('guests.noMatchTitle') : t('guests.emptyTitle')}
+                        </Heading>
+                        <Text color="gray.600" maxW="md">
+                          {searchQuery ? t('guests.noMatchText') : t('guests.emptyText')}
+                        </Text>
+                      </Stack>
+                    </Box>
+                  ) : (
+                    <Box bg="white" borderRadius="xl" boxShadow="md" overflowX="auto">
+                      <Box as="table" width="100%" borderCollapse="collapse" fontSize="sm">
+                        <Box as="thead" bg="gray.50">
+                          <Box as="tr">
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('guests.name')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('guests.phone')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('guests.email')}
+                            </Box>
+                            <Box as="th" textAlign="center" p={4} fontWeight="semibold">
+                              {t('guests.plusOnes')}
+                            </Box>
+                            <Box as="th" textAlign="right" p={4} fontWeight="semibold">
+                              {t('guests.actions')}
+                            </Box>
+                          </Box>
+                        </Box>
+                        <Box as="tbody">
+                          {guests.map((guest) => (
+                            <Box as="tr" key={guest.id} borderTop="1px solid" borderColor="gray.200">
+                              <Box as="td" p={4}>
+                                <Text fontWeight="semibold" color="gray.800">
+                                  {guest.full_name}
+                                </Text>
+                                {guest.notes && (
+                                  <Text fontSize="xs" color="gray.500">
+                                    {guest.notes}
+                                  </Text>
+                                )}
+                              </Box>
+                              <Box as="td" p={4} color="gray.700">
+                                {guest.phone_number}
+                              </Box>
+                              <Box as="td" p={4} color="gray.700">
+                                {guest.email || '—'}
+                              </Box>
+                              <Box as="td" p={4} textAlign="center">
+                                <Badge colorScheme={guest.plus_ones > 0 ? 'teal' : 'gray'}>
+                                  +{guest.plus_ones}
+                                </Badge>
+                              </Box>
+                              <Box as="td" p={4}>
+                                <Flex justify="flex-end" gap={1}>
+                                  <IconButton
+                                    aria-label={t('guests.editName', { name: guest.full_name })}
+                                    variant="ghost"
+                                    size="sm"
+                                    color={THEME.COLORS.primary}
+                                    disabled={!canManageGuests}
+                                    onClick={() => openEditForm(guest)}
+                                  >
+                                    <FiEdit />
+                                  </IconButton>
+                                  <IconButton
+                                    aria-label={t('guests.removeName', { name: guest.full_name })}
+                                    variant="ghost"
+                                    size="sm"
+                                    color={THEME.COLORS.error}
+                                    disabled={!canManageGuests}
+                                    onClick={() => setDeleteTarget(guest)}
+                                  >
+                                    <FiTrash2 />
+                                  </IconButton>
+                                </Flex>
+                              </Box>
+                            </Box>
+                          ))}
+                        </Box>
+                      </Box>
+                    </Box>
+                  )}
+                </Stack>
+              </Container>
+
+              {/* DELETE CONFIRMATION */}
+              {deleteTarget && (
+                <Box
+                  position="fixed"
+                  inset={0}
+                  bg="blackAlpha.600"
+                  display="flex"
+                  alignItems="center"
+                  justifyContent="center"
+                  zIndex={1000}
+                >
+                  <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+                    <Stack gap={4}>
+                      <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                        {t('guests.removeTitle')}
+                      </Heading>
+                      <Text fontSize="sm" color="gray.700">
+                        {t('guests.removeText', { name: deleteTarget.full_name })}
+                      </Text>
+                      <Flex justify="flex-end" gap={3} pt={2}>
+                        <Button variant="ghost" onClick={() => setDeleteTarget(null)}>
+                          {t('common.cancel')}
+                        </Button>
+                        <Button
+                          bg={THEME.COLORS.error}
+                          color="white"
+                          _hover={{ opacity: 0.9 }}
+                          loading={isDeleting}
+                          onClick={handleDelete}
+                        >
+                          {t('guests.removeConfirm')}
+                        </Button>
+                      </Flex>
+                    </Stack>
+                  </Box>
+                </Box>
+              )}
+            </>
+          ) : (
+            <Center py={20}>
+              <Text>{t('eventForm.notFound')}</Text>
+            </Center>
+          )}
+        </Box>
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
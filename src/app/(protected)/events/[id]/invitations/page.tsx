@@ -0,0 +1,1100 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Input,
+  Textarea,
+  Button,
+  Icon,
+  Flex,
+  Field,
+  Badge,
+  Spinner,
+  Center,
+  SimpleGrid,
+} from '@chakra-ui/react';
+import {
+  FiAlertCircle,
+  FiArrowLeft,
+  FiArrowRight,
+  FiCheck,
+  FiClock,
+  FiPlus,
+  FiSearch,
+  FiSend,
+  FiUsers,
+} from 'react-icons/fi';
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { getEventById } from '@/src/lib/events';
+import { getEventAccess } from '@/src/lib/collaborators';
+import { getEventGuests } from '@/src/lib/guests';
+import {
+  sendInvitations,
+  renderInvitationMessage,
+  canReceiveInvitation,
+  getChannelDisplay,
+  getMergeFieldLabel,
+  getPreviewRsvpLink,
+} from '@/src/lib/invitations';
+import {
+  estimateMessageCost,
+  formatAmount,
+  getCreditShortfall,
+  getSubscription,
+  getUsageSummary,
+} from '@/src/lib/billing';
+import { getMessageTemplates, getSmsSegmentInfo, getTemplateContent } from '@/src/lib/templates';
+import { formatScheduledAt } from '@/src/lib/automations';
+import { decodeEventId } from '@/src/lib/id';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import useWalletBalance from '@/src/hooks/useWalletBalance';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import MpesaCheckoutDialog from '@/src/components/billing/MpesaCheckoutDialog';
+import SmsSegmentNotice from '@/src/components/templates/SmsSegmentNotice';
+import {
+  ROUTES,
+  THEME,
+  INVITATION_CHANNELS,
+  INVITATION_MERGE_FIELDS,
+  DEFAULT_INVITATION_MESSAGE,
+  TEMPLATE_LANGUAGES,
+} from '@/src/lib/constants';
+import type {
+  ApiError,
+  EventDetail,
+  Guest,
+  InvitationChannel,
+  InvitationRecipientScope,
+  MessageTemplate,
+  PaymentTransaction,
+  Subscription,
+  TemplateLanguage,
+  UsageSummary,
+} from '@/src/types';
+
+type SendStep = 'recipients' | 'channel' | 'message' | 'review';
+
+const STEPS: SendStep[] = ['recipients', 'channel', 'message', 'review'];
+
+const RECIPIENT_SCOPES: InvitationRecipientScope[] = ['all', 'not_invited', 'selected'];
+
+type SendTiming = 'now' | 'later';
+
+const SEND_TIMINGS: SendTiming[] = ['now', 'later'];
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+const focusStyle = {
+  borderColor: THEME.COLORS.primary,
+  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+  outline: 'none',
+};
+
+const checkboxStyle: React.CSSProperties = {
+  width: 16,
+  height: 16,
+  cursor: 'pointer',
+  accentColor: THEME.COLORS.primary,
+};
+
+/**
+ * Send Invitations Page Component
+ *
+ * Step-by-step flow for sending invitations to an event's guests:
+ * choose recipients, pick a channel, write the message (with a live
+ * merge field preview), review the cost estimate and confirm. Messages
+ * beyond the plan allowance are paid from credit, so sending is blocked
+ * until the credit balance covers the estimate. Sends can also be
+ * scheduled for later; recipients are then resolved when the send runs.
+ */
+export default function SendInvitationsPage() {
+  const [event, setEvent] = useState<EventDetail | null>(null);
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [step, setStep] = useState<SendStep>('recipients');
+  const [scope, setScope] = useState<InvitationRecipientScope>('not_invited');
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [searchQuery, setSearchQuery] = useState('');
+  const [channel, setChannel] = useState<InvitationChannel>('sms');
+  const [message, setMessage] = useState(DEFAULT_INVITATION_MESSAGE);
+  const [subject, setSubject] = useState('');
+  const [previewGuestId, setPreviewGuestId] = useState<number | null>(null);
+  const [sendTiming, setSendTiming] = useState<SendTiming>('now');
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [isTopUpOpen, setIsTopUpOpen] = useState(false);
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [templateLanguage, setTemplateLanguage] = useState<TemplateLanguage>('en');
+  const [appliedTemplateId, setAppliedTemplateId] = useState<number | null>(null);
+
+  const params = useParams();
+  const router = useRouter();
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+  const { wallet, refresh: refreshWallet } = useWalletBalance();
+
+  const slug = (params as { id: string }).id;
+  const eventId = decodeEventId(slug);
+
+  useEffect(() => {
+    const loadPage = async () => {
+      if (!eventId) {
+        router.push(ROUTES.PROTECTED.EVENTS);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const [eventData, guestData] = await Promise.all([
+          getEventById(eventId),
+          getEventGuests(eventId),
+        ]);
+        if (!getEventAccess(eventData).canSend) {
+          toast.error(t('invitations.noAccess'));
+          router.push(ROUTES.PROTECTED.EVENT_DETAIL(slug));
+          return;
+        }
+        setEvent(eventData);
+        setGuests(guestData);
+        setSubject(t('invitations.defaultSubject', { name: eventData.event_name }));
+        if (guestData.length > 0 && guestData.every((guest) => guest.invited_at)) {
+          setScope('all');
+        }
+      } catch (error) {
+        toast.error(
+          t('eventForm.loadError'),
+          (error as ApiError)?.message || t('eventDetail.loadErrorMessage')
+        );
+        router.push(ROUTES.PROTECTED.EVENTS);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId]);
+
+  useEffect(() => {
+    Promise.all([getSubscription(), getUsageSummary()])
+      .then(([subscriptionData, usageData]) => {
+        setSubscription(subscriptionData);
+        setUsage(usageData);
+      })
+      .catch((error) => console.error('Error loading subscription:', error));
+  }, []);
+
+  useEffect(() => {
+    getMessageTemplates()
+      .then(setTemplates)
+      .catch((error) => console.error('Error loading message templates:', error));
+  }, []);
+
+  const notInvitedCount = guests.filter((guest) => !guest.invited_at).length;
+
+  const filteredGuests = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return guests;
+    return guests.filter(
+      (guest) =>
+        guest.full_name.toLowerCase().includes(query) ||
+        guest.phone_number.includes(query) ||
+        guest.email?.toLowerCase().includes(query)
+    );
+  }, [guests, searchQuery]);
+
+  const scopedGuests = useMemo(() => {
+    if (scope === 'not_invited') return guests.filter((guest) => !guest.invited_at);
+    if (scope === 'selected') return guests.filter((guest) => selectedIds.has(guest.id));
+    return guests;
+  }, [guests, scope, selectedIds]);
+
+  const recipients = scopedGuests.filter((guest) => canReceiveInvitation(guest, channel));
+  const skippedCount = scopedGuests.length - recipients.length;
+  const previewLink = getPreviewRsvpLink();
+  // Every SMS segment is billed as one message, and guest names change the
+  // length, so SMS are counted per guest
+  const messageCount =
+    channel === 'sms' && event
+      ? recipients.reduce(
+          (total, guest) =>
+            total +
+            getSmsSegmentInfo(renderInvitationMessage(message, event, guest, previewLink)).segments,
+          0
+        )
+      : recipients.length;
+  const cost = estimateMessageCost(
+    subscription?.plan ?? 'payg',
+    { [channel]: messageCount },
+    usage
+  );
+  // The backend rejects sends the credit balance can't cover
+  const creditShortfall =
+    subscription && wallet ? getCreditShortfall(wallet, cost.total) : 0;
+  const channelInfo = getChannelDisplay(channel);
+
+  const previewGuest =
+    recipients.find((guest) => guest.id === previewGuestId) ?? recipients[0] ?? null;
+  const renderedPreview =
+    event && previewGuest
+      ? renderInvitationMessage(message, event, previewGuest, previewLink)
+      : '';
+
+  const messageError = !message.trim()
+    ? t('validation.messageRequired')
+    : message.length > MAX_MESSAGE_LENGTH
+    ? t('validation.messageMax', { max: MAX_MESSAGE_LENGTH })
+    : channel === 'email' && !subject.trim()
+    ? t('validation.subjectRequired')
+    : null;
+
+  // datetime-local values are in the browser's timezone
+  const scheduleError =
+    sendTiming === 'now'
+      ? null
+      : !scheduledFor
+      ? t('invitations.chooseTime')
+      : new Date(scheduledFor).getTime() <= Date.now()
+      ? t('invitations.futureTime')
+      : null;
+
+  const stepIndex = STEPS.indexOf(step);
+
+  const canContinue =
+    (step === 'recipients' && scopedGuests.length > 0) ||
+    (step === 'channel' && recipients.length > 0) ||
+    (step === 'message' && !messageError);
+
+  const toggleGuest = (guestId: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(guestId)) {
+        next.delete(guestId);
+      } else {
+        next.add(guestId);
+      }
+      return next;
+    });
+  };
+
+  const selectAllShown = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      filteredGuests.forEach((guest) => next.add(guest.id));
+      return next;
+    });
+  };
+
+  // Templates for the chosen channel, those written for this event type first
+  const channelTemplates = templates
+    .filter((template) => template.channel === channel)
+    .sort(
+      (a, b) =>
+        Number(b.event_type === event?.event_type) - Number(a.event_type === event?.event_type)
+    );
+
+  const applyTemplate = (templateId: number, language: TemplateLanguage) => {
+    const template = templates.find((item) => item.id === templateId);
+    if (!template) return;
+
+    const content = getTemplateContent(template, language);
+    setAppliedTemplateId(template.id);
+    setTemplateLanguage(language);
+    setMessage(content.body);
+    if (channel === 'email' && content.subject) {
+      setSubject(content.subject);
+    }
+  };
+
+  const insertMergeField = (token: string) => {
+    setMessage((prev) => `${prev}${prev.endsWith(' ') || !prev ? '' : ' '}${token}`);
+  };
+
+  const handleTopUpSuccess = (transaction: PaymentTransaction) => {
+    toast.success(
+      t('invitations.creditAdded'),
+      t('invitations.creditAddedMessage', {
+        amount: formatAmount(transaction.amount, transaction.currency),
+      })
+    );
+    refreshWallet().catch(() => undefined);
+  };
+
+  const handleSend = async () => {
+    if (!eventId || recipients.length === 0 || creditShortfall > 0) return;
+    setIsSending(true);
+    try {
+      const result = await sendInvitations(eventId, {
+        channel,
+        recipient_scope: scope,
+        guest_ids: scope === 'selected' ? recipients.map((guest) => guest.id) : undefined,
+        message: message.trim(),
+        subject: channel === 'email' ? subject.trim() : undefined,
+        scheduled_at: sendTiming === 'later' ? new Date(scheduledFor).toISOString() : null,
+      });
+      if (result.scheduled_at) {
+        toast.success(
+          t('invitations.scheduled'),
+          t('invitations.scheduledMessage', {
+            count: result.sent_count,
+            time: formatScheduledAt(result.scheduled_at),
+          })
+        );
+      } else {
+        toast.success(
+          t('invitations.sent'),
+          t('invitations.sentMessage', { count: result.sent_count })
+        );
+      }
+      refreshWallet().catch(() => undefined);
+      router.push(ROUTES.PROTECTED.EVENT_DETAIL(slug));
+    } catch (error) {
+      toast.error(
+        t('invitations.sendError'),
+        (error as ApiError)?.message || t('invitations.sendErrorMessage')
+      );
+    } finally {
+      setIsSending(false);
+      setIsConfirmOpen(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {loading ? (
+            <Center py={20}>
+              <Spinner size="xl" color={THEME.COLORS.primary} />
+            </Center>
+          ) : event ? (
+            <>
+              {/* PAGE HEADER */}
+              <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+                <Container maxW="container.xl">
+                  <Stack gap={3}>
+                    <Link href={ROUTES.PROTECTED.EVENT_DETAIL(slug)}>
+                      <Button variant="ghost" size="sm" color={THEME.COLORS.primary}>
+                        <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                          <Icon as={FiArrowLeft} />
+                        </Box>
+                        {t('eventDetail.backToEvent')}
+                      </Button>
+                    </Link>
+                    <Stack gap={1}>
+                      <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                        {t('eventDetail.sendInvitations')}
+                      </Heading>
+                      <Text color="gray.600">
+                        {event.event_name} •{' '}
+                        {t('invitations.sentSoFar', { count: event.total_invitations })}
+                      </Text>
+                    </Stack>
+                  </Stack>
+                </Container>
+              </Box>
+
+              <Container maxW="container.lg" py={8}>
+                {!event.can_edit ? (
+                  <Box bg="white" p={8} borderRadius="xl" boxShadow="md" textAlign="center">
+                    <Text color="gray.700">
+                      {t('invitations.closed')}
+                    </Text>
+                  </Box>
+                ) : guests.length === 0 ? (
+                  <Box bg="white" p={8} borderRadius="xl" boxShadow="md" textAlign="center">
+                    <Stack gap={4} align="center">
+                      <Icon as={FiUsers} w={12} h={12} color="gray.300" />
+                      <Heading fontSize="xl" color="gray.700">
+                        {t('guests.emptyTitle')}
+                      </Heading>
+                      <Text color="gray.600" maxW="md">
+                        {t('invitations.noGuestsText')}
+                      </Text>
+                      <Link href={ROUTES.PROTECTED.EVENT_GUESTS(slug)}>
+                        <Button {...THEME.BUTTON_STYLES.primaryButton}>
+                          {t('eventDetail.manageGuests')}
+                        </Button>
+                      </Link>
+                    </Stack>
+                  </Box>
+                ) : (
+                  <Stack gap={6}>
+                    {/* STEP INDICATOR */}
+                    <Flex gap={2} flexWrap="wrap">
+                      {STEPS.map((value, index) => (
+                        <Badge
+                          key={value}
+                          px={3}
+                          py={1}
+                          borderRadius="full"
+                          bg={index <= stepIndex ? THEME.COLORS.primary : 'gray.200'}
+                          color={index <= stepIndex ? 'white' : 'gray.600'}
+                        >
+                          {index + 1}. {t(`invitations.steps.${value}`)}
+                        </Badge>
+                      ))}
+                    </Flex>
+
+                    <Box bg="white" borderRadius="xl" boxShadow="md" p={8}>
+                      {/* STEP 1 - RECIPIENTS */}
+                      {step === 'recipients' && (
+                        <Stack gap={6}>
+                          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                            {t('invitations.recipientsTitle')}
+                          </Heading>
+
+                          <SimpleGrid columns={{ base: 1, md: 3 }} gap={4}>
+                            {RECIPIENT_SCOPES.map((value) => {
+                              const count =
+                                value === 'all'
+                                  ? guests.length
+                                  : value === 'not_invited'
+                                  ? notInvitedCount
+                                  : selectedIds.size;
+                              return (
+                                <Box
+                                  key={value}
+                                  as="button"
+                                  textAlign="left"
+                                  p={4}
+                                  borderRadius="lg"
+                                  border="2px solid"
+                                  borderColor={scope === value ? THEME.COLORS.primary : 'gray.200'}
+                                  bg={scope === value ? `${THEME.COLORS.primary}10` : 'white'}
+                                  onClick={() => setScope(value)}
+                                >
+                                  <Text fontWeight="semibold" color="gray.800">
+                                    {t(`invitations.scopes.${value}.label`)} ({count})
+                                  </Text>
+                                  <Text fontSize="sm" color="gray.600">
+                                    {t(`invitations.scopes.${value}.description`)}
+                                  </Text>
+                                </Box>
+                              );
+                            })}
+                          </SimpleGrid>
+
+                          {scope === 'selected' && (
+                            <Stack gap={3}>
+                              <Flex align="center" gap={3}>
+                                <Icon as={FiSearch} color="gray.400" />
+                                <Input
+                                  placeholder={t('invitations.filterPlaceholder')}
+                                  variant="flushed"
+                                  value={searchQuery}
+                                  onChange={(e) => setSearchQuery(e.target.value)}
+                                />
+                              </Flex>
+                              <Flex gap={2}>
+                                <Button size="sm" variant="outline" onClick={selectAllShown}>
+                                  {t('invitations.selectAllShown', { count: filteredGuests.length })}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setSelectedIds(new Set())}
+                                  disabled={selectedIds.size === 0}
+                                >
+                                  {t('invitations.clearSelection')}
+                                </Button>
+                              </Flex>
+                              <Box
+                                maxH="320px"
+                                overflowY="auto"
+                                border="1px solid"
+                                borderColor="gray.200"
+                                borderRadius="md"
+                              >
+                                {filteredGuests.map((guest) => (
+                                  <Flex
+                                    key={guest.id}
+                                    as="label"
+                                    align="center"
+                                    gap={3}
+                                    px={4}
+                                    py={2}
+                                    borderBottom="1px solid"
+                                    borderColor="gray.100"
+                                    cursor="pointer"
+                                    _hover={{ bg: 'gray.50' }}
+                                  >
+                                    <input
+                                      type="checkbox"
+                                      checked={selectedIds.has(guest.id)}
+                                      onChange={() => toggleGuest(guest.id)}
+                                      style={checkboxStyle}
+                                    />
+                                    <Box flex="1">
+                                      <Text fontSize="sm" fontWeight="semibold" color="gray.800">
+                                        {guest.full_name}
+                                      </Text>
+                                      <Text fontSize="xs" color="gray.500">
+                                        {guest.phone_number}
+                                        {guest.email ? ` • ${guest.email}` : ''}
+                                      </Text>
+                                    </Box>
+                                    {guest.invited_at && (
+                                      <Badge colorScheme="green" fontSize="xs">
+                                        {t('invitations.invited')}
+                                      </Badge>
+                                    )}
+                                  </Flex>
+                                ))}
+                                {filteredGuests.length === 0 && (
+                                  <Text p={4} fontSize="sm" color="gray.500" textAlign="center">
+                                    {t('invitations.noMatch')}
+                                  </Text>
+                                )}
+                              </Box>
+                            </Stack>
+                          )}
+
+                          {scopedGuests.length === 0 && scope !== 'selected' && (
+                            <Text fontSize="sm" color="gray.600">
+                              {t('invitations.allInvited')}
+                            </Text>
+                          )}
+                        </Stack>
+                      )}
+
+                      {/* STEP 2 - CHANNEL */}
+                      {step === 'channel' && (
+                        <Stack gap={6}>
+                          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                            {t('invitations.channelTitle')}
+                          </Heading>
+
+                          <SimpleGrid columns={{ base: 1, md: 3 }} gap={4}>
+                            {INVITATION_CHANNELS.map(({ value }) => {
+                              const item = getChannelDisplay(value);
+                              const rate = estimateMessageCost('payg', { [value]: 1 }).lines[0]?.rate ?? 0;
+                              return (
+                                <Box
+                                  key={value}
+                                  as="button"
+                                  textAlign="left"
+                                  p={4}
+                                  borderRadius="lg"
+                                  border="2px solid"
+                                  borderColor={channel === value ? THEME.COLORS.primary : 'gray.200'}
+                                  bg={channel === value ? `${THEME.COLORS.primary}10` : 'white'}
+                                  onClick={() => setChannel(value)}
+                                >
+                                  <Text fontSize="2xl">{item.icon}</Text>
+                                  <Text fontWeight="semibold" color="gray.800">
+                                    {item.label}
+                                  </Text>
+                                  <Text fontSize="sm" color="gray.600">
+                                    {item.description}
+                                  </Text>
+                                  <Text fontSize="xs" color="gray.500" mt={2}>
+                                    {rate > 0 ? t('invitations.perMessage', { rate }) : t('invitations.free')}
+                                  </Text>
+                                </Box>
+                              );
+                            })}
+                          </SimpleGrid>
+
+                          {skippedCount > 0 && (
+                            <Box
+                              bg={`${THEME.COLORS.warning}15`}
+                              borderLeft="4px solid"
+                              borderColor={THEME.COLORS.warning}
+                              p={4}
+                              borderRadius="md"
+                            >
+                              <Text fontSize="sm" color="gray.700">
+                                {t('invitations.skipped', {
+                                  skipped: skippedCount,
+                                  count: scopedGuests.length,
+                                  channel: channelInfo.label,
+                                })}
+                              </Text>
+                            </Box>
+                          )}
+                        </Stack>
+                      )}
+
+                      {/* STEP 3 - MESSAGE */}
+                      {step === 'message' && (
+                        <Stack gap={6}>
+                          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                            {t('invitations.messageTitle')}
+                          </Heading>
+
+                          {channelTemplates.length > 0 && (
+                            <Flex gap={3} align="center" flexWrap="wrap">
+                              <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+                                {t('invitations.startFromTemplate')}
+                              </Text>
+                              <select
+                                value=""
+                                onChange={(e) =>
+                                  applyTemplate(Number(e.target.value), templateLanguage)
+                                }
+                                aria-label={t('invitations.template')}
+                                style={{
+                                  height: 32,
+                                  padding: '0 0.5rem',
+                                  borderRadius: 6,
+                                  border: '1px solid #E2E8F0',
+                                  fontSize: 14,
+                                  cursor: 'pointer',
+                                }}
+                              >
+                                <option value="" disabled>
+                                  {t('invitations.chooseTemplate')}
+                                </option>
+                                {channelTemplates.map((template) => (
+                                  <option key={template.id} value={template.id}>
+                                    {template.name}
+                                  </option>
+                                ))}
+                              </select>
+                              <Flex gap={1}>
+                                {TEMPLATE_LANGUAGES.map((item) => (
+                                  <Button
+                                    key={item.value}
+                                    size="xs"
+                                    variant={templateLanguage === item.value ? 'solid' : 'outline'}
+                                    bg={
+                                      templateLanguage === item.value
+                                        ? THEME.COLORS.primary
+                                        : undefined
+                                    }
+                                    color={templateLanguage === item.value ? 'white' : 'gray.700'}
+                                    onClick={() =>
+                                      appliedTemplateId
+                                        ? applyTemplate(appliedTemplateId, item.value)
+                                        : setTemplateLanguage(item.value)
+                                    }
+                                  >
+                                    {item.label}
+                                  </Button>
+                                ))}
+                              </Flex>
+                            </Flex>
+                          )}
+
+                          {channel === 'email' && (
+                            <Field.Root required>
+                              <Field.Label fontWeight="semibold" color="gray.700">
+                                {t('templateEditor.emailSubject')}
+                              </Field.Label>
+                              <Input
+                                value={subject}
+                                onChange={(e) => setSubject(e.target.value)}
+                                borderRadius="md"
+                                borderColor="gray.200"
+                                _focus={focusStyle}
+                              />
+                            </Field.Root>
+                          )}
+
+                          <Field.Root invalid={!!messageError} required>
+                            <Field.Label fontWeight="semibold" color="gray.700">
+                              {t('common.message')}
+                            </Field.Label>
+                            <Textarea
+                              value={message}
+                              onChange={(e) => setMessage(e.target.value)}
+                              rows={6}
+                              borderRadius="md"
+                              borderColor="gray.200"
+                              _focus={focusStyle}
+                            />
+                            <Flex justify="space-between" w="full">
+                              <Field.ErrorText>{messageError}</Field.ErrorText>
+                              <Text fontSize="xs" color="gray.500" ml="auto">
+                                {message.length}/{MAX_MESSAGE_LENGTH}
+                              </Text>
+                            </Flex>
+                          </Field.Root>
+
+                          <Stack gap={2}>
+                            <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+                              {t('templateEditor.insertMergeField')}
+                            </Text>
+                            <Flex gap={2} flexWrap="wrap">
+                              {INVITATION_MERGE_FIELDS.map((field) => (
+                                <Button
+                                  key={field.token}
+                                  size="xs"
+                                  variant="outline"
+                                  onClick={() => insertMergeField(field.token)}
+                                >
+                                  {getMergeFieldLabel(field.token)}
+                                </Button>
+                              ))}
+                            </Flex>
+                          </Stack>
+
+                          <Stack gap={2}>
+                            <Flex justify="space-between" align="center" gap={3} flexWrap="wrap">
+                              <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+                                {t('templateEditor.preview')}
+                              </Text>
+                              {recipients.length > 1 && (
+                                <select
+                                  value={previewGuest?.id ?? ''}
+                                  onChange={(e) => setPreviewGuestId(Number(e.target.value))}
+                                  style={{
+                                    height: 32,
+                                    padding: '0 0.5rem',
+                                    borderRadius: 6,
+                                    border: '1px solid #E2E8F0',
+                                    fontSize: 14,
+                                    cursor: 'pointer',
+                                  }}
+                                >
+                                  {recipients.map((guest) => (
+                                    <option key={guest.id} value={guest.id}>
+                                      {guest.full_name}
+                                    </option>
+                                  ))}
+                                </select>
+                              )}
+                            </Flex>
+                            <Box
+                              bg={THEME.COLORS.background}
+                              p={4}
+                              borderRadius="md"
+                              border="1px solid"
+                              borderColor="gray.200"
+                            >
+                              {channel === 'email' && (
+                                <Text fontSize="sm" fontWeight="semibold" color="gray.800" mb={2}>
+                                  {subject}
+                                </Text>
+                              )}
+                              <Text fontSize="sm" color="gray.700" whiteSpace="pre-wrap">
+                                {renderedPreview}
+                              </Text>
+                            </Box>
+                            <Text fontSize="xs" color="gray.500">
+                              {t('invitations.personalLink')}
+                            </Text>
+                            {channel === 'sms' && renderedPreview && (
+                              <SmsSegmentNotice text={renderedPreview} />
+                            )}
+                          </Stack>
+                        </Stack>
+                      )}
+
+                      {/* STEP 4 - REVIEW */}
+                      {step === 'review' && (
+                        <Stack gap={6}>
+                          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                            {t('invitations.reviewTitle')}
+                          </Heading>
+
+                          <SimpleGrid columns={{ base: 1, md: 3 }} gap={4}>
+                            <Box p={4} bg={THEME.COLORS.background} borderRadius="md">
+                              <Text fontSize="xs" color="gray.500" textTransform="uppercase">
+                                {t('invitations.recipients')}
+                              </Text>
+                              <Text fontSize="2xl" fontWeight="bold" color="gray.800">
+                                {recipients.length}
+                              </Text>
+                              {skippedCount > 0 && (
+                                <Text fontSize="xs" color="gray.500">
+                                  {t('invitations.skippedCount', { count: skippedCount })}
+                                </Text>
+                              )}
+                            </Box>
+                            <Box p={4} bg={THEME.COLORS.background} borderRadius="md">
+                              <Text fontSize="xs" color="gray.500" textTransform="uppercase">
+                                {t('common.channel')}
+                              </Text>
+                              <Text fontSize="2xl" fontWeight="bold" color="gray.800">
+                                {channelInfo.icon} {channelInfo.label}
+                              </Text>
+                            </Box>
+                            <Box p={4} bg={THEME.COLORS.background} borderRadius="md">
+                              <Text fontSize="xs" color="gray.500" textTransform="uppercase">
+                                {t('invitations.estimatedCost')}
+                              </Text>
+                              <Text fontSize="2xl" fontWeight="bold" color={THEME.COLORS.primary}>
+                                {formatAmount(cost.total, cost.currency)}
+                              </Text>
+                              {channel === 'email' ? (
+                                <Text fontSize="xs" color="gray.500">
+                                  {t('invitations.emailFree')}
+                                </Text>
+                              ) : (
+                                cost.lines.map((line) => (
+                                  <Text key={line.channel} fontSize="xs" color="gray.500">
+                                    {[
+                                      line.included > 0 &&
+                                        t('invitations.includedInPlan', {
+                                          included: line.included.toLocaleString(),
+                                        }),
+                                      line.billable > 0 &&
+                                        `${line.billable.toLocaleString()} × ${formatAmount(line.rate, cost.currency)}`,
+                                    ]
+                                      .filter(Boolean)
+                                      .join(' + ')}
+                                  </Text>
+                                ))
+                              )}
+                            </Box>
+                          </SimpleGrid>
+
+                          {creditShortfall > 0 && wallet && (
+                            <Flex
+                              bg="orange.50"
+                              border="1px solid"
+                              borderColor="orange.200"
+                              borderRadius="md"
+                              p={4}
+                              gap={3}
+                              align={{ base: 'start', md: 'center' }}
+                              direction={{ base: 'column', md: 'row' }}
+                            >
+                              <Icon as={FiAlertCircle} color="orange.500" w={5} h={5} flexShrink={0} />
+                              <Box flex="1">
+                                <Text fontSize="sm" fontWeight="semibold" color="orange.800">
+                                  {t('invitations.notEnoughCredit')}
+                                </Text>
+                                <Text fontSize="sm" color="orange.700">
+                                  {t('invitations.notEnoughCreditText', {
+                                    balance: formatAmount(wallet.balance, wallet.currency),
+                                    shortfall: formatAmount(creditShortfall, wallet.currency),
+                                  })}
+                                </Text>
+                              </Box>
+                              <Button
+                                size="sm"
+                                {...THEME.BUTTON_STYLES.primaryButton}
+                                onClick={() => setIsTopUpOpen(true)}
+                              >
+                                <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                                  <Icon as={FiPlus} />
+                                </Box>
+                                {t('invitations.topUp')}
+                              </Button>
+                            </Flex>
+                          )}
+
+                          <Stack gap={3}>
+                            <Text fontWeight="semibold" color="gray.700">
+                              {t('invitations.timingTitle')}
+                            </Text>
+                            <SimpleGrid columns={{ base: 1, md: 2 }} gap={4}>
+                              {SEND_TIMINGS.map((value) => (
+                                <Box
+                                  key={value}
+                                  as="button"
+                                  textAlign="left"
+                                  p={4}
+                                  borderRadius="lg"
+                                  border="2px solid"
+                                  borderColor={
+                                    sendTiming === value ? THEME.COLORS.primary : 'gray.200'
+                                  }
+                                  bg={sendTiming === value ? `${THEME.COLORS.primary}10` : 'white'}
+                                  onClick={() => setSendTiming(value)}
+                                >
+                                  <Text fontWeight="semibold" color="gray.800">
+                                    {t(`invitations.timings.${value}.label`)}
+                                  </Text>
+                                  <Text fontSize="sm" color="gray.600">
+                                    {t(`invitations.timings.${value}.description`)}
+                                  </Text>
+                                </Box>
+                              ))}
+                            </SimpleGrid>
+                            {sendTiming === 'later' && (
+                              <Field.Root invalid={!!scheduleError}>
+                                <Field.Label fontWeight="semibold" color="gray.700">
+                                  {t('invitations.sendOn')}
+                                </Field.Label>
+                                <Input
+                                  type="datetime-local"
+                                  value={scheduledFor}
+                                  onChange={(e) => setScheduledFor(e.target.value)}
+                                  maxW={{ md: '280px' }}
+                                  _focus={focusStyle}
+                                />
+                                {scheduleError ? (
+                                  <Field.ErrorText>{scheduleError}</Field.ErrorText>
+                                ) : (
+                                  <Field.HelperText>
+                                    {t('invitations.scheduleHelp')}
+                                  </Field.HelperText>
+                                )}
+                              </Field.Root>
+                            )}
+                          </Stack>
+
+                          <Box
+                            bg={THEME.COLORS.background}
+                            p={4}
+                            borderRadius="md"
+                            border="1px solid"
+                            borderColor="gray.200"
+                          >
+                            <Text fontSize="xs" color="gray.500" mb={2}>
+                              {t('invitations.messageTo', { name: previewGuest?.full_name ?? '' })}
+                            </Text>
+                            <Text fontSize="sm" color="gray.700" whiteSpace="pre-wrap">
+                              {renderedPreview}
+                            </Text>
+                          </Box>
+                        </Stack>
+                      )}
+
+                      {/* NAVIGATION */}
+                      <Flex justify="space-between" mt={8} gap={3}>
+                        <Button
+                          variant="ghost"
+                          onClick={() => setStep(STEPS[stepIndex - 1])}
+                          disabled={stepIndex === 0}
+                        >
+                          <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                            <Icon as={FiArrowLeft} />
+                          </Box>
+                          {t('common.back')}
+                        </Button>
+                        {step === 'review' ? (
+                          <Button
+                            {...THEME.BUTTON_STYLES.primaryButton}
+                            onClick={() => setIsConfirmOpen(true)}
+                            disabled={
+                              recipients.length === 0 ||
+                              !!messageError ||
+                              !!scheduleError ||
+                              creditShortfall > 0
+                            }
+                          >
+                            <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                              <Icon as={sendTiming === 'later' ? FiClock : FiSend} />
+                            </Box>
+                            {t(
+                              sendTiming === 'later'
+                                ? 'invitations.scheduleCount'
+                                : 'invitations.sendCount',
+                              { count: recipients.length }
+                            )}
+                          </Button>
+                        ) : (
+                          <Button
+                            {...THEME.BUTTON_STYLES.primaryButton}
+                            onClick={() => setStep(STEPS[stepIndex + 1])}
+                            disabled={!canContinue}
+                          >
+                            {t('common.continue')}
+                            <Box as="span" display="inline-flex" alignItems="center" ml={2}>
+                              <Icon as={FiArrowRight} />
+                            </Box>
+                          </Button>
+                        )}
+                      </Flex>
+                    </Box>
+                  </Stack>
+                )}
+              </Container>
+
+              {/* SEND CONFIRMATION */}
+              {isConfirmOpen && (
+                <Box
+                  position="fixed"
+                  inset={0}
+                  bg="blackAlpha.600"
+                  display="flex"
+                  alignItems="center"
+                  justifyContent="center"
+                  zIndex={1000}
+                >
+                  <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+                    <Stack gap={4}>
+                      <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                        {sendTiming === 'later'
+                          ? t('invitations.scheduleTitle')
+                          : t('eventDetail.sendInvitations')}
+                      </Heading>
+                      <Text fontSize="sm" color="gray.700">
+                        {sendTiming === 'later' && scheduledFor
+                          ? t('invitations.confirmSchedule', {
+                              count: recipients.length,
+                              channel: channelInfo.label,
+                              event: event.event_name,
+                              time: formatScheduledAt(new Date(scheduledFor).toISOString()),
+                            })
+                          : t('invitations.confirmSend', {
+                              count: recipients.length,
+                              channel: channelInfo.label,
+                              event: event.event_name,
+                            })}
+                        {cost.total > 0 &&
+                          ` ${t('invitations.confirmCost', {
+                            cost: formatAmount(cost.total, cost.currency),
+                          })}`}
+                      </Text>
+                      <Flex justify="flex-end" gap={3} pt={2}>
+                        <Button
+                          variant="ghost"
+                          onClick={() => setIsConfirmOpen(false)}
+                          disabled={isSending}
+                        >
+                          {t('common.cancel')}
+                        </Button>
+                        <Button
+                          {...THEME.BUTTON_STYLES.primaryButton}
+                          loading={isSending}
+                          onClick={handleSend}
+                        >
+                          <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                            <Icon as={FiCheck} />
+                          </Box>
+                          {sendTiming === 'later'
+                            ? t('invitations.confirmScheduleButton')
+                            : t('invitations.confirmSendButton')}
+                        </Button>
+                      </Flex>
+                    </Stack>
+                  </Box>
+                </Box>
+              )}
+            </>
+          ) : (
+            <Center py={20}>
+              <Text>{t('eventForm.notFound')}</Text>
+            </Center>
+          )}
+        </Box>
+
+        {/* TOP UP */}
+        <MpesaCheckoutDialog
+          isOpen={isTopUpOpen}
+          purpose="topup"
+          amount={creditShortfall}
+          onSuccess={handleTopUpSuccess}
+          onClose={() => setIsTopUpOpen(false)}
+        />
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
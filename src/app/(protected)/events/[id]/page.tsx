@@ -21,7 +21,6 @@ import {
   FiCalendar,
   FiClock,
   FiMapPin,
-  FiUser,
   FiMail,
   FiMessageSquare,
   FiCheckCircle,
@@ -29,6 +28,9 @@ import {
   FiLock,
   FiUnlock,
   FiArrowLeft,
+  FiUsers,
+  FiUpload,
+  FiCamera,
 } from 'react-icons/fi';
 import Link from 'next/link';
 import { useEffect, useState } from 'react';
@@ -40,17 +42,33 @@ import {
   reopenEvent,
   formatEventDate,
   formatEventTime,
+  getEventStatusLabel,
   getEventTypeIcon,
+  getEventTypeLabel,
 } from '@/src/lib/events';
+import { getDateLocale } from '@/src/lib/i18n';
 import { decodeEventId } from '@/src/lib/id';
+import { getRoleDisplay } from '@/src/lib/organizations';
+import { getEventAccess, getPermissionDisplay } from '@/src/lib/collaborators';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import AuthNav from '@/src/components/layout/AuthNav';
 import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import GuestImportWizard from '@/src/components/guests/GuestImportWizard';
+import CollaboratorsPanel from '@/src/components/events/CollaboratorsPanel';
+import ActivityFeed from '@/src/components/activity/ActivityFeed';
+import AutomationRulesPanel from '@/src/components/events/AutomationRulesPanel';
+import DeliveryLog from '@/src/components/events/DeliveryLog';
+import EventHistory from '@/src/components/events/EventHistory';
 import { ROUTES, THEME, EVENT_STATUSES } from '@/src/lib/constants';
 import type { EventDetail } from '@/src/types';
 
 type ActionType = 'delete' | 'close' | 'reopen' | null;
 
+type DetailTab = 'overview' | 'history';
+
+const DETAIL_TABS: DetailTab[] = ['overview', 'history'];
+
 function getStatusColor(status: string): string {
   const match = EVENT_STATUSES.find((s) => s.value === status);
   return match?.color || 'gray';
@@ -63,10 +81,13 @@ export default function EventDetailPage() {
   const [isDeleteOpen, setIsDeleteOpen] = useState(false);
   const [isCloseOpen, setIsCloseOpen] = useState(false);
   const [isReopenOpen, setIsReopenOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [activeTab, setActiveTab] = useState<DetailTab>('overview');
 
   const params = useParams();
   const router = useRouter();
   const toast = useCustomToast();
+  const { t } = useTranslation();
 
   const slug = (params as any).id as string;
   const eventId = decodeEventId(slug);
@@ -83,8 +104,8 @@ export default function EventDetailPage() {
       setEvent(data);
     } catch (error: any) {
       toast.error(
-        'Error loading event',
-        error?.message || 'Failed to load event. Redirecting to events list.'
+        t('eventForm.loadError'),
+        error?.message || t('eventDetail.loadErrorMessage')
       );
       router.push(ROUTES.PROTECTED.EVENTS);
     } finally {
@@ -102,12 +123,12 @@ export default function EventDetailPage() {
     setActionLoading('delete');
     try {
       await deleteEvent(event.id);
-      toast.success('Event deleted successfully');
+      toast.success(t('eventDetail.deleted'));
       router.push(ROUTES.PROTECTED.EVENTS);
     } catch (error: any) {
       toast.error(
-        'Error deleting event',
-        error?.message || 'Failed to delete event. Please try again.'
+        t('eventDetail.deleteError'),
+        error?.message || t('eventDetail.deleteErrorMessage')
       );
     } finally {
       setActionLoading(null);
@@ -120,12 +141,12 @@ export default function EventDetailPage() {
     setActionLoading('close');
     try {
       await closeEvent(event.id);
-      toast.success('Event closed successfully');
+      toast.success(t('eventDetail.closed'));
       await loadEvent();
     } catch (error: any) {
       toast.error(
-        'Error closing event',
-        error?.message || 'Failed to close event. Please try again.'
+        t('eventDetail.closeError'),
+        error?.message || t('eventDetail.closeErrorMessage')
       );
     } finally {
       setActionLoading(null);
@@ -138,12 +159,12 @@ export default function EventDetailPage() {
     setActionLoading('reopen');
     try {
       await reopenEvent(event.id);
-      toast.success('Event reopened successfully');
+      toast.success(t('eventDetail.reopened'));
       await loadEvent();
     } catch (error: any) {
       toast.error(
-        'Error reopening event',
-        error?.message || 'Failed to reopen event. Please try again.'
+        t('eventDetail.reopenError'),
+        error?.message || t('eventDetail.reopenErrorMessage')
       );
     } finally {
       setActionLoading(null);
@@ -151,6 +172,9 @@ export default function EventDetailPage() {
     }
   };
 
+  // Workspace viewers and view-only co-hosts can look but not change anything
+  const access = event ? getEventAccess(event) : null;
+
   const renderModal = ({
     isOpen,
     title,
@@ -199,7 +223,7 @@ export default function EventDetailPage() {
             </Text>
             <Flex justify="flex-end" gap={3} pt={2}>
               <Button variant="ghost" onClick={onClose}>
-                Cancel
+                {t('common.cancel')}
               </Button>
               <Button
                 bg={color === 'red' ? THEME.COLORS.error : color === 'orange' ? THEME.COLORS.warning : THEME.COLORS.success}
@@ -263,7 +287,7 @@ export default function EventDetailPage() {
                           >
                             <Icon as={FiArrowLeft} />
                           </Box>
-                          Back to Events
+                          {t('eventDetail.backToEvents')}
                         </Button>
                       </Link>
                       <Flex align="center" gap={3}>
@@ -284,7 +308,7 @@ export default function EventDetailPage() {
                             py={1}
                             borderRadius="full"
                           >
-                            {event.status_display}
+                            {getEventStatusLabel(event.status)}
                           </Badge>
                         </Stack>
                       </Flex>
@@ -292,7 +316,7 @@ export default function EventDetailPage() {
 
                     {/* RIGHT - Action Buttons */}
                     <Flex gap={3} flexWrap="wrap">
-                      {event.can_edit && (
+                      {access?.canEdit && event.can_edit && (
                         <Link href={ROUTES.PROTECTED.EVENT_EDIT(slug)}>
                           <Button {...THEME.BUTTON_STYLES.primaryButton}>
                             <Box
@@ -303,12 +327,12 @@ export default function EventDetailPage() {
                             >
                               <Icon as={FiEdit} />
                             </Box>
-                            Edit Event
+                            {t('eventForm.editTitle')}
                           </Button>
                         </Link>
                       )}
 
-                      {event.status === 'active' && event.can_edit && (
+                      {access?.canEdit && event.status === 'active' && event.can_edit && (
                         <Button
                           onClick={() => setIsCloseOpen(true)}
                           colorScheme="orange"
@@ -322,11 +346,11 @@ export default function EventDetailPage() {
                           >
                             <Icon as={FiLock} />
                           </Box>
-                          Close Event
+                          {t('eventDetail.closeEvent')}
                         </Button>
                       )}
 
-                      {event.status === 'closed' && (
+                      {access?.canEdit && event.status === 'closed' && (
                         <Button
                           onClick={() => setIsReopenOpen(true)}
                           colorScheme="green"
@@ -340,25 +364,27 @@ export default function EventDetailPage() {
                           >
                             <Icon as={FiUnlock} />
                           </Box>
-                          Reopen Event
+                          {t('eventDetail.reopenEvent')}
                         </Button>
                       )}
 
-                      <Button
-                        onClick={() => setIsDeleteOpen(true)}
-                        colorScheme="red"
-                        variant="outline"
-                      >
-                        <Box
-                          as="span"
-                          display="inline-flex"
-                          alignItems="center"
-                          mr={2}
+                      {access?.canDelete && (
+                        <Button
+                          onClick={() => setIsDeleteOpen(true)}
+                          colorScheme="red"
+                          variant="outline"
                         >
-                          <Icon as={FiTrash2} />
-                        </Box>
-                        Delete
-                      </Button>
+                          <Box
+                            as="span"
+                            display="inline-flex"
+                            alignItems="center"
+                            mr={2}
+                          >
+                            <Icon as={FiTrash2} />
+                          </Box>
+                          {t('common.delete')}
+                        </Button>
+                      )}
                     </Flex>
                   </Flex>
                 </Container>
@@ -377,433 +403,556 @@ export default function EventDetailPage() {
                     <Flex align="center" gap={3}>
                       <Icon as={FiLock} color="yellow.500" />
                       <Text fontSize="sm" color="gray.800">
-                        This event is closed. To make changes, reopen the event first.
+                        {t('eventDetail.closedBanner')}
                       </Text>
                     </Flex>
                   </Box>
                 </Container>
               )}
 
-              {/* MAIN CONTENT */}
-              <Container maxW="container.xl" py={8}>
-                <SimpleGrid columns={{ base: 1, lg: 3 }} gap={8}>
-                  {/* LEFT COLUMN */}
-                  <Stack gap={6} gridColumn={{ base: 'span 1', lg: 'span 2' }}>
-                    {/* EVENT DETAILS CARD */}
-                    <Box
-                      bg="white"
-                      borderRadius="xl"
-                      boxShadow="md"
-                      p={8}
+              {/* TABS */}
+              <Container maxW="container.xl" pt={6}>
+                <Flex gap={2} borderBottom="1px solid" borderColor="gray.200">
+                  {DETAIL_TABS.map((tab) => (
+                    <Button
+                      key={tab}
+                      variant="ghost"
+                      borderRadius={0}
+                      borderBottom="2px solid"
+                      borderColor={activeTab === tab ? THEME.COLORS.primary : 'transparent'}
+                      color={activeTab === tab ? THEME.COLORS.primary : 'gray.600'}
+                      fontWeight="semibold"
+                      mb="-1px"
+                      onClick={() => setActiveTab(tab)}
                     >
-                      <Stack gap={6}>
-                        <Heading fontSize="xl" color={THEME.COLORS.primary}>
-                          Event Details
-                        </Heading>
+                      {t(`eventDetail.tabs.${tab}`)}
+                    </Button>
+                  ))}
+                </Flex>
+              </Container>
+
+              {/* HISTORY TAB */}
+              {activeTab === 'history' && (
+                <Container maxW="container.xl" py={8}>
+                  <EventHistory
+                    event={event}
+                    canRestore={!!access?.canEdit}
+                    onRestored={loadEvent}
+                  />
+                </Container>
+              )}
 
-                        <Box borderTop="1px" borderColor="gray.200" />
+              {/* MAIN CONTENT */}
+              {activeTab === 'overview' && (
+                <Container maxW="container.xl" py={8}>
+                  <SimpleGrid columns={{ base: 1, lg: 3 }} gap={8}>
+                    {/* LEFT COLUMN */}
+                    <Stack gap={6} gridColumn={{ base: 'span 1', lg: 'span 2' }}>
+                      {/* EVENT DETAILS CARD */}
+                      <Box
+                        bg="white"
+                        borderRadius="xl"
+                        boxShadow="md"
+                        p={8}
+                      >
+                        <Stack gap={6}>
+                          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                            {t('eventDetail.details')}
+                          </Heading>
 
-                        <SimpleGrid columns={{ base: 1, md: 2 }} gap={6}>
-                          {/* DATE */}
-                          <Stack gap={3}>
-                            <Flex align="center" gap={2} color="gray.600">
-                              <Icon as={FiCalendar} w={5} h={5} />
+                          <Box borderTop="1px" borderColor="gray.200" />
+
+                          <SimpleGrid columns={{ base: 1, md: 2 }} gap={6}>
+                            {/* DATE */}
+                            <Stack gap={3}>
+                              <Flex align="center" gap={2} color="gray.600">
+                                <Icon as={FiCalendar} w={5} h={5} />
+                                <Text
+                                  fontSize="sm"
+                                  fontWeight="semibold"
+                                  textTransform="uppercase"
+                                >
+                                  {t('eventDetail.date')}
+                                </Text>
+                              </Flex>
                               <Text
-                                fontSize="sm"
+                                fontSize="lg"
+                                color="gray.800"
                                 fontWeight="semibold"
-                                textTransform="uppercase"
                               >
-                                Date
+                                {formatEventDate(event.event_date)}
                               </Text>
-                            </Flex>
-                            <Text
-                              fontSize="lg"
-                              color="gray.800"
-                              fontWeight="semibold"
-                            >
-                              {formatEventDate(event.event_date)}
-                            </Text>
-                          </Stack>
-
-                          {/* TIME */}
-                          <Stack gap={3}>
-                            <Flex align="center" gap={2} color="gray.600">
-                              <Icon as={FiClock} w={5} h={5} />
+                            </Stack>
+
+                            {/* TIME */}
+                            <Stack gap={3}>
+                              <Flex align="center" gap={2} color="gray.600">
+                                <Icon as={FiClock} w={5} h={5} />
+                                <Text
+                                  fontSize="sm"
+                                  fontWeight="semibold"
+                                  textTransform="uppercase"
+                                >
+                                  {t('eventDetail.time')}
+                                </Text>
+                              </Flex>
                               <Text
-                                fontSize="sm"
+                                fontSize="lg"
+                                color="gray.800"
                                 fontWeight="semibold"
-                                textTransform="uppercase"
                               >
-                                Time
+                                {formatEventTime(event.event_time)}
                               </Text>
-                            </Flex>
-                            <Text
-                              fontSize="lg"
-                              color="gray.800"
-                              fontWeight="semibold"
-                            >
-                              {formatEventTime(event.event_time)}
-                            </Text>
-                          </Stack>
+                            </Stack>
+
+                            {/* LOCATION */}
+                            <Stack gap={3} gridColumn="span 2">
+                              <Flex align="center" gap={2} color="gray.600">
+                                <Icon as={FiMapPin} w={5} h={5} />
+                                <Text
+                                  fontSize="sm"
+                                  fontWeight="semibold"
+                                  textTransform="uppercase"
+                                >
+                                  {t('eventDetail.location')}
+                                </Text>
+                              </Flex>
+                              <Text fontSize="lg" color="gray.800">
+                                {event.event_location}
+                              </Text>
+                            </Stack>
 
-                          {/* LOCATION */}
-                          <Stack gap={3} gridColumn="span 2">
-                            <Flex align="center" gap={2} color="gray.600">
-                              <Icon as={FiMapPin} w={5} h={5} />
+                            {/* EVENT TYPE */}
+                            <Stack gap={3}>
                               <Text
                                 fontSize="sm"
                                 fontWeight="semibold"
                                 textTransform="uppercase"
+                                color="gray.600"
                               >
-                                Location
+                                {t('eventForm.eventType')}
                               </Text>
-                            </Flex>
-                            <Text fontSize="lg" color="gray.800">
-                              {event.event_location}
-                            </Text>
-                          </Stack>
-
-                          {/* EVENT TYPE */}
-                          <Stack gap={3}>
-                            <Text
-                              fontSize="sm"
-                              fontWeight="semibold"
-                              textTransform="uppercase"
-                              color="gray.600"
-                            >
-                              Event Type
-                            </Text>
-                            <Text fontSize="lg" color="gray.800">
-                              {event.event_type_display}
-                            </Text>
-                          </Stack>
+                              <Text fontSize="lg" color="gray.800">
+                                {getEventTypeLabel(event.event_type)}
+                              </Text>
+                            </Stack>
+                          </SimpleGrid>
 
-                          {/* ORGANIZER */}
-                          <Stack gap={3}>
-                            <Flex align="center" gap={2} color="gray.600">
-                              <Icon as={FiUser} w={5} h={5} />
+                          {/* DESCRIPTION */}
+                          {event.event_description && (
+                            <Stack gap={3}>
                               <Text
                                 fontSize="sm"
                                 fontWeight="semibold"
                                 textTransform="uppercase"
+                                color="gray.600"
                               >
-                                Organizer
+                                {t('eventDetail.description')}
                               </Text>
-                            </Flex>
-                            <Text fontSize="lg" color="gray.800">
-                              {event.created_by.first_name}{' '}
-                              {event.created_by.last_name}
-                            </Text>
-                          </Stack>
-                        </SimpleGrid>
+                              <Text
+                                fontSize="md"
+                                color="gray.700"
+                                whiteSpace="pre-wrap"
+                              >
+                                {event.event_description}
+                              </Text>
+                            </Stack>
+                          )}
+                        </Stack>
+                      </Box>
 
-                        {/* DESCRIPTION */}
-                        {event.event_description && (
-                          <Stack gap={3}>
-                            <Text
-                              fontSize="sm"
-                              fontWeight="semibold"
-                              textTransform="uppercase"
-                              color="gray.600"
-                            >
-                              Description
-                            </Text>
-                            <Text
-                              fontSize="md"
-                              color="gray.700"
-                              whiteSpace="pre-wrap"
-                            >
-                              {event.event_description}
-                            </Text>
-                          </Stack>
-                        )}
-                      </Stack>
-                    </Box>
-
-                    {/* STATISTICS CARD */}
-                    <Box
-                      bg="white"
-                      borderRadius="xl"
-                      boxShadow="md"
-                      p={8}
-                    >
-                      <Stack gap={6}>
-                        <Heading fontSize="xl" color={THEME.COLORS.primary}>
-                          Event Statistics
-                        </Heading>
-
-                        <Box borderTop="1px" borderColor="gray.200" />
-
-                        <SimpleGrid columns={{ base: 2, md: 4 }} gap={6}>
-                          <Stat.Root>
-                            <Stat.Label fontSize="xs" color="gray.600">
-                              Invitations Sent
-                            </Stat.Label>
-                            <Stat.ValueText
-                              fontSize="2xl"
-                              color={THEME.COLORS.primary}
-                            >
-                              {event.total_invitations}
-                            </Stat.ValueText>
-                            <Stat.HelpText color="gray.500">
-                              <Icon
-                                as={FiMail}
-                                display="inline"
-                                mr={1}
-                              />
-                              Total sent
-                            </Stat.HelpText>
-                          </Stat.Root>
-
-                          <Stat.Root>
-                            <Stat.Label fontSize="xs" color="gray.600">
-                              RSVPs Received
-                            </Stat.Label>
-                            <Stat.ValueText
-                              fontSize="2xl"
-                              color={THEME.COLORS.primary}
-                            >
-                              {event.total_rsvps}
-                            </Stat.ValueText>
-                            <Stat.HelpText color="gray.500">
-                              <Icon
-                                as={FiMessageSquare}
-                                display="inline"
-                                mr={1}
-                              />
-                              Responses
-                            </Stat.HelpText>
-                          </Stat.Root>
-
-                          <Stat.Root>
-                            <Stat.Label fontSize="xs" color="gray.600">
-                              Confirmed
-                            </Stat.Label>
-                            <Stat.ValueText fontSize="2xl" color="green.500">
-                              {event.total_confirmations}
-                            </Stat.ValueText>
-                            <Stat.HelpText color="gray.500">
-                              <Icon
-                                as={FiCheckCircle}
-                                display="inline"
-                                mr={1}
-                                color="green.500"
-                              />
-                              Attending
-                            </Stat.HelpText>
-                          </Stat.Root>
-
-                          <Stat.Root>
-                            <Stat.Label fontSize="xs" color="gray.600">
-                              Response Rate
-                            </Stat.Label>
-                            <Stat.ValueText
-                              fontSize="2xl"
-                              color={THEME.COLORS.primary}
-                            >
-                              {event.response_rate.toFixed(1)}%
-                            </Stat.ValueText>
-                            <Stat.HelpText color="gray.500">
-                              Of invitations
-                            </Stat.HelpText>
-                          </Stat.Root>
-                        </SimpleGrid>
-
-                        {event.total_invitations === 0 && (
-                          <Box
-                            mt={4}
-                            bg={THEME.COLORS.background}
-                            borderRadius="md"
-                            p={4}
-                          >
-                            <Text fontSize="sm" color="gray.700">
-                              No invitations sent yet. Start by creating and sending invitations to
-                              your guests.
-                            </Text>
-                          </Box>
-                        )}
-                      </Stack>
-                    </Box>
-                  </Stack>
-
-                  {/* RIGHT COLUMN */}
-                  <Stack gap={6}>
-                    {/* QUICK ACTIONS CARD */}
-                    <Box
-                      bg="white"
-                      borderRadius="xl"
-                      boxShadow="md"
-                      p={6}
-                    >
-                      <Stack gap={4}>
-                        <Heading fontSize="lg" color={THEME.COLORS.primary}>
-                          Quick Actions
-                        </Heading>
+                      {/* PEOPLE WITH ACCESS CARD */}
+                      {access && <CollaboratorsPanel event={event} access={access} />}
 
-                        <Box borderTop="1px" borderColor="gray.200" />
+                      {/* STATISTICS CARD */}
+                      <Box
+                        bg="white"
+                        borderRadius="xl"
+                        boxShadow="md"
+                        p={8}
+                      >
+                        <Stack gap={6}>
+                          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                            {t('eventDetail.statistics')}
+                          </Heading>
 
-                        <Stack gap={3}>
-                          <Button
-                            w="full"
-                            {...THEME.BUTTON_STYLES.primaryButton}
-                            disabled
-                          >
-                            <Box
-                              as="span"
-                              display="inline-flex"
-                              alignItems="center"
-                              mr={2}
-                            >
-                              <Icon as={FiMail} />
-                            </Box>
-                            Send Invitations (Coming in Milestone 4)
-                          </Button>
+                          <Box borderTop="1px" borderColor="gray.200" />
 
-                          <Button
-                            w="full"
-                            {...THEME.BUTTON_STYLES.secondaryButton}
-                            variant="outline"
-                            disabled
-                          >
+                          <SimpleGrid columns={{ base: 2, md: 4 }} gap={6}>
+                            <Stat.Root>
+                              <Stat.Label fontSize="xs" color="gray.600">
+                                {t('eventDetail.stats.invitationsSent')}
+                              </Stat.Label>
+                              <Stat.ValueText
+                                fontSize="2xl"
+                                color={THEME.COLORS.primary}
+                              >
+                                {event.total_invitations}
+                              </Stat.ValueText>
+                              <Stat.HelpText color="gray.500">
+                                <Icon
+                                  as={FiMail}
+                                  display="inline"
+                                  mr={1}
+                                />
+                                {t('eventDetail.stats.totalSent')}
+                              </Stat.HelpText>
+                            </Stat.Root>
+
+                            <Stat.Root>
+                              <Stat.Label fontSize="xs" color="gray.600">
+                                {t('eventDetail.stats.rsvpsReceived')}
+                              </Stat.Label>
+                              <Stat.ValueText
+                                fontSize="2xl"
+                                color={THEME.COLORS.primary}
+                              >
+                                {event.total_rsvps}
+                              </Stat.ValueText>
+                              <Stat.HelpText color="gray.500">
+                                <Icon
+                                  as={FiMessageSquare}
+                                  display="inline"
+                                  mr={1}
+                                />
+                                {t('eventDetail.stats.responses')}
+                              </Stat.HelpText>
+                            </Stat.Root>
+
+                            <Stat.Root>
+                              <Stat.Label fontSize="xs" color="gray.600">
+                                {t('eventDetail.stats.confirmed')}
+                              </Stat.Label>
+                              <Stat.ValueText fontSize="2xl" color="green.500">
+                                {event.total_confirmations}
+                              </Stat.ValueText>
+                              <Stat.HelpText color="gray.500">
+                                <Icon
+                                  as={FiCheckCircle}
+                                  display="inline"
+                                  mr={1}
+                                  color="green.500"
+                                />
+                                {t('eventDetail.stats.attending')}
+                              </Stat.HelpText>
+                            </Stat.Root>
+
+                            <Stat.Root>
+                              <Stat.Label fontSize="xs" color="gray.600">
+                                {t('eventDetail.stats.responseRate')}
+                              </Stat.Label>
+                              <Stat.ValueText
+                                fontSize="2xl"
+                                color={THEME.COLORS.primary}
+                              >
+                                {event.response_rate.toFixed(1)}%
+                              </Stat.ValueText>
+                              <Stat.HelpText color="gray.500">
+                                {t('eventDetail.stats.ofInvitations')}
+                              </Stat.HelpText>
+                            </Stat.Root>
+                          </SimpleGrid>
+
+                          {event.total_invitations === 0 && (
                             <Box
-                              as="span"
-                              display="inline-flex"
-                              alignItems="center"
-                              mr={2}
+                              mt={4}
+                              bg={THEME.COLORS.background}
+                              borderRadius="md"
+                              p={4}
                             >
-                              <Icon as={FiCheckCircle} />
+                              <Text fontSize="sm" color="gray.700">
+                                {t('eventDetail.noInvitations')}
+                              </Text>
                             </Box>
-                            View RSVPs (Coming in Milestone 4)
-                          </Button>
+                          )}
+                        </Stack>
+                      </Box>
 
-                          <Link href={ROUTES.PROTECTED.EVENT_EDIT(slug)}>
-                            <Button
-                              w="full"
-                              {...THEME.BUTTON_STYLES.secondaryButton}
-                              variant="outline"
-                              disabled={!event.can_edit}
-                            >
-                              <Box
-                                as="span"
-                                display="inline-flex"
-                                alignItems="center"
-                                mr={2}
+                      {/* DELIVERY CARD */}
+                      {access && <DeliveryLog event={event} access={access} />}
+
+                      {/* AUTOMATIONS CARD */}
+                      {access && <AutomationRulesPanel event={event} access={access} />}
+
+                      {/* ACTIVITY CARD (reloads after the event changes, e.g. closed) */}
+                      <ActivityFeed
+                        key={event.updated_at}
+                        eventId={event.id}
+                        title={t('eventDetail.activity')}
+                      />
+                    </Stack>
+
+                    {/* RIGHT COLUMN */}
+                    <Stack gap={6}>
+                      {/* QUICK ACTIONS CARD */}
+                      <Box
+                        bg="white"
+                        borderRadius="xl"
+                        boxShadow="md"
+                        p={6}
+                      >
+                        <Stack gap={4}>
+                          <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                            {t('eventDetail.quickActions')}
+                          </Heading>
+
+                          <Box borderTop="1px" borderColor="gray.200" />
+
+                          <Stack gap={3}>
+                            <Link href={ROUTES.PROTECTED.EVENT_GUESTS(slug)}>
+                              <Button
+                                w="full"
+                                {...THEME.BUTTON_STYLES.secondaryButton}
+                                variant="outline"
+                              >
+                                <Box
+                                  as="span"
+                                  display="inline-flex"
+                                  alignItems="center"
+                                  mr={2}
+                                >
+                                  <Icon as={FiUsers} />
+                                </Box>
+                                {t('eventDetail.manageGuests')}
+                              </Button>
+                            </Link>
+
+                            {access?.canManageGuests && (
+                              <Button
+                                w="full"
+                                {...THEME.BUTTON_STYLES.secondaryButton}
+                                variant="outline"
+                                onClick={() => setIsImportOpen(true)}
+                                disabled={!event.can_edit}
+                              >
+                                <Box
+                                  as="span"
+                                  display="inline-flex"
+                                  alignItems="center"
+                                  mr={2}
+                                >
+                                  <Icon as={FiUpload} />
+                                </Box>
+                                {t('eventDetail.importGuests')}
+                              </Button>
+                            )}
+
+                            {access?.canSend && (
+                              <Button
+                                w="full"
+                                {...THEME.BUTTON_STYLES.primaryButton}
+                                onClick={() =>
+                                  router.push(ROUTES.PROTECTED.EVENT_SEND_INVITATIONS(slug))
+                                }
+                                disabled={!event.can_edit}
                               >
-                                <Icon as={FiEdit} />
-                              </Box>
-                              Edit Details
-                            </Button>
-                          </Link>
+                                <Box
+                                  as="span"
+                                  display="inline-flex"
+                                  alignItems="center"
+                                  mr={2}
+                                >
+                                  <Icon as={FiMail} />
+                                </Box>
+                                {t('eventDetail.sendInvitations')}
+                              </Button>
+                            )}
+
+                            <Link href={ROUTES.PROTECTED.EVENT_RSVPS(slug)}>
+                              <Button
+                                w="full"
+                                {...THEME.BUTTON_STYLES.secondaryButton}
+                                variant="outline"
+                              >
+                                <Box
+                                  as="span"
+                                  display="inline-flex"
+                                  alignItems="center"
+                                  mr={2}
+                                >
+                                  <Icon as={FiCheckCircle} />
+                                </Box>
+                                {t('eventDetail.viewRsvps')}
+                              </Button>
+                            </Link>
+
+                            {access?.canCheckIn && (
+                              <Link href={ROUTES.PROTECTED.EVENT_CHECK_IN(slug)}>
+                                <Button
+                                  w="full"
+                                  {...THEME.BUTTON_STYLES.secondaryButton}
+                                  variant="outline"
+                                >
+                                  <Box
+                                    as="span"
+                                    display="inline-flex"
+                                    alignItems="center"
+                                    mr={2}
+                                  >
+                                    <Icon as={FiCamera} />
+                                  </Box>
+                                  {t('eventDetail.checkInGuests')}
+                                </Button>
+                              </Link>
+                            )}
+
+                            {access?.canEdit && (
+                              <Link href={ROUTES.PROTECTED.EVENT_EDIT(slug)}>
+                                <Button
+                                  w="full"
+                                  {...THEME.BUTTON_STYLES.secondaryButton}
+                                  variant="outline"
+                                  disabled={!event.can_edit}
+                                >
+                                  <Box
+                                    as="span"
+                                    display="inline-flex"
+                                    alignItems="center"
+                                    mr={2}
+                                  >
+                                    <Icon as={FiEdit} />
+                                  </Box>
+                                  {t('eventDetail.editDetails')}
+                                </Button>
+                              </Link>
+                            )}
+                          </Stack>
                         </Stack>
-                      </Stack>
-                    </Box>
-
-                    {/* EVENT STATUS CARD */}
-                    <Box
-                      bg={
-                        event.is_upcoming
-                          ? 'green.50'
-                          : event.is_past
-                          ? 'gray.50'
-                          : 'blue.50'
-                      }
-                      borderRadius="xl"
-                      p={6}
-                      borderLeft="4px solid"
-                      borderColor={
-                        event.is_upcoming
-                          ? 'green.400'
-                          : event.is_past
-                          ? 'gray.400'
-                          : 'blue.400'
-                      }
-                    >
-                      <Stack gap={3}>
-                        <Flex align="center" gap={2}>
-                          <Icon
-                            as={
-                              event.is_upcoming
-                                ? FiCalendar
-                                : event.is_past
-                                ? FiXCircle
-                                : FiCheckCircle
-                            }
-                            w={6}
-                            h={6}
-                            color={
-                              event.is_upcoming
-                                ? 'green.600'
+                      </Box>
+
+                      {/* EVENT STATUS CARD */}
+                      <Box
+                        bg={
+                          event.is_upcoming
+                            ? 'green.50'
+                            : event.is_past
+                            ? 'gray.50'
+                            : 'blue.50'
+                        }
+                        borderRadius="xl"
+                        p={6}
+                        borderLeft="4px solid"
+                        borderColor={
+                          event.is_upcoming
+                            ? 'green.400'
+                            : event.is_past
+                            ? 'gray.400'
+                            : 'blue.400'
+                        }
+                      >
+                        <Stack gap={3}>
+                          <Flex align="center" gap={2}>
+                            <Icon
+                              as={
+                                event.is_upcoming
+                                  ? FiCalendar
+                                  : event.is_past
+                                  ? FiXCircle
+                                  : FiCheckCircle
+                              }
+                              w={6}
+                              h={6}
+                              color={
+                                event.is_upcoming
+                                  ? 'green.600'
+                                  : event.is_past
+                                  ? 'gray.600'
+                                  : 'blue.600'
+                              }
+                            />
+                            <Text fontWeight="bold" color="gray.800">
+                              {event.is_upcoming
+                                ? t('eventDetail.upcoming')
                                 : event.is_past
-                                ? 'gray.600'
-                                : 'blue.600'
-                            }
-                          />
-                          <Text fontWeight="bold" color="gray.800">
+                                ? t('eventDetail.past')
+                                : t('eventDetail.ongoing')}
+                            </Text>
+                          </Flex>
+                          <Text fontSize="sm" color="gray.700">
                             {event.is_upcoming
-                              ? 'Upcoming Event'
+                              ? t('eventDetail.upcomingText')
                               : event.is_past
-                              ? 'Past Event'
-                              : 'Ongoing Event'}
+                              ? t('eventDetail.pastText')
+                              : t('eventDetail.ongoingText')}
                           </Text>
-                        </Flex>
-                        <Text fontSize="sm" color="gray.700">
-                          {event.is_upcoming
-                            ? "This event hasn't happened yet."
-                            : event.is_past
-                            ? 'This event has already taken place.'
-                            : 'This event is currently active.'}
-                        </Text>
-                      </Stack>
-                    </Box>
-
-                    {/* METADATA CARD */}
-                    <Box
-                      bg="white"
-                      borderRadius="xl"
-                      boxShadow="md"
-                      p={6}
-                    >
-                      <Stack gap={4}>
-                        <Heading fontSize="lg" color={THEME.COLORS.primary}>
-                          Event Info
-                        </Heading>
-
-                        <Box borderTop="1px" borderColor="gray.200" />
-
-                        <Stack gap={3} fontSize="sm">
-                          <Flex justify="space-between">
-                            <Text color="gray.600">Created</Text>
-                            <Text color="gray.800" fontWeight="semibold">
-                              {new Date(event.created_at).toLocaleDateString()}
-                            </Text>
-                          </Flex>
-                          <Flex justify="space-between">
-                            <Text color="gray.600">Last Updated</Text>
-                            <Text color="gray.800" fontWeight="semibold">
-                              {new Date(event.updated_at).toLocaleDateString()}
-                            </Text>
-                          </Flex>
-                          <Flex justify="space-between" align="center">
-                            <Text color="gray.600">Status</Text>
-                            <Badge colorScheme={getStatusColor(event.status)}>
-                              {event.status_display}
-                            </Badge>
-                          </Flex>
                         </Stack>
-                      </Stack>
-                    </Box>
-                  </Stack>
-                </SimpleGrid>
-              </Container>
+                      </Box>
+
+                      {/* METADATA CARD */}
+                      <Box
+                        bg="white"
+                        borderRadius="xl"
+                        boxShadow="md"
+                        p={6}
+                      >
+                        <Stack gap={4}>
+                          <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                            {t('eventDetail.info')}
+                          </Heading>
+
+                          <Box borderTop="1px" borderColor="gray.200" />
+
+                          <Stack gap={3} fontSize="sm">
+                            <Flex justify="space-between">
+                              <Text color="gray.600">{t('eventDetail.created')}</Text>
+                              <Text color="gray.800" fontWeight="semibold">
+                                {new Date(event.created_at).toLocaleDateString(getDateLocale())}
+                              </Text>
+                            </Flex>
+                            <Flex justify="space-between">
+                              <Text color="gray.600">{t('eventDetail.lastUpdated')}</Text>
+                              <Text color="gray.800" fontWeight="semibold">
+                                {new Date(event.updated_at).toLocaleDateString(getDateLocale())}
+                              </Text>
+                            </Flex>
+                            <Flex justify="space-between" align="center">
+                              <Text color="gray.600">{t('eventDetail.status')}</Text>
+                              <Badge colorScheme={getStatusColor(event.status)}>
+                                {getEventStatusLabel(event.status)}
+                              </Badge>
+                            </Flex>
+                            {event.organization_name && (
+                              <>
+                                <Flex justify="space-between">
+                                  <Text color="gray.600">{t('eventDetail.workspace')}</Text>
+                                  <Text color="gray.800" fontWeight="semibold">
+                                    {event.organization_name}
+                                  </Text>
+                                </Flex>
+                                <Flex justify="space-between" align="center">
+                                  <Text color="gray.600">{t('eventDetail.yourRole')}</Text>
+                                  <Badge colorScheme={getRoleDisplay(event.user_role).color}>
+                                    {getRoleDisplay(event.user_role).label}
+                                  </Badge>
+                                </Flex>
+                              </>
+                            )}
+                            {event.collaborator_permission && (
+                              <Flex justify="space-between" align="center">
+                                <Text color="gray.600">{t('eventDetail.yourAccess')}</Text>
+                                <Badge
+                                  colorScheme={getPermissionDisplay(event.collaborator_permission).color}
+                                >
+                                  {t('eventDetail.cohost', {
+                                    permission: getPermissionDisplay(event.collaborator_permission).label,
+                                  })}
+                                </Badge>
+                              </Flex>
+                            )}
+                          </Stack>
+                        </Stack>
+                      </Box>
+                    </Stack>
+                  </SimpleGrid>
+                </Container>
+              )}
 
               {/* MODALS */}
               {renderModal({
                 isOpen: isDeleteOpen,
-                title: 'Delete Event',
-                description:
-                  event &&
-                  `Are you sure you want to delete '${event.event_name}'? All associated data including invitations and RSVPs will be permanently removed.`,
-                confirmLabel: 'Yes, Delete Event',
+                title: t('eventDetail.deleteTitle'),
+                description: t('eventDetail.deleteText', { name: event.event_name }),
+                confirmLabel: t('eventDetail.deleteConfirm'),
                 onConfirm: handleDelete,
                 onClose: () => setIsDeleteOpen(false),
                 variant: 'delete',
@@ -811,10 +960,9 @@ export default function EventDetailPage() {
 
               {renderModal({
                 isOpen: isCloseOpen,
-                title: 'Close Event',
-                description:
-                  'Closing this event will prevent any further edits. You can reopen it later if needed. Are you sure?',
-                confirmLabel: 'Close Event',
+                title: t('eventDetail.closeEvent'),
+                description: t('eventDetail.closeText'),
+                confirmLabel: t('eventDetail.closeEvent'),
                 onConfirm: handleClose,
                 onClose: () => setIsCloseOpen(false),
                 variant: 'close',
@@ -822,18 +970,23 @@ export default function EventDetailPage() {
 
               {renderModal({
                 isOpen: isReopenOpen,
-                title: 'Reopen Event',
-                description:
-                  'Reopening this event will allow you to make edits again. Continue?',
-                confirmLabel: 'Reopen Event',
+                title: t('eventDetail.reopenEvent'),
+                description: t('eventDetail.reopenText'),
+                confirmLabel: t('eventDetail.reopenEvent'),
                 onConfirm: handleReopen,
                 onClose: () => setIsReopenOpen(false),
                 variant: 'reopen',
               })}
+
+              <GuestImportWizard
+                eventId={event.id}
+                isOpen={isImportOpen}
+                onClose={() => setIsImportOpen(false)}
+              />
             </>
           ) : (
             <Center py={20}>
-              <Text>Event not found.</Text>
+              <Text>{t('eventForm.notFound')}</Text>
             </Center>
           )}
         </Box>
@@ -841,7 +994,7 @@ export default function EventDetailPage() {
         <Box as="footer" py={6} bg={THEME.COLORS.background}>
           <Container maxW="container.xl">
             <Text textAlign="center" color="gray.400" fontSize="sm">
-              © 2025 Ekadi Platform. All rights reserved.
+              {t('common.copyright')}
             </Text>
           </Container>
         </Box>
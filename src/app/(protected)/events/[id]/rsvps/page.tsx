@@ -0,0 +1,477 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Input,
+  Button,
+  Icon,
+  IconButton,
+  Flex,
+  Field,
+  Badge,
+  Spinner,
+  Center,
+  SimpleGrid,
+  Stat,
+} from '@chakra-ui/react';
+import { FiArrowLeft, FiCheckCircle, FiEdit, FiSearch } from 'react-icons/fi';
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { getEventById } from '@/src/lib/events';
+import { getEventAccess } from '@/src/lib/collaborators';
+import { getDateLocale } from '@/src/lib/i18n';
+import {
+  getEventRsvps,
+  updateRsvp,
+  summarizeRsvps,
+  getRsvpStatusColor,
+  getRsvpStatusLabel,
+} from '@/src/lib/rsvps';
+import { decodeEventId } from '@/src/lib/id';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import { ROUTES, THEME, RSVP_STATUSES } from '@/src/lib/constants';
+import type { ApiError, EventDetail, Rsvp, RsvpStatus } from '@/src/types';
+
+const focusStyle = {
+  borderColor: THEME.COLORS.primary,
+  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+  outline: 'none',
+};
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  height: 40,
+  padding: '0 0.75rem',
+  borderRadius: 6,
+  border: '1px solid #E2E8F0',
+  backgroundColor: 'white',
+  fontSize: 14,
+  cursor: 'pointer',
+};
+
+/**
+ * Format an RSVP response timestamp for display
+ */
+const formatRespondedAt = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString(getDateLocale(), {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * Event RSVP Tracking Page Component
+ *
+ * Shows every guest's response to the event with plus-one counts and
+ * response times. Organizers can filter by status, search guests and
+ * manually override a response received outside the platform.
+ */
+export default function EventRsvpsPage() {
+  const [event, setEvent] = useState<EventDetail | null>(null);
+  const [rsvps, setRsvps] = useState<Rsvp[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [statusFilter, setStatusFilter] = useState<RsvpStatus | ''>('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [overrideTarget, setOverrideTarget] = useState<Rsvp | null>(null);
+  const [overrideStatus, setOverrideStatus] = useState<RsvpStatus>('attending');
+  const [overridePlusOnes, setOverridePlusOnes] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const params = useParams();
+  const router = useRouter();
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+
+  const slug = (params as { id: string }).id;
+  const eventId = decodeEventId(slug);
+  // Overriding a response changes the guest list, so it needs guest access
+  const canOverride = !!event && event.can_edit && getEventAccess(event).canManageGuests;
+
+  useEffect(() => {
+    const loadPage = async () => {
+      if (!eventId) {
+        router.push(ROUTES.PROTECTED.EVENTS);
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const [eventData, rsvpData] = await Promise.all([
+          getEventById(eventId),
+          getEventRsvps(eventId),
+        ]);
+        setEvent(eventData);
+        setRsvps(rsvpData);
+      } catch (error) {
+        toast.error(
+          t('rsvps.loadError'),
+          (error as ApiError)?.message || t('rsvps.loadErrorMessage')
+        );
+        router.push(ROUTES.PROTECTED.EVENTS);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId]);
+
+  const summary = useMemo(() => summarizeRsvps(rsvps), [rsvps]);
+
+  const filteredRsvps = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return rsvps.filter((rsvp) => {
+      if (statusFilter && rsvp.status !== statusFilter) return false;
+      if (!query) return true;
+      return (
+        rsvp.guest_name.toLowerCase().includes(query) ||
+        rsvp.guest_phone_number.includes(query) ||
+        !!rsvp.guest_email?.toLowerCase().includes(query)
+      );
+    });
+  }, [rsvps, statusFilter, searchQuery]);
+
+  const openOverride = (rsvp: Rsvp) => {
+    setOverrideTarget(rsvp);
+    setOverrideStatus(rsvp.status === 'pending' ? 'attending' : rsvp.status);
+    setOverridePlusOnes(rsvp.plus_ones);
+  };
+
+  const handleOverride = async () => {
+    if (!eventId || !overrideTarget || !canOverride) return;
+    setIsSaving(true);
+    try {
+      const updated = await updateRsvp(eventId, overrideTarget.id, {
+        status: overrideStatus,
+        plus_ones: overrideStatus === 'attending' ? overridePlusOnes : 0,
+      });
+      setRsvps((prev) => prev.map((rsvp) => (rsvp.id === updated.id ? updated : rsvp)));
+      toast.success(t('rsvps.updated'));
+      setOverrideTarget(null);
+    } catch (error) {
+      toast.error(
+        t('rsvps.updateError'),
+        (error as ApiError)?.message || t('rsvps.updateErrorMessage')
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const statCards = [
+    { label: getRsvpStatusLabel('attending'), value: summary.attending, color: THEME.COLORS.success },
+    { label: getRsvpStatusLabel('maybe'), value: summary.maybe, color: THEME.COLORS.warning },
+    { label: getRsvpStatusLabel('declined'), value: summary.declined, color: THEME.COLORS.error },
+    { label: getRsvpStatusLabel('pending'), value: summary.pending, color: 'gray.500' },
+    {
+      label: t('rsvps.expectedAttendees'),
+      value: summary.total_attendees,
+      color: THEME.COLORS.primary,
+    },
+  ];
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {loading ? (
+            <Center py={20}>
+              <Spinner size="xl" color={THEME.COLORS.primary} />
+            </Center>
+          ) : event ? (
+            <>
+              {/* PAGE HEADER */}
+              <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+                <Container maxW="container.xl">
+                  <Stack gap={3}>
+                    <Link href={ROUTES.PROTECTED.EVENT_DETAIL(slug)}>
+                      <Button variant="ghost" size="sm" color={THEME.COLORS.primary}>
+                        <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                          <Icon as={FiArrowLeft} />
+                        </Box>
+                        {t('eventDetail.backToEvent')}
+                      </Button>
+                    </Link>
+                    <Stack gap={1}>
+                      <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                        {t('rsvps.title')}
+                      </Heading>
+                      <Text color="gray.600">
+                        {event.event_name} •{' '}
+                        {t('rsvps.responded', {
+                          count: rsvps.length,
+                          responded: rsvps.length - summary.pending,
+                        })}
+                      </Text>
+                    </Stack>
+                  </Stack>
+                </Container>
+              </Box>
+
+              <Container maxW="container.xl" py={8}>
+                <Stack gap={6}>
+                  {/* SUMMARY */}
+                  <SimpleGrid columns={{ base: 2, md: 5 }} gap={4}>
+                    {statCards.map((card) => (
+                      <Box key={card.label} bg="white" borderRadius="xl" boxShadow="md" p={4}>
+                        <Stat.Root>
+                          <Stat.Label fontSize="xs" color="gray.600">
+                            {card.label}
+                          </Stat.Label>
+                          <Stat.ValueText fontSize="2xl" color={card.color}>
+                            {card.value}
+                          </Stat.ValueText>
+                        </Stat.Root>
+                      </Box>
+                    ))}
+                  </SimpleGrid>
+
+                  {/* FILTERS */}
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={4}>
+                    <Stack gap={4}>
+                      <Flex align="center" gap={3}>
+                        <Icon as={FiSearch} color="gray.400" />
+                        <Input
+                          placeholder={t('guests.searchPlaceholder')}
+                          variant="flushed"
+                          value={searchQuery}
+                          onChange={(e) => setSearchQuery(e.target.value)}
+                        />
+                      </Flex>
+                      <Flex gap={2} flexWrap="wrap">
+                        <Button
+                          size="sm"
+                          variant={statusFilter === '' ? 'solid' : 'outline'}
+                          bg={statusFilter === '' ? THEME.COLORS.primary : undefined}
+                          color={statusFilter === '' ? 'white' : undefined}
+                          onClick={() => setStatusFilter('')}
+                        >
+                          {t('common.all')} ({rsvps.length})
+                        </Button>
+                        {RSVP_STATUSES.map((status) => (
+                          <Button
+                            key={status.value}
+                            size="sm"
+                            variant={statusFilter === status.value ? 'solid' : 'outline'}
+                            bg={statusFilter === status.value ? THEME.COLORS.primary : undefined}
+                            color={statusFilter === status.value ? 'white' : undefined}
+                            onClick={() => setStatusFilter(status.value)}
+                          >
+                            {getRsvpStatusLabel(status.value)} ({summary[status.value]})
+                          </Button>
+                        ))}
+                      </Flex>
+                    </Stack>
+                  </Box>
+
+                  {/* RSVP TABLE */}
+                  {filteredRsvps.length === 0 ? (
+                    <Box bg="white" p={8} borderRadius="xl" boxShadow="md" textAlign="center">
+                      <Stack gap={4} align="center">
+                        <Icon as={FiCheckCircle} w={12} h={12} color="gray.300" />
+                        <Heading fontSize="xl" color="gray.700">
+                          {rsvps.length === 0 ? t('rsvps.emptyTitle') : t('rsvps.noMatchTitle')}
+                        </Heading>
+                        <Text color="gray.600" maxW="md">
+                          {rsvps.length === 0 ? t('rsvps.emptyText') : t('rsvps.noMatchText')}
+                        </Text>
+                      </Stack>
+                    </Box>
+                  ) : (
+                    <Box bg="white" borderRadius="xl" boxShadow="md" overflowX="auto">
+                      <Box as="table" width="100%" borderCollapse="collapse" fontSize="sm">
+                        <Box as="thead" bg="gray.50">
+                          <Box as="tr">
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('rsvps.guest')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('rsvps.status')}
+                            </Box>
+                            <Box as="th" textAlign="center" p={4} fontWeight="semibold">
+                              {t('guests.plusOnes')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('rsvps.respondedAt')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('common.message')}
+                            </Box>
+                            <Box as="th" textAlign="right" p={4} fontWeight="semibold">
+                              {t('rsvps.override')}
+                            </Box>
+                          </Box>
+                        </Box>
+                        <Box as="tbody">
+                          {filteredRsvps.map((rsvp) => (
+                            <Box as="tr" key={rsvp.id} borderTop="1px solid" borderColor="gray.200">
+                              <Box as="td" p={4}>
+                                <Text fontWeight="semibold" color="gray.800">
+                                  {rsvp.guest_name}
+                                </Text>
+                                <Text fontSize="xs" color="gray.500">
+                                  {rsvp.guest_phone_number}
+                                </Text>
+                              </Box>
+                              <Box as="td" p={4}>
+                                <Flex gap={2} align="center" flexWrap="wrap">
+                                  <Badge colorScheme={getRsvpStatusColor(rsvp.status)}>
+                                    {getRsvpStatusLabel(rsvp.status)}
+                                  </Badge>
+                                  {rsvp.is_manual_override && (
+                                    <Badge variant="outline" fontSize="xs">
+                                      {t('rsvps.manual')}
+                                    </Badge>
+                                  )}
+                                </Flex>
+                              </Box>
+                              <Box as="td" p={4} textAlign="center" color="gray.700">
+                                {rsvp.status === 'attending'
+                                  ? t('rsvps.plusOnesOf', {
+                                      count: rsvp.plus_ones,
+                                      allowed: rsvp.plus_ones_allowed,
+                                    })
+                                  : '—'}
+                              </Box>
+                              <Box as="td" p={4} color="gray.700">
+                                {rsvp.responded_at ? formatRespondedAt(rsvp.responded_at) : '—'}
+                              </Box>
+                              <Box as="td" p={4} color="gray.700" maxW="280px">
+                                <Text lineClamp={2}>{rsvp.message || '—'}</Text>
+                              </Box>
+                              <Box as="td" p={4}>
+                                <Flex justify="flex-end">
+                                  <IconButton
+                                    aria-label={t('rsvps.overrideFor', { name: rsvp.guest_name })}
+                                    variant="ghost"
+                                    size="sm"
+                                    color={THEME.COLORS.primary}
+                                    disabled={!canOverride}
+                                    onClick={() => openOverride(rsvp)}
+                                  >
+                                    <FiEdit />
+                                  </IconButton>
+                                </Flex>
+                              </Box>
+                            </Box>
+                          ))}
+                        </Box>
+                      </Box>
+                    </Box>
+                  )}
+                </Stack>
+              </Container>
+
+              {/* MANUAL OVERRIDE */}
+              {overrideTarget && (
+                <Box
+                  position="fixed"
+                  inset={0}
+                  bg="blackAlpha.600"
+                  display="flex"
+                  alignItems="center"
+                  justifyContent="center"
+                  zIndex={1000}
+                >
+                  <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+                    <Stack gap={4}>
+                      <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                        {t('rsvps.overrideTitle')}
+                      </Heading>
+                      <Text fontSize="sm" color="gray.700">
+                        {t('rsvps.overrideText', { name: overrideTarget.guest_name })}
+                      </Text>
+
+                      <Field.Root>
+                        <Field.Label fontWeight="semibold" color="gray.700">
+                          {t('rsvps.status')}
+                        </Field.Label>
+                        <select
+                          value={overrideStatus}
+                          onChange={(e) => setOverrideStatus(e.target.value as RsvpStatus)}
+                          style={selectStyle}
+                        >
+                          {RSVP_STATUSES.map((status) => (
+                            <option key={status.value} value={status.value}>
+                              {getRsvpStatusLabel(status.value)}
+                            </option>
+                          ))}
+                        </select>
+                      </Field.Root>
+
+                      {overrideStatus === 'attending' && (
+                        <Field.Root>
+                          <Field.Label fontWeight="semibold" color="gray.700">
+                            {t('rsvps.plusOnesMax', { max: overrideTarget.plus_ones_allowed })}
+                          </Field.Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={overrideTarget.plus_ones_allowed}
+                            value={overridePlusOnes}
+                            onChange={(e) =>
+                              setOverridePlusOnes(
+                                Math.min(
+                                  Math.max(Number(e.target.value) || 0, 0),
+                                  overrideTarget.plus_ones_allowed
+                                )
+                              )
+                            }
+                            borderRadius="md"
+                            borderColor="gray.200"
+                            _focus={focusStyle}
+                          />
+                        </Field.Root>
+                      )}
+
+                      <Flex justify="flex-end" gap={3} pt={2}>
+                        <Button
+                          variant="ghost"
+                          onClick={() => setOverrideTarget(null)}
+                          disabled={isSaving}
+                        >
+                          {t('common.cancel')}
+                        </Button>
+                        <Button
+                          {...THEME.BUTTON_STYLES.primaryButton}
+                          loading={isSaving}
+                          onClick={handleOverride}
+                        >
+                          {t('rsvps.save')}
+                        </Button>
+                      </Flex>
+                    </Stack>
+                  </Box>
+                </Box>
+              )}
+            </>
+          ) : (
+            <Center py={20}>
+              <Text>{t('eventForm.notFound')}</Text>
+            </Center>
+          )}
+        </Box>
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
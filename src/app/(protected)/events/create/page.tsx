@@ -13,54 +13,69 @@ import {
   Flex,
   Field,
 } from '@chakra-ui/react';
-import { FiSave, FiX } from 'react-icons/fi';
+import { FiBriefcase, FiSave, FiX } from 'react-icons/fi';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import Link from 'next/link';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { createEvent } from '@/src/lib/events';
+import { createEvent, getEventTypeLabel } from '@/src/lib/events';
+import { isQuotaExceededError } from '@/src/lib/api';
+import { canManageEvents } from '@/src/lib/organizations';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import useEventQuota from '@/src/hooks/useEventQuota';
 import AuthNav from '@/src/components/layout/AuthNav';
 import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import EventQuotaNotice from '@/src/components/billing/EventQuotaNotice';
+import UpgradePlanDialog from '@/src/components/billing/UpgradePlanDialog';
 import { ROUTES, THEME, EVENT_TYPES, EVENT_STATUSES } from '@/src/lib/constants';
-import type { EventFormData } from '@/src/types';
+import type { LocaleContextType } from '@/src/types';
 
-const eventSchema = z
-  .object({
-    event_type: z.enum(['wedding', 'send_off', 'conference', 'birthday', 'corporate', 'other']),
-    event_name: z
-      .string()
-      .min(3, 'Event name must be at least 3 characters')
-      .max(255, 'Event name must be at most 255 characters'),
-    event_location: z.string().min(3, 'Location is required'),
-    event_date: z.string().min(1, 'Date is required'),
-    event_time: z.string().min(1, 'Time is required'),
-    event_description: z.string().optional(),
-    status: z.enum(['draft', 'active', 'closed']),
-  })
-  .refine((data) => {
-    if (!data.event_date) {
-      return true;
-    }
+const createEventSchema = (t: LocaleContextType['t']) =>
+  z
+    .object({
+      event_type: z.enum(['wedding', 'send_off', 'conference', 'birthday', 'corporate', 'other']),
+      event_name: z
+        .string()
+        .min(3, t('eventForm.validation.nameMin'))
+        .max(255, t('eventForm.validation.nameMax')),
+      event_location: z.string().min(3, t('eventForm.validation.locationRequired')),
+      event_date: z.string().min(1, t('eventForm.validation.dateRequired')),
+      event_time: z.string().min(1, t('validation.timeRequired')),
+      event_description: z.string().optional(),
+      status: z.enum(['draft', 'active', 'closed']),
+    })
+    .refine((data) => {
+      if (!data.event_date) {
+        return true;
+      }
 
-    const selectedDate = new Date(data.event_date);
-    const today = new Date();
-    selectedDate.setHours(0, 0, 0, 0);
-    today.setHours(0, 0, 0, 0);
-    return selectedDate >= today;
-  }, {
-    path: ['event_date'],
-    message: 'Event date cannot be in the past',
-  });
+      const selectedDate = new Date(data.event_date);
+      const today = new Date();
+      selectedDate.setHours(0, 0, 0, 0);
+      today.setHours(0, 0, 0, 0);
+      return selectedDate >= today;
+    }, {
+      path: ['event_date'],
+      message: t('eventForm.validation.datePast'),
+    });
 
-type CreateEventFormValues = z.infer<typeof eventSchema>;
+type CreateEventFormValues = z.infer<ReturnType<typeof createEventSchema>>;
 
 export default function CreateEventPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUpgradeOpen, setIsUpgradeOpen] = useState(false);
   const router = useRouter();
   const toast = useCustomToast();
+  const { t } = useTranslation();
+  const eventSchema = useMemo(() => createEventSchema(t), [t]);
+  const { quota, refresh: refreshQuota } = useEventQuota();
+  const { activeOrganization } = useOrganization();
+  // Viewers can see a workspace's events but not create them
+  const canCreate = !activeOrganization || canManageEvents(activeOrganization.role);
 
   const {
     register,
@@ -80,17 +95,35 @@ export default function CreateEventPage() {
   });
 
   const onSubmit = async (data: CreateEventFormValues) => {
+    if (!canCreate) return;
+
+    if (quota?.remaining === 0) {
+      setIsUpgradeOpen(true);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
-      await createEvent(data);
-      toast.success('Event created successfully!');
+      await createEvent({
+        ...data,
+        organization: activeOrganization?.id ?? null,
+      });
+      toast.success(t('eventForm.created'));
       router.push(ROUTES.PROTECTED.EVENTS);
     } catch (error: any) {
+      if (isQuotaExceededError(error)) {
+        // The quota ran out since the page loaded (e.g. created in another tab)
+        if (await refreshQuota()) {
+          setIsUpgradeOpen(true);
+          return;
+        }
+      }
+
       const errorMessage =
         error?.response?.data?.message ||
         error?.message ||
-        'Failed to create event. Please try again.';
-      toast.error('Error creating event', errorMessage);
+        t('eventForm.createErrorMessage');
+      toast.error(t('eventForm.createError'), errorMessage);
       console.error('Create event error:', error);
     } finally {
       setIsSubmitting(false);
@@ -109,10 +142,10 @@ export default function CreateEventPage() {
               <Flex justify="space-between" align="center" flexWrap="wrap" gap={4}>
                 <Stack gap={1}>
                   <Heading fontSize="2xl" color={THEME.COLORS.primary}>
-                    Create New Event
+                    {t('eventForm.createTitle')}
                   </Heading>
                   <Text color="gray.600">
-                    Fill in the details below to create your event
+                    {t('eventForm.createSubtitle')}
                   </Text>
                 </Stack>
 
@@ -129,7 +162,7 @@ export default function CreateEventPage() {
                     >
                       <Icon as={FiX} />
                     </Box>
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                 </Link>
               </Flex>
@@ -138,13 +171,37 @@ export default function CreateEventPage() {
 
           {/* FORM CONTENT */}
           <Container maxW="container.md" py={8}>
+            {quota && (
+              <Box mb={6}>
+                <EventQuotaNotice quota={quota} />
+              </Box>
+            )}
+
             <Box bg="white" borderRadius="xl" boxShadow="md" p={8}>
               <form onSubmit={handleSubmit(onSubmit)}>
                 <Stack gap={6}>
+                  {/* WORKSPACE */}
+                  {activeOrganization && (
+                    <Flex
+                      align="center"
+                      gap={3}
+                      bg={canCreate ? 'gray.50' : 'orange.50'}
+                      borderRadius="md"
+                      p={4}
+                    >
+                      <Icon as={FiBriefcase} color={canCreate ? THEME.COLORS.primary : 'orange.500'} />
+                      <Text fontSize="sm" color="gray.700">
+                        {canCreate
+                          ? t('eventForm.workspaceNotice', { name: activeOrganization.name })
+                          : t('eventForm.viewerNotice', { name: activeOrganization.name })}
+                      </Text>
+                    </Flex>
+                  )}
+
                   {/* EVENT TYPE */}
                   <Field.Root invalid={!!errors.event_type} required>
                     <Field.Label fontWeight="semibold" color="gray.700">
-                      Event Type
+                      {t('eventForm.eventType')}
                     </Field.Label>
                     <Box
                       as="select"
@@ -168,11 +225,11 @@ export default function CreateEventPage() {
                       cursor="pointer"
                     >
                       <option value="" style={{ backgroundColor: '#fff' }}>
-                        Select event type
+                        {t('eventForm.selectType')}
                       </option>
                       {EVENT_TYPES.map((type) => (
                         <option key={type.value} value={type.value} style={{ backgroundColor: '#fff' }}>
-                          {type.icon} {type.label}
+                          {type.icon} {getEventTypeLabel(type.value)}
                         </option>
                       ))}
                     </Box>
@@ -182,10 +239,10 @@ export default function CreateEventPage() {
                   {/* EVENT NAME */}
                   <Field.Root invalid={!!errors.event_name} required>
                     <Field.Label fontWeight="semibold" color="gray.700">
-                      Event Name
+                      {t('eventForm.eventName')}
                     </Field.Label>
                     <Input
-                      placeholder="e.g., John & Mary Wedding"
+                      placeholder={t('eventForm.namePlaceholder')}
                       borderRadius="md"
                       borderColor="gray.200"
                       _focus={{
@@ -202,7 +259,7 @@ export default function CreateEventPage() {
                   <Stack direction={{ base: 'column', md: 'row' }} gap={4}>
                     <Field.Root invalid={!!errors.event_date} required flex="1">
                       <Field.Label fontWeight="semibold" color="gray.700">
-                        Event Date
+                        {t('eventForm.eventDate')}
                       </Field.Label>
                       <Input
                         type="date"
@@ -221,7 +278,7 @@ export default function CreateEventPage() {
 
                     <Field.Root invalid={!!errors.event_time} required flex="1">
                       <Field.Label fontWeight="semibold" color="gray.700">
-                        Event Time
+                        {t('eventForm.eventTime')}
                       </Field.Label>
                       <Input
                         type="time"
@@ -241,10 +298,10 @@ export default function CreateEventPage() {
                   {/* LOCATION */}
                   <Field.Root invalid={!!errors.event_location} required>
                     <Field.Label fontWeight="semibold" color="gray.700">
-                      Event Location
+                      {t('eventForm.eventLocation')}
                     </Field.Label>
                     <Input
-                      placeholder="e.g., Safari Park Hotel, Nairobi"
+                      placeholder={t('eventForm.locationPlaceholder')}
                       borderRadius="md"
                       borderColor="gray.200"
                       _focus={{
@@ -260,10 +317,10 @@ export default function CreateEventPage() {
                   {/* DESCRIPTION */}
                   <Field.Root invalid={!!errors.event_description}>
                     <Field.Label fontWeight="semibold" color="gray.700">
-                      Event Description
+                      {t('eventForm.eventDescription')}
                     </Field.Label>
                     <Textarea
-                      placeholder="Add any additional details about your event..."
+                      placeholder={t('eventForm.descriptionPlaceholder')}
                       rows={6}
                       borderRadius="md"
                       borderColor="gray.200"
@@ -275,7 +332,7 @@ export default function CreateEventPage() {
                       {...register('event_description')}
                     />
                     <Text fontSize="xs" color="gray.500" mt={1}>
-                      Optional - Describe what guests should know
+                      {t('eventForm.descriptionHelp')}
                     </Text>
                     <Field.ErrorText>{errors.event_description?.message}</Field.ErrorText>
                   </Field.Root>
@@ -283,7 +340,7 @@ export default function CreateEventPage() {
                   {/* STATUS */}
                   <Field.Root invalid={!!errors.status}>
                     <Field.Label fontWeight="semibold" color="gray.700">
-                      Event Status
+                      {t('eventForm.eventStatus')}
                     </Field.Label>
                     <Box
                       as="select"
@@ -308,12 +365,13 @@ export default function CreateEventPage() {
                     >
                       {EVENT_STATUSES.map((status) => (
                         <option key={status.value} value={status.value} style={{ backgroundColor: '#fff' }}>
-                          {status.label} - {status.description}
+                          {t(`eventStatuses.${status.value}.label`)} -{' '}
+                          {t(`eventStatuses.${status.value}.description`)}
                         </option>
                       ))}
                     </Box>
                     <Text fontSize="xs" color="gray.500" mt={1}>
-                      Save as draft to edit later, or publish as active
+                      {t('eventForm.statusHelpCreate')}
                     </Text>
                     <Field.ErrorText>{errors.status?.message}</Field.ErrorText>
                   </Field.Root>
@@ -328,16 +386,16 @@ export default function CreateEventPage() {
                   >
                     <Stack gap={2}>
                       <Text fontSize="sm" fontWeight="semibold" color="gray.700">
-                        📌 Quick Tips
+                        📌 {t('eventForm.tipsTitle')}
                       </Text>
                       <Text fontSize="sm" color="gray.700">
-                        • Choose 'Draft' to save and continue editing later
+                        • {t('eventForm.tipDraft')}
                       </Text>
                       <Text fontSize="sm" color="gray.700">
-                        • Set to 'Active' when ready to send invitations
+                        • {t('eventForm.tipActive')}
                       </Text>
                       <Text fontSize="sm" color="gray.700">
-                        • You can close the event after it concludes
+                        • {t('eventForm.tipClose')}
                       </Text>
                     </Stack>
                   </Box>
@@ -347,6 +405,7 @@ export default function CreateEventPage() {
                     <Button
                       type="submit"
                       loading={isSubmitting}
+                      disabled={!canCreate}
                       flex="1"
                       {...THEME.BUTTON_STYLES.primaryButton}
                     >
@@ -358,7 +417,7 @@ export default function CreateEventPage() {
                       >
                         <Icon as={FiSave} />
                       </Box>
-                      Create Event
+                      {t('eventForm.create')}
                     </Button>
                     <Link href={ROUTES.PROTECTED.EVENTS} style={{ flex: 1 }}>
                       <Button
@@ -366,7 +425,7 @@ export default function CreateEventPage() {
                         {...THEME.BUTTON_STYLES.secondaryButton}
                         variant="outline"
                       >
-                        Cancel
+                        {t('common.cancel')}
                       </Button>
                     </Link>
                   </Stack>
@@ -375,10 +434,18 @@ export default function CreateEventPage() {
             </Box>
           </Container>
         </Box>
+
+        {/* EVENT LIMIT REACHED */}
+        <UpgradePlanDialog
+          isOpen={isUpgradeOpen}
+          quota={quota}
+          onClose={() => setIsUpgradeOpen(false)}
+        />
+
         <Box as="footer" py={6} bg={THEME.COLORS.background}>
           <Container maxW="container.xl">
             <Text textAlign="center" color="gray.400" fontSize="sm">
-              © 2025 Ekadi Platform. All rights reserved.
+              {t('common.copyright')}
             </Text>
           </Container>
         </Box>
@@ -23,8 +23,12 @@ import Link from 'next/link';
 import { useState, useEffect } from 'react';
 import {
   getAllEvents,
+  getEventStatusLabel,
+  getEventTypeLabel,
 } from '@/src/lib/events';
 import useCustomToast from '@/src/hooks/useToast';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import AuthNav from '@/src/components/layout/AuthNav';
 import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
 import { ROUTES, THEME, EVENT_TYPES, EVENT_STATUSES } from '@/src/lib/constants';
@@ -34,7 +38,8 @@ import EventCard from '@/src/components/events/EventCard';
 /**
  * Events List Page Component
  * 
- * Displays a filterable and searchable list of user's events.
+ * Displays a filterable and searchable list of the events in the active
+ * workspace (the user's own events when no team workspace is selected).
  * Features real-time filtering by type and status, search functionality,
  * and responsive grid layout with color-coded status indicators.
  */
@@ -48,6 +53,8 @@ export default function EventsListPage() {
 
   // Hooks
   const toast = useCustomToast();
+  const { activeOrganization, activeOrganizationId } = useOrganization();
+  const { t } = useTranslation();
 
   // Load events with filters
   useEffect(() => {
@@ -78,8 +85,8 @@ export default function EventsListPage() {
         setEvents(data);
       } catch (error: any) {
         toast.error(
-          'Error loading events',
-          error.message || 'Failed to load events. Please try again.'
+          t('events.loadError'),
+          error.message || t('events.loadErrorMessage')
         );
         // Clear events on error to avoid showing stale data
         setEvents([]);
@@ -90,7 +97,7 @@ export default function EventsListPage() {
 
     loadEvents();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedType, selectedStatus, searchQuery]);
+  }, [selectedType, selectedStatus, searchQuery, activeOrganizationId]);
 
   return (
     <ProtectedRoute>
@@ -119,10 +126,12 @@ export default function EventsListPage() {
                 {/* LEFT - Title */}
                 <Stack gap={1}>
                   <Heading fontSize="2xl" color={THEME.COLORS.primary}>
-                    My Events
+                    {activeOrganization
+                      ? t('events.workspaceTitle', { name: activeOrganization.name })
+                      : t('events.title')}
                   </Heading>
                   <Text color="gray.600">
-                    {events.length} event{events.length !== 1 ? 's' : ''}
+                    {t('events.count', { count: events.length })}
                   </Text>
                 </Stack>
 
@@ -139,7 +148,7 @@ export default function EventsListPage() {
                     >
                       <FiPlus size={20} />
                     </Box>
-                    Create Event
+                    {t('events.create')}
                   </Button>
                 </Link>
               </Flex>
@@ -162,7 +171,7 @@ export default function EventsListPage() {
                     zIndex={1}
                   />
                   <Input
-                    placeholder="Search events..."
+                    placeholder={t('events.searchPlaceholder')}
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     borderRadius="md"
@@ -199,10 +208,10 @@ export default function EventsListPage() {
                       e.target.style.boxShadow = 'none';
                     }}
                   >
-                    <option value="all">All Types</option>
+                    <option value="all">{t('events.allTypes')}</option>
                     {EVENT_TYPES.map((type) => (
                       <option key={type.value} value={type.value}>
-                        {type.icon} {type.label}
+                        {type.icon} {getEventTypeLabel(type.value)}
                       </option>
                     ))}
                   </select>
@@ -232,10 +241,10 @@ export default function EventsListPage() {
                       e.target.style.boxShadow = 'none';
                     }}
                   >
-                    <option value="all">All Statuses</option>
+                    <option value="all">{t('events.allStatuses')}</option>
                     {EVENT_STATUSES.map((status) => (
                       <option key={status.value} value={status.value}>
-                        {status.label}
+                        {getEventStatusLabel(status.value)}
                       </option>
                     ))}
                   </select>
@@ -262,10 +271,10 @@ export default function EventsListPage() {
                     📅
                   </Text>
                   <Heading fontSize="xl" color="gray.700">
-                    No events yet
+                    {t('events.emptyTitle')}
                   </Heading>
                   <Text color="gray.600">
-                    Create your first event to get started
+                    {t('events.emptyText')}
                   </Text>
                   <Link href={ROUTES.PROTECTED.EVENT_CREATE}>
                     <Button
@@ -279,7 +288,7 @@ export default function EventsListPage() {
                       >
                         <FiPlus size={20} />
                       </Box>
-                      Create Event
+                      {t('events.create')}
                     </Button>
                   </Link>
                 </Stack>
@@ -297,7 +306,7 @@ export default function EventsListPage() {
         <Box as="footer" py={6} bg={THEME.COLORS.background}>
           <Container maxW="container.xl">
             <Text textAlign="center" color="gray.400" fontSize="sm">
-              © 2025 Ekadi Platform. All rights reserved.
+              {t('common.copyright')}
             </Text>
           </Container>
         </Box>
@@ -34,56 +34,59 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import Link from 'next/link';
-import { useState, useRef, ChangeEvent } from 'react';
+import { useMemo, useState, useRef, ChangeEvent } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/src/contexts/AuthContext';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import AuthNav from '@/src/components/layout/AuthNav';
 import Footer from '@/src/components/layout/Footer';
 import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
 import { ROUTES, THEME, COUNTRY_CODES, USER_TYPES } from '@/src/lib/constants';
+import type { LocaleContextType } from '@/src/types';
 
 // ============================================================================
 // VALIDATION SCHEMA
 // ============================================================================
 
-const editProfileSchema = z
-  .object({
-    first_name: z
-      .string()
-      .min(1, 'First name is required')
-      .min(2, 'First name must be at least 2 characters'),
-    last_name: z
-      .string()
-      .min(1, 'Last name is required')
-      .min(2, 'Last name must be at least 2 characters'),
-    profile: z.object({
-      country_code: z.string().min(1, 'Country code is required'),
-      phone_number: z
+const createEditProfileSchema = (t: LocaleContextType['t']) =>
+  z
+    .object({
+      first_name: z
         .string()
-        .min(1, 'Phone number is required')
-        .regex(/^[0-9 ]+$/, 'Phone number must contain digits (and spaces) only')
-        .min(4, 'Phone number must be at least 4 digits')
-        .max(20, 'Phone number must be at most 20 characters'),
-      user_type: z.enum(['individual', 'business']),
-      company_name: z.string().optional(),
-      bio: z.string().max(500, 'Bio must be 500 characters or less').optional(),
-    }),
-  })
-  .refine(
-    (data) => {
-      if (data.profile.user_type === 'business') {
-        return data.profile.company_name && data.profile.company_name.length > 0;
+        .min(1, t('validation.firstNameRequired'))
+        .min(2, t('validation.firstNameMin')),
+      last_name: z
+        .string()
+        .min(1, t('validation.lastNameRequired'))
+        .min(2, t('validation.lastNameMin')),
+      profile: z.object({
+        country_code: z.string().min(1, t('validation.countryCodeRequired')),
+        phone_number: z
+          .string()
+          .min(1, t('validation.phoneRequired'))
+          .regex(/^[0-9 ]+$/, t('validation.phoneDigits'))
+          .min(4, t('validation.phoneMin'))
+          .max(20, t('validation.phoneMax')),
+        user_type: z.enum(['individual', 'business']),
+        company_name: z.string().optional(),
+        bio: z.string().max(500, t('editProfile.bioMax')).optional(),
+      }),
+    })
+    .refine(
+      (data) => {
+        if (data.profile.user_type === 'business') {
+          return data.profile.company_name && data.profile.company_name.length > 0;
+        }
+        return true;
+      },
+      {
+        message: t('validation.companyNameRequired'),
+        path: ['profile', 'company_name'],
       }
-      return true;
-    },
-    {
-      message: 'Company name is required for business accounts',
-      path: ['profile', 'company_name'],
-    }
-  );
+    );
 
-type EditProfileFormData = z.infer<typeof editProfileSchema>;
+type EditProfileFormData = z.infer<ReturnType<typeof createEditProfileSchema>>;
 
 // ============================================================================
 // MAIN COMPONENT
@@ -100,6 +103,8 @@ export default function EditProfilePage() {
   const { user, updateUser } = useAuth();
   const router = useRouter();
   const toast = useCustomToast();
+  const { t } = useTranslation();
+  const editProfileSchema = useMemo(() => createEditProfileSchema(t), [t]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -139,14 +144,14 @@ export default function EditProfilePage() {
 
     // Validate file type
     if (!file.type.startsWith('image/')) {
-      toast.error('Invalid file type', 'Please select an image file (JPG, PNG, etc.)');
+      toast.error(t('editProfile.invalidFileType'), t('editProfile.invalidFileTypeMessage'));
       return;
     }
 
     // Validate file size (5MB max)
     const maxSize = 5 * 1024 * 1024; // 5MB in bytes
     if (file.size > maxSize) {
-      toast.error('File too large', 'Please select an image smaller than 5MB');
+      toast.error(t('editProfile.fileTooLarge'), t('editProfile.fileTooLargeMessage'));
       return;
     }
 
@@ -170,8 +175,8 @@ export default function EditProfilePage() {
     const now = Date.now();
     if (lastSubmitTime && now - lastSubmitTime < 5000) {
       toast.error(
-        'Please wait a moment',
-        'You are submitting too quickly. Please wait a few seconds before trying again.'
+        t('common.tooFast'),
+        t('common.tooFastMessage')
       );
       return;
     }
@@ -212,11 +217,14 @@ export default function EditProfilePage() {
         });
       }
 
-      toast.success('Profile updated', 'Your profile has been successfully updated.');
+      toast.success(t('editProfile.updated'), t('editProfile.updatedMessage'));
 
       router.push(ROUTES.PROTECTED.PROFILE);
     } catch (error: any) {
-      toast.error('Update failed', error?.message || 'Failed to update profile. Please try again.');
+      toast.error(
+        t('editProfile.updateError'),
+        error?.message || t('editProfile.updateErrorMessage')
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -233,7 +241,7 @@ export default function EditProfilePage() {
             <Container maxW="container.xl">
               <Flex justify="space-between" align="center" flexWrap="wrap" gap={4}>
                 <Heading fontSize="2xl" color={THEME.COLORS.primary} fontWeight="bold">
-                  Edit Profile
+                  {t('profile.edit')}
                 </Heading>
                 <Link href={ROUTES.PROTECTED.PROFILE}>
                   <Button
@@ -248,7 +256,7 @@ export default function EditProfilePage() {
                     >
                       <FiX size={18} />
                     </Box>
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                 </Link>
               </Flex>
@@ -302,11 +310,11 @@ export default function EditProfilePage() {
                       >
                         <FiUpload size={16} />
                       </Box>
-                      Change Photo
+                      {t('editProfile.changePhoto')}
                     </Button>
 
                     <Text fontSize="xs" color="gray.500">
-                      Max file size: 5MB. JPG, PNG only.
+                      {t('editProfile.photoHint')}
                     </Text>
                   </Stack>
 
@@ -315,7 +323,7 @@ export default function EditProfilePage() {
                     {/* FIRST NAME */}
                     <Field.Root invalid={!!errors.first_name} flex={1}>
                       <Field.Label fontWeight="semibold" color="gray.700" mb={2}>
-                        First Name
+                        {t('editProfile.firstName')}
                       </Field.Label>
                       <Input
                         _focus={{
@@ -335,7 +343,7 @@ export default function EditProfilePage() {
                     {/* LAST NAME */}
                     <Field.Root invalid={!!errors.last_name} flex={1}>
                       <Field.Label fontWeight="semibold" color="gray.700" mb={2}>
-                        Last Name
+                        {t('editProfile.lastName')}
                       </Field.Label>
                       <Input
                         _focus={{
@@ -358,7 +366,7 @@ export default function EditProfilePage() {
                     {/* COUNTRY CODE */}
                     <Field.Root invalid={!!errors.profile?.country_code} w="40%">
                       <Field.Label fontWeight="semibold" color="gray.700" mb={2}>
-                        Code
+                        {t('editProfile.code')}
                       </Field.Label>
                       <Box
                         as="select"
@@ -393,7 +401,7 @@ export default function EditProfilePage() {
                     {/* PHONE NUMBER */}
                     <Field.Root invalid={!!errors.profile?.phone_number} flex={1}>
                       <Field.Label fontWeight="semibold" color="gray.700" mb={2}>
-                        Phone Number
+                        {t('profile.phone')}
                       </Field.Label>
                       <Input
                         type="tel"
@@ -416,7 +424,7 @@ export default function EditProfilePage() {
                   {/* USER TYPE */}
                   <Field.Root invalid={!!errors.profile?.user_type}>
                     <Field.Label fontWeight="semibold" color="gray.700" mb={2}>
-                      Account Type
+                      {t('profile.accountType')}
                     </Field.Label>
                     <Stack direction={{ base: 'column', sm: 'row' }} gap={3} mt={2}>
                       {USER_TYPES.map((type) => (
@@ -459,7 +467,7 @@ export default function EditProfilePage() {
                               style={{ display: 'none' }}
                             />
                             <Text fontWeight="semibold" color="gray.800">
-                              {type.label}
+                              {t(`common.userTypes.${type.value}`)}
                             </Text>
                           </Flex>
                         </Box>
@@ -474,7 +482,7 @@ export default function EditProfilePage() {
                   {watchUserType === 'business' && (
                     <Field.Root invalid={!!errors.profile?.company_name}>
                       <Field.Label fontWeight="semibold" color="gray.700" mb={2}>
-                        Company Name
+                        {t('editProfile.companyName')}
                       </Field.Label>
                       <Input
                         _focus={{
@@ -495,10 +503,10 @@ export default function EditProfilePage() {
                   {/* BIO */}
                   <Field.Root invalid={!!errors.profile?.bio}>
                     <Field.Label fontWeight="semibold" color="gray.700" mb={2}>
-                      Bio
+                      {t('editProfile.bio')}
                     </Field.Label>
                     <Textarea
-                      placeholder="Tell us about yourself..."
+                      placeholder={t('editProfile.bioPlaceholder')}
                       rows={4}
                       _focus={{
                         borderColor: THEME.COLORS.primary,
@@ -514,7 +522,7 @@ export default function EditProfilePage() {
                         {errors.profile?.bio?.message}
                       </Field.ErrorText>
                       <Text fontSize="xs" color="gray.500">
-                        {watchBio?.length || 0}/500 characters
+                        {t('editProfile.bioCount', { count: watchBio?.length || 0 })}
                       </Text>
                     </Flex>
                   </Field.Root>
@@ -528,7 +536,7 @@ export default function EditProfilePage() {
                     borderColor="blue.400"
                   >
                     <Text fontSize="sm" color="gray.700">
-                      Your email cannot be changed. Contact support if you need to update it.
+                      {t('editProfile.emailNote')}
                     </Text>
                   </Box>
 
@@ -548,7 +556,7 @@ export default function EditProfilePage() {
                       >
                         <FiSave size={18} />
                       </Box>
-                      Save Changes
+                      {t('common.saveChanges')}
                     </Button>
                     <Link href={ROUTES.PROTECTED.PROFILE} style={{ flex: 1 }}>
                       <Button
@@ -557,7 +565,7 @@ export default function EditProfilePage() {
                         {...THEME.BUTTON_STYLES.secondaryButton}
                         variant="outline"
                       >
-                        Cancel
+                        {t('common.cancel')}
                       </Button>
                     </Link>
                   </Stack>
@@ -40,8 +40,9 @@ import Link from 'next/link';
 import dynamic from 'next/dynamic';
 import { useAuth } from '@/src/contexts/AuthContext';
 import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { getDateLocale, translate } from '@/src/lib/i18n';
 import { ROUTES, THEME } from '@/src/lib/constants';
-import { format } from 'date-fns';
 
 const AuthNav = dynamic(() => import('@/src/components/layout/AuthNav'), {
   ssr: false,
@@ -62,14 +63,18 @@ const Footer = dynamic(() => import('@/src/components/layout/Footer'), {
  * @returns Formatted date string or "N/A" if invalid
  */
 function formatDate(dateString: string): string {
-  if (!dateString) return 'N/A';
+  if (!dateString) return translate('common.notAvailable');
   
   try {
     const date = new Date(dateString);
-    if (isNaN(date.getTime())) return 'N/A';
-    return format(date, 'MMM dd, yyyy');
+    if (isNaN(date.getTime())) return translate('common.notAvailable');
+    return date.toLocaleDateString(getDateLocale(), {
+      month: 'short',
+      day: '2-digit',
+      year: 'numeric',
+    });
   } catch (error) {
-    return 'N/A';
+    return translate('common.notAvailable');
   }
 }
 
@@ -86,6 +91,7 @@ function formatDate(dateString: string): string {
  */
 export default function ProfilePage() {
   const { user, loading } = useAuth();
+  const { t } = useTranslation();
 
   return (
     <ProtectedRoute>
@@ -98,7 +104,7 @@ export default function ProfilePage() {
             <Container maxW="container.xl">
               <Flex justify="space-between" align="center" flexWrap="wrap" gap={4}>
                 <Heading fontSize="2xl" color={THEME.COLORS.primary} fontWeight="bold">
-                  My Profile
+                  {t('profile.title')}
                 </Heading>
                 <Link href={ROUTES.PROTECTED.EDIT_PROFILE}>
                   <Button {...THEME.BUTTON_STYLES.primaryButton}>
@@ -110,7 +116,7 @@ export default function ProfilePage() {
                     >
                       <FiEdit size={18} />
                     </Box>
-                    Edit Profile
+                    {t('profile.edit')}
                   </Button>
                 </Link>
               </Flex>
@@ -167,7 +173,7 @@ export default function ProfilePage() {
                                 py={1}
                                 borderRadius="full"
                               >
-                                {user.profile.user_type === 'business' ? 'Business' : 'Individual'}
+                                {t(`common.userTypes.${user.profile.user_type}`)}
                               </Badge>
                             )}
                           </Flex>
@@ -188,7 +194,7 @@ export default function ProfilePage() {
                               colorScheme={user?.email_verified ? 'green' : 'yellow'}
                               variant="subtle"
                             >
-                              {user?.email_verified ? '✓ Verified' : '⚠ Not Verified'}
+                              {user?.email_verified ? t('profile.verified') : t('profile.notVerified')}
                             </Badge>
                           </Flex>
                         </Stack>
@@ -200,7 +206,7 @@ export default function ProfilePage() {
                   {user?.profile?.bio && (
                     <Box>
                       <Text fontWeight="semibold" color="gray.700" mb={2}>
-                        About
+                        {t('profile.about')}
                       </Text>
                       <Text color="gray.600" lineHeight="tall">
                         {user.profile.bio}
@@ -219,7 +225,7 @@ export default function ProfilePage() {
               >
                 <Stack gap={6}>
                   <Heading fontSize="xl" color={THEME.COLORS.primary} fontWeight="bold">
-                    Contact Information
+                    {t('profile.contactInfo')}
                   </Heading>
 
                   <Separator />
@@ -232,11 +238,11 @@ export default function ProfilePage() {
                           <FiMail size={20} />
                         </Box>
                         <Text fontSize="sm" fontWeight="semibold" textTransform="uppercase">
-                          Email Address
+                          {t('profile.email')}
                         </Text>
                       </Flex>
                       <Text fontSize="lg" color="gray.800">
-                        {user?.email || 'N/A'}
+                        {user?.email || t('common.notAvailable')}
                       </Text>
                     </Stack>
 
@@ -247,13 +253,13 @@ export default function ProfilePage() {
                           <FiPhone size={20} />
                         </Box>
                         <Text fontSize="sm" fontWeight="semibold" textTransform="uppercase">
-                          Phone Number
+                          {t('profile.phone')}
                         </Text>
                       </Flex>
                       <Text fontSize="lg" color="gray.800">
                         {user?.profile?.country_code && user?.profile?.phone_number
                           ? `${user.profile.country_code} ${user.profile.phone_number}`
-                          : 'N/A'}
+                          : t('common.notAvailable')}
                       </Text>
                     </Stack>
                   </SimpleGrid>
@@ -269,7 +275,7 @@ export default function ProfilePage() {
               >
                 <Stack gap={6}>
                   <Heading fontSize="xl" color={THEME.COLORS.primary} fontWeight="bold">
-                    Account Information
+                    {t('profile.accountInfo')}
                   </Heading>
 
                   <Separator />
@@ -282,11 +288,13 @@ export default function ProfilePage() {
                           <FiUser size={20} />
                         </Box>
                         <Text fontSize="sm" fontWeight="semibold" textTransform="uppercase">
-                          Account Type
+                          {t('profile.accountType')}
                         </Text>
                       </Flex>
-                      <Text fontSize="lg" color="gray.800" textTransform="capitalize">
-                        {user?.profile?.user_type || 'N/A'}
+                      <Text fontSize="lg" color="gray.800">
+                        {user?.profile?.user_type
+                          ? t(`common.userTypes.${user.profile.user_type}`)
+                          : t('common.notAvailable')}
                       </Text>
                     </Stack>
 
@@ -297,7 +305,7 @@ export default function ProfilePage() {
                           <FiCalendar size={20} />
                         </Box>
                         <Text fontSize="sm" fontWeight="semibold" textTransform="uppercase">
-                          Member Since
+                          {t('profile.memberSince')}
                         </Text>
                       </Flex>
                       <Text fontSize="lg" color="gray.800">
@@ -309,7 +317,7 @@ export default function ProfilePage() {
                   {/* ACCOUNT STATUS */}
                   <Stack gap={3} mt={2}>
                     <Text fontSize="sm" fontWeight="semibold" textTransform="uppercase" color="gray.600">
-                      Account Status
+                      {t('profile.accountStatus')}
                     </Text>
                     <Flex gap={2} flexWrap="wrap">
                       <Badge
@@ -318,7 +326,7 @@ export default function ProfilePage() {
                         px={3}
                         py={1}
                       >
-                        {user?.is_active ? 'Active' : 'Inactive'}
+                        {user?.is_active ? t('profile.active') : t('profile.inactive')}
                       </Badge>
                       <Badge
                         colorScheme={user?.email_verified ? 'green' : 'yellow'}
@@ -326,7 +334,9 @@ export default function ProfilePage() {
                         px={3}
                         py={1}
                       >
-                        {user?.email_verified ? 'Email Verified' : 'Email Not Verified'}
+                        {user?.email_verified
+                          ? t('profile.emailVerified')
+                          : t('profile.emailNotVerified')}
                       </Badge>
                     </Flex>
                   </Stack>
@@ -18,6 +18,8 @@ import {
   Separator,
   Field,
   Flex,
+  Center,
+  Spinner,
 } from '@chakra-ui/react';
 import { 
   FiSettings, 
@@ -27,11 +29,21 @@ import {
 } from 'react-icons/fi';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '@/src/contexts/AuthContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import useCustomToast from '@/src/hooks/useToast';
 import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
-import { ROUTES, THEME } from '@/src/lib/constants';
+import { getNotificationPreferences, updateNotificationPreferences } from '@/src/lib/auth';
+import { NOTIFICATION_CATEGORIES, ROUTES, THEME } from '@/src/lib/constants';
+import { translate } from '@/src/lib/i18n';
+import type {
+  ApiError,
+  Locale,
+  NotificationCategory,
+  NotificationPreferenceChannel,
+  NotificationPreferences,
+} from '@/src/types';
 
 const AuthNav = dynamic(() => import('@/src/components/layout/AuthNav'), {
   ssr: false,
@@ -41,6 +53,61 @@ const Footer = dynamic(() => import('@/src/components/layout/Footer'), {
   ssr: false,
 });
 
+const NOTIFICATION_CHANNELS: NotificationPreferenceChannel[] = ['email', 'sms'];
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface ToggleSwitchProps {
+  checked: boolean;
+  /** Accessible name, when no visible label describes the switch */
+  label?: string;
+  /** ID of the element labelling the switch */
+  labelledBy?: string;
+  disabled?: boolean;
+  onToggle: () => void;
+}
+
+/**
+ * On/off switch used by the settings cards
+ */
+function ToggleSwitch({ checked, label, labelledBy, disabled, onToggle }: ToggleSwitchProps) {
+  return (
+    <Button
+      as="div"
+      role="switch"
+      aria-checked={checked}
+      aria-disabled={disabled}
+      aria-label={label}
+      aria-labelledby={labelledBy}
+      w="44px"
+      h="24px"
+      minW="44px"
+      p={0}
+      borderRadius="full"
+      bg={checked ? THEME.COLORS.primary : 'gray.300'}
+      position="relative"
+      transition="all 0.2s"
+      _hover={{ opacity: 0.8 }}
+      onClick={disabled ? undefined : onToggle}
+      cursor={disabled ? 'wait' : 'pointer'}
+    >
+      <Box
+        position="absolute"
+        top="2px"
+        left={checked ? '22px' : '2px'}
+        w="20px"
+        h="20px"
+        borderRadius="full"
+        bg="white"
+        boxShadow="sm"
+        transition="all 0.2s"
+      />
+    </Button>
+  );
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -54,24 +121,106 @@ const Footer = dynamic(() => import('@/src/components/layout/Footer'), {
  */
 export default function SettingsPage() {
   const { user, logout } = useAuth();
+  const { locale, setLocale, t } = useTranslation();
   const toast = useCustomToast();
 
-  const [language, setLanguage] = useState<'en' | 'sw'>('en');
-  const [emailNotifications, setEmailNotifications] = useState(true);
-  const [smsNotifications, setSmsNotifications] = useState(false);
+  const [isSavingLanguage, setIsSavingLanguage] = useState(false);
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [savedPreferences, setSavedPreferences] = useState<NotificationPreferences | null>(null);
+  const [loadingPreferences, setLoadingPreferences] = useState(true);
+  const [preferencesError, setPreferencesError] = useState<string | null>(null);
+  const [isSavingPreferences, setIsSavingPreferences] = useState(false);
+
+  const hasUnsavedPreferences =
+    preferences !== null && JSON.stringify(preferences) !== JSON.stringify(savedPreferences);
 
   /**
-   * Handle language toggle
+   * Load notification preferences from the profile
+   */
+  const loadPreferences = async () => {
+    setLoadingPreferences(true);
+    setPreferencesError(null);
+    try {
+      const data = await getNotificationPreferences();
+      setPreferences(data);
+      setSavedPreferences(data);
+    } catch (error) {
+      setPreferencesError((error as ApiError)?.message || t('common.tryAgain'));
+    } finally {
+      setLoadingPreferences(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPreferences();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  /**
+   * Flip one category on one channel; nothing is saved until the user saves
    */
-  const handleLanguageToggle = () => {
-    const newLanguage = language === 'en' ? 'sw' : 'en';
-    setLanguage(newLanguage);
-    toast.success(
-      'Language preference updated',
-      `Interface language changed to ${newLanguage === 'en' ? 'English' : 'Kiswahili'}`
+  const handlePreferenceToggle = (
+    category: NotificationCategory,
+    channel: NotificationPreferenceChannel
+  ) => {
+    setPreferences((prev) =>
+      prev
+        ? { ...prev, [category]: { ...prev[category], [channel]: !prev[category][channel] } }
+        : prev
     );
   };
 
+  /**
+   * Save notification preferences to the profile
+   */
+  const handleSavePreferences = async () => {
+    if (!preferences) return;
+
+    setIsSavingPreferences(true);
+    try {
+      const saved = await updateNotificationPreferences(preferences);
+      setPreferences(saved);
+      setSavedPreferences(saved);
+      toast.success(t('settings.preferencesSaved'), t('settings.preferencesSavedMessage'));
+    } catch (error) {
+      toast.error(
+        t('settings.preferencesSaveError'),
+        (error as ApiError)?.message || t('common.tryAgain')
+      );
+    } finally {
+      setIsSavingPreferences(false);
+    }
+  };
+
+  /**
+   * Handle language toggle
+   *
+   * The interface switches straight away; the toasts are shown in the new
+   * language since t is still bound to the old one here.
+   */
+  const handleLanguageToggle = async () => {
+    const newLanguage: Locale = locale === 'en' ? 'sw' : 'en';
+    setIsSavingLanguage(true);
+    try {
+      await setLocale(newLanguage);
+      toast.success(
+        translate('settings.languageUpdated', undefined, newLanguage),
+        translate(
+          'settings.languageUpdatedMessage',
+          { language: translate(`languages.${newLanguage}`, undefined, newLanguage) },
+          newLanguage
+        )
+      );
+    } catch (error) {
+      toast.error(
+        translate('settings.languageSaveFailed', undefined, newLanguage),
+        (error as ApiError)?.message || translate('common.tryAgain', undefined, newLanguage)
+      );
+    } finally {
+      setIsSavingLanguage(false);
+    }
+  };
+
   return (
     <ProtectedRoute>
       <>
@@ -82,7 +231,7 @@ export default function SettingsPage() {
           <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
             <Container maxW="container.xl">
               <Heading fontSize="2xl" color={THEME.COLORS.primary} fontWeight="bold">
-                Account Settings
+                {t('settings.title')}
               </Heading>
             </Container>
           </Box>
@@ -103,7 +252,7 @@ export default function SettingsPage() {
                       <FiUser size={24} color={THEME.COLORS.primary} />
                     </Box>
                     <Heading fontSize="lg" color={THEME.COLORS.primary} fontWeight="bold">
-                      Account Information
+                      {t('settings.accountInformation')}
                     </Heading>
                   </Flex>
 
@@ -112,19 +261,21 @@ export default function SettingsPage() {
                   <Stack gap={4}>
                     <Box>
                       <Text fontSize="sm" color="gray.600" fontWeight="semibold" mb={1}>
-                        Email
+                        {t('settings.email')}
                       </Text>
                       <Text fontSize="md" color="gray.800">
-                        {user?.email || 'N/A'}
+                        {user?.email || t('common.notAvailable')}
                       </Text>
                     </Box>
 
                     <Box>
                       <Text fontSize="sm" color="gray.600" fontWeight="semibold" mb={1}>
-                        Account Type
+                        {t('settings.accountType')}
                       </Text>
-                      <Text fontSize="md" color="gray.800" textTransform="capitalize">
-                        {user?.profile?.user_type || 'N/A'}
+                      <Text fontSize="md" color="gray.800">
+                        {user?.profile?.user_type
+                          ? t(`common.userTypes.${user.profile.user_type}`)
+                          : t('common.notAvailable')}
                       </Text>
                     </Box>
 
@@ -134,7 +285,7 @@ export default function SettingsPage() {
                         {...THEME.BUTTON_STYLES.secondaryButton}
                         variant="outline"
                       >
-                        Edit Profile
+                        {t('settings.editProfile')}
                       </Button>
                     </Link>
                   </Stack>
@@ -154,93 +305,88 @@ export default function SettingsPage() {
                       <FiBell size={24} color={THEME.COLORS.primary} />
                     </Box>
                     <Heading fontSize="lg" color={THEME.COLORS.primary} fontWeight="bold">
-                      Notifications
+                      {t('settings.notifications')}
                     </Heading>
                   </Flex>
 
                   <Separator />
 
-                  <Stack gap={4}>
-                    {/* EMAIL NOTIFICATIONS */}
-                    <Field.Root display="flex" alignItems="center" justifyContent="space-between">
-                      <Stack gap={1} flex="1">
-                        <Field.Label htmlFor="email-notifications" mb={0} fontWeight="semibold">
-                          Email Notifications
-                        </Field.Label>
-                        <Text fontSize="sm" color="gray.600">
-                          Receive event updates via email
-                        </Text>
-                      </Stack>
-                      <Button
-                        as="div"
-                        role="switch"
-                        aria-checked={emailNotifications}
-                        aria-labelledby="email-notifications"
-                        w="44px"
-                        h="24px"
-                        p={0}
-                        borderRadius="full"
-                        bg={emailNotifications ? THEME.COLORS.primary : 'gray.300'}
-                        position="relative"
-                        transition="all 0.2s"
-                        _hover={{ opacity: 0.8 }}
-                        onClick={() => setEmailNotifications(!emailNotifications)}
-                        cursor="pointer"
-                      >
-                        <Box
-                          position="absolute"
-                          top="2px"
-                          left={emailNotifications ? '22px' : '2px'}
-                          w="20px"
-                          h="20px"
-                          borderRadius="full"
-                          bg="white"
-                          boxShadow="sm"
-                          transition="all 0.2s"
-                        />
-                      </Button>
-                    </Field.Root>
-
-                    {/* SMS NOTIFICATIONS */}
-                    <Field.Root display="flex" alignItems="center" justifyContent="space-between">
-                      <Stack gap={1} flex="1">
-                        <Field.Label htmlFor="sms-notifications" mb={0} fontWeight="semibold">
-                          SMS Notifications
-                        </Field.Label>
-                        <Text fontSize="sm" color="gray.600">
-                          Receive RSVP alerts via SMS
-                        </Text>
-                      </Stack>
+                  {loadingPreferences ? (
+                    <Center py={6}>
+                      <Spinner size="md" color={THEME.COLORS.primary} />
+                    </Center>
+                  ) : preferencesError || !preferences ? (
+                    <Stack gap={3} align="center" py={4} textAlign="center">
+                      <Text fontWeight="semibold" color="gray.800">
+                        {t('settings.preferencesLoadError')}
+                      </Text>
+                      <Text fontSize="sm" color="gray.600">
+                        {preferencesError}
+                      </Text>
                       <Button
-                        as="div"
-                        role="switch"
-                        aria-checked={smsNotifications}
-                        aria-labelledby="sms-notifications"
-                        w="44px"
-                        h="24px"
-                        p={0}
-                        borderRadius="full"
-                        bg={smsNotifications ? THEME.COLORS.primary : 'gray.300'}
-                        position="relative"
-                        transition="all 0.2s"
-                        _hover={{ opacity: 0.8 }}
-                        onClick={() => setSmsNotifications(!smsNotifications)}
-                        cursor="pointer"
+                        size="sm"
+                        {...THEME.BUTTON_STYLES.secondaryButton}
+                        variant="outline"
+                        onClick={loadPreferences}
                       >
-                        <Box
-                          position="absolute"
-                          top="2px"
-                          left={smsNotifications ? '22px' : '2px'}
-                          w="20px"
-                          h="20px"
-                          borderRadius="full"
-                          bg="white"
-                          boxShadow="sm"
-                          transition="all 0.2s"
-                        />
+                        {t('common.retry')}
                       </Button>
-                    </Field.Root>
-                  </Stack>
+                    </Stack>
+                  ) : (
+                    <Stack gap={4}>
+                      <Flex justify="flex-end" gap={4}>
+                        {NOTIFICATION_CHANNELS.map((channel) => (
+                          <Text
+                            key={channel}
+                            w="44px"
+                            textAlign="center"
+                            fontSize="xs"
+                            fontWeight="semibold"
+                            color="gray.600"
+                          >
+                            {t(`settings.notificationChannels.${channel}`)}
+                          </Text>
+                        ))}
+                      </Flex>
+
+                      {NOTIFICATION_CATEGORIES.map((category) => (
+                        <Flex key={category.value} align="center" justify="space-between" gap={4}>
+                          <Stack gap={1} flex="1">
+                            <Text id={`notification-${category.value}`} fontWeight="semibold">
+                              {t(`notificationCategories.${category.value}.label`)}
+                            </Text>
+                            <Text fontSize="sm" color="gray.600">
+                              {t(`notificationCategories.${category.value}.description`)}
+                            </Text>
+                          </Stack>
+                          <Flex gap={4}>
+                            {NOTIFICATION_CHANNELS.map((channel) => (
+                              <ToggleSwitch
+                                key={channel}
+                                checked={preferences[category.value][channel]}
+                                label={`${t(`notificationCategories.${category.value}.label`)}: ${t(
+                                  `settings.notificationChannels.${channel}`
+                                )}`}
+                                disabled={isSavingPreferences}
+                                onToggle={() => handlePreferenceToggle(category.value, channel)}
+                              />
+                            ))}
+                          </Flex>
+                        </Flex>
+                      ))}
+
+                      <Flex justify="flex-end">
+                        <Button
+                          {...THEME.BUTTON_STYLES.primaryButton}
+                          onClick={handleSavePreferences}
+                          loading={isSavingPreferences}
+                          disabled={!hasUnsavedPreferences}
+                        >
+                          {t('settings.savePreferences')}
+                        </Button>
+                      </Flex>
+                    </Stack>
+                  )}
                 </Stack>
               </Box>
 
@@ -257,7 +403,7 @@ export default function SettingsPage() {
                       <FiGlobe size={24} color={THEME.COLORS.primary} />
                     </Box>
                     <Heading fontSize="lg" color={THEME.COLORS.primary} fontWeight="bold">
-                      Language
+                      {t('settings.language')}
                     </Heading>
                   </Flex>
 
@@ -265,41 +411,19 @@ export default function SettingsPage() {
 
                   <Field.Root display="flex" alignItems="center" justifyContent="space-between">
                     <Stack gap={1} flex="1">
-                      <Field.Label htmlFor="language-toggle" mb={0} fontWeight="semibold">
-                        Interface Language
+                      <Field.Label id="language-toggle" mb={0} fontWeight="semibold">
+                        {t('settings.interfaceLanguage')}
                       </Field.Label>
                       <Text fontSize="sm" color="gray.600">
-                        {language === 'en' ? 'English' : 'Kiswahili'}
+                        {t(`languages.${locale}`)}
                       </Text>
                     </Stack>
-                    <Button
-                      as="div"
-                      role="switch"
-                      aria-checked={language === 'sw'}
-                      aria-labelledby="language-toggle"
-                      w="44px"
-                      h="24px"
-                      p={0}
-                      borderRadius="full"
-                      bg={language === 'sw' ? THEME.COLORS.primary : 'gray.300'}
-                      position="relative"
-                      transition="all 0.2s"
-                      _hover={{ opacity: 0.8 }}
-                      onClick={handleLanguageToggle}
-                      cursor="pointer"
-                    >
-                      <Box
-                        position="absolute"
-                        top="2px"
-                        left={language === 'sw' ? '22px' : '2px'}
-                        w="20px"
-                        h="20px"
-                        borderRadius="full"
-                        bg="white"
-                        boxShadow="sm"
-                        transition="all 0.2s"
-                      />
-                    </Button>
+                    <ToggleSwitch
+                      checked={locale === 'sw'}
+                      labelledBy="language-toggle"
+                      disabled={isSavingLanguage}
+                      onToggle={handleLanguageToggle}
+                    />
                   </Field.Root>
                 </Stack>
               </Box>
@@ -317,7 +441,7 @@ export default function SettingsPage() {
                       <FiSettings size={24} color={THEME.COLORS.primary} />
                     </Box>
                     <Heading fontSize="lg" color={THEME.COLORS.primary} fontWeight="bold">
-                      Security
+                      {t('settings.security')}
                     </Heading>
                   </Flex>
 
@@ -326,10 +450,10 @@ export default function SettingsPage() {
                   <Stack gap={4}>
                     <Box>
                       <Text fontWeight="semibold" mb={2}>
-                        Password
+                        {t('settings.password')}
                       </Text>
                       <Text fontSize="sm" color="gray.600" mb={3}>
-                        Last changed: Never
+                        {t('settings.passwordLastChangedNever')}
                       </Text>
                       <Link href={ROUTES.PUBLIC.FORGOT_PASSWORD}>
                         <Button
@@ -337,7 +461,7 @@ export default function SettingsPage() {
                           {...THEME.BUTTON_STYLES.secondaryButton}
                           variant="outline"
                         >
-                          Change Password
+                          {t('settings.changePassword')}
                         </Button>
                       </Link>
                     </Box>
@@ -0,0 +1,126 @@
+'use client';
+
+import { Box, Container, Heading, Text, Stack, Button, Icon, Spinner } from '@chakra-ui/react';
+import { FiAlertCircle, FiCheckCircle } from 'react-icons/fi';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { acceptInvitation, getRoleDisplay } from '@/src/lib/organizations';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import { ROUTES, THEME } from '@/src/lib/constants';
+import type { ApiError, Organization } from '@/src/types';
+
+/**
+ * Invitations are single-use, so each token is accepted once per page load.
+ * Kept outside the component because effects run twice in development and
+ * switching to the joined workspace remounts the page.
+ */
+const acceptRequests = new Map<string, Promise<Organization>>();
+
+/**
+ * Join Team Page Component
+ *
+ * Opened from the link in a workspace invitation email. Accepts the
+ * invitation for the logged-in user, switches to the joined workspace and
+ * links to its shared events.
+ */
+export default function JoinTeamPage() {
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const { refreshOrganizations, switchOrganization } = useOrganization();
+  const { t } = useTranslation();
+
+  const params = useParams();
+  const token = (params as { token?: string }).token ?? '';
+
+  useEffect(() => {
+    let request = acceptRequests.get(token);
+    if (!request) {
+      request = acceptInvitation(token).then(async (joined) => {
+        await refreshOrganizations();
+        switchOrganization(joined.id);
+        return joined;
+      });
+      acceptRequests.set(token, request);
+    }
+
+    request
+      .then(setOrganization)
+      .catch((error) =>
+        setErrorMessage(
+          (error as ApiError)?.message || t('team.join.invalid')
+        )
+      );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          <Container maxW="container.md" py={16}>
+            <Box bg="white" borderRadius="xl" boxShadow="md" p={8} textAlign="center">
+              {organization ? (
+                <Stack gap={4} align="center">
+                  <Icon as={FiCheckCircle} w={12} h={12} color="green.500" />
+                  <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                    {t('team.join.welcome', { name: organization.name })}
+                  </Heading>
+                  <Text color="gray.600">
+                    {t('team.join.joinedAs', {
+                      role: getRoleDisplay(organization.role).label.toLowerCase(),
+                      description: getRoleDisplay(organization.role).description,
+                    })}
+                  </Text>
+                  <Stack direction={{ base: 'column', sm: 'row' }} gap={3}>
+                    <Link href={ROUTES.PROTECTED.EVENTS}>
+                      <Button {...THEME.BUTTON_STYLES.primaryButton}>
+                        {t('team.join.viewEvents')}
+                      </Button>
+                    </Link>
+                    <Link href={ROUTES.PROTECTED.TEAM}>
+                      <Button {...THEME.BUTTON_STYLES.secondaryButton} variant="outline">
+                        {t('team.join.viewTeam')}
+                      </Button>
+                    </Link>
+                  </Stack>
+                </Stack>
+              ) : errorMessage ? (
+                <Stack gap={4} align="center">
+                  <Icon as={FiAlertCircle} w={12} h={12} color="red.500" />
+                  <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                    {t('team.join.failed')}
+                  </Heading>
+                  <Text color="gray.600">{errorMessage}</Text>
+                  <Link href={ROUTES.PROTECTED.DASHBOARD}>
+                    <Button {...THEME.BUTTON_STYLES.secondaryButton} variant="outline">
+                      {t('team.join.goToDashboard')}
+                    </Button>
+                  </Link>
+                </Stack>
+              ) : (
+                <Stack gap={4} align="center">
+                  <Spinner size="xl" color={THEME.COLORS.primary} />
+                  <Text color="gray.600">{t('team.join.joining')}</Text>
+                </Stack>
+              )}
+            </Box>
+          </Container>
+        </Box>
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
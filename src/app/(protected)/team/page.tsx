@@ -0,0 +1,693 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  Badge,
+  Spinner,
+  Center,
+  SimpleGrid,
+  Input,
+  Field,
+} from '@chakra-ui/react';
+import { FiMail, FiTrash2, FiUserPlus, FiUsers, FiX } from 'react-icons/fi';
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  cancelInvitation,
+  canManageMembers,
+  createOrganization,
+  getOrganizationInvitations,
+  getOrganizationMembers,
+  getRoleDisplay,
+  inviteMember,
+  removeMember,
+  updateMemberRole,
+} from '@/src/lib/organizations';
+import { useAuth } from '@/src/contexts/AuthContext';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import useCustomToast from '@/src/hooks/useToast';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import { getDateLocale } from '@/src/lib/i18n';
+import { ORGANIZATION_ROLES, ROUTES, THEME } from '@/src/lib/constants';
+import type {
+  ApiError,
+  LocaleContextType,
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationRole,
+} from '@/src/types';
+
+const createInviteSchema = (t: LocaleContextType['t']) =>
+  z.object({
+    email: z.string().email(t('validation.emailInvalid')).min(1, t('validation.emailRequired')),
+    role: z.enum(['admin', 'planner', 'viewer']),
+  });
+
+type InviteFormValues = z.infer<ReturnType<typeof createInviteSchema>>;
+
+/** Roles that can be given to teammates (a workspace has one owner) */
+const INVITABLE_ROLES = ORGANIZATION_ROLES.filter((role) => role.value !== 'owner');
+
+const selectStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  borderRadius: '6px',
+  border: '2px solid #E2E8F0',
+  backgroundColor: 'white',
+  fontSize: '14px',
+  cursor: 'pointer',
+  outline: 'none',
+};
+
+/**
+ * Format a membership timestamp for display
+ */
+const formatTeamDate = (timestamp: string): string =>
+  new Date(timestamp).toLocaleDateString(getDateLocale(), {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+/**
+ * Team Page Component
+ *
+ * Members of the active team workspace. Members share the workspace's
+ * events; owners and admins invite teammates by email, change their roles
+ * and remove them. Business accounts without a workspace can create one.
+ */
+export default function TeamPage() {
+  const { user } = useAuth();
+  const {
+    organizations,
+    activeOrganization: organization,
+    loading,
+    switchOrganization,
+    refreshOrganizations,
+  } = useOrganization();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [membersLoading, setMembersLoading] = useState(false);
+  const [workspaceName, setWorkspaceName] = useState(user?.profile?.company_name ?? '');
+  const [isCreating, setIsCreating] = useState(false);
+  const [updatingMemberId, setUpdatingMemberId] = useState<number | null>(null);
+  const [memberToRemove, setMemberToRemove] = useState<OrganizationMember | null>(null);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+  const inviteSchema = useMemo(() => createInviteSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { email: '', role: 'planner' },
+  });
+
+  const canManage = !!organization && canManageMembers(organization.role);
+  const isBusiness = user?.profile?.user_type === 'business';
+
+  const loadMembers = async (current: Organization) => {
+    setMembersLoading(true);
+    try {
+      const [memberData, invitationData] = await Promise.all([
+        getOrganizationMembers(current.id),
+        canManageMembers(current.role)
+          ? getOrganizationInvitations(current.id)
+          : Promise.resolve([]),
+      ]);
+      setMembers(memberData);
+      setInvitations(invitationData);
+    } catch (error) {
+      toast.error(
+        t('team.loadError'),
+        (error as ApiError)?.message || t('team.loadErrorMessage')
+      );
+    } finally {
+      setMembersLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (organization) {
+      loadMembers(organization);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [organization?.id]);
+
+  const handleCreate = async () => {
+    if (!workspaceName.trim()) return;
+    setIsCreating(true);
+    try {
+      const created = await createOrganization(workspaceName.trim());
+      toast.success(t('team.created'), t('team.createdMessage', { name: created.name }));
+      await refreshOrganizations();
+      switchOrganization(created.id);
+    } catch (error) {
+      toast.error(
+        t('team.createError'),
+        (error as ApiError)?.message || t('team.createErrorMessage')
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const onInvite = async (data: InviteFormValues) => {
+    if (!organization) return;
+    try {
+      const invitation = await inviteMember(organization.id, data);
+      toast.success(t('team.inviteSent'), t('team.inviteSentMessage', { email: invitation.email }));
+      setInvitations((prev) => [invitation, ...prev]);
+      reset({ email: '', role: data.role });
+    } catch (error) {
+      toast.error(
+        t('team.inviteError'),
+        (error as ApiError)?.message || t('team.inviteErrorMessage')
+      );
+    }
+  };
+
+  const handleRoleChange = async (
+    member: OrganizationMember,
+    role: Exclude<OrganizationRole, 'owner'>
+  ) => {
+    if (!organization || role === member.role) return;
+    setUpdatingMemberId(member.id);
+    try {
+      const updated = await updateMemberRole(organization.id, member.id, role);
+      setMembers((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      toast.success(
+        t('team.roleUpdated'),
+        t('team.roleUpdatedMessage', {
+          name: member.first_name,
+          role: getRoleDisplay(updated.role).label.toLowerCase(),
+        })
+      );
+    } catch (error) {
+      toast.error(
+        t('team.roleError'),
+        (error as ApiError)?.message || t('team.roleErrorMessage')
+      );
+    } finally {
+      setUpdatingMemberId(null);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!organization || !memberToRemove) return;
+    setIsRemoving(true);
+    try {
+      await removeMember(organization.id, memberToRemove.id);
+      setMembers((prev) => prev.filter((item) => item.id !== memberToRemove.id));
+      toast.success(
+        t('team.removed'),
+        t('team.removedMessage', {
+          name: `${memberToRemove.first_name} ${memberToRemove.last_name}`,
+          workspace: organization.name,
+        })
+      );
+      setMemberToRemove(null);
+    } catch (error) {
+      toast.error(
+        t('team.removeError'),
+        (error as ApiError)?.message || t('team.removeErrorMessage')
+      );
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  const handleCancelInvitation = async (invitation: OrganizationInvitation) => {
+    if (!organization) return;
+    try {
+      await cancelInvitation(organization.id, invitation.id);
+      setInvitations((prev) => prev.filter((item) => item.id !== invitation.id));
+      toast.success(
+        t('team.inviteCancelled'),
+        t('team.inviteCancelledMessage', { email: invitation.email })
+      );
+    } catch (error) {
+      toast.error(
+        t('team.cancelError'),
+        (error as ApiError)?.message || t('team.cancelErrorMessage')
+      );
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {/* PAGE HEADER */}
+          <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+            <Container maxW="container.xl">
+              <Flex
+                justify="space-between"
+                align={{ base: 'start', md: 'center' }}
+                direction={{ base: 'column', md: 'row' }}
+                gap={4}
+              >
+                <Stack gap={1}>
+                  <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                    {t('team.title')}
+                  </Heading>
+                  <Text color="gray.600">
+                    {t('team.subtitle')}
+                  </Text>
+                </Stack>
+                {(organizations.length > 1 || (organizations.length > 0 && !organization)) && (
+                  <Box w={{ base: 'full', md: '280px' }}>
+                    <select
+                      value={organization?.id ?? ''}
+                      onChange={(e) => switchOrganization(Number(e.target.value))}
+                      aria-label={t('team.selectWorkspace')}
+                      style={selectStyle}
+                    >
+                      {!organization && (
+                        <option value="" disabled>
+                          {t('team.chooseWorkspace')}
+                        </option>
+                      )}
+                      {organizations.map((item) => (
+                        <option key={item.id} value={item.id}>
+                          {item.name}
+                        </option>
+                      ))}
+                    </select>
+                  </Box>
+                )}
+              </Flex>
+            </Container>
+          </Box>
+
+          <Container maxW="container.xl" py={8}>
+            {loading ? (
+              <Center py={20}>
+                <Spinner size="xl" color={THEME.COLORS.primary} />
+              </Center>
+            ) : !organization && organizations.length > 0 ? (
+              /* PERSONAL SPACE ACTIVE */
+              <Box bg="white" borderRadius="xl" boxShadow="md" p={8} maxW="xl" mx="auto">
+                <Stack gap={4} align="center" textAlign="center">
+                  <Icon as={FiUsers} w={12} h={12} color="gray.300" />
+                  <Heading fontSize="xl" color="gray.700">
+                    {t('team.personalTitle')}
+                  </Heading>
+                  <Text color="gray.600">
+                    {t('team.personalText')}
+                  </Text>
+                  <Stack direction={{ base: 'column', sm: 'row' }} gap={3} flexWrap="wrap" justify="center">
+                    {organizations.map((item) => (
+                      <Button
+                        key={item.id}
+                        {...THEME.BUTTON_STYLES.secondaryButton}
+                        variant="outline"
+                        onClick={() => switchOrganization(item.id)}
+                      >
+                        {item.name}
+                      </Button>
+                    ))}
+                  </Stack>
+                </Stack>
+              </Box>
+            ) : !organization ? (
+              /* NO WORKSPACE */
+              <Box bg="white" borderRadius="xl" boxShadow="md" p={8} maxW="xl" mx="auto">
+                <Stack gap={4} align="center" textAlign="center">
+                  <Icon as={FiUsers} w={12} h={12} color="gray.300" />
+                  <Heading fontSize="xl" color="gray.700">
+                    {isBusiness ? t('team.createTitle') : t('team.workspacesTitle')}
+                  </Heading>
+                  {isBusiness ? (
+                    <>
+                      <Text color="gray.600">
+                        {t('team.createText')}
+                      </Text>
+                      <Field.Root>
+                        <Field.Label fontWeight="semibold" color="gray.700">
+                          {t('team.workspaceName')}
+                        </Field.Label>
+                        <Input
+                          value={workspaceName}
+                          onChange={(e) => setWorkspaceName(e.target.value)}
+                          placeholder={t('team.workspaceNamePlaceholder')}
+                          _focus={{
+                            borderColor: THEME.COLORS.primary,
+                            boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+                            outline: 'none',
+                          }}
+                        />
+                      </Field.Root>
+                      <Button
+                        {...THEME.BUTTON_STYLES.primaryButton}
+                        onClick={handleCreate}
+                        loading={isCreating}
+                        disabled={!workspaceName.trim()}
+                      >
+                        {t('team.createWorkspace')}
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Text color="gray.600">
+                        {t('team.workspacesText')}
+                      </Text>
+                      <Link href={ROUTES.PROTECTED.EDIT_PROFILE}>
+                        <Button {...THEME.BUTTON_STYLES.secondaryButton} variant="outline">
+                          {t('team.editProfile')}
+                        </Button>
+                      </Link>
+                    </>
+                  )}
+                </Stack>
+              </Box>
+            ) : (
+              <Stack gap={8}>
+                <SimpleGrid columns={{ base: 1, lg: 3 }} gap={6}>
+                  {/* MEMBERS */}
+                  <Box
+                    bg="white"
+                    borderRadius="xl"
+                    boxShadow="md"
+                    overflowX="auto"
+                    gridColumn={{ lg: 'span 2' }}
+                  >
+                    <Flex justify="space-between" align="center" p={6} pb={2}>
+                      <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                        {organization.name}
+                      </Heading>
+                      <Badge colorScheme={getRoleDisplay(organization.role).color}>
+                        {t('team.youAre', { role: getRoleDisplay(organization.role).label })}
+                      </Badge>
+                    </Flex>
+                    {membersLoading ? (
+                      <Center py={12}>
+                        <Spinner size="lg" color={THEME.COLORS.primary} />
+                      </Center>
+                    ) : (
+                      <Box as="table" width="100%" borderCollapse="collapse" fontSize="sm">
+                        <Box as="thead" bg="gray.50">
+                          <Box as="tr">
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('team.columns.member')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('team.columns.role')}
+                            </Box>
+                            <Box as="th" textAlign="left" p={4} fontWeight="semibold">
+                              {t('team.columns.joined')}
+                            </Box>
+                            {canManage && <Box as="th" p={4} />}
+                          </Box>
+                        </Box>
+                        <Box as="tbody">
+                          {members.map((member) => {
+                            const roleDisplay = getRoleDisplay(member.role);
+                            // The owner and your own role are not editable here
+                            const isEditable =
+                              canManage && member.role !== 'owner' && member.user_id !== user?.id;
+
+                            return (
+                              <Box as="tr" key={member.id} borderTop="1px solid" borderColor="gray.200">
+                                <Box as="td" p={4}>
+                                  <Text fontWeight="semibold" color="gray.800">
+                                    {member.first_name} {member.last_name}
+                                    {member.user_id === user?.id && (
+                                      <Text as="span" fontWeight="normal" color="gray.500">
+                                        {' '}
+                                        {t('team.you')}
+                                      </Text>
+                                    )}
+                                  </Text>
+                                  <Text fontSize="xs" color="gray.500">
+                                    {member.email}
+                                  </Text>
+                                </Box>
+                                <Box as="td" p={4} minW="140px">
+                                  {isEditable ? (
+                                    <select
+                                      value={member.role}
+                                      onChange={(e) =>
+                                        handleRoleChange(
+                                          member,
+                                          e.target.value as Exclude<OrganizationRole, 'owner'>
+                                        )
+                                      }
+                                      disabled={updatingMemberId === member.id}
+                                      aria-label={t('team.roleFor', {
+                                        name: `${member.first_name} ${member.last_name}`,
+                                      })}
+                                      style={selectStyle}
+                                    >
+                                      {INVITABLE_ROLES.map((role) => (
+                                        <option key={role.value} value={role.value}>
+                                          {getRoleDisplay(role.value).label}
+                                        </option>
+                                      ))}
+                                    </select>
+                                  ) : (
+                                    <Badge colorScheme={roleDisplay.color}>{roleDisplay.label}</Badge>
+                                  )}
+                                </Box>
+                                <Box as="td" p={4} color="gray.700" whiteSpace="nowrap">
+                                  {formatTeamDate(member.joined_at)}
+                                </Box>
+                                {canManage && (
+                                  <Box as="td" p={4} textAlign="right">
+                                    {isEditable && (
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        colorScheme="red"
+                                        onClick={() => setMemberToRemove(member)}
+                                      >
+                                        <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                                          <Icon as={FiTrash2} />
+                                        </Box>
+                                        {t('team.remove')}
+                                      </Button>
+                                    )}
+                                  </Box>
+                                )}
+                              </Box>
+                            );
+                          })}
+                        </Box>
+                      </Box>
+                    )}
+                  </Box>
+
+                  <Stack gap={6}>
+                    {/* INVITE */}
+                    {canManage && (
+                      <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                        <form onSubmit={handleSubmit(onInvite)}>
+                          <Stack gap={4}>
+                            <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                              {t('team.inviteTitle')}
+                            </Heading>
+                            <Field.Root invalid={!!errors.email} required>
+                              <Field.Label fontWeight="semibold" color="gray.700">
+                                {t('team.email')}
+                              </Field.Label>
+                              <Input
+                                type="email"
+                                placeholder="colleague@company.com"
+                                _focus={{
+                                  borderColor: THEME.COLORS.primary,
+                                  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+                                  outline: 'none',
+                                }}
+                                {...register('email')}
+                              />
+                              <Field.ErrorText>{errors.email?.message}</Field.ErrorText>
+                            </Field.Root>
+                            <Field.Root>
+                              <Field.Label fontWeight="semibold" color="gray.700">
+                                {t('team.columns.role')}
+                              </Field.Label>
+                              <select {...register('role')} style={selectStyle}>
+                                {INVITABLE_ROLES.map((role) => (
+                                  <option key={role.value} value={role.value}>
+                                    {getRoleDisplay(role.value).label}
+                                  </option>
+                                ))}
+                              </select>
+                            </Field.Root>
+                            <Button
+                              type="submit"
+                              {...THEME.BUTTON_STYLES.primaryButton}
+                              loading={isSubmitting}
+                            >
+                              <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                                <Icon as={FiUserPlus} />
+                              </Box>
+                              {t('team.sendInvitation')}
+                            </Button>
+                          </Stack>
+                        </form>
+                      </Box>
+                    )}
+
+                    {/* ROLES */}
+                    <Box bg="white" borderRadius="xl" boxShadow="md" p={6}>
+                      <Stack gap={3}>
+                        <Text
+                          fontSize="sm"
+                          fontWeight="semibold"
+                          color="gray.500"
+                          textTransform="uppercase"
+                        >
+                          {t('team.roles')}
+                        </Text>
+                        {ORGANIZATION_ROLES.map((role) => {
+                          const display = getRoleDisplay(role.value);
+                          return (
+                            <Stack key={role.value} gap={0}>
+                              <Box>
+                                <Badge colorScheme={display.color}>{display.label}</Badge>
+                              </Box>
+                              <Text fontSize="sm" color="gray.600">
+                                {display.description}
+                              </Text>
+                            </Stack>
+                          );
+                        })}
+                      </Stack>
+                    </Box>
+                  </Stack>
+                </SimpleGrid>
+
+                {/* PENDING INVITATIONS */}
+                {canManage && invitations.length > 0 && (
+                  <Stack gap={4}>
+                    <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                      {t('team.pendingInvitations')}
+                    </Heading>
+                    <Box bg="white" borderRadius="xl" boxShadow="md" p={2}>
+                      {invitations.map((invitation, index) => (
+                        <Flex
+                          key={invitation.id}
+                          justify="space-between"
+                          align="center"
+                          gap={4}
+                          p={4}
+                          borderTop={index > 0 ? '1px solid' : undefined}
+                          borderColor="gray.200"
+                          flexWrap="wrap"
+                        >
+                          <Flex align="center" gap={3}>
+                            <Icon as={FiMail} color="gray.400" />
+                            <Stack gap={0}>
+                              <Text fontWeight="semibold" color="gray.800">
+                                {invitation.email}
+                              </Text>
+                              <Text fontSize="xs" color="gray.500">
+                                {t('team.invitedBy', {
+                                  name: invitation.invited_by_name,
+                                  date: formatTeamDate(invitation.created_at),
+                                  expires: formatTeamDate(invitation.expires_at),
+                                })}
+                              </Text>
+                            </Stack>
+                          </Flex>
+                          <Flex align="center" gap={3}>
+                            <Badge colorScheme={getRoleDisplay(invitation.role).color}>
+                              {getRoleDisplay(invitation.role).label}
+                            </Badge>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleCancelInvitation(invitation)}
+                            >
+                              <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                                <Icon as={FiX} />
+                              </Box>
+                              {t('common.cancel')}
+                            </Button>
+                          </Flex>
+                        </Flex>
+                      ))}
+                    </Box>
+                  </Stack>
+                )}
+              </Stack>
+            )}
+          </Container>
+        </Box>
+
+        {/* REMOVE MEMBER CONFIRMATION */}
+        {memberToRemove && organization && (
+          <Box
+            position="fixed"
+            inset={0}
+            bg="blackAlpha.600"
+            display="flex"
+            alignItems="center"
+            justifyContent="center"
+            zIndex={1000}
+          >
+            <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+              <Stack gap={4}>
+                <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                  {t('team.removeTitle', {
+                    name: `${memberToRemove.first_name} ${memberToRemove.last_name}`,
+                  })}
+                </Heading>
+                <Text color="gray.700">
+                  {t('team.removeText', { workspace: organization.name })}
+                </Text>
+                <Flex justify="flex-end" gap={3}>
+                  <Button
+                    variant="outline"
+                    onClick={() => setMemberToRemove(null)}
+                    disabled={isRemoving}
+                  >
+                    {t('common.cancel')}
+                  </Button>
+                  <Button
+                    bg={THEME.COLORS.error}
+                    color="white"
+                    _hover={{ opacity: 0.9 }}
+                    onClick={handleRemove}
+                    loading={isRemoving}
+                  >
+                    {t('team.remove')}
+                  </Button>
+                </Flex>
+              </Stack>
+            </Box>
+          </Box>
+        )}
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
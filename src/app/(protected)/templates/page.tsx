@@ -0,0 +1,338 @@
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  SimpleGrid,
+  Badge,
+  Spinner,
+  Center,
+} from '@chakra-ui/react';
+import { FiEdit, FiFileText, FiPlus, FiTrash2 } from 'react-icons/fi';
+import { useEffect, useState } from 'react';
+import { getAllEvents, getEventTypeIcon, getEventTypeLabel } from '@/src/lib/events';
+import { getChannelDisplay } from '@/src/lib/invitations';
+import { deleteMessageTemplate, getMessageTemplates } from '@/src/lib/templates';
+import { canManageEvents } from '@/src/lib/organizations';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import useCustomToast from '@/src/hooks/useToast';
+import AuthNav from '@/src/components/layout/AuthNav';
+import ProtectedRoute from '@/src/components/auth/ProtectedRoute';
+import TemplateEditor from '@/src/components/templates/TemplateEditor';
+import { THEME, EVENT_TYPES, INVITATION_CHANNELS } from '@/src/lib/constants';
+import type { ApiError, EventListItem, MessageTemplate } from '@/src/types';
+
+const selectStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  borderRadius: '6px',
+  border: '2px solid #E2E8F0',
+  backgroundColor: 'white',
+  fontSize: '14px',
+  cursor: 'pointer',
+  outline: 'none',
+};
+
+/**
+ * Message Templates Page Component
+ *
+ * Library of invitation messages saved per event type and channel, each
+ * with English and Swahili text. Templates are picked in the send
+ * invitations flow instead of retyping the message for every event.
+ */
+export default function TemplatesPage() {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [events, setEvents] = useState<EventListItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedType, setSelectedType] = useState('all');
+  const [selectedChannel, setSelectedChannel] = useState('all');
+  // null: list only, 'new': creating, otherwise the template being edited
+  const [editing, setEditing] = useState<MessageTemplate | 'new' | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<MessageTemplate | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+  const { activeOrganization, activeOrganizationId } = useOrganization();
+  // Workspace viewers can use templates but not change them
+  const canEdit = !activeOrganization || canManageEvents(activeOrganization.role);
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const [templateData, eventData] = await Promise.all([
+          getMessageTemplates(),
+          getAllEvents(),
+        ]);
+        setTemplates(templateData);
+        setEvents(eventData);
+      } catch (error) {
+        toast.error(
+          t('templates.loadError'),
+          (error as ApiError)?.message || t('templates.loadErrorMessage')
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTemplates();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeOrganizationId]);
+
+  const filteredTemplates = templates.filter(
+    (template) =>
+      (selectedType === 'all' || template.event_type === selectedType) &&
+      (selectedChannel === 'all' || template.channel === selectedChannel)
+  );
+
+  const handleSaved = (saved: MessageTemplate) => {
+    setTemplates((prev) =>
+      prev.some((item) => item.id === saved.id)
+        ? prev.map((item) => (item.id === saved.id ? saved : item))
+        : [saved, ...prev]
+    );
+    setEditing(null);
+  };
+
+  const handleDelete = async () => {
+    if (!templateToDelete) return;
+    setIsDeleting(true);
+    try {
+      await deleteMessageTemplate(templateToDelete.id);
+      setTemplates((prev) => prev.filter((item) => item.id !== templateToDelete.id));
+      toast.success(t('templates.deleted'), templateToDelete.name);
+      setTemplateToDelete(null);
+    } catch (error) {
+      toast.error(
+        t('templates.deleteError'),
+        (error as ApiError)?.message || t('templates.deleteErrorMessage')
+      );
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <ProtectedRoute>
+      <>
+        <AuthNav />
+
+        <Box as="main" minH="calc(100vh - 140px)" bg={THEME.COLORS.background}>
+          {/* PAGE HEADER */}
+          <Box bg="white" borderBottom="1px" borderColor="gray.200" py={6}>
+            <Container maxW="container.xl">
+              <Flex justify="space-between" align="center" flexWrap="wrap" gap={4}>
+                <Stack gap={1}>
+                  <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                    {t('templates.title')}
+                  </Heading>
+                  <Text color="gray.600">
+                    {t('templates.subtitle')}
+                  </Text>
+                </Stack>
+
+                {canEdit && !editing && (
+                  <Button {...THEME.BUTTON_STYLES.primaryButton} onClick={() => setEditing('new')}>
+                    <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                      <Icon as={FiPlus} />
+                    </Box>
+                    {t('templates.new')}
+                  </Button>
+                )}
+              </Flex>
+            </Container>
+          </Box>
+
+          <Container maxW="container.xl" py={8}>
+            {loading ? (
+              <Center py={20}>
+                <Spinner size="xl" color={THEME.COLORS.primary} />
+              </Center>
+            ) : editing ? (
+              <TemplateEditor
+                template={editing === 'new' ? null : editing}
+                events={events}
+                onSaved={handleSaved}
+                onCancel={() => setEditing(null)}
+              />
+            ) : (
+              <Stack gap={6}>
+                {/* FILTERS */}
+                <Flex gap={4} flexWrap="wrap">
+                  <Box w="200px">
+                    <select
+                      value={selectedType}
+                      onChange={(e) => setSelectedType(e.target.value)}
+                      aria-label={t('templates.filterByType')}
+                      style={selectStyle}
+                    >
+                      <option value="all">{t('events.allTypes')}</option>
+                      {EVENT_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {type.icon} {getEventTypeLabel(type.value)}
+                        </option>
+                      ))}
+                    </select>
+                  </Box>
+                  <Box w="200px">
+                    <select
+                      value={selectedChannel}
+                      onChange={(e) => setSelectedChannel(e.target.value)}
+                      aria-label={t('templates.filterByChannel')}
+                      style={selectStyle}
+                    >
+                      <option value="all">{t('templates.allChannels')}</option>
+                      {INVITATION_CHANNELS.map((channel) => (
+                        <option key={channel.value} value={channel.value}>
+                          {getChannelDisplay(channel.value).label}
+                        </option>
+                      ))}
+                    </select>
+                  </Box>
+                </Flex>
+
+                {filteredTemplates.length === 0 ? (
+                  <Box bg="white" p={8} borderRadius="xl" boxShadow="md" textAlign="center">
+                    <Stack gap={4} align="center">
+                      <Icon as={FiFileText} w={12} h={12} color="gray.300" />
+                      <Heading fontSize="xl" color="gray.700">
+                        {templates.length === 0
+                          ? t('templates.emptyTitle')
+                          : t('templates.noMatchTitle')}
+                      </Heading>
+                      <Text color="gray.600" maxW="md">
+                        {templates.length === 0
+                          ? t('templates.emptyText')
+                          : t('templates.noMatchText')}
+                      </Text>
+                    </Stack>
+                  </Box>
+                ) : (
+                  <SimpleGrid columns={{ base: 1, md: 2, lg: 3 }} gap={6}>
+                    {filteredTemplates.map((template) => {
+                      const eventType = EVENT_TYPES.find(
+                        (type) => type.value === template.event_type
+                      );
+                      const channel = getChannelDisplay(template.channel);
+
+                      return (
+                        <Box
+                          key={template.id}
+                          bg="white"
+                          borderRadius="xl"
+                          boxShadow="md"
+                          p={6}
+                          display="flex"
+                          flexDirection="column"
+                        >
+                          <Stack gap={3} flex={1}>
+                            <Flex justify="space-between" align="start" gap={2}>
+                              <Heading fontSize="md" color="gray.800">
+                                {template.name}
+                              </Heading>
+                              <Text fontSize="xl">{getEventTypeIcon(template.event_type)}</Text>
+                            </Flex>
+                            <Flex gap={2} flexWrap="wrap">
+                              <Badge colorScheme={eventType?.color ?? 'gray'}>
+                                {getEventTypeLabel(template.event_type)}
+                              </Badge>
+                              <Badge>{channel.label}</Badge>
+                              <Badge colorScheme="green">EN</Badge>
+                              {template.variants.sw && <Badge colorScheme="green">SW</Badge>}
+                            </Flex>
+                            <Text fontSize="sm" color="gray.600" lineClamp={4} whiteSpace="pre-wrap">
+                              {template.variants.en.body}
+                            </Text>
+                          </Stack>
+
+                          <Flex justify="space-between" align="center" mt={4} gap={2}>
+                            <Text fontSize="xs" color="gray.500">
+                              {t('templates.createdBy', { name: template.created_by_name })}
+                            </Text>
+                            {canEdit && (
+                              <Flex gap={1}>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => setEditing(template)}
+                                  aria-label={t('templates.editLabel', { name: template.name })}
+                                >
+                                  <Icon as={FiEdit} />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  colorScheme="red"
+                                  onClick={() => setTemplateToDelete(template)}
+                                  aria-label={t('templates.deleteLabel', { name: template.name })}
+                                >
+                                  <Icon as={FiTrash2} />
+                                </Button>
+                              </Flex>
+                            )}
+                          </Flex>
+                        </Box>
+                      );
+                    })}
+                  </SimpleGrid>
+                )}
+              </Stack>
+            )}
+          </Container>
+        </Box>
+
+        {/* DELETE CONFIRMATION */}
+        {templateToDelete && (
+          <Box
+            position="fixed"
+            inset={0}
+            bg="blackAlpha.600"
+            display="flex"
+            alignItems="center"
+            justifyContent="center"
+            zIndex={1000}
+          >
+            <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+              <Stack gap={4}>
+                <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                  {t('templates.deleteTitle')}
+                </Heading>
+                <Text color="gray.700">
+                  {t('templates.deleteText', { name: templateToDelete.name })}
+                </Text>
+                <Flex justify="flex-end" gap={3}>
+                  <Button
+                    variant="outline"
+                    onClick={() => setTemplateToDelete(null)}
+                    disabled={isDeleting}
+                  >
+                    {t('common.cancel')}
+                  </Button>
+                  <Button colorScheme="red" onClick={handleDelete} loading={isDeleting}>
+                    {t('common.delete')}
+                  </Button>
+                </Flex>
+              </Stack>
+            </Box>
+          </Box>
+        )}
+
+        <Box as="footer" py={6} bg={THEME.COLORS.background}>
+          <Container maxW="container.xl">
+            <Text textAlign="center" color="gray.400" fontSize="sm">
+              {t('common.copyright')}
+            </Text>
+          </Container>
+        </Box>
+      </>
+    </ProtectedRoute>
+  );
+}
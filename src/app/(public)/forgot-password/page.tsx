@@ -33,10 +33,12 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { requestPasswordReset } from '@/src/lib/auth';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import { ROUTES, THEME } from '@/src/lib/constants';
+import type { LocaleContextType } from '@/src/types';
 
 const PublicNav = dynamic(() => import('@/src/components/layout/PublicNav'), {
   ssr: false,
@@ -46,11 +48,12 @@ const PublicNav = dynamic(() => import('@/src/components/layout/PublicNav'), {
 // VALIDATION SCHEMA
 // ============================================================================
 
-const resetRequestSchema = z.object({
-  email: z.string().email('Please enter a valid email address').min(1, 'Email is required'),
-});
+const createResetRequestSchema = (t: LocaleContextType['t']) =>
+  z.object({
+    email: z.string().email(t('validation.emailInvalid')).min(1, t('validation.emailRequired')),
+  });
 
-type ResetRequestFormData = z.infer<typeof resetRequestSchema>;
+type ResetRequestFormData = z.infer<ReturnType<typeof createResetRequestSchema>>;
 
 // ============================================================================
 // MAIN COMPONENT
@@ -62,6 +65,8 @@ export default function ForgotPasswordPage() {
   const [lastSubmitTime, setLastSubmitTime] = useState<number | null>(null);
 
   const toast = useCustomToast();
+  const { t } = useTranslation();
+  const resetRequestSchema = useMemo(() => createResetRequestSchema(t), [t]);
 
   const {
     register,
@@ -77,8 +82,8 @@ export default function ForgotPasswordPage() {
     const now = Date.now();
     if (lastSubmitTime && now - lastSubmitTime < 5000) {
       toast.error(
-        'Please wait a moment',
-        'You are submitting too quickly. Please wait a few seconds before trying again.'
+        t('common.tooFast'),
+        t('common.tooFastMessage')
       );
       return;
     }
@@ -88,19 +93,13 @@ export default function ForgotPasswordPage() {
     try {
       await requestPasswordReset(data.email);
       setEmailSent(true);
-      toast.success(
-        'Reset Link Sent',
-        'If an account exists with that email, a password reset link has been sent.'
-      );
+      toast.success(t('forgotPassword.sent'), t('forgotPassword.sentMessage'));
       reset();
     } catch (error: any) {
       console.error('Password reset request error:', error);
       // Don't reveal if email exists (security best practice)
       // Show generic error message
-      toast.error(
-        'Request Failed',
-        'Unable to process your request. Please try again later.'
-      );
+      toast.error(t('forgotPassword.error'), t('forgotPassword.errorMessage'));
     } finally {
       setIsSubmitting(false);
     }
@@ -134,7 +133,7 @@ export default function ForgotPasswordPage() {
                   color: THEME.COLORS.primary,
                 }}
               >
-                Back to Login
+                {t('auth.backToLogin')}
               </Button>
             </Link>
 
@@ -155,10 +154,10 @@ export default function ForgotPasswordPage() {
                     color={THEME.COLORS.primary}
                     fontWeight="bold"
                   >
-                    Reset Your Password
+                    {t('forgotPassword.title')}
                   </Heading>
                   <Text color="gray.600">
-                    Enter your email and we'll send you a reset link
+                    {t('forgotPassword.subtitle')}
                   </Text>
                 </Stack>
 
@@ -168,11 +167,11 @@ export default function ForgotPasswordPage() {
                     {/* EMAIL */}
                     <Field.Root invalid={!!errors.email} w="100%">
                       <Field.Label fontWeight="semibold" color="gray.700" mb={3}>
-                        Email Address
+                        {t('profile.email')}
                       </Field.Label>
                       <Input
                         type="email"
-                        placeholder="your@email.com"
+                        placeholder={t('auth.emailPlaceholder')}
                         borderRadius="md"
                         h="52px"
                         pl="1.25rem"
@@ -202,7 +201,7 @@ export default function ForgotPasswordPage() {
                       borderColor="blue.400"
                     >
                       <Text fontSize="sm" color="gray.700">
-                        The reset link will expire in 15 minutes.
+                        {t('forgotPassword.expiry')}
                       </Text>
                     </Box>
 
@@ -213,7 +212,7 @@ export default function ForgotPasswordPage() {
                       size="lg"
                       disabled={isSubmitting} {...THEME.BUTTON_STYLES.primaryButton}
                     >
-                      Send Reset Link
+                      {t('forgotPassword.submit')}
                     </Button>
                   </Stack>
                 </form>
@@ -240,13 +239,13 @@ export default function ForgotPasswordPage() {
                   color={THEME.COLORS.primary}
                   fontWeight="bold"
                 >
-                  Check Your Email
+                  {t('forgotPassword.checkEmail')}
                 </Heading>
                 <Text color="gray.600">
-                  If an account exists with that email, we've sent a password reset link.
+                  {t('forgotPassword.checkEmailText')}
                 </Text>
                 <Text fontSize="sm" color="gray.500">
-                  Didn't receive it? Check your spam folder or try again.
+                  {t('forgotPassword.notReceived')}
                 </Text>
                 <Button
                   onClick={() => setEmailSent(false)}
@@ -255,7 +254,7 @@ export default function ForgotPasswordPage() {
                   w="full"
                   size="lg"
                 >
-                  Try Another Email
+                  {t('forgotPassword.tryAnother')}
                 </Button>
               </Stack>
             )}
@@ -33,22 +33,24 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import Link from 'next/link';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useAuth } from '@/src/contexts/AuthContext';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import { ROUTES, THEME } from '@/src/lib/constants';
-import { LoginCredentials } from '@/src/types';
+import { LocaleContextType, LoginCredentials } from '@/src/types';
 
 // ============================================================================
 // VALIDATION SCHEMA
 // ============================================================================
 
-const loginSchema = z.object({
-  email: z.string().email('Please enter a valid email address').min(1, 'Email is required'),
-  password: z.string().min(1, 'Password is required'),
-});
+const createLoginSchema = (t: LocaleContextType['t']) =>
+  z.object({
+    email: z.string().email(t('validation.emailInvalid')).min(1, t('validation.emailRequired')),
+    password: z.string().min(1, t('validation.passwordRequired')),
+  });
 
-type LoginFormData = z.infer<typeof loginSchema>;
+type LoginFormData = z.infer<ReturnType<typeof createLoginSchema>>;
 
 // ============================================================================
 // MAIN COMPONENT
@@ -62,6 +64,8 @@ export default function LoginPage() {
 
   const { login } = useAuth();
   const toast = useCustomToast();
+  const { t } = useTranslation();
+  const loginSchema = useMemo(() => createLoginSchema(t), [t]);
 
   const {
     register,
@@ -86,8 +90,8 @@ export default function LoginPage() {
     const now = Date.now();
     if (lastSubmitTime && now - lastSubmitTime < 5000) {
       toast.error(
-        'Please wait a moment',
-        'You are submitting too quickly. Please wait a few seconds before trying again.'
+        t('common.tooFast'),
+        t('common.tooFastMessage')
       );
       return;
     }
@@ -104,13 +108,13 @@ export default function LoginPage() {
     setIsSubmitting(true);
     try {
       await login(data);
-      toast.success('Welcome back!', 'You have been successfully logged in.');
+      toast.success(t('login.success'), t('login.successMessage'));
       // Navigation is handled by AuthContext after successful login
     } catch (error: any) {
       console.error('Login error:', error);
       
       // Extract error message from various possible formats
-      let errorMessage = 'Unable to log in. Please check your credentials.';
+      let errorMessage = t('login.errorMessage');
       
       if (error?.message) {
         errorMessage = error.message;
@@ -126,11 +130,11 @@ export default function LoginPage() {
       if (errorMessage.toLowerCase().includes('email not verified') || 
           errorMessage.toLowerCase().includes('email verification')) {
         toast.error(
-          'Email Not Verified',
-          'Please verify your email address before logging in. Check your inbox for the verification link.'
+          t('login.notVerified'),
+          t('login.notVerifiedMessage')
         );
       } else {
-        toast.error('Login Failed', errorMessage);
+        toast.error(t('login.error'), errorMessage);
       }
     } finally {
       setIsSubmitting(false);
@@ -141,7 +145,7 @@ export default function LoginPage() {
   const PasswordToggleButton = () => (
     <Button
       type="button"
-      aria-label="Toggle password visibility"
+      aria-label={t('auth.togglePassword')}
       onClick={() => setShowPassword(!showPassword)}
       variant="ghost"
       size="sm"
@@ -198,10 +202,10 @@ export default function LoginPage() {
               color="gray.800"
               fontWeight="bold"
             >
-              Welcome Back
+              {t('login.title')}
             </Heading>
             <Text color="gray.500" fontSize="sm">
-              Login to manage your events
+              {t('login.subtitle')}
             </Text>
           </Stack>
 
@@ -211,11 +215,11 @@ export default function LoginPage() {
               {/* EMAIL */}
               <Field.Root invalid={!!(touchedFields.email && errors.email)} w="100%">
                 <Field.Label fontWeight="semibold" color="gray.700" mb={2} fontSize="sm">
-                  Email
+                  {t('auth.email')}
                 </Field.Label>
                 <Input
                   type="email"
-                  placeholder="your@email.com"
+                  placeholder={t('auth.emailPlaceholder')}
                   borderRadius="lg"
                   h="48px"
                   pl="1rem"
@@ -251,12 +255,12 @@ export default function LoginPage() {
               {/* PASSWORD */}
               <Field.Root invalid={!!(touchedFields.password && errors.password)} w="100%">
                 <Field.Label fontWeight="semibold" color="gray.700" mb={2} fontSize="sm">
-                  Password
+                  {t('auth.password')}
                 </Field.Label>
                 <Box position="relative" w="100%">
                   <Input
                     type={showPassword ? 'text' : 'password'}
-                    placeholder="Enter your password"
+                    placeholder={t('login.passwordPlaceholder')}
                     borderRadius="lg"
                     h="48px"
                     pl="1rem"
@@ -310,7 +314,7 @@ export default function LoginPage() {
                   />
                   <label htmlFor="rememberMe" style={{ cursor: 'pointer' }}>
                     <Text fontSize="sm" color="gray.600">
-                      Remember me
+                      {t('login.rememberMe')}
                     </Text>
                   </label>
                 </Flex>
@@ -322,7 +326,7 @@ export default function LoginPage() {
                   fontWeight="medium"
                   _hover={{ textDecoration: 'underline' }}
                 >
-                  Forgot password?
+                  {t('login.forgotPassword')}
                 </ChakraLink>
               </Box>
 
@@ -335,7 +339,7 @@ export default function LoginPage() {
                 disabled={isSubmitting}
                 {...THEME.BUTTON_STYLES.primaryButton}
               >
-                {isSubmitting ? 'Logging in...' : 'Login'}
+                {isSubmitting ? t('login.submitting') : t('login.submit')}
               </Button>
             </Stack>
           </form>
@@ -345,7 +349,7 @@ export default function LoginPage() {
 
           {/* FOOTER */}
           <Text textAlign="center" fontSize="sm" color="gray.600">
-            Don't have an account?{' '}
+            {t('login.noAccount')}{' '}
             <ChakraLink
               as={Link}
               href={ROUTES.PUBLIC.REGISTER}
@@ -353,7 +357,7 @@ export default function LoginPage() {
               fontWeight="bold"
               _hover={{ textDecoration: 'underline' }}
             >
-              Sign up
+              {t('login.signUp')}
             </ChakraLink>
           </Text>
         </Box>
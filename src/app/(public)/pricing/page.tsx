@@ -26,14 +26,18 @@ import Link from 'next/link';
 import { useState } from 'react';
 import PublicNav from '@/src/components/layout/PublicNav';
 import Footer from '@/src/components/layout/Footer';
+import CostCalculator from '@/src/components/billing/CostCalculator';
+import { useAuth } from '@/src/contexts/AuthContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { BILLING_PLANS, getAnnualSavings, getPlanCopy, savePlanSelection } from '@/src/lib/billing';
+import { translate } from '@/src/lib/i18n';
 import { ROUTES, THEME, PRICING_PLANS, PRICING_FAQ, PAYMENT_METHODS } from '@/src/lib/constants';
+import type { BillingCycle } from '@/src/types';
 import type { IconType } from 'react-icons';
 
-type BillingCycle = 'monthly' | 'annual';
-
 function formatPrice(amount: number | null): string {
   if (amount === null) {
-    return 'Custom';
+    return translate('pricing.custom');
   }
   return `KES ${amount.toLocaleString()}`;
 }
@@ -54,11 +58,13 @@ function getPlanIcon(planType: string): IconType {
 export default function PricingPage() {
   const [selectedBilling, setSelectedBilling] = useState<BillingCycle>('monthly');
   const [openFaqIndex, setOpenFaqIndex] = useState<number | null>(0);
+  const { isAuthenticated } = useAuth();
+  const { t } = useTranslation();
 
-  const payg = PRICING_PLANS.PAY_AS_YOU_GO;
-  const starter = PRICING_PLANS.STARTER;
-  const professional = PRICING_PLANS.PROFESSIONAL;
-  const enterprise = PRICING_PLANS.ENTERPRISE;
+  const maxAnnualDiscount = Math.max(
+    PRICING_PLANS.STARTER.annualDiscount,
+    PRICING_PLANS.PROFESSIONAL.annualDiscount
+  );
 
   return (
     <>
@@ -76,7 +82,7 @@ export default function PricingPage() {
                 textTransform="uppercase"
                 letterSpacing="widest"
               >
-                Transparent Pricing
+                {t('pricing.eyebrow')}
               </Text>
 
               <Heading
@@ -84,15 +90,15 @@ export default function PricingPage() {
                 fontWeight="bold"
                 color={THEME.COLORS.primary}
               >
-                Simple, Fair Pricing
+                {t('pricing.title')}
               </Heading>
 
               <Text fontSize="xl" color="gray.600" maxW="2xl" mx="auto">
-                Choose the plan that fits your needs. No hidden fees, cancel anytime.
+                {t('pricing.subtitle')}
               </Text>
 
               <Text fontSize="md" color="gray.500">
-                🎁 First event free for all new users (up to 50 invitations)
+                {t('pricing.freeEvent')}
               </Text>
             </Stack>
           </Container>
@@ -124,14 +130,14 @@ export default function PricingPage() {
                       : 'gray.50',
                 }}
               >
-                Monthly billing
+                {t('pricing.monthlyBilling')}
               </Button>
               <Button
                 size="sm"
                 borderRadius="full"
                 onClick={() => setSelectedBilling('annual')}
                 bg={selectedBilling === 'annual' ? THEME.COLORS.primary : 'transparent'}
-                color={selectedBilling === 'annual' ? 'white' : 'gray.500'}
+                color={selectedBilling === 'annual' ? 'white' : 'gray.700'}
                 _hover={{
                   bg:
                     selectedBilling === 'annual'
@@ -139,210 +145,248 @@ export default function PricingPage() {
                       : 'gray.50',
                 }}
               >
-                Annual (coming soon)
+                {t('pricing.annualBilling')}
+                <Badge
+                  ml={2}
+                  bg={selectedBilling === 'annual' ? 'whiteAlpha.300' : 'green.100'}
+                  color={selectedBilling === 'annual' ? 'white' : 'green.700'}
+                  borderRadius="full"
+                  fontSize="2xs"
+                >
+                  {t('pricing.savePercent', { percent: maxAnnualDiscount })}
+                </Badge>
               </Button>
             </Box>
           </Flex>
 
           <SimpleGrid columns={{ base: 1, lg: 4 }} gap={8}>
-            {[payg, starter, professional, enterprise].map((plan) => (
-              <Box
-                key={plan.name}
-                bg="white"
-                borderRadius="xl"
-                boxShadow={plan.popular ? 'xl' : 'md'}
-                p={8}
-                position="relative"
-                border="2px"
-                borderColor={plan.popular ? THEME.COLORS.accent : 'transparent'}
-                transform={plan.popular ? 'scale(1.05)' : 'none'}
-                transition="all 0.3s"
-                _hover={{ boxShadow: 'xl', transform: 'translateY(-4px)' }}
-                display="flex"
-                flexDirection="column"
-                height="100%"
-              >
-                {plan.popular && (
-                  <Badge
-                    position="absolute"
-                    top="-3"
-                    right="8"
-                    bg={THEME.COLORS.accent}
-                    color="white"
-                    px={4}
-                    py={1}
-                    borderRadius="full"
-                    textTransform="uppercase"
-                    fontSize="xs"
-                    fontWeight="bold"
-                  >
-                    Most Popular
-                  </Badge>
-                )}
-
-                <Stack gap={6} flex="1">
-                  {/* PLAN HEADER */}
-                  <Stack gap={3}>
-                    <Flex align="center" gap={3}>
-                      <Icon
-                        as={getPlanIcon(plan.type)}
-                        w={8}
-                        h={8}
-                        color={THEME.COLORS.primary}
-                      />
-                      <Heading fontSize="2xl" color={THEME.COLORS.primary}>
-                        {plan.name}
-                      </Heading>
-                    </Flex>
-                    <Text color={THEME.COLORS.textSecondary} fontSize="sm">
-                      {plan.description}
-                    </Text>
-                  </Stack>
+            {BILLING_PLANS.map(({ id, plan }) => {
+              const copy = getPlanCopy(id);
+              return (
+                <Box
+                  key={id}
+                  bg="white"
+                  borderRadius="xl"
+                  boxShadow={plan.popular ? 'xl' : 'md'}
+                  p={8}
+                  position="relative"
+                  border="2px"
+                  borderColor={plan.popular ? THEME.COLORS.accent : 'transparent'}
+                  transform={plan.popular ? 'scale(1.05)' : 'none'}
+                  transition="all 0.3s"
+                  _hover={{ boxShadow: 'xl', transform: 'translateY(-4px)' }}
+                  display="flex"
+                  flexDirection="column"
+                  height="100%"
+                >
+                  {plan.popular && (
+                    <Badge
+                      position="absolute"
+                      top="-3"
+                      right="8"
+                      bg={THEME.COLORS.accent}
+                      color="white"
+                      px={4}
+                      py={1}
+                      borderRadius="full"
+                      textTransform="uppercase"
+                      fontSize="xs"
+                      fontWeight="bold"
+                    >
+                      {t('pricing.mostPopular')}
+                    </Badge>
+                  )}
 
-                  {/* PRICING */}
-                  {plan.type === 'payg' && 'pricing' in plan ? (
-                    <Stack gap={2}>
-                      <Text fontSize="lg" fontWeight="bold" color="gray.800">
-                        From {formatPrice(plan.pricing.event_creation.amount)} per event
-                      </Text>
-                      <Flex justify="space-between" fontSize="sm">
-                        <Text color="gray.600">{plan.pricing.event_creation.description}</Text>
-                        <Text fontWeight="semibold" color={THEME.COLORS.primary}>
-                          {formatPrice(plan.pricing.event_creation.amount)}
-                        </Text>
-                      </Flex>
-                      <Flex justify="space-between" fontSize="sm">
-                        <Text color="gray.600">{plan.pricing.whatsapp_message.description}</Text>
-                        <Text fontWeight="semibold" color={THEME.COLORS.primary}>
-                          {formatPrice(plan.pricing.whatsapp_message.amount)}
-                        </Text>
-                      </Flex>
-                      <Flex justify="space-between" fontSize="sm">
-                        <Text color="gray.600">{plan.pricing.sms_message.description}</Text>
-                        <Text fontWeight="semibold" color={THEME.COLORS.primary}>
-                          {formatPrice(plan.pricing.sms_message.amount)}
-                        </Text>
-                      </Flex>
-                      <Flex justify="space-between" fontSize="sm">
-                        <Text color="gray.600">{plan.pricing.card_design.description}</Text>
-                        <Text fontWeight="semibold" color={THEME.COLORS.primary}>
-                          {formatPrice(plan.pricing.card_design.amount)}
-                        </Text>
+                  <Stack gap={6} flex="1">
+                    {/* PLAN HEADER */}
+                    <Stack gap={3}>
+                      <Flex align="center" gap={3}>
+                        <Icon
+                          as={getPlanIcon(plan.type)}
+                          w={8}
+                          h={8}
+                          color={THEME.COLORS.primary}
+                        />
+                        <Heading fontSize="2xl" color={THEME.COLORS.primary}>
+                          {plan.name}
+                        </Heading>
                       </Flex>
+                      <Text color={THEME.COLORS.textSecondary} fontSize="sm">
+                        {copy.description}
+                      </Text>
                     </Stack>
-                  ) : plan.type === 'subscription' && 'price' in plan ? (
-                    <Stack gap={1}>
-                      <Flex align="baseline" gap={2}>
-                        <Text fontSize="4xl" fontWeight="bold" color={THEME.COLORS.primary}>
-                          {formatPrice(plan.price)}
-                        </Text>
-                        <Text fontSize="lg" color="gray.600">
-                          /{plan.billingCycle}
+
+                    {/* PRICING */}
+                    {plan.type === 'payg' && 'pricing' in plan ? (
+                      <Stack gap={2}>
+                        <Text fontSize="lg" fontWeight="bold" color="gray.800">
+                          {t('pricing.fromPerEvent', {
+                            price: formatPrice(plan.pricing.event_creation.amount),
+                          })}
                         </Text>
-                      </Flex>
-                      {plan.limits && (
-                        <Text fontSize="sm" color={THEME.COLORS.textSecondary}>
-                          {plan.limits.events} events • {plan.limits.whatsapp} WhatsApp •{' '}
-                          {plan.limits.sms} SMS
+                        <Flex justify="space-between" fontSize="sm">
+                          <Text color="gray.600">{t('pricing.rates.eventCreation')}</Text>
+                          <Text fontWeight="semibold" color={THEME.COLORS.primary}>
+                            {formatPrice(plan.pricing.event_creation.amount)}
+                          </Text>
+                        </Flex>
+                        <Flex justify="space-between" fontSize="sm">
+                          <Text color="gray.600">{t('pricing.rates.whatsappMessage')}</Text>
+                          <Text fontWeight="semibold" color={THEME.COLORS.primary}>
+                            {formatPrice(plan.pricing.whatsapp_message.amount)}
+                          </Text>
+                        </Flex>
+                        <Flex justify="space-between" fontSize="sm">
+                          <Text color="gray.600">{t('pricing.rates.smsMessage')}</Text>
+                          <Text fontWeight="semibold" color={THEME.COLORS.primary}>
+                            {formatPrice(plan.pricing.sms_message.amount)}
+                          </Text>
+                        </Flex>
+                        <Flex justify="space-between" fontSize="sm">
+                          <Text color="gray.600">{t('pricing.rates.cardDesign')}</Text>
+                          <Text fontWeight="semibold" color={THEME.COLORS.primary}>
+                            {formatPrice(plan.pricing.card_design.amount)}
+                          </Text>
+                        </Flex>
+                      </Stack>
+                    ) : plan.type === 'subscription' && 'price' in plan && plan.price !== null ? (
+                      <Stack gap={1}>
+                        <Flex align="baseline" gap={2}>
+                          <Text fontSize="4xl" fontWeight="bold" color={THEME.COLORS.primary}>
+                            {formatPrice(
+                              selectedBilling === 'annual' ? plan.annualPrice : plan.price
+                            )}
+                          </Text>
+                          <Text fontSize="lg" color="gray.600">
+                            {selectedBilling === 'annual'
+                              ? t('billing.perYear')
+                              : t('billing.perMonth')}
+                          </Text>
+                        </Flex>
+                        {selectedBilling === 'annual' && plan.annualPrice !== null ? (
+                          <Text fontSize="sm" fontWeight="semibold" color="green.600">
+                            {t('pricing.annualBreakdown', {
+                              monthly: formatPrice(Math.round(plan.annualPrice / 12)),
+                              savings: formatPrice(getAnnualSavings(id)),
+                            })}
+                          </Text>
+                        ) : (
+                          <Text fontSize="xs" color="gray.500">
+                            {t('pricing.saveWithAnnual', { percent: plan.annualDiscount })}
+                          </Text>
+                        )}
+                        {plan.limits && (
+                          <Text fontSize="sm" color={THEME.COLORS.textSecondary}>
+                            {t('pricing.limits', {
+                              events: plan.limits.events,
+                              whatsapp: plan.limits.whatsapp,
+                              sms: plan.limits.sms,
+                            })}
+                          </Text>
+                        )}
+                      </Stack>
+                    ) : (
+                      <Stack gap={1}>
+                        <Text fontSize="3xl" fontWeight="bold" color={THEME.COLORS.primary}>
+                          {t('pricing.custom')}
                         </Text>
-                      )}
-                      {selectedBilling === 'annual' && (
-                        <Text fontSize="xs" color="gray.400">
-                          Annual billing discounts coming soon
+                        <Text fontSize="sm" color="gray.600">
+                          {t('pricing.contactForPricing')}
                         </Text>
-                      )}
-                    </Stack>
-                  ) : (
-                    <Stack gap={1}>
-                      <Text fontSize="3xl" fontWeight="bold" color={THEME.COLORS.primary}>
-                        Custom
-                      </Text>
-                      <Text fontSize="sm" color="gray.600">
-                        Contact us for pricing
-                      </Text>
+                      </Stack>
+                    )}
+
+                    {/* DIVIDER */}
+                    <Box borderTop="1px" borderColor="gray.200" />
+
+                    {/* FEATURES LIST */}
+                    <Stack gap={3}>
+                      {copy.features.map((feature) => (
+                        <Flex key={feature} align="start" gap={3}>
+                          <Icon
+                            as={FiCheck}
+                            color="green.500"
+                            w={5}
+                            h={5}
+                            mt={0.5}
+                          />
+                          <Text fontSize="sm" color="gray.700">
+                            {feature}
+                          </Text>
+                        </Flex>
+                      ))}
                     </Stack>
-                  )}
-
-                  {/* DIVIDER */}
-                  <Box borderTop="1px" borderColor="gray.200" />
-
-                  {/* FEATURES LIST */}
-                  <Stack gap={3}>
-                    {plan.features.map((feature) => (
-                      <Flex key={feature} align="start" gap={3}>
-                        <Icon
-                          as={FiCheck}
-                          color="green.500"
-                          w={5}
-                          h={5}
-                          mt={0.5}
-                        />
-                        <Text fontSize="sm" color="gray.700">
-                          {feature}
-                        </Text>
-                      </Flex>
-                    ))}
                   </Stack>
-                </Stack>
 
-                {/* CTA BUTTON */}
-                {plan.type === 'custom' ? (
-                  <Link href="/contact">
-                    <Button
-                      w="full"
-                      size="lg"
-                      mt={6}
-                      {...THEME.BUTTON_STYLES.secondaryButton}
-                      variant="outline"
-                    >
-                      <Box
-                        as="span"
-                        display="inline-flex"
-                        alignItems="center"
-                        mr={2}
+                  {/* CTA BUTTON */}
+                  {plan.type === 'custom' ? (
+                    <Link href="/contact">
+                      <Button
+                        w="full"
+                        size="lg"
+                        mt={6}
+                        {...THEME.BUTTON_STYLES.secondaryButton}
+                        variant="outline"
                       >
-                        <Icon as={FiArrowRight} />
-                      </Box>
-                      Contact Sales
-                    </Button>
-                  </Link>
-                ) : (
-                  <Link href={ROUTES.PUBLIC.REGISTER}>
-                    <Button
-                      w="full"
-                      size="lg"
-                      mt={6}
-                      {...(plan.popular
-                        ? THEME.BUTTON_STYLES.primaryButton
-                        : { ...THEME.BUTTON_STYLES.secondaryButton, variant: 'outline' })}
+                        <Box
+                          as="span"
+                          display="inline-flex"
+                          alignItems="center"
+                          mr={2}
+                        >
+                          <Icon as={FiArrowRight} />
+                        </Box>
+                        {t('pricing.contactSales')}
+                      </Button>
+                    </Link>
+                  ) : (
+                    <Link
+                      href={isAuthenticated ? ROUTES.PROTECTED.BILLING : ROUTES.PUBLIC.REGISTER}
+                      onClick={() => {
+                        if (plan.type === 'subscription') savePlanSelection(id, selectedBilling);
+                      }}
                     >
-                      <Box
-                        as="span"
-                        display="inline-flex"
-                        alignItems="center"
-                        mr={2}
+                      <Button
+                        w="full"
+                        size="lg"
+                        mt={6}
+                        {...(plan.popular
+                          ? THEME.BUTTON_STYLES.primaryButton
+                          : { ...THEME.BUTTON_STYLES.secondaryButton, variant: 'outline' })}
                       >
-                        <Icon as={FiArrowRight} />
-                      </Box>
-                      {plan.type === 'payg' ? 'Start Free' : 'Get Started'}
-                    </Button>
-                  </Link>
-                )}
-              </Box>
-            ))}
+                        <Box
+                          as="span"
+                          display="inline-flex"
+                          alignItems="center"
+                          mr={2}
+                        >
+                          <Icon as={FiArrowRight} />
+                        </Box>
+                        {plan.type === 'payg' ? t('pricing.startFree') : t('pricing.getStarted')}
+                      </Button>
+                    </Link>
+                  )}
+                </Box>
+              );
+            })}
           </SimpleGrid>
         </Container>
 
+        {/* COST CALCULATOR SECTION */}
+        <Container maxW="container.xl" pb={16}>
+          <CostCalculator />
+        </Container>
+
         {/* COMPARISON TABLE SECTION */}
         <Box bg="white" py={16}>
           <Container maxW="container.xl">
             <Stack gap={8}>
               <Stack gap={3} textAlign="center">
                 <Heading fontSize="3xl" color={THEME.COLORS.primary}>
-                  Compare Plans
+                  {t('pricing.compareTitle')}
                 </Heading>
                 <Text fontSize="lg" color={THEME.COLORS.textSecondary}>
-                  Choose the perfect plan for your needs
+                  {t('pricing.compareSubtitle')}
                 </Text>
               </Stack>
 
@@ -351,7 +395,7 @@ export default function PricingPage() {
                   <Box as="thead" bg="gray.50">
                     <Box as="tr">
                       <Box as="th" textAlign="left" p={4} fontWeight="semibold">
-                        Feature
+                        {t('pricing.compare.feature')}
                       </Box>
                       <Box as="th" textAlign="center" p={4} fontWeight="semibold">
                         Pay As You Go
@@ -377,10 +421,10 @@ export default function PricingPage() {
                     {/* Events per month */}
                     <Box as="tr" borderTop="1px solid" borderColor="gray.200">
                       <Box as="td" p={4} fontWeight="semibold">
-                        Events per month
+                        {t('pricing.compare.events')}
                       </Box>
                       <Box as="td" p={4} textAlign="center">
-                        Pay per event
+                        {t('pricing.compare.payPerEvent')}
                       </Box>
                       <Box as="td" p={4} textAlign="center">
                         5
@@ -394,17 +438,17 @@ export default function PricingPage() {
                         20
                       </Box>
                       <Box as="td" p={4} textAlign="center">
-                        Unlimited
+                        {t('pricing.compare.unlimited')}
                       </Box>
                     </Box>
 
                     {/* WhatsApp messages */}
                     <Box as="tr" borderTop="1px solid" borderColor="gray.200">
                       <Box as="td" p={4} fontWeight="semibold">
-                        WhatsApp messages
+                        {t('pricing.compare.whatsapp')}
                       </Box>
                       <Box as="td" p={4} textAlign="center">
-                        KES 2 each
+                        {t('pricing.compare.each', { price: 'KES 2' })}
                       </Box>
                       <Box as="td" p={4} textAlign="center">
                         500
@@ -418,17 +462,17 @@ export default function PricingPage() {
                         2,000
                       </Box>
                       <Box as="td" p={4} textAlign="center">
-                        Unlimited
+                        {t('pricing.compare.unlimited')}
                       </Box>
                     </Box>
 
                     {/* SMS messages */}
                     <Box as="tr" borderTop="1px solid" borderColor="gray.200">
                       <Box as="td" p={4} fontWeight="semibold">
-                        SMS messages
+                        {t('pricing.compare.sms')}
                       </Box>
                       <Box as="td" p={4} textAlign="center">
-                        KES 3 each
+                        {t('pricing.compare.each', { price: 'KES 3' })}
                       </Box>
                       <Box as="td" p={4} textAlign="center">
                         300
@@ -442,14 +486,14 @@ export default function PricingPage() {
                         1,500
                       </Box>
                       <Box as="td" p={4} textAlign="center">
-                        Unlimited
+                        {t('pricing.compare.unlimited')}
                       </Box>
                     </Box>
 
                     {/* Custom branding */}
                     <Box as="tr" borderTop="1px solid" borderColor="gray.200">
                       <Box as="td" p={4} fontWeight="semibold">
-                        Custom branding
+                        {t('pricing.compare.branding')}
                       </Box>
                       <Box as="td" p={4} textAlign="center">
                         <Icon as={FiCheck} color="gray.300" />
@@ -473,7 +517,7 @@ export default function PricingPage() {
                     {/* API access */}
                     <Box as="tr" borderTop="1px solid" borderColor="gray.200">
                       <Box as="td" p={4} fontWeight="semibold">
-                        API access
+                        {t('pricing.compare.api')}
                       </Box>
                       <Box as="td" p={4} textAlign="center">
                         <Icon as={FiCheck} color="gray.300" />
@@ -497,7 +541,7 @@ export default function PricingPage() {
                     {/* Priority support */}
                     <Box as="tr" borderTop="1px solid" borderColor="gray.200">
                       <Box as="td" p={4} fontWeight="semibold">
-                        Priority support
+                        {t('pricing.compare.support')}
                       </Box>
                       <Box as="td" p={4} textAlign="center">
                         <Icon as={FiCheck} color="gray.300" />
@@ -529,17 +573,17 @@ export default function PricingPage() {
           <Stack gap={8} textAlign="center">
             <Stack gap={3}>
               <Heading fontSize="3xl" color={THEME.COLORS.primary}>
-                Flexible Payment Options
+                {t('pricing.paymentTitle')}
               </Heading>
               <Text fontSize="lg" color={THEME.COLORS.textSecondary}>
-                We accept all major payment methods
+                {t('pricing.paymentSubtitle')}
               </Text>
             </Stack>
 
             <Flex justify="center" gap={8} flexWrap="wrap">
               {PAYMENT_METHODS.map((method) => (
                 <Stack
-                  key={method.name}
+                  key={method.value}
                   align="center"
                   p={6}
                   bg="white"
@@ -550,7 +594,7 @@ export default function PricingPage() {
                 >
                   <Text fontSize="4xl">{method.icon}</Text>
                   <Text fontWeight="semibold" color="gray.800">
-                    {method.name}
+                    {t(`paymentMethods.${method.value}`)}
                   </Text>
                 </Stack>
               ))}
@@ -564,10 +608,10 @@ export default function PricingPage() {
             <Stack gap={8}>
               <Stack gap={3} textAlign="center">
                 <Heading fontSize="3xl" color={THEME.COLORS.primary}>
-                  Frequently Asked Questions
+                  {t('pricing.faqTitle')}
                 </Heading>
               <Text fontSize="lg" color={THEME.COLORS.textSecondary}>
-                  Everything you need to know about our pricing
+                  {t('pricing.faqSubtitle')}
                 </Text>
               </Stack>
 
@@ -576,7 +620,7 @@ export default function PricingPage() {
                   const isOpen = openFaqIndex === index;
                   return (
                     <Box
-                      key={faq.question}
+                      key={faq}
                       border="1px"
                       borderColor="gray.200"
                       borderRadius="lg"
@@ -596,7 +640,7 @@ export default function PricingPage() {
                         <Flex flex="1" textAlign="left" align="center" gap={3}>
                           <Icon as={FiHelpCircle} color={THEME.COLORS.primary} />
                           <Text fontWeight="semibold" color="gray.800">
-                            {faq.question}
+                            {t(`pricingFaq.${faq}.question`)}
                           </Text>
                         </Flex>
                         <Icon
@@ -610,7 +654,7 @@ export default function PricingPage() {
                       </Button>
                       {isOpen && (
                         <Box pb={4} px={6} pt={0} color="gray.600">
-                          {faq.answer}
+                          {t(`pricingFaq.${faq}.answer`)}
                         </Box>
                       )}
                     </Box>
@@ -625,9 +669,9 @@ export default function PricingPage() {
         <Box bg={THEME.COLORS.primary} py={20}>
           <Container maxW="container.md">
             <Stack gap={6} textAlign="center" color="white">
-              <Heading fontSize="3xl">Ready to Get Started?</Heading>
+              <Heading fontSize="3xl">{t('pricing.ctaTitle')}</Heading>
               <Text fontSize="lg" opacity={0.9}>
-                Create your first event for free. No credit card required.
+                {t('pricing.ctaText')}
               </Text>
               <Flex gap={4} justify="center" flexWrap="wrap">
                 <Link href={ROUTES.PUBLIC.REGISTER}>
@@ -646,7 +690,7 @@ export default function PricingPage() {
                     >
                       <Icon as={FiArrowRight} />
                     </Box>
-                    Start Free Trial
+                    {t('pricing.startTrial')}
                   </Button>
                 </Link>
                 <Link href={ROUTES.PUBLIC.LOGIN}>
@@ -658,7 +702,7 @@ export default function PricingPage() {
                     _hover={{ bg: 'whiteAlpha.200' }}
                     px={8}
                   >
-                    Sign In
+                    {t('pricing.signIn')}
                   </Button>
                 </Link>
               </Flex>
@@ -29,61 +29,66 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import Link from 'next/link';
-import { useState, ReactNode, useCallback, useEffect, useRef } from 'react';
+import { useState, ReactNode, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/src/contexts/AuthContext';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import { ROUTES, COUNTRY_CODES, USER_TYPES, THEME } from '@/src/lib/constants';
-import { RegisterData } from '@/src/types';
+import { LocaleContextType, RegisterData } from '@/src/types';
 import { IconType } from 'react-icons';
 import { checkEmailAvailability, checkPhoneAvailability } from '@/src/lib/auth';
+import { phoneNumberSchema, formatPhoneNumber } from '@/src/lib/validation';
+import { translate } from '@/src/lib/i18n';
 
 // ============================================================================
 // VALIDATION SCHEMA
 // ============================================================================
 
-const registerSchema = z
-  .object({
-    email: z.string().email('Please enter a valid email address').min(1, 'Email is required'),
-    password: z
-      .string()
-      .min(8, 'Password must be at least 8 characters')
-      .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-      .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-      .regex(/[0-9]/, 'Password must contain at least one number'),
-    password2: z.string().min(1, 'Please confirm your password'),
-    first_name: z.string().min(2, 'First name must be at least 2 characters').min(1, 'First name is required'),
-    last_name: z.string().min(2, 'Last name must be at least 2 characters').min(1, 'Last name is required'),
-    profile: z.object({
-      country_code: z.string().min(1, 'Country code is required'),
-      phone_number: z
+const createRegisterSchema = (t: LocaleContextType['t']) =>
+  z
+    .object({
+      email: z.string().email(t('validation.emailInvalid')).min(1, t('validation.emailRequired')),
+      password: z
         .string()
-        .min(1, 'Phone number is required')
-        .regex(/^[0-9 ]+$/, 'Phone number must contain digits (and spaces) only')
-        .min(4, 'Phone number must be at least 4 digits')
-        .max(20, 'Phone number must be at most 20 characters'),
-      user_type: z.enum(['individual', 'business'] as const),
-      company_name: z.string().optional(),
-    }),
-  })
-  .refine((data) => data.password === data.password2, {
-    message: "Passwords don't match",
-    path: ['password2'],
-  })
-  .refine(
-    (data) => {
-      if (data.profile.user_type === 'business') {
-        return data.profile.company_name && data.profile.company_name.length > 0;
+        .min(8, t('validation.passwordMin'))
+        .regex(/[A-Z]/, t('validation.passwordUppercase'))
+        .regex(/[a-z]/, t('validation.passwordLowercase'))
+        .regex(/[0-9]/, t('validation.passwordNumber')),
+      password2: z.string().min(1, t('validation.passwordConfirm')),
+      first_name: z
+        .string()
+        .min(2, t('validation.firstNameMin'))
+        .min(1, t('validation.firstNameRequired')),
+      last_name: z
+        .string()
+        .min(2, t('validation.lastNameMin'))
+        .min(1, t('validation.lastNameRequired')),
+      profile: z.object({
+        country_code: z.string().min(1, t('validation.countryCodeRequired')),
+        phone_number: phoneNumberSchema,
+        user_type: z.enum(['individual', 'business'] as const),
+        company_name: z.string().optional(),
+      }),
+    })
+    .refine((data) => data.password === data.password2, {
+      message: t('validation.passwordsMismatch'),
+      path: ['password2'],
+    })
+    .refine(
+      (data) => {
+        if (data.profile.user_type === 'business') {
+          return data.profile.company_name && data.profile.company_name.length > 0;
+        }
+        return true;
+      },
+      {
+        message: t('validation.companyNameRequired'),
+        path: ['profile', 'company_name'],
       }
-      return true;
-    },
-    {
-      message: 'Company name is required for business accounts',
-      path: ['profile', 'company_name'],
-    }
-  );
+    );
 
-type RegisterFormData = z.infer<typeof registerSchema>;
+type RegisterFormData = z.infer<ReturnType<typeof createRegisterSchema>>;
 
 // ============================================================================
 // REUSABLE COMPONENTS
@@ -204,14 +209,21 @@ const getPasswordStrength = (password: string | undefined) => {
   if (/[0-9]/.test(password)) score++;
   if (/[^A-Za-z0-9]/.test(password)) score++;
 
-  if (password.length < 8) return { label: 'Too short', color: THEME.COLORS.error, score: 1 };
-  if (score <= 3) return { label: 'Weak', color: THEME.COLORS.error, score: 2 };
-  if (score <= 4) return { label: 'Medium', color: THEME.COLORS.warning, score: 3 };
-  return { label: 'Strong', color: THEME.COLORS.success, score: 4 };
+  if (password.length < 8) {
+    return { label: translate('register.strength.tooShort'), color: THEME.COLORS.error, score: 1 };
+  }
+  if (score <= 3) {
+    return { label: translate('register.strength.weak'), color: THEME.COLORS.error, score: 2 };
+  }
+  if (score <= 4) {
+    return { label: translate('register.strength.medium'), color: THEME.COLORS.warning, score: 3 };
+  }
+  return { label: translate('register.strength.strong'), color: THEME.COLORS.success, score: 4 };
 };
 
 // Password Strength Bar Component
 const PasswordStrengthBar = ({ password }: { password: string | undefined }) => {
+  const { t } = useTranslation();
   const strength = getPasswordStrength(password);
   
   // Don't show if no password entered
@@ -232,7 +244,7 @@ const PasswordStrengthBar = ({ password }: { password: string | undefined }) =>
         ))}
       </Flex>
       <Text fontSize="xs" color={strength.color} fontWeight="medium">
-        Password strength: {strength.label}
+        {t('register.strength.label', { strength: strength.label })}
       </Text>
     </Box>
   );
@@ -336,8 +348,10 @@ export default function RegisterPage() {
   const { register: registerUser } = useAuth();
   const router = useRouter();
   const toast = useCustomToast();
+  const { t } = useTranslation();
+  const registerSchema = useMemo(() => createRegisterSchema(t), [t]);
 
-  const STEPS = ['Personal & Contact', 'Account Setup'];
+  const STEPS = [t('register.steps.personal'), t('register.steps.account')];
 
   const {
     register,
@@ -480,19 +494,19 @@ export default function RegisterPage() {
     if (step === 1 && isStepValid) {
       // Check if still checking availability
       if (emailAvailability.checking || phoneAvailability.checking) {
-        toast.warning('Please wait', 'Checking email and phone availability...');
+        toast.warning(t('register.checking'), t('register.checkingMessage'));
         return;
       }
       
       // Check if email is taken
       if (emailAvailability.available === false) {
-        toast.error('Email Already Registered', emailAvailability.message);
+        toast.error(t('register.emailTaken'), emailAvailability.message);
         return;
       }
       
       // Check if phone is taken
       if (phoneAvailability.available === false) {
-        toast.error('Phone Number Already Registered', phoneAvailability.message);
+        toast.error(t('register.phoneTaken'), phoneAvailability.message);
         return;
       }
       
@@ -502,7 +516,7 @@ export default function RegisterPage() {
         // Wait a bit for the result
         await new Promise(resolve => setTimeout(resolve, 600));
         if (emailAvailability.available === false) {
-          toast.error('Email Already Registered', emailAvailability.message);
+          toast.error(t('register.emailTaken'), emailAvailability.message);
           return;
         }
       }
@@ -511,7 +525,7 @@ export default function RegisterPage() {
         await checkPhone(watchPhoneNumber, watchCountryCode || '+254');
         await new Promise(resolve => setTimeout(resolve, 600));
         if (phoneAvailability.available === false) {
-          toast.error('Phone Number Already Registered', phoneAvailability.message);
+          toast.error(t('register.phoneTaken'), phoneAvailability.message);
           return;
         }
       }
@@ -530,8 +544,8 @@ export default function RegisterPage() {
     const now = Date.now();
     if (lastSubmitTime && now - lastSubmitTime < 5000) {
       toast.error(
-        'Please wait a moment',
-        'You are submitting too quickly. Please wait a few seconds before trying again.'
+        t('common.tooFast'),
+        t('common.tooFastMessage')
       );
       return;
     }
@@ -539,25 +553,20 @@ export default function RegisterPage() {
     setLastSubmitTime(now);
     setIsSubmitting(true);
     try {
-      let phoneNumber = data.profile.phone_number.replace(/\s+/g, '').trim();
-      if (phoneNumber.startsWith('0')) {
-        phoneNumber = phoneNumber.substring(1);
-      }
-      
       const registrationData: RegisterData = {
         ...data,
         profile: {
           ...data.profile,
-          phone_number: `${data.profile.country_code}${phoneNumber}`,
+          phone_number: formatPhoneNumber(data.profile.country_code, data.profile.phone_number),
         },
       };
 
       await registerUser(registrationData);
-      toast.success('Account Created!', 'A verification link has been sent to your email.');
+      toast.success(t('register.success'), t('register.successMessage'));
       
     } catch (error: any) {
       // Extract error message from various possible formats
-      let errorMessage = 'Unable to create account';
+      let errorMessage = t('register.errorMessage');
       
       if (error?.message) {
         errorMessage = error.message;
@@ -569,7 +578,7 @@ export default function RegisterPage() {
         errorMessage = error;
       }
       
-      toast.error('Registration Failed', errorMessage);
+      toast.error(t('register.error'), errorMessage);
     } finally {
       setIsSubmitting(false);
     }
@@ -632,10 +641,10 @@ export default function RegisterPage() {
               </Text>
             </Link>
             <Heading fontSize="xl" color="gray.800" fontWeight="bold">
-              Create Account
+              {t('register.title')}
             </Heading>
             <Text color="gray.500" fontSize="sm">
-              Step {step} of {STEPS.length}: {STEPS[step - 1]}
+              {t('register.stepOf', { step, total: STEPS.length, name: STEPS[step - 1] })}
             </Text>
           </Stack>
 
@@ -652,8 +661,8 @@ export default function RegisterPage() {
                   <Flex gap={4} direction={{ base: 'column', sm: 'row' }}>
                     <FormInput
                       icon={FiUser}
-                      label="First Name"
-                      placeholder="John"
+                      label={t('editProfile.firstName')}
+                      placeholder={t('register.firstNamePlaceholder')}
                       error={errors.first_name?.message}
                       isValid={!!watchAllFields.first_name && !errors.first_name}
                       isTouched={touchedFields.first_name}
@@ -662,8 +671,8 @@ export default function RegisterPage() {
                     />
                     <FormInput
                       icon={FiUser}
-                      label="Last Name"
-                      placeholder="Doe"
+                      label={t('editProfile.lastName')}
+                      placeholder={t('register.lastNamePlaceholder')}
                       error={errors.last_name?.message}
                       isValid={!!watchAllFields.last_name && !errors.last_name}
                       isTouched={touchedFields.last_name}
@@ -677,13 +686,13 @@ export default function RegisterPage() {
                     w="100%"
                   >
                     <Field.Label fontWeight="semibold" color="gray.700" mb={2} fontSize="sm">
-                      Email Address
+                      {t('profile.email')}
                     </Field.Label>
                     <Box position="relative" w="100%">
                       <Input
                         type="email"
                         {...register('email')}
-                        placeholder="john.doe@example.com"
+                        placeholder={t('register.emailPlaceholder')}
                         h="46px"
                         pl="1rem"
                         pr="3rem"
@@ -759,7 +768,7 @@ export default function RegisterPage() {
                   <Flex gap={3} direction={{ base: 'column', sm: 'row' }}>
                     <Field.Root invalid={!!errors.profile?.country_code} w={{ base: '100%', sm: '140px' }}>
                       <Field.Label fontWeight="semibold" color="gray.700" mb={2} fontSize="sm">
-                        Code
+                        {t('editProfile.code')}
                       </Field.Label>
                       <Box
                         as="select"
@@ -797,7 +806,7 @@ export default function RegisterPage() {
                         w="100%"
                       >
                         <Field.Label fontWeight="semibold" color="gray.700" mb={2} fontSize="sm">
-                          Phone Number
+                          {t('profile.phone')}
                         </Field.Label>
                         <Box position="relative" w="100%">
                           <Input
@@ -896,7 +905,7 @@ export default function RegisterPage() {
                 <Stack gap={4} w="100%">
                   <Field.Root invalid={!!errors.profile?.user_type}>
                     <Field.Label fontWeight="semibold" color="gray.700" mb={2} fontSize="sm">
-                      Account Type
+                      {t('profile.accountType')}
                     </Field.Label>
                     <Flex gap={3} direction={{ base: 'column', sm: 'row' }}>
                       {USER_TYPES.map((type) => (
@@ -945,7 +954,7 @@ export default function RegisterPage() {
                                 boxSize={4}
                               />
                               <Text fontWeight="semibold" color="gray.700" fontSize="sm">
-                                {type.label}
+                                {t(`common.userTypes.${type.value}`)}
                               </Text>
                             </Flex>
                           </Flex>
@@ -958,8 +967,8 @@ export default function RegisterPage() {
                   {watchUserType === 'business' && (
                     <FormInput
                       icon={FiBriefcase}
-                      label="Company Name"
-                      placeholder="Your company name"
+                      label={t('editProfile.companyName')}
+                      placeholder={t('register.companyNamePlaceholder')}
                       error={errors.profile?.company_name?.message}
                       isValid={!!watchAllFields.profile?.company_name && !errors.profile?.company_name}
                       isTouched={touchedFields.profile?.company_name}
@@ -971,8 +980,8 @@ export default function RegisterPage() {
                   <Box>
                     <FormInput
                       icon={FiLock}
-                      label="Password"
-                      placeholder="Create a strong password"
+                      label={t('auth.password')}
+                      placeholder={t('register.passwordPlaceholder')}
                       type={showPassword ? 'text' : 'password'}
                       error={touchedFields.password ? errors.password?.message : undefined}
                       isValid={!!watchAllFields.password && !errors.password}
@@ -991,8 +1000,8 @@ export default function RegisterPage() {
 
                   <FormInput
                     icon={FiLock}
-                    label="Confirm Password"
-                    placeholder="Re-enter your password"
+                    label={t('register.confirmPassword')}
+                    placeholder={t('register.confirmPasswordPlaceholder')}
                     type={showPassword2 ? 'text' : 'password'}
                     error={touchedFields.password2 ? errors.password2?.message : undefined}
                     isValid={!!watchAllFields.password2 && watchAllFields.password === watchAllFields.password2 && !errors.password2}
@@ -1028,7 +1037,7 @@ export default function RegisterPage() {
                     }}
                     fontWeight="semibold"
                   >
-                    Back
+                    {t('common.back')}
                   </Button>
                 )}
                 
@@ -1041,7 +1050,7 @@ export default function RegisterPage() {
                     h="48px"
                     flex={step === 1 ? 1 : 1}
                   >
-                    Continue
+                    {t('common.continue')}
                   </Button>
                 ) : (
                   <Button
@@ -1052,7 +1061,7 @@ export default function RegisterPage() {
                     flex={1}
                     disabled={isSubmitting}
                   >
-                    {isSubmitting ? 'Creating Account...' : 'Create Account'}
+                    {isSubmitting ? t('register.submitting') : t('register.title')}
                   </Button>
                 )}
               </Flex>
@@ -1070,7 +1079,7 @@ export default function RegisterPage() {
             borderColor="gray.200"
           >
             <Text fontSize="sm" color="gray.600">
-              Already have an account?{' '}
+              {t('register.haveAccount')}{' '}
               <Link href={ROUTES.PUBLIC.LOGIN}>
                 <Box 
                   as="span"
@@ -1081,7 +1090,7 @@ export default function RegisterPage() {
                   }}
                   cursor="pointer"
                 >
-                  Login
+                  {t('login.submit')}
                 </Box>
               </Link>
             </Text>
@@ -34,11 +34,13 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import Link from 'next/link';
 import dynamic from 'next/dynamic';
-import { useState, useEffect } from 'react';
+import { useMemo, useState, useEffect } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { confirmPasswordReset } from '@/src/lib/auth';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import { ROUTES, THEME } from '@/src/lib/constants';
+import type { LocaleContextType } from '@/src/types';
 
 const PublicNav = dynamic(() => import('@/src/components/layout/PublicNav'), {
   ssr: false,
@@ -48,22 +50,23 @@ const PublicNav = dynamic(() => import('@/src/components/layout/PublicNav'), {
 // VALIDATION SCHEMA
 // ============================================================================
 
-const resetConfirmSchema = z
-  .object({
-    password: z
-      .string()
-      .min(8, 'Password must be at least 8 characters')
-      .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-      .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-      .regex(/[0-9]/, 'Password must contain at least one number'),
-    password2: z.string().min(1, 'Please confirm your password'),
-  })
-  .refine((data) => data.password === data.password2, {
-    message: "Passwords don't match",
-    path: ['password2'],
-  });
+const createResetConfirmSchema = (t: LocaleContextType['t']) =>
+  z
+    .object({
+      password: z
+        .string()
+        .min(8, t('validation.passwordMin'))
+        .regex(/[A-Z]/, t('validation.passwordUppercase'))
+        .regex(/[a-z]/, t('validation.passwordLowercase'))
+        .regex(/[0-9]/, t('validation.passwordNumber')),
+      password2: z.string().min(1, t('validation.passwordConfirm')),
+    })
+    .refine((data) => data.password === data.password2, {
+      message: t('validation.passwordsMismatch'),
+      path: ['password2'],
+    });
 
-type ResetConfirmFormData = z.infer<typeof resetConfirmSchema>;
+type ResetConfirmFormData = z.infer<ReturnType<typeof createResetConfirmSchema>>;
 
 // ============================================================================
 // MAIN COMPONENT
@@ -81,6 +84,8 @@ export default function ResetPasswordConfirmPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const toast = useCustomToast();
+  const { t } = useTranslation();
+  const resetConfirmSchema = useMemo(() => createResetConfirmSchema(t), [t]);
 
   const {
     register,
@@ -98,12 +103,12 @@ export default function ResetPasswordConfirmPage() {
     if (!tokenParam) {
       setTokenValid(false);
       setToken(null);
-      toast.error('Invalid Reset Link', 'This password reset link is invalid or missing.');
+      toast.error(t('resetPassword.invalidLink'), t('resetPassword.missingLinkMessage'));
       return;
     }
 
     setToken(tokenParam);
-  }, [searchParams, toast]);
+  }, [searchParams, toast, t]);
 
   const [lastSubmitTime, setLastSubmitTime] = useState<number | null>(null);
 
@@ -111,15 +116,15 @@ export default function ResetPasswordConfirmPage() {
     const now = Date.now();
     if (lastSubmitTime && now - lastSubmitTime < 5000) {
       toast.error(
-        'Please wait a moment',
-        'You are submitting too quickly. Please wait a few seconds before trying again.'
+        t('common.tooFast'),
+        t('common.tooFastMessage')
       );
       return;
     }
 
     setLastSubmitTime(now);
     if (!token) {
-      toast.error('Invalid Token', 'Reset token is missing. Please request a new reset link.');
+      toast.error(t('resetPassword.invalidToken'), t('resetPassword.invalidTokenMessage'));
       return;
     }
 
@@ -127,7 +132,7 @@ export default function ResetPasswordConfirmPage() {
     try {
       await confirmPasswordReset(token, data.password, data.password2);
       setResetSuccess(true);
-      toast.success('Password Reset Successful', 'Your password has been changed successfully.');
+      toast.success(t('resetPassword.success'), t('resetPassword.successMessage'));
 
       // Wait 2 seconds then redirect to login
       setTimeout(() => {
@@ -135,7 +140,7 @@ export default function ResetPasswordConfirmPage() {
       }, 2000);
     } catch (error: any) {
       console.error('Password reset confirmation error:', error);
-      const errorMessage = error?.message || 'Unable to reset password. Please try again.';
+      const errorMessage = error?.message || t('resetPassword.errorMessage');
 
       // Check if token is expired or invalid
       if (
@@ -144,9 +149,9 @@ export default function ResetPasswordConfirmPage() {
         errorMessage.toLowerCase().includes('not found')
       ) {
         setTokenValid(false);
-        toast.error('Reset Link Expired', 'This password reset link has expired. Please request a new one.');
+        toast.error(t('resetPassword.expired'), t('resetPassword.expiredMessage'));
       } else {
-        toast.error('Reset Failed', errorMessage);
+        toast.error(t('resetPassword.error'), errorMessage);
       }
     } finally {
       setIsSubmitting(false);
@@ -180,10 +185,10 @@ export default function ResetPasswordConfirmPage() {
                   mx="auto"
                 />
                 <Heading fontSize="2xl" color="red.600">
-                  Invalid Reset Link
+                  {t('resetPassword.invalidLink')}
                 </Heading>
                 <Text color="gray.600">
-                  This password reset link is invalid or has expired.
+                  {t('resetPassword.invalidLinkText')}
                 </Text>
                 <Link href={ROUTES.PUBLIC.FORGOT_PASSWORD} style={{ width: '100%' }}>
                   <Button
@@ -191,7 +196,7 @@ export default function ResetPasswordConfirmPage() {
                     w="full"
                     size="lg"
                   >
-                    Request New Link
+                    {t('resetPassword.requestNew')}
                   </Button>
                 </Link>
               </Stack>
@@ -213,13 +218,13 @@ export default function ResetPasswordConfirmPage() {
                   />
                 </Box>
                 <Heading fontSize="2xl" color={THEME.COLORS.primary} fontWeight="bold">
-                  Password Reset Successfully
+                  {t('resetPassword.successTitle')}
                 </Heading>
                 <Text color="gray.600">
-                  Your password has been changed. You can now login with your new password.
+                  {t('resetPassword.successText')}
                 </Text>
                 <Text fontSize="sm" color="gray.500" fontStyle="italic">
-                  All existing sessions have been logged out for security.
+                  {t('resetPassword.sessionsNote')}
                 </Text>
                 <Link href={ROUTES.PUBLIC.LOGIN} style={{ width: '100%' }}>
                   <Button
@@ -227,7 +232,7 @@ export default function ResetPasswordConfirmPage() {
                     w="full"
                     size="lg"
                   >
-                    Go to Login
+                    {t('auth.goToLogin')}
                   </Button>
                 </Link>
               </Stack>
@@ -241,10 +246,10 @@ export default function ResetPasswordConfirmPage() {
                     color={THEME.COLORS.primary}
                     fontWeight="bold"
                   >
-                    Set New Password
+                    {t('resetPassword.title')}
                   </Heading>
                   <Text color="gray.600">
-                    Choose a strong password for your account
+                    {t('resetPassword.subtitle')}
                   </Text>
                 </Stack>
 
@@ -254,7 +259,7 @@ export default function ResetPasswordConfirmPage() {
                     {/* NEW PASSWORD */}
                     <Field.Root invalid={!!errors.password} w="100%">
                       <Field.Label fontWeight="semibold" color="gray.700" mb={3}>
-                        New Password
+                        {t('resetPassword.newPassword')}
                       </Field.Label>
                       <Box position="relative" w="100%">
                         <Input
@@ -277,7 +282,7 @@ export default function ResetPasswordConfirmPage() {
                         />
                         <Box position="absolute" right="0.5rem" top="50%" transform="translateY(-50%)" zIndex={2}>
                           <Button
-                            aria-label="Toggle password visibility"
+                            aria-label={t('auth.togglePassword')}
                             onClick={() => setShowPassword(!showPassword)}
                             variant="ghost"
                             size="sm"
@@ -302,7 +307,7 @@ export default function ResetPasswordConfirmPage() {
                     {/* CONFIRM PASSWORD */}
                     <Field.Root invalid={!!errors.password2} w="100%">
                       <Field.Label fontWeight="semibold" color="gray.700" mb={3}>
-                        Confirm New Password
+                        {t('resetPassword.confirmPassword')}
                       </Field.Label>
                       <Box position="relative" w="100%">
                         <Input
@@ -325,7 +330,7 @@ export default function ResetPasswordConfirmPage() {
                         />
                         <Box position="absolute" right="0.5rem" top="50%" transform="translateY(-50%)" zIndex={2}>
                           <Button
-                            aria-label="Toggle password visibility"
+                            aria-label={t('auth.togglePassword')}
                             onClick={() => setShowPassword2(!showPassword2)}
                             variant="ghost"
                             size="sm"
@@ -366,7 +371,7 @@ export default function ResetPasswordConfirmPage() {
                         alignItems="center"
                         gap={1}
                       >
-                        Password Requirements
+                        {t('auth.requirements.title')}
                         {showRequirements ? <FiChevronUp /> : <FiChevronDown />}
                       </Button>
                       <Collapsible.Root open={showRequirements}>
@@ -380,10 +385,10 @@ export default function ResetPasswordConfirmPage() {
                             borderColor={THEME.COLORS.primary}
                           >
                             <Stack gap={1.5} color="gray.700">
-                              <Text fontSize="sm">• At least 8 characters</Text>
-                              <Text fontSize="sm">• One uppercase letter</Text>
-                              <Text fontSize="sm">• One lowercase letter</Text>
-                              <Text fontSize="sm">• One number</Text>
+                              <Text fontSize="sm">• {t('auth.requirements.length')}</Text>
+                              <Text fontSize="sm">• {t('auth.requirements.uppercase')}</Text>
+                              <Text fontSize="sm">• {t('auth.requirements.lowercase')}</Text>
+                              <Text fontSize="sm">• {t('auth.requirements.number')}</Text>
                             </Stack>
                           </Box>
                         </Collapsible.Content>
@@ -397,7 +402,7 @@ export default function ResetPasswordConfirmPage() {
                       size="lg"
                       disabled={isSubmitting} {...THEME.BUTTON_STYLES.primaryButton}
                     >
-                      Reset Password
+                      {t('resetPassword.submit')}
                     </Button>
                   </Stack>
                 </form>
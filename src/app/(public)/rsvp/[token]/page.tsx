@@ -0,0 +1,385 @@
+/**
+ * Guest RSVP Page Component
+ *
+ * Opened by guests from the personal link in their invitation. Works
+ * without an account - the token in the URL identifies the guest and
+ * all requests go through the unauthenticated publicApiClient.
+ *
+ * Features:
+ * - Event name, date, time and location from the invitation
+ * - Accept or decline with party size and an optional message
+ * - Guests can change their answer while the event accepts responses
+ * - Attending guests get a QR entry pass for check-in at the venue
+ *
+ * @module RsvpPage
+ */
+
+'use client';
+
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Icon,
+  Spinner,
+  Flex,
+  Field,
+  Textarea,
+} from '@chakra-ui/react';
+import {
+  FiAlertCircle,
+  FiCalendar,
+  FiCheckCircle,
+  FiClock,
+  FiMapPin,
+  FiXCircle,
+} from 'react-icons/fi';
+import dynamic from 'next/dynamic';
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { getRsvpByToken, respondToRsvp } from '@/src/lib/rsvps';
+import { formatEventDate, formatEventTime, getEventTypeIcon } from '@/src/lib/events';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import CheckInPass from '@/src/components/checkin/CheckInPass';
+import { THEME } from '@/src/lib/constants';
+import type { ApiError, PublicRsvpInvitation, RsvpResponseData } from '@/src/types';
+
+const PublicNav = dynamic(() => import('@/src/components/layout/PublicNav'), {
+  ssr: false,
+});
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type PageStatus = 'loading' | 'form' | 'submitted' | 'invalid';
+
+type Answer = RsvpResponseData['status'];
+
+const MAX_MESSAGE_LENGTH = 500;
+
+const focusStyle = {
+  borderColor: THEME.COLORS.primary,
+  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+  outline: 'none',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export default function RsvpPage() {
+  const [status, setStatus] = useState<PageStatus>('loading');
+  const [invitation, setInvitation] = useState<PublicRsvpInvitation | null>(null);
+  const [answer, setAnswer] = useState<Answer | null>(null);
+  const [partySize, setPartySize] = useState<number>(1);
+  const [message, setMessage] = useState('');
+  // API error message; the not-found and fallback messages are translated on render
+  const [errorMessage, setErrorMessage] = useState('');
+  const [notFound, setNotFound] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const params = useParams();
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+
+  const token = (params as { token: string }).token;
+
+  // Load the invitation behind the token
+  useEffect(() => {
+    const loadInvitation = async () => {
+      try {
+        const data = await getRsvpByToken(token);
+        setInvitation(data);
+        if (data.status === 'attending' || data.status === 'declined') {
+          setAnswer(data.status);
+        }
+        setPartySize(1 + data.plus_ones);
+        setMessage(data.message || '');
+        setStatus(data.responded_at ? 'submitted' : 'form');
+      } catch (error) {
+        const apiError = error as ApiError;
+        setNotFound(apiError?.status === 404);
+        setErrorMessage(apiError?.message || '');
+        setStatus('invalid');
+      }
+    };
+
+    loadInvitation();
+  }, [token]);
+
+  const handleSubmit = async () => {
+    if (!invitation || !answer) return;
+    setIsSubmitting(true);
+    try {
+      const updated = await respondToRsvp(token, {
+        status: answer,
+        plus_ones: answer === 'attending' ? partySize - 1 : 0,
+        message: message.trim() || undefined,
+      });
+      setInvitation(updated);
+      setStatus('submitted');
+      toast.success(
+        t('rsvpPage.sent'),
+        answer === 'attending' ? t('rsvpPage.sentAttending') : t('rsvpPage.sentDeclined')
+      );
+    } catch (error) {
+      toast.error(
+        t('rsvpPage.sendError'),
+        (error as ApiError)?.message || t('rsvpPage.sendErrorMessage')
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const event = invitation?.event;
+  const partySizeOptions = invitation
+    ? Array.from({ length: invitation.plus_ones_allowed + 1 }, (_, index) => index + 1)
+    : [];
+
+  return (
+    <>
+      <PublicNav />
+
+      <Box minH="calc(100vh - 70px)" bg={THEME.COLORS.background} py={12}>
+        <Container maxW="lg">
+          {/* LOADING STATE */}
+          {status === 'loading' && (
+            <Flex justify="center" py={20}>
+              <Spinner size="xl" color={THEME.COLORS.primary} />
+            </Flex>
+          )}
+
+          {/* INVALID LINK STATE */}
+          {status === 'invalid' && (
+            <Box bg="white" borderRadius="xl" boxShadow="md" p={8} textAlign="center">
+              <Stack gap={6} align="center">
+                <Box bg="orange.50" borderRadius="full" p={4}>
+                  <Icon as={FiAlertCircle} w={16} h={16} color="orange.500" />
+                </Box>
+                <Heading fontSize="2xl" color="orange.600">
+                  {t('rsvpPage.notFound')}
+                </Heading>
+                <Text color="gray.600">
+                  {notFound
+                    ? t('rsvpPage.invalidLink')
+                    : errorMessage || t('rsvpPage.loadErrorMessage')}
+                </Text>
+              </Stack>
+            </Box>
+          )}
+
+          {invitation && event && (status === 'form' || status === 'submitted') && (
+            <Stack gap={6}>
+              {/* INVITATION CARD */}
+              <Box bg="white" borderRadius="xl" boxShadow="md" overflow="hidden">
+                <Box bg={THEME.COLORS.primary} color="white" p={8} textAlign="center">
+                  <Text fontSize="4xl">{getEventTypeIcon(event.event_type)}</Text>
+                  <Text fontSize="sm" opacity={0.9} mt={2}>
+                    {t('rsvpPage.invited', { name: invitation.guest_name })}
+                  </Text>
+                  <Heading fontSize="2xl" mt={1}>
+                    {event.event_name}
+                  </Heading>
+                  <Text fontSize="sm" opacity={0.9} mt={1}>
+                    {t('rsvpPage.hostedBy', { name: invitation.host_name })}
+                  </Text>
+                </Box>
+                <Stack gap={3} p={6}>
+                  <Flex align="center" gap={3} color="gray.700">
+                    <Icon as={FiCalendar} color={THEME.COLORS.primary} />
+                    <Text>{formatEventDate(event.event_date)}</Text>
+                  </Flex>
+                  <Flex align="center" gap={3} color="gray.700">
+                    <Icon as={FiClock} color={THEME.COLORS.primary} />
+                    <Text>{formatEventTime(event.event_time)}</Text>
+                  </Flex>
+                  <Flex align="center" gap={3} color="gray.700">
+                    <Icon as={FiMapPin} color={THEME.COLORS.primary} />
+                    <Text>{event.event_location}</Text>
+                  </Flex>
+                  {event.event_description && (
+                    <Text fontSize="sm" color="gray.600" whiteSpace="pre-wrap" pt={2}>
+                      {event.event_description}
+                    </Text>
+                  )}
+                </Stack>
+              </Box>
+
+              {/* SUBMITTED STATE */}
+              {status === 'submitted' && (
+                <Box bg="white" borderRadius="xl" boxShadow="md" p={8} textAlign="center">
+                  <Stack gap={4} align="center">
+                    <Box
+                      bg={invitation.status === 'attending' ? 'green.50' : 'red.50'}
+                      borderRadius="full"
+                      p={4}
+                    >
+                      <Icon
+                        as={invitation.status === 'attending' ? FiCheckCircle : FiXCircle}
+                        w={12}
+                        h={12}
+                        color={invitation.status === 'attending' ? 'green.500' : 'red.500'}
+                      />
+                    </Box>
+                    <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                      {invitation.status === 'attending'
+                        ? invitation.plus_ones > 0
+                          ? t('rsvpPage.attendingWith', { count: invitation.plus_ones })
+                          : t('rsvpPage.attending')
+                        : invitation.status === 'declined'
+                        ? t('rsvpPage.declined')
+                        : t('rsvpPage.recorded')}
+                    </Heading>
+                    {invitation.message && (
+                      <Text fontSize="sm" color="gray.600" fontStyle="italic">
+                        &ldquo;{invitation.message}&rdquo;
+                      </Text>
+                    )}
+                    {invitation.accepting_responses ? (
+                      <Button
+                        {...THEME.BUTTON_STYLES.secondaryButton}
+                        variant="outline"
+                        onClick={() => setStatus('form')}
+                      >
+                        {t('rsvpPage.change')}
+                      </Button>
+                    ) : (
+                      <Text fontSize="sm" color="gray.500">
+                        {t('rsvpPage.closed')}
+                      </Text>
+                    )}
+                  </Stack>
+                </Box>
+              )}
+
+              {/* ENTRY PASS */}
+              {status === 'submitted' && invitation.status === 'attending' && (
+                <CheckInPass token={invitation.check_in_token} guestName={invitation.guest_name} />
+              )}
+
+              {/* RESPONSE FORM */}
+              {status === 'form' &&
+                (invitation.accepting_responses ? (
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={8}>
+                    <Stack gap={6}>
+                      <Heading fontSize="xl" color={THEME.COLORS.primary} textAlign="center">
+                        {t('rsvpPage.question')}
+                      </Heading>
+
+                      <Flex gap={4}>
+                        <Button
+                          flex={1}
+                          size="lg"
+                          variant="outline"
+                          borderWidth="2px"
+                          borderColor={answer === 'attending' ? THEME.COLORS.success : 'gray.200'}
+                          bg={answer === 'attending' ? 'green.50' : 'white'}
+                          color={answer === 'attending' ? 'green.700' : 'gray.700'}
+                          onClick={() => setAnswer('attending')}
+                        >
+                          <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                            <Icon as={FiCheckCircle} />
+                          </Box>
+                          {t('rsvpPage.accept')}
+                        </Button>
+                        <Button
+                          flex={1}
+                          size="lg"
+                          variant="outline"
+                          borderWidth="2px"
+                          borderColor={answer === 'declined' ? THEME.COLORS.error : 'gray.200'}
+                          bg={answer === 'declined' ? 'red.50' : 'white'}
+                          color={answer === 'declined' ? 'red.700' : 'gray.700'}
+                          onClick={() => setAnswer('declined')}
+                        >
+                          <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                            <Icon as={FiXCircle} />
+                          </Box>
+                          {t('rsvpPage.decline')}
+                        </Button>
+                      </Flex>
+
+                      {answer === 'attending' && invitation.plus_ones_allowed > 0 && (
+                        <Field.Root>
+                          <Field.Label fontWeight="semibold" color="gray.700">
+                            {t('rsvpPage.partySize')}
+                          </Field.Label>
+                          <select
+                            value={partySize}
+                            onChange={(e) => setPartySize(Number(e.target.value))}
+                            style={{
+                              width: '100%',
+                              height: 40,
+                              padding: '0 0.75rem',
+                              borderRadius: 6,
+                              border: '1px solid #E2E8F0',
+                              backgroundColor: 'white',
+                              fontSize: 14,
+                              cursor: 'pointer',
+                            }}
+                          >
+                            {partySizeOptions.map((size) => (
+                              <option key={size} value={size}>
+                                {size === 1 ? t('rsvpPage.justMe') : t('rsvpPage.people', { count: size })}
+                              </option>
+                            ))}
+                          </select>
+                        </Field.Root>
+                      )}
+
+                      {answer && (
+                        <Field.Root>
+                          <Field.Label fontWeight="semibold" color="gray.700">
+                            {t('rsvpPage.message')}
+                          </Field.Label>
+                          <Textarea
+                            value={message}
+                            onChange={(e) => setMessage(e.target.value.slice(0, MAX_MESSAGE_LENGTH))}
+                            placeholder={
+                              answer === 'attending'
+                                ? t('rsvpPage.attendingPlaceholder')
+                                : t('rsvpPage.declinedPlaceholder')
+                            }
+                            rows={3}
+                            borderRadius="md"
+                            borderColor="gray.200"
+                            _focus={focusStyle}
+                          />
+                          <Field.HelperText>
+                            {message.length}/{MAX_MESSAGE_LENGTH}
+                          </Field.HelperText>
+                        </Field.Root>
+                      )}
+
+                      <Button
+                        {...THEME.BUTTON_STYLES.primaryButton}
+                        size="lg"
+                        w="full"
+                        disabled={!answer}
+                        loading={isSubmitting}
+                        onClick={handleSubmit}
+                      >
+                        {t('rsvpPage.submit')}
+                      </Button>
+                    </Stack>
+                  </Box>
+                ) : (
+                  <Box bg="white" borderRadius="xl" boxShadow="md" p={8} textAlign="center">
+                    <Text color="gray.600">
+                      {t('rsvpPage.closed')}
+                    </Text>
+                  </Box>
+                ))}
+            </Stack>
+          )}
+        </Container>
+      </Box>
+    </>
+  );
+}
@@ -4,6 +4,7 @@ import { Box, Container, Heading, Text, Stack, Button, Icon } from '@chakra-ui/r
 import { FiLock, FiLogIn, FiHome } from 'react-icons/fi';
 import Link from 'next/link';
 import { ROUTES, THEME } from '@/src/lib/constants';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 
 /**
  * Unauthorized Access Page Component
@@ -12,6 +13,8 @@ import { ROUTES, THEME } from '@/src/lib/constants';
  * Provides clear messaging and actions to either login or return to the homepage.
  */
 export default function UnauthorizedPage() {
+  const { t } = useTranslation();
+
   return (
     <>
       <Box
@@ -42,16 +45,16 @@ export default function UnauthorizedPage() {
                 fontSize={{ base: '2xl', md: '3xl' }}
                 color={THEME.COLORS.primary}
               >
-                Access Denied
+                {t('errorPages.unauthorized.title')}
               </Heading>
 
               {/* MESSAGE */}
               <Stack gap={3} maxW="lg">
                 <Text color="gray.600" fontSize="md">
-                  You don&apos;t have permission to access this page.
+                  {t('errorPages.unauthorized.message')}
                 </Text>
                 <Text color="gray.600">
-                  If you believe this is an error, please contact support or try logging in again.
+                  {t('errorPages.unauthorized.help')}
                 </Text>
               </Stack>
 
@@ -76,7 +79,7 @@ export default function UnauthorizedPage() {
                     >
                       <FiLogIn size={18} />
                     </Box>
-                    Login
+                    {t('publicNav.login')}
                   </Button>
                 </Link>
 
@@ -95,14 +98,14 @@ export default function UnauthorizedPage() {
                     >
                       <FiHome size={18} />
                     </Box>
-                    Go to Homepage
+                    {t('errorPages.goHome')}
                   </Button>
                 </Link>
               </Stack>
 
               {/* COPYRIGHT */}
               <Text mt={12} mb={4} color="gray.400" fontSize="sm">
-                © 2025 Ekadi Platform. All rights reserved.
+                {t('common.copyright')}
               </Text>
             </Stack>
         </Container>
@@ -29,6 +29,7 @@ import { useState } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { resendVerification } from '@/src/lib/auth';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import { ROUTES, THEME } from '@/src/lib/constants';
 
 const PublicNav = dynamic(() => import('@/src/components/layout/PublicNav'), {
@@ -43,14 +44,15 @@ export default function EmailVerificationSentPage() {
   const [isResending, setIsResending] = useState(false);
   const searchParams = useSearchParams();
   const toast = useCustomToast();
+  const { t } = useTranslation();
 
   const email = searchParams.get('email') || '';
 
   const handleResend = async () => {
     if (!email) {
       toast.error(
-        'Email Not Available',
-        'Please use the registration page to create a new account if you need a verification email.'
+        t('verifyEmailSent.noEmail'),
+        t('verifyEmailSent.noEmailMessage')
       );
       return;
     }
@@ -58,12 +60,12 @@ export default function EmailVerificationSentPage() {
     setIsResending(true);
     try {
       await resendVerification(email);
-      toast.success('Verification email sent!', 'Please check your inbox for the verification link.');
+      toast.success(t('verifyEmailSent.resent'), t('verifyEmailSent.resentMessage'));
     } catch (error: any) {
       console.error('Resend verification error:', error);
       toast.error(
-        'Failed to Resend',
-        error?.message || 'Unable to resend verification email. Please try again later.'
+        t('verifyEmailSent.resendError'),
+        error?.message || t('verifyEmailSent.resendErrorMessage')
       );
     } finally {
       setIsResending(false);
@@ -108,16 +110,16 @@ export default function EmailVerificationSentPage() {
                 color={THEME.COLORS.primary}
                 fontWeight="bold"
               >
-                Check Your Email
+                {t('forgotPassword.checkEmail')}
               </Heading>
 
               {/* MESSAGE */}
               <Stack gap={3}>
                 <Text color="gray.600" fontSize="lg">
-                  Email verification link sent
+                  {t('verifyEmailSent.subtitle')}
                 </Text>
                 <Text color="gray.600">
-                  Please check your email inbox and click the verification link to activate your account.
+                  {t('verifyEmailSent.text')}
                 </Text>
               </Stack>
 
@@ -132,14 +134,14 @@ export default function EmailVerificationSentPage() {
                 textAlign="left"
               >
                 <Text fontSize="sm" color="gray.700">
-                  The verification link will expire in 24 hours.
+                  {t('verifyEmailSent.expiry')}
                 </Text>
               </Box>
 
               {/* RESEND SECTION */}
               <Stack gap={3} w="full">
                 <Text color="gray.600" fontSize="sm">
-                  Didn't receive the email?
+                  {t('verifyEmailSent.notReceived')}
                 </Text>
 
                 <Button
@@ -154,13 +156,13 @@ export default function EmailVerificationSentPage() {
                   gap={2}
                 >
                   <FiRefreshCw />
-                  Resend Verification Email
+                  {t('verifyEmailSent.resend')}
                 </Button>
               </Stack>
 
               {/* LOGIN LINK */}
               <Text fontSize="sm" color="gray.600" mt={4}>
-                Already verified?{' '}
+                {t('verifyEmailSent.alreadyVerified')}{' '}
                 <ChakraLink
                   as={Link}
                   href={ROUTES.PUBLIC.LOGIN}
@@ -168,7 +170,7 @@ export default function EmailVerificationSentPage() {
                   fontWeight="semibold"
                   _hover={{ textDecoration: 'underline' }}
                 >
-                  Login here
+                  {t('verifyEmailSent.loginHere')}
                 </ChakraLink>
               </Text>
             </Stack>
@@ -31,6 +31,7 @@ import { useState, useEffect, useRef } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { verifyEmail } from '@/src/lib/auth';
 import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import { ROUTES, THEME } from '@/src/lib/constants';
 
 const PublicNav = dynamic(() => import('@/src/components/layout/PublicNav'), {
@@ -55,6 +56,7 @@ export default function VerifyEmailPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const toast = useCustomToast();
+  const { t } = useTranslation();
   
   // Ref to prevent duplicate verification calls
   const hasVerifiedRef = useRef(false);
@@ -70,8 +72,8 @@ export default function VerifyEmailPage() {
 
     if (!token) {
       setStatus('error');
-      setMessage('Invalid verification link. Please check your email and try again.');
-      toast.error('Verification Failed', 'Invalid verification link.');
+      setMessage(t('verifyEmail.invalidLinkText'));
+      toast.error(t('verifyEmail.error'), t('verifyEmail.invalidLink'));
       hasVerifiedRef.current = true; // Mark as processed even for error case
       return;
     }
@@ -83,24 +85,24 @@ export default function VerifyEmailPage() {
       try {
         const response = await verifyEmail(token);
         setStatus('success');
-        setMessage(response.message || 'Your email has been successfully verified!');
-        toast.success('Email Verified!', 'You can now log in to your account.');
+        setMessage(response.message || t('verifyEmail.successText'));
+        toast.success(t('verifyEmail.success'), t('verifyEmail.successMessage'));
       } catch (error: any) {
         console.error('Verification error:', error);
-        const errorMessage = error?.message || 'Unable to verify email. Please try again.';
+        const errorMessage = error?.message || t('verifyEmail.errorMessage');
         
         // Check if token is expired
         if (errorMessage.toLowerCase().includes('expired') || 
             errorMessage.toLowerCase().includes('invalid') ||
             errorMessage.toLowerCase().includes('not found')) {
           setStatus('expired');
-          setMessage('Your verification link has expired. Please request a new one.');
+          setMessage(t('verifyEmail.expiredText'));
         } else {
           setStatus('error');
           setMessage(errorMessage);
         }
         
-        toast.error('Verification Failed', errorMessage);
+        toast.error(t('verifyEmail.error'), errorMessage);
       }
     };
 
@@ -149,10 +151,10 @@ export default function VerifyEmailPage() {
                     color={THEME.COLORS.primary}
                   />
                   <Heading fontSize="xl" color="gray.700">
-                    Verifying Your Email...
+                    {t('verifyEmail.verifying')}
                   </Heading>
                   <Text color="gray.600">
-                    Please wait while we verify your account
+                    {t('verifyEmail.verifyingText')}
                   </Text>
                 </>
               )}
@@ -173,13 +175,13 @@ export default function VerifyEmailPage() {
                     />
                   </Box>
                   <Heading fontSize="2xl" color={THEME.COLORS.primary}>
-                    Email Verified!
+                    {t('verifyEmail.success')}
                   </Heading>
                   <Text color="gray.600" fontSize="lg">
                     {message}
                   </Text>
                   <Text color="gray.500" fontSize="sm">
-                    Redirecting to login in {countdown} seconds...
+                    {t('verifyEmail.redirecting', { count: countdown })}
                   </Text>
                   <Link href={ROUTES.PUBLIC.LOGIN} style={{ width: '100%' }}>
                     <Button
@@ -187,7 +189,7 @@ export default function VerifyEmailPage() {
                       w="full"
                       size="lg"
                     >
-                      Go to Login Now
+                      {t('verifyEmail.goToLoginNow')}
                     </Button>
                   </Link>
                 </>
@@ -209,7 +211,7 @@ export default function VerifyEmailPage() {
                     />
                   </Box>
                   <Heading fontSize="2xl" color="red.600">
-                    Verification Failed
+                    {t('verifyEmail.error')}
                   </Heading>
                   <Text color="gray.600">
                     {message}
@@ -221,7 +223,7 @@ export default function VerifyEmailPage() {
                       w="full"
                       size="lg"
                     >
-                      Back to Login
+                      {t('auth.backToLogin')}
                     </Button>
                   </Link>
                 </>
@@ -243,10 +245,10 @@ export default function VerifyEmailPage() {
                     />
                   </Box>
                   <Heading fontSize="2xl" color="orange.600">
-                    Link Expired
+                    {t('verifyEmail.expired')}
                   </Heading>
                   <Text color="gray.600">
-                    Your verification link has expired. Please request a new one.
+                    {t('verifyEmail.expiredText')}
                   </Text>
                   <Stack direction="row" gap={4} w="full">
                     <Link href={`${ROUTES.PUBLIC.EMAIL_SENT}?resend=true`} style={{ flex: 1 }}>
@@ -255,7 +257,7 @@ export default function VerifyEmailPage() {
                         flex={1}
                         size="lg"
                       >
-                        Resend Link
+                        {t('verifyEmail.resend')}
                       </Button>
                     </Link>
                     <Link href={ROUTES.PUBLIC.LOGIN} style={{ flex: 1 }}>
@@ -265,7 +267,7 @@ export default function VerifyEmailPage() {
                         flex={1}
                         size="lg"
                       >
-                        Back to Login
+                        {t('auth.backToLogin')}
                       </Button>
                     </Link>
                   </Stack>
@@ -0,0 +1,23 @@
+/**
+ * Mock M-Pesa STK push endpoint
+ *
+ * POST /api/mock-payments/payments/mpesa/stk-push/
+ */
+
+import { NextResponse } from 'next/server';
+import { createMockTransaction, isMockPaymentsEnabled } from '../../../store';
+import type { MpesaCheckoutPayload } from '@/src/types';
+
+export async function POST(request: Request) {
+  if (!isMockPaymentsEnabled()) {
+    return NextResponse.json({ detail: 'Not found.' }, { status: 404 });
+  }
+
+  const payload = (await request.json().catch(() => ({}))) as Partial<MpesaCheckoutPayload>;
+  const result = createMockTransaction(payload);
+
+  if ('error' in result) {
+    return NextResponse.json({ detail: result.error }, { status: 400 });
+  }
+  return NextResponse.json(result, { status: 201 });
+}
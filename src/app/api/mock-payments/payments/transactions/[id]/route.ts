@@ -0,0 +1,22 @@
+/**
+ * Mock payment transaction status endpoint
+ *
+ * GET /api/mock-payments/payments/transactions/:id/
+ */
+
+import { NextResponse } from 'next/server';
+import { getMockTransaction, isMockPaymentsEnabled } from '../../../store';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  if (!isMockPaymentsEnabled()) {
+    return NextResponse.json({ detail: 'Not found.' }, { status: 404 });
+  }
+
+  const { id } = await params;
+  const transaction = getMockTransaction(id);
+
+  if (!transaction) {
+    return NextResponse.json({ detail: 'Transaction not found.' }, { status: 404 });
+  }
+  return NextResponse.json(transaction);
+}
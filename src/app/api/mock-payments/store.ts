@@ -0,0 +1,155 @@
+/**
+ * Mock Payments Store
+ *
+ * In-memory M-Pesa transactions for the local mock payments endpoint
+ * (NEXT_PUBLIC_PAYMENTS_API_URL=/api/mock-payments). Not available in
+ * production builds.
+ *
+ * The last digit of the phone number picks the outcome:
+ * - 1: cancelled on the phone
+ * - 2: insufficient funds
+ * - 3: never answered (times out)
+ * - anything else: paid after a few seconds
+ *
+ * @module mockPaymentsStore
+ */
+
+import { PRICING_PLANS } from '@/src/lib/constants';
+import type {
+  BillingCycle,
+  MpesaCheckoutPayload,
+  PaymentStatus,
+  PaymentTransaction,
+} from '@/src/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Seconds before an unanswered prompt expires */
+const PROMPT_TIMEOUT_SECONDS = 75;
+
+/** Seconds before the simulated customer answers the prompt */
+const ANSWER_DELAY_SECONDS = 8;
+
+const PLAN_PRICES: Record<string, Record<BillingCycle, number | null>> = {
+  starter: { monthly: PRICING_PLANS.STARTER.price, annual: PRICING_PLANS.STARTER.annualPrice },
+  professional: {
+    monthly: PRICING_PLANS.PROFESSIONAL.price,
+    annual: PRICING_PLANS.PROFESSIONAL.annualPrice,
+  },
+  enterprise: {
+    monthly: PRICING_PLANS.ENTERPRISE.price,
+    annual: PRICING_PLANS.ENTERPRISE.annualPrice,
+  },
+};
+
+const RESULT_DESCRIPTIONS: Record<Exclude<PaymentStatus, 'pending'>, string> = {
+  success: 'The service request is processed successfully.',
+  cancelled: 'Request cancelled by user',
+  insufficient_funds: 'The balance is insufficient for the transaction',
+  timeout: 'DS timeout user cannot be reached',
+  failed: 'The transaction failed',
+};
+
+// Keep transactions across hot reloads in development
+const globalStore = globalThis as typeof globalThis & {
+  mockPaymentTransactions?: Map<string, PaymentTransaction>;
+};
+const transactions = (globalStore.mockPaymentTransactions ??= new Map());
+
+// ============================================================================
+// STORE FUNCTIONS
+// ============================================================================
+
+/**
+ * Check whether the mock endpoint is enabled
+ *
+ * @returns False in production
+ */
+export const isMockPaymentsEnabled = (): boolean => {
+  return process.env.NODE_ENV !== 'production';
+};
+
+/**
+ * Create a pending transaction for a checkout request
+ *
+ * @param payload - Checkout request body
+ * @returns The new transaction, or an error message if the request is invalid
+ */
+export const createMockTransaction = (
+  payload: Partial<MpesaCheckoutPayload>
+): PaymentTransaction | { error: string } => {
+  if (!payload.phone_number || !/^\+254\d{9}$/.test(payload.phone_number)) {
+    return { error: 'Enter a valid Safaricom phone number.' };
+  }
+
+  const billingCycle: BillingCycle = payload.billing_cycle === 'annual' ? 'annual' : 'monthly';
+  const amount =
+    payload.purpose === 'subscription'
+      ? PLAN_PRICES[payload.plan ?? '']?.[billingCycle] ?? null
+      : payload.amount;
+  if (payload.purpose !== 'subscription' && payload.purpose !== 'topup') {
+    return { error: 'Unknown payment purpose.' };
+  }
+  if (!amount || amount <= 0) {
+    return { error: 'This payment has no amount to charge.' };
+  }
+
+  const now = Date.now();
+  const transaction: PaymentTransaction = {
+    id: `mock_${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    purpose: payload.purpose,
+    plan: payload.purpose === 'subscription' ? payload.plan ?? null : null,
+    billing_cycle: payload.purpose === 'subscription' ? billingCycle : null,
+    amount,
+    currency: 'KES',
+    phone_number: payload.phone_number,
+    status: 'pending',
+    result_description: null,
+    mpesa_receipt: null,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + PROMPT_TIMEOUT_SECONDS * 1000).toISOString(),
+  };
+
+  transactions.set(transaction.id, transaction);
+  return transaction;
+};
+
+/**
+ * Get a transaction, resolving it once the simulated customer has answered
+ *
+ * @param id - Transaction ID
+ * @returns The transaction, or null if unknown
+ */
+export const getMockTransaction = (id: string): PaymentTransaction | null => {
+  const transaction = transactions.get(id);
+  if (!transaction || transaction.status !== 'pending') {
+    return transaction ?? null;
+  }
+
+  const now = Date.now();
+  const elapsed = (now - new Date(transaction.created_at).getTime()) / 1000;
+  const lastDigit = transaction.phone_number.slice(-1);
+
+  let status: PaymentStatus = 'pending';
+  if (now >= new Date(transaction.expires_at).getTime()) {
+    status = 'timeout';
+  } else if (elapsed >= ANSWER_DELAY_SECONDS && lastDigit !== '3') {
+    status = lastDigit === '1' ? 'cancelled' : lastDigit === '2' ? 'insufficient_funds' : 'success';
+  }
+
+  if (status === 'pending') {
+    return transaction;
+  }
+
+  const resolved: PaymentTransaction = {
+    ...transaction,
+    status,
+    result_description: RESULT_DESCRIPTIONS[status],
+    mpesa_receipt:
+      status === 'success' ? `MCK${Math.random().toString(36).slice(2, 9).toUpperCase()}` : null,
+  };
+  transactions.set(id, resolved);
+  return resolved;
+};
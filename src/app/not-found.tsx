@@ -4,6 +4,7 @@ import { Box, Container, Heading, Text, Stack, Button, Icon } from '@chakra-ui/r
 import { FiHome, FiArrowLeft, FiSearch } from 'react-icons/fi';
 import Link from 'next/link';
 import { ROUTES, THEME } from '@/src/lib/constants';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 
 /**
  * 404 Not Found Page Component
@@ -21,6 +22,8 @@ import { ROUTES, THEME } from '@/src/lib/constants';
  * @returns 404 error page component
  */
 export default function NotFoundPage() {
+  const { t } = useTranslation();
+
   return (
     <>
       <Box
@@ -52,12 +55,12 @@ export default function NotFoundPage() {
               fontSize={{ base: '2xl', md: '3xl' }}
               color="gray.800"
             >
-              Page Not Found
+              {t('errorPages.notFound.title')}
             </Heading>
 
             {/* MESSAGE */}
             <Text color="gray.600" fontSize="md" maxW="md">
-              Oops! The page you're looking for doesn't exist. It might have been moved or deleted.
+              {t('errorPages.notFound.message')}
             </Text>
 
             {/* ACTION BUTTONS */}
@@ -71,7 +74,7 @@ export default function NotFoundPage() {
               <Link href={ROUTES.PUBLIC.HOME} style={{ width: '100%' }}>
                 <Button w="full" {...THEME.BUTTON_STYLES.primaryButton}>
                   <Icon as={FiHome} mr={2} />
-                  Go to Homepage
+                  {t('errorPages.goHome')}
                 </Button>
               </Link>
 
@@ -83,13 +86,13 @@ export default function NotFoundPage() {
                 variant="outline"
               >
                 <Icon as={FiArrowLeft} mr={2} />
-                Go Back
+                {t('errorPages.goBack')}
               </Button>
             </Stack>
 
             {/* COPYRIGHT AT THE BOTTOM */}
             <Text mt={12} mb={4} color="gray.400" fontSize="sm">
-              © 2025 Ekadi Platform. All rights reserved.
+              {t('common.copyright')}
             </Text>
           </Stack>
         </Container>
@@ -45,6 +45,7 @@ import dynamic from 'next/dynamic';
 import { ReactNode } from 'react';
 import { IconType } from 'react-icons';
 import { ROUTES, THEME } from '@/src/lib/constants';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 
 // Defer nav/footer loading
 const PublicNav = dynamic(() => import('@/src/components/layout/PublicNav'), {
@@ -256,72 +257,76 @@ const TimelineStep = ({ step, icon, title, description, isLast }: StepCardProps)
 /**
  * Testimonial Card
  */
-const TestimonialCard = ({ name, role, company, content, rating }: TestimonialCardProps) => (
-  <Box
-    p={{ base: 6, md: 8 }}
-    bg="white"
-    borderRadius="2xl"
-    boxShadow="0 4px 20px rgba(0, 0, 0, 0.06)"
-    border="1px solid"
-    borderColor="gray.100"
-    position="relative"
-    _hover={{
-      boxShadow: "0 12px 40px rgba(0, 128, 128, 0.12)",
-      transform: "translateY(-4px)",
-    }}
-    transition="all 0.3s ease"
-    h="full"
-  >
-    {/* Quote decoration */}
-    <Text
-      position="absolute"
-      top={4}
-      right={6}
-      fontSize="6xl"
-      fontWeight="bold"
-      color={`${THEME.COLORS.primary}15`}
-      lineHeight={1}
-      fontFamily="Georgia, serif"
+const TestimonialCard = ({ name, role, company, content, rating }: TestimonialCardProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <Box
+      p={{ base: 6, md: 8 }}
+      bg="white"
+      borderRadius="2xl"
+      boxShadow="0 4px 20px rgba(0, 0, 0, 0.06)"
+      border="1px solid"
+      borderColor="gray.100"
+      position="relative"
+      _hover={{
+        boxShadow: "0 12px 40px rgba(0, 128, 128, 0.12)",
+        transform: "translateY(-4px)",
+      }}
+      transition="all 0.3s ease"
+      h="full"
     >
-      "
-    </Text>
-    
-    <VStack align="flex-start" gap={4} h="full">
-      {/* Stars */}
-      <HStack gap={1}>
-        {[...Array(rating)].map((_, i) => (
-          <Icon 
-            key={i} 
-            as={FiStar} 
-            color={THEME.COLORS.accent} 
-            boxSize={4} 
-            fill={THEME.COLORS.accent} 
-          />
-        ))}
-      </HStack>
-      
-      {/* Content */}
-      <Text 
-        fontSize={{ base: "sm", md: "md" }}
-        color={THEME.COLORS.textSecondary}
-        lineHeight="tall"
-        flex={1}
+      {/* Quote decoration */}
+      <Text
+        position="absolute"
+        top={4}
+        right={6}
+        fontSize="6xl"
+        fontWeight="bold"
+        color={`${THEME.COLORS.primary}15`}
+        lineHeight={1}
+        fontFamily="Georgia, serif"
       >
-        {content}
+        "
       </Text>
       
-      {/* Author */}
-      <Box pt={4} borderTop="1px solid" borderColor="gray.100" w="full">
-        <Text fontSize="sm" fontWeight="bold" color={THEME.COLORS.textPrimary}>
-          {name}
-        </Text>
-        <Text fontSize="xs" color={THEME.COLORS.textSecondary}>
-          {role} at {company}
+      <VStack align="flex-start" gap={4} h="full">
+        {/* Stars */}
+        <HStack gap={1}>
+          {[...Array(rating)].map((_, i) => (
+            <Icon 
+              key={i} 
+              as={FiStar} 
+              color={THEME.COLORS.accent} 
+              boxSize={4} 
+              fill={THEME.COLORS.accent} 
+            />
+          ))}
+        </HStack>
+        
+        {/* Content */}
+        <Text 
+          fontSize={{ base: "sm", md: "md" }}
+          color={THEME.COLORS.textSecondary}
+          lineHeight="tall"
+          flex={1}
+        >
+          {content}
         </Text>
-      </Box>
-    </VStack>
-  </Box>
-);
+        
+        {/* Author */}
+        <Box pt={4} borderTop="1px solid" borderColor="gray.100" w="full">
+          <Text fontSize="sm" fontWeight="bold" color={THEME.COLORS.textPrimary}>
+            {name}
+          </Text>
+          <Text fontSize="xs" color={THEME.COLORS.textSecondary}>
+            {t('home.roleAt', { role, company })}
+          </Text>
+        </Box>
+      </VStack>
+    </Box>
+  );
+};
 
 /**
  * Stat Card
@@ -349,100 +354,45 @@ const StatCard = ({ value, label, description }: StatCardProps) => (
 // DATA
 // ============================================================================
 
+// Titles, descriptions and quotes live in the home messages
+
 const FEATURES = [
-  {
-    icon: FiCalendar,
-    title: "Event Management",
-    description: "Create and manage multiple events with an intuitive dashboard. Track everything from one central location.",
-  },
-  {
-    icon: FiMail,
-    title: "WhatsApp & SMS",
-    description: "Send beautiful invitations instantly via WhatsApp and SMS. Reach your guests where they are.",
-  },
-  {
-    icon: FiCheckCircle,
-    title: "RSVP Tracking",
-    description: "Track responses in real-time with detailed analytics. Know exactly who's attending your event.",
-  },
-  {
-    icon: FiUsers,
-    title: "Custom Cards",
-    description: "Design stunning invitation cards for any occasion. Choose from templates or create your own.",
-  },
-];
+  { key: 'events', icon: FiCalendar },
+  { key: 'messaging', icon: FiMail },
+  { key: 'rsvp', icon: FiCheckCircle },
+  { key: 'cards', icon: FiUsers },
+] as const;
 
 const HOW_IT_WORKS = [
-  {
-    step: "1",
-    icon: FiEdit3,
-    title: "Create Event",
-    description: "Set up your event details in just a few minutes",
-  },
-  {
-    step: "2",
-    icon: FiSmartphone,
-    title: "Design Card",
-    description: "Choose a beautiful template or customize your own",
-  },
-  {
-    step: "3",
-    icon: FiSend,
-    title: "Send Invites",
-    description: "Deliver via WhatsApp & SMS to all your guests",
-  },
-  {
-    step: "4",
-    icon: FiBarChart,
-    title: "Track RSVPs",
-    description: "Monitor responses and manage your guest list",
-  },
-];
+  { step: "1", key: 'create', icon: FiEdit3 },
+  { step: "2", key: 'design', icon: FiSmartphone },
+  { step: "3", key: 'send', icon: FiSend },
+  { step: "4", key: 'track', icon: FiBarChart },
+] as const;
 
 const TESTIMONIALS = [
-  {
-    name: "Sarah Johnson",
-    role: "Event Planner",
-    company: "Celebrations Co.",
-    content: "Ekadi has transformed how I manage events. The WhatsApp integration is a game-changer, and my clients love the beautiful invitation cards!",
-    rating: 5,
-  },
-  {
-    name: "Michael Chen",
-    role: "Wedding Coordinator",
-    company: "Dream Weddings",
-    content: "The RSVP tracking feature saves me hours every week. I can see who's responded instantly. I can't imagine planning events without Ekadi.",
-    rating: 5,
-  },
-  {
-    name: "Emily Rodriguez",
-    role: "Corporate Events Manager",
-    company: "TechCorp",
-    content: "Professional, efficient, and beautiful. Ekadi makes event management feel effortless. Our team productivity increased significantly!",
-    rating: 5,
-  },
-];
+  { key: 'sarah', name: "Sarah Johnson", company: "Celebrations Co.", rating: 5 },
+  { key: 'michael', name: "Michael Chen", company: "Dream Weddings", rating: 5 },
+  { key: 'emily', name: "Emily Rodriguez", company: "TechCorp", rating: 5 },
+] as const;
 
 const STATS = [
-  { value: "10K+", label: "Events Created", description: "Trusted by organizers worldwide" },
-  { value: "98%", label: "Satisfaction Rate", description: "Loved by our community" },
-  { value: "24/7", label: "Support Available", description: "We're here when you need us" },
-];
+  { key: 'events', value: "10K+" },
+  { key: 'satisfaction', value: "98%" },
+  { key: 'support', value: "24/7" },
+] as const;
 
-const PRICING_FEATURES = [
-  "Unlimited event creation",
-  "WhatsApp & SMS invitations",
-  "Beautiful card templates",
-  "Real-time RSVP tracking",
-  "Guest list management",
-  "Event analytics dashboard",
-];
+const HERO_CHECKS = ['noCard', 'freePlan', 'setup'] as const;
+
+const PRICING_FEATURES = ['events', 'messaging', 'cards', 'rsvp', 'guests', 'analytics'] as const;
 
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
 
 export default function HomePage() {
+  const { t } = useTranslation();
+
   return (
     <>
       <PublicNav />
@@ -512,7 +462,7 @@ export default function HomePage() {
                   gap={2}
                 >
                   <Box w={2} h={2} borderRadius="full" bg={THEME.COLORS.accent} />
-                  Event Management Made Simple
+                  {t('home.hero.badge')}
                 </Badge>
               </Flex>
 
@@ -525,11 +475,11 @@ export default function HomePage() {
                 color={THEME.COLORS.textPrimary}
                 letterSpacing="tight"
               >
-                Create Stunning Event Cards &{' '}
+                {t('home.hero.titleStart')}{' '}
                 <Box as="span" color={THEME.COLORS.primary}>
-                  Manage RSVPs
+                  {t('home.hero.titleHighlight')}
                 </Box>{' '}
-                Effortlessly
+                {t('home.hero.titleEnd')}
               </Heading>
 
               {/* Hero Description */}
@@ -540,8 +490,7 @@ export default function HomePage() {
                 mx="auto"
                 lineHeight="tall"
               >
-                Send beautiful digital invitations via WhatsApp & SMS. Track RSVPs in real-time 
-                and manage your events all in one powerful, easy-to-use platform.
+                {t('home.hero.description')}
               </Text>
 
               {/* Hero CTA Buttons */}
@@ -573,7 +522,7 @@ export default function HomePage() {
                     alignItems="center"
                     gap={2}
                   >
-                    Get Started Free
+                    {t('home.hero.getStarted')}
                     <Icon as={FiArrowRight} boxSize={5} />
                   </Button>
                 </Link>
@@ -603,7 +552,7 @@ export default function HomePage() {
                     gap={2}
                   >
                     <Icon as={FiPlay} boxSize={5} />
-                    Watch Demo
+                    {t('home.hero.watchDemo')}
                   </Button>
                 </Link>
               </Stack>
@@ -615,14 +564,12 @@ export default function HomePage() {
                 pt={4}
                 flexWrap="wrap"
               >
-                {[
-                  "No credit card required",
-                  "Free forever plan",
-                  "Setup in minutes"
-                ].map((text) => (
-                  <HStack key={text} gap={2} color={THEME.COLORS.textSecondary}>
+                {HERO_CHECKS.map((check) => (
+                  <HStack key={check} gap={2} color={THEME.COLORS.textSecondary}>
                     <Icon as={FiCheck} color={THEME.COLORS.primary} boxSize={4} />
-                    <Text fontSize="sm" fontWeight="medium">{text}</Text>
+                    <Text fontSize="sm" fontWeight="medium">
+                      {t(`home.hero.checks.${check}`)}
+                    </Text>
                   </HStack>
                 ))}
               </HStack>
@@ -650,7 +597,7 @@ export default function HomePage() {
                 textTransform="uppercase"
                 letterSpacing="widest"
               >
-                Features
+                {t('home.features.eyebrow')}
               </Text>
               <Heading 
                 as="h2" 
@@ -659,9 +606,9 @@ export default function HomePage() {
                 color={THEME.COLORS.textPrimary}
                 lineHeight="shorter"
               >
-                Everything You Need to{' '}
+                {t('home.features.titleStart')}{' '}
                 <Box as="span" color={THEME.COLORS.primary}>
-                  Manage Events
+                  {t('home.features.titleHighlight')}
                 </Box>
               </Heading>
               <Text 
@@ -669,8 +616,7 @@ export default function HomePage() {
                 color={THEME.COLORS.textSecondary}
                 lineHeight="tall"
               >
-                From creation to execution, we've got you covered with powerful tools 
-                designed to make your event planning seamless.
+                {t('home.features.description')}
               </Text>
             </VStack>
 
@@ -681,10 +627,10 @@ export default function HomePage() {
             >
               {FEATURES.map((feature) => (
                 <FeatureCard
-                  key={feature.title}
+                  key={feature.key}
                   icon={feature.icon}
-                  title={feature.title}
-                  description={feature.description}
+                  title={t(`home.features.items.${feature.key}.title`)}
+                  description={t(`home.features.items.${feature.key}.description`)}
                 />
               ))}
             </SimpleGrid>
@@ -718,7 +664,7 @@ export default function HomePage() {
                 textTransform="uppercase"
                 letterSpacing="widest"
               >
-                How It Works
+                {t('home.howItWorks.eyebrow')}
               </Text>
               <Heading 
                 as="h2" 
@@ -727,9 +673,9 @@ export default function HomePage() {
                 color={THEME.COLORS.textPrimary}
                 lineHeight="shorter"
               >
-                Get Started in{' '}
+                {t('home.howItWorks.titleStart')}{' '}
                 <Box as="span" color={THEME.COLORS.primary}>
-                  4 Simple Steps
+                  {t('home.howItWorks.titleHighlight')}
                 </Box>
               </Heading>
               <Text 
@@ -737,7 +683,7 @@ export default function HomePage() {
                 color={THEME.COLORS.textSecondary}
                 lineHeight="tall"
               >
-                From event creation to guest management, we've made it simple and intuitive.
+                {t('home.howItWorks.description')}
               </Text>
             </VStack>
 
@@ -759,8 +705,8 @@ export default function HomePage() {
                     key={step.step}
                     step={step.step}
                     icon={step.icon}
-                    title={step.title}
-                    description={step.description}
+                    title={t(`home.howItWorks.steps.${step.key}.title`)}
+                    description={t(`home.howItWorks.steps.${step.key}.description`)}
                     isLast={index === HOW_IT_WORKS.length - 1}
                   />
                 ))}
@@ -792,7 +738,12 @@ export default function HomePage() {
                 gap={{ base: 10, md: 8 }}
               >
                 {STATS.map((stat) => (
-                  <StatCard key={stat.label} {...stat} />
+                  <StatCard
+                    key={stat.key}
+                    value={stat.value}
+                    label={t(`home.stats.${stat.key}.label`)}
+                    description={t(`home.stats.${stat.key}.description`)}
+                  />
                 ))}
               </SimpleGrid>
             </Box>
@@ -818,7 +769,7 @@ export default function HomePage() {
                 textTransform="uppercase"
                 letterSpacing="widest"
               >
-                Testimonials
+                {t('home.testimonials.eyebrow')}
               </Text>
               <Heading 
                 as="h2" 
@@ -827,9 +778,9 @@ export default function HomePage() {
                 color={THEME.COLORS.textPrimary}
                 lineHeight="shorter"
               >
-                Loved by{' '}
+                {t('home.testimonials.titleStart')}{' '}
                 <Box as="span" color={THEME.COLORS.primary}>
-                  Event Organizers
+                  {t('home.testimonials.titleHighlight')}
                 </Box>
               </Heading>
               <Text 
@@ -837,7 +788,7 @@ export default function HomePage() {
                 color={THEME.COLORS.textSecondary}
                 lineHeight="tall"
               >
-                See what our users are saying about their experience with Ekadi.
+                {t('home.testimonials.description')}
               </Text>
             </VStack>
 
@@ -846,7 +797,14 @@ export default function HomePage() {
               gap={{ base: 6, md: 8 }}
             >
               {TESTIMONIALS.map((testimonial) => (
-                <TestimonialCard key={testimonial.name} {...testimonial} />
+                <TestimonialCard
+                  key={testimonial.key}
+                  name={testimonial.name}
+                  role={t(`home.testimonials.items.${testimonial.key}.role`)}
+                  company={testimonial.company}
+                  content={t(`home.testimonials.items.${testimonial.key}.content`)}
+                  rating={testimonial.rating}
+                />
               ))}
             </SimpleGrid>
           </Container>
@@ -871,7 +829,7 @@ export default function HomePage() {
                   textTransform="uppercase"
                   letterSpacing="widest"
                 >
-                  Simple Pricing
+                  {t('home.pricing.eyebrow')}
                 </Text>
                 <Heading 
                   as="h2" 
@@ -880,9 +838,9 @@ export default function HomePage() {
                   color={THEME.COLORS.textPrimary}
                   lineHeight="shorter"
                 >
-                  Start Free,{' '}
+                  {t('home.pricing.titleStart')}{' '}
                   <Box as="span" color={THEME.COLORS.primary}>
-                    Scale When Ready
+                    {t('home.pricing.titleHighlight')}
                   </Box>
                 </Heading>
                 <Text 
@@ -890,8 +848,7 @@ export default function HomePage() {
                   color={THEME.COLORS.textSecondary}
                   lineHeight="tall"
                 >
-                  Everything you need to get started is completely free. 
-                  Upgrade anytime as your events grow.
+                  {t('home.pricing.description')}
                 </Text>
                 
                 <Link href={ROUTES.PUBLIC.REGISTER}>
@@ -916,7 +873,7 @@ export default function HomePage() {
                     alignItems="center"
                     gap={2}
                   >
-                    Start Free Today
+                    {t('home.pricing.startFree')}
                     <Icon as={FiArrowRight} boxSize={5} />
                   </Button>
                 </Link>
@@ -936,7 +893,7 @@ export default function HomePage() {
                   color={THEME.COLORS.textPrimary}
                   mb={6}
                 >
-                  Free plan includes:
+                  {t('home.pricing.includes')}
                 </Text>
                 <VStack align="flex-start" gap={4}>
                   {PRICING_FEATURES.map((feature) => (
@@ -949,7 +906,7 @@ export default function HomePage() {
                         <Icon as={FiCheck} color={THEME.COLORS.primary} boxSize={4} />
                       </Box>
                       <Text color={THEME.COLORS.textSecondary} fontSize="md">
-                        {feature}
+                        {t(`home.pricing.features.${feature}`)}
                       </Text>
                     </HStack>
                   ))}
@@ -1002,7 +959,7 @@ export default function HomePage() {
                 lineHeight="shorter"
                 color="white"
               >
-                Ready to Transform Your Events?
+                {t('home.cta.title')}
               </Heading>
 
               <Text 
@@ -1012,8 +969,7 @@ export default function HomePage() {
                 lineHeight="tall"
                 color="white"
               >
-                Join thousands of event organizers using Ekadi to create memorable 
-                experiences and manage events effortlessly.
+                {t('home.cta.description')}
               </Text>
 
               <Link href={ROUTES.PUBLIC.REGISTER}>
@@ -1038,13 +994,13 @@ export default function HomePage() {
                   alignItems="center"
                   gap={2}
                 >
-                  Create Free Account
+                  {t('home.cta.button')}
                   <Icon as={FiArrowRight} boxSize={5} />
                 </Button>
               </Link>
 
               <Text fontSize="sm" color="whiteAlpha.800">
-                No credit card required • Start in minutes
+                {t('home.cta.note')}
               </Text>
             </VStack>
           </Container>
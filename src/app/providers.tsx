@@ -16,6 +16,9 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { system } from '@/src/lib/theme';
 import { AuthProvider } from '@/src/contexts/AuthContext';
+import { LocaleProvider } from '@/src/contexts/LocaleContext';
+import { translate } from '@/src/lib/i18n';
+import { OrganizationProvider } from '@/src/contexts/OrganizationContext';
 import ToastContainer from '@/src/components/common/ToastContainer';
 
 // ============================================================================
@@ -71,7 +74,7 @@ function ErrorFallback({ error, resetErrorBoundary }: FallbackProps) {
             color: '#1f2937',
           }}
         >
-          Something Went Wrong
+          {translate('errorBoundary.title')}
         </h1>
         
         <p
@@ -81,8 +84,7 @@ function ErrorFallback({ error, resetErrorBoundary }: FallbackProps) {
             lineHeight: '1.6',
           }}
         >
-          We encountered an error while loading the application. 
-          Please try reloading the page.
+          {translate('errorBoundary.message')}
         </p>
         
         <button
@@ -107,7 +109,7 @@ function ErrorFallback({ error, resetErrorBoundary }: FallbackProps) {
             e.currentTarget.style.transform = 'translateY(0)';
           }}
         >
-          Reload Application
+          {translate('errorBoundary.reload')}
         </button>
         
         {process.env.NODE_ENV === 'development' && (
@@ -129,7 +131,7 @@ function ErrorFallback({ error, resetErrorBoundary }: FallbackProps) {
                 marginBottom: '0.5rem',
               }}
             >
-              Error Details (Development)
+              {translate('errorBoundary.details')}
             </summary>
             <pre
               style={{
@@ -237,6 +239,8 @@ function handleError(error: Error, info: any) {
  * - Suspense for code splitting
  * - Chakra UI for theming
  * - Auth context for authentication
+ * - Locale context for the interface language
+ * - Organization context for the active team workspace
  * - Toast notifications
  * 
  * @param props - Component props
@@ -259,7 +263,9 @@ export default function Providers({ children }: ProvidersProps) {
         <ChakraProvider value={system}>
           <QueryClientProvider client={queryClient}>
             <AuthProvider>
-              {children}
+              <LocaleProvider>
+                <OrganizationProvider>{children}</OrganizationProvider>
+              </LocaleProvider>
               <ToastContainer />
             </AuthProvider>
             {/* React Query Devtools disabled */}
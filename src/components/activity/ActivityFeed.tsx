@@ -0,0 +1,206 @@
+/**
+ * Activity Feed Component
+ *
+ * Card listing recent activity, newest first: event changes, invitation
+ * sends and RSVPs. Shows the activity of all the user's events on the
+ * dashboard, or of a single event when given an event ID. Further pages
+ * load on demand.
+ *
+ * @module ActivityFeed
+ */
+
+'use client';
+
+import { Box, Heading, Text, Stack, Button, Flex, Icon, Spinner, Center } from '@chakra-ui/react';
+import {
+  FiCheckCircle,
+  FiEdit,
+  FiLock,
+  FiMail,
+  FiPlusCircle,
+  FiTrash2,
+  FiUnlock,
+} from 'react-icons/fi';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
+import { formatActivityTime, getActivity, getActivityActionDisplay } from '@/src/lib/activity';
+import { encodeEventId } from '@/src/lib/id';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import useCustomToast from '@/src/hooks/useToast';
+import { ROUTES, THEME } from '@/src/lib/constants';
+import type { IconType } from 'react-icons';
+import type { ActivityAction, ActivityEntry, ApiError } from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ActivityFeedProps {
+  /** Only show the activity of this event */
+  eventId?: number;
+  /** Card heading (defaults to "Recent Activity") */
+  title?: string;
+  /** Text shown when there is no activity yet (defaults to "No activity yet.") */
+  emptyMessage?: string;
+}
+
+const ACTION_ICONS: Record<ActivityAction, IconType> = {
+  event_created: FiPlusCircle,
+  event_updated: FiEdit,
+  event_closed: FiLock,
+  event_reopened: FiUnlock,
+  event_deleted: FiTrash2,
+  invitations_sent: FiMail,
+  rsvp_received: FiCheckCircle,
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Activity Feed
+ *
+ * @param props - Component props
+ * @returns Activity card
+ */
+export default function ActivityFeed({
+  eventId,
+  title,
+  emptyMessage,
+}: ActivityFeedProps) {
+  const { t } = useTranslation();
+  const { activeOrganizationId } = useOrganization();
+
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  const toast = useCustomToast();
+
+  const loadPage = async (pageNumber: number) => {
+    try {
+      const data = await getActivity({ event: eventId, page: pageNumber });
+      setEntries((prev) => (pageNumber === 1 ? data.results : [...prev, ...data.results]));
+      setHasMore(!!data.next);
+      setPage(pageNumber);
+    } catch (error) {
+      toast.error(
+        t('activity.loadError'),
+        (error as ApiError)?.message || t('activity.loadErrorMessage')
+      );
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPage(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventId, activeOrganizationId]);
+
+  const handleLoadMore = () => {
+    setLoadingMore(true);
+    loadPage(page + 1);
+  };
+
+  return (
+    <Box bg="white" p={8} borderRadius="xl" boxShadow="md">
+      <Stack gap={6}>
+        <Heading fontSize="xl" color={THEME.COLORS.primary} fontWeight="bold">
+          {title ?? t('activity.title')}
+        </Heading>
+
+        {loading ? (
+          <Center py={8}>
+            <Spinner size="lg" color={THEME.COLORS.primary} />
+          </Center>
+        ) : entries.length === 0 ? (
+          <Text color="gray.500" textAlign="center" py={8}>
+            {emptyMessage ?? t('activity.empty')}
+          </Text>
+        ) : (
+          <Stack gap={0}>
+            {entries.map((entry) => {
+              const actionDisplay = getActivityActionDisplay(entry.action);
+              // Deleted events no longer have a page to open
+              const showEventLink = !eventId && entry.action !== 'event_deleted';
+
+              return (
+                <Flex
+                  key={entry.id}
+                  gap={4}
+                  py={3}
+                  borderTop="1px solid"
+                  borderColor="gray.100"
+                  _first={{ borderTop: 'none' }}
+                >
+                  <Flex
+                    align="center"
+                    justify="center"
+                    w={9}
+                    h={9}
+                    flexShrink={0}
+                    borderRadius="full"
+                    bg={`${actionDisplay.color}.50`}
+                    color={`${actionDisplay.color}.500`}
+                  >
+                    <Icon as={ACTION_ICONS[entry.action]} />
+                  </Flex>
+                  <Box flex={1} minW={0}>
+                    <Text color="gray.800">
+                      <Text as="span" fontWeight="semibold">
+                        {entry.actor_name}
+                      </Text>{' '}
+                      {entry.description}
+                    </Text>
+                    <Text fontSize="sm" color="gray.500">
+                      {formatActivityTime(entry.created_at)}
+                      {!eventId && (
+                        <>
+                          {' · '}
+                          {showEventLink ? (
+                            <Link
+                              href={ROUTES.PROTECTED.EVENT_DETAIL(encodeEventId(entry.event_id))}
+                            >
+                              <Text
+                                as="span"
+                                color={THEME.COLORS.primary}
+                                _hover={{ textDecoration: 'underline' }}
+                              >
+                                {entry.event_name}
+                              </Text>
+                            </Link>
+                          ) : (
+                            entry.event_name
+                          )}
+                        </>
+                      )}
+                    </Text>
+                  </Box>
+                </Flex>
+              );
+            })}
+          </Stack>
+        )}
+
+        {hasMore && (
+          <Button
+            {...THEME.BUTTON_STYLES.secondaryButton}
+            variant="outline"
+            size="sm"
+            alignSelf="center"
+            onClick={handleLoadMore}
+            loading={loadingMore}
+          >
+            {t('common.loadMore')}
+          </Button>
+        )}
+      </Stack>
+    </Box>
+  );
+}
@@ -22,6 +22,7 @@
 import { useEffect, ReactNode } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { useAuth } from '@/src/contexts/AuthContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import LoadingSpinner from '@/src/components/common/LoadingSpinner';
 import { ROUTES } from '@/src/lib/constants';
 
@@ -68,6 +69,7 @@ const REDIRECT_KEY = 'redirectAfterLogin';
  */
 export default function ProtectedRoute({ children }: ProtectedRouteProps) {
   const { user, loading, isAuthenticated } = useAuth();
+  const { t } = useTranslation();
   const router = useRouter();
   const pathname = usePathname();
 
@@ -92,7 +94,7 @@ export default function ProtectedRoute({ children }: ProtectedRouteProps) {
 
   // Show loading spinner while checking authentication
   if (loading) {
-    return <LoadingSpinner fullScreen message="Loading..." />;
+    return <LoadingSpinner fullScreen message={t('common.loading')} />;
   }
 
   // If not authenticated, return null (redirect is in progress)
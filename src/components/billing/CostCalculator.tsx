@@ -0,0 +1,223 @@
+/**
+ * Cost Calculator Component
+ *
+ * Interactive calculator for the pricing page. Visitors enter how many
+ * events they run and how many invitations they send per channel each
+ * month, and see what every plan would cost:
+ * - Pay As You Go: event fees plus every message
+ * - Subscriptions: plan price plus messages beyond the allowance
+ * - Enterprise: custom pricing
+ *
+ * @module CostCalculator
+ */
+
+'use client';
+
+import { Box, Heading, Text, Stack, Flex, Input, Field, SimpleGrid, Badge } from '@chakra-ui/react';
+import { useState } from 'react';
+import { BILLING_PLANS, estimateMessageCost, formatAmount } from '@/src/lib/billing';
+import { getChannelDisplay } from '@/src/lib/invitations';
+import { INVITATION_CHANNELS, PRICING_PLANS, THEME } from '@/src/lib/constants';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import type { InvitationChannel } from '@/src/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const MAX_QUANTITY = 1000000;
+
+const focusStyle = {
+  borderColor: THEME.COLORS.primary,
+  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+  outline: 'none',
+};
+
+/**
+ * Parse a quantity input, clamped to a sensible range
+ */
+const parseQuantity = (value: string): number =>
+  Math.min(Math.max(Math.floor(Number(value) || 0), 0), MAX_QUANTITY);
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Cost Calculator
+ *
+ * @returns Calculator with inputs and a per-plan cost breakdown
+ */
+export default function CostCalculator() {
+  const { t } = useTranslation();
+  const [events, setEvents] = useState(1);
+  const [messages, setMessages] = useState<Record<InvitationChannel, number>>({
+    whatsapp: 150,
+    sms: 50,
+    email: 0,
+  });
+
+  const estimates = BILLING_PLANS.map(({ id, plan }) => {
+    const messageCost = estimateMessageCost(id, messages);
+    const eventLimit = 'limits' in plan && plan.limits ? plan.limits.events : null;
+    const baseFee =
+      plan.type === 'payg'
+        ? events * PRICING_PLANS.PAY_AS_YOU_GO.pricing.event_creation.amount
+        : 'price' in plan
+        ? plan.price
+        : null;
+
+    return {
+      id,
+      plan,
+      messageCost,
+      baseFee,
+      total: baseFee === null ? null : baseFee + messageCost.total,
+      // Subscriptions cap the number of events per month
+      fits: eventLimit === null || events <= eventLimit,
+      eventLimit,
+    };
+  });
+
+  const cheapest =
+    estimates
+      .filter((estimate) => estimate.fits && estimate.total !== null)
+      .sort((a, b) => (a.total ?? 0) - (b.total ?? 0))[0] ?? null;
+
+  return (
+    <Box bg="white" borderRadius="xl" boxShadow="md" p={{ base: 6, md: 8 }}>
+      <Stack gap={8}>
+        <Stack gap={2} textAlign="center">
+          <Heading fontSize="3xl" color={THEME.COLORS.primary}>
+            {t('costCalculator.title')}
+          </Heading>
+          <Text fontSize="lg" color={THEME.COLORS.textSecondary}>
+            {t('costCalculator.subtitle')}
+          </Text>
+        </Stack>
+
+        {/* INPUTS */}
+        <SimpleGrid columns={{ base: 1, sm: 2, lg: 4 }} gap={4}>
+          <Field.Root>
+            <Field.Label fontWeight="semibold" color="gray.700">
+              {t('costCalculator.eventsPerMonth')}
+            </Field.Label>
+            <Input
+              type="number"
+              min={0}
+              value={events}
+              onChange={(e) => setEvents(parseQuantity(e.target.value))}
+              _focus={focusStyle}
+            />
+          </Field.Root>
+          {INVITATION_CHANNELS.map((channel) => (
+            <Field.Root key={channel.value}>
+              <Field.Label fontWeight="semibold" color="gray.700">
+                {channel.icon}{' '}
+                {t('costCalculator.channelInvitations', {
+                  channel: getChannelDisplay(channel.value).label,
+                })}
+              </Field.Label>
+              <Input
+                type="number"
+                min={0}
+                value={messages[channel.value]}
+                onChange={(e) =>
+                  setMessages((prev) => ({
+                    ...prev,
+                    [channel.value]: parseQuantity(e.target.value),
+                  }))
+                }
+                _focus={focusStyle}
+              />
+            </Field.Root>
+          ))}
+        </SimpleGrid>
+
+        {/* RESULTS */}
+        <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} gap={4}>
+          {estimates.map((estimate) => {
+            const isCheapest = cheapest?.id === estimate.id;
+
+            return (
+              <Box
+                key={estimate.id}
+                p={5}
+                borderRadius="lg"
+                border="2px solid"
+                borderColor={isCheapest ? THEME.COLORS.accent : 'gray.200'}
+                bg={estimate.fits ? 'white' : 'gray.50'}
+              >
+                <Stack gap={3}>
+                  <Flex justify="space-between" align="center" gap={2}>
+                    <Text fontWeight="bold" color="gray.800">
+                      {estimate.plan.name}
+                    </Text>
+                    {isCheapest && (
+                      <Badge bg={THEME.COLORS.accent} color="white">
+                        {t('costCalculator.bestValue')}
+                      </Badge>
+                    )}
+                  </Flex>
+
+                  {estimate.total === null ? (
+                    <>
+                      <Text fontSize="2xl" fontWeight="bold" color={THEME.COLORS.primary}>
+                        {t('costCalculator.custom')}
+                      </Text>
+                      <Text fontSize="sm" color="gray.600">
+                        {t('costCalculator.customNote')}
+                      </Text>
+                    </>
+                  ) : (
+                    <>
+                      <Text fontSize="2xl" fontWeight="bold" color={THEME.COLORS.primary}>
+                        {formatAmount(estimate.total, estimate.messageCost.currency)}
+                        <Text as="span" fontSize="sm" fontWeight="normal" color="gray.600">
+                          {' '}
+                          {t('costCalculator.perMonth')}
+                        </Text>
+                      </Text>
+                      <Stack gap={1} fontSize="sm">
+                        <Flex justify="space-between" gap={2}>
+                          <Text color="gray.600">
+                            {estimate.plan.type === 'payg'
+                              ? t('costCalculator.events', { count: events })
+                              : t('costCalculator.plan')}
+                          </Text>
+                          <Text color="gray.800">{formatAmount(estimate.baseFee ?? 0)}</Text>
+                        </Flex>
+                        {estimate.messageCost.lines
+                          .filter((line) => line.channel !== 'email')
+                          .map((line) => (
+                            <Flex key={line.channel} justify="space-between" gap={2}>
+                              <Text color="gray.600">
+                                {getChannelDisplay(line.channel).label}
+                                {line.billable > 0
+                                  ? ` (${line.billable.toLocaleString()} × ${line.rate})`
+                                  : ` (${t('costCalculator.included')})`}
+                              </Text>
+                              <Text color="gray.800">{formatAmount(line.cost)}</Text>
+                            </Flex>
+                          ))}
+                      </Stack>
+                      {!estimate.fits && (
+                        <Text fontSize="xs" color="orange.600">
+                          {t('costCalculator.includesUpTo', { count: estimate.eventLimit ?? 0 })}
+                        </Text>
+                      )}
+                    </>
+                  )}
+                </Stack>
+              </Box>
+            );
+          })}
+        </SimpleGrid>
+
+        <Text fontSize="sm" color="gray.500" textAlign="center">
+          {t('costCalculator.footnote')}
+        </Text>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Event Quota Notice Component
+ *
+ * Shows how many events the user can still create this billing period,
+ * with a progress bar and a link to upgrade once the quota runs low:
+ * - Starter and Professional: "X of N events left"
+ * - Pay As You Go: the fee charged per event
+ * - Enterprise: unlimited events
+ *
+ * @module EventQuotaNotice
+ */
+
+'use client';
+
+import { Box, Text, Stack, Flex, Button, Icon, Progress } from '@chakra-ui/react';
+import { FiCalendar, FiZap } from 'react-icons/fi';
+import Link from 'next/link';
+import { formatAmount, getPricingPlan } from '@/src/lib/billing';
+import { PRICING_PLANS, ROUTES, THEME } from '@/src/lib/constants';
+import { getDateLocale } from '@/src/lib/i18n';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import type { EventQuota } from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface EventQuotaNoticeProps {
+  /** Quota to show */
+  quota: EventQuota;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Event Quota Notice
+ *
+ * @param props - Component props
+ * @returns Remaining event quota card
+ */
+export default function EventQuotaNotice({ quota }: EventQuotaNoticeProps) {
+  const { t } = useTranslation();
+  const plan = getPricingPlan(quota.plan);
+  const resetsOn = new Date(quota.resets_at).toLocaleDateString(getDateLocale(), {
+    month: 'short',
+    day: 'numeric',
+  });
+
+  if (quota.limit === null || quota.remaining === null) {
+    const eventFee = PRICING_PLANS.PAY_AS_YOU_GO.pricing.event_creation;
+
+    return (
+      <Flex
+        bg="white"
+        borderRadius="xl"
+        boxShadow="md"
+        p={5}
+        align="center"
+        gap={3}
+      >
+        <Icon as={FiCalendar} color={THEME.COLORS.primary} w={5} h={5} />
+        <Text fontSize="sm" color="gray.700">
+          {plan.type === 'payg'
+            ? t('eventQuota.payg', { fee: formatAmount(eventFee.amount, eventFee.currency) })
+            : t('eventQuota.unlimited', { plan: plan.name })}
+        </Text>
+      </Flex>
+    );
+  }
+
+  const percent = quota.limit ? Math.min((quota.used / quota.limit) * 100, 100) : 100;
+  const exhausted = quota.remaining === 0;
+  const nearLimit = percent >= 80;
+
+  return (
+    <Box
+      bg="white"
+      borderRadius="xl"
+      boxShadow="md"
+      p={5}
+      borderLeft="4px solid"
+      borderColor={exhausted ? 'red.400' : nearLimit ? 'orange.400' : THEME.COLORS.primary}
+    >
+      <Stack gap={3}>
+        <Flex justify="space-between" align="center" gap={4} flexWrap="wrap">
+          <Stack gap={0}>
+            <Text fontWeight="semibold" color="gray.800">
+              {exhausted
+                ? t('eventQuota.exhausted', { count: quota.limit, plan: plan.name })
+                : t('eventQuota.remaining', { remaining: quota.remaining, count: quota.limit })}
+            </Text>
+            <Text fontSize="sm" color="gray.600">
+              {t('eventQuota.resetsOn', { date: resetsOn })}
+            </Text>
+          </Stack>
+          {nearLimit && (
+            <Link href={ROUTES.PROTECTED.BILLING}>
+              <Button size="sm" {...THEME.BUTTON_STYLES.primaryButton}>
+                <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                  <Icon as={FiZap} />
+                </Box>
+                {t('eventQuota.upgradePlan')}
+              </Button>
+            </Link>
+          )}
+        </Flex>
+        <Progress.Root
+          value={percent}
+          colorPalette={exhausted ? 'red' : nearLimit ? 'orange' : 'teal'}
+          size="sm"
+        >
+          <Progress.Track>
+            <Progress.Range />
+          </Progress.Track>
+        </Progress.Root>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,455 @@
+/**
+ * M-Pesa Checkout Dialog Component
+ *
+ * Modal that takes a payment with an M-Pesa STK push:
+ * - Phone number (prefilled from the profile) and, for top-ups, an amount
+ * - Waiting screen with a countdown while the customer answers the prompt
+ * - Outcome screen for success, cancellation, insufficient funds or timeout
+ *
+ * @module MpesaCheckoutDialog
+ */
+
+'use client';
+
+import {
+  Box,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  IconButton,
+  Input,
+  Field,
+  Progress,
+  SimpleGrid,
+} from '@chakra-ui/react';
+import { FiAlertCircle, FiCheckCircle, FiSmartphone, FiX } from 'react-icons/fi';
+import { useEffect, useRef, useState } from 'react';
+import {
+  getPaymentOutcome,
+  getPaymentSecondsLeft,
+  getPaymentTransaction,
+  isPaymentFinal,
+  startMpesaCheckout,
+} from '@/src/lib/payments';
+import { formatAmount } from '@/src/lib/billing';
+import { formatPhoneNumber, phoneNumberSchema, splitPhoneNumber } from '@/src/lib/validation';
+import { useAuth } from '@/src/contexts/AuthContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { MPESA_CHECKOUT, THEME } from '@/src/lib/constants';
+import type {
+  ApiError,
+  BillingCycle,
+  PaymentPurpose,
+  PaymentTransaction,
+  PlanId,
+} from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface MpesaCheckoutDialogProps {
+  /** Whether the dialog is visible */
+  isOpen: boolean;
+  /** What the payment is for */
+  purpose: PaymentPurpose;
+  /** Plan being paid for (purpose 'subscription') */
+  plan?: PlanId;
+  /** Billing cycle being paid for (purpose 'subscription') */
+  billingCycle?: BillingCycle;
+  /** Plan name shown in the dialog (purpose 'subscription') */
+  planName?: string;
+  /** Plan price (purpose 'subscription') or suggested amount (purpose 'topup') */
+  amount?: number;
+  /** Called after a successful payment */
+  onSuccess: (transaction: PaymentTransaction) => void;
+  /** Close handler */
+  onClose: () => void;
+}
+
+type CheckoutStep = 'details' | 'waiting' | 'result';
+
+const focusStyle = {
+  borderColor: THEME.COLORS.primary,
+  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+  outline: 'none',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * M-Pesa Checkout Dialog
+ *
+ * @param props - Component props
+ * @returns Modal dialog, or null when closed
+ */
+export default function MpesaCheckoutDialog({
+  isOpen,
+  purpose,
+  plan,
+  billingCycle = 'monthly',
+  planName,
+  amount,
+  onSuccess,
+  onClose,
+}: MpesaCheckoutDialogProps) {
+  const { user } = useAuth();
+  const { t } = useTranslation();
+  const [step, setStep] = useState<CheckoutStep>('details');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [phoneError, setPhoneError] = useState<string | null>(null);
+  const [topUpAmount, setTopUpAmount] = useState<number>(MPESA_CHECKOUT.TOPUP_PRESETS[1]);
+  const [isStarting, setIsStarting] = useState(false);
+  const [transaction, setTransaction] = useState<PaymentTransaction | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [totalSeconds, setTotalSeconds] = useState(0);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const onSuccessRef = useRef(onSuccess);
+
+  useEffect(() => {
+    onSuccessRef.current = onSuccess;
+  }, [onSuccess]);
+
+  const wasOpenRef = useRef(false);
+  // Set while a status request is in flight so polls don't pile up
+  const pendingRef = useRef(false);
+
+  // Reset and prefill the phone number when the dialog opens. Only on the
+  // closed -> open change: amount and user change while it is open (e.g. the
+  // wallet refreshes after a top-up) and must not send it back to the form.
+  useEffect(() => {
+    const justOpened = isOpen && !wasOpenRef.current;
+    wasOpenRef.current = isOpen;
+    if (!justOpened) return;
+    setStep('details');
+    setTransaction(null);
+    setRequestError(null);
+    setPhoneError(null);
+    if (purpose === 'topup') {
+      setTopUpAmount(
+        amount
+          ? Math.min(Math.max(Math.ceil(amount), MPESA_CHECKOUT.MIN_TOPUP), MPESA_CHECKOUT.MAX_TOPUP)
+          : MPESA_CHECKOUT.TOPUP_PRESETS[1]
+      );
+    }
+
+    const profilePhone = user?.profile?.phone_number;
+    if (profilePhone) {
+      const { country_code, phone_number } = splitPhoneNumber(profilePhone);
+      setPhoneNumber(country_code === MPESA_CHECKOUT.COUNTRY_CODE ? phone_number : '');
+    }
+  }, [isOpen, user, purpose, amount]);
+
+  // Poll the transaction and count down while the prompt is open
+  useEffect(() => {
+    if (step !== 'waiting' || !transaction) return;
+
+    let stopped = false;
+    pendingRef.current = false;
+
+    const finish = (final: PaymentTransaction) => {
+      if (stopped) return;
+      stopped = true;
+      setTransaction(final);
+      setStep('result');
+      if (final.status === 'success') {
+        onSuccessRef.current(final);
+      }
+    };
+
+    const countdown = setInterval(() => {
+      const left = getPaymentSecondsLeft(transaction);
+      setSecondsLeft(left);
+
+      // Prompt expired without an answer: check once more, then give up
+      if (left === 0) {
+        clearInterval(countdown);
+        clearInterval(poll);
+        getPaymentTransaction(transaction.id)
+          .then((latest) =>
+            finish(isPaymentFinal(latest.status) ? latest : { ...latest, status: 'timeout' })
+          )
+          .catch(() => finish({ ...transaction, status: 'timeout' }));
+      }
+    }, 1000);
+
+    const poll = setInterval(() => {
+      if (pendingRef.current) return;
+      pendingRef.current = true;
+      getPaymentTransaction(transaction.id)
+        .then((latest) => {
+          if (isPaymentFinal(latest.status)) finish(latest);
+        })
+        .catch(() => undefined)
+        .finally(() => {
+          pendingRef.current = false;
+        });
+    }, MPESA_CHECKOUT.POLL_INTERVAL);
+
+    return () => {
+      stopped = true;
+      clearInterval(countdown);
+      clearInterval(poll);
+    };
+  }, [step, transaction]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const chargeAmount = purpose === 'topup' ? topUpAmount : amount ?? 0;
+  const amountError =
+    purpose === 'topup' &&
+    (topUpAmount < MPESA_CHECKOUT.MIN_TOPUP || topUpAmount > MPESA_CHECKOUT.MAX_TOPUP)
+      ? t('mpesaCheckout.amountRange', {
+          min: formatAmount(MPESA_CHECKOUT.MIN_TOPUP),
+          max: formatAmount(MPESA_CHECKOUT.MAX_TOPUP),
+        })
+      : null;
+
+  const handleClose = () => {
+    // Closing while waiting does not cancel the prompt on the phone
+    onClose();
+  };
+
+  const handlePay = async () => {
+    const parsed = phoneNumberSchema.safeParse(phoneNumber);
+    if (!parsed.success) {
+      setPhoneError(parsed.error.issues[0]?.message || t('validation.phoneInvalid'));
+      return;
+    }
+    if (amountError) return;
+
+    setPhoneError(null);
+    setRequestError(null);
+    setIsStarting(true);
+    try {
+      const started = await startMpesaCheckout({
+        purpose,
+        plan: purpose === 'subscription' ? plan : undefined,
+        billing_cycle: purpose === 'subscription' ? billingCycle : undefined,
+        amount: purpose === 'topup' ? topUpAmount : undefined,
+        phone_number: formatPhoneNumber(MPESA_CHECKOUT.COUNTRY_CODE, parsed.data),
+      });
+      const seconds = getPaymentSecondsLeft(started);
+      setTransaction(started);
+      setSecondsLeft(seconds);
+      setTotalSeconds(seconds);
+      setStep('waiting');
+    } catch (error) {
+      setRequestError(
+        (error as ApiError)?.message || t('mpesaCheckout.startFailed')
+      );
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const outcome = transaction ? getPaymentOutcome(transaction.status) : null;
+  const isSuccess = transaction?.status === 'success';
+
+  return (
+    <Box
+      position="fixed"
+      inset={0}
+      bg="blackAlpha.600"
+      display="flex"
+      alignItems="center"
+      justifyContent="center"
+      zIndex={1000}
+    >
+      <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="95%" p={6}>
+        <Stack gap={6}>
+          {/* HEADER */}
+          <Flex justify="space-between" align="center">
+            <Stack gap={1}>
+              <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                {t('mpesaCheckout.title')}
+              </Heading>
+              <Text fontSize="sm" color="gray.600">
+                {purpose === 'subscription'
+                  ? t(
+                      billingCycle === 'annual'
+                        ? 'mpesaCheckout.subscriptionAnnual'
+                        : 'mpesaCheckout.subscriptionMonthly',
+                      { plan: planName ?? t('mpesaCheckout.plan') }
+                    )
+                  : t('mpesaCheckout.topupCredit')}
+              </Text>
+            </Stack>
+            <IconButton aria-label={t('mpesaCheckout.close')} variant="ghost" onClick={handleClose}>
+              <FiX />
+            </IconButton>
+          </Flex>
+
+          {/* DETAILS */}
+          {step === 'details' && (
+            <Stack gap={5}>
+              {purpose === 'topup' && (
+                <Field.Root invalid={!!amountError}>
+                  <Field.Label fontWeight="semibold" color="gray.700">
+                    {t('mpesaCheckout.amount')}
+                  </Field.Label>
+                  <SimpleGrid columns={4} gap={2} w="full">
+                    {MPESA_CHECKOUT.TOPUP_PRESETS.map((preset) => (
+                      <Button
+                        key={preset}
+                        size="sm"
+                        variant={topUpAmount === preset ? 'solid' : 'outline'}
+                        bg={topUpAmount === preset ? THEME.COLORS.primary : undefined}
+                        color={topUpAmount === preset ? 'white' : undefined}
+                        onClick={() => setTopUpAmount(preset)}
+                      >
+                        {preset.toLocaleString()}
+                      </Button>
+                    ))}
+                  </SimpleGrid>
+                  <Input
+                    type="number"
+                    min={MPESA_CHECKOUT.MIN_TOPUP}
+                    max={MPESA_CHECKOUT.MAX_TOPUP}
+                    value={topUpAmount || ''}
+                    onChange={(e) => setTopUpAmount(Number(e.target.value) || 0)}
+                    _focus={focusStyle}
+                    mt={2}
+                  />
+                  {amountError && <Field.ErrorText>{amountError}</Field.ErrorText>}
+                </Field.Root>
+              )}
+
+              <Field.Root invalid={!!phoneError}>
+                <Field.Label fontWeight="semibold" color="gray.700">
+                  {t('mpesaCheckout.phoneLabel')}
+                </Field.Label>
+                <Flex gap={2} w="full">
+                  <Flex
+                    align="center"
+                    px={3}
+                    border="1px solid"
+                    borderColor="gray.200"
+                    borderRadius="md"
+                    bg="gray.50"
+                    color="gray.700"
+                    fontSize="sm"
+                  >
+                    🇰🇪 {MPESA_CHECKOUT.COUNTRY_CODE}
+                  </Flex>
+                  <Input
+                    type="tel"
+                    placeholder="712 345 678"
+                    value={phoneNumber}
+                    onChange={(e) => setPhoneNumber(e.target.value)}
+                    _focus={focusStyle}
+                  />
+                </Flex>
+                {phoneError ? (
+                  <Field.ErrorText>{phoneError}</Field.ErrorText>
+                ) : (
+                  <Field.HelperText>{t('mpesaCheckout.phoneHelper')}</Field.HelperText>
+                )}
+              </Field.Root>
+
+              {requestError && (
+                <Box bg="red.50" borderRadius="md" p={3}>
+                  <Text fontSize="sm" color="red.700">
+                    {requestError}
+                  </Text>
+                </Box>
+              )}
+
+              <Button
+                {...THEME.BUTTON_STYLES.primaryButton}
+                onClick={handlePay}
+                loading={isStarting}
+                disabled={chargeAmount <= 0 || !!amountError}
+              >
+                {t('mpesaCheckout.pay', { amount: formatAmount(chargeAmount) })}
+              </Button>
+            </Stack>
+          )}
+
+          {/* WAITING */}
+          {step === 'waiting' && transaction && (
+            <Stack gap={5} align="center" textAlign="center">
+              <Box bg="green.50" borderRadius="full" p={4}>
+                <Icon as={FiSmartphone} w={10} h={10} color="green.600" />
+              </Box>
+              <Stack gap={1}>
+                <Text fontWeight="semibold" color="gray.800">
+                  {t('mpesaCheckout.checkPhone')}
+                </Text>
+                <Text fontSize="sm" color="gray.600">
+                  {t('mpesaCheckout.enterPin', {
+                    phone: transaction.phone_number,
+                    amount: formatAmount(transaction.amount, transaction.currency),
+                  })}
+                </Text>
+              </Stack>
+              <Stack gap={2} w="full">
+                <Progress.Root
+                  value={totalSeconds ? (secondsLeft / totalSeconds) * 100 : 0}
+                  colorPalette="green"
+                  size="sm"
+                >
+                  <Progress.Track>
+                    <Progress.Range />
+                  </Progress.Track>
+                </Progress.Root>
+                <Text fontSize="sm" color="gray.600">
+                  {t('mpesaCheckout.expiresIn', {
+                    time: `${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`,
+                  })}
+                </Text>
+              </Stack>
+            </Stack>
+          )}
+
+          {/* RESULT */}
+          {step === 'result' && transaction && outcome && (
+            <Stack gap={5} align="center" textAlign="center">
+              <Box bg={`${outcome.color}.50`} borderRadius="full" p={4}>
+                <Icon
+                  as={isSuccess ? FiCheckCircle : FiAlertCircle}
+                  w={10}
+                  h={10}
+                  color={`${outcome.color}.500`}
+                />
+              </Box>
+              <Stack gap={1}>
+                <Text fontWeight="semibold" color="gray.800">
+                  {outcome.title}
+                </Text>
+                <Text fontSize="sm" color="gray.600">
+                  {outcome.description}
+                </Text>
+                {transaction.mpesa_receipt && (
+                  <Text fontSize="sm" color="gray.500">
+                    {t('mpesaCheckout.receipt', { receipt: transaction.mpesa_receipt })}
+                  </Text>
+                )}
+              </Stack>
+              <Flex gap={3} justify="center">
+                {!isSuccess && (
+                  <Button
+                    {...THEME.BUTTON_STYLES.primaryButton}
+                    onClick={() => setStep('details')}
+                  >
+                    {t('mpesaCheckout.tryAgain')}
+                  </Button>
+                )}
+                <Button variant="outline" onClick={handleClose}>
+                  {isSuccess ? t('mpesaCheckout.done') : t('common.close')}
+                </Button>
+              </Flex>
+            </Stack>
+          )}
+        </Stack>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,142 @@
+/**
+ * Upgrade Plan Dialog Component
+ *
+ * Modal shown when the user tries to create an event after using up their
+ * plan's event quota. Explains the limit, when it resets, and offers the
+ * next plan up; choosing it opens checkout on the billing page.
+ *
+ * @module UpgradePlanDialog
+ */
+
+'use client';
+
+import { Box, Heading, Text, Stack, Button, Flex, Icon } from '@chakra-ui/react';
+import { FiZap } from 'react-icons/fi';
+import { useRouter } from 'next/navigation';
+import {
+  formatAmount,
+  getPlanLimit,
+  getPlanPrice,
+  getPricingPlan,
+  getUpgradePlan,
+  savePlanSelection,
+} from '@/src/lib/billing';
+import { ROUTES, THEME } from '@/src/lib/constants';
+import { getDateLocale } from '@/src/lib/i18n';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import type { EventQuota } from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface UpgradePlanDialogProps {
+  /** Whether the dialog is visible */
+  isOpen: boolean;
+  /** Quota that was reached */
+  quota: EventQuota | null;
+  /** Close handler */
+  onClose: () => void;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Upgrade Plan Dialog
+ *
+ * @param props - Component props
+ * @returns Upgrade prompt, or null when closed
+ */
+export default function UpgradePlanDialog({ isOpen, quota, onClose }: UpgradePlanDialogProps) {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  if (!isOpen || !quota) return null;
+
+  const currentPlan = getPricingPlan(quota.plan);
+  const upgradePlanId = getUpgradePlan(quota.plan);
+  const upgradePlan = upgradePlanId ? getPricingPlan(upgradePlanId) : null;
+  const upgradePrice = upgradePlanId ? getPlanPrice(upgradePlanId) : null;
+  const upgradeEvents = upgradePlanId ? getPlanLimit(upgradePlanId, 'events') : null;
+  const resetsOn = new Date(quota.resets_at).toLocaleDateString(getDateLocale(), {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  const handleUpgrade = () => {
+    if (!upgradePlanId) return;
+
+    if (upgradePrice === null) {
+      // Custom plans are arranged with sales
+      router.push('/contact');
+      return;
+    }
+
+    savePlanSelection(upgradePlanId, 'monthly');
+    router.push(ROUTES.PROTECTED.BILLING);
+  };
+
+  return (
+    <Box
+      position="fixed"
+      inset={0}
+      bg="blackAlpha.600"
+      display="flex"
+      alignItems="center"
+      justifyContent="center"
+      zIndex={1000}
+    >
+      <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+        <Stack gap={4}>
+          <Heading fontSize="lg" color={THEME.COLORS.primary}>
+            {t('upgradePlan.title')}
+          </Heading>
+          <Text color="gray.700">
+            {t('upgradePlan.message', {
+              plan: currentPlan.name,
+              count: quota.limit ?? quota.used,
+              date: resetsOn,
+            })}
+          </Text>
+
+          {upgradePlan && (
+            <Box bg="gray.50" borderRadius="md" p={4}>
+              <Stack gap={1}>
+                <Text fontWeight="semibold" color="gray.800">
+                  {upgradePlan.name}
+                </Text>
+                <Text fontSize="sm" color="gray.600">
+                  {upgradeEvents !== null
+                    ? t('upgradePlan.upToEvents', { count: upgradeEvents })
+                    : t('upgradePlan.unlimitedEvents')}{' '}
+                  {upgradePrice !== null
+                    ? t('upgradePlan.perMonth', { price: formatAmount(upgradePrice) })
+                    : t('upgradePlan.customPricing')}
+                </Text>
+              </Stack>
+            </Box>
+          )}
+
+          <Flex justify="flex-end" gap={3}>
+            <Button variant="outline" onClick={onClose}>
+              {t('upgradePlan.notNow')}
+            </Button>
+            {upgradePlan && (
+              <Button {...THEME.BUTTON_STYLES.primaryButton} onClick={handleUpgrade}>
+                <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                  <Icon as={FiZap} />
+                </Box>
+                {upgradePrice !== null
+                  ? t('upgradePlan.upgradeTo', { plan: upgradePlan.name })
+                  : t('upgradePlan.contactSales')}
+              </Button>
+            )}
+          </Flex>
+        </Stack>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,328 @@
+/**
+ * Card Export Dialog Component
+ *
+ * Modal for downloading an invitation card rendered in the browser:
+ * - Single card as high-resolution PNG or print-ready PDF
+ * - A5 or A6 print size, with optional bleed
+ * - Batch mode: one personalised card per guest, zipped
+ *
+ * @module CardExportDialog
+ */
+
+'use client';
+
+import {
+  Box,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  IconButton,
+  Field,
+  Progress,
+  SimpleGrid,
+} from '@chakra-ui/react';
+import { FiDownload, FiPackage, FiX } from 'react-icons/fi';
+import { useEffect, useState } from 'react';
+import { getEventGuests } from '@/src/lib/guests';
+import {
+  CARD_BLEED_MM,
+  CARD_PRINT_SIZES,
+  downloadBlob,
+  exportCard,
+  exportGuestCardsZip,
+  getCardFileName,
+} from '@/src/lib/cardRenderer';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { THEME } from '@/src/lib/constants';
+import type {
+  CardEventData,
+  CardExportFormat,
+  CardLayout,
+  CardPrintSize,
+  Guest,
+} from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CardExportDialogProps {
+  /** Event the card belongs to */
+  eventId: number;
+  /** Event data drawn on the card */
+  event: CardEventData;
+  /** Card layout to export */
+  layout: CardLayout;
+  /** Whether the dialog is visible */
+  isOpen: boolean;
+  /** Close handler */
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: CardExportFormat; label: string }[] = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'png', label: 'PNG' },
+];
+
+const checkboxStyle: React.CSSProperties = {
+  width: 16,
+  height: 16,
+  cursor: 'pointer',
+  accentColor: THEME.COLORS.primary,
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Card Export Dialog
+ *
+ * @param props - Component props
+ * @returns Modal dialog, or null when closed
+ */
+export default function CardExportDialog({
+  eventId,
+  event,
+  layout,
+  isOpen,
+  onClose,
+}: CardExportDialogProps) {
+  const [size, setSize] = useState<CardPrintSize>('A5');
+  const [format, setFormat] = useState<CardExportFormat>('pdf');
+  const [bleed, setBleed] = useState(true);
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [batchProgress, setBatchProgress] = useState<number | null>(null);
+
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+
+  // Load guests for batch mode whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    getEventGuests(eventId)
+      .then(setGuests)
+      .catch(() => setGuests([]));
+  }, [isOpen, eventId]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const options = { size, format, bleed };
+  const hasGuestNameBlock = layout.text_blocks.some((block) => block.binding === 'guest_name');
+
+  const handleClose = () => {
+    if (isExporting) return;
+    setBatchProgress(null);
+    onClose();
+  };
+
+  const handleExportSingle = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await exportCard(layout, event, options);
+      downloadBlob(blob, getCardFileName(event.event_name, options));
+    } catch (error) {
+      toast.error(
+        t('cardExport.failed'),
+        (error as Error)?.message || t('cardExport.cardFailed')
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportBatch = async () => {
+    setIsExporting(true);
+    setBatchProgress(0);
+    try {
+      const blob = await exportGuestCardsZip(layout, event, guests, options, setBatchProgress);
+      downloadBlob(
+        blob,
+        getCardFileName(t('cardExport.zipName', { event: event.event_name }), options, 'zip')
+      );
+      toast.success(t('cardExport.ready'), t('cardExport.readyCount', { count: guests.length }));
+    } catch (error) {
+      toast.error(
+        t('cardExport.failed'),
+        (error as Error)?.message || t('cardExport.batchFailed')
+      );
+    } finally {
+      setIsExporting(false);
+      setBatchProgress(null);
+    }
+  };
+
+  return (
+    <Box
+      position="fixed"
+      inset={0}
+      bg="blackAlpha.600"
+      display="flex"
+      alignItems="center"
+      justifyContent="center"
+      zIndex={1000}
+    >
+      <Box
+        bg="white"
+        borderRadius="xl"
+        boxShadow="2xl"
+        maxW="lg"
+        w="95%"
+        maxH="90vh"
+        overflowY="auto"
+        p={6}
+      >
+        <Stack gap={6}>
+          {/* HEADER */}
+          <Flex justify="space-between" align="center">
+            <Stack gap={1}>
+              <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                {t('cardExport.title')}
+              </Heading>
+              <Text fontSize="sm" color="gray.600">
+                {t('cardExport.subtitle')}
+              </Text>
+            </Stack>
+            <IconButton
+              aria-label={t('cardExport.close')}
+              variant="ghost"
+              onClick={handleClose}
+              disabled={isExporting}
+            >
+              <FiX />
+            </IconButton>
+          </Flex>
+
+          <Box borderTop="1px" borderColor="gray.200" />
+
+          {/* OPTIONS */}
+          <Field.Root>
+            <Field.Label fontWeight="semibold" color="gray.700">
+              {t('cardExport.size')}
+            </Field.Label>
+            <SimpleGrid columns={2} gap={3} w="full">
+              {(Object.keys(CARD_PRINT_SIZES) as CardPrintSize[]).map((key) => (
+                <Box
+                  key={key}
+                  as="button"
+                  p={3}
+                  borderRadius="md"
+                  border="2px solid"
+                  borderColor={size === key ? THEME.COLORS.primary : 'gray.200'}
+                  bg={size === key ? `${THEME.COLORS.primary}10` : 'white'}
+                  onClick={() => setSize(key)}
+                >
+                  <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+                    {CARD_PRINT_SIZES[key].label}
+                  </Text>
+                </Box>
+              ))}
+            </SimpleGrid>
+          </Field.Root>
+
+          <Field.Root>
+            <Field.Label fontWeight="semibold" color="gray.700">
+              {t('cardExport.format')}
+            </Field.Label>
+            <SimpleGrid columns={2} gap={3} w="full">
+              {FORMAT_OPTIONS.map((option) => (
+                <Box
+                  key={option.value}
+                  as="button"
+                  p={3}
+                  textAlign="left"
+                  borderRadius="md"
+                  border="2px solid"
+                  borderColor={format === option.value ? THEME.COLORS.primary : 'gray.200'}
+                  bg={format === option.value ? `${THEME.COLORS.primary}10` : 'white'}
+                  onClick={() => setFormat(option.value)}
+                >
+                  <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+                    {option.label}
+                  </Text>
+                  <Text fontSize="xs" color="gray.500">
+                    {t(`cardExport.formats.${option.value}`)}
+                  </Text>
+                </Box>
+              ))}
+            </SimpleGrid>
+          </Field.Root>
+
+          <Flex as="label" align="center" gap={2} cursor="pointer">
+            <input
+              type="checkbox"
+              checked={bleed}
+              onChange={(e) => setBleed(e.target.checked)}
+              style={checkboxStyle}
+            />
+            <Text fontSize="sm" color="gray.700">
+              {t('cardExport.bleed', { mm: CARD_BLEED_MM })}
+            </Text>
+          </Flex>
+
+          {/* SINGLE CARD */}
+          <Button
+            {...THEME.BUTTON_STYLES.primaryButton}
+            onClick={handleExportSingle}
+            loading={isExporting && batchProgress === null}
+            disabled={isExporting}
+          >
+            <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+              <Icon as={FiDownload} />
+            </Box>
+            {t('cardExport.download')}
+          </Button>
+
+          {/* BATCH */}
+          <Box borderTop="1px" borderColor="gray.200" />
+          <Stack gap={3}>
+            <Text fontWeight="semibold" color="gray.700">
+              {t('cardExport.batchTitle')}
+            </Text>
+            <Text fontSize="sm" color="gray.600">
+              {hasGuestNameBlock
+                ? t('cardExport.batchHint')
+                : t('cardExport.batchNeedsName')}
+            </Text>
+
+            {batchProgress !== null && (
+              <Stack gap={2}>
+                <Progress.Root
+                  value={guests.length ? (batchProgress / guests.length) * 100 : 0}
+                  colorPalette="teal"
+                >
+                  <Progress.Track>
+                    <Progress.Range />
+                  </Progress.Track>
+                </Progress.Root>
+                <Text fontSize="sm" color="gray.600">
+                  {t('cardExport.progress', { done: batchProgress, total: guests.length })}
+                </Text>
+              </Stack>
+            )}
+
+            <Button
+              {...THEME.BUTTON_STYLES.secondaryButton}
+              variant="outline"
+              onClick={handleExportBatch}
+              loading={batchProgress !== null}
+              disabled={isExporting || guests.length === 0 || !hasGuestNameBlock}
+            >
+              <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                <Icon as={FiPackage} />
+              </Box>
+              {t('cardExport.downloadBatch', { count: guests.length })}
+            </Button>
+          </Stack>
+        </Stack>
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Invitation Card Preview Component
+ *
+ * Draws a card layout with real event data at any width. Used by the
+ * card designer (with selectable text blocks) and the cards list.
+ *
+ * @module CardPreview
+ */
+
+'use client';
+
+import { Box, Text } from '@chakra-ui/react';
+import { CARD_ASPECT_RATIO, resolveCardColor, resolveCardText } from '@/src/lib/cardTemplates';
+import { THEME } from '@/src/lib/constants';
+import type { CardEventData, CardLayout } from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CardPreviewProps {
+  /** Card layout to draw */
+  layout: CardLayout;
+  /** Event the card is for */
+  event: CardEventData;
+  /** Card width in pixels (height follows CARD_ASPECT_RATIO) */
+  width: number;
+  /** ID of the highlighted text block */
+  selectedBlockId?: string | null;
+  /** Called when a text block is clicked (enables selection) */
+  onSelectBlock?: (blockId: string) => void;
+}
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Card Preview
+ *
+ * @param props - Component props
+ * @returns Card drawn at the requested width
+ */
+export default function CardPreview({
+  layout,
+  event,
+  width,
+  selectedBlockId,
+  onSelectBlock,
+}: CardPreviewProps) {
+  const height = width / CARD_ASPECT_RATIO;
+  const accent = resolveCardColor(layout.accent_color);
+  const inset = width * 0.04;
+
+  return (
+    <Box
+      position="relative"
+      w={`${width}px`}
+      h={`${height}px`}
+      bg={resolveCardColor(layout.background_color)}
+      backgroundImage={layout.background_image ? `url(${layout.background_image})` : undefined}
+      backgroundSize="cover"
+      backgroundPosition="center"
+      boxShadow="lg"
+      overflow="hidden"
+      flexShrink={0}
+    >
+      {/* BORDER DECORATION */}
+      {layout.border_style !== 'none' && (
+        <Box
+          position="absolute"
+          inset={`${inset}px`}
+          border={`${layout.border_style === 'double' ? width * 0.012 : width * 0.005}px ${layout.border_style}`}
+          borderColor={accent}
+          pointerEvents="none"
+        />
+      )}
+
+      {/* TEXT BLOCKS */}
+      {layout.text_blocks.map((block) => {
+        const text = resolveCardText(block, event);
+        const isSelected = block.id === selectedBlockId;
+        return (
+          <Text
+            key={block.id}
+            position="absolute"
+            top={`${block.y}%`}
+            left="10%"
+            right="10%"
+            m={0}
+            fontSize={`${(block.font_size / 100) * width}px`}
+            fontWeight={block.font_weight}
+            fontFamily={block.font_family === 'serif' ? 'Georgia, serif' : 'inherit'}
+            textAlign={block.align}
+            color={resolveCardColor(block.color)}
+            lineHeight={1.25}
+            whiteSpace="pre-wrap"
+            cursor={onSelectBlock ? 'pointer' : 'default'}
+            outline={isSelected ? `2px dashed ${THEME.COLORS.accent}` : 'none'}
+            outlineOffset="2px"
+            onClick={onSelectBlock ? () => onSelectBlock(block.id) : undefined}
+          >
+            {text || (onSelectBlock ? ' ' : '')}
+          </Text>
+        );
+      })}
+    </Box>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * Check-in Pass Component
+ *
+ * Shows a guest's check-in QR code for door staff to scan at the venue.
+ * The code encodes the guest's signed check-in token.
+ *
+ * @module CheckInPass
+ */
+
+'use client';
+
+import { Box, Center, Heading, Image, Spinner, Stack, Text } from '@chakra-ui/react';
+import { useEffect, useState } from 'react';
+import { generateCheckInQrCode } from '@/src/lib/checkIn';
+import { THEME } from '@/src/lib/constants';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CheckInPassProps {
+  /** Signed guest check-in token */
+  token: string;
+  /** Guest name shown under the code */
+  guestName: string;
+}
+
+/** QR code size in pixels */
+const QR_SIZE = 220;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Check-in Pass
+ *
+ * @param props - Component props
+ * @returns Card with the guest's QR code
+ */
+export default function CheckInPass({ token, guestName }: CheckInPassProps) {
+  const { t } = useTranslation();
+  const [qrCode, setQrCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    generateCheckInQrCode(token, QR_SIZE * 2)
+      .then((dataUrl) => {
+        if (!cancelled) setQrCode(dataUrl);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <Box bg="white" borderRadius="xl" boxShadow="md" p={8} textAlign="center">
+      <Stack gap={4} align="center">
+        <Heading fontSize="lg" color={THEME.COLORS.primary}>
+          {t('checkInPass.title')}
+        </Heading>
+        <Text fontSize="sm" color="gray.600">
+          {t('checkInPass.hint')}
+        </Text>
+        <Center w={`${QR_SIZE}px`} h={`${QR_SIZE}px`}>
+          {qrCode ? (
+            <Image src={qrCode} alt={t('checkInPass.alt', { name: guestName })} w="full" h="full" />
+          ) : (
+            <Spinner color={THEME.COLORS.primary} />
+          )}
+        </Center>
+        <Text fontWeight="semibold" color="gray.800">
+          {guestName}
+        </Text>
+      </Stack>
+    </Box>
+  );
+}
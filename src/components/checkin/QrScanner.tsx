@@ -0,0 +1,167 @@
+/**
+ * QR Scanner Component
+ *
+ * Shows the device camera and reports QR codes it reads. Uses the rear
+ * camera on phones and samples a few frames per second, so it stays
+ * usable on low-end devices at the venue door.
+ *
+ * @module QrScanner
+ */
+
+'use client';
+
+import { Box, Center, Icon, Stack, Text } from '@chakra-ui/react';
+import { FiCameraOff } from 'react-icons/fi';
+import { useEffect, useRef, useState } from 'react';
+import { CHECK_IN_RESCAN_COOLDOWN_MS, decodeCheckInQrCode } from '@/src/lib/checkIn';
+import { THEME } from '@/src/lib/constants';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface QrScannerProps {
+  /** Whether the camera is on */
+  active: boolean;
+  /** Called with the text of each newly read code */
+  onScan: (text: string) => void;
+}
+
+/** Delay between decoded frames (milliseconds) */
+const SCAN_INTERVAL_MS = 250;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * QR Scanner
+ *
+ * The same code is reported once per CHECK_IN_RESCAN_COOLDOWN_MS, however
+ * long it stays in front of the camera.
+ *
+ * @param props - Component props
+ * @returns Camera view, or a message when the camera is off or unavailable
+ */
+export default function QrScanner({ active, onScan }: QrScannerProps) {
+  const { t } = useTranslation();
+  const [cameraError, setCameraError] = useState<'unsupported' | 'denied' | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+
+  // Keep the latest callback without restarting the camera
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!active) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let stopped = false;
+    let lastCode = '';
+    let lastCodeAt = 0;
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (stopped || !video || !context) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+        const text = await decodeCheckInQrCode(
+          context.getImageData(0, 0, canvas.width, canvas.height)
+        );
+        const now = Date.now();
+        if (text && !(text === lastCode && now - lastCodeAt < CHECK_IN_RESCAN_COOLDOWN_MS)) {
+          lastCode = text;
+          lastCodeAt = now;
+          onScanRef.current(text);
+        }
+      }
+
+      if (!stopped) {
+        timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+      }
+    };
+
+    const startCamera = async () => {
+      setCameraError(null);
+
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError('unsupported');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+      } catch {
+        setCameraError('denied');
+        return;
+      }
+
+      if (stopped || !videoRef.current) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play().catch(() => undefined);
+      scanFrame();
+    };
+
+    startCamera();
+
+    return () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [active]);
+
+  if (!active || cameraError) {
+    return (
+      <Center bg="gray.100" borderRadius="lg" aspectRatio={1} w="full" p={6}>
+        <Stack gap={3} align="center" textAlign="center">
+          <Icon as={FiCameraOff} w={10} h={10} color="gray.400" />
+          <Text fontSize="sm" color="gray.600">
+            {cameraError ? t(`qrScanner.${cameraError}`) : t('qrScanner.off')}
+          </Text>
+        </Stack>
+      </Center>
+    );
+  }
+
+  return (
+    <Box position="relative" borderRadius="lg" overflow="hidden" bg="black" aspectRatio={1} w="full">
+      <video
+        ref={videoRef}
+        muted
+        playsInline
+        style={{ width: '100%', height: '100%', objectFit: 'cover' }}
+      />
+      {/* Aiming frame */}
+      <Box
+        position="absolute"
+        top="20%"
+        left="20%"
+        right="20%"
+        bottom="20%"
+        border="3px solid"
+        borderColor={THEME.COLORS.accent}
+        borderRadius="lg"
+        pointerEvents="none"
+      />
+    </Box>
+  );
+}
@@ -0,0 +1,670 @@
+/**
+ * Automation Rules Panel Component
+ *
+ * Card on the event detail page for messages the event sends on its own:
+ * RSVP reminders to guests who have not responded, day-before reminders
+ * to confirmed guests and thank-you messages after the event. Each rule
+ * previews who it would message right now and can be paused. Invitation
+ * sends scheduled from the send flow are listed underneath.
+ *
+ * @module AutomationRulesPanel
+ */
+
+'use client';
+
+import {
+  Box,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  Badge,
+  Input,
+  Textarea,
+  Field,
+  SimpleGrid,
+  Spinner,
+  Center,
+} from '@chakra-ui/react';
+import { FiClock, FiPause, FiPlay, FiPlus, FiTrash2, FiX, FiZap } from 'react-icons/fi';
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  cancelScheduledSend,
+  createAutomationRule,
+  deleteAutomationRule,
+  formatRuleTiming,
+  formatScheduledAt,
+  getAutomationRules,
+  getAutomationTriggerDisplay,
+  getRuleRecipients,
+  getScheduledSends,
+  setAutomationRulePaused,
+} from '@/src/lib/automations';
+import { getEventGuests } from '@/src/lib/guests';
+import { getChannelDisplay } from '@/src/lib/invitations';
+import { getEventRsvps } from '@/src/lib/rsvps';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import useCustomToast from '@/src/hooks/useToast';
+import { AUTOMATION_TRIGGERS, INVITATION_CHANNELS, THEME } from '@/src/lib/constants';
+import type {
+  ApiError,
+  AutomationRule,
+  AutomationTrigger,
+  EventAccess,
+  EventDetail,
+  Guest,
+  LocaleContextType,
+  Rsvp,
+  ScheduledSend,
+} from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface AutomationRulesPanelProps {
+  /** Event the rules belong to */
+  event: EventDetail;
+  /** What the current user can do on the event */
+  access: EventAccess;
+}
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+/** Guest names shown in a rule's recipient preview before "and N more" */
+const RECIPIENT_PREVIEW_LIMIT = 20;
+
+const createRuleSchema = (t: LocaleContextType['t']) =>
+  z
+    .object({
+      trigger: z.enum(['rsvp_reminder', 'day_before_reminder', 'thank_you']),
+      channel: z.enum(['sms', 'whatsapp', 'email']),
+      offset_days: z
+        .number({ message: t('automations.daysNumber') })
+        .int(t('automations.daysWhole'))
+        .min(0, t('automations.daysNegative'))
+        .max(60, t('automations.daysMax', { max: 60 })),
+      send_time: z.string().min(1, t('validation.timeRequired')),
+      subject: z.string(),
+      message: z
+        .string()
+        .min(1, t('validation.messageRequired'))
+        .max(MAX_MESSAGE_LENGTH, t('validation.messageMax', { max: MAX_MESSAGE_LENGTH })),
+    })
+    .refine((data) => data.channel !== 'email' || !!data.subject.trim(), {
+      path: ['subject'],
+      message: t('validation.subjectRequired'),
+    });
+
+type RuleFormValues = z.infer<ReturnType<typeof createRuleSchema>>;
+
+const DEFAULT_RULE_VALUES: RuleFormValues = {
+  trigger: AUTOMATION_TRIGGERS[0].value,
+  channel: 'sms',
+  offset_days: AUTOMATION_TRIGGERS[0].default_offset_days,
+  send_time: '10:00',
+  subject: '',
+  message: AUTOMATION_TRIGGERS[0].default_message,
+};
+
+const selectStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  borderRadius: '6px',
+  border: '2px solid #E2E8F0',
+  backgroundColor: 'white',
+  fontSize: '14px',
+  cursor: 'pointer',
+  outline: 'none',
+};
+
+const focusStyle = {
+  borderColor: THEME.COLORS.primary,
+  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+  outline: 'none',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Automation Rules Panel
+ *
+ * @param props - Component props
+ * @returns Automations card
+ */
+export default function AutomationRulesPanel({ event, access }: AutomationRulesPanelProps) {
+  const { t } = useTranslation();
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [scheduledSends, setScheduledSends] = useState<ScheduledSend[]>([]);
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [rsvps, setRsvps] = useState<Rsvp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [expandedRuleId, setExpandedRuleId] = useState<number | null>(null);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<AutomationRule | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const toast = useCustomToast();
+
+  const ruleSchema = useMemo(() => createRuleSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: DEFAULT_RULE_VALUES,
+  });
+
+  const formTrigger = watch('trigger');
+  const formChannel = watch('channel');
+  const formOffsetDays = watch('offset_days');
+
+  useEffect(() => {
+    const loadAutomations = async () => {
+      try {
+        const [ruleData, sendData, guestData, rsvpData] = await Promise.all([
+          getAutomationRules(event.id),
+          getScheduledSends(event.id),
+          getEventGuests(event.id),
+          getEventRsvps(event.id),
+        ]);
+        setRules(ruleData);
+        setScheduledSends(sendData);
+        setGuests(guestData);
+        setRsvps(rsvpData);
+      } catch (error) {
+        toast.error(
+          t('automations.loadError'),
+          (error as ApiError)?.message || t('automations.loadErrorMessage')
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadAutomations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [event.id]);
+
+  // Switching the trigger swaps in its default timing and message
+  const handleTriggerChange = (trigger: AutomationTrigger) => {
+    const display = getAutomationTriggerDisplay(trigger);
+    setValue('offset_days', display.default_offset_days);
+    setValue('message', display.default_message);
+  };
+
+  const onCreate = async (data: RuleFormValues) => {
+    try {
+      const rule = await createAutomationRule(event.id, {
+        ...data,
+        subject: data.channel === 'email' ? data.subject.trim() : '',
+        message: data.message.trim(),
+      });
+      setRules((prev) => [...prev, rule]);
+      toast.success(
+        t('automations.added'),
+        `${getAutomationTriggerDisplay(rule.trigger).label}: ${formatRuleTiming(
+          rule.trigger,
+          rule.offset_days
+        ).toLowerCase()}.`
+      );
+      reset(DEFAULT_RULE_VALUES);
+      setIsFormOpen(false);
+    } catch (error) {
+      toast.error(
+        t('automations.addError'),
+        (error as ApiError)?.message || t('automations.addErrorMessage')
+      );
+    }
+  };
+
+  const handleTogglePaused = async (rule: AutomationRule) => {
+    setUpdatingId(rule.id);
+    try {
+      const updated = await setAutomationRulePaused(event.id, rule.id, !rule.is_paused);
+      setRules((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      toast.success(
+        updated.is_paused ? t('automations.paused') : t('automations.resumed'),
+        updated.is_paused
+          ? t('automations.pausedMessage')
+          : updated.next_run_at
+          ? t('automations.nextSendMessage', { time: formatScheduledAt(updated.next_run_at) })
+          : t('automations.nothingLeftMessage')
+      );
+    } catch (error) {
+      toast.error(
+        t('automations.updateError'),
+        (error as ApiError)?.message || t('automations.updateErrorMessage')
+      );
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return;
+    setIsDeleting(true);
+    try {
+      await deleteAutomationRule(event.id, ruleToDelete.id);
+      setRules((prev) => prev.filter((item) => item.id !== ruleToDelete.id));
+      toast.success(
+        t('automations.deleted'),
+        getAutomationTriggerDisplay(ruleToDelete.trigger).label
+      );
+      setRuleToDelete(null);
+    } catch (error) {
+      toast.error(
+        t('automations.deleteError'),
+        (error as ApiError)?.message || t('automations.deleteErrorMessage')
+      );
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleCancelSend = async (send: ScheduledSend) => {
+    setCancellingId(send.id);
+    try {
+      await cancelScheduledSend(event.id, send.id);
+      setScheduledSends((prev) => prev.filter((item) => item.id !== send.id));
+      toast.success(
+        t('automations.sendCancelled'),
+        t('automations.sendCancelledMessage', { time: formatScheduledAt(send.scheduled_at) })
+      );
+    } catch (error) {
+      toast.error(
+        t('automations.cancelError'),
+        (error as ApiError)?.message || t('automations.cancelErrorMessage')
+      );
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const formRecipients = getRuleRecipients(formTrigger, formChannel, guests, rsvps);
+
+  return (
+    <Box bg="white" borderRadius="xl" boxShadow="md" p={8}>
+      <Stack gap={6}>
+        <Flex justify="space-between" align="center" gap={4} flexWrap="wrap">
+          <Stack gap={1}>
+            <Heading fontSize="xl" color={THEME.COLORS.primary}>
+              {t('automations.title')}
+            </Heading>
+            <Text fontSize="sm" color="gray.600">
+              {t('automations.subtitle')}
+            </Text>
+          </Stack>
+          {access.canSend && !isFormOpen && (
+            <Button
+              size="sm"
+              {...THEME.BUTTON_STYLES.secondaryButton}
+              variant="outline"
+              onClick={() => setIsFormOpen(true)}
+            >
+              <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                <Icon as={FiPlus} />
+              </Box>
+              {t('automations.add')}
+            </Button>
+          )}
+        </Flex>
+
+        {/* NEW RULE FORM */}
+        {isFormOpen && (
+          <Box bg="gray.50" borderRadius="md" p={4}>
+            <form onSubmit={handleSubmit(onCreate)}>
+              <Stack gap={4}>
+                <SimpleGrid columns={{ base: 1, md: 2 }} gap={4}>
+                  <Field.Root>
+                    <Field.Label fontWeight="semibold" color="gray.700">
+                      {t('automations.send')}
+                    </Field.Label>
+                    <select
+                      {...register('trigger', {
+                        onChange: (e) => handleTriggerChange(e.target.value as AutomationTrigger),
+                      })}
+                      style={selectStyle}
+                    >
+                      {AUTOMATION_TRIGGERS.map((trigger) => {
+                        const display = getAutomationTriggerDisplay(trigger.value);
+                        return (
+                          <option key={trigger.value} value={trigger.value}>
+                            {display.label} – {display.description}
+                          </option>
+                        );
+                      })}
+                    </select>
+                  </Field.Root>
+
+                  <Field.Root>
+                    <Field.Label fontWeight="semibold" color="gray.700">
+                      {t('common.channel')}
+                    </Field.Label>
+                    <select {...register('channel')} style={selectStyle}>
+                      {INVITATION_CHANNELS.map((channel) => (
+                        <option key={channel.value} value={channel.value}>
+                          {channel.icon} {getChannelDisplay(channel.value).label}
+                        </option>
+                      ))}
+                    </select>
+                  </Field.Root>
+
+                  <Field.Root invalid={!!errors.offset_days}>
+                    <Field.Label fontWeight="semibold" color="gray.700">
+                      {formTrigger === 'thank_you'
+                        ? t('automations.daysAfter')
+                        : t('automations.daysBefore')}
+                    </Field.Label>
+                    <Input
+                      {...register('offset_days', { valueAsNumber: true })}
+                      type="number"
+                      min={0}
+                      bg="white"
+                      _focus={focusStyle}
+                    />
+                    <Field.ErrorText>{errors.offset_days?.message}</Field.ErrorText>
+                  </Field.Root>
+
+                  <Field.Root invalid={!!errors.send_time}>
+                    <Field.Label fontWeight="semibold" color="gray.700">
+                      {t('automations.at')}
+                    </Field.Label>
+                    <Input {...register('send_time')} type="time" bg="white" _focus={focusStyle} />
+                    <Field.ErrorText>{errors.send_time?.message}</Field.ErrorText>
+                  </Field.Root>
+                </SimpleGrid>
+
+                {formChannel === 'email' && (
+                  <Field.Root invalid={!!errors.subject} required>
+                    <Field.Label fontWeight="semibold" color="gray.700">
+                      {t('automations.emailSubject')}
+                    </Field.Label>
+                    <Input {...register('subject')} bg="white" _focus={focusStyle} />
+                    <Field.ErrorText>{errors.subject?.message}</Field.ErrorText>
+                  </Field.Root>
+                )}
+
+                <Field.Root invalid={!!errors.message} required>
+                  <Field.Label fontWeight="semibold" color="gray.700">
+                    {t('common.message')}
+                  </Field.Label>
+                  <Textarea {...register('message')} rows={4} bg="white" _focus={focusStyle} />
+                  {errors.message ? (
+                    <Field.ErrorText>{errors.message.message}</Field.ErrorText>
+                  ) : (
+                    <Field.HelperText>
+                      {t('automations.mergeFieldsHelp', {
+                        guestName: '{{guest_name}}',
+                        rsvpLink: '{{rsvp_link}}',
+                      })}
+                    </Field.HelperText>
+                  )}
+                </Field.Root>
+
+                <Text fontSize="sm" color="gray.600">
+                  {Number.isNaN(formOffsetDays)
+                    ? t('automations.enterDays')
+                    : t('automations.formPreview', {
+                        timing: formatRuleTiming(formTrigger, formOffsetDays),
+                        count: formRecipients.length,
+                      })}
+                </Text>
+
+                <Flex justify="flex-end" gap={3}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      reset(DEFAULT_RULE_VALUES);
+                      setIsFormOpen(false);
+                    }}
+                  >
+                    {t('common.cancel')}
+                  </Button>
+                  <Button
+                    type="submit"
+                    size="sm"
+                    loading={isSubmitting}
+                    {...THEME.BUTTON_STYLES.primaryButton}
+                  >
+                    {t('automations.add')}
+                  </Button>
+                </Flex>
+              </Stack>
+            </form>
+          </Box>
+        )}
+
+        {loading ? (
+          <Center py={6}>
+            <Spinner size="md" color={THEME.COLORS.primary} />
+          </Center>
+        ) : (
+          <>
+            {/* RULES */}
+            {rules.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">
+                {access.canSend
+                  ? t('automations.emptyCanSend')
+                  : t('automations.empty')}
+              </Text>
+            ) : (
+              <Stack gap={3}>
+                {rules.map((rule) => {
+                  const trigger = getAutomationTriggerDisplay(rule.trigger);
+                  const recipients = getRuleRecipients(rule.trigger, rule.channel, guests, rsvps);
+                  const isExpanded = expandedRuleId === rule.id;
+
+                  return (
+                    <Box
+                      key={rule.id}
+                      border="1px solid"
+                      borderColor="gray.200"
+                      borderRadius="lg"
+                      p={4}
+                      opacity={rule.is_paused ? 0.7 : 1}
+                    >
+                      <Flex
+                        justify="space-between"
+                        align={{ base: 'start', md: 'center' }}
+                        direction={{ base: 'column', md: 'row' }}
+                        gap={3}
+                      >
+                        <Stack gap={1} minW={0}>
+                          <Flex align="center" gap={2} flexWrap="wrap">
+                            <Icon as={FiZap} color={THEME.COLORS.primary} />
+                            <Text fontWeight="semibold" color="gray.800">
+                              {trigger.label}
+                            </Text>
+                            <Badge>{getChannelDisplay(rule.channel).label}</Badge>
+                            {rule.is_paused && (
+                              <Badge colorScheme="orange">{t('automations.pausedBadge')}</Badge>
+                            )}
+                          </Flex>
+                          <Text fontSize="sm" color="gray.600">
+                            {t('automations.timingAt', {
+                              timing: formatRuleTiming(rule.trigger, rule.offset_days),
+                              time: rule.send_time,
+                            })}
+                            {' · '}
+                            {rule.is_paused
+                              ? t('automations.pausedBadge')
+                              : rule.next_run_at
+                              ? t('automations.next', { time: formatScheduledAt(rule.next_run_at) })
+                              : t('automations.nothingLeft')}
+                            {rule.sent_count > 0 &&
+                              ` · ${t('automations.sentCount', { count: rule.sent_count })}`}
+                          </Text>
+                        </Stack>
+
+                        {access.canSend && (
+                          <Flex gap={1} flexShrink={0}>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleTogglePaused(rule)}
+                              loading={updatingId === rule.id}
+                            >
+                              <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                                <Icon as={rule.is_paused ? FiPlay : FiPause} />
+                              </Box>
+                              {rule.is_paused ? t('automations.resume') : t('automations.pause')}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              colorScheme="red"
+                              onClick={() => setRuleToDelete(rule)}
+                              aria-label={t('automations.deleteLabel', { name: trigger.label })}
+                            >
+                              <Icon as={FiTrash2} />
+                            </Button>
+                          </Flex>
+                        )}
+                      </Flex>
+
+                      {/* RECIPIENT PREVIEW */}
+                      <Flex align="center" gap={2} mt={3} fontSize="sm" flexWrap="wrap">
+                        <Text color="gray.700">
+                          {t('automations.wouldGoTo', { count: recipients.length })}
+                        </Text>
+                        {recipients.length > 0 && (
+                          <Button
+                            size="xs"
+                            variant="ghost"
+                            color={THEME.COLORS.primary}
+                            onClick={() => setExpandedRuleId(isExpanded ? null : rule.id)}
+                          >
+                            {isExpanded ? t('automations.hide') : t('automations.show')}
+                          </Button>
+                        )}
+                      </Flex>
+                      {isExpanded && (
+                        <Flex gap={2} mt={2} flexWrap="wrap">
+                          {recipients.slice(0, RECIPIENT_PREVIEW_LIMIT).map((guest) => (
+                            <Badge key={guest.id} variant="subtle">
+                              {guest.full_name}
+                            </Badge>
+                          ))}
+                          {recipients.length > RECIPIENT_PREVIEW_LIMIT && (
+                            <Text fontSize="xs" color="gray.500">
+                              {t('automations.andMore', {
+                                count: recipients.length - RECIPIENT_PREVIEW_LIMIT,
+                              })}
+                            </Text>
+                          )}
+                        </Flex>
+                      )}
+                    </Box>
+                  );
+                })}
+              </Stack>
+            )}
+
+            {/* SCHEDULED SENDS */}
+            {scheduledSends.length > 0 && (
+              <Stack gap={0}>
+                <Text fontWeight="semibold" color="gray.700" mb={2}>
+                  {t('automations.scheduledInvitations')}
+                </Text>
+                {scheduledSends.map((send) => (
+                  <Flex
+                    key={send.id}
+                    align="center"
+                    gap={3}
+                    py={3}
+                    borderTop="1px solid"
+                    borderColor="gray.100"
+                  >
+                    <Icon as={FiClock} w={5} h={5} color="gray.500" />
+                    <Box flex={1} minW={0}>
+                      <Text fontWeight="semibold" color="gray.800">
+                        {formatScheduledAt(send.scheduled_at)}
+                      </Text>
+                      <Text fontSize="sm" color="gray.500" truncate>
+                        {getChannelDisplay(send.channel).label} ·{' '}
+                        {send.recipient_scope === 'all'
+                          ? t('automations.scopeAll')
+                          : send.recipient_scope === 'not_invited'
+                          ? t('automations.scopeNotInvited')
+                          : t('automations.scopeSelected', { count: send.guest_count ?? 0 })}{' '}
+                        · {t('automations.by', { name: send.created_by_name })}
+                      </Text>
+                    </Box>
+                    {access.canSend && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        colorScheme="red"
+                        onClick={() => handleCancelSend(send)}
+                        loading={cancellingId === send.id}
+                        aria-label={t('automations.cancelSendLabel', {
+                          time: formatScheduledAt(send.scheduled_at),
+                        })}
+                      >
+                        <Icon as={FiX} />
+                      </Button>
+                    )}
+                  </Flex>
+                ))}
+              </Stack>
+            )}
+          </>
+        )}
+      </Stack>
+
+      {/* DELETE CONFIRMATION */}
+      {ruleToDelete && (
+        <Box
+          position="fixed"
+          inset={0}
+          bg="blackAlpha.600"
+          display="flex"
+          alignItems="center"
+          justifyContent="center"
+          zIndex={1000}
+        >
+          <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+            <Stack gap={4}>
+              <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                {t('automations.deleteTitle')}
+              </Heading>
+              <Text color="gray.700">
+                {t('automations.deleteMessage', {
+                  name: getAutomationTriggerDisplay(ruleToDelete.trigger).label.toLowerCase(),
+                })}
+              </Text>
+              <Flex justify="flex-end" gap={3}>
+                <Button
+                  variant="outline"
+                  onClick={() => setRuleToDelete(null)}
+                  disabled={isDeleting}
+                >
+                  {t('common.cancel')}
+                </Button>
+                <Button colorScheme="red" onClick={handleDelete} loading={isDeleting}>
+                  {t('common.delete')}
+                </Button>
+              </Flex>
+            </Stack>
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+}
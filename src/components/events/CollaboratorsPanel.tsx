@@ -0,0 +1,457 @@
+/**
+ * Collaborators Panel Component
+ *
+ * Card on the event detail page listing everyone with access to the event:
+ * the organizer, the workspace it belongs to and its co-hosts. Event
+ * managers share the event by email, change co-host permissions and revoke
+ * access.
+ *
+ * @module CollaboratorsPanel
+ */
+
+'use client';
+
+import {
+  Box,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  Badge,
+  Input,
+  Field,
+  Spinner,
+  Center,
+} from '@chakra-ui/react';
+import { FiBriefcase, FiUser, FiUserPlus, FiUsers, FiX } from 'react-icons/fi';
+import { useEffect, useMemo, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  getEventCollaborators,
+  getPermissionDisplay,
+  inviteCollaborator,
+  revokeCollaborator,
+  updateCollaboratorPermission,
+} from '@/src/lib/collaborators';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import useCustomToast from '@/src/hooks/useToast';
+import { COLLABORATOR_PERMISSIONS, THEME } from '@/src/lib/constants';
+import type {
+  ApiError,
+  CollaboratorPermission,
+  EventAccess,
+  EventCollaborator,
+  EventDetail,
+  LocaleContextType,
+} from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CollaboratorsPanelProps {
+  /** Event being shared */
+  event: EventDetail;
+  /** What the current user can do on the event */
+  access: EventAccess;
+}
+
+const createInviteSchema = (t: LocaleContextType['t']) =>
+  z.object({
+    email: z.string().email(t('validation.emailInvalid')).min(1, t('validation.emailRequired')),
+    permission: z.enum(['edit', 'manage_guests', 'send', 'view']),
+  });
+
+type InviteFormValues = z.infer<ReturnType<typeof createInviteSchema>>;
+
+const selectStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  borderRadius: '6px',
+  border: '2px solid #E2E8F0',
+  backgroundColor: 'white',
+  fontSize: '14px',
+  cursor: 'pointer',
+  outline: 'none',
+};
+
+/**
+ * Name to show for a co-host (pending invitations only have an email)
+ */
+const getCollaboratorName = (collaborator: EventCollaborator): string =>
+  collaborator.first_name
+    ? `${collaborator.first_name} ${collaborator.last_name}`.trim()
+    : collaborator.email;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Collaborators Panel
+ *
+ * @param props - Component props
+ * @returns People with access card
+ */
+export default function CollaboratorsPanel({ event, access }: CollaboratorsPanelProps) {
+  const { t } = useTranslation();
+  const [collaborators, setCollaborators] = useState<EventCollaborator[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [collaboratorToRevoke, setCollaboratorToRevoke] = useState<EventCollaborator | null>(
+    null
+  );
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const toast = useCustomToast();
+
+  const inviteSchema = useMemo(() => createInviteSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { email: '', permission: 'manage_guests' },
+  });
+
+  const loadCollaborators = async () => {
+    setLoading(true);
+    try {
+      const data = await getEventCollaborators(event.id);
+      setCollaborators(data);
+    } catch (error) {
+      toast.error(
+        t('collaborators.loadError'),
+        (error as ApiError)?.message || t('collaborators.loadErrorMessage')
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCollaborators();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [event.id]);
+
+  const onInvite = async (data: InviteFormValues) => {
+    try {
+      const collaborator = await inviteCollaborator(event.id, data);
+      setCollaborators((prev) => [...prev, collaborator]);
+      toast.success(
+        t('collaborators.shared'),
+        collaborator.status === 'pending'
+          ? t('collaborators.sharedPending', { email: collaborator.email })
+          : t('collaborators.sharedActive', {
+              name: getCollaboratorName(collaborator),
+              permission: getPermissionDisplay(collaborator.permission).label.toLowerCase(),
+            })
+      );
+      reset({ email: '', permission: data.permission });
+      setIsInviteOpen(false);
+    } catch (error) {
+      toast.error(
+        t('collaborators.shareError'),
+        (error as ApiError)?.message || t('collaborators.shareErrorMessage')
+      );
+    }
+  };
+
+  const handlePermissionChange = async (
+    collaborator: EventCollaborator,
+    permission: CollaboratorPermission
+  ) => {
+    if (permission === collaborator.permission) return;
+    setUpdatingId(collaborator.id);
+    try {
+      const updated = await updateCollaboratorPermission(event.id, collaborator.id, permission);
+      setCollaborators((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      toast.success(
+        t('collaborators.permissionUpdated'),
+        `${getCollaboratorName(collaborator)}: ${getPermissionDisplay(updated.permission).label}.`
+      );
+    } catch (error) {
+      toast.error(
+        t('collaborators.permissionError'),
+        (error as ApiError)?.message || t('collaborators.permissionErrorMessage')
+      );
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!collaboratorToRevoke) return;
+    setIsRevoking(true);
+    try {
+      await revokeCollaborator(event.id, collaboratorToRevoke.id);
+      setCollaborators((prev) => prev.filter((item) => item.id !== collaboratorToRevoke.id));
+      toast.success(
+        t('collaborators.revoked'),
+        t('collaborators.revokedMessage', {
+          name: getCollaboratorName(collaboratorToRevoke),
+          event: event.event_name,
+        })
+      );
+      setCollaboratorToRevoke(null);
+    } catch (error) {
+      toast.error(
+        t('collaborators.revokeError'),
+        (error as ApiError)?.message || t('collaborators.revokeErrorMessage')
+      );
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  return (
+    <Box bg="white" borderRadius="xl" boxShadow="md" p={8}>
+      <Stack gap={6}>
+        <Flex justify="space-between" align="center" gap={4} flexWrap="wrap">
+          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+            {t('collaborators.title')}
+          </Heading>
+          {access.canManageCollaborators && !isInviteOpen && (
+            <Button
+              size="sm"
+              {...THEME.BUTTON_STYLES.secondaryButton}
+              variant="outline"
+              onClick={() => setIsInviteOpen(true)}
+            >
+              <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                <Icon as={FiUserPlus} />
+              </Box>
+              {t('collaborators.addCohost')}
+            </Button>
+          )}
+        </Flex>
+
+        {/* INVITE FORM */}
+        {isInviteOpen && (
+          <Box bg="gray.50" borderRadius="md" p={4}>
+            <form onSubmit={handleSubmit(onInvite)}>
+              <Stack gap={4}>
+                <Field.Root invalid={!!errors.email} required>
+                  <Field.Label fontWeight="semibold" color="gray.700">
+                    {t('collaborators.emailLabel')}
+                  </Field.Label>
+                  <Input
+                    {...register('email')}
+                    type="email"
+                    bg="white"
+                    placeholder={t('collaborators.emailPlaceholder')}
+                    _focus={{
+                      borderColor: THEME.COLORS.primary,
+                      boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+                      outline: 'none',
+                    }}
+                  />
+                  <Field.ErrorText>{errors.email?.message}</Field.ErrorText>
+                </Field.Root>
+
+                <Field.Root>
+                  <Field.Label fontWeight="semibold" color="gray.700">
+                    {t('collaborators.permission')}
+                  </Field.Label>
+                  <select {...register('permission')} style={selectStyle}>
+                    {COLLABORATOR_PERMISSIONS.map((permission) => {
+                      const display = getPermissionDisplay(permission.value);
+                      return (
+                        <option key={permission.value} value={permission.value}>
+                          {display.label} – {display.description}
+                        </option>
+                      );
+                    })}
+                  </select>
+                </Field.Root>
+
+                <Flex justify="flex-end" gap={3}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      reset();
+                      setIsInviteOpen(false);
+                    }}
+                  >
+                    {t('common.cancel')}
+                  </Button>
+                  <Button
+                    type="submit"
+                    size="sm"
+                    loading={isSubmitting}
+                    {...THEME.BUTTON_STYLES.primaryButton}
+                  >
+                    {t('collaborators.shareEvent')}
+                  </Button>
+                </Flex>
+              </Stack>
+            </form>
+          </Box>
+        )}
+
+        <Stack gap={0}>
+          {/* ORGANIZER */}
+          <Flex align="center" gap={3} py={3}>
+            <Icon as={FiUser} w={5} h={5} color="gray.500" />
+            <Box flex={1} minW={0}>
+              <Text fontWeight="semibold" color="gray.800">
+                {event.created_by.first_name} {event.created_by.last_name}
+              </Text>
+              <Text fontSize="sm" color="gray.500" truncate>
+                {event.created_by.email}
+              </Text>
+            </Box>
+            <Badge colorScheme="purple">{t('collaborators.organizer')}</Badge>
+          </Flex>
+
+          {/* WORKSPACE */}
+          {event.organization_name && (
+            <Flex align="center" gap={3} py={3} borderTop="1px solid" borderColor="gray.100">
+              <Icon as={FiBriefcase} w={5} h={5} color="gray.500" />
+              <Box flex={1} minW={0}>
+                <Text fontWeight="semibold" color="gray.800">
+                  {event.organization_name}
+                </Text>
+                <Text fontSize="sm" color="gray.500">
+                  {t('collaborators.workspaceMembers')}
+                </Text>
+              </Box>
+              <Badge colorScheme="blue">{t('nav.workspace')}</Badge>
+            </Flex>
+          )}
+
+          {/* CO-HOSTS */}
+          {loading ? (
+            <Center py={6}>
+              <Spinner size="md" color={THEME.COLORS.primary} />
+            </Center>
+          ) : (
+            collaborators.map((collaborator) => {
+              const permissionDisplay = getPermissionDisplay(collaborator.permission);
+
+              return (
+                <Flex
+                  key={collaborator.id}
+                  align={{ base: 'start', md: 'center' }}
+                  direction={{ base: 'column', md: 'row' }}
+                  gap={3}
+                  py={3}
+                  borderTop="1px solid"
+                  borderColor="gray.100"
+                >
+                  <Flex align="center" gap={3} flex={1} minW={0}>
+                    <Icon as={FiUsers} w={5} h={5} color="gray.500" />
+                    <Box minW={0}>
+                      <Text fontWeight="semibold" color="gray.800" truncate>
+                        {getCollaboratorName(collaborator)}
+                      </Text>
+                      <Text fontSize="sm" color="gray.500" truncate>
+                        {collaborator.status === 'pending'
+                          ? t('collaborators.invitationPending')
+                          : collaborator.email}
+                      </Text>
+                    </Box>
+                  </Flex>
+
+                  {access.canManageCollaborators ? (
+                    <Flex align="center" gap={2} w={{ base: 'full', md: 'auto' }}>
+                      <Box w={{ base: 'full', md: '180px' }}>
+                        <select
+                          value={collaborator.permission}
+                          disabled={updatingId === collaborator.id}
+                          onChange={(e) =>
+                            handlePermissionChange(
+                              collaborator,
+                              e.target.value as CollaboratorPermission
+                            )
+                          }
+                          aria-label={t('collaborators.permissionFor', {
+                            name: getCollaboratorName(collaborator),
+                          })}
+                          style={selectStyle}
+                        >
+                          {COLLABORATOR_PERMISSIONS.map((permission) => (
+                            <option key={permission.value} value={permission.value}>
+                              {getPermissionDisplay(permission.value).label}
+                            </option>
+                          ))}
+                        </select>
+                      </Box>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        colorScheme="red"
+                        onClick={() => setCollaboratorToRevoke(collaborator)}
+                        aria-label={t('collaborators.revokeFor', {
+                          name: getCollaboratorName(collaborator),
+                        })}
+                      >
+                        <Icon as={FiX} />
+                      </Button>
+                    </Flex>
+                  ) : (
+                    <Badge colorScheme={permissionDisplay.color}>{permissionDisplay.label}</Badge>
+                  )}
+                </Flex>
+              );
+            })
+          )}
+        </Stack>
+
+        {!loading && collaborators.length === 0 && access.canManageCollaborators && (
+          <Text fontSize="sm" color="gray.500">
+            {t('collaborators.emptyHint')}
+          </Text>
+        )}
+      </Stack>
+
+      {/* REVOKE CONFIRMATION */}
+      {collaboratorToRevoke && (
+        <Box
+          position="fixed"
+          inset={0}
+          bg="blackAlpha.600"
+          display="flex"
+          alignItems="center"
+          justifyContent="center"
+          zIndex={1000}
+        >
+          <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+            <Stack gap={4}>
+              <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                {t('collaborators.revokeTitle')}
+              </Heading>
+              <Text color="gray.700">
+                {t('collaborators.revokeMessage', {
+                  name: getCollaboratorName(collaboratorToRevoke),
+                  event: event.event_name,
+                })}
+              </Text>
+              <Flex justify="flex-end" gap={3}>
+                <Button
+                  variant="outline"
+                  onClick={() => setCollaboratorToRevoke(null)}
+                  disabled={isRevoking}
+                >
+                  {t('common.cancel')}
+                </Button>
+                <Button colorScheme="red" onClick={handleRevoke} loading={isRevoking}>
+                  {t('collaborators.revokeAccess')}
+                </Button>
+              </Flex>
+            </Stack>
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+}
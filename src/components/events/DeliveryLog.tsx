@@ -0,0 +1,534 @@
+/**
+ * Delivery Log Component
+ *
+ * Card on the event detail page tracking every invitation message after it
+ * was sent: queued, sent, delivered, read or failed with the provider's
+ * reason. Shows delivery and read rates, and lets senders retry failed
+ * messages on the same channel or a fallback one once their credit
+ * balance covers the cost.
+ *
+ * @module DeliveryLog
+ */
+
+'use client';
+
+import {
+  Box,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  Badge,
+  SimpleGrid,
+  Spinner,
+  Center,
+} from '@chakra-ui/react';
+import { FiAlertCircle, FiPlus, FiRefreshCw, FiRotateCw } from 'react-icons/fi';
+import { useEffect, useState } from 'react';
+import {
+  canReceiveInvitation,
+  getChannelDisplay,
+  getEventInvitations,
+  getInvitationStatusDisplay,
+  retryInvitations,
+  summarizeDeliveries,
+} from '@/src/lib/invitations';
+import {
+  estimateMessageCost,
+  formatAmount,
+  getCreditShortfall,
+  getSubscription,
+  getUsageSummary,
+} from '@/src/lib/billing';
+import { getEventGuests } from '@/src/lib/guests';
+import { getSmsSegmentInfo } from '@/src/lib/templates';
+import { formatActivityTime } from '@/src/lib/activity';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import useCustomToast from '@/src/hooks/useToast';
+import useWalletBalance from '@/src/hooks/useWalletBalance';
+import MpesaCheckoutDialog from '@/src/components/billing/MpesaCheckoutDialog';
+import { INVITATION_CHANNELS, INVITATION_STATUSES, THEME } from '@/src/lib/constants';
+import type {
+  ApiError,
+  EventAccess,
+  EventDetail,
+  Guest,
+  Invitation,
+  InvitationChannel,
+  InvitationStatus,
+  PaymentTransaction,
+  Subscription,
+  UsageSummary,
+} from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface DeliveryLogProps {
+  /** Event the invitations belong to */
+  event: EventDetail;
+  /** What the current user can do on the event */
+  access: EventAccess;
+}
+
+/** Messages shown before "Show More" */
+const DELIVERY_LOG_PAGE_SIZE = 20;
+
+const selectStyle = {
+  width: '100%',
+  padding: '8px 12px',
+  borderRadius: '6px',
+  border: '2px solid #E2E8F0',
+  backgroundColor: 'white',
+  fontSize: '14px',
+  cursor: 'pointer',
+  outline: 'none',
+};
+
+/**
+ * Most recent status change of an invitation
+ */
+const getLastUpdate = (invitation: Invitation): string =>
+  invitation.read_at ?? invitation.delivered_at ?? invitation.sent_at ?? invitation.created_at;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Delivery Log
+ *
+ * @param props - Component props
+ * @returns Delivery status card
+ */
+export default function DeliveryLog({ event, access }: DeliveryLogProps) {
+  const { t } = useTranslation();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | 'all'>('all');
+  const [visibleCount, setVisibleCount] = useState(DELIVERY_LOG_PAGE_SIZE);
+  const [isRetryOpen, setIsRetryOpen] = useState(false);
+  // Empty string resends each message on the channel it failed on
+  const [retryChannel, setRetryChannel] = useState<InvitationChannel | ''>('');
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [isTopUpOpen, setIsTopUpOpen] = useState(false);
+
+  const toast = useCustomToast();
+  const { wallet, refresh: refreshWallet } = useWalletBalance(isRetryOpen);
+
+  // Retries are paid like first sends, so load the plan when asked to retry
+  useEffect(() => {
+    if (!isRetryOpen) return;
+    Promise.all([getSubscription(), getUsageSummary()])
+      .then(([subscriptionData, usageData]) => {
+        setSubscription(subscriptionData);
+        setUsage(usageData);
+      })
+      .catch((error) => console.error('Error loading subscription:', error));
+    getEventGuests(event.id)
+      .then(setGuests)
+      .catch((error) => console.error('Error loading guests:', error));
+  }, [isRetryOpen, event.id]);
+
+  const loadInvitations = async () => {
+    try {
+      const data = await getEventInvitations(event.id);
+      setInvitations(data);
+    } catch (error) {
+      toast.error(
+        t('deliveryLog.loadError'),
+        (error as ApiError)?.message || t('deliveryLog.loadErrorMessage')
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadInvitations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [event.id]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadInvitations();
+    setIsRefreshing(false);
+  };
+
+  // A failed message that was retried is replaced by its retry in the totals
+  const retriedIds = new Set(
+    invitations.map((invitation) => invitation.retry_of).filter((id) => id !== null)
+  );
+  const currentInvitations = invitations.filter((invitation) => !retriedIds.has(invitation.id));
+  const summary = summarizeDeliveries(currentInvitations);
+  const failedInvitations = currentInvitations.filter(
+    (invitation) => invitation.status === 'failed'
+  );
+
+  const filteredInvitations = invitations.filter(
+    (invitation) => statusFilter === 'all' || invitation.status === statusFilter
+  );
+
+  // Guests the channel can't reach are skipped by the backend, and every SMS
+  // segment of the text that was sent is billed as one message
+  const guestsById = new Map(guests.map((guest) => [guest.id, guest]));
+  const retryMessages = failedInvitations.reduce<Partial<Record<InvitationChannel, number>>>(
+    (counts, invitation) => {
+      const channel = retryChannel || invitation.channel;
+      const guest = guestsById.get(invitation.guest);
+      if (guest && !canReceiveInvitation(guest, channel)) return counts;
+
+      const messages = channel === 'sms' ? getSmsSegmentInfo(invitation.message).segments : 1;
+      counts[channel] = (counts[channel] ?? 0) + messages;
+      return counts;
+    },
+    {}
+  );
+  const retryCost = estimateMessageCost(subscription?.plan ?? 'payg', retryMessages, usage);
+  // The backend rejects sends the credit balance can't cover
+  const creditShortfall =
+    subscription && wallet ? getCreditShortfall(wallet, retryCost.total) : 0;
+
+  const handleTopUpSuccess = (transaction: PaymentTransaction) => {
+    toast.success(
+      t('invitations.creditAdded'),
+      t('invitations.creditAddedMessage', {
+        amount: formatAmount(transaction.amount, transaction.currency),
+      })
+    );
+    refreshWallet().catch(() => undefined);
+  };
+
+  const handleRetry = async () => {
+    if (creditShortfall > 0) return;
+    setIsRetrying(true);
+    try {
+      const result = await retryInvitations(event.id, {
+        invitation_ids: failedInvitations.map((invitation) => invitation.id),
+        channel: retryChannel || null,
+      });
+      toast.success(
+        t('deliveryLog.retryQueued'),
+        [
+          t('deliveryLog.retryQueuedMessage', { count: result.retried_count }),
+          result.skipped_count > 0 &&
+            t('deliveryLog.retrySkipped', {
+              count: result.skipped_count,
+              channel: retryChannel
+                ? getChannelDisplay(retryChannel).label
+                : t('deliveryLog.thatChannel'),
+            }),
+        ]
+          .filter(Boolean)
+          .join(' ')
+      );
+      setIsRetryOpen(false);
+      setRetryChannel('');
+      await loadInvitations();
+    } catch (error) {
+      toast.error(
+        t('deliveryLog.retryError'),
+        (error as ApiError)?.message || t('deliveryLog.retryErrorMessage')
+      );
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <Box bg="white" borderRadius="xl" boxShadow="md" p={8}>
+      <Stack gap={6}>
+        <Flex justify="space-between" align="center" gap={4} flexWrap="wrap">
+          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+            {t('deliveryLog.title')}
+          </Heading>
+          <Flex gap={2}>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={handleRefresh}
+              loading={isRefreshing}
+              aria-label={t('deliveryLog.refresh')}
+            >
+              <Icon as={FiRefreshCw} />
+            </Button>
+            {access.canSend && failedInvitations.length > 0 && (
+              <Button
+                size="sm"
+                {...THEME.BUTTON_STYLES.secondaryButton}
+                variant="outline"
+                onClick={() => setIsRetryOpen(true)}
+                disabled={!event.can_edit}
+              >
+                <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                  <Icon as={FiRotateCw} />
+                </Box>
+                {t('deliveryLog.retryFailed', { count: failedInvitations.length })}
+              </Button>
+            )}
+          </Flex>
+        </Flex>
+
+        <Box borderTop="1px" borderColor="gray.200" />
+
+        {loading ? (
+          <Center py={6}>
+            <Spinner size="md" color={THEME.COLORS.primary} />
+          </Center>
+        ) : invitations.length === 0 ? (
+          <Text fontSize="sm" color="gray.500">
+            {t('deliveryLog.empty')}
+          </Text>
+        ) : (
+          <>
+            {/* RATES */}
+            <SimpleGrid columns={{ base: 2, md: 4 }} gap={4}>
+              <Box>
+                <Text fontSize="xs" color="gray.600">
+                  {t('deliveryLog.delivered')}
+                </Text>
+                <Text fontSize="2xl" fontWeight="bold" color="green.500">
+                  {summary.delivery_rate.toFixed(1)}%
+                </Text>
+                <Text fontSize="xs" color="gray.500">
+                  {t('deliveryLog.ofTotal', {
+                    count: summary.delivered + summary.read,
+                    total: summary.total,
+                  })}
+                </Text>
+              </Box>
+              <Box>
+                <Text fontSize="xs" color="gray.600">
+                  {t('deliveryLog.read')}
+                </Text>
+                <Text fontSize="2xl" fontWeight="bold" color={THEME.COLORS.primary}>
+                  {summary.read_rate.toFixed(1)}%
+                </Text>
+                <Text fontSize="xs" color="gray.500">
+                  {t('deliveryLog.opened', { count: summary.read })}
+                </Text>
+              </Box>
+              <Box>
+                <Text fontSize="xs" color="gray.600">
+                  {t('deliveryLog.inProgress')}
+                </Text>
+                <Text fontSize="2xl" fontWeight="bold" color="gray.700">
+                  {summary.queued + summary.sent}
+                </Text>
+                <Text fontSize="xs" color="gray.500">
+                  {t('deliveryLog.awaitingReport')}
+                </Text>
+              </Box>
+              <Box>
+                <Text fontSize="xs" color="gray.600">
+                  {t('deliveryLog.failed')}
+                </Text>
+                <Text fontSize="2xl" fontWeight="bold" color="red.500">
+                  {summary.failed}
+                </Text>
+                <Text fontSize="xs" color="gray.500">
+                  {t('deliveryLog.ofMessages', { rate: summary.failure_rate.toFixed(1) })}
+                </Text>
+              </Box>
+            </SimpleGrid>
+
+            {/* STATUS FILTER */}
+            <Flex gap={2} flexWrap="wrap">
+              {[
+                { value: 'all' as const, label: t('common.all') },
+                ...INVITATION_STATUSES.map((item) => getInvitationStatusDisplay(item.value)),
+              ].map((item) => (
+                <Button
+                  key={item.value}
+                  size="xs"
+                  variant={statusFilter === item.value ? 'solid' : 'outline'}
+                  bg={statusFilter === item.value ? THEME.COLORS.primary : undefined}
+                  color={statusFilter === item.value ? 'white' : 'gray.700'}
+                  onClick={() => {
+                    setStatusFilter(item.value);
+                    setVisibleCount(DELIVERY_LOG_PAGE_SIZE);
+                  }}
+                >
+                  {item.label}
+                </Button>
+              ))}
+            </Flex>
+
+            {/* MESSAGES */}
+            {filteredInvitations.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">
+                {t('deliveryLog.noMatches')}
+              </Text>
+            ) : (
+              <Stack gap={0}>
+                {filteredInvitations.slice(0, visibleCount).map((invitation) => {
+                  const status = getInvitationStatusDisplay(invitation.status);
+
+                  return (
+                    <Flex
+                      key={invitation.id}
+                      align={{ base: 'start', md: 'center' }}
+                      direction={{ base: 'column', md: 'row' }}
+                      gap={{ base: 1, md: 3 }}
+                      py={3}
+                      borderTop="1px solid"
+                      borderColor="gray.100"
+                    >
+                      <Box flex={1} minW={0}>
+                        <Text fontWeight="semibold" color="gray.800" truncate>
+                          {invitation.guest_name}
+                        </Text>
+                        {invitation.status === 'failed' && invitation.failure_reason && (
+                          <Flex align="center" gap={1} fontSize="sm" color="red.600">
+                            <Icon as={FiAlertCircle} flexShrink={0} />
+                            <Text truncate>{invitation.failure_reason}</Text>
+                          </Flex>
+                        )}
+                      </Box>
+                      <Flex align="center" gap={2} flexShrink={0}>
+                        <Badge variant="outline">{getChannelDisplay(invitation.channel).label}</Badge>
+                        <Badge colorScheme={status.color}>{status.label}</Badge>
+                        {retriedIds.has(invitation.id) && (
+                          <Badge colorScheme="purple">{t('deliveryLog.retried')}</Badge>
+                        )}
+                        <Text fontSize="xs" color="gray.500" minW="80px" textAlign="right">
+                          {formatActivityTime(getLastUpdate(invitation))}
+                        </Text>
+                      </Flex>
+                    </Flex>
+                  );
+                })}
+              </Stack>
+            )}
+
+            {filteredInvitations.length > visibleCount && (
+              <Button
+                variant="outline"
+                size="sm"
+                alignSelf="center"
+                onClick={() => setVisibleCount((prev) => prev + DELIVERY_LOG_PAGE_SIZE)}
+              >
+                {t('common.showMore')}
+              </Button>
+            )}
+          </>
+        )}
+      </Stack>
+
+      {/* RETRY CONFIRMATION */}
+      {isRetryOpen && (
+        <Box
+          position="fixed"
+          inset={0}
+          bg="blackAlpha.600"
+          display="flex"
+          alignItems="center"
+          justifyContent="center"
+          zIndex={1000}
+        >
+          <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+            <Stack gap={4}>
+              <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                {t('deliveryLog.retryTitle')}
+              </Heading>
+              <Text color="gray.700">
+                {t('deliveryLog.retryMessage', { count: failedInvitations.length })}
+              </Text>
+              <select
+                value={retryChannel}
+                onChange={(e) => setRetryChannel(e.target.value as InvitationChannel | '')}
+                aria-label={t('deliveryLog.retryChannel')}
+                style={selectStyle}
+              >
+                <option value="">{t('deliveryLog.sameChannel')}</option>
+                {INVITATION_CHANNELS.map((channel) => (
+                  <option key={channel.value} value={channel.value}>
+                    {channel.icon} {getChannelDisplay(channel.value).label}
+                  </option>
+                ))}
+              </select>
+              <Text fontSize="sm" color="gray.600">
+                {retryChannel === 'email'
+                  ? t('deliveryLog.emailSkipNote')
+                  : t('deliveryLog.creditNote')}
+              </Text>
+              <Flex justify="space-between" fontSize="sm">
+                <Text color="gray.600">{t('invitations.estimatedCost')}</Text>
+                <Text fontWeight="semibold" color={THEME.COLORS.primary}>
+                  {formatAmount(retryCost.total, retryCost.currency)}
+                </Text>
+              </Flex>
+              {creditShortfall > 0 && wallet && (
+                <Flex
+                  bg="orange.50"
+                  border="1px solid"
+                  borderColor="orange.200"
+                  borderRadius="md"
+                  p={3}
+                  gap={3}
+                  align="start"
+                  direction="column"
+                >
+                  <Box>
+                    <Text fontSize="sm" fontWeight="semibold" color="orange.800">
+                      {t('invitations.notEnoughCredit')}
+                    </Text>
+                    <Text fontSize="sm" color="orange.700">
+                      {t('invitations.notEnoughCreditText', {
+                        balance: formatAmount(wallet.balance, wallet.currency),
+                        shortfall: formatAmount(creditShortfall, wallet.currency),
+                      })}
+                    </Text>
+                  </Box>
+                  <Button
+                    size="sm"
+                    {...THEME.BUTTON_STYLES.primaryButton}
+                    onClick={() => setIsTopUpOpen(true)}
+                  >
+                    <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                      <Icon as={FiPlus} />
+                    </Box>
+                    {t('invitations.topUp')}
+                  </Button>
+                </Flex>
+              )}
+              <Flex justify="flex-end" gap={3}>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsRetryOpen(false)}
+                  disabled={isRetrying}
+                >
+                  {t('common.cancel')}
+                </Button>
+                <Button
+                  {...THEME.BUTTON_STYLES.primaryButton}
+                  onClick={handleRetry}
+                  loading={isRetrying}
+                  disabled={creditShortfall > 0}
+                >
+                  {t('common.retry')}
+                </Button>
+              </Flex>
+            </Stack>
+          </Box>
+        </Box>
+      )}
+
+      {/* TOP UP */}
+      <MpesaCheckoutDialog
+        isOpen={isTopUpOpen}
+        purpose="topup"
+        amount={creditShortfall}
+        onSuccess={handleTopUpSuccess}
+        onClose={() => setIsTopUpOpen(false)}
+      />
+    </Box>
+  );
+}
@@ -12,9 +12,12 @@ import Link from 'next/link';
 import {
   formatEventDate,
   formatEventTime,
+  getEventStatusLabel,
   getEventTypeIcon,
+  getEventTypeLabel,
 } from '@/src/lib/events';
 import { ROUTES, THEME } from '@/src/lib/constants';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import type { EventListItem } from '@/src/types';
 import { encodeEventId } from '@/src/lib/id';
 
@@ -37,6 +40,7 @@ function getStatusColor(status: string): string {
 }
 
 export default function EventCard({ event, onClick }: EventCardProps) {
+  const { t } = useTranslation();
   const slug = encodeEventId(event.id);
 
   return (
@@ -80,7 +84,7 @@ export default function EventCard({ event, onClick }: EventCardProps) {
               textTransform="uppercase"
               fontWeight="bold"
             >
-              {event.status_display}
+              {getEventStatusLabel(event.status)}
             </Badge>
           </Flex>
 
@@ -107,7 +111,7 @@ export default function EventCard({ event, onClick }: EventCardProps) {
             textTransform="uppercase"
             letterSpacing="0.1em"
           >
-            {event.event_type_display}
+            {getEventTypeLabel(event.event_type)}
           </Text>
 
           {/* DETAILS SECTION */}
@@ -154,20 +158,21 @@ export default function EventCard({ event, onClick }: EventCardProps) {
           >
             {event.is_upcoming ? (
               <Badge colorScheme="green" variant="subtle" fontSize="xs">
-                🔔 Upcoming
+                🔔 {t('eventCard.upcoming')}
               </Badge>
             ) : event.is_past ? (
               <Badge colorScheme="gray" variant="subtle" fontSize="xs">
-                📅 Past
+                📅 {t('eventCard.past')}
               </Badge>
             ) : (
               <Badge colorScheme="blue" variant="subtle" fontSize="xs">
-                ✨ Active
+                ✨ {t('eventCard.active')}
               </Badge>
             )}
 
             <Text fontSize="xs" color="gray.500">
-              By {event.created_by_name}
+              {t('eventCard.by', { name: event.created_by_name })}
+              {event.organization_name && ` · ${event.organization_name}`}
             </Text>
           </Flex>
         </Stack>
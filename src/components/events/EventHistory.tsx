@@ -0,0 +1,305 @@
+/**
+ * Event History Component
+ *
+ * History tab of the event detail page. Lists every revision of the event
+ * with the old and new value of each changed field and who made the
+ * change. Editors can restore the values a revision replaced in one click.
+ *
+ * @module EventHistory
+ */
+
+'use client';
+
+import {
+  Box,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  Badge,
+  Spinner,
+  Center,
+} from '@chakra-ui/react';
+import { FiArrowRight, FiClock, FiRotateCcw } from 'react-icons/fi';
+import { useEffect, useState } from 'react';
+import {
+  formatRevisionValue,
+  getEventRevisions,
+  getRevisionFieldLabel,
+  restoreEventRevision,
+} from '@/src/lib/revisions';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import useCustomToast from '@/src/hooks/useToast';
+import { THEME } from '@/src/lib/constants';
+import { getDateLocale } from '@/src/lib/i18n';
+import type { ApiError, EventDetail, EventRevision } from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface EventHistoryProps {
+  /** Event to show the history of */
+  event: EventDetail;
+  /** Whether the current user may restore revisions */
+  canRestore: boolean;
+  /** Called after a revision was restored, to reload the event */
+  onRestored: () => void;
+}
+
+/**
+ * Format a revision timestamp for display
+ */
+const formatRevisionDate = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString(getDateLocale(), {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Event History
+ *
+ * @param props - Component props
+ * @returns Revision list card
+ */
+export default function EventHistory({ event, canRestore, onRestored }: EventHistoryProps) {
+  const { t } = useTranslation();
+  const [revisions, setRevisions] = useState<EventRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revisionToRestore, setRevisionToRestore] = useState<EventRevision | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const toast = useCustomToast();
+
+  const loadRevisions = async () => {
+    try {
+      const data = await getEventRevisions(event.id);
+      setRevisions(data);
+    } catch (error) {
+      toast.error(
+        t('eventHistory.loadError'),
+        (error as ApiError)?.message || t('eventHistory.loadErrorMessage')
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRevisions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [event.id]);
+
+  const handleRestore = async () => {
+    if (!revisionToRestore) return;
+    setIsRestoring(true);
+    try {
+      await restoreEventRevision(event.id, revisionToRestore);
+      toast.success(
+        t('eventHistory.restored'),
+        t('eventHistory.restoredMessage', { number: revisionToRestore.revision_number })
+      );
+      setRevisionToRestore(null);
+      await loadRevisions();
+      onRestored();
+    } catch (error) {
+      toast.error(
+        t('eventHistory.restoreError'),
+        (error as ApiError)?.message || t('eventHistory.restoreErrorMessage')
+      );
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const changesDate = revisionToRestore?.changes.some(
+    (change) => change.field === 'event_date' || change.field === 'event_time'
+  );
+
+  return (
+    <Box bg="white" borderRadius="xl" boxShadow="md" p={8}>
+      <Stack gap={6}>
+        <Stack gap={1}>
+          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+            {t('eventHistory.title')}
+          </Heading>
+          <Text fontSize="sm" color="gray.600">
+            {t('eventHistory.subtitle')}
+            {canRestore && !event.can_edit && ` ${t('eventHistory.reopenToRestore')}`}
+          </Text>
+        </Stack>
+
+        {loading ? (
+          <Center py={8}>
+            <Spinner size="lg" color={THEME.COLORS.primary} />
+          </Center>
+        ) : revisions.length === 0 ? (
+          <Text color="gray.500" textAlign="center" py={8}>
+            {t('eventHistory.empty')}
+          </Text>
+        ) : (
+          <Stack gap={4}>
+            {revisions.map((revision, index) => (
+              <Box
+                key={revision.id}
+                border="1px solid"
+                borderColor="gray.200"
+                borderRadius="lg"
+                p={5}
+              >
+                <Flex
+                  justify="space-between"
+                  align={{ base: 'start', md: 'center' }}
+                  direction={{ base: 'column', md: 'row' }}
+                  gap={3}
+                  mb={4}
+                >
+                  <Stack gap={1}>
+                    <Flex align="center" gap={2} flexWrap="wrap">
+                      <Text fontWeight="semibold" color="gray.800">
+                        {t('eventHistory.revision', { number: revision.revision_number })}
+                      </Text>
+                      {index === 0 && <Badge colorScheme="green">{t('eventHistory.latest')}</Badge>}
+                      {revision.restored_from !== null && (
+                        <Badge colorScheme="purple">
+                          {t('eventHistory.restoredFrom', { number: revision.restored_from })}
+                        </Badge>
+                      )}
+                    </Flex>
+                    <Flex align="center" gap={2} fontSize="sm" color="gray.500">
+                      <Icon as={FiClock} />
+                      <Text>
+                        {revision.changed_by_name} · {formatRevisionDate(revision.created_at)}
+                      </Text>
+                    </Flex>
+                  </Stack>
+
+                  {canRestore && (
+                    <Button
+                      size="sm"
+                      {...THEME.BUTTON_STYLES.secondaryButton}
+                      variant="outline"
+                      onClick={() => setRevisionToRestore(revision)}
+                      disabled={!event.can_edit}
+                    >
+                      <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                        <Icon as={FiRotateCcw} />
+                      </Box>
+                      {t('eventHistory.restorePrevious')}
+                    </Button>
+                  )}
+                </Flex>
+
+                <Stack gap={3}>
+                  {revision.changes.map((change) => (
+                    <Flex
+                      key={change.field}
+                      direction={{ base: 'column', md: 'row' }}
+                      gap={{ base: 1, md: 4 }}
+                      fontSize="sm"
+                    >
+                      <Text
+                        fontWeight="semibold"
+                        color="gray.600"
+                        w={{ md: '120px' }}
+                        flexShrink={0}
+                      >
+                        {getRevisionFieldLabel(change.field)}
+                      </Text>
+                      <Flex align="start" gap={2} flexWrap="wrap" flex={1} minW={0}>
+                        <Text
+                          color="red.600"
+                          bg="red.50"
+                          px={2}
+                          borderRadius="sm"
+                          textDecoration="line-through"
+                          whiteSpace="pre-wrap"
+                        >
+                          {formatRevisionValue(change.field, change.old_value)}
+                        </Text>
+                        <Icon as={FiArrowRight} color="gray.400" mt={1} />
+                        <Text
+                          color="green.700"
+                          bg="green.50"
+                          px={2}
+                          borderRadius="sm"
+                          whiteSpace="pre-wrap"
+                        >
+                          {formatRevisionValue(change.field, change.new_value)}
+                        </Text>
+                      </Flex>
+                    </Flex>
+                  ))}
+                </Stack>
+              </Box>
+            ))}
+          </Stack>
+        )}
+      </Stack>
+
+      {/* RESTORE CONFIRMATION */}
+      {revisionToRestore && (
+        <Box
+          position="fixed"
+          inset={0}
+          bg="blackAlpha.600"
+          display="flex"
+          alignItems="center"
+          justifyContent="center"
+          zIndex={1000}
+        >
+          <Box bg="white" borderRadius="xl" boxShadow="2xl" maxW="md" w="90%" p={6}>
+            <Stack gap={4}>
+              <Heading fontSize="lg" color={THEME.COLORS.primary}>
+                {t('eventHistory.confirmTitle')}
+              </Heading>
+              <Text color="gray.700">
+                {t('eventHistory.confirmMessage', {
+                  changes: revisionToRestore.changes
+                    .map(
+                      (change) =>
+                        `${getRevisionFieldLabel(change.field).toLowerCase()}: ${formatRevisionValue(
+                          change.field,
+                          change.old_value
+                        )}`
+                    )
+                    .join(', '),
+                })}
+              </Text>
+              {changesDate && (
+                <Text fontSize="sm" color="orange.700" bg="orange.50" borderRadius="md" p={3}>
+                  {t('eventHistory.dateChangeWarning')}
+                </Text>
+              )}
+              <Flex justify="flex-end" gap={3}>
+                <Button
+                  variant="outline"
+                  onClick={() => setRevisionToRestore(null)}
+                  disabled={isRestoring}
+                >
+                  {t('common.cancel')}
+                </Button>
+                <Button
+                  {...THEME.BUTTON_STYLES.primaryButton}
+                  onClick={handleRestore}
+                  loading={isRestoring}
+                >
+                  {t('eventHistory.restore')}
+                </Button>
+              </Flex>
+            </Stack>
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,525 @@
+/**
+ * Guest Import Wizard Component
+ *
+ * Modal wizard for importing a guest list from a CSV or XLSX file:
+ * 1. Upload - parse the file in the browser
+ * 2. Map columns - assign spreadsheet columns to guest fields
+ * 3. Preview - review validation errors and duplicates
+ * 4. Import - bulk-create the valid guests in batches
+ *
+ * @module GuestImportWizard
+ */
+
+'use client';
+
+import {
+  Box,
+  Heading,
+  Text,
+  Stack,
+  Button,
+  Flex,
+  Icon,
+  IconButton,
+  Badge,
+  Field,
+  Progress,
+} from '@chakra-ui/react';
+import {
+  FiUploadCloud,
+  FiX,
+  FiCheckCircle,
+  FiAlertTriangle,
+  FiArrowRight,
+  FiArrowLeft,
+} from 'react-icons/fi';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { bulkCreateGuests, getEventGuests } from '@/src/lib/guests';
+import {
+  GUEST_IMPORT_ACCEPT,
+  GUEST_IMPORT_BATCH_SIZE,
+  GUEST_IMPORT_FIELDS,
+  guessColumnMapping,
+  parseGuestFile,
+  validateImportRows,
+} from '@/src/lib/guestImport';
+import useCustomToast from '@/src/hooks/useToast';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { COUNTRY_CODES, THEME } from '@/src/lib/constants';
+import type {
+  ApiError,
+  Guest,
+  GuestImportMapping,
+  ParsedSheet,
+} from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type WizardStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'done';
+
+interface GuestImportWizardProps {
+  /** Event to import guests into */
+  eventId: number;
+  /** Whether the wizard is visible */
+  isOpen: boolean;
+  /** Close handler */
+  onClose: () => void;
+  /** Called after guests have been created */
+  onImported?: (count: number) => void;
+}
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  borderRadius: '6px',
+  border: '1px solid #E2E8F0',
+  backgroundColor: 'white',
+  color: THEME.COLORS.textPrimary,
+  fontSize: '14px',
+  cursor: 'pointer',
+  outline: 'none',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Guest Import Wizard
+ *
+ * @param props - Component props
+ * @returns Modal wizard, or null when closed
+ */
+export default function GuestImportWizard({
+  eventId,
+  isOpen,
+  onClose,
+  onImported,
+}: GuestImportWizardProps) {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+  const [mapping, setMapping] = useState<GuestImportMapping | null>(null);
+  const [defaultCountryCode, setDefaultCountryCode] = useState<string>(COUNTRY_CODES[0].value);
+  const [existingGuests, setExistingGuests] = useState<Guest[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const [showOnlyProblems, setShowOnlyProblems] = useState(false);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const toast = useCustomToast();
+  const { t } = useTranslation();
+
+  // Load existing guests for duplicate detection whenever the wizard opens
+  useEffect(() => {
+    if (!isOpen) return;
+    getEventGuests(eventId)
+      .then(setExistingGuests)
+      .catch(() => setExistingGuests([]));
+  }, [isOpen, eventId]);
+
+  const rows = useMemo(() => {
+    if (!sheet || !mapping) return [];
+    return validateImportRows(sheet, mapping, { defaultCountryCode, existingGuests });
+  }, [sheet, mapping, defaultCountryCode, existingGuests]);
+
+  const validRows = rows.filter((row) => row.guest && !row.duplicate);
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+  const duplicateCount = rows.filter((row) => row.errors.length === 0 && row.duplicate).length;
+  const visibleRows = showOnlyProblems
+    ? rows.filter((row) => row.errors.length > 0 || row.duplicate)
+    : rows;
+
+  const missingRequired = mapping
+    ? GUEST_IMPORT_FIELDS.filter((field) => field.required && mapping[field.value] === null)
+    : [];
+
+  const resetWizard = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping(null);
+    setImportedCount(0);
+    setShowOnlyProblems(false);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleClose = () => {
+    if (step === 'importing') return;
+    resetWizard();
+    onClose();
+  };
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return;
+    setParsing(true);
+    try {
+      const parsed = await parseGuestFile(file);
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+      setStep('mapping');
+    } catch (error) {
+      toast.error(
+        t('guestImport.readFailed'),
+        (error as Error)?.message || t('guestImport.readFailedHint')
+      );
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const guests = validRows.map((row) => row.guest!);
+    if (guests.length === 0) return;
+
+    setStep('importing');
+    setImportedCount(0);
+    let created = 0;
+    const createdGuests: Guest[] = [];
+
+    try {
+      for (let i = 0; i < guests.length; i += GUEST_IMPORT_BATCH_SIZE) {
+        const batch = guests.slice(i, i + GUEST_IMPORT_BATCH_SIZE);
+        const result = await bulkCreateGuests(eventId, batch);
+        createdGuests.push(...result);
+        created += result.length;
+        setImportedCount(created);
+      }
+      setStep('done');
+      toast.success(t('guestImport.imported'), t('guestImport.importedCount', { count: created }));
+      onImported?.(created);
+    } catch (error) {
+      toast.error(
+        t('guestImport.stopped'),
+        t('guestImport.stoppedCount', {
+          count: created,
+          error: (error as ApiError)?.message || t('errors.generic'),
+        })
+      );
+      if (created > 0) {
+        // Guests from the batches that went through now count as existing,
+        // so importing again only sends the rest
+        setExistingGuests((prev) => [...prev, ...createdGuests]);
+        onImported?.(created);
+      }
+      setStep('preview');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <Box
+      position="fixed"
+      inset={0}
+      bg="blackAlpha.600"
+      display="flex"
+      alignItems="center"
+      justifyContent="center"
+      zIndex={1000}
+    >
+      <Box
+        bg="white"
+        borderRadius="xl"
+        boxShadow="2xl"
+        maxW="4xl"
+        w="95%"
+        maxH="90vh"
+        overflowY="auto"
+        p={6}
+      >
+        <Stack gap={6}>
+          {/* HEADER */}
+          <Flex justify="space-between" align="center">
+            <Stack gap={1}>
+              <Heading fontSize="xl" color={THEME.COLORS.primary}>
+                {t('guestImport.title')}
+              </Heading>
+              <Text fontSize="sm" color="gray.600">
+                {step === 'upload' && t('guestImport.stepUpload')}
+                {step === 'mapping' && t('guestImport.stepMapping', { file: fileName })}
+                {(step === 'preview' || step === 'importing') && t('guestImport.stepPreview')}
+                {step === 'done' && t('guestImport.complete')}
+              </Text>
+            </Stack>
+            <IconButton
+              aria-label={t('guestImport.close')}
+              variant="ghost"
+              onClick={handleClose}
+              disabled={step === 'importing'}
+            >
+              <FiX />
+            </IconButton>
+          </Flex>
+
+          <Box borderTop="1px" borderColor="gray.200" />
+
+          {/* STEP 1 - UPLOAD */}
+          {step === 'upload' && (
+            <Stack gap={4}>
+              <Box
+                as="label"
+                border="2px dashed"
+                borderColor="gray.300"
+                borderRadius="xl"
+                p={10}
+                textAlign="center"
+                cursor="pointer"
+                _hover={{ borderColor: THEME.COLORS.primary, bg: THEME.COLORS.background }}
+                transition="all 0.2s"
+              >
+                <Stack gap={3} align="center">
+                  <Icon as={FiUploadCloud} w={10} h={10} color={THEME.COLORS.primary} />
+                  <Text fontWeight="semibold" color="gray.800">
+                    {parsing ? t('guestImport.reading') : t('guestImport.chooseFile')}
+                  </Text>
+                  <Text fontSize="sm" color="gray.500">
+                    {t('guestImport.headersHint')}
+                  </Text>
+                </Stack>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={GUEST_IMPORT_ACCEPT}
+                  hidden
+                  disabled={parsing}
+                  onChange={(e) => handleFileChange(e.target.files?.[0])}
+                />
+              </Box>
+            </Stack>
+          )}
+
+          {/* STEP 2 - COLUMN MAPPING */}
+          {step === 'mapping' && sheet && mapping && (
+            <Stack gap={5}>
+              <Text fontSize="sm" color="gray.700">
+                {t('guestImport.rowsFound', { count: sheet.rows.length })}
+              </Text>
+
+              {GUEST_IMPORT_FIELDS.map((field) => (
+                <Field.Root key={field.value} required={field.required}>
+                  <Flex align="center" gap={4} w="full" flexWrap="wrap">
+                    <Field.Label w="160px" mb={0} fontWeight="semibold" color="gray.700">
+                      {t(`guestImport.fields.${field.value}`)}
+                    </Field.Label>
+                    <Box flex="1" minW="200px">
+                      <select
+                        style={selectStyle}
+                        value={mapping[field.value] ?? ''}
+                        onChange={(e) => {
+                          const { value } = e.target;
+                          setMapping({
+                            ...mapping,
+                            [field.value]: value === '' ? null : Number(value),
+                          });
+                        }}
+                      >
+                        <option value="">{t('guestImport.notInFile')}</option>
+                        {sheet.headers.map((header, index) => (
+                          <option key={`${header}-${index}`} value={index}>
+                            {header || t('guestImport.column', { number: index + 1 })}
+                          </option>
+                        ))}
+                      </select>
+                    </Box>
+                  </Flex>
+                </Field.Root>
+              ))}
+
+              <Field.Root>
+                <Flex align="center" gap={4} w="full" flexWrap="wrap">
+                  <Field.Label w="160px" mb={0} fontWeight="semibold" color="gray.700">
+                    {t('guestImport.defaultCountry')}
+                  </Field.Label>
+                  <Box flex="1" minW="200px">
+                    <select
+                      style={selectStyle}
+                      value={defaultCountryCode}
+                      onChange={(e) => setDefaultCountryCode(e.target.value)}
+                    >
+                      {COUNTRY_CODES.map((code) => (
+                        <option key={code.value} value={code.value}>
+                          {code.flag} {code.label}
+                        </option>
+                      ))}
+                    </select>
+                  </Box>
+                </Flex>
+                <Field.HelperText>
+                  {t('guestImport.defaultCountryHelper')}
+                </Field.HelperText>
+              </Field.Root>
+
+              {missingRequired.length > 0 && (
+                <Text fontSize="sm" color={THEME.COLORS.error}>
+                  {t('guestImport.pleaseMap', {
+                    fields: missingRequired
+                      .map((field) => t(`guestImport.fields.${field.value}`))
+                      .join(', '),
+                  })}
+                </Text>
+              )}
+
+              <Flex justify="space-between" gap={3}>
+                <Button variant="ghost" onClick={resetWizard}>
+                  <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                    <Icon as={FiArrowLeft} />
+                  </Box>
+                  {t('guestImport.chooseAnother')}
+                </Button>
+                <Button
+                  {...THEME.BUTTON_STYLES.primaryButton}
+                  disabled={missingRequired.length > 0}
+                  onClick={() => setStep('preview')}
+                >
+                  {t('guestImport.preview')}
+                  <Box as="span" display="inline-flex" alignItems="center" ml={2}>
+                    <Icon as={FiArrowRight} />
+                  </Box>
+                </Button>
+              </Flex>
+            </Stack>
+          )}
+
+          {/* STEP 3 - PREVIEW & IMPORT */}
+          {(step === 'preview' || step === 'importing') && (
+            <Stack gap={5}>
+              <Flex gap={3} flexWrap="wrap">
+                <Badge colorScheme="green" px={3} py={1} borderRadius="full">
+                  {t('guestImport.readyCount', { count: validRows.length })}
+                </Badge>
+                <Badge colorScheme="red" px={3} py={1} borderRadius="full">
+                  {t('guestImport.errorCount', { count: invalidCount })}
+                </Badge>
+                <Badge colorScheme="orange" px={3} py={1} borderRadius="full">
+                  {t('guestImport.duplicateCount', { count: duplicateCount })}
+                </Badge>
+                <Button
+                  size="xs"
+                  variant="ghost"
+                  color={THEME.COLORS.primary}
+                  onClick={() => setShowOnlyProblems(!showOnlyProblems)}
+                >
+                  {showOnlyProblems ? t('guestImport.showAll') : t('guestImport.showProblems')}
+                </Button>
+              </Flex>
+
+              <Box border="1px" borderColor="gray.200" borderRadius="md" maxH="45vh" overflowY="auto">
+                <Box as="table" width="100%" borderCollapse="collapse" fontSize="sm">
+                  <Box as="thead" bg="gray.50" position="sticky" top={0}>
+                    <Box as="tr">
+                      <Box as="th" textAlign="left" p={3}>{t('guestImport.columns.row')}</Box>
+                      <Box as="th" textAlign="left" p={3}>{t('guestImport.columns.name')}</Box>
+                      <Box as="th" textAlign="left" p={3}>{t('guestImport.columns.phone')}</Box>
+                      <Box as="th" textAlign="left" p={3}>{t('guestImport.columns.status')}</Box>
+                    </Box>
+                  </Box>
+                  <Box as="tbody">
+                    {visibleRows.map((row) => (
+                      <Box
+                        as="tr"
+                        key={row.rowNumber}
+                        borderTop="1px solid"
+                        borderColor="gray.100"
+                        bg={row.errors.length > 0 ? 'red.50' : row.duplicate ? 'orange.50' : 'white'}
+                      >
+                        <Box as="td" p={3} color="gray.500">
+                          {row.rowNumber}
+                        </Box>
+                        <Box as="td" p={3}>
+                          {row.raw.full_name || '—'}
+                        </Box>
+                        <Box as="td" p={3}>
+                          {row.guest?.phone_number || row.raw.phone_number || '—'}
+                        </Box>
+                        <Box as="td" p={3}>
+                          {row.errors.length > 0 ? (
+                            <Flex align="start" gap={2} color="red.600">
+                              <Icon as={FiAlertTriangle} mt={0.5} />
+                              <Text>{row.errors.join('; ')}</Text>
+                            </Flex>
+                          ) : row.duplicate ? (
+                            <Text color="orange.600">
+                              {row.duplicate === 'existing'
+                                ? t('guestImport.duplicateExisting')
+                                : t('guestImport.duplicateRow')}
+                            </Text>
+                          ) : (
+                            <Flex align="center" gap={2} color="green.600">
+                              <Icon as={FiCheckCircle} />
+                              <Text>{t('guestImport.ready')}</Text>
+                            </Flex>
+                          )}
+                        </Box>
+                      </Box>
+                    ))}
+                  </Box>
+                </Box>
+              </Box>
+
+              {step === 'importing' && (
+                <Stack gap={2}>
+                  <Progress.Root
+                    value={validRows.length ? (importedCount / validRows.length) * 100 : 0}
+                    colorPalette="teal"
+                  >
+                    <Progress.Track>
+                      <Progress.Range />
+                    </Progress.Track>
+                  </Progress.Root>
+                  <Text fontSize="sm" color="gray.600">
+                    {t('guestImport.progress', { done: importedCount, total: validRows.length })}
+                  </Text>
+                </Stack>
+              )}
+
+              <Flex justify="space-between" gap={3}>
+                <Button
+                  variant="ghost"
+                  onClick={() => setStep('mapping')}
+                  disabled={step === 'importing'}
+                >
+                  <Box as="span" display="inline-flex" alignItems="center" mr={2}>
+                    <Icon as={FiArrowLeft} />
+                  </Box>
+                  {t('guestImport.backToMapping')}
+                </Button>
+                <Button
+                  {...THEME.BUTTON_STYLES.primaryButton}
+                  disabled={validRows.length === 0}
+                  loading={step === 'importing'}
+                  onClick={handleImport}
+                >
+                  {t('guestImport.importButton', { count: validRows.length })}
+                </Button>
+              </Flex>
+            </Stack>
+          )}
+
+          {/* DONE */}
+          {step === 'done' && (
+            <Stack gap={4} align="center" textAlign="center" py={6}>
+              <Icon as={FiCheckCircle} w={12} h={12} color="green.500" />
+              <Heading fontSize="lg" color="gray.800">
+                {t('guestImport.doneTitle', { count: importedCount })}
+              </Heading>
+              {invalidCount + duplicateCount > 0 && (
+                <Text fontSize="sm" color="gray.600">
+                  {t('guestImport.skipped', { count: invalidCount + duplicateCount })}
+                </Text>
+              )}
+              <Button {...THEME.BUTTON_STYLES.primaryButton} onClick={handleClose}>
+                {t('guestImport.done')}
+              </Button>
+            </Stack>
+          )}
+        </Stack>
+      </Box>
+    </Box>
+  );
+}
@@ -9,6 +9,7 @@
  * - Active link indication
  * - Skeleton loading for avatar
  * - Smoother animations
+ * - Team workspace switcher
  * 
  * @module AuthNav
  */
@@ -46,12 +47,24 @@ import {
   FiX,
   FiCalendar,
   FiCreditCard,
+  FiDollarSign,
+  FiPocket,
+  FiUsers,
+  FiBriefcase,
+  FiCheck,
+  FiFileText,
 } from 'react-icons/fi';
 import Link from 'next/link';
 import { useRouter, usePathname } from 'next/navigation';
 import { useAuth } from '@/src/contexts/AuthContext';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import useWalletBalance from '@/src/hooks/useWalletBalance';
+import { formatAmount } from '@/src/lib/billing';
+import { getRoleDisplay } from '@/src/lib/organizations';
 import { ROUTES, THEME } from '@/src/lib/constants';
 import { useState } from 'react';
+import type { Organization } from '@/src/types';
 
 // ============================================================================
 // TYPES
@@ -64,6 +77,12 @@ interface NavLinkProps {
   isActive?: boolean;
 }
 
+interface WorkspaceMenuProps {
+  organizations: Organization[];
+  activeOrganization: Organization | null;
+  onSelect: (organizationId: number | null) => void;
+}
+
 // ============================================================================
 // SUB-COMPONENTS
 // ============================================================================
@@ -127,6 +146,60 @@ const MobileNavLink = ({ href, icon: IconComponent, label, isActive }: NavLinkPr
   );
 };
 
+/**
+ * Workspace Menu Content
+ * Personal events plus every team workspace the user belongs to
+ */
+const WorkspaceMenu = ({ organizations, activeOrganization, onSelect }: WorkspaceMenuProps) => {
+  const { t } = useTranslation();
+  const options = [
+    { id: null, name: t('nav.personal'), detail: t('nav.personalDetail') },
+    ...organizations.map((organization) => ({
+      id: organization.id,
+      name: organization.name,
+      detail: getRoleDisplay(organization.role).label,
+    })),
+  ];
+
+  return (
+    <Stack direction="column" gap={0} align="stretch">
+      {options.map((option) => {
+        const isActive = (activeOrganization?.id ?? null) === option.id;
+
+        return (
+          <Button
+            key={option.id ?? 'personal'}
+            w="full"
+            h="auto"
+            py={2}
+            justifyContent="flex-start"
+            variant="ghost"
+            fontSize="sm"
+            borderRadius={0}
+            color={isActive ? THEME.COLORS.primary : 'gray.700'}
+            _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
+            onClick={() => onSelect(option.id)}
+          >
+            <Stack gap={0} align="start" flex={1} minW={0}>
+              <Text fontWeight="semibold" truncate maxW="full">
+                {option.name}
+              </Text>
+              <Text fontSize="xs" color="gray.500" fontWeight="normal">
+                {option.detail}
+              </Text>
+            </Stack>
+            {isActive && (
+              <Box as="span" ml={2} display="inline-flex" alignItems="center">
+                <FiCheck size={16} />
+              </Box>
+            )}
+          </Button>
+        );
+      })}
+    </Stack>
+  );
+};
+
 /**
  * User Profile Menu Content
  */
@@ -138,83 +211,121 @@ const UserProfileMenu = ({
   user: any; 
   onLogout: () => void;
   onClose: () => void;
-}) => (
-  <Stack direction="column" gap={0} align="stretch" w="220px">
-    {/* User Info Section */}
-    <Box px={3} py={2}>
-      <Text fontSize="sm" fontWeight="semibold" color="gray.800">
-        {user?.first_name} {user?.last_name}
-      </Text>
-      <Text fontSize="xs" color="gray.500" mt={0.5}>
-        {user?.email}
-      </Text>
-      {user?.profile?.user_type && (
-        <Badge 
-          colorScheme="teal" 
-          fontSize="2xs" 
-          mt={2}
-          textTransform="capitalize"
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <Stack direction="column" gap={0} align="stretch" w="220px">
+      {/* User Info Section */}
+      <Box px={3} py={2}>
+        <Text fontSize="sm" fontWeight="semibold" color="gray.800">
+          {user?.first_name} {user?.last_name}
+        </Text>
+        <Text fontSize="xs" color="gray.500" mt={0.5}>
+          {user?.email}
+        </Text>
+        {user?.profile?.user_type && (
+          <Badge 
+            colorScheme="teal" 
+            fontSize="2xs" 
+            mt={2}
+            textTransform="capitalize"
+          >
+            {user.profile.user_type === 'business'
+              ? t('nav.businessAccount')
+              : t('nav.individualAccount')}
+          </Badge>
+        )}
+      </Box>
+
+      <Separator />
+
+      {/* Navigation Links */}
+      <Link href={ROUTES.PROTECTED.PROFILE} onClick={onClose}>
+        <Button
+          w="full"
+          justifyContent="flex-start"
+          variant="ghost"
+          fontSize="sm"
+          borderRadius={0}
+          _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
         >
-          {user.profile.user_type} Account
-        </Badge>
-      )}
-    </Box>
+          <Box as="span" mr={2} display="inline-flex" alignItems="center">
+            <FiUser size={16} />
+          </Box>
+          {t('nav.profile')}
+        </Button>
+      </Link>
 
-    <Separator />
+      <Link href={ROUTES.PROTECTED.SETTINGS} onClick={onClose}>
+        <Button
+          w="full"
+          justifyContent="flex-start"
+          variant="ghost"
+          fontSize="sm"
+          borderRadius={0}
+          _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
+        >
+          <Box as="span" mr={2} display="inline-flex" alignItems="center">
+            <FiSettings size={16} />
+          </Box>
+          {t('nav.settings')}
+        </Button>
+      </Link>
 
-    {/* Navigation Links */}
-    <Link href={ROUTES.PROTECTED.PROFILE} onClick={onClose}>
-      <Button
-        w="full"
-        justifyContent="flex-start"
-        variant="ghost"
-        fontSize="sm"
-        borderRadius={0}
-        _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
-      >
-        <Box as="span" mr={2} display="inline-flex" alignItems="center">
-          <FiUser size={16} />
-        </Box>
-        Profile
-      </Button>
-    </Link>
+      <Link href={ROUTES.PROTECTED.BILLING} onClick={onClose}>
+        <Button
+          w="full"
+          justifyContent="flex-start"
+          variant="ghost"
+          fontSize="sm"
+          borderRadius={0}
+          _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
+        >
+          <Box as="span" mr={2} display="inline-flex" alignItems="center">
+            <FiDollarSign size={16} />
+          </Box>
+          {t('nav.billing')}
+        </Button>
+      </Link>
 
-    <Link href={ROUTES.PROTECTED.SETTINGS} onClick={onClose}>
+      <Link href={ROUTES.PROTECTED.TEAM} onClick={onClose}>
+        <Button
+          w="full"
+          justifyContent="flex-start"
+          variant="ghost"
+          fontSize="sm"
+          borderRadius={0}
+          _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
+        >
+          <Box as="span" mr={2} display="inline-flex" alignItems="center">
+            <FiUsers size={16} />
+          </Box>
+          {t('nav.team')}
+        </Button>
+      </Link>
+
+      <Separator />
+
+      {/* Logout Button */}
       <Button
         w="full"
         justifyContent="flex-start"
         variant="ghost"
+        onClick={onLogout}
+        color="red.500"
         fontSize="sm"
         borderRadius={0}
-        _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
+        _hover={{ bg: 'red.50' }}
       >
         <Box as="span" mr={2} display="inline-flex" alignItems="center">
-          <FiSettings size={16} />
+          <FiLogOut size={16} />
         </Box>
-        Settings
+        {t('nav.logout')}
       </Button>
-    </Link>
-
-    <Separator />
-
-    {/* Logout Button */}
-    <Button
-      w="full"
-      justifyContent="flex-start"
-      variant="ghost"
-      onClick={onLogout}
-      color="red.500"
-      fontSize="sm"
-      borderRadius={0}
-      _hover={{ bg: 'red.50' }}
-    >
-      <Box as="span" mr={2} display="inline-flex" alignItems="center">
-        <FiLogOut size={16} />
-      </Box>
-      Logout
-    </Button>
-  </Stack>
-);
+    </Stack>
+  );
+};
 
 // ============================================================================
 // MAIN COMPONENT
@@ -227,6 +338,7 @@ const UserProfileMenu = ({
  * - Responsive mobile menu
  * - Active link indication
  * - Profile dropdown with user info
+ * - Pay As You Go credit balance
  * - Logout functionality
  * 
  * @returns Navigation bar component
@@ -237,6 +349,10 @@ export default function AuthNav() {
   const pathname = usePathname();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
+  const [isWorkspaceMenuOpen, setIsWorkspaceMenuOpen] = useState(false);
+  const { wallet, loading: walletLoading } = useWalletBalance(!!user);
+  const { organizations, activeOrganization, switchOrganization } = useOrganization();
+  const { t } = useTranslation();
 
   /**
    * Check if a route is currently active
@@ -257,6 +373,21 @@ export default function AuthNav() {
     }
   };
 
+  /**
+   * Switch team workspace
+   * Event pages belong to one workspace, so leave them for the events list
+   */
+  const handleSwitchWorkspace = (organizationId: number | null) => {
+    setIsWorkspaceMenuOpen(false);
+    setIsMobileMenuOpen(false);
+    if ((activeOrganization?.id ?? null) === organizationId) return;
+
+    switchOrganization(organizationId);
+    if (pathname.startsWith(`${ROUTES.PROTECTED.EVENTS}/`)) {
+      router.push(ROUTES.PROTECTED.EVENTS);
+    }
+  };
+
   /**
    * Close mobile menu
    */
@@ -269,17 +400,22 @@ export default function AuthNav() {
     {
       href: ROUTES.PROTECTED.DASHBOARD,
       icon: FiHome,
-      label: 'Dashboard',
+      label: t('nav.dashboard'),
     },
     {
       href: '/events',
       icon: FiCalendar,
-      label: 'Events',
+      label: t('nav.events'),
     },
     {
-      href: '/cards',
+      href: ROUTES.PROTECTED.CARDS,
       icon: FiCreditCard,
-      label: 'Cards',
+      label: t('nav.cards'),
+    },
+    {
+      href: ROUTES.PROTECTED.TEMPLATES,
+      icon: FiFileText,
+      label: t('nav.templates'),
     },
   ];
 
@@ -299,7 +435,7 @@ export default function AuthNav() {
         <Container maxW="container.xl" h="full">
           <Flex justify="space-between" align="center" h="full">
             {/* LEFT - Logo */}
-            <Link href={ROUTES.PROTECTED.DASHBOARD} aria-label="Go to dashboard">
+            <Link href={ROUTES.PROTECTED.DASHBOARD} aria-label={t('nav.goToDashboard')}>
               <Flex gap={2} align="center">
                 <Text 
                   fontSize={{ base: "xl", md: "2xl" }}
@@ -330,8 +466,100 @@ export default function AuthNav() {
               ))}
             </Flex>
 
-            {/* RIGHT - Profile Menu & Mobile Toggle */}
+            {/* RIGHT - Workspace, Credit Balance, Profile Menu & Mobile Toggle */}
             <Flex align="center" gap={3}>
+              {/* Workspace Switcher - Desktop */}
+              {organizations.length > 0 && (
+                <Box position="relative" display={{ base: 'none', md: 'block' }}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    borderColor="gray.200"
+                    color="gray.700"
+                    _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
+                    fontSize="sm"
+                    onClick={() => setIsWorkspaceMenuOpen(!isWorkspaceMenuOpen)}
+                    aria-label={t('nav.switchWorkspace')}
+                  >
+                    <Box as="span" mr={2} display="inline-flex" alignItems="center">
+                      <FiBriefcase size={16} />
+                    </Box>
+                    <Text as="span" truncate maxW="160px">
+                      {activeOrganization?.name ?? t('nav.personal')}
+                    </Text>
+                    <Box as="span" ml={1} display="inline-flex" alignItems="center">
+                      <FiChevronDown size={14} />
+                    </Box>
+                  </Button>
+
+                  {isWorkspaceMenuOpen && (
+                    <>
+                      <Box
+                        position="fixed"
+                        top={0}
+                        left={0}
+                        right={0}
+                        bottom={0}
+                        zIndex={998}
+                        onClick={() => setIsWorkspaceMenuOpen(false)}
+                      />
+                      <Box
+                        position="absolute"
+                        top="100%"
+                        right={0}
+                        mt={2}
+                        bg="white"
+                        py={2}
+                        boxShadow="lg"
+                        border="1px solid"
+                        borderColor="gray.200"
+                        borderRadius="md"
+                        zIndex={999}
+                        minW="240px"
+                      >
+                        <Text
+                          px={3}
+                          pb={1}
+                          fontSize="xs"
+                          fontWeight="semibold"
+                          color="gray.500"
+                          textTransform="uppercase"
+                        >
+                          {t('nav.workspace')}
+                        </Text>
+                        <WorkspaceMenu
+                          organizations={organizations}
+                          activeOrganization={activeOrganization}
+                          onSelect={handleSwitchWorkspace}
+                        />
+                      </Box>
+                    </>
+                  )}
+                </Box>
+              )}
+
+              {/* Credit Balance - Desktop */}
+              <Link href={ROUTES.PROTECTED.WALLET} aria-label={t('nav.viewCreditBalance')}>
+                <Button
+                  display={{ base: 'none', sm: 'flex' }}
+                  variant="outline"
+                  size="sm"
+                  borderColor="gray.200"
+                  color={isActiveRoute(ROUTES.PROTECTED.WALLET) ? THEME.COLORS.primary : 'gray.700'}
+                  _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
+                  fontSize="sm"
+                >
+                  <Box as="span" mr={2} display="inline-flex" alignItems="center">
+                    <FiPocket size={16} />
+                  </Box>
+                  {walletLoading || !wallet ? (
+                    <Skeleton height="14px" width="60px" />
+                  ) : (
+                    formatAmount(wallet.balance, wallet.currency)
+                  )}
+                </Button>
+              </Link>
+
               {/* Profile Menu - Desktop */}
               <Box position="relative" display={{ base: 'none', sm: 'block' }}>
                 <Button
@@ -409,7 +637,7 @@ export default function AuthNav() {
                 display={{ base: 'flex', md: 'none' }}
                 onClick={() => setIsMobileMenuOpen(true)}
                 variant="ghost"
-                aria-label="Open navigation menu"
+                aria-label={t('nav.openMenu')}
                 color="gray.700"
                 _hover={{ bg: 'gray.50' }}
                 size="lg"
@@ -437,12 +665,12 @@ export default function AuthNav() {
           <DrawerHeader borderBottomWidth="1px">
             <Flex justify="space-between" align="center">
               <Text fontSize="xl" fontWeight="bold" color={THEME.COLORS.primary}>
-                Menu
+                {t('nav.menu')}
               </Text>
               <DrawerCloseTrigger asChild>
                 <IconButton
                   variant="ghost"
-                  aria-label="Close menu"
+                  aria-label={t('nav.closeMenu')}
                   size="lg"
                   color={THEME.COLORS.primary}
                   _hover={{ 
@@ -496,7 +724,7 @@ export default function AuthNav() {
               {/* Navigation Links */}
               <Stack direction="column" gap={2} align="stretch">
                 <Text fontSize="xs" fontWeight="semibold" color="gray.500" textTransform="uppercase" mb={1}>
-                  Navigation
+                  {t('nav.navigation')}
                 </Text>
                 {navItems.map((item) => (
                   <Box key={item.href} onClick={closeMobileMenu}>
@@ -510,10 +738,24 @@ export default function AuthNav() {
                 ))}
               </Stack>
 
+              {/* Workspace Switcher in Mobile Menu */}
+              {organizations.length > 0 && (
+                <Stack direction="column" gap={2} align="stretch">
+                  <Text fontSize="xs" fontWeight="semibold" color="gray.500" textTransform="uppercase" mb={1}>
+                    {t('nav.workspace')}
+                  </Text>
+                  <WorkspaceMenu
+                    organizations={organizations}
+                    activeOrganization={activeOrganization}
+                    onSelect={handleSwitchWorkspace}
+                  />
+                </Stack>
+              )}
+
               {/* Account Links */}
               <Stack direction="column" gap={2} align="stretch">
                 <Text fontSize="xs" fontWeight="semibold" color="gray.500" textTransform="uppercase" mb={1}>
-                  Account
+                  {t('nav.account')}
                 </Text>
                 <Box onClick={closeMobileMenu}>
                   <Link href={ROUTES.PROTECTED.PROFILE} style={{ width: '100%' }}>
@@ -526,7 +768,7 @@ export default function AuthNav() {
                       <Box as="span" mr={2} display="inline-flex" alignItems="center">
                         <FiUser size={20} />
                       </Box>
-                      Profile
+                      {t('nav.profile')}
                     </Button>
                   </Link>
                 </Box>
@@ -541,7 +783,57 @@ export default function AuthNav() {
                       <Box as="span" mr={2} display="inline-flex" alignItems="center">
                         <FiSettings size={20} />
                       </Box>
-                      Settings
+                      {t('nav.settings')}
+                    </Button>
+                  </Link>
+                </Box>
+                <Box onClick={closeMobileMenu}>
+                  <Link href={ROUTES.PROTECTED.BILLING} style={{ width: '100%' }}>
+                    <Button
+                      w="full"
+                      justifyContent="flex-start"
+                      variant="ghost"
+                      size="lg"
+                    >
+                      <Box as="span" mr={2} display="inline-flex" alignItems="center">
+                        <FiDollarSign size={20} />
+                      </Box>
+                      {t('nav.billing')}
+                    </Button>
+                  </Link>
+                </Box>
+                <Box onClick={closeMobileMenu}>
+                  <Link href={ROUTES.PROTECTED.TEAM} style={{ width: '100%' }}>
+                    <Button
+                      w="full"
+                      justifyContent="flex-start"
+                      variant="ghost"
+                      size="lg"
+                    >
+                      <Box as="span" mr={2} display="inline-flex" alignItems="center">
+                        <FiUsers size={20} />
+                      </Box>
+                      {t('nav.team')}
+                    </Button>
+                  </Link>
+                </Box>
+                <Box onClick={closeMobileMenu}>
+                  <Link href={ROUTES.PROTECTED.WALLET} style={{ width: '100%' }}>
+                    <Button
+                      w="full"
+                      justifyContent="flex-start"
+                      variant="ghost"
+                      size="lg"
+                    >
+                      <Box as="span" mr={2} display="inline-flex" alignItems="center">
+                        <FiPocket size={20} />
+                      </Box>
+                      {t('nav.credit')}
+                      {wallet && (
+                        <Badge ml="auto" colorScheme="teal">
+                          {formatAmount(wallet.balance, wallet.currency)}
+                        </Badge>
+                      )}
                     </Button>
                   </Link>
                 </Box>
@@ -559,7 +851,7 @@ export default function AuthNav() {
                 <Box as="span" mr={2} display="inline-flex" alignItems="center">
                   <FiLogOut size={20} />
                 </Box>
-                Logout
+                {t('nav.logout')}
               </Button>
             </Stack>
           </DrawerBody>
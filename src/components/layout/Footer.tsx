@@ -37,6 +37,8 @@ import {
 } from 'react-icons/fi';
 import Link from 'next/link';
 import { THEME } from '@/src/lib/constants';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import type { TranslationKey } from '@/src/types';
 
 // ============================================================================
 // TYPES
@@ -48,8 +50,8 @@ interface FooterLinkProps {
 }
 
 interface FooterSectionProps {
-  title: string;
-  links: Array<{ href: string; label: string }>;
+  title: TranslationKey;
+  links: Array<{ href: string; label: TranslationKey }>;
 }
 
 // ============================================================================
@@ -72,63 +74,67 @@ const FooterLink = ({ href, children }: FooterLinkProps) => (
   </ChakraLink>
 );
 
-const FooterSection = ({ title, links }: FooterSectionProps) => (
-  <Stack gap={3}>
-    <Heading 
-      as="h3" 
-      fontSize="sm" 
-      fontWeight="bold" 
-      color="gray.800"
-      textTransform="uppercase"
-      letterSpacing="wide"
-    >
-      {title}
-    </Heading>
-    <Stack gap={2}>
-      {links.map((link) => (
-        <FooterLink key={link.href} href={link.href}>
-          {link.label}
-        </FooterLink>
-      ))}
+const FooterSection = ({ title, links }: FooterSectionProps) => {
+  const { t } = useTranslation();
+
+  return (
+    <Stack gap={3}>
+      <Heading 
+        as="h3" 
+        fontSize="sm" 
+        fontWeight="bold" 
+        color="gray.800"
+        textTransform="uppercase"
+        letterSpacing="wide"
+      >
+        {t(title)}
+      </Heading>
+      <Stack gap={2}>
+        {links.map((link) => (
+          <FooterLink key={link.href} href={link.href}>
+            {t(link.label)}
+          </FooterLink>
+        ))}
+      </Stack>
     </Stack>
-  </Stack>
-);
+  );
+};
 
 // ============================================================================
 // DATA
 // ============================================================================
 
-const SECTIONS = [
+const SECTIONS: FooterSectionProps[] = [
   {
-    title: 'Company',
+    title: 'footer.company',
     links: [
-      { href: '/about', label: 'About Us' },
-      { href: '/contact', label: 'Contact' },
-      { href: '/careers', label: 'Careers' },
+      { href: '/about', label: 'footer.aboutUs' },
+      { href: '/contact', label: 'footer.contact' },
+      { href: '/careers', label: 'footer.careers' },
     ],
   },
   {
-    title: 'Product',
+    title: 'footer.product',
     links: [
-      { href: '/features', label: 'Features' },
-      { href: '/pricing', label: 'Pricing' },
-      { href: '/help', label: 'Help Center' },
+      { href: '/features', label: 'footer.features' },
+      { href: '/pricing', label: 'footer.pricing' },
+      { href: '/help', label: 'footer.helpCenter' },
     ],
   },
   {
-    title: 'Resources',
+    title: 'footer.resources',
     links: [
-      { href: '/faq', label: 'FAQ' },
-      { href: '/docs', label: 'Documentation' },
-      { href: '/blog', label: 'Blog' },
+      { href: '/faq', label: 'footer.faq' },
+      { href: '/docs', label: 'footer.documentation' },
+      { href: '/blog', label: 'footer.blog' },
     ],
   },
   {
-    title: 'Legal',
+    title: 'footer.legal',
     links: [
-      { href: '/privacy', label: 'Privacy Policy' },
-      { href: '/terms', label: 'Terms of Service' },
-      { href: '/cookies', label: 'Cookie Policy' },
+      { href: '/privacy', label: 'footer.privacyPolicy' },
+      { href: '/terms', label: 'footer.termsOfService' },
+      { href: '/cookies', label: 'footer.cookiePolicy' },
     ],
   },
 ];
@@ -150,6 +156,7 @@ const SOCIAL_LINKS = [
  * Clean, responsive footer with navigation and social links
  */
 export default function Footer() {
+  const { t } = useTranslation();
   const currentYear = new Date().getFullYear();
 
   return (
@@ -178,7 +185,7 @@ export default function Footer() {
               Ekadi
             </Heading>
             <Text fontSize="sm" color="gray.600" lineHeight="tall">
-              Create stunning event cards and manage RSVPs effortlessly.
+              {t('footer.tagline')}
             </Text>
           </Stack>
 
@@ -203,7 +210,7 @@ export default function Footer() {
             color="gray.500"
             textAlign={{ base: 'center', md: 'left' }}
           >
-            © {currentYear} Ekadi Platform. All rights reserved.
+            {t('footer.copyright', { year: currentYear })}
           </Text>
 
           {/* Social Links */}
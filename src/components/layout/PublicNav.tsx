@@ -41,10 +41,12 @@ import {
   FiUserPlus, 
   FiInfo,
   FiX,
+  FiGlobe,
 } from 'react-icons/fi';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { ROUTES, THEME } from '@/src/lib/constants';
+import { LOCALES, ROUTES, THEME } from '@/src/lib/constants';
+import { useTranslation } from '@/src/contexts/LocaleContext';
 import { useEffect, useState } from 'react';
 
 // ============================================================================
@@ -189,6 +191,7 @@ const ScrollProgress = () => {
  * Navigation for unauthenticated users with:
  * - Responsive mobile menu
  * - Login and register CTAs
+ * - Language switch
  * - Optional navigation links
  * - Active route highlighting
  * - Scroll progress indicator
@@ -197,6 +200,7 @@ const ScrollProgress = () => {
  */
 export default function PublicNav() {
   const pathname = usePathname();
+  const { locale, setLocale, t } = useTranslation();
   const [isOpen, setIsOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
 
@@ -238,12 +242,15 @@ export default function PublicNav() {
 
   // Navigation links for landing page sections
   const navItems = [
-    { href: '#features', label: 'Features', sectionId: 'features' },
-    { href: '#how-it-works', label: 'How It Works', sectionId: 'how-it-works' },
-    { href: '#testimonials', label: 'Testimonials', sectionId: 'testimonials' },
-    { href: '#benefits', label: 'Benefits', sectionId: 'benefits' },
+    { href: '#features', label: t('publicNav.features'), sectionId: 'features' },
+    { href: '#how-it-works', label: t('publicNav.howItWorks'), sectionId: 'how-it-works' },
+    { href: '#testimonials', label: t('publicNav.testimonials'), sectionId: 'testimonials' },
+    { href: '#benefits', label: t('publicNav.benefits'), sectionId: 'benefits' },
   ];
 
+  // Visitors have no profile yet, so the switch only changes this device
+  const otherLocale = LOCALES.find((item) => item.value !== locale) ?? LOCALES[0];
+
   return (
     <>
       <Box
@@ -263,7 +270,7 @@ export default function PublicNav() {
         <Container maxW="container.xl" h="full">
           <Flex justify="space-between" align="center" h="full">
             {/* LEFT - Logo */}
-            <Link href={ROUTES.PUBLIC.HOME} aria-label="Go to homepage">
+            <Link href={ROUTES.PUBLIC.HOME} aria-label={t('publicNav.goToHomepage')}>
               <HStack gap={2} cursor="pointer">
                 <Text 
                   fontSize={{ base: "xl", md: "2xl" }}
@@ -310,13 +317,30 @@ export default function PublicNav() {
                   _hover={{ color: THEME.COLORS.primary }}
                   transition="color 0.2s"
                 >
-                  Pricing
+                  {t('publicNav.pricing')}
                 </Text>
               </Link>
             </Flex>
 
             {/* RIGHT - Auth Buttons */}
             <Flex align="center" gap={3}>
+              {/* Language Switch */}
+              <Button
+                variant="ghost"
+                color="gray.700"
+                _hover={{ bg: 'gray.50', color: THEME.COLORS.primary }}
+                size="sm"
+                fontWeight="medium"
+                display="inline-flex"
+                alignItems="center"
+                gap={2}
+                onClick={() => setLocale(otherLocale.value)}
+                aria-label={t('publicNav.switchLanguage')}
+              >
+                <Icon as={FiGlobe} boxSize={4} />
+                {t(`languages.${otherLocale.value}`)}
+              </Button>
+
               {/* Desktop Auth Buttons */}
               <HStack gap={2} display={{ base: 'none', md: 'flex' }}>
                 <Link href={ROUTES.PUBLIC.LOGIN}>
@@ -331,7 +355,7 @@ export default function PublicNav() {
                     gap={2}
                   >
                     <Icon as={FiLogIn} boxSize={4} />
-                    Login
+                    {t('publicNav.login')}
                   </Button>
                 </Link>
                 <Link href={ROUTES.PUBLIC.REGISTER}>
@@ -344,7 +368,7 @@ export default function PublicNav() {
                     gap={2}
                   >
                     <Icon as={FiUserPlus} boxSize={4} />
-                    Get Started
+                    {t('publicNav.getStarted')}
                   </Button>
                 </Link>
               </HStack>
@@ -353,7 +377,7 @@ export default function PublicNav() {
               <Button
                 display={{ base: 'flex', md: 'none' }}
                 onClick={() => setIsOpen(true)}
-                aria-label="Open navigation menu"
+                aria-label={t('nav.openMenu')}
                 bg={THEME.COLORS.primary}
                 color="white"
                 borderRadius="lg"
@@ -419,13 +443,13 @@ export default function PublicNav() {
                   </Text>
                 </Box>
                 <Text fontSize="xl" fontWeight="bold" color={THEME.COLORS.primary}>
-                  Menu
+                  {t('nav.menu')}
                 </Text>
               </HStack>
               <DrawerCloseTrigger asChild>
                 <Button
                   variant="ghost"
-                  aria-label="Close menu"
+                  aria-label={t('nav.closeMenu')}
                   size="lg"
                   color={THEME.COLORS.primary}
                   minW="auto"
@@ -458,7 +482,7 @@ export default function PublicNav() {
                       textTransform="uppercase"
                       letterSpacing="wider"
                     >
-                      Navigation
+                      {t('nav.navigation')}
                     </Text>
                   </Flex>
                   {navItems.map((item, index) => (
@@ -495,7 +519,7 @@ export default function PublicNav() {
                       borderRadius="lg"
                       transition="all 0.2s"
                     >
-                      Pricing
+                      {t('publicNav.pricing')}
                     </Button>
                   </Link>
                 </VStack>
@@ -512,7 +536,7 @@ export default function PublicNav() {
                     textTransform="uppercase"
                     letterSpacing="wider"
                   >
-                    Get Started
+                    {t('publicNav.getStarted')}
                   </Text>
                 </Flex>
                 <Link href={ROUTES.PUBLIC.LOGIN} onClick={() => setIsOpen(false)} style={{ width: '100%' }}>
@@ -537,7 +561,7 @@ export default function PublicNav() {
                     transition="all 0.2s"
                   >
                     <Icon as={FiLogIn} boxSize={5} />
-                    Login
+                    {t('publicNav.login')}
                   </Button>
                 </Link>
                 <Link href={ROUTES.PUBLIC.REGISTER} onClick={() => setIsOpen(false)} style={{ width: '100%' }}>
@@ -562,7 +586,7 @@ export default function PublicNav() {
                     transition="all 0.2s"
                   >
                     <Icon as={FiUserPlus} boxSize={5} />
-                    Get Started Free
+                    {t('publicNav.getStartedFree')}
                   </Button>
                 </Link>
               </VStack>
@@ -597,12 +621,11 @@ export default function PublicNav() {
                     <Icon as={FiInfo} color="white" boxSize={4} />
                   </Box>
                   <Text fontSize="sm" fontWeight="bold" color={THEME.COLORS.primary}>
-                    New to Ekadi?
+                    {t('publicNav.newToEkadi')}
                   </Text>
                 </HStack>
                 <Text fontSize="sm" color="gray.600" lineHeight="tall">
-                  Create stunning event cards and manage RSVPs effortlessly. 
-                  Get started with our free plan today!
+                  {t('publicNav.newToEkadiText')}
                 </Text>
               </Box>
             </VStack>
@@ -0,0 +1,90 @@
+/**
+ * SMS Segment Notice Component
+ *
+ * Shows how many SMS a message is split into and warns when it crosses a
+ * segment boundary, since every segment is billed as a separate SMS.
+ *
+ * @module SmsSegmentNotice
+ */
+
+'use client';
+
+import { Box, Text, Flex, Icon } from '@chakra-ui/react';
+import { FiAlertTriangle, FiMessageSquare } from 'react-icons/fi';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import { getSmsSegmentInfo } from '@/src/lib/templates';
+import { SMS_SEGMENT_LIMITS } from '@/src/lib/constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SmsSegmentNoticeProps {
+  /** Message text with merge fields replaced for one guest */
+  text: string;
+}
+
+/** Below this many characters left, longer guest names may add a segment */
+const NEAR_LIMIT_CHARACTERS = 10;
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * SMS Segment Notice
+ *
+ * @param props - Component props
+ * @returns Segment count with a warning when the message is split
+ */
+export default function SmsSegmentNotice({ text }: SmsSegmentNoticeProps) {
+  const { t } = useTranslation();
+  const info = getSmsSegmentInfo(text);
+  const isSplit = info.segments > 1;
+  const isNearLimit = info.segments > 0 && info.remaining < NEAR_LIMIT_CHARACTERS;
+
+  return (
+    <Box
+      bg={isSplit ? 'orange.50' : 'gray.50'}
+      border="1px solid"
+      borderColor={isSplit ? 'orange.200' : 'gray.200'}
+      borderRadius="md"
+      p={3}
+    >
+      <Flex align="start" gap={2}>
+        <Icon
+          as={isSplit ? FiAlertTriangle : FiMessageSquare}
+          color={isSplit ? 'orange.500' : 'gray.500'}
+          mt={1}
+        />
+        <Box fontSize="sm">
+          <Text color="gray.700">
+            {t('smsSegments.summary', { length: info.length, segments: info.segments })}
+            {info.encoding === 'unicode' && ' (Unicode)'}
+          </Text>
+          {isSplit && (
+            <Text color="orange.700">
+              {t('smsSegments.split', {
+                segments: info.segments,
+                over: info.length - SMS_SEGMENT_LIMITS[info.encoding].single,
+              })}
+            </Text>
+          )}
+          {isNearLimit && (
+            <Text color="gray.600">
+              {t('smsSegments.nearLimit', { remaining: info.remaining })}
+            </Text>
+          )}
+          {info.encoding === 'unicode' && (
+            <Text color="gray.600">
+              {t('smsSegments.unicode', {
+                unicode: SMS_SEGMENT_LIMITS.unicode.single,
+                gsm: SMS_SEGMENT_LIMITS.gsm.single,
+              })}
+            </Text>
+          )}
+        </Box>
+      </Flex>
+    </Box>
+  );
+}
@@ -0,0 +1,446 @@
+/**
+ * Template Editor Component
+ *
+ * Form for creating or editing a message template. The English and
+ * Swahili variants are edited side by side with one language shown at a
+ * time, next to a live preview rendered against one of the user's events.
+ * SMS templates show how many segments each guest will be billed for.
+ *
+ * @module TemplateEditor
+ */
+
+'use client';
+
+import {
+  Box,
+  Heading,
+  Text,
+  Stack,
+  Input,
+  Textarea,
+  Button,
+  Flex,
+  Field,
+  SimpleGrid,
+} from '@chakra-ui/react';
+import { useMemo, useState } from 'react';
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { createMessageTemplate, updateMessageTemplate } from '@/src/lib/templates';
+import {
+  getChannelDisplay,
+  getMergeFieldLabel,
+  renderInvitationMessage,
+  getPreviewRsvpLink,
+} from '@/src/lib/invitations';
+import { getEventTypeLabel } from '@/src/lib/events';
+import { useTranslation } from '@/src/contexts/LocaleContext';
+import useCustomToast from '@/src/hooks/useToast';
+import SmsSegmentNotice from '@/src/components/templates/SmsSegmentNotice';
+import {
+  THEME,
+  EVENT_TYPES,
+  INVITATION_CHANNELS,
+  INVITATION_MERGE_FIELDS,
+  TEMPLATE_LANGUAGES,
+  TEMPLATE_PREVIEW_GUEST_NAME,
+  DEFAULT_INVITATION_MESSAGE,
+} from '@/src/lib/constants';
+import type {
+  ApiError,
+  EventListItem,
+  LocaleContextType,
+  MessageTemplate,
+  MessageTemplateFormData,
+  TemplateLanguage,
+} from '@/src/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TemplateEditorProps {
+  /** Template to edit, or null to create a new one */
+  template: MessageTemplate | null;
+  /** User's events, for the live preview */
+  events: EventListItem[];
+  /** Called with the saved template */
+  onSaved: (template: MessageTemplate) => void;
+  /** Called when editing is cancelled */
+  onCancel: () => void;
+}
+
+const MAX_MESSAGE_LENGTH = 1000;
+
+const createTemplateSchema = (t: LocaleContextType['t']) =>
+  z
+    .object({
+      name: z
+        .string()
+        .min(3, t('templateEditor.nameMin', { min: 3 }))
+        .max(100, t('templateEditor.nameMax', { max: 100 })),
+      event_type: z.enum(['wedding', 'send_off', 'conference', 'birthday', 'corporate', 'other']),
+      channel: z.enum(['sms', 'whatsapp', 'email']),
+      subject_en: z.string(),
+      body_en: z
+        .string()
+        .min(1, t('templateEditor.englishRequired'))
+        .max(MAX_MESSAGE_LENGTH, t('validation.messageMax', { max: MAX_MESSAGE_LENGTH })),
+      subject_sw: z.string(),
+      body_sw: z
+        .string()
+        .max(MAX_MESSAGE_LENGTH, t('validation.messageMax', { max: MAX_MESSAGE_LENGTH })),
+    })
+    .refine((data) => data.channel !== 'email' || !!data.subject_en.trim(), {
+      path: ['subject_en'],
+      message: t('validation.subjectRequired'),
+    })
+    .refine(
+      (data) => data.channel !== 'email' || !data.body_sw.trim() || !!data.subject_sw.trim(),
+      {
+        path: ['subject_sw'],
+        message: t('validation.subjectRequired'),
+      }
+    );
+
+type TemplateFormValues = z.infer<ReturnType<typeof createTemplateSchema>>;
+
+const selectProps = {
+  w: '100%',
+  h: '46px',
+  pl: '0.75rem',
+  pr: '0.5rem',
+  borderRadius: 'md',
+  border: '2px solid',
+  borderColor: 'gray.200',
+  bg: 'white',
+  color: THEME.COLORS.textPrimary,
+  fontSize: 'sm',
+  cursor: 'pointer',
+  _focus: {
+    borderColor: THEME.COLORS.primary,
+    boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+    outline: 'none',
+  },
+} as const;
+
+const focusStyle = {
+  borderColor: THEME.COLORS.primary,
+  boxShadow: `0 0 0 3px ${THEME.COLORS.primary}20`,
+  outline: 'none',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+/**
+ * Template Editor
+ *
+ * @param props - Component props
+ * @returns Template form with live preview
+ */
+export default function TemplateEditor({
+  template,
+  events,
+  onSaved,
+  onCancel,
+}: TemplateEditorProps) {
+  const { t } = useTranslation();
+  const [language, setLanguage] = useState<TemplateLanguage>('en');
+  const [previewEventId, setPreviewEventId] = useState<number | null>(null);
+
+  const toast = useCustomToast();
+
+  const templateSchema = useMemo(() => createTemplateSchema(t), [t]);
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    setValue,
+    formState: { errors, isSubmitting },
+  } = useForm<TemplateFormValues>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: {
+      name: template?.name ?? '',
+      event_type: template?.event_type ?? 'wedding',
+      channel: template?.channel ?? 'sms',
+      subject_en: template?.variants.en.subject ?? '',
+      body_en: template?.variants.en.body ?? DEFAULT_INVITATION_MESSAGE,
+      subject_sw: template?.variants.sw?.subject ?? '',
+      body_sw: template?.variants.sw?.body ?? '',
+    },
+  });
+
+  const values = useWatch({ control });
+  const bodyField = language === 'en' ? 'body_en' : 'body_sw';
+  const subjectField = language === 'en' ? 'subject_en' : 'subject_sw';
+  const body = values[bodyField] ?? '';
+
+  // Preview against the chosen event, or the first one of the template's type
+  const previewEvent =
+    events.find((event) => event.id === previewEventId) ??
+    events.find((event) => event.event_type === values.event_type) ??
+    events[0] ??
+    null;
+  const previewLink = getPreviewRsvpLink();
+  const renderedPreview = previewEvent
+    ? renderInvitationMessage(
+        body,
+        previewEvent,
+        { full_name: TEMPLATE_PREVIEW_GUEST_NAME },
+        previewLink
+      )
+    : '';
+
+  const insertMergeField = (token: string) => {
+    setValue(bodyField, `${body}${body.endsWith(' ') || !body ? '' : ' '}${token}`, {
+      shouldValidate: true,
+    });
+  };
+
+  const onSubmit = async (data: TemplateFormValues) => {
+    const payload: MessageTemplateFormData = {
+      name: data.name.trim(),
+      event_type: data.event_type,
+      channel: data.channel,
+      variants: {
+        en: { subject: data.subject_en.trim(), body: data.body_en.trim() },
+        sw: data.body_sw.trim()
+          ? { subject: data.subject_sw.trim(), body: data.body_sw.trim() }
+          : null,
+      },
+    };
+
+    try {
+      const saved = template
+        ? await updateMessageTemplate(template.id, payload)
+        : await createMessageTemplate(payload);
+      toast.success(
+        template ? t('templateEditor.updated') : t('templateEditor.saved'),
+        saved.name
+      );
+      onSaved(saved);
+    } catch (error) {
+      toast.error(
+        t('templateEditor.saveError'),
+        (error as ApiError)?.message || t('templateEditor.saveErrorMessage')
+      );
+    }
+  };
+
+  return (
+    <Box bg="white" borderRadius="xl" boxShadow="md" p={8}>
+      <form onSubmit={handleSubmit(onSubmit)}>
+        <Stack gap={6}>
+          <Heading fontSize="xl" color={THEME.COLORS.primary}>
+            {template ? t('templateEditor.editTitle') : t('templateEditor.newTitle')}
+          </Heading>
+
+          <SimpleGrid columns={{ base: 1, lg: 2 }} gap={8}>
+            {/* FORM */}
+            <Stack gap={5}>
+              <Field.Root invalid={!!errors.name} required>
+                <Field.Label fontWeight="semibold" color="gray.700">
+                  {t('templateEditor.name')}
+                </Field.Label>
+                <Input
+                  {...register('name')}
+                  placeholder={t('templateEditor.namePlaceholder')}
+                  borderRadius="md"
+                  borderColor="gray.200"
+                  _focus={focusStyle}
+                />
+                <Field.ErrorText>{errors.name?.message}</Field.ErrorText>
+              </Field.Root>
+
+              <SimpleGrid columns={{ base: 1, md: 2 }} gap={4}>
+                <Field.Root required>
+                  <Field.Label fontWeight="semibold" color="gray.700">
+                    {t('templateEditor.eventType')}
+                  </Field.Label>
+                  <Box as="select" {...register('event_type')} {...selectProps}>
+                    {EVENT_TYPES.map((type) => (
+                      <option key={type.value} value={type.value}>
+                        {type.icon} {getEventTypeLabel(type.value)}
+                      </option>
+                    ))}
+                  </Box>
+                </Field.Root>
+
+                <Field.Root required>
+                  <Field.Label fontWeight="semibold" color="gray.700">
+                    {t('common.channel')}
+                  </Field.Label>
+                  <Box as="select" {...register('channel')} {...selectProps}>
+                    {INVITATION_CHANNELS.map((channel) => (
+                      <option key={channel.value} value={channel.value}>
+                        {channel.icon} {getChannelDisplay(channel.value).label}
+                      </option>
+                    ))}
+                  </Box>
+                </Field.Root>
+              </SimpleGrid>
+
+              {/* LANGUAGE */}
+              <Flex gap={2}>
+                {TEMPLATE_LANGUAGES.map((item) => (
+                  <Button
+                    key={item.value}
+                    size="sm"
+                    variant={language === item.value ? 'solid' : 'outline'}
+                    bg={language === item.value ? THEME.COLORS.primary : undefined}
+                    color={language === item.value ? 'white' : 'gray.700'}
+                    onClick={() => setLanguage(item.value)}
+                  >
+                    {t(`languages.${item.value}`)}
+                    {item.value === 'sw' &&
+                      !values.body_sw?.trim() &&
+                      ` (${t('templateEditor.optional')})`}
+                  </Button>
+                ))}
+              </Flex>
+
+              {values.channel === 'email' && (
+                <Field.Root invalid={!!errors[subjectField]} required={language === 'en'}>
+                  <Field.Label fontWeight="semibold" color="gray.700">
+                    {t('templateEditor.emailSubject')}
+                  </Field.Label>
+                  <Input
+                    key={subjectField}
+                    {...register(subjectField)}
+                    borderRadius="md"
+                    borderColor="gray.200"
+                    _focus={focusStyle}
+                  />
+                  <Field.ErrorText>{errors[subjectField]?.message}</Field.ErrorText>
+                </Field.Root>
+              )}
+
+              <Field.Root invalid={!!errors[bodyField]} required={language === 'en'}>
+                <Field.Label fontWeight="semibold" color="gray.700">
+                  {t('common.message')}
+                </Field.Label>
+                <Textarea
+                  key={bodyField}
+                  {...register(bodyField)}
+                  rows={7}
+                  placeholder={
+                    language === 'sw'
+                      ? 'Habari {{guest_name}}, umealikwa kwenye {{event_name}}…'
+                      : undefined
+                  }
+                  borderRadius="md"
+                  borderColor="gray.200"
+                  _focus={focusStyle}
+                />
+                <Flex justify="space-between" w="full">
+                  <Field.ErrorText>{errors[bodyField]?.message}</Field.ErrorText>
+                  <Text fontSize="xs" color="gray.500" ml="auto">
+                    {body.length}/{MAX_MESSAGE_LENGTH}
+                  </Text>
+                </Flex>
+              </Field.Root>
+
+              <Stack gap={2}>
+                <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+                  {t('templateEditor.insertMergeField')}
+                </Text>
+                <Flex gap={2} flexWrap="wrap">
+                  {INVITATION_MERGE_FIELDS.map((field) => (
+                    <Button
+                      key={field.token}
+                      size="xs"
+                      variant="outline"
+                      onClick={() => insertMergeField(field.token)}
+                    >
+                      {getMergeFieldLabel(field.token)}
+                    </Button>
+                  ))}
+                </Flex>
+              </Stack>
+            </Stack>
+
+            {/* PREVIEW */}
+            <Stack gap={3}>
+              <Flex justify="space-between" align="center" gap={3} flexWrap="wrap">
+                <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+                  {t('templateEditor.preview')}
+                </Text>
+                {events.length > 1 && (
+                  <select
+                    value={previewEvent?.id ?? ''}
+                    onChange={(e) => setPreviewEventId(Number(e.target.value))}
+                    aria-label={t('templateEditor.previewEvent')}
+                    style={{
+                      height: 32,
+                      maxWidth: 240,
+                      padding: '0 0.5rem',
+                      borderRadius: 6,
+                      border: '1px solid #E2E8F0',
+                      fontSize: 14,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {events.map((event) => (
+                      <option key={event.id} value={event.id}>
+                        {event.event_name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </Flex>
+
+              {previewEvent ? (
+                <>
+                  <Box
+                    bg={THEME.COLORS.background}
+                    p={4}
+                    borderRadius="md"
+                    border="1px solid"
+                    borderColor="gray.200"
+                  >
+                    {values.channel === 'email' && (
+                      <Text fontSize="sm" fontWeight="semibold" color="gray.800" mb={2}>
+                        {values[subjectField]}
+                      </Text>
+                    )}
+                    <Text fontSize="sm" color="gray.700" whiteSpace="pre-wrap">
+                      {renderedPreview || t('templateEditor.startTyping')}
+                    </Text>
+                  </Box>
+                  <Text fontSize="xs" color="gray.500">
+                    {t('templateEditor.previewNote', {
+                      guest: TEMPLATE_PREVIEW_GUEST_NAME,
+                      event: previewEvent.event_name,
+                    })}
+                  </Text>
+                  {values.channel === 'sms' && renderedPreview && (
+                    <SmsSegmentNotice text={renderedPreview} />
+                  )}
+                </>
+              ) : (
+                <Box bg={THEME.COLORS.background} p={4} borderRadius="md">
+                  <Text fontSize="sm" color="gray.600">
+                    {t('templateEditor.noEvents')}
+                  </Text>
+                </Box>
+              )}
+            </Stack>
+          </SimpleGrid>
+
+          <Flex justify="flex-end" gap={3}>
+            <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+              {t('common.cancel')}
+            </Button>
+            <Button type="submit" loading={isSubmitting} {...THEME.BUTTON_STYLES.primaryButton}>
+              {template ? t('common.saveChanges') : t('templateEditor.saveTemplate')}
+            </Button>
+          </Flex>
+        </Stack>
+      </form>
+    </Box>
+  );
+}
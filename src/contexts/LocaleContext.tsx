@@ -0,0 +1,158 @@
+/**
+ * Ekadi Platform Locale Context
+ *
+ * This module holds the interface language. The language is read from
+ * localStorage, where the auth functions also store the language saved on
+ * the user's profile whenever user data is loaded, so logging in applies
+ * the user's choice on any device.
+ *
+ * Features:
+ * - Current locale, remembered across visits
+ * - Switching locale re-renders translated components and saves the
+ *   choice to the profile when logged in
+ * - Translate function bound to the current locale
+ *
+ * @module LocaleContext
+ */
+
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useSyncExternalStore,
+  ReactNode,
+} from 'react';
+import { useAuth } from '@/src/contexts/AuthContext';
+import { updateUserLocale } from '@/src/lib/auth';
+import {
+  getStoredLocale,
+  setActiveLocale,
+  storeLocale,
+  subscribeToLocale,
+  translate,
+} from '@/src/lib/i18n';
+import { DEFAULT_LOCALE } from '@/src/lib/constants';
+import type { Locale, LocaleContextType, TranslationKey, TranslationParams } from '@/src/types';
+
+// ============================================================================
+// CONTEXT CREATION
+// ============================================================================
+
+/**
+ * Locale context
+ * Provides the interface language to child components
+ */
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+// ============================================================================
+// PROVIDER COMPONENT
+// ============================================================================
+
+/**
+ * Props for LocaleProvider component
+ */
+interface LocaleProviderProps {
+  /** Child components that will have access to locale context */
+  children: ReactNode;
+}
+
+/**
+ * Locale Provider Component
+ *
+ * Must be rendered inside AuthProvider. Renders in the default language
+ * on the server and during hydration, then switches to the stored one.
+ *
+ * @param props - Component props
+ * @returns Provider component with locale context
+ *
+ * @example
+ * ```tsx
+ * <AuthProvider>
+ *   <LocaleProvider>
+ *     <App />
+ *   </LocaleProvider>
+ * </AuthProvider>
+ * ```
+ */
+export const LocaleProvider = ({ children }: LocaleProviderProps) => {
+  const { isAuthenticated } = useAuth();
+
+  const locale = useSyncExternalStore<Locale>(
+    subscribeToLocale,
+    getStoredLocale,
+    () => DEFAULT_LOCALE
+  );
+
+  // Lets translate() outside components (e.g. API errors) match the screen
+  setActiveLocale(locale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  /**
+   * Switch the interface language
+   *
+   * Applies immediately; saving to the profile happens in the background
+   * and the local choice is kept if it fails.
+   *
+   * @param nextLocale - Language to switch to
+   * @throws ApiError if saving to the profile fails
+   */
+  const setLocale = useCallback(
+    async (nextLocale: Locale): Promise<void> => {
+      storeLocale(nextLocale);
+      if (isAuthenticated) {
+        await updateUserLocale(nextLocale);
+      }
+    },
+    [isAuthenticated]
+  );
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(key, params, locale),
+    [locale]
+  );
+
+  const value: LocaleContextType = { locale, setLocale, t };
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+// ============================================================================
+// CUSTOM HOOK
+// ============================================================================
+
+/**
+ * Custom hook to access locale context
+ *
+ * Must be used within a LocaleProvider.
+ *
+ * @returns Locale context value
+ * @throws Error if used outside of LocaleProvider
+ *
+ * @example
+ * ```tsx
+ * const { t } = useTranslation();
+ *
+ * return <Heading>{t('dashboard.title')}</Heading>;
+ * ```
+ */
+export const useTranslation = (): LocaleContextType => {
+  const context = useContext(LocaleContext);
+
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within a LocaleProvider');
+  }
+
+  return context;
+};
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export { LocaleContext };
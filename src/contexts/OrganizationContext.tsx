@@ -0,0 +1,230 @@
+/**
+ * Ekadi Platform Organization Context
+ *
+ * This module holds the team workspace the user is working in. The active
+ * workspace ID is kept in localStorage, where the apiClient request
+ * interceptor reads it to scope every request; without one, requests
+ * return the user's personal events.
+ *
+ * Features:
+ * - Workspaces the signed-in user belongs to
+ * - Active workspace, remembered across visits; personal until the user
+ *   picks a workspace
+ * - Active workspace ID for pages to reload their data when it changes
+ *
+ * @module OrganizationContext
+ */
+
+'use client';
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  ReactNode,
+} from 'react';
+import { useAuth } from '@/src/contexts/AuthContext';
+import { getOrganizations } from '@/src/lib/organizations';
+import { STORAGE_KEYS } from '@/src/lib/constants';
+import type { Organization, OrganizationContextType } from '@/src/types';
+
+// ============================================================================
+// CONTEXT CREATION
+// ============================================================================
+
+/**
+ * Organization context
+ * Provides the active workspace to child components
+ */
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Read the stored workspace choice
+ *
+ * @returns Workspace ID, null for personal (stored as an empty string),
+ *   or undefined if the user has not chosen yet
+ */
+const readStoredOrganization = (): number | null | undefined => {
+  if (typeof window === 'undefined') return undefined;
+  const stored = localStorage.getItem(STORAGE_KEYS.ACTIVE_ORGANIZATION);
+  if (stored === null) return undefined;
+  return stored ? Number(stored) : null;
+};
+
+/**
+ * Store the workspace choice for the request interceptor
+ *
+ * @param organizationId - Workspace ID, or null for personal
+ */
+const storeOrganization = (organizationId: number | null): void => {
+  localStorage.setItem(
+    STORAGE_KEYS.ACTIVE_ORGANIZATION,
+    organizationId === null ? '' : String(organizationId)
+  );
+};
+
+// ============================================================================
+// PROVIDER COMPONENT
+// ============================================================================
+
+/**
+ * Props for OrganizationProvider component
+ */
+interface OrganizationProviderProps {
+  /** Child components that will have access to organization context */
+  children: ReactNode;
+}
+
+/**
+ * Organization Provider Component
+ *
+ * Must be rendered inside AuthProvider. Loads the user's workspaces after
+ * login; the user works on their personal events until they pick one.
+ * Pages showing workspace data list activeOrganizationId in the
+ * dependencies of their loading effect so they load again on a switch.
+ *
+ * @param props - Component props
+ * @returns Provider component with organization context
+ *
+ * @example
+ * ```tsx
+ * <AuthProvider>
+ *   <OrganizationProvider>
+ *     <App />
+ *   </OrganizationProvider>
+ * </AuthProvider>
+ * ```
+ */
+export const OrganizationProvider = ({ children }: OrganizationProviderProps) => {
+  const { user } = useAuth();
+
+  // ============================================================================
+  // STATE MANAGEMENT
+  // ============================================================================
+
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(() => readStoredOrganization() ?? null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  // ============================================================================
+  // ORGANIZATION FUNCTIONS
+  // ============================================================================
+
+  /**
+   * Reload the user's workspaces
+   *
+   * Falls back to personal events if the stored workspace is no longer
+   * available (e.g. the user was removed from it).
+   *
+   * @returns Promise resolving to the user's workspaces
+   */
+  const refreshOrganizations = useCallback(async (): Promise<Organization[]> => {
+    try {
+      const data = await getOrganizations();
+      const stored = readStoredOrganization();
+      const nextId = data.find((organization) => organization.id === stored)?.id ?? null;
+
+      storeOrganization(nextId);
+      setOrganizations(data);
+      setActiveId(nextId);
+      return data;
+    } catch (error) {
+      // Keep the stored workspace; requests stay scoped as before
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Failed to load organizations:', error);
+      }
+      return [];
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Switch the active workspace
+   *
+   * @param organizationId - Workspace ID, or null for personal events
+   *
+   * @example
+   * ```tsx
+   * switchOrganization(3); // work in workspace 3
+   * switchOrganization(null); // back to personal events
+   * ```
+   */
+  const switchOrganization = useCallback((organizationId: number | null): void => {
+    storeOrganization(organizationId);
+    setActiveId(organizationId);
+  }, []);
+
+  // ============================================================================
+  // INITIALIZATION
+  // ============================================================================
+
+  useEffect(() => {
+    if (!user) return;
+    refreshOrganizations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
+
+  // ============================================================================
+  // CONTEXT VALUE
+  // ============================================================================
+
+  const visibleOrganizations = user ? organizations : [];
+
+  const value: OrganizationContextType = {
+    organizations: visibleOrganizations,
+    activeOrganization:
+      visibleOrganizations.find((organization) => organization.id === activeId) ?? null,
+    activeOrganizationId: user ? activeId : null,
+    loading: !!user && loading,
+    switchOrganization,
+    refreshOrganizations,
+  };
+
+  return (
+    <OrganizationContext.Provider value={value}>
+      {children}
+    </OrganizationContext.Provider>
+  );
+};
+
+// ============================================================================
+// CUSTOM HOOK
+// ============================================================================
+
+/**
+ * Custom hook to access organization context
+ *
+ * Must be used within an OrganizationProvider.
+ *
+ * @returns Organization context value
+ * @throws Error if used outside of OrganizationProvider
+ *
+ * @example
+ * ```tsx
+ * const { activeOrganization } = useOrganization();
+ *
+ * return <Text>{activeOrganization?.name ?? 'Personal'}</Text>;
+ * ```
+ */
+export const useOrganization = (): OrganizationContextType => {
+  const context = useContext(OrganizationContext);
+
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+
+  return context;
+};
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export { OrganizationContext };
@@ -0,0 +1,61 @@
+/**
+ * Event Quota Hook
+ *
+ * Loads the current subscription and usage and works out how many events
+ * the user can still create this billing period.
+ *
+ * Features:
+ * - Remaining events on the current plan
+ * - Refresh after an event is created or a quota error comes back
+ *
+ * @module useEventQuota
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { getEventQuota, getSubscription, getUsageSummary } from '@/src/lib/billing';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import type { EventQuota } from '@/src/types';
+
+/**
+ * Event Quota Hook
+ *
+ * @returns Quota (null until loaded or if loading failed), loading flag and refresh function
+ *
+ * @example
+ * ```tsx
+ * const { quota } = useEventQuota();
+ *
+ * if (quota?.remaining === 0) {
+ *   // Suggest an upgrade instead of creating the event
+ * }
+ * ```
+ */
+export default function useEventQuota() {
+  const [quota, setQuota] = useState<EventQuota | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const { activeOrganizationId } = useOrganization();
+
+  const refresh = useCallback(async (): Promise<EventQuota | null> => {
+    try {
+      const [subscription, usage] = await Promise.all([getSubscription(), getUsageSummary()]);
+      const next = getEventQuota(subscription, usage);
+      setQuota(next);
+      return next;
+    } catch (error) {
+      // The backend still enforces the limit; the quota is only a hint
+      console.error('Error loading event quota:', error);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+    // Reloaded when the active workspace changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeOrganizationId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { quota, loading, refresh };
+}
@@ -0,0 +1,106 @@
+/**
+ * Wallet Balance Hook
+ *
+ * Loads the Pay As You Go credit balance and keeps every component that
+ * shows it in sync, so a top-up on one page updates the balance in the
+ * navigation bar as well.
+ *
+ * The balance is kept per user and workspace, so it is loaded again after
+ * logging in as someone else or switching workspace.
+ *
+ * Features:
+ * - Shared balance across components
+ * - Refresh after top-ups and sends
+ *
+ * @module useWalletBalance
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { getWalletBalance } from '@/src/lib/billing';
+import { useAuth } from '@/src/contexts/AuthContext';
+import { useOrganization } from '@/src/contexts/OrganizationContext';
+import type { WalletBalance } from '@/src/types';
+
+let currentWallet: WalletBalance | null = null;
+// User and workspace the cached balance belongs to
+let currentScope: string | null = null;
+const walletListeners: Array<(wallet: WalletBalance | null) => void> = [];
+
+/**
+ * Drop the cached balance when the user or workspace changes
+ */
+const setWalletScope = (scope: string | null) => {
+  currentScope = scope;
+  currentWallet = null;
+  walletListeners.forEach((listener) => listener(null));
+};
+
+/**
+ * Fetch the balance and pass it to every mounted useWalletBalance
+ *
+ * A balance that arrives after the user or workspace changed is not kept.
+ *
+ * @returns Promise resolving to the balance
+ * @throws ApiError if request fails
+ */
+export const refreshWalletBalance = async (): Promise<WalletBalance> => {
+  const scope = currentScope;
+  const wallet = await getWalletBalance();
+  if (scope === currentScope) {
+    currentWallet = wallet;
+    walletListeners.forEach((listener) => listener(wallet));
+  }
+  return wallet;
+};
+
+/**
+ * Wallet Balance Hook
+ *
+ * @param enabled - Load the balance (pass false until the user is signed in)
+ * @returns Balance (null until loaded), loading flag and refresh function
+ *
+ * @example
+ * ```tsx
+ * const { wallet, refresh } = useWalletBalance();
+ *
+ * return <Text>{wallet ? formatAmount(wallet.balance, wallet.currency) : '—'}</Text>;
+ * ```
+ */
+export default function useWalletBalance(enabled: boolean = true) {
+  const { user } = useAuth();
+  const { activeOrganizationId } = useOrganization();
+  const scope = user ? `${user.id}:${activeOrganizationId ?? 'personal'}` : null;
+  const cached = scope === currentScope ? currentWallet : null;
+
+  const [wallet, setWallet] = useState<WalletBalance | null>(cached);
+  const [loading, setLoading] = useState<boolean>(!cached);
+
+  useEffect(() => {
+    walletListeners.push(setWallet);
+
+    return () => {
+      const index = walletListeners.indexOf(setWallet);
+      if (index > -1) {
+        walletListeners.splice(index, 1);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (scope !== currentScope) {
+      setWalletScope(scope);
+    }
+  }, [scope]);
+
+  useEffect(() => {
+    if (!enabled || !scope) return;
+
+    refreshWalletBalance()
+      .catch((error) => console.error('Error loading wallet balance:', error))
+      .finally(() => setLoading(false));
+  }, [enabled, scope]);
+
+  const refresh = useCallback(() => refreshWalletBalance(), []);
+
+  return { wallet, loading, refresh };
+}
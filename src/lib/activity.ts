@@ -0,0 +1,115 @@
+/**
+ * Ekadi Platform Activity Feed API
+ *
+ * This module provides the activity feed: who created, edited, closed,
+ * reopened or deleted an event, who sent invitations and when RSVPs
+ * arrived. Entries are recorded by the backend and returned newest first,
+ * one page at a time. All functions use the configured apiClient which
+ * includes authentication, error handling, and automatic token refresh.
+ *
+ * Features:
+ * - Paginated activity across the user's events
+ * - Activity of a single event
+ * - Action display and relative time helpers
+ *
+ * @module activity
+ */
+
+import apiClient from './api';
+import { ACTIVITY_ACTIONS, ACTIVITY_PAGE_SIZE, API_ENDPOINTS } from './constants';
+import { getDateLocale, translate } from './i18n';
+import type { ActivityAction, ActivityEntry, PaginatedResponse } from '@/src/types';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get a page of activity, newest first
+ *
+ * @param filters - Optional event to show activity for, and page number (1-based)
+ * @returns Promise resolving to a page of activity entries
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * // Latest activity across all events
+ * const { results, next } = await getActivity();
+ *
+ * // Second page of one event's activity
+ * const page = await getActivity({ event: 12, page: 2 });
+ * ```
+ */
+export const getActivity = async (filters?: {
+  event?: number;
+  page?: number;
+}): Promise<PaginatedResponse<ActivityEntry>> => {
+  try {
+    const params = new URLSearchParams();
+    params.append('page_size', String(ACTIVITY_PAGE_SIZE));
+
+    if (filters?.event) {
+      params.append('event', String(filters.event));
+    }
+
+    if (filters?.page && filters.page > 1) {
+      params.append('page', String(filters.page));
+    }
+
+    const response = await apiClient.get<PaginatedResponse<ActivityEntry> | ActivityEntry[]>(
+      `${API_ENDPOINTS.ACTIVITY.LIST}?${params.toString()}`
+    );
+
+    // Handle unpaginated responses
+    if (Array.isArray(response.data)) {
+      return { count: response.data.length, next: null, previous: null, results: response.data };
+    }
+
+    return response.data;
+  } catch (error) {
+    console.error('Error fetching activity:', error);
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Get display label and badge color for an activity action
+ *
+ * @param action - Activity action
+ * @returns Label and Chakra color scheme
+ */
+export const getActivityActionDisplay = (
+  action: ActivityAction
+): { label: string; color: string } => {
+  const match = ACTIVITY_ACTIONS.find((item) => item.value === action);
+  return match
+    ? { label: translate(`activityActions.${match.value}`), color: match.color }
+    : { label: action, color: 'gray' };
+};
+
+/**
+ * Format an activity timestamp relative to now
+ *
+ * @param timestamp - ISO 8601 timestamp
+ * @returns e.g. "Just now", "5 min ago", "3 hours ago", "Yesterday" or "Mar 4, 2025"
+ */
+export const formatActivityTime = (timestamp: string): string => {
+  const elapsedMinutes = Math.floor((Date.now() - new Date(timestamp).getTime()) / 60000);
+
+  if (elapsedMinutes < 1) return translate('activityTime.justNow');
+  if (elapsedMinutes < 60) return translate('activityTime.minutesAgo', { count: elapsedMinutes });
+
+  const elapsedHours = Math.floor(elapsedMinutes / 60);
+  if (elapsedHours < 24) return translate('activityTime.hoursAgo', { count: elapsedHours });
+  if (elapsedHours < 48) return translate('activityTime.yesterday');
+
+  return new Date(timestamp).toLocaleDateString(getDateLocale(), {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
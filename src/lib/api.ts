@@ -6,6 +6,8 @@
  * 
  * Features:
  * - Automatic JWT token attachment to requests
+ * - Requests scoped to the active team workspace
+ * - Server messages in the interface language (Accept-Language)
  * - Token refresh on 401 errors
  * - Request/response interceptors
  * - Centralized error handling
@@ -15,7 +17,8 @@
 
 import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { API_CONFIG, API_ENDPOINTS, STORAGE_KEYS, ROUTES } from './constants';
-import { ApiResponse, ApiError } from '@/src/types';
+import { getActiveLocale, translate } from './i18n';
+import { ApiResponse, ApiError, TranslationKey } from '@/src/types';
 
 // ============================================================================
 // TOKEN REFRESH STATE
@@ -66,6 +69,7 @@ export const clearAuthTokens = (): void => {
     // Keep this function for backwards compatibility, but only clear
     // non-sensitive cached data.
     localStorage.removeItem(STORAGE_KEYS.USER_DATA);
+    localStorage.removeItem(STORAGE_KEYS.ACTIVE_ORGANIZATION);
   }
 };
 
@@ -102,6 +106,23 @@ const refreshAccessToken = async (): Promise<void> => {
   }
 };
 
+/**
+ * Format a DRF field name for error messages
+ * Uses the translated label for known fields (e.g. phone_number), otherwise
+ * title-cases the name
+ *
+ * @param field - Field name from the error response
+ * @returns Readable field name
+ */
+const formatFieldName = (field: string): string => {
+  const key = `errors.fields.${field}` as TranslationKey;
+  const label = translate(key);
+  if (label !== key) {
+    return label;
+  }
+  return field.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+};
+
 /**
  * Extract human-readable error message from Django REST Framework error response
  * 
@@ -116,7 +137,7 @@ const refreshAccessToken = async (): Promise<void> => {
  */
 const extractErrorMessage = (errorData: any): string => {
   if (!errorData || typeof errorData !== 'object') {
-    return 'An error occurred';
+    return translate('errors.generic');
   }
 
   // Check for explicit error/message/detail fields
@@ -141,18 +162,14 @@ const extractErrorMessage = (errorData: any): string => {
   for (const [field, errors] of Object.entries(errorData)) {
     if (Array.isArray(errors)) {
       // Format field name to be more readable
-      const fieldName = field
-        .replace(/_/g, ' ')
-        .replace(/\b\w/g, (l) => l.toUpperCase());
+      const fieldName = formatFieldName(field);
       errors.forEach((err: any) => {
         if (typeof err === 'string') {
           fieldErrors.push(`${fieldName}: ${err}`);
         } else if (typeof err === 'object') {
           // Handle nested errors (e.g., profile.phone_number)
           for (const [nestedField, nestedErrors] of Object.entries(err)) {
-            const nestedFieldName = nestedField
-              .replace(/_/g, ' ')
-              .replace(/\b\w/g, (l) => l.toUpperCase());
+            const nestedFieldName = formatFieldName(nestedField);
             if (Array.isArray(nestedErrors)) {
               nestedErrors.forEach((nestedErr: string) => {
                 fieldErrors.push(`${nestedFieldName}: ${nestedErr}`);
@@ -164,9 +181,7 @@ const extractErrorMessage = (errorData: any): string => {
     } else if (typeof errors === 'object' && errors !== null) {
       // Handle nested object errors (e.g., profile: { phone_number: [...] })
       for (const [nestedField, nestedErrors] of Object.entries(errors)) {
-        const nestedFieldName = nestedField
-          .replace(/_/g, ' ')
-          .replace(/\b\w/g, (l) => l.toUpperCase());
+        const nestedFieldName = formatFieldName(nestedField);
         if (Array.isArray(nestedErrors)) {
           nestedErrors.forEach((nestedErr: string) => {
             fieldErrors.push(`${nestedFieldName}: ${nestedErr}`);
@@ -180,7 +195,7 @@ const extractErrorMessage = (errorData: any): string => {
     return fieldErrors.join('\n');
   }
 
-  return 'An error occurred';
+  return translate('errors.generic');
 };
 
 /**
@@ -194,8 +209,8 @@ const formatApiError = (error: AxiosError): ApiError => {
   if (error.message === 'Network Error') {
     return {
       error: 'Network Error',
-      detail: 'Unable to connect to the server. Please check your internet connection.',
-      message: 'Unable to connect to the server. Please check your internet connection.',
+      detail: translate('errors.network'),
+      message: translate('errors.network'),
       status: 0,
     } as ApiError;
   }
@@ -204,8 +219,8 @@ const formatApiError = (error: AxiosError): ApiError => {
   if (error.code === 'ECONNABORTED') {
     return {
       error: 'Request Timeout',
-      detail: 'The request took too long to complete. Please try again.',
-      message: 'The request took too long to complete. Please try again.',
+      detail: translate('errors.timeout'),
+      message: translate('errors.timeout'),
       status: 408,
     } as ApiError;
   }
@@ -215,6 +230,21 @@ const formatApiError = (error: AxiosError): ApiError => {
     const { status, data } = error.response;
     const errorData = data as any;
     const errorMessage = extractErrorMessage(errorData);
+
+    // Plan limit reached
+    if (errorData?.code === 'quota_exceeded') {
+      return {
+        error: 'Quota Exceeded',
+        detail: errorData.detail || errorMessage,
+        message: errorMessage,
+        status,
+        quota: {
+          metric: errorData.metric,
+          limit: errorData.limit,
+          used: errorData.used,
+        },
+      } as ApiError;
+    }
     
     return {
       error: errorData?.error || 'Validation Error',
@@ -228,12 +258,44 @@ const formatApiError = (error: AxiosError): ApiError => {
   // Request was made but no response received
   return {
     error: 'No Response',
-    detail: 'The server did not respond. Please try again later.',
-    message: 'The server did not respond. Please try again later.',
+    detail: translate('errors.noResponse'),
+    message: translate('errors.noResponse'),
     status: 503,
   } as ApiError;
 };
 
+/**
+ * Check whether an error means the server could not be reached
+ *
+ * True for the connectivity errors produced by formatApiError (no network,
+ * timeout, no response), where the request may never have arrived. False
+ * for errors the server responded with, which retrying will not fix.
+ *
+ * @param error - Error thrown by apiClient or publicApiClient
+ * @returns Whether the request failed because of connectivity
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  const apiError = error as ApiError | undefined;
+  return (
+    apiError?.error === 'Network Error' ||
+    apiError?.error === 'Request Timeout' ||
+    apiError?.error === 'No Response'
+  );
+};
+
+/**
+ * Check whether an error means a plan limit was reached
+ *
+ * The backend rejects creating events or sending messages beyond the
+ * plan's allowance; the error's quota field says which limit was hit.
+ *
+ * @param error - Error thrown by apiClient
+ * @returns Whether the request was rejected by a plan limit
+ */
+export const isQuotaExceededError = (error: unknown): boolean => {
+  return (error as ApiError | undefined)?.error === 'Quota Exceeded';
+};
+
 // ============================================================================
 // AXIOS INSTANCE CONFIGURATION
 // ============================================================================
@@ -262,10 +324,20 @@ const apiClient: AxiosInstance = axios.create({
  *
  * Previously, this interceptor attached JWTs from localStorage to the
  * Authorization header. Since we now rely on httpOnly cookies managed
- * by the backend, we simply return the config unchanged.
+ * by the backend, it only asks for server messages in the interface
+ * language and scopes requests to the active team workspace (set by
+ * OrganizationContext); without the workspace header the backend returns
+ * the user's personal data.
  */
 apiClient.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
+    config.headers.set('Accept-Language', getActiveLocale());
+    if (typeof window !== 'undefined') {
+      const organizationId = localStorage.getItem(STORAGE_KEYS.ACTIVE_ORGANIZATION);
+      if (organizationId) {
+        config.headers.set(API_CONFIG.ORGANIZATION_HEADER, organizationId);
+      }
+    }
     return config;
   },
   (error) => {
@@ -367,7 +439,11 @@ apiClient.interceptors.response.use(
     }
 
     // Handle 403 Forbidden - Insufficient permissions
-    if (error.response?.status === 403) {
+    // (plan limits are also 403s, but the page handles those with an upgrade prompt)
+    if (
+      error.response?.status === 403 &&
+      (error.response.data as { code?: string } | undefined)?.code !== 'quota_exceeded'
+    ) {
       if (typeof window !== 'undefined') {
         window.location.href = ROUTES.ERROR.UNAUTHORIZED;
       }
@@ -386,6 +462,46 @@ apiClient.interceptors.response.use(
   }
 );
 
+// ============================================================================
+// PUBLIC CLIENT
+// ============================================================================
+
+/**
+ * Unauthenticated axios instance for guest-facing pages
+ *
+ * Used by pages opened from invitation links (e.g. the RSVP page) where
+ * the visitor is a guest, not a platform user. Requests are authorised by
+ * the token in the URL, so this client:
+ * - does not send cookies
+ * - never attempts a session refresh on 401
+ * - never redirects to the login or error pages
+ * Errors are still formatted as ApiError so pages can display them.
+ */
+const publicApiClient: AxiosInstance = axios.create({
+  baseURL: API_CONFIG.BASE_URL,
+  timeout: API_CONFIG.TIMEOUT,
+  headers: API_CONFIG.HEADERS,
+  withCredentials: false,
+});
+
+publicApiClient.interceptors.request.use((config: InternalAxiosRequestConfig) => {
+  // Guests on public pages (e.g. RSVP) get server messages in their language too
+  config.headers.set('Accept-Language', getActiveLocale());
+  return config;
+});
+
+publicApiClient.interceptors.response.use(
+  (response) => {
+    return response;
+  },
+  (error: AxiosError) => {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Public API Error:', error.message, error.response?.data);
+    }
+    return Promise.reject(formatApiError(error));
+  }
+);
+
 // ============================================================================
 // EXPORTS
 // ============================================================================
@@ -400,6 +516,11 @@ export default apiClient;
  */
 export { apiClient };
 
+/**
+ * Export unauthenticated client for guest-facing pages
+ */
+export { publicApiClient };
+
 /**
  * Export refresh function for manual token refresh
  */
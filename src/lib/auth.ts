@@ -13,13 +13,23 @@
  * - Email verification
  * - Password reset
  * - Profile management
+ * - Interface language saved on the profile
+ * - Notification preferences saved on the profile
  * 
  * @module auth
  */
 
 import apiClient from './api';
-import { API_ENDPOINTS, STORAGE_KEYS } from './constants';
-import { User, LoginCredentials, RegisterData, AuthResponse } from '@/src/types';
+import { API_ENDPOINTS, NOTIFICATION_CATEGORIES, STORAGE_KEYS } from './constants';
+import { isLocale, storeLocale } from './i18n';
+import {
+  User,
+  LoginCredentials,
+  RegisterData,
+  AuthResponse,
+  Locale,
+  NotificationPreferences,
+} from '@/src/types';
 
 // ============================================================================
 // USER DATA MANAGEMENT FUNCTIONS
@@ -28,13 +38,17 @@ import { User, LoginCredentials, RegisterData, AuthResponse } from '@/src/types'
 // ============================================================================
 /**
  * Save user data to localStorage
- * Serializes user object to JSON and stores it
+ * Serializes user object to JSON and stores it, and applies the interface
+ * language saved on the profile (so logging in switches to it)
  * 
  * @param user - User object to save
  */
 export const saveUserData = (user: User): void => {
   if (typeof window !== 'undefined') {
     localStorage.setItem(STORAGE_KEYS.USER_DATA, JSON.stringify(user));
+    if (isLocale(user.profile?.locale)) {
+      storeLocale(user.profile.locale);
+    }
   }
 };
 
@@ -145,9 +159,10 @@ export const logoutUser = async (): Promise<void> => {
       console.error('Logout API call failed:', error);
     }
   } finally {
-    // Clear cached user data
+    // Clear cached user data and the active workspace
     if (typeof window !== 'undefined') {
       localStorage.removeItem(STORAGE_KEYS.USER_DATA);
+      localStorage.removeItem(STORAGE_KEYS.ACTIVE_ORGANIZATION);
     }
   }
 };
@@ -340,6 +355,87 @@ export const updateUserProfile = async (data: any): Promise<User> => {
   }
 };
 
+/**
+ * Save the interface language on the user profile
+ * 
+ * @param locale - Interface language
+ * @returns Promise resolving to updated user object
+ * @throws ApiError if update fails
+ * 
+ * @example
+ * ```typescript
+ * await updateUserLocale('sw');
+ * ```
+ */
+export const updateUserLocale = async (locale: Locale): Promise<User> => {
+  return updateUserProfile({ profile: { locale } });
+};
+
+/**
+ * Fill in notification preferences missing from a profile
+ * 
+ * Profiles created before preferences existed have none stored, and a
+ * category added later is missing from older ones; both fall back to
+ * the category's defaults.
+ * 
+ * @param preferences - Preferences stored on the profile, if any
+ * @returns Preferences for every category
+ */
+export const resolveNotificationPreferences = (
+  preferences?: Partial<NotificationPreferences> | null
+): NotificationPreferences => {
+  return Object.fromEntries(
+    NOTIFICATION_CATEGORIES.map((category) => [
+      category.value,
+      {
+        email: preferences?.[category.value]?.email ?? category.default_email,
+        sms: preferences?.[category.value]?.sms ?? category.default_sms,
+      },
+    ])
+  ) as NotificationPreferences;
+};
+
+/**
+ * Get the notification preferences saved on the user profile
+ * 
+ * Loads the user from the API so changes made on another device show up.
+ * 
+ * @returns Promise resolving to preferences for every category
+ * @throws ApiError if request fails
+ * 
+ * @example
+ * ```typescript
+ * const preferences = await getNotificationPreferences();
+ * console.log(preferences.new_rsvp.sms);
+ * ```
+ */
+export const getNotificationPreferences = async (): Promise<NotificationPreferences> => {
+  const user = await getCurrentUser();
+  return resolveNotificationPreferences(user.profile?.notification_preferences);
+};
+
+/**
+ * Save notification preferences on the user profile
+ * 
+ * @param preferences - Preferences for every category
+ * @returns Promise resolving to the preferences as saved
+ * @throws ApiError if update fails
+ * 
+ * @example
+ * ```typescript
+ * await updateNotificationPreferences({
+ *   ...preferences,
+ *   daily_digest: { email: false, sms: false },
+ * });
+ * ```
+ */
+export const updateNotificationPreferences = async (
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> => {
+  const user = await updateUserProfile({ profile: { notification_preferences: preferences } });
+  return resolveNotificationPreferences(user.profile?.notification_preferences);
+};
+
 // ============================================================================
 // AVAILABILITY CHECK FUNCTIONS
 // ============================================================================
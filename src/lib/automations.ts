@@ -0,0 +1,314 @@
+/**
+ * Ekadi Platform Automations API
+ *
+ * This module provides scheduled invitation sends and automation rules:
+ * messages an event sends on its own, such as RSVP reminders to guests
+ * who have not responded, day-before reminders to confirmed guests and
+ * thank-you messages after the event. All API functions use the
+ * configured apiClient which includes authentication, error handling,
+ * and automatic token refresh.
+ *
+ * Features:
+ * - List, create, update, pause and delete automation rules
+ * - List and cancel scheduled invitation sends
+ * - Recipient previews for a rule from the guest list and RSVPs
+ *
+ * @module automations
+ */
+
+import apiClient from './api';
+import { API_ENDPOINTS, AUTOMATION_TRIGGERS } from './constants';
+import { getDateLocale, translate } from './i18n';
+import { canReceiveInvitation } from './invitations';
+import type {
+  AutomationRule,
+  AutomationRuleFormData,
+  AutomationTrigger,
+  Guest,
+  InvitationChannel,
+  Rsvp,
+  ScheduledSend,
+} from '@/src/types';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the automation rules of an event
+ *
+ * @param eventId - Event ID the rules belong to
+ * @returns Promise resolving to array of rules
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const rules = await getAutomationRules(1);
+ * ```
+ */
+export const getAutomationRules = async (eventId: number): Promise<AutomationRule[]> => {
+  try {
+    const response = await apiClient.get<AutomationRule[] | { results: AutomationRule[] }>(
+      API_ENDPOINTS.EVENTS.AUTOMATIONS(eventId)
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching automation rules:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create an automation rule
+ *
+ * The backend computes next_run_at from the event date, offset_days and
+ * send_time.
+ *
+ * @param eventId - Event ID to add the rule to
+ * @param data - Trigger, channel, message and timing
+ * @returns Promise resolving to the created rule
+ * @throws ApiError if validation fails or request fails
+ *
+ * @example
+ * ```typescript
+ * const rule = await createAutomationRule(1, {
+ *   trigger: 'rsvp_reminder',
+ *   channel: 'sms',
+ *   message: 'Hello {{guest_name}}, kindly RSVP: {{rsvp_link}}',
+ *   subject: '',
+ *   offset_days: 7,
+ *   send_time: '10:00',
+ * });
+ * ```
+ */
+export const createAutomationRule = async (
+  eventId: number,
+  data: AutomationRuleFormData
+): Promise<AutomationRule> => {
+  try {
+    const response = await apiClient.post<AutomationRule>(
+      API_ENDPOINTS.EVENTS.AUTOMATIONS(eventId),
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Update an automation rule
+ *
+ * @param eventId - Event ID the rule belongs to
+ * @param ruleId - Rule ID
+ * @param data - Fields to update
+ * @returns Promise resolving to the updated rule
+ * @throws ApiError if validation fails or request fails
+ */
+export const updateAutomationRule = async (
+  eventId: number,
+  ruleId: number,
+  data: Partial<AutomationRuleFormData & Pick<AutomationRule, 'is_paused'>>
+): Promise<AutomationRule> => {
+  try {
+    const response = await apiClient.patch<AutomationRule>(
+      API_ENDPOINTS.EVENTS.AUTOMATION_DETAIL(eventId, ruleId),
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Pause or resume an automation rule
+ *
+ * A paused rule skips its sends until resumed; sends whose time passed
+ * while paused are not made up.
+ *
+ * @param eventId - Event ID the rule belongs to
+ * @param ruleId - Rule ID
+ * @param isPaused - True to pause, false to resume
+ * @returns Promise resolving to the updated rule
+ * @throws ApiError if request fails
+ */
+export const setAutomationRulePaused = async (
+  eventId: number,
+  ruleId: number,
+  isPaused: boolean
+): Promise<AutomationRule> => {
+  return updateAutomationRule(eventId, ruleId, { is_paused: isPaused });
+};
+
+/**
+ * Delete an automation rule
+ *
+ * Messages the rule already sent are not affected.
+ *
+ * @param eventId - Event ID the rule belongs to
+ * @param ruleId - Rule ID
+ * @returns Promise resolving when deletion is complete
+ * @throws ApiError if request fails
+ */
+export const deleteAutomationRule = async (eventId: number, ruleId: number): Promise<void> => {
+  try {
+    await apiClient.delete(API_ENDPOINTS.EVENTS.AUTOMATION_DETAIL(eventId, ruleId));
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get the invitation sends scheduled for an event that have not run yet
+ *
+ * @param eventId - Event ID the sends belong to
+ * @returns Promise resolving to array of scheduled sends, soonest first
+ * @throws ApiError if request fails
+ */
+export const getScheduledSends = async (eventId: number): Promise<ScheduledSend[]> => {
+  try {
+    const response = await apiClient.get<ScheduledSend[] | { results: ScheduledSend[] }>(
+      API_ENDPOINTS.EVENTS.SCHEDULED_SENDS(eventId)
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching scheduled sends:', error);
+    throw error;
+  }
+};
+
+/**
+ * Cancel a scheduled invitation send
+ *
+ * @param eventId - Event ID the send belongs to
+ * @param sendId - Scheduled send ID
+ * @returns Promise resolving when the send is cancelled
+ * @throws ApiError if the send already ran or request fails
+ */
+export const cancelScheduledSend = async (eventId: number, sendId: number): Promise<void> => {
+  try {
+    await apiClient.delete(API_ENDPOINTS.EVENTS.SCHEDULED_SEND_DETAIL(eventId, sendId));
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Get display info for an automation trigger
+ *
+ * @param trigger - Automation trigger value
+ * @returns Trigger label, description and defaults
+ */
+export const getAutomationTriggerDisplay = (trigger: AutomationTrigger) => {
+  const match = AUTOMATION_TRIGGERS.find((item) => item.value === trigger) ?? AUTOMATION_TRIGGERS[0];
+  return {
+    ...match,
+    label: translate(`automationTriggers.${match.value}.label`),
+    description: translate(`automationTriggers.${match.value}.description`),
+  };
+};
+
+/**
+ * Describe when a rule sends relative to the event
+ *
+ * @param trigger - Automation trigger
+ * @param offsetDays - Days before (reminders) or after (thank-you) the event
+ * @returns Human-readable timing, e.g. "7 days before the event"
+ */
+export const formatRuleTiming = (trigger: AutomationTrigger, offsetDays: number): string => {
+  if (offsetDays === 0) {
+    return translate('ruleTiming.eventDay');
+  }
+  return translate(trigger === 'thank_you' ? 'ruleTiming.after' : 'ruleTiming.before', {
+    count: offsetDays,
+  });
+};
+
+/**
+ * Work out who a rule would message right now
+ *
+ * Mirrors the backend, which resolves recipients again when the rule
+ * runs, so the preview changes as guests respond:
+ * - rsvp_reminder: invited guests whose RSVP is still pending
+ * - day_before_reminder: guests attending
+ * - thank_you: guests who checked in, or guests attending when nobody was checked in
+ * Guests who cannot be reached on the rule's channel are left out.
+ *
+ * @param trigger - Automation trigger
+ * @param channel - Channel the rule sends through
+ * @param guests - Guest list of the event
+ * @param rsvps - RSVPs of the event
+ * @returns Guests the rule would message
+ */
+export const getRuleRecipients = (
+  trigger: AutomationTrigger,
+  channel: InvitationChannel,
+  guests: Guest[],
+  rsvps: Rsvp[]
+): Guest[] => {
+  const statusByGuest = new Map(rsvps.map((rsvp) => [rsvp.guest, rsvp.status]));
+  const isAttending = (guest: Guest) => statusByGuest.get(guest.id) === 'attending';
+
+  let recipients: Guest[];
+  switch (trigger) {
+    case 'rsvp_reminder':
+      recipients = guests.filter(
+        (guest) =>
+          guest.invited_at !== null && (statusByGuest.get(guest.id) ?? 'pending') === 'pending'
+      );
+      break;
+    case 'day_before_reminder':
+      recipients = guests.filter(isAttending);
+      break;
+    case 'thank_you': {
+      const checkedIn = guests.filter((guest) => guest.checked_in_at !== null);
+      recipients = checkedIn.length > 0 ? checkedIn : guests.filter(isAttending);
+      break;
+    }
+  }
+
+  return recipients.filter((guest) => canReceiveInvitation(guest, channel));
+};
+
+/**
+ * Format when a scheduled send or rule runs
+ *
+ * @param timestamp - ISO 8601 timestamp
+ * @returns Formatted date and time (e.g., "Sat, Dec 14, 10:00 AM")
+ */
+export const formatScheduledAt = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleString(getDateLocale(), {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
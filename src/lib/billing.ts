@@ -0,0 +1,616 @@
+/**
+ * Ekadi Platform Billing API
+ *
+ * This module provides functions for managing the user's plan and billing.
+ * Plans are the PRICING_PLANS entries from constants; the backend refers
+ * to them by PlanId. All functions use the configured apiClient which
+ * includes authentication, error handling, and automatic token refresh.
+ *
+ * Features:
+ * - Get the current subscription and usage for the billing period
+ * - Change plan (upgrades apply now, downgrades at the end of the period)
+ * - Monthly or annual billing, with the annual discount
+ * - Invoice history
+ * - Pay As You Go credit balance and ledger
+ * - Message cost estimates against plan allowances
+ * - Remaining event quota and the plan to upgrade to
+ * - Plan lookup, limits and display helpers
+ *
+ * @module billing
+ */
+
+import apiClient from './api';
+import { API_ENDPOINTS, PRICING_PLANS, STORAGE_KEYS } from './constants';
+import { translate } from './i18n';
+import type {
+  BillingCycle,
+  EventQuota,
+  InvitationChannel,
+  Invoice,
+  InvoiceStatus,
+  MessageCostEstimate,
+  MessageCostLine,
+  PlanId,
+  Subscription,
+  SubscriptionStatus,
+  TranslationKey,
+  UsageMetric,
+  UsageSummary,
+  WalletBalance,
+  WalletTransaction,
+  WalletTransactionType,
+} from '@/src/types';
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+/**
+ * A PRICING_PLANS entry
+ */
+export type PricingPlan = (typeof PRICING_PLANS)[keyof typeof PRICING_PLANS];
+
+/**
+ * Plans in ascending order, used to tell upgrades from downgrades
+ */
+export const BILLING_PLANS: { id: PlanId; plan: PricingPlan }[] = [
+  { id: 'payg', plan: PRICING_PLANS.PAY_AS_YOU_GO },
+  { id: 'starter', plan: PRICING_PLANS.STARTER },
+  { id: 'professional', plan: PRICING_PLANS.PROFESSIONAL },
+  { id: 'enterprise', plan: PRICING_PLANS.ENTERPRISE },
+];
+
+/**
+ * Usage metrics shown on the billing page; labels live in the usageMetrics messages
+ */
+export const USAGE_METRICS: UsageMetric[] = ['events', 'whatsapp', 'sms'];
+
+/** Badge colors by status; labels live in the subscriptionStatuses messages */
+const SUBSCRIPTION_STATUS_COLORS: Record<SubscriptionStatus, string> = {
+  active: 'green',
+  trialing: 'blue',
+  past_due: 'orange',
+  cancelled: 'red',
+};
+
+/** Badge colors by status; labels live in the invoiceStatuses messages */
+const INVOICE_STATUS_COLORS: Record<InvoiceStatus, string> = {
+  paid: 'green',
+  open: 'orange',
+  failed: 'red',
+  void: 'gray',
+};
+
+/** Badge colors by type; labels live in the walletTransactions messages */
+const WALLET_TRANSACTION_COLORS: Record<WalletTransactionType, string> = {
+  topup: 'green',
+  deduction: 'orange',
+  refund: 'blue',
+};
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the current user's subscription
+ *
+ * Users who never chose a plan are on Pay As You Go.
+ *
+ * @returns Promise resolving to the subscription
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const subscription = await getSubscription();
+ * console.log(getPricingPlan(subscription.plan).name);
+ * ```
+ */
+export const getSubscription = async (): Promise<Subscription> => {
+  try {
+    const response = await apiClient.get<Subscription>(API_ENDPOINTS.BILLING.SUBSCRIPTION);
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Change the subscription plan
+ *
+ * Upgrades take effect immediately. Downgrades, and moving from annual to
+ * monthly billing, take effect at the end of the current billing period
+ * and are returned as scheduled_plan.
+ *
+ * @param plan - Plan to move to
+ * @param billingCycle - How often the new plan is paid
+ * @returns Promise resolving to the updated subscription
+ * @throws ApiError if the plan change is not allowed or request fails
+ *
+ * @example
+ * ```typescript
+ * const subscription = await changePlan('professional', 'annual');
+ * ```
+ */
+export const changePlan = async (
+  plan: PlanId,
+  billingCycle: BillingCycle = 'monthly'
+): Promise<Subscription> => {
+  try {
+    const response = await apiClient.post<Subscription>(API_ENDPOINTS.BILLING.CHANGE_PLAN, {
+      plan,
+      billing_cycle: billingCycle,
+    });
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get usage for the current billing period
+ *
+ * @returns Promise resolving to the usage summary
+ * @throws ApiError if request fails
+ */
+export const getUsageSummary = async (): Promise<UsageSummary> => {
+  try {
+    const response = await apiClient.get<UsageSummary>(API_ENDPOINTS.BILLING.USAGE);
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get the user's invoices, newest first
+ *
+ * @returns Promise resolving to array of invoices
+ * @throws ApiError if request fails
+ */
+export const getInvoices = async (): Promise<Invoice[]> => {
+  try {
+    const response = await apiClient.get<Invoice[] | { results: Invoice[] }>(
+      API_ENDPOINTS.BILLING.INVOICES
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the Pay As You Go credit balance
+ *
+ * @returns Promise resolving to the balance
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const { balance, currency } = await getWalletBalance();
+ * ```
+ */
+export const getWalletBalance = async (): Promise<WalletBalance> => {
+  try {
+    const response = await apiClient.get<WalletBalance>(API_ENDPOINTS.BILLING.WALLET);
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get the wallet ledger, newest first
+ *
+ * @param filters - Optional event to show deductions and refunds for
+ * @returns Promise resolving to array of ledger entries
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const entries = await getWalletTransactions({ event: 12 });
+ * ```
+ */
+export const getWalletTransactions = async (filters?: {
+  event?: number;
+}): Promise<WalletTransaction[]> => {
+  try {
+    const params = new URLSearchParams();
+
+    if (filters?.event) {
+      params.append('event', String(filters.event));
+    }
+
+    const queryString = params.toString();
+    const url = `${API_ENDPOINTS.BILLING.WALLET_TRANSACTIONS}${queryString ? `?${queryString}` : ''}`;
+
+    const response = await apiClient.get<WalletTransaction[] | { results: WalletTransaction[] }>(
+      url
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching wallet transactions:', error);
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the PRICING_PLANS entry for a plan
+ *
+ * @param planId - Plan identifier
+ * @returns Plan details (Pay As You Go if unknown)
+ */
+export const getPricingPlan = (planId: PlanId): PricingPlan => {
+  return BILLING_PLANS.find((entry) => entry.id === planId)?.plan ?? PRICING_PLANS.PAY_AS_YOU_GO;
+};
+
+/**
+ * Get the translated description and features of a plan
+ *
+ * Plan names are brand names and stay as they are. Features are numbered
+ * f1, f2, ... in the pricingPlans messages, in PRICING_PLANS order.
+ *
+ * @param planId - Plan identifier
+ * @returns Description and feature list in the active language
+ */
+export const getPlanCopy = (planId: PlanId): { description: string; features: string[] } => {
+  const plan = getPricingPlan(planId);
+  return {
+    description: translate(`pricingPlans.${planId}.description`),
+    features: plan.features.map((_, index) =>
+      translate(`pricingPlans.${planId}.features.f${index + 1}` as TranslationKey)
+    ),
+  };
+};
+
+/**
+ * Get what a plan costs per billing cycle
+ *
+ * @param planId - Plan identifier
+ * @param billingCycle - Monthly or annual billing
+ * @returns Price, or null if the plan has no fixed price (Pay As You Go, Enterprise)
+ *
+ * @example
+ * ```typescript
+ * getPlanPrice('starter'); // 2500
+ * getPlanPrice('starter', 'annual'); // 25500
+ * ```
+ */
+export const getPlanPrice = (
+  planId: PlanId,
+  billingCycle: BillingCycle = 'monthly'
+): number | null => {
+  const plan = getPricingPlan(planId);
+  if (!('price' in plan)) return null;
+  return billingCycle === 'annual' ? plan.annualPrice : plan.price;
+};
+
+/**
+ * Get how much annual billing saves over twelve monthly payments
+ *
+ * @param planId - Plan identifier
+ * @returns Yearly saving, or null if the plan has no annual price
+ */
+export const getAnnualSavings = (planId: PlanId): number | null => {
+  const monthly = getPlanPrice(planId, 'monthly');
+  const annual = getPlanPrice(planId, 'annual');
+  if (monthly === null || annual === null) return null;
+  return monthly * 12 - annual;
+};
+
+/**
+ * Check whether moving between two plans is an upgrade
+ *
+ * @param from - Current plan
+ * @param to - Target plan
+ * @returns True if the target plan is higher than the current one
+ */
+export const isPlanUpgrade = (from: PlanId, to: PlanId): boolean => {
+  const rank = (planId: PlanId) => BILLING_PLANS.findIndex((entry) => entry.id === planId);
+  return rank(to) > rank(from);
+};
+
+/**
+ * Check whether a plan change has to be paid up front
+ *
+ * Moving to a higher plan, or from monthly to annual billing on the same
+ * plan, starts a new paid period straight away. Everything else takes
+ * effect at the end of the current period.
+ *
+ * @param subscription - Current subscription
+ * @param plan - Target plan
+ * @param billingCycle - Target billing cycle
+ * @returns True if the change is an upgrade
+ */
+export const isBillingUpgrade = (
+  subscription: Pick<Subscription, 'plan' | 'billing_cycle'>,
+  plan: PlanId,
+  billingCycle: BillingCycle
+): boolean => {
+  if (plan === subscription.plan) {
+    return subscription.billing_cycle === 'monthly' && billingCycle === 'annual';
+  }
+  return isPlanUpgrade(subscription.plan, plan);
+};
+
+/**
+ * Get a plan's monthly allowance for a usage metric
+ *
+ * @param planId - Plan identifier
+ * @param metric - Usage metric
+ * @returns Included amount, or null if the plan has no allowance
+ *   (Pay As You Go bills every use; Enterprise is unlimited)
+ *
+ * @example
+ * ```typescript
+ * getPlanLimit('starter', 'sms'); // 300
+ * getPlanLimit('payg', 'sms'); // null
+ * ```
+ */
+export const getPlanLimit = (planId: PlanId, metric: UsageMetric): number | null => {
+  const plan = getPricingPlan(planId);
+  if (!('limits' in plan) || !plan.limits) return null;
+  return plan.limits[metric];
+};
+
+/**
+ * Get how many events are left on the plan this period
+ *
+ * @param subscription - Current subscription
+ * @param usage - Usage so far this period
+ * @returns Event quota (no limit for Pay As You Go and Enterprise)
+ *
+ * @example
+ * ```typescript
+ * // Starter with 3 events created
+ * getEventQuota(subscription, usage).remaining; // 2
+ * ```
+ */
+export const getEventQuota = (
+  subscription: Pick<Subscription, 'plan'>,
+  usage: UsageSummary
+): EventQuota => {
+  const limit = getPlanLimit(subscription.plan, 'events');
+
+  return {
+    plan: subscription.plan,
+    limit,
+    used: usage.events,
+    remaining: limit === null ? null : Math.max(limit - usage.events, 0),
+    resets_at: usage.period_end,
+  };
+};
+
+/**
+ * Get the plan to suggest when a plan's event limit is reached
+ *
+ * @param planId - Current plan
+ * @returns The next plan with more events (Enterprise if none), or null on Enterprise
+ *
+ * @example
+ * ```typescript
+ * getUpgradePlan('starter'); // 'professional'
+ * ```
+ */
+export const getUpgradePlan = (planId: PlanId): PlanId | null => {
+  const current = getPlanLimit(planId, 'events');
+  const higher = BILLING_PLANS.filter((entry) => isPlanUpgrade(planId, entry.id));
+  if (higher.length === 0) return null;
+
+  const next = higher.find((entry) => {
+    const limit = getPlanLimit(entry.id, 'events');
+    return limit === null || current === null || limit > current;
+  });
+  return (next ?? higher[higher.length - 1]).id;
+};
+
+/**
+ * Format an amount of money for display
+ *
+ * @param amount - Amount
+ * @param currency - Currency code
+ * @returns Formatted amount, e.g. "KES 2,500"
+ */
+export const formatAmount = (amount: number, currency: string = 'KES'): string => {
+  return `${currency} ${amount.toLocaleString()}`;
+};
+
+/**
+ * Get display label and badge color for a subscription status
+ *
+ * @param status - Subscription status
+ * @returns Label and Chakra color scheme
+ */
+export const getSubscriptionStatusDisplay = (
+  status: SubscriptionStatus
+): { label: string; color: string } => {
+  const known = status in SUBSCRIPTION_STATUS_COLORS ? status : 'active';
+  return {
+    label: translate(`subscriptionStatuses.${known}`),
+    color: SUBSCRIPTION_STATUS_COLORS[known],
+  };
+};
+
+/**
+ * Get display label and badge color for an invoice status
+ *
+ * @param status - Invoice status
+ * @returns Label and Chakra color scheme
+ */
+export const getInvoiceStatusDisplay = (
+  status: InvoiceStatus
+): { label: string; color: string } => {
+  const known = status in INVOICE_STATUS_COLORS ? status : 'open';
+  return { label: translate(`invoiceStatuses.${known}`), color: INVOICE_STATUS_COLORS[known] };
+};
+
+/**
+ * Get display label and badge color for a wallet ledger entry type
+ *
+ * @param type - Ledger entry type
+ * @returns Label and Chakra color scheme
+ */
+export const getWalletTransactionDisplay = (
+  type: WalletTransactionType
+): { label: string; color: string } => {
+  const known = type in WALLET_TRANSACTION_COLORS ? type : 'deduction';
+  return { label: translate(`walletTransactions.${known}`), color: WALLET_TRANSACTION_COLORS[known] };
+};
+
+/**
+ * Get how much credit is missing to pay for a send
+ *
+ * @param wallet - Current credit balance
+ * @param cost - Cost of the send
+ * @returns Shortfall, or 0 if the balance covers the cost
+ *
+ * @example
+ * ```typescript
+ * getCreditShortfall({ balance: 200, currency: 'KES' }, 360); // 160
+ * ```
+ */
+export const getCreditShortfall = (wallet: WalletBalance, cost: number): number => {
+  return Math.max(cost - wallet.balance, 0);
+};
+
+// ============================================================================
+// COST ESTIMATES
+// ============================================================================
+
+/**
+ * Estimate the cost of sending messages on a plan
+ *
+ * Messages are first taken from what is left of the plan's monthly
+ * allowance; the rest are charged at Pay As You Go rates. Pay As You Go
+ * has no allowance, Enterprise is unlimited and email is always free.
+ *
+ * @param planId - Plan to estimate for
+ * @param messages - Number of messages per channel
+ * @param usage - Usage so far this period (omit to assume the full allowance is left)
+ * @returns Cost per channel and in total
+ *
+ * @example
+ * ```typescript
+ * // Starter with 250 of 300 SMS used: 50 included, 70 × KES 3
+ * estimateMessageCost('starter', { sms: 120 }, usage).total; // 210
+ * ```
+ */
+export const estimateMessageCost = (
+  planId: PlanId,
+  messages: Partial<Record<InvitationChannel, number>>,
+  usage?: UsageSummary | null
+): MessageCostEstimate => {
+  const plan = getPricingPlan(planId);
+  const { pricing } = PRICING_PLANS.PAY_AS_YOU_GO;
+  const rates: Record<InvitationChannel, number> = {
+    sms: pricing.sms_message.amount,
+    whatsapp: pricing.whatsapp_message.amount,
+    email: 0,
+  };
+
+  const lines: MessageCostLine[] = (['whatsapp', 'sms', 'email'] as InvitationChannel[])
+    .filter((channel) => (messages[channel] ?? 0) > 0)
+    .map((channel) => {
+      const count = messages[channel] ?? 0;
+      let included = 0;
+
+      if (channel === 'email' || plan.type === 'custom') {
+        included = count;
+      } else {
+        const limit = getPlanLimit(planId, channel);
+        if (limit !== null) {
+          included = Math.min(count, Math.max(limit - (usage?.[channel] ?? 0), 0));
+        }
+      }
+
+      const billable = count - included;
+      return {
+        channel,
+        count,
+        included,
+        billable,
+        rate: rates[channel],
+        cost: billable * rates[channel],
+      };
+    });
+
+  return {
+    plan: planId,
+    lines,
+    included: lines.reduce((sum, line) => sum + line.included, 0),
+    billable: lines.reduce((sum, line) => sum + line.billable, 0),
+    total: lines.reduce((sum, line) => sum + line.cost, 0),
+    currency: pricing.sms_message.currency,
+  };
+};
+
+// ============================================================================
+// PLAN SELECTION
+// ============================================================================
+
+/**
+ * Remember the plan picked on the pricing page
+ *
+ * Kept until the billing page opens checkout, so the choice survives
+ * signing up or logging in first.
+ *
+ * @param plan - Plan picked
+ * @param billingCycle - Billing cycle picked
+ */
+export const savePlanSelection = (plan: PlanId, billingCycle: BillingCycle): void => {
+  localStorage.setItem(
+    STORAGE_KEYS.PLAN_SELECTION,
+    JSON.stringify({ plan, billing_cycle: billingCycle })
+  );
+};
+
+/**
+ * Get and forget the plan picked on the pricing page
+ *
+ * @returns The picked plan and billing cycle, or null if none
+ */
+export const takePlanSelection = (): { plan: PlanId; billing_cycle: BillingCycle } | null => {
+  const stored = localStorage.getItem(STORAGE_KEYS.PLAN_SELECTION);
+  if (!stored) return null;
+  localStorage.removeItem(STORAGE_KEYS.PLAN_SELECTION);
+
+  try {
+    const selection = JSON.parse(stored);
+    if (BILLING_PLANS.some((entry) => entry.id === selection?.plan)) {
+      return {
+        plan: selection.plan,
+        billing_cycle: selection.billing_cycle === 'annual' ? 'annual' : 'monthly',
+      };
+    }
+  } catch {
+    // Ignore malformed selections
+  }
+  return null;
+};
@@ -0,0 +1,334 @@
+/**
+ * Ekadi Platform Card Renderer
+ *
+ * Client-side rendering of invitation cards for download and printing.
+ * A card layout plus event data is drawn onto a canvas at print
+ * resolution, then exported as PNG or as a print-ready PDF. Batch mode
+ * renders one personalised card per guest and zips them.
+ *
+ * Layout percentages refer to the trim area; when bleed is enabled the
+ * background extends past the trim on every side so printers can cut
+ * without white edges.
+ *
+ * @module cardRenderer
+ */
+
+import { resolveCardColor, resolveCardText } from './cardTemplates';
+import { translate } from './i18n';
+import type {
+  CardEventData,
+  CardExportOptions,
+  CardLayout,
+  CardPrintSize,
+  Guest,
+} from '@/src/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Supported print sizes (portrait, millimetres)
+ */
+export const CARD_PRINT_SIZES: Record<
+  CardPrintSize,
+  { label: string; width_mm: number; height_mm: number }
+> = {
+  A5: { label: 'A5 (148 × 210 mm)', width_mm: 148, height_mm: 210 },
+  A6: { label: 'A6 (105 × 148 mm)', width_mm: 105, height_mm: 148 },
+};
+
+/** Bleed added to every side when printing (millimetres) */
+export const CARD_BLEED_MM = 3;
+
+/** Export resolution in dots per inch */
+export const CARD_EXPORT_DPI = 300;
+
+const MM_PER_INCH = 25.4;
+
+// ============================================================================
+// DRAWING
+// ============================================================================
+
+/**
+ * Convert millimetres to pixels at the export resolution
+ */
+const mmToPx = (mm: number): number => Math.round((mm / MM_PER_INCH) * CARD_EXPORT_DPI);
+
+/**
+ * Load an image for drawing onto a canvas
+ *
+ * Remote images must be served with CORS headers, otherwise the canvas
+ * becomes tainted and cannot be exported.
+ */
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(translate('cardExport.errors.backgroundFailed')));
+    image.src = src;
+  });
+
+/**
+ * Split text into lines that fit within a maximum width
+ */
+const wrapText = (
+  context: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number
+): string[] => {
+  const lines: string[] = [];
+
+  text.split('\n').forEach((paragraph) => {
+    let line = '';
+    paragraph.split(' ').forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && context.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+/**
+ * Draw a card onto a new canvas at print resolution
+ *
+ * Mirrors the CardPreview component: text blocks span the middle 80% of
+ * the card, the border is inset 4% of the card width.
+ *
+ * @param layout - Card layout to draw
+ * @param event - Event the card is for
+ * @param options - Print size and bleed
+ * @param guestName - Guest the card is personalised for (blank if omitted)
+ * @returns Promise resolving to the drawn canvas
+ * @throws Error if the background image cannot be loaded
+ */
+export const renderCardToCanvas = async (
+  layout: CardLayout,
+  event: CardEventData,
+  options: Pick<CardExportOptions, 'size' | 'bleed'>,
+  guestName: string = ''
+): Promise<HTMLCanvasElement> => {
+  const { width_mm, height_mm } = CARD_PRINT_SIZES[options.size];
+  const bleed = options.bleed ? mmToPx(CARD_BLEED_MM) : 0;
+  const width = mmToPx(width_mm);
+  const height = mmToPx(height_mm);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width + bleed * 2;
+  canvas.height = height + bleed * 2;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error(translate('cardExport.errors.unsupported'));
+  }
+
+  // Background color and image fill the bleed area too
+  context.fillStyle = resolveCardColor(layout.background_color);
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (layout.background_image) {
+    const image = await loadImage(layout.background_image);
+    const scale = Math.max(canvas.width / image.width, canvas.height / image.height);
+    const drawWidth = image.width * scale;
+    const drawHeight = image.height * scale;
+    context.drawImage(
+      image,
+      (canvas.width - drawWidth) / 2,
+      (canvas.height - drawHeight) / 2,
+      drawWidth,
+      drawHeight
+    );
+  }
+
+  // Everything else is positioned relative to the trim area
+  context.translate(bleed, bleed);
+
+  if (layout.border_style !== 'none') {
+    const inset = width * 0.04;
+    context.strokeStyle = resolveCardColor(layout.accent_color);
+
+    if (layout.border_style === 'double') {
+      const total = width * 0.012;
+      const line = total / 3;
+      context.lineWidth = line;
+      context.strokeRect(inset + line / 2, inset + line / 2, width - 2 * inset - line, height - 2 * inset - line);
+      const inner = inset + total - line / 2;
+      context.strokeRect(inner, inner, width - 2 * inner, height - 2 * inner);
+    } else {
+      const line = width * 0.005;
+      context.lineWidth = line;
+      context.strokeRect(inset + line / 2, inset + line / 2, width - 2 * inset - line, height - 2 * inset - line);
+    }
+  }
+
+  const left = width * 0.1;
+  const textWidth = width * 0.8;
+  context.textBaseline = 'top';
+
+  layout.text_blocks.forEach((block) => {
+    const text = resolveCardText(block, event, guestName);
+    if (!text) return;
+
+    const fontSize = (block.font_size / 100) * width;
+    const fontFamily = block.font_family === 'serif' ? 'Georgia, serif' : 'Helvetica, Arial, sans-serif';
+    context.font = `${block.font_weight} ${fontSize}px ${fontFamily}`;
+    context.fillStyle = resolveCardColor(block.color);
+    context.textAlign = block.align;
+
+    const x = block.align === 'left' ? left : block.align === 'right' ? left + textWidth : left + textWidth / 2;
+    let y = (block.y / 100) * height;
+
+    wrapText(context, text, textWidth).forEach((line) => {
+      context.fillText(line, x, y);
+      y += fontSize * 1.25;
+    });
+  });
+
+  return canvas;
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Convert a rendered card to a file in the requested format
+ */
+const canvasToBlob = async (
+  canvas: HTMLCanvasElement,
+  options: CardExportOptions
+): Promise<Blob> => {
+  if (options.format === 'png') {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error(translate('cardExport.errors.exportFailed'))),
+        'image/png'
+      );
+    });
+  }
+
+  // PDF library is loaded on demand to keep it out of the main bundle
+  const { jsPDF } = await import('jspdf');
+  const { width_mm, height_mm } = CARD_PRINT_SIZES[options.size];
+  const bleed = options.bleed ? CARD_BLEED_MM : 0;
+  const pageWidth = width_mm + bleed * 2;
+  const pageHeight = height_mm + bleed * 2;
+
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: [pageWidth, pageHeight] });
+  pdf.addImage(canvas.toDataURL('image/jpeg', 0.95), 'JPEG', 0, 0, pageWidth, pageHeight);
+  return pdf.output('blob');
+};
+
+/**
+ * Build a file name for an exported card
+ *
+ * @param name - Event or guest name
+ * @param options - Export options
+ * @param extension - File extension (defaults to the export format)
+ * @returns Safe file name, e.g. "wanjiru-kamau-a5.pdf"
+ */
+export const getCardFileName = (
+  name: string,
+  options: CardExportOptions,
+  extension: string = options.format
+): string => {
+  const slug =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'card';
+  return `${slug}-${options.size.toLowerCase()}.${extension}`;
+};
+
+/**
+ * Render and export a single card
+ *
+ * @param layout - Card layout to draw
+ * @param event - Event the card is for
+ * @param options - Size, bleed and format
+ * @returns Promise resolving to the PNG or PDF file
+ * @throws Error if rendering fails
+ *
+ * @example
+ * ```typescript
+ * const blob = await exportCard(layout, event, { size: 'A5', bleed: true, format: 'pdf' });
+ * downloadBlob(blob, getCardFileName(event.event_name, options));
+ * ```
+ */
+export const exportCard = async (
+  layout: CardLayout,
+  event: CardEventData,
+  options: CardExportOptions
+): Promise<Blob> => {
+  const canvas = await renderCardToCanvas(layout, event, options);
+  return canvasToBlob(canvas, options);
+};
+
+/**
+ * Render one personalised card per guest and zip them
+ *
+ * Cards are rendered one at a time to keep memory use flat for large
+ * guest lists.
+ *
+ * @param layout - Card layout to draw
+ * @param event - Event the cards are for
+ * @param guests - Guests to personalise cards for
+ * @param options - Size, bleed and format
+ * @param onProgress - Called with the number of cards rendered so far
+ * @returns Promise resolving to the ZIP file
+ * @throws Error if rendering fails
+ */
+export const exportGuestCardsZip = async (
+  layout: CardLayout,
+  event: CardEventData,
+  guests: Pick<Guest, 'id' | 'full_name'>[],
+  options: CardExportOptions,
+  onProgress?: (done: number) => void
+): Promise<Blob> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+
+  for (let index = 0; index < guests.length; index++) {
+    const guest = guests[index];
+    const canvas = await renderCardToCanvas(layout, event, options, guest.full_name);
+    const blob = await canvasToBlob(canvas, options);
+
+    let fileName = getCardFileName(guest.full_name, options);
+    if (usedNames.has(fileName)) {
+      fileName = getCardFileName(`${guest.full_name}-${guest.id}`, options);
+    }
+    usedNames.add(fileName);
+
+    zip.file(fileName, blob);
+    onProgress?.(index + 1);
+  }
+
+  return zip.generateAsync({ type: 'blob' });
+};
+
+/**
+ * Trigger a browser download for a file
+ *
+ * @param blob - File contents
+ * @param fileName - Suggested file name
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
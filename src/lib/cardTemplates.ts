@@ -0,0 +1,301 @@
+/**
+ * Ekadi Platform Card Templates
+ *
+ * Starting layouts for invitation cards (one per EVENT_TYPES entry) and
+ * the helpers used to draw a card layout with real event data. Nothing
+ * in this module talks to the API; designs are saved through cards.ts.
+ *
+ * Layout units are percentages of the card (positions of the height,
+ * font sizes of the width) so the same design renders identically in
+ * the designer preview and at print resolution.
+ *
+ * @module cardTemplates
+ */
+
+import { EVENT_TYPES, THEME } from './constants';
+import { formatEventDate, formatEventTime } from './events';
+import type {
+  CardBorderStyle,
+  CardColor,
+  CardEventData,
+  CardTextBinding,
+  CardTextBlock,
+  EventType,
+} from '@/src/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Card width divided by height (A-series portrait, shared by A5 and A6) */
+export const CARD_ASPECT_RATIO = 148 / 210;
+
+/** Maximum background image size in bytes (5MB) */
+export const CARD_BACKGROUND_MAX_SIZE = 5 * 1024 * 1024;
+
+/** Text shown in guest name blocks until cards are personalised */
+export const CARD_GUEST_NAME_PLACEHOLDER = 'Guest Name';
+
+/** Accepted background image types */
+export const CARD_BACKGROUND_ACCEPT = 'image/png,image/jpeg,image/webp';
+
+/**
+ * Colors available in the designer, limited to the THEME.COLORS palette
+ */
+export const CARD_COLOR_OPTIONS: { value: CardColor; label: string }[] = [
+  { value: 'primary', label: 'Deep Teal' },
+  { value: 'accent', label: 'Vibrant Coral' },
+  { value: 'background', label: 'Warm Off-White' },
+  { value: 'cardBg', label: 'White' },
+  { value: 'textPrimary', label: 'Charcoal' },
+  { value: 'textSecondary', label: 'Slate' },
+  { value: 'success', label: 'Green' },
+  { value: 'error', label: 'Red' },
+  { value: 'warning', label: 'Amber' },
+  { value: 'info', label: 'Blue' },
+];
+
+/**
+ * Event fields a text block can be bound to
+ */
+export const CARD_TEXT_BINDINGS: { value: CardTextBinding; label: string }[] = [
+  { value: 'guest_name', label: 'Guest name' },
+  { value: 'event_name', label: 'Event name' },
+  { value: 'event_type', label: 'Event type' },
+  { value: 'event_date', label: 'Event date' },
+  { value: 'event_time', label: 'Event time' },
+  { value: 'event_location', label: 'Location' },
+  { value: 'event_description', label: 'Description' },
+  { value: 'custom', label: 'Custom text' },
+];
+
+/**
+ * Border decorations available in the designer
+ */
+export const CARD_BORDER_STYLES: { value: CardBorderStyle; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'solid', label: 'Single line' },
+  { value: 'double', label: 'Double line' },
+];
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/**
+ * Card template interface
+ */
+export interface CardTemplate {
+  /** Event type the template is designed for */
+  value: EventType;
+  /** Display label (from EVENT_TYPES) */
+  label: string;
+  /** Display icon (from EVENT_TYPES) */
+  icon: string;
+  /** Default background color */
+  background_color: CardColor;
+  /** Default accent color */
+  accent_color: CardColor;
+  /** Default border decoration */
+  border_style: CardBorderStyle;
+  /** Default text blocks */
+  text_blocks: CardTextBlock[];
+}
+
+/**
+ * Build a text block with sensible defaults
+ */
+const textBlock = (
+  binding: CardTextBinding,
+  y: number,
+  overrides: Partial<CardTextBlock> = {}
+): CardTextBlock => ({
+  id: `${binding}-${y}`,
+  binding,
+  text: '',
+  y,
+  font_size: 4.5,
+  font_weight: 'normal',
+  font_family: 'sans-serif',
+  align: 'center',
+  color: 'textPrimary',
+  ...overrides,
+});
+
+/**
+ * Template layouts keyed by event type
+ */
+const TEMPLATE_LAYOUTS: Record<EventType, Omit<CardTemplate, 'value' | 'label' | 'icon'>> = {
+  wedding: {
+    background_color: 'cardBg',
+    accent_color: 'primary',
+    border_style: 'double',
+    text_blocks: [
+      textBlock('custom', 14, { text: 'Together with their families', font_family: 'serif', color: 'textSecondary', font_size: 4 }),
+      textBlock('event_name', 26, { font_family: 'serif', font_weight: 'bold', font_size: 9, color: 'primary' }),
+      textBlock('custom', 46, { text: 'request the pleasure of your company', font_family: 'serif', color: 'textSecondary', font_size: 3.8 }),
+      textBlock('event_date', 58, { font_family: 'serif', font_weight: 'bold', font_size: 5.5 }),
+      textBlock('event_time', 66, { font_family: 'serif' }),
+      textBlock('event_location', 76, { font_family: 'serif', color: 'textSecondary' }),
+    ],
+  },
+  send_off: {
+    background_color: 'background',
+    accent_color: 'accent',
+    border_style: 'solid',
+    text_blocks: [
+      textBlock('custom', 14, { text: 'You are invited to a send-off', color: 'accent', font_size: 4.2 }),
+      textBlock('event_name', 26, { font_weight: 'bold', font_size: 8.5 }),
+      textBlock('event_description', 46, { color: 'textSecondary', font_size: 3.6 }),
+      textBlock('event_date', 62, { font_weight: 'bold', font_size: 5 }),
+      textBlock('event_time', 70),
+      textBlock('event_location', 80, { color: 'textSecondary' }),
+    ],
+  },
+  conference: {
+    background_color: 'primary',
+    accent_color: 'cardBg',
+    border_style: 'none',
+    text_blocks: [
+      textBlock('custom', 12, { text: 'CONFERENCE INVITATION', color: 'cardBg', font_weight: 'bold', font_size: 3.6, align: 'left' }),
+      textBlock('event_name', 22, { color: 'cardBg', font_weight: 'bold', font_size: 9, align: 'left' }),
+      textBlock('event_description', 44, { color: 'background', font_size: 3.6, align: 'left' }),
+      textBlock('event_date', 66, { color: 'cardBg', font_weight: 'bold', font_size: 5, align: 'left' }),
+      textBlock('event_time', 74, { color: 'cardBg', align: 'left' }),
+      textBlock('event_location', 82, { color: 'background', align: 'left' }),
+    ],
+  },
+  birthday: {
+    background_color: 'cardBg',
+    accent_color: 'accent',
+    border_style: 'solid',
+    text_blocks: [
+      textBlock('custom', 14, { text: "Let's celebrate!", color: 'accent', font_weight: 'bold', font_size: 6 }),
+      textBlock('event_name', 28, { font_weight: 'bold', font_size: 8.5, color: 'primary' }),
+      textBlock('event_date', 52, { font_weight: 'bold', font_size: 5.5 }),
+      textBlock('event_time', 61),
+      textBlock('event_location', 72, { color: 'textSecondary' }),
+      textBlock('custom', 86, { text: 'Please RSVP', color: 'accent', font_size: 3.6 }),
+    ],
+  },
+  corporate: {
+    background_color: 'cardBg',
+    accent_color: 'textPrimary',
+    border_style: 'solid',
+    text_blocks: [
+      textBlock('custom', 14, { text: 'You are cordially invited to', color: 'textSecondary', font_size: 3.8 }),
+      textBlock('event_name', 26, { font_weight: 'bold', font_size: 8 }),
+      textBlock('event_description', 44, { color: 'textSecondary', font_size: 3.6 }),
+      textBlock('event_date', 62, { font_weight: 'bold', font_size: 5, color: 'primary' }),
+      textBlock('event_time', 70),
+      textBlock('event_location', 80, { color: 'textSecondary' }),
+    ],
+  },
+  other: {
+    background_color: 'background',
+    accent_color: 'primary',
+    border_style: 'solid',
+    text_blocks: [
+      textBlock('custom', 14, { text: "You're invited", color: 'primary', font_size: 4.5 }),
+      textBlock('event_name', 26, { font_weight: 'bold', font_size: 8.5 }),
+      textBlock('event_date', 50, { font_weight: 'bold', font_size: 5.5 }),
+      textBlock('event_time', 59),
+      textBlock('event_location', 70, { color: 'textSecondary' }),
+    ],
+  },
+};
+
+/**
+ * One card template per EVENT_TYPES entry
+ */
+export const CARD_TEMPLATES: CardTemplate[] = EVENT_TYPES.map((type) => ({
+  value: type.value,
+  label: type.label,
+  icon: type.icon,
+  ...TEMPLATE_LAYOUTS[type.value],
+}));
+
+/**
+ * Get the card template for an event type
+ *
+ * @param type - Event type
+ * @returns Template for the event type, or the 'other' template if unknown
+ */
+export const getCardTemplate = (type: string): CardTemplate => {
+  return (
+    CARD_TEMPLATES.find((template) => template.value === type) ??
+    CARD_TEMPLATES[CARD_TEMPLATES.length - 1]
+  );
+};
+
+// ============================================================================
+// RENDERING HELPERS
+// ============================================================================
+
+/**
+ * Create a new custom text block for the designer
+ *
+ * @param y - Distance from the top edge (% of card height)
+ * @returns Text block with a unique ID
+ */
+export const createCardTextBlock = (y: number = 50): CardTextBlock => ({
+  ...textBlock('custom', y, { text: 'Your text here' }),
+  id: `block-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+});
+
+/**
+ * Resolve a card color key to its hex value
+ *
+ * @param color - Card color key
+ * @returns Hex color from THEME.COLORS
+ *
+ * @example
+ * ```typescript
+ * resolveCardColor('primary'); // '#008080'
+ * ```
+ */
+export const resolveCardColor = (color: CardColor): string => {
+  return THEME.COLORS[color] ?? THEME.COLORS.textPrimary;
+};
+
+/**
+ * Get the text a block displays for an event
+ *
+ * Guest name blocks show the guest's name on personalised cards and a
+ * placeholder otherwise (pass an empty string to leave them blank).
+ *
+ * @param block - Text block
+ * @param event - Event the card is for
+ * @param guestName - Guest the card is personalised for
+ * @returns Display text (dates and times are formatted)
+ *
+ * @example
+ * ```typescript
+ * resolveCardText({ ...block, binding: 'event_date' }, event); // "Dec 25, 2025"
+ * resolveCardText({ ...block, binding: 'guest_name' }, event, 'Wanjiru Kamau'); // "Wanjiru Kamau"
+ * ```
+ */
+export const resolveCardText = (
+  block: CardTextBlock,
+  event: CardEventData,
+  guestName: string = CARD_GUEST_NAME_PLACEHOLDER
+): string => {
+  switch (block.binding) {
+    case 'guest_name':
+      return guestName;
+    case 'event_name':
+      return event.event_name;
+    case 'event_type':
+      return event.event_type_display;
+    case 'event_date':
+      return formatEventDate(event.event_date);
+    case 'event_time':
+      return formatEventTime(event.event_time);
+    case 'event_location':
+      return event.event_location;
+    case 'event_description':
+      return event.event_description || '';
+    default:
+      return block.text;
+  }
+};
@@ -0,0 +1,142 @@
+/**
+ * Ekadi Platform Invitation Card API
+ *
+ * This module provides functions for loading and saving invitation card
+ * designs. All functions use the configured apiClient which includes
+ * authentication, error handling, and automatic token refresh.
+ *
+ * Features:
+ * - List card designs across the user's events
+ * - Load the card design of a single event
+ * - Save a design with an optional background image upload
+ *
+ * @module cards
+ */
+
+import apiClient from './api';
+import { API_ENDPOINTS } from './constants';
+import type { ApiError, CardDesign, CardDesignFormData } from '@/src/types';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get all card designs of the current user
+ *
+ * @returns Promise resolving to array of card designs
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const designs = await getCardDesigns();
+ * const designedEventIds = new Set(designs.map((design) => design.event));
+ * ```
+ */
+export const getCardDesigns = async (): Promise<CardDesign[]> => {
+  try {
+    const response = await apiClient.get<CardDesign[] | { results: CardDesign[] }>(
+      API_ENDPOINTS.CARDS.LIST
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching card designs:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the card design of an event
+ *
+ * @param eventId - Event ID the design belongs to
+ * @returns Promise resolving to the design, or null if the event has none yet
+ * @throws ApiError if request fails for any reason other than a missing design
+ *
+ * @example
+ * ```typescript
+ * const design = await getEventCardDesign(1);
+ * if (!design) {
+ *   // Start from a template
+ * }
+ * ```
+ */
+export const getEventCardDesign = async (eventId: number): Promise<CardDesign | null> => {
+  try {
+    const response = await apiClient.get<CardDesign>(API_ENDPOINTS.EVENTS.CARD_DESIGN(eventId));
+    return response.data;
+  } catch (error) {
+    if ((error as ApiError)?.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Save the card design of an event
+ *
+ * Creates the design if the event has none, otherwise replaces it.
+ * Sent as multipart form data so a background image can be uploaded
+ * in the same request; text blocks are sent as a JSON string.
+ *
+ * @param eventId - Event ID to save the design against
+ * @param data - Card design form data
+ * @returns Promise resolving to the saved design
+ * @throws ApiError if validation fails or request fails
+ *
+ * @example
+ * ```typescript
+ * const design = await saveEventCardDesign(1, {
+ *   template: 'wedding',
+ *   background_color: 'cardBg',
+ *   accent_color: 'primary',
+ *   border_style: 'double',
+ *   text_blocks: blocks,
+ *   background_image: file,
+ * });
+ * ```
+ */
+export const saveEventCardDesign = async (
+  eventId: number,
+  data: CardDesignFormData
+): Promise<CardDesign> => {
+  try {
+    const formData = new FormData();
+    formData.append('template', data.template);
+    formData.append('background_color', data.background_color);
+    formData.append('accent_color', data.accent_color);
+    formData.append('border_style', data.border_style);
+    formData.append('text_blocks', JSON.stringify(data.text_blocks));
+
+    if (data.background_image) {
+      formData.append('background_image', data.background_image);
+    } else if (data.remove_background_image) {
+      formData.append('remove_background_image', 'true');
+    }
+
+    const response = await apiClient.put<CardDesign>(
+      API_ENDPOINTS.EVENTS.CARD_DESIGN(eventId),
+      formData,
+      {
+        headers: {
+          // Let the browser set the correct multipart boundary
+          'Content-Type': 'multipart/form-data',
+        },
+      }
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
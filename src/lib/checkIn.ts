@@ -0,0 +1,171 @@
+/**
+ * Ekadi Platform Venue Check-in API
+ *
+ * This module provides functions for checking guests in at the venue door.
+ * Every guest has a signed check-in token (issued by the backend) that is
+ * encoded in the QR code shown on their RSVP page. Scanning the code, or
+ * picking the guest by name, marks them as arrived.
+ *
+ * Features:
+ * - Check in a guest by QR token or guest ID
+ * - Arrived vs expected counts for an event
+ * - QR code generation and decoding (libraries loaded on demand)
+ * - Guest name search for the manual fallback
+ *
+ * @module checkIn
+ */
+
+import apiClient from './api';
+import { API_ENDPOINTS } from './constants';
+import type { CheckInPayload, CheckInResult, CheckInSummary, Guest } from '@/src/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Time during which the scanner ignores the same code again (milliseconds)
+ * The camera sees a held-up phone for several frames in a row; only the
+ * first read should reach the API.
+ */
+export const CHECK_IN_RESCAN_COOLDOWN_MS = 4000;
+
+/** How often the check-in page refreshes the arrived counter (milliseconds) */
+export const CHECK_IN_SUMMARY_REFRESH_MS = 10000;
+
+/**
+ * First and longest wait between checks for the API while offline (milliseconds)
+ * The wait doubles after every failed check up to the maximum.
+ */
+export const CHECK_IN_RECONNECT_MIN_MS = 5000;
+export const CHECK_IN_RECONNECT_MAX_MS = 60000;
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Check a guest in at the venue
+ *
+ * Checking in a guest who has already arrived succeeds and returns
+ * already_checked_in: true, so door staff can be warned about a
+ * duplicate or shared code.
+ *
+ * @param eventId - Event ID the guest belongs to
+ * @param payload - QR token or guest ID, and the check-in method
+ * @returns Promise resolving to the checked-in guest and updated count
+ * @throws ApiError if the token is invalid, belongs to another event, or request fails
+ *
+ * @example
+ * ```typescript
+ * const result = await checkInGuest(1, { method: 'qr', token: scannedText });
+ * if (result.already_checked_in) {
+ *   console.warn(`${result.guest.full_name} is already inside`);
+ * }
+ * ```
+ */
+export const checkInGuest = async (
+  eventId: number,
+  payload: CheckInPayload
+): Promise<CheckInResult> => {
+  try {
+    const response = await apiClient.post<CheckInResult>(
+      API_ENDPOINTS.EVENTS.CHECK_IN(eventId),
+      payload
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get arrived vs expected counts for an event
+ *
+ * @param eventId - Event ID to get counts for
+ * @returns Promise resolving to the check-in summary
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const { arrived_count, attendee_count } = await getCheckInSummary(1);
+ * ```
+ */
+export const getCheckInSummary = async (eventId: number): Promise<CheckInSummary> => {
+  try {
+    const response = await apiClient.get<CheckInSummary>(
+      API_ENDPOINTS.EVENTS.CHECK_IN_SUMMARY(eventId)
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// QR CODE HELPERS
+// ============================================================================
+
+/**
+ * Render a check-in token as a QR code image
+ *
+ * @param token - Signed guest check-in token
+ * @param size - Image width and height in pixels
+ * @returns Promise resolving to a PNG data URL
+ *
+ * @example
+ * ```typescript
+ * const src = await generateCheckInQrCode(invitation.check_in_token);
+ * ```
+ */
+export const generateCheckInQrCode = async (token: string, size: number = 256): Promise<string> => {
+  // QR library is loaded on demand to keep it out of the main bundle
+  const QRCode = await import('qrcode');
+  return QRCode.toDataURL(token, { width: size, margin: 2, errorCorrectionLevel: 'M' });
+};
+
+/**
+ * Load the QR decoder ahead of time
+ *
+ * Called when the check-in page opens so scanning keeps working if the
+ * network drops before the camera is first started.
+ */
+export const preloadCheckInQrDecoder = (): void => {
+  import('jsqr').catch(() => undefined);
+};
+
+/**
+ * Read a QR code from a camera frame
+ *
+ * @param frame - Pixels of a single video frame
+ * @returns Promise resolving to the decoded text, or null if no code is visible
+ */
+export const decodeCheckInQrCode = async (frame: ImageData): Promise<string | null> => {
+  const { default: jsQR } = await import('jsqr');
+  const code = jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' });
+  return code?.data.trim() || null;
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Find guests by name for the manual check-in fallback
+ *
+ * Matches every word of the query against the guest's name, so
+ * "wanjiru kam" finds "Wanjiru Kamau". Phone numbers match too.
+ *
+ * @param guests - Guest list of the event
+ * @param query - Text typed by door staff
+ * @returns Matching guests (empty for an empty query)
+ */
+export const searchGuestsByName = (guests: Guest[], query: string): Guest[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  return guests.filter((guest) => {
+    const haystack = `${guest.full_name} ${guest.phone_number}`.toLowerCase();
+    return words.every((word) => haystack.includes(word));
+  });
+};
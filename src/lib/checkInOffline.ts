@@ -0,0 +1,273 @@
+/**
+ * Ekadi Platform Offline Check-in
+ *
+ * Keeps venue check-in working when the network drops. The check-in page
+ * saves the event's guest list on the device (IndexedDB); while offline,
+ * guests are checked in against that copy and the check-ins are queued.
+ * When connectivity returns the queue is replayed in order with the
+ * original check-in times.
+ *
+ * If another device checked the same guest in first, the server keeps
+ * the earlier check-in and the replay is reported as a conflict so door
+ * staff can review it (e.g. a shared QR code).
+ *
+ * Features:
+ * - Guest list snapshot per event
+ * - Local check-in against the snapshot
+ * - Persistent queue of offline check-ins
+ * - Ordered replay with conflict detection
+ *
+ * @module checkInOffline
+ */
+
+import { isNetworkError } from './api';
+import { checkInGuest } from './checkIn';
+import { STORAGE_KEYS } from './constants';
+import { translate } from './i18n';
+import type {
+  CheckInCache,
+  CheckInConflict,
+  CheckInPayload,
+  CheckInResult,
+  CheckInSyncResult,
+  Guest,
+  PendingCheckIn,
+} from '@/src/types';
+
+// ============================================================================
+// DATABASE
+// ============================================================================
+
+const DB_NAME = 'ekadi_check_in';
+const DB_VERSION = 1;
+const CACHE_STORE = 'events';
+const QUEUE_STORE = 'queue';
+
+/**
+ * Open the check-in database, creating its stores on first use
+ */
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error(translate('checkIn.errors.offlineUnsupported')));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CACHE_STORE)) {
+        db.createObjectStore(CACHE_STORE, { keyPath: 'event_id' });
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        const queue = db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+        queue.createIndex('event_id', 'event_id');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Run a single request against an object store
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = createRequest(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// ============================================================================
+// GUEST LIST CACHE
+// ============================================================================
+
+/**
+ * Save an event's check-in data on the device
+ *
+ * @param snapshot - Event, guest list and counts to save
+ * @returns Promise that resolves when the snapshot is stored
+ */
+export const cacheCheckInData = async (snapshot: Omit<CheckInCache, 'cached_at'>): Promise<void> => {
+  await runRequest(CACHE_STORE, 'readwrite', (store) =>
+    store.put({ ...snapshot, cached_at: new Date().toISOString() })
+  );
+};
+
+/**
+ * Get the check-in data saved on the device for an event
+ *
+ * @param eventId - Event ID
+ * @returns Promise resolving to the snapshot, or null if none is saved
+ */
+export const getCachedCheckInData = async (eventId: number): Promise<CheckInCache | null> => {
+  const snapshot = await runRequest<CheckInCache | undefined>(CACHE_STORE, 'readonly', (store) =>
+    store.get(eventId)
+  );
+  return snapshot ?? null;
+};
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+/**
+ * Get the ID of this device, creating one on first use
+ *
+ * @returns Stable device ID sent with replayed check-ins
+ */
+export const getCheckInDeviceId = (): string => {
+  let deviceId = localStorage.getItem(STORAGE_KEYS.DEVICE_ID);
+  if (!deviceId) {
+    deviceId = `device-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    localStorage.setItem(STORAGE_KEYS.DEVICE_ID, deviceId);
+  }
+  return deviceId;
+};
+
+/**
+ * Get the queued check-ins of an event, oldest first
+ *
+ * @param eventId - Event ID
+ * @returns Promise resolving to the queued check-ins
+ */
+export const getPendingCheckIns = async (eventId: number): Promise<PendingCheckIn[]> => {
+  const entries = await runRequest<PendingCheckIn[]>(QUEUE_STORE, 'readonly', (store) =>
+    store.index('event_id').getAll(eventId)
+  );
+  return entries.sort((a, b) => a.id - b.id);
+};
+
+/**
+ * Remove a check-in from the queue
+ */
+const removePendingCheckIn = async (id: number): Promise<void> => {
+  await runRequest(QUEUE_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+/**
+ * Check a guest in against the guest list saved on the device
+ *
+ * The check-in is queued for replay; a guest already checked in on this
+ * device is reported as a duplicate and not queued again.
+ *
+ * @param eventId - Event ID the guest belongs to
+ * @param guests - Current guest list
+ * @param payload - QR token or guest ID, and the check-in method
+ * @returns Promise resolving to the checked-in guest and duplicate flag
+ * @throws Error if the QR code or guest is not on the saved guest list
+ *
+ * @example
+ * ```typescript
+ * const { guest, already_checked_in } = await checkInOffline(1, guests, { method: 'qr', token });
+ * ```
+ */
+export const checkInOffline = async (
+  eventId: number,
+  guests: Guest[],
+  payload: CheckInPayload
+): Promise<Pick<CheckInResult, 'guest' | 'already_checked_in'>> => {
+  const guest = guests.find((item) =>
+    payload.method === 'qr' ? item.check_in_token === payload.token : item.id === payload.guest_id
+  );
+
+  if (!guest) {
+    throw new Error(translate('checkIn.errors.notOnSavedList'));
+  }
+
+  if (guest.checked_in_at) {
+    return { guest, already_checked_in: true };
+  }
+
+  const checkedInAt = new Date().toISOString();
+
+  await runRequest(QUEUE_STORE, 'readwrite', (store) =>
+    store.add({
+      event_id: eventId,
+      guest_id: guest.id,
+      guest_name: guest.full_name,
+      payload: { ...payload, checked_in_at: checkedInAt, device_id: getCheckInDeviceId() },
+    } satisfies Omit<PendingCheckIn, 'id'>)
+  );
+
+  return { guest: { ...guest, checked_in_at: checkedInAt }, already_checked_in: false };
+};
+
+/**
+ * Check whether two check-in times are the same moment
+ *
+ * The server may format the time it stored differently from the device
+ * (e.g. microseconds or a +00:00 offset), so the instants are compared.
+ */
+const isSameCheckInTime = (a: string | null | undefined, b: string | null | undefined) =>
+  a && b ? new Date(a).getTime() === new Date(b).getTime() : a === b;
+
+/**
+ * Replay queued check-ins for an event
+ *
+ * Entries are sent oldest first. Replay stops at the first connectivity
+ * error, leaving that entry and the rest queued for the next attempt.
+ *
+ * @param eventId - Event ID
+ * @returns Promise resolving to what was synced, conflicts and what remains
+ *
+ * @example
+ * ```typescript
+ * window.addEventListener('online', async () => {
+ *   const result = await syncPendingCheckIns(eventId);
+ *   if (result.conflicts.length) showConflicts(result.conflicts);
+ * });
+ * ```
+ */
+export const syncPendingCheckIns = async (eventId: number): Promise<CheckInSyncResult> => {
+  const entries = await getPendingCheckIns(eventId);
+  const conflicts: CheckInConflict[] = [];
+  const guests: Guest[] = [];
+  let synced = 0;
+  let rejected = 0;
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+
+    try {
+      const result = await checkInGuest(eventId, entry.payload);
+      guests.push(result.guest);
+
+      if (
+        result.already_checked_in &&
+        !isSameCheckInTime(result.guest.checked_in_at, entry.payload.checked_in_at)
+      ) {
+        conflicts.push({
+          guest_id: entry.guest_id,
+          guest_name: entry.guest_name,
+          local_checked_in_at: entry.payload.checked_in_at ?? '',
+          server_checked_in_at: result.guest.checked_in_at,
+        });
+      } else {
+        synced++;
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        return { synced, conflicts, rejected, remaining: entries.length - index, guests };
+      }
+      rejected++;
+    }
+
+    await removePendingCheckIn(entry.id);
+  }
+
+  return { synced, conflicts, rejected, remaining: 0, guests };
+};
@@ -0,0 +1,208 @@
+/**
+ * Ekadi Platform Event Collaborator API
+ *
+ * This module provides functions for sharing a single event with co-hosts,
+ * such as the two families planning a wedding together. Co-hosts are
+ * invited by email and given one permission: edit, manage guests, send or
+ * view-only. All functions use the configured apiClient which includes
+ * authentication, error handling, and automatic token refresh.
+ *
+ * Features:
+ * - List, invite and revoke co-hosts of an event
+ * - Change a co-host's permission
+ * - Work out what the current user can do on an event
+ * - Permission display helpers
+ *
+ * @module collaborators
+ */
+
+import apiClient from './api';
+import { API_ENDPOINTS, COLLABORATOR_PERMISSIONS } from './constants';
+import { translate } from './i18n';
+import { canManageEvents } from './organizations';
+import type {
+  CollaboratorPermission,
+  EventAccess,
+  EventCollaborator,
+  EventCollaboratorInviteData,
+  EventDetail,
+} from '@/src/types';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the co-hosts of an event
+ *
+ * @param eventId - Event ID
+ * @returns Promise resolving to array of co-hosts, including pending invitations
+ * @throws ApiError if request fails
+ */
+export const getEventCollaborators = async (eventId: number): Promise<EventCollaborator[]> => {
+  try {
+    const response = await apiClient.get<EventCollaborator[] | { results: EventCollaborator[] }>(
+      API_ENDPOINTS.EVENTS.COLLABORATORS(eventId)
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching event collaborators:', error);
+    throw error;
+  }
+};
+
+/**
+ * Share an event with a co-host by email
+ *
+ * The backend emails the invitee a link to the event. If they do not have
+ * an account yet, the co-host stays pending until they sign up.
+ *
+ * @param eventId - Event ID
+ * @param data - Email address and permission
+ * @returns Promise resolving to the new co-host
+ * @throws ApiError if the email already has access, or request fails
+ *
+ * @example
+ * ```typescript
+ * await inviteCollaborator(12, { email: 'baraka@example.com', permission: 'manage_guests' });
+ * ```
+ */
+export const inviteCollaborator = async (
+  eventId: number,
+  data: EventCollaboratorInviteData
+): Promise<EventCollaborator> => {
+  try {
+    const response = await apiClient.post<EventCollaborator>(
+      API_ENDPOINTS.EVENTS.COLLABORATORS(eventId),
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Change a co-host's permission
+ *
+ * @param eventId - Event ID
+ * @param collaboratorId - Collaborator ID
+ * @param permission - New permission
+ * @returns Promise resolving to the updated co-host
+ * @throws ApiError if not allowed or request fails
+ */
+export const updateCollaboratorPermission = async (
+  eventId: number,
+  collaboratorId: number,
+  permission: CollaboratorPermission
+): Promise<EventCollaborator> => {
+  try {
+    const response = await apiClient.patch<EventCollaborator>(
+      API_ENDPOINTS.EVENTS.COLLABORATOR_DETAIL(eventId, collaboratorId),
+      { permission }
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Revoke a co-host's access to an event
+ *
+ * Also cancels pending invitations.
+ *
+ * @param eventId - Event ID
+ * @param collaboratorId - Collaborator ID
+ * @returns Promise resolving when access is revoked
+ * @throws ApiError if not allowed or request fails
+ */
+export const revokeCollaborator = async (
+  eventId: number,
+  collaboratorId: number
+): Promise<void> => {
+  try {
+    await apiClient.delete(API_ENDPOINTS.EVENTS.COLLABORATOR_DETAIL(eventId, collaboratorId));
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Work out what the current user can do on an event
+ *
+ * Co-hosts get exactly what their permission allows. Everyone else gets
+ * access from their workspace role; only they can delete the event or
+ * share it with co-hosts.
+ *
+ * @param event - Event with the current user's role and co-host permission
+ * @returns Allowed actions
+ *
+ * @example
+ * ```typescript
+ * const access = getEventAccess(event);
+ * if (access.canSend) {
+ *   // show the send invitations action
+ * }
+ * ```
+ */
+export const getEventAccess = (
+  event: Pick<EventDetail, 'user_role' | 'collaborator_permission'>
+): EventAccess => {
+  const permission = event.collaborator_permission;
+
+  if (permission) {
+    return {
+      canEdit: permission === 'edit',
+      canManageGuests: permission === 'edit' || permission === 'manage_guests',
+      canCheckIn: permission === 'edit' || permission === 'manage_guests',
+      canSend: permission === 'edit' || permission === 'send',
+      canManageCollaborators: false,
+      canDelete: false,
+    };
+  }
+
+  const canManage = canManageEvents(event.user_role);
+  return {
+    canEdit: canManage,
+    canManageGuests: canManage,
+    canCheckIn: canManage,
+    canSend: canManage,
+    canManageCollaborators: canManage,
+    canDelete: canManage,
+  };
+};
+
+/**
+ * Get display label and badge color for a co-host permission
+ *
+ * @param permission - Co-host permission
+ * @returns Label, Chakra color scheme and description
+ */
+export const getPermissionDisplay = (
+  permission: CollaboratorPermission
+): { label: string; color: string; description: string } => {
+  const match = COLLABORATOR_PERMISSIONS.find((item) => item.value === permission);
+  return match
+    ? {
+        label: translate(`permissions.${match.value}.label`),
+        color: match.color,
+        description: translate(`permissions.${match.value}.description`),
+      }
+    : { label: permission, color: 'gray', description: '' };
+};
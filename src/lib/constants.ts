@@ -63,6 +63,120 @@ export const API_ENDPOINTS = {
     REOPEN: (id: number) => `/events/${id}/reopen/`,
     /** Get event statistics */
     STATS: '/events/stats/',
+    /** List or create guests for an event */
+    GUESTS: (id: number) => `/events/${id}/guests/`,
+    /** Retrieve, update or delete a single guest of an event */
+    GUEST_DETAIL: (id: number, guestId: number) => `/events/${id}/guests/${guestId}/`,
+    /** Create many guests for an event in a single request */
+    GUESTS_BULK: (id: number) => `/events/${id}/guests/bulk/`,
+    /** List invitations sent for an event */
+    INVITATIONS: (id: number) => `/events/${id}/invitations/`,
+    /** Send invitations to guests of an event */
+    SEND_INVITATIONS: (id: number) => `/events/${id}/invitations/send/`,
+    /** Resend failed invitations */
+    RETRY_INVITATIONS: (id: number) => `/events/${id}/invitations/retry/`,
+    /** List sends scheduled for later */
+    SCHEDULED_SENDS: (id: number) => `/events/${id}/invitations/scheduled/`,
+    /** Cancel a scheduled send */
+    SCHEDULED_SEND_DETAIL: (id: number, sendId: number) =>
+      `/events/${id}/invitations/scheduled/${sendId}/`,
+    /** List or create automation rules of an event */
+    AUTOMATIONS: (id: number) => `/events/${id}/automations/`,
+    /** Update, pause or delete an automation rule */
+    AUTOMATION_DETAIL: (id: number, ruleId: number) => `/events/${id}/automations/${ruleId}/`,
+    /** List RSVPs for an event */
+    RSVPS: (id: number) => `/events/${id}/rsvps/`,
+    /** Update a single RSVP (manual override) */
+    RSVP_DETAIL: (id: number, rsvpId: number) => `/events/${id}/rsvps/${rsvpId}/`,
+    /** Get or save the invitation card design of an event */
+    CARD_DESIGN: (id: number) => `/events/${id}/card-design/`,
+    /** Check a guest in at the venue */
+    CHECK_IN: (id: number) => `/events/${id}/check-in/`,
+    /** Get arrived vs expected counts for an event */
+    CHECK_IN_SUMMARY: (id: number) => `/events/${id}/check-in/summary/`,
+    /** List or invite co-hosts of an event */
+    COLLABORATORS: (id: number) => `/events/${id}/collaborators/`,
+    /** Change the permission of, or revoke, a co-host */
+    COLLABORATOR_DETAIL: (id: number, collaboratorId: number) =>
+      `/events/${id}/collaborators/${collaboratorId}/`,
+    /** List the revisions of an event, newest first */
+    REVISIONS: (id: number) => `/events/${id}/revisions/`,
+  },
+  /**
+   * Invitation card endpoints
+   */
+  CARDS: {
+    /** List card designs across the user's events */
+    LIST: '/cards/',
+  },
+  /**
+   * Billing and subscription endpoints
+   */
+  BILLING: {
+    /** Get the current user's subscription */
+    SUBSCRIPTION: '/billing/subscription/',
+    /** Change the subscription plan */
+    CHANGE_PLAN: '/billing/subscription/change/',
+    /** Get usage for the current billing period */
+    USAGE: '/billing/usage/',
+    /** List invoices */
+    INVOICES: '/billing/invoices/',
+    /** Get the Pay As You Go credit balance */
+    WALLET: '/billing/wallet/',
+    /** List wallet ledger entries (filter with ?event=) */
+    WALLET_TRANSACTIONS: '/billing/wallet/transactions/',
+  },
+  /**
+   * Organization workspace endpoints
+   */
+  ORGANIZATIONS: {
+    /** List the user's organizations or create one */
+    LIST_CREATE: '/organizations/',
+    /** List members of an organization */
+    MEMBERS: (id: number) => `/organizations/${id}/members/`,
+    /** Change a member's role or remove them */
+    MEMBER_DETAIL: (id: number, memberId: number) => `/organizations/${id}/members/${memberId}/`,
+    /** List pending invitations or invite a teammate */
+    INVITATIONS: (id: number) => `/organizations/${id}/invitations/`,
+    /** Cancel a pending invitation */
+    INVITATION_DETAIL: (id: number, invitationId: number) =>
+      `/organizations/${id}/invitations/${invitationId}/`,
+    /** Accept an invitation with the token from the invitation email */
+    ACCEPT_INVITATION: (token: string) => `/organizations/invitations/${token}/accept/`,
+  },
+  /**
+   * Message template endpoints
+   */
+  TEMPLATES: {
+    /** List message templates (filter with ?event_type= and ?channel=) or create one */
+    LIST_CREATE: '/templates/',
+    /** Update or delete a message template */
+    DETAIL: (id: number) => `/templates/${id}/`,
+  },
+  /**
+   * Activity feed endpoints
+   */
+  ACTIVITY: {
+    /** List activity, newest first (filter with ?event=, paginate with ?page=) */
+    LIST: '/activity/',
+  },
+  /**
+   * Payment endpoints (relative to API_CONFIG.PAYMENTS_BASE_URL)
+   */
+  PAYMENTS: {
+    /** Start an M-Pesa STK push */
+    MPESA_STK_PUSH: '/payments/mpesa/stk-push/',
+    /** Get the status of a payment transaction */
+    TRANSACTION: (id: string) => `/payments/transactions/${id}/`,
+  },
+  /**
+   * Guest-facing RSVP endpoints (no authentication, token in URL)
+   */
+  RSVP: {
+    /** Get the invitation details for an RSVP token */
+    DETAIL: (token: string) => `/rsvp/${token}/`,
+    /** Submit a guest's response for an RSVP token */
+    RESPOND: (token: string) => `/rsvp/${token}/respond/`,
   },
 } as const;
 
@@ -77,12 +191,20 @@ export const API_ENDPOINTS = {
 export const API_CONFIG = {
   /** Base URL for API requests (from environment variables) */
   BASE_URL: process.env.NEXT_PUBLIC_API_URL,
+  /**
+   * Base URL for payment requests
+   * Defaults to BASE_URL; set NEXT_PUBLIC_PAYMENTS_API_URL=/api/mock-payments
+   * to use the local mock payments endpoint during development
+   */
+  PAYMENTS_BASE_URL: process.env.NEXT_PUBLIC_PAYMENTS_API_URL || process.env.NEXT_PUBLIC_API_URL,
   /** Request timeout in milliseconds (30 seconds) */
   TIMEOUT: 30000,
   /** Default headers for all API requests */
   HEADERS: {
     'Content-Type': 'application/json',
   },
+  /** Header that scopes a request to a team workspace (omitted for personal data) */
+  ORGANIZATION_HEADER: 'X-Organization-ID',
 } as const;
 
 // ============================================================================
@@ -100,6 +222,14 @@ export const STORAGE_KEYS = {
   REFRESH_TOKEN: 'ekadi_refresh_token',
   /** Key for storing cached user data */
   USER_DATA: 'ekadi_user_data',
+  /** Key for storing this device's ID (tells check-in devices apart when syncing) */
+  DEVICE_ID: 'ekadi_device_id',
+  /** Key for storing the plan picked on the pricing page until checkout */
+  PLAN_SELECTION: 'ekadi_plan_selection',
+  /** Key for storing the ID of the active team workspace */
+  ACTIVE_ORGANIZATION: 'ekadi_active_organization',
+  /** Key for storing the interface language */
+  LOCALE: 'ekadi_locale',
 } as const;
 
 // ============================================================================
@@ -130,6 +260,8 @@ export const ROUTES = {
     EMAIL_SENT: '/verify-email-sent',
     /** Pricing page */
     PRICING: '/pricing',
+    /** Guest RSVP page opened from an invitation link */
+    RSVP: (token: string) => `/rsvp/${token}`,
   },
   /**
    * Protected routes requiring authentication
@@ -151,6 +283,27 @@ export const ROUTES = {
     EVENT_DETAIL: (id: string | number) => `/events/${id}`,
     /** Edit event page */
     EVENT_EDIT: (id: string | number) => `/events/${id}/edit`,
+    /** Event guest list page */
+    EVENT_GUESTS: (id: string | number) => `/events/${id}/guests`,
+    /** Send invitations page */
+    EVENT_SEND_INVITATIONS: (id: string | number) => `/events/${id}/invitations`,
+    /** RSVP tracking page */
+    EVENT_RSVPS: (id: string | number) => `/events/${id}/rsvps`,
+    /** Venue check-in page */
+    EVENT_CHECK_IN: (id: string | number) => `/events/${id}/check-in`,
+    /** Invitation cards page */
+    CARDS: '/cards',
+    /** Card designer page */
+    CARD_CREATE: '/cards/create',
+    /** Message template library */
+    TEMPLATES: '/templates',
+    /** Billing and subscription page */
+    BILLING: '/billing',
+    WALLET: '/billing/wallet',
+    /** Team workspace members and invitations */
+    TEAM: '/team',
+    /** Accept a team invitation opened from the invitation email */
+    TEAM_JOIN: (token: string) => `/team/join/${token}`,
   },
   /**
    * Error pages
@@ -285,6 +438,10 @@ export const PRICING_PLANS = {
     description: 'Great for individuals planning personal events',
     type: 'subscription' as const,
     price: 2500,
+    /** Price for a year paid up front */
+    annualPrice: 25500,
+    /** Annual saving over twelve monthly payments (percent) */
+    annualDiscount: 15,
     currency: 'KES',
     billingCycle: 'monthly' as const,
     features: [
@@ -314,6 +471,10 @@ export const PRICING_PLANS = {
     description: 'Perfect for event planners and businesses',
     type: 'subscription' as const,
     price: 7500,
+    /** Price for a year paid up front */
+    annualPrice: 76500,
+    /** Annual saving over twelve monthly payments (percent) */
+    annualDiscount: 15,
     currency: 'KES',
     billingCycle: 'monthly' as const,
     features: [
@@ -344,6 +505,8 @@ export const PRICING_PLANS = {
     description: 'For large organizations and agencies',
     type: 'custom' as const,
     price: null as number | null,
+    annualPrice: null as number | null,
+    annualDiscount: null as number | null,
     currency: 'KES',
     billingCycle: 'custom' as const,
     features: [
@@ -370,60 +533,46 @@ export const PRICING_PLANS = {
  * Frequently Asked Questions for the pricing page
  * 
  * Helps users understand how billing, plan changes, and limits work.
+ * Questions and answers live in the pricingFaq messages.
  */
 export const PRICING_FAQ = [
-  {
-    question: 'How does Pay As You Go work?',
-    answer:
-      'With Pay As You Go, you only pay for the services you use. Create an event for KES 500, then pay KES 2 per WhatsApp message and KES 3 per SMS. No monthly fees or commitments.',
-  },
-  {
-    question: 'Can I switch plans later?',
-    answer:
-      'Yes! You can upgrade or downgrade your plan at any time. Changes take effect on your next billing cycle. Unused credits from Pay As You Go never expire.',
-  },
-  {
-    question: 'What happens if I exceed my plan limits?',
-    answer:
-      "If you exceed your monthly limits on a subscription plan, you can either upgrade to a higher plan or pay per-use rates for additional messages. We'll notify you before you hit your limits.",
-  },
-  {
-    question: 'Are there any setup fees?',
-    answer:
-      'No setup fees! All plans include everything you need to start creating and managing events immediately.',
-  },
-  {
-    question: 'What payment methods do you accept?',
-    answer:
-      'We accept M-Pesa, credit/debit cards, and mobile money from major Kenyan and Tanzanian providers (Airtel Money, Tigopesa).',
-  },
-  {
-    question: 'Is there a free trial?',
-    answer:
-      'Yes! New users get their first event free (up to 50 invitations) to test the platform. No credit card required.',
-  },
-  {
-    question: 'Can I cancel anytime?',
-    answer:
-      "Absolutely! Cancel your subscription anytime. You'll retain access until the end of your billing period, and there are no cancellation fees.",
-  },
-  {
-    question: 'Do unused messages roll over?',
-    answer:
-      "Subscription plan messages reset monthly and don't roll over. However, Pay As You Go credits never expire and can be used anytime.",
-  },
+  'payg',
+  'switching',
+  'limits',
+  'annual',
+  'setup',
+  'payment',
+  'trial',
+  'cancel',
+  'rollover',
 ] as const;
 
+/**
+ * M-Pesa checkout settings
+ */
+export const MPESA_CHECKOUT = {
+  /** Country code of numbers that can receive an M-Pesa STK push */
+  COUNTRY_CODE: '+254',
+  /** How often the transaction status is checked (milliseconds) */
+  POLL_INTERVAL: 3000,
+  /** Smallest Pay As You Go top-up (KES) */
+  MIN_TOPUP: 100,
+  /** Largest Pay As You Go top-up (KES, M-Pesa transaction limit) */
+  MAX_TOPUP: 150000,
+  /** Suggested top-up amounts (KES) */
+  TOPUP_PRESETS: [500, 1000, 2500, 5000],
+} as const;
+
 /**
  * Supported payment methods
  * 
  * Used to display payment options on the pricing and checkout flows.
  */
 export const PAYMENT_METHODS = [
-  { name: 'M-Pesa', icon: '📱', supported: true },
-  { name: 'Credit/Debit Card', icon: '💳', supported: true },
-  { name: 'Airtel Money', icon: '📱', supported: true },
-  { name: 'Tigopesa', icon: '📱', supported: true },
+  { value: 'mpesa', name: 'M-Pesa', icon: '📱', supported: true },
+  { value: 'card', name: 'Credit/Debit Card', icon: '💳', supported: true },
+  { value: 'airtel', name: 'Airtel Money', icon: '📱', supported: true },
+  { value: 'tigopesa', name: 'Tigopesa', icon: '📱', supported: true },
 ] as const;
 
 // ============================================================================
@@ -546,3 +695,214 @@ export const THEME = {
   },
 } as const;
 
+// ============================================================================
+// 12. INVITATIONS
+// ============================================================================
+
+/**
+ * Channels invitations can be delivered through
+ * Used in the send invitations flow and invitation history
+ */
+export const INVITATION_CHANNELS = [
+  { value: 'sms', label: 'SMS', icon: '💬', description: 'Text message to the guest\'s phone' },
+  { value: 'whatsapp', label: 'WhatsApp', icon: '📱', description: 'WhatsApp message to the guest\'s phone' },
+  { value: 'email', label: 'Email', icon: '✉️', description: 'Email to guests with an email address' },
+] as const;
+
+/**
+ * Merge fields supported in invitation messages
+ * Each token is replaced per guest when the message is sent
+ */
+export const INVITATION_MERGE_FIELDS = [
+  { token: '{{guest_name}}', label: 'Guest name' },
+  { token: '{{event_name}}', label: 'Event name' },
+  { token: '{{event_date}}', label: 'Event date' },
+  { token: '{{event_time}}', label: 'Event time' },
+  { token: '{{event_location}}', label: 'Event location' },
+  { token: '{{rsvp_link}}', label: 'RSVP link' },
+] as const;
+
+/**
+ * Default invitation message used when starting a new send
+ */
+export const DEFAULT_INVITATION_MESSAGE =
+  'Hello {{guest_name}}, you are invited to {{event_name}} on {{event_date}} at {{event_time}}, {{event_location}}. Kindly RSVP here: {{rsvp_link}}';
+
+/**
+ * Invitation delivery statuses with display labels and colors
+ * Used in the delivery log on the event detail page
+ */
+export const INVITATION_STATUSES = [
+  { value: 'queued', label: 'Queued', color: 'gray', description: 'Waiting to be sent' },
+  { value: 'sent', label: 'Sent', color: 'blue', description: 'Sent, no delivery report yet' },
+  { value: 'delivered', label: 'Delivered', color: 'teal', description: 'Reached the guest' },
+  { value: 'read', label: 'Read', color: 'green', description: 'Opened by the guest' },
+  { value: 'failed', label: 'Failed', color: 'red', description: 'Could not be delivered' },
+] as const;
+
+// ============================================================================
+// 13. RSVP STATUSES
+// ============================================================================
+
+/**
+ * Guest RSVP statuses with display labels and colors
+ * Used in RSVP tracking, filtering, and status badges
+ */
+export const RSVP_STATUSES = [
+  { value: 'pending', label: 'Pending', color: 'gray', description: 'No response yet' },
+  { value: 'attending', label: 'Attending', color: 'green', description: 'Guest will attend' },
+  { value: 'maybe', label: 'Maybe', color: 'orange', description: 'Guest is not sure yet' },
+  { value: 'declined', label: 'Declined', color: 'red', description: 'Guest will not attend' },
+] as const;
+
+// ============================================================================
+// 14. ORGANIZATION ROLES
+// ============================================================================
+
+/**
+ * Workspace member roles with display labels and colors
+ * Ordered from most to least access
+ */
+export const ORGANIZATION_ROLES = [
+  { value: 'owner', label: 'Owner', color: 'purple', description: 'Full access, including billing and the workspace itself' },
+  { value: 'admin', label: 'Admin', color: 'blue', description: 'Manage teammates and all events' },
+  { value: 'planner', label: 'Planner', color: 'green', description: 'Create and manage events' },
+  { value: 'viewer', label: 'Viewer', color: 'gray', description: 'View events and guest lists' },
+] as const;
+
+// ============================================================================
+// 15. COLLABORATOR PERMISSIONS
+// ============================================================================
+
+/**
+ * Co-host permissions for a single shared event
+ * Ordered from most to least access
+ */
+export const COLLABORATOR_PERMISSIONS = [
+  { value: 'edit', label: 'Can edit', color: 'purple', description: 'Edit event details, manage guests and send messages' },
+  { value: 'manage_guests', label: 'Manage guests', color: 'blue', description: 'Add, import and update guests' },
+  { value: 'send', label: 'Send messages', color: 'green', description: 'Send invitations and reminders to guests' },
+  { value: 'view', label: 'View only', color: 'gray', description: 'See event details, guests and RSVPs' },
+] as const;
+
+// ============================================================================
+// 16. ACTIVITY
+// ============================================================================
+
+/**
+ * Activity feed actions with display labels and colors
+ */
+export const ACTIVITY_ACTIONS = [
+  { value: 'event_created', label: 'Event created', color: 'green' },
+  { value: 'event_updated', label: 'Event edited', color: 'blue' },
+  { value: 'event_closed', label: 'Event closed', color: 'orange' },
+  { value: 'event_reopened', label: 'Event reopened', color: 'green' },
+  { value: 'event_deleted', label: 'Event deleted', color: 'red' },
+  { value: 'invitations_sent', label: 'Invitations sent', color: 'purple' },
+  { value: 'rsvp_received', label: 'RSVP received', color: 'teal' },
+] as const;
+
+/** Number of activity entries loaded per page */
+export const ACTIVITY_PAGE_SIZE = 10;
+
+// ============================================================================
+// 17. MESSAGE TEMPLATES
+// ============================================================================
+
+/**
+ * Languages a message template can be written in
+ */
+export const TEMPLATE_LANGUAGES = [
+  { value: 'en', label: 'English' },
+  { value: 'sw', label: 'Kiswahili' },
+] as const;
+
+/**
+ * SMS segment sizes in characters
+ * Messages longer than one segment are split and each part is billed as one SMS.
+ * Any character outside the GSM 7-bit alphabet (e.g. emoji) switches the whole
+ * message to Unicode, which fits far fewer characters.
+ */
+export const SMS_SEGMENT_LIMITS = {
+  gsm: { single: 160, multipart: 153 },
+  unicode: { single: 70, multipart: 67 },
+} as const;
+
+/** Sample guest name used in template previews */
+export const TEMPLATE_PREVIEW_GUEST_NAME = 'Wanjiru Kamau';
+
+/**
+ * Stand-in for the guest's RSVP token in message previews
+ * ASCII and as long as the backend's tokens (43 URL-safe characters), so the
+ * SMS length and encoding of a preview match the message guests receive
+ */
+export const RSVP_TOKEN_PREVIEW = 'x'.repeat(43);
+
+// ============================================================================
+// 18. AUTOMATIONS
+// ============================================================================
+
+/**
+ * Automatic messages an event can send
+ * offset_days counts days before the event for reminders and after it for thank-yous
+ */
+export const AUTOMATION_TRIGGERS = [
+  {
+    value: 'rsvp_reminder',
+    label: 'RSVP reminder',
+    description: 'Invited guests who have not responded yet',
+    default_offset_days: 7,
+    default_message:
+      'Hello {{guest_name}}, a reminder to let us know if you can make it to {{event_name}} on {{event_date}}. Kindly RSVP here: {{rsvp_link}}',
+  },
+  {
+    value: 'day_before_reminder',
+    label: 'Day-before reminder',
+    description: 'Guests who confirmed they are attending',
+    default_offset_days: 1,
+    default_message:
+      'Hello {{guest_name}}, we look forward to seeing you at {{event_name}} tomorrow at {{event_time}}, {{event_location}}.',
+  },
+  {
+    value: 'thank_you',
+    label: 'Thank-you message',
+    description: 'Guests who attended',
+    default_offset_days: 1,
+    default_message:
+      'Dear {{guest_name}}, thank you for joining us at {{event_name}}. It meant a lot to have you there!',
+  },
+] as const;
+
+// ============================================================================
+// 19. LOCALES
+// ============================================================================
+
+/**
+ * Interface languages
+ * date_locale is passed to toLocaleDateString and friends
+ */
+export const LOCALES = [
+  { value: 'en', label: 'English', date_locale: 'en-US' },
+  { value: 'sw', label: 'Kiswahili', date_locale: 'sw-KE' },
+] as const;
+
+/**
+ * Interface language used until the user picks one
+ */
+export const DEFAULT_LOCALE = 'en';
+
+// ============================================================================
+// 20. NOTIFICATIONS
+// ============================================================================
+
+/**
+ * Account notification categories and whether each channel is on by default
+ * Labels and descriptions live in the notificationCategories messages
+ */
+export const NOTIFICATION_CATEGORIES = [
+  { value: 'new_rsvp', default_email: true, default_sms: false },
+  { value: 'daily_digest', default_email: true, default_sms: false },
+  { value: 'low_credit', default_email: true, default_sms: true },
+  { value: 'plan_limit', default_email: true, default_sms: false },
+  { value: 'security', default_email: true, default_sms: true },
+] as const;
@@ -16,6 +16,7 @@
 
 import apiClient from './api';
 import { API_ENDPOINTS, EVENT_TYPES, EVENT_STATUSES } from './constants';
+import { getDateLocale, translate } from './i18n';
 import type {
   Event,
   EventListItem,
@@ -327,7 +328,7 @@ export const formatEventDate = (date: string): string => {
       month: 'short',
       day: 'numeric',
     };
-    return dateObj.toLocaleDateString('en-US', options);
+    return dateObj.toLocaleDateString(getDateLocale(), options);
   } catch (error) {
     // Return original string if parsing fails
     return date;
@@ -363,7 +364,7 @@ export const formatEventTime = (time: string): string => {
       hour12: true,
     };
     
-    return date.toLocaleTimeString('en-US', options);
+    return date.toLocaleTimeString(getDateLocale(), options);
   } catch (error) {
     // Return original string if parsing fails
     return time;
@@ -413,3 +414,35 @@ export const getEventStatusColor = (status: string): string => {
   return eventStatus?.color || 'gray';
 };
 
+/**
+ * Get display label for event type
+ * 
+ * @param type - Event type string (wedding, conference, etc.)
+ * @returns Label in the current language, or the type itself if unknown
+ * 
+ * @example
+ * ```typescript
+ * getEventTypeLabel('corporate'); // 'Corporate Event'
+ * ```
+ */
+export const getEventTypeLabel = (type: string): string => {
+  const eventType = EVENT_TYPES.find((et) => et.value === type);
+  return eventType ? translate(`eventTypes.${eventType.value}`) : type;
+};
+
+/**
+ * Get display label for event status
+ * 
+ * @param status - Event status string (draft, active, closed)
+ * @returns Label in the current language, or the status itself if unknown
+ * 
+ * @example
+ * ```typescript
+ * getEventStatusLabel('draft'); // 'Draft'
+ * ```
+ */
+export const getEventStatusLabel = (status: string): string => {
+  const eventStatus = EVENT_STATUSES.find((es) => es.value === status);
+  return eventStatus ? translate(`eventStatuses.${eventStatus.value}.label`) : status;
+};
+
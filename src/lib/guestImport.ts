@@ -0,0 +1,358 @@
+/**
+ * Ekadi Platform Guest Import Helpers
+ *
+ * Client-side parsing and validation of guest spreadsheets (CSV and XLSX).
+ * Nothing in this module talks to the API; the import wizard submits the
+ * validated rows through bulkCreateGuests() once the user has reviewed them.
+ *
+ * Features:
+ * - CSV and XLSX parsing in the browser
+ * - Automatic column mapping from header names
+ * - Phone number normalisation against COUNTRY_CODES
+ * - Duplicate detection within the file and against existing guests
+ *
+ * @module guestImport
+ */
+
+import Papa from 'papaparse';
+import { COUNTRY_CODES } from './constants';
+import { translate } from './i18n';
+import { phoneNumberSchema } from './validation';
+import type {
+  Guest,
+  GuestFormData,
+  GuestImportField,
+  GuestImportMapping,
+  GuestImportRow,
+  ParsedSheet,
+} from '@/src/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Guest fields available for column mapping, with the header
+ * names we recognise automatically
+ */
+export const GUEST_IMPORT_FIELDS: {
+  value: GuestImportField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}[] = [
+  {
+    value: 'full_name',
+    label: 'Full Name',
+    required: true,
+    aliases: ['name', 'full name', 'guest', 'guest name', 'jina'],
+  },
+  {
+    value: 'phone_number',
+    label: 'Phone Number',
+    required: true,
+    aliases: ['phone', 'phone number', 'mobile', 'telephone', 'tel', 'simu', 'namba ya simu'],
+  },
+  {
+    value: 'email',
+    label: 'Email',
+    required: false,
+    aliases: ['email', 'e-mail', 'email address', 'barua pepe'],
+  },
+  {
+    value: 'plus_ones',
+    label: 'Plus-ones',
+    required: false,
+    aliases: ['plus ones', 'plus-ones', 'plus one', 'extra guests', 'companions'],
+  },
+  {
+    value: 'notes',
+    label: 'Notes',
+    required: false,
+    aliases: ['notes', 'note', 'comments', 'table', 'side'],
+  },
+];
+
+/** Accepted file extensions for guest imports */
+export const GUEST_IMPORT_ACCEPT = '.csv,.xlsx';
+
+/** Number of guests submitted per bulk request */
+export const GUEST_IMPORT_BATCH_SIZE = 100;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Convert a raw cell value to a trimmed string
+ */
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString().split('T')[0];
+  }
+  return String(value).trim();
+};
+
+/**
+ * Split a table of cells into headers and non-empty data rows
+ *
+ * Row numbers are taken before blank rows are dropped so errors point at
+ * the right line of the file.
+ */
+const toParsedSheet = (table: unknown[][]): ParsedSheet => {
+  const [headerRow = [], ...dataRows] = table;
+  const headers = headerRow.map(cellToString);
+  const numbered = dataRows
+    .map((row, index) => ({
+      cells: headers.map((_, column) => cellToString(row[column])),
+      // The header is row 1
+      rowNumber: index + 2,
+    }))
+    .filter(({ cells }) => cells.some((cell) => cell !== ''));
+  return {
+    headers,
+    rows: numbered.map(({ cells }) => cells),
+    rowNumbers: numbered.map(({ rowNumber }) => rowNumber),
+  };
+};
+
+/**
+ * Parse a CSV or XLSX guest list in the browser
+ *
+ * The first row is treated as the header row. For XLSX files only the
+ * first sheet is read. The XLSX reader is loaded on demand to keep it
+ * out of the main bundle.
+ *
+ * @param file - File selected by the user
+ * @returns Promise resolving to the parsed sheet
+ * @throws Error if the file type is unsupported or the file is empty
+ *
+ * @example
+ * ```typescript
+ * const sheet = await parseGuestFile(file);
+ * console.log(sheet.headers); // ['Name', 'Phone', 'Email']
+ * ```
+ */
+export const parseGuestFile = async (file: File): Promise<ParsedSheet> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  let sheet: ParsedSheet;
+
+  if (extension === 'csv') {
+    const text = await file.text();
+    // Blank lines are kept so toParsedSheet numbers rows as they appear in the file
+    const result = Papa.parse<string[]>(text, { skipEmptyLines: false });
+    sheet = toParsedSheet(result.data);
+  } else if (extension === 'xlsx') {
+    const { readSheet } = await import('read-excel-file/browser');
+    const data = await readSheet(file);
+    sheet = toParsedSheet(data);
+  } else {
+    throw new Error(translate('guestImport.errors.unsupportedFile'));
+  }
+
+  if (sheet.headers.length === 0 || sheet.rows.length === 0) {
+    throw new Error(translate('guestImport.errors.emptyFile'));
+  }
+
+  return sheet;
+};
+
+// ============================================================================
+// COLUMN MAPPING
+// ============================================================================
+
+/**
+ * Guess which column holds which guest field from the header names
+ *
+ * @param headers - Column headers from the parsed sheet
+ * @returns Column mapping (unrecognised fields are left null)
+ *
+ * @example
+ * ```typescript
+ * guessColumnMapping(['Jina', 'Simu']);
+ * // { full_name: 0, phone_number: 1, email: null, plus_ones: null, notes: null }
+ * ```
+ */
+export const guessColumnMapping = (headers: string[]): GuestImportMapping => {
+  const normalized = headers.map((header) =>
+    header.toLowerCase().replace(/[_]+/g, ' ').trim()
+  );
+  const mapping = {} as GuestImportMapping;
+  const used = new Set<number>();
+
+  GUEST_IMPORT_FIELDS.forEach((field) => {
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && field.aliases.includes(header)
+    );
+    mapping[field.value] = index === -1 ? null : index;
+    if (index !== -1) {
+      used.add(index);
+    }
+  });
+
+  return mapping;
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Normalise a phone number from a spreadsheet to international format
+ *
+ * Accepts "+254712345678", "254712345678", "00254712345678",
+ * "0712 345 678" and "712345678" (the last two use the default
+ * country code). Numbers with a country prefix outside COUNTRY_CODES
+ * are rejected.
+ *
+ * @param value - Raw phone number cell
+ * @param defaultCountryCode - Country code for numbers without a prefix
+ * @returns International phone number, or null if invalid
+ */
+export const normalizeImportedPhone = (
+  value: string,
+  defaultCountryCode: string
+): string | null => {
+  let digits = value.replace(/[\s\-().]/g, '');
+  if (digits.startsWith('00')) {
+    digits = `+${digits.slice(2)}`;
+  }
+
+  let countryCode = defaultCountryCode;
+  let localNumber = digits;
+
+  const prefixed = COUNTRY_CODES.find(
+    (code) =>
+      digits.startsWith(code.value) ||
+      (!digits.startsWith('+') && digits.startsWith(code.value.slice(1)) && digits.length > 10)
+  );
+
+  if (prefixed) {
+    countryCode = prefixed.value;
+    localNumber = digits.startsWith('+')
+      ? digits.slice(prefixed.value.length)
+      : digits.slice(prefixed.value.length - 1);
+  } else if (digits.startsWith('+')) {
+    return null;
+  }
+
+  if (localNumber.startsWith('0')) {
+    localNumber = localNumber.substring(1);
+  }
+
+  if (!phoneNumberSchema.safeParse(localNumber).success || localNumber.length < 9) {
+    return null;
+  }
+
+  return `${countryCode}${localNumber}`;
+};
+
+/**
+ * Map, normalise and validate every row of a parsed sheet
+ *
+ * Rows with errors get `guest: null`. Duplicates (same phone number or
+ * email) are flagged against earlier rows in the file and against the
+ * event's existing guests; only the first occurrence in the file is kept.
+ *
+ * @param sheet - Parsed sheet
+ * @param mapping - Column mapping chosen by the user
+ * @param options.defaultCountryCode - Country code for numbers without a prefix
+ * @param options.existingGuests - Guests already on the event
+ * @returns One validated row per data row
+ */
+export const validateImportRows = (
+  sheet: ParsedSheet,
+  mapping: GuestImportMapping,
+  options: {
+    defaultCountryCode: string;
+    existingGuests: Guest[];
+  }
+): GuestImportRow[] => {
+  const existingPhones = new Set(options.existingGuests.map((guest) => guest.phone_number));
+  const existingEmails = new Set(
+    options.existingGuests
+      .map((guest) => guest.email?.toLowerCase())
+      .filter((email): email is string => !!email)
+  );
+  const seenPhones = new Set<string>();
+  const seenEmails = new Set<string>();
+
+  const read = (row: string[], field: GuestImportField): string => {
+    const index = mapping[field];
+    return index === null ? '' : row[index] ?? '';
+  };
+
+  return sheet.rows.map((row, index) => {
+    const errors: string[] = [];
+
+    const fullName = read(row, 'full_name');
+    if (fullName.length < 2) {
+      errors.push(translate('guestImport.errors.nameMissing'));
+    }
+
+    const rawPhone = read(row, 'phone_number');
+    const phoneNumber = rawPhone
+      ? normalizeImportedPhone(rawPhone, options.defaultCountryCode)
+      : null;
+    if (!rawPhone) {
+      errors.push(translate('guestImport.errors.phoneMissing'));
+    } else if (!phoneNumber) {
+      errors.push(
+        translate('guestImport.errors.phoneInvalid', {
+          phone: rawPhone,
+          codes: COUNTRY_CODES.map((code) => code.value).join(', '),
+        })
+      );
+    }
+
+    const email = read(row, 'email').toLowerCase();
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      errors.push(translate('guestImport.errors.emailInvalid', { email }));
+    }
+
+    const rawPlusOnes = read(row, 'plus_ones');
+    const plusOnes = rawPlusOnes ? Number(rawPlusOnes) : 0;
+    if (!Number.isInteger(plusOnes) || plusOnes < 0 || plusOnes > 20) {
+      errors.push(translate('guestImport.errors.plusOnesInvalid', { value: rawPlusOnes }));
+    }
+
+    let duplicate: GuestImportRow['duplicate'] = null;
+    if (phoneNumber && existingPhones.has(phoneNumber)) {
+      duplicate = 'existing';
+    } else if (email && existingEmails.has(email)) {
+      duplicate = 'existing';
+    } else if (phoneNumber && seenPhones.has(phoneNumber)) {
+      duplicate = 'file';
+    } else if (email && seenEmails.has(email)) {
+      duplicate = 'file';
+    }
+
+    if (phoneNumber) seenPhones.add(phoneNumber);
+    if (email) seenEmails.add(email);
+
+    const guest: GuestFormData | null =
+      errors.length === 0 && phoneNumber
+        ? {
+            full_name: fullName,
+            email: email || undefined,
+            phone_number: phoneNumber,
+            plus_ones: plusOnes,
+            notes: read(row, 'notes') || undefined,
+          }
+        : null;
+
+    return {
+      rowNumber: sheet.rowNumbers[index],
+      raw: {
+        full_name: fullName,
+        phone_number: rawPhone,
+      },
+      guest,
+      errors,
+      duplicate,
+    };
+  });
+};
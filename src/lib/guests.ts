@@ -0,0 +1,191 @@
+/**
+ * Ekadi Platform Guest Management API
+ *
+ * This module provides functions for managing the guest list of an event.
+ * All functions use the configured apiClient which includes authentication,
+ * error handling, and automatic token refresh.
+ *
+ * Features:
+ * - List guests for an event
+ * - Create, update and delete guests
+ * - Bulk creation for spreadsheet imports
+ *
+ * @module guests
+ */
+
+import apiClient from './api';
+import { API_ENDPOINTS } from './constants';
+import type { Guest, GuestFormData } from '@/src/types';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the guest list of an event
+ *
+ * @param eventId - Event ID the guests belong to
+ * @param filters - Optional filter parameters
+ * @param filters.search - Search in guest name, email or phone number
+ * @returns Promise resolving to array of guests
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const guests = await getEventGuests(1);
+ * const matches = await getEventGuests(1, { search: 'wanjiru' });
+ * ```
+ */
+export const getEventGuests = async (
+  eventId: number,
+  filters?: {
+    search?: string;
+  }
+): Promise<Guest[]> => {
+  try {
+    const params = new URLSearchParams();
+
+    if (filters?.search) {
+      params.append('search', filters.search);
+    }
+
+    const queryString = params.toString();
+    const url = `${API_ENDPOINTS.EVENTS.GUESTS(eventId)}${queryString ? `?${queryString}` : ''}`;
+
+    const response = await apiClient.get<Guest[] | { results: Guest[] }>(url);
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching guests:', error);
+    throw error;
+  }
+};
+
+/**
+ * Add a guest to an event
+ *
+ * @param eventId - Event ID to add the guest to
+ * @param data - Guest form data (phone number in international format)
+ * @returns Promise resolving to the created guest
+ * @throws ApiError if validation fails or request fails
+ *
+ * @example
+ * ```typescript
+ * const guest = await createGuest(1, {
+ *   full_name: 'Wanjiru Kamau',
+ *   phone_number: '+254712345678',
+ *   plus_ones: 1,
+ * });
+ * ```
+ */
+export const createGuest = async (
+  eventId: number,
+  data: GuestFormData
+): Promise<Guest> => {
+  try {
+    const response = await apiClient.post<Guest>(
+      API_ENDPOINTS.EVENTS.GUESTS(eventId),
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Add many guests to an event in a single request
+ *
+ * Used by the spreadsheet import wizard. The backend validates the whole
+ * batch and creates nothing if any guest is invalid.
+ *
+ * @param eventId - Event ID to add the guests to
+ * @param guests - Guest form data (phone numbers in international format)
+ * @returns Promise resolving to the created guests
+ * @throws ApiError if validation fails or request fails
+ *
+ * @example
+ * ```typescript
+ * const created = await bulkCreateGuests(1, [
+ *   { full_name: 'Wanjiru Kamau', phone_number: '+254712345678', plus_ones: 0 },
+ *   { full_name: 'Baraka Mushi', phone_number: '+255754123456', plus_ones: 1 },
+ * ]);
+ * ```
+ */
+export const bulkCreateGuests = async (
+  eventId: number,
+  guests: GuestFormData[]
+): Promise<Guest[]> => {
+  try {
+    const response = await apiClient.post<Guest[]>(
+      API_ENDPOINTS.EVENTS.GUESTS_BULK(eventId),
+      { guests }
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Update an existing guest
+ *
+ * Supports partial updates - only provided fields will be updated.
+ *
+ * @param eventId - Event ID the guest belongs to
+ * @param guestId - Guest ID to update
+ * @param data - Partial guest form data
+ * @returns Promise resolving to the updated guest
+ * @throws ApiError if validation fails or request fails
+ *
+ * @example
+ * ```typescript
+ * const updated = await updateGuest(1, 42, { plus_ones: 2 });
+ * ```
+ */
+export const updateGuest = async (
+  eventId: number,
+  guestId: number,
+  data: Partial<GuestFormData>
+): Promise<Guest> => {
+  try {
+    const response = await apiClient.patch<Guest>(
+      API_ENDPOINTS.EVENTS.GUEST_DETAIL(eventId, guestId),
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Remove a guest from an event
+ *
+ * @param eventId - Event ID the guest belongs to
+ * @param guestId - Guest ID to remove
+ * @returns Promise that resolves when deletion is complete
+ * @throws ApiError if guest not found or request fails
+ *
+ * @example
+ * ```typescript
+ * await deleteGuest(1, 42);
+ * ```
+ */
+export const deleteGuest = async (eventId: number, guestId: number): Promise<void> => {
+  try {
+    await apiClient.delete(API_ENDPOINTS.EVENTS.GUEST_DETAIL(eventId, guestId));
+  } catch (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,194 @@
+/**
+ * Ekadi Platform Internationalization
+ *
+ * This module translates the interface into English or Kiswahili. The
+ * chosen language is kept in localStorage so it survives reloads, and is
+ * also saved on the user profile so it follows the user to other devices.
+ * Components translate through the useTranslation hook, which re-renders
+ * them when the language changes; code outside React (such as API error
+ * formatting) uses translate directly.
+ *
+ * Features:
+ * - Dotted message keys (e.g. 'nav.dashboard') with {placeholder} params
+ * - Singular/plural messages picked by the count param
+ * - Locale storage with change subscriptions
+ * - Date locale for the current language
+ *
+ * @module i18n
+ */
+
+import { DEFAULT_LOCALE, LOCALES, STORAGE_KEYS } from './constants';
+import en from './locales/en';
+import sw from './locales/sw';
+import type {
+  Locale,
+  PluralMessage,
+  TranslationKey,
+  TranslationParams,
+} from '@/src/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DICTIONARIES = { en, sw };
+
+/** Called when the stored locale changes */
+const listeners = new Set<() => void>();
+
+/**
+ * Locale used by translate when none is passed
+ * Set by the LocaleProvider on every render so it matches what is shown
+ */
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+// ============================================================================
+// LOCALE STORAGE
+// ============================================================================
+
+/**
+ * Check whether a value is a supported locale
+ *
+ * @param value - Value to check
+ * @returns True for 'en' and 'sw'
+ */
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.some((locale) => locale.value === value);
+
+/**
+ * Get the locale saved on this device
+ *
+ * @returns Stored locale, or the default when none is stored
+ */
+export const getStoredLocale = (): Locale => {
+  if (typeof window === 'undefined') {
+    return DEFAULT_LOCALE;
+  }
+  const stored = localStorage.getItem(STORAGE_KEYS.LOCALE);
+  return isLocale(stored) ? stored : DEFAULT_LOCALE;
+};
+
+/**
+ * Save the locale on this device and notify subscribers
+ *
+ * @param locale - Locale to store
+ */
+export const storeLocale = (locale: Locale): void => {
+  if (typeof window === 'undefined' || getStoredLocale() === locale) {
+    return;
+  }
+  localStorage.setItem(STORAGE_KEYS.LOCALE, locale);
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Subscribe to locale changes (including changes from other tabs)
+ *
+ * @param listener - Called after the stored locale changes
+ * @returns Unsubscribe function
+ */
+export const subscribeToLocale = (listener: () => void): (() => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEYS.LOCALE) {
+      listener();
+    }
+  };
+
+  listeners.add(listener);
+  window.addEventListener('storage', handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+};
+
+/**
+ * Get the locale translate uses by default
+ *
+ * @returns Active locale
+ */
+export const getActiveLocale = (): Locale => activeLocale;
+
+/**
+ * Set the locale translate uses by default
+ *
+ * @param locale - Locale being rendered
+ */
+export const setActiveLocale = (locale: Locale): void => {
+  activeLocale = locale;
+};
+
+/**
+ * Get the date locale for the active language
+ *
+ * @returns BCP 47 locale for toLocaleDateString (e.g. 'sw-KE')
+ *
+ * @example
+ * ```typescript
+ * new Date().toLocaleDateString(getDateLocale(), { month: 'long' }); // "Desemba"
+ * ```
+ */
+export const getDateLocale = (): string =>
+  LOCALES.find((locale) => locale.value === activeLocale)?.date_locale ?? LOCALES[0].date_locale;
+
+// ============================================================================
+// TRANSLATION
+// ============================================================================
+
+/**
+ * Look up a message in a dictionary
+ */
+const lookup = (locale: Locale, key: string): string | PluralMessage | undefined => {
+  let value: unknown = DICTIONARIES[locale];
+  for (const part of key.split('.')) {
+    if (!value || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[part];
+  }
+  return typeof value === 'string' || (value && typeof value === 'object')
+    ? (value as string | PluralMessage)
+    : undefined;
+};
+
+/**
+ * Translate a message key
+ *
+ * Falls back to English when the message is missing in the locale, and
+ * to the key itself when it is missing everywhere.
+ *
+ * @param key - Dotted message key
+ * @param params - Values for {placeholders}; count also picks plural forms
+ * @param locale - Locale to translate to (defaults to the active locale)
+ * @returns Translated message
+ *
+ * @example
+ * ```typescript
+ * translate('events.guestCount', { count: 3 }); // "3 guests" / "Wageni 3"
+ * ```
+ */
+export const translate = (
+  key: TranslationKey,
+  params?: TranslationParams,
+  locale: Locale = activeLocale
+): string => {
+  const message = lookup(locale, key) ?? lookup('en', key);
+  if (message === undefined) {
+    return key;
+  }
+
+  const text =
+    typeof message === 'string'
+      ? message
+      : params?.count === 1
+      ? message.one
+      : message.other;
+
+  if (!params) {
+    return text;
+  }
+  return text.replace(/\{(\w+)\}/g, (token, name: string) =>
+    name in params ? String(params[name]) : token
+  );
+};
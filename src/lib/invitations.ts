@@ -0,0 +1,298 @@
+/**
+ * Ekadi Platform Invitations API
+ *
+ * This module provides functions for sending event invitations to guests
+ * and previewing them before they go out. All API functions use the
+ * configured apiClient which includes authentication, error handling,
+ * and automatic token refresh.
+ *
+ * Features:
+ * - Send invitations by SMS, WhatsApp or email
+ * - List invitations sent for an event with their delivery status
+ * - Retry failed invitations on the same or a fallback channel
+ * - Merge field rendering for message previews
+ *
+ * @module invitations
+ */
+
+import apiClient from './api';
+import {
+  API_ENDPOINTS,
+  INVITATION_CHANNELS,
+  INVITATION_MERGE_FIELDS,
+  INVITATION_STATUSES,
+  ROUTES,
+  RSVP_TOKEN_PREVIEW,
+} from './constants';
+import { formatEventDate, formatEventTime } from './events';
+import { translate } from './i18n';
+import type {
+  DeliverySummary,
+  EventDetail,
+  Guest,
+  Invitation,
+  InvitationChannel,
+  InvitationStatus,
+  RetryInvitationsPayload,
+  RetryInvitationsResult,
+  SendInvitationsPayload,
+  SendInvitationsResult,
+  TranslationKey,
+} from '@/src/types';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Send invitations to guests of an event
+ *
+ * The backend resolves the recipients from the scope, replaces merge
+ * fields per guest (including each guest's personal RSVP link) and
+ * queues the messages for delivery.
+ *
+ * @param eventId - Event ID to send invitations for
+ * @param payload - Channel, recipients and message
+ * @returns Promise resolving to the send summary with the updated total_invitations
+ * @throws ApiError if validation fails or request fails
+ *
+ * @example
+ * ```typescript
+ * const result = await sendInvitations(1, {
+ *   channel: 'sms',
+ *   recipient_scope: 'not_invited',
+ *   message: 'Hello {{guest_name}}, RSVP here: {{rsvp_link}}',
+ * });
+ * console.log(result.sent_count);
+ * ```
+ */
+export const sendInvitations = async (
+  eventId: number,
+  payload: SendInvitationsPayload
+): Promise<SendInvitationsResult> => {
+  try {
+    const response = await apiClient.post<SendInvitationsResult>(
+      API_ENDPOINTS.EVENTS.SEND_INVITATIONS(eventId),
+      payload
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get the invitations sent for an event
+ *
+ * @param eventId - Event ID the invitations belong to
+ * @returns Promise resolving to array of invitations
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const invitations = await getEventInvitations(1);
+ * ```
+ */
+export const getEventInvitations = async (eventId: number): Promise<Invitation[]> => {
+  try {
+    const response = await apiClient.get<Invitation[] | { results: Invitation[] }>(
+      API_ENDPOINTS.EVENTS.INVITATIONS(eventId)
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Resend failed invitations
+ *
+ * Each retry is a new invitation linked to the failed one via retry_of.
+ * Guests without an email address are skipped when retrying by email.
+ *
+ * @param eventId - Event ID the invitations belong to
+ * @param payload - Failed invitation IDs and optional fallback channel
+ * @returns Promise resolving to the number of invitations queued again
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * // Resend failed SMS invitations over WhatsApp
+ * const result = await retryInvitations(1, { invitation_ids: [12, 15], channel: 'whatsapp' });
+ * ```
+ */
+export const retryInvitations = async (
+  eventId: number,
+  payload: RetryInvitationsPayload
+): Promise<RetryInvitationsResult> => {
+  try {
+    const response = await apiClient.post<RetryInvitationsResult>(
+      API_ENDPOINTS.EVENTS.RETRY_INVITATIONS(eventId),
+      payload
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Count invitations by delivery status
+ *
+ * Read invitations count as delivered too, since a read receipt implies
+ * delivery.
+ *
+ * @param invitations - Invitations of an event
+ * @returns Counts per status with delivery, read and failure rates
+ *
+ * @example
+ * ```typescript
+ * const summary = summarizeDeliveries(invitations);
+ * console.log(`${summary.delivery_rate.toFixed(1)}% delivered`);
+ * ```
+ */
+export const summarizeDeliveries = (invitations: Invitation[]): DeliverySummary => {
+  const counts: Record<InvitationStatus, number> = {
+    queued: 0,
+    sent: 0,
+    delivered: 0,
+    read: 0,
+    failed: 0,
+  };
+  invitations.forEach((invitation) => {
+    counts[invitation.status] += 1;
+  });
+
+  const total = invitations.length;
+  const rate = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+
+  return {
+    total,
+    ...counts,
+    delivery_rate: rate(counts.delivered + counts.read),
+    read_rate: rate(counts.read),
+    failure_rate: rate(counts.failed),
+  };
+};
+
+/**
+ * Get display info for an invitation delivery status
+ *
+ * @param status - Invitation status
+ * @returns Status label, color and description
+ */
+export const getInvitationStatusDisplay = (status: InvitationStatus) => {
+  const match = INVITATION_STATUSES.find((item) => item.value === status) ?? INVITATION_STATUSES[0];
+  return {
+    ...match,
+    label: translate(`invitationStatuses.${match.value}.label`),
+    description: translate(`invitationStatuses.${match.value}.description`),
+  };
+};
+
+/**
+ * Get display info for an invitation channel
+ *
+ * @param channel - Invitation channel
+ * @returns Channel label, icon and description
+ */
+export const getChannelDisplay = (channel: InvitationChannel) => {
+  const match = INVITATION_CHANNELS.find((item) => item.value === channel) ?? INVITATION_CHANNELS[0];
+  return {
+    ...match,
+    label: translate(`channels.${match.value}.label`),
+    description: translate(`channels.${match.value}.description`),
+  };
+};
+
+/**
+ * Get the display label of a merge field
+ *
+ * @param token - Merge field token, e.g. {{guest_name}}
+ * @returns Label, e.g. "Guest name", or the token itself if unknown
+ */
+export const getMergeFieldLabel = (token: string): string => {
+  const field = INVITATION_MERGE_FIELDS.find((item) => item.token === token);
+  // Tokens are the field name wrapped in double braces
+  return field ? translate(`mergeFields.${field.token.slice(2, -2)}` as TranslationKey) : token;
+};
+
+/**
+ * Replace merge fields in an invitation message for one guest
+ *
+ * The real RSVP link is generated per guest by the backend, so previews
+ * pass a placeholder link instead.
+ *
+ * @param message - Message containing merge fields (e.g. {{guest_name}})
+ * @param event - Event the invitation is for
+ * @param guest - Guest the message is addressed to
+ * @param rsvpLink - RSVP link to substitute for {{rsvp_link}}
+ * @returns Message with all known merge fields replaced
+ *
+ * @example
+ * ```typescript
+ * renderInvitationMessage('Hi {{guest_name}}', event, guest, link);
+ * // "Hi Wanjiru Kamau"
+ * ```
+ */
+export const renderInvitationMessage = (
+  message: string,
+  event: Pick<EventDetail, 'event_name' | 'event_date' | 'event_time' | 'event_location'>,
+  guest: Pick<Guest, 'full_name'>,
+  rsvpLink: string
+): string => {
+  const values: Record<string, string> = {
+    guest_name: guest.full_name,
+    event_name: event.event_name,
+    event_date: formatEventDate(event.event_date),
+    event_time: formatEventTime(event.event_time),
+    event_location: event.event_location,
+    rsvp_link: rsvpLink,
+  };
+
+  return message.replace(/\{\{\s*(\w+)\s*\}\}/g, (token, field: string) =>
+    field in values ? values[field] : token
+  );
+};
+
+/**
+ * Build the stand-in RSVP link used in message previews
+ *
+ * @returns RSVP link with a placeholder token of real length
+ */
+export const getPreviewRsvpLink = (): string => {
+  const origin = typeof window !== 'undefined' ? window.location.origin : '';
+  return `${origin}${ROUTES.PUBLIC.RSVP(RSVP_TOKEN_PREVIEW)}`;
+};
+
+/**
+ * Check whether a guest can be reached on a channel
+ *
+ * Every guest has a phone number; email invitations need an email address.
+ *
+ * @param guest - Guest to check
+ * @param channel - Delivery channel
+ * @returns True if the guest can receive invitations on the channel
+ */
+export const canReceiveInvitation = (guest: Guest, channel: InvitationChannel): boolean => {
+  if (channel === 'email') {
+    return !!guest.email;
+  }
+  return !!guest.phone_number;
+};
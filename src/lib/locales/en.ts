@@ -0,0 +1,1919 @@
+/**
+ * English Translations
+ *
+ * Source dictionary for the interface text. Messages are grouped by the
+ * page or component that shows them; {name} placeholders are replaced
+ * with the params passed to translate, and { one, other } messages are
+ * picked by the count param. The Swahili dictionary must have the same
+ * keys, which the Messages type enforces.
+ *
+ * @module locales/en
+ */
+
+const en = {
+  common: {
+    cancel: 'Cancel',
+    save: 'Save',
+    saveChanges: 'Save Changes',
+    delete: 'Delete',
+    edit: 'Edit',
+    back: 'Back',
+    continue: 'Continue',
+    close: 'Close',
+    retry: 'Retry',
+    refresh: 'Refresh',
+    search: 'Search',
+    all: 'All',
+    showMore: 'Show More',
+    loadMore: 'Load More',
+    loading: 'Loading...',
+    notAvailable: 'N/A',
+    yes: 'Yes',
+    no: 'No',
+    or: 'or',
+    copyright: '© 2025 Ekadi Platform. All rights reserved.',
+    tryAgain: 'Please try again.',
+    userTypes: {
+      individual: 'Individual',
+      business: 'Business',
+    },
+    channel: 'Channel',
+    message: 'Message',
+    tooFast: 'Please wait a moment',
+    tooFastMessage: 'You are submitting too quickly. Please wait a few seconds before trying again.',
+  },
+  languages: {
+    en: 'English',
+    sw: 'Kiswahili',
+  },
+  errors: {
+    generic: 'An error occurred',
+    network: 'Unable to connect to the server. Please check your internet connection.',
+    timeout: 'The request took too long to complete. Please try again.',
+    noResponse: 'The server did not respond. Please try again later.',
+    fields: {
+      email: 'Email',
+      password: 'Password',
+      password2: 'Confirm password',
+      first_name: 'First name',
+      last_name: 'Last name',
+      phone_number: 'Phone number',
+      country_code: 'Country code',
+      company_name: 'Company name',
+      user_type: 'Account type',
+      bio: 'Bio',
+      event_name: 'Event name',
+      event_type: 'Event type',
+      event_date: 'Event date',
+      event_time: 'Event time',
+      event_location: 'Location',
+      event_description: 'Description',
+      full_name: 'Full name',
+      plus_ones: 'Plus-ones',
+      message: 'Message',
+      subject: 'Subject',
+      name: 'Name',
+      non_field_errors: 'Error',
+    },
+  },
+  nav: {
+    dashboard: 'Dashboard',
+    events: 'Events',
+    cards: 'Cards',
+    templates: 'Templates',
+    profile: 'Profile',
+    settings: 'Settings',
+    billing: 'Billing',
+    team: 'Team',
+    credit: 'Credit',
+    logout: 'Logout',
+    menu: 'Menu',
+    navigation: 'Navigation',
+    account: 'Account',
+    workspace: 'Workspace',
+    personal: 'Personal',
+    personalDetail: 'Only your own events',
+    individualAccount: 'Individual Account',
+    businessAccount: 'Business Account',
+    goToDashboard: 'Go to dashboard',
+    switchWorkspace: 'Switch workspace',
+    viewCreditBalance: 'View credit balance',
+    openMenu: 'Open navigation menu',
+    closeMenu: 'Close menu',
+  },
+  footer: {
+    tagline: 'Create stunning event cards and manage RSVPs effortlessly.',
+    company: 'Company',
+    aboutUs: 'About Us',
+    contact: 'Contact',
+    careers: 'Careers',
+    product: 'Product',
+    features: 'Features',
+    pricing: 'Pricing',
+    helpCenter: 'Help Center',
+    resources: 'Resources',
+    faq: 'FAQ',
+    documentation: 'Documentation',
+    blog: 'Blog',
+    legal: 'Legal',
+    privacyPolicy: 'Privacy Policy',
+    termsOfService: 'Terms of Service',
+    cookiePolicy: 'Cookie Policy',
+    copyright: '© {year} Ekadi Platform. All rights reserved.',
+  },
+  publicNav: {
+    features: 'Features',
+    howItWorks: 'How It Works',
+    testimonials: 'Testimonials',
+    benefits: 'Benefits',
+    pricing: 'Pricing',
+    login: 'Login',
+    getStarted: 'Get Started',
+    getStartedFree: 'Get Started Free',
+    goToHomepage: 'Go to homepage',
+    switchLanguage: 'Switch language',
+    newToEkadi: 'New to Ekadi?',
+    newToEkadiText:
+      'Create stunning event cards and manage RSVPs effortlessly. Get started with our free plan today!',
+  },
+  settings: {
+    title: 'Account Settings',
+    accountInformation: 'Account Information',
+    email: 'Email',
+    accountType: 'Account Type',
+    editProfile: 'Edit Profile',
+    notifications: 'Notifications',
+    notificationChannels: { email: 'Email', sms: 'SMS' },
+    savePreferences: 'Save Preferences',
+    preferencesLoadError: 'Could not load notification preferences',
+    preferencesSaved: 'Notification preferences saved',
+    preferencesSavedMessage: 'We will notify you based on your new choices',
+    preferencesSaveError: 'Could not save notification preferences',
+    language: 'Language',
+    interfaceLanguage: 'Interface Language',
+    languageUpdated: 'Language preference updated',
+    languageUpdatedMessage: 'Interface language changed to {language}',
+    languageSaveFailed: 'Could not save language to your profile',
+    security: 'Security',
+    password: 'Password',
+    passwordLastChangedNever: 'Last changed: Never',
+    changePassword: 'Change Password',
+  },
+  eventTypes: {
+    wedding: 'Wedding',
+    send_off: 'Send-off',
+    conference: 'Conference',
+    birthday: 'Birthday',
+    corporate: 'Corporate Event',
+    other: 'Other',
+  },
+  eventStatuses: {
+    draft: { label: 'Draft', description: 'Event is being prepared' },
+    active: { label: 'Active', description: 'Event is published' },
+    closed: { label: 'Closed', description: 'Event has concluded' },
+  },
+  channels: {
+    sms: { label: 'SMS', description: "Text message to the guest's phone" },
+    whatsapp: { label: 'WhatsApp', description: "WhatsApp message to the guest's phone" },
+    email: { label: 'Email', description: 'Email to guests with an email address' },
+  },
+  mergeFields: {
+    guest_name: 'Guest name',
+    event_name: 'Event name',
+    event_date: 'Event date',
+    event_time: 'Event time',
+    event_location: 'Event location',
+    rsvp_link: 'RSVP link',
+  },
+  invitationStatuses: {
+    queued: { label: 'Queued', description: 'Waiting to be sent' },
+    sent: { label: 'Sent', description: 'Sent, no delivery report yet' },
+    delivered: { label: 'Delivered', description: 'Reached the guest' },
+    read: { label: 'Read', description: 'Opened by the guest' },
+    failed: { label: 'Failed', description: 'Could not be delivered' },
+  },
+  rsvpStatuses: {
+    pending: { label: 'Pending', description: 'No response yet' },
+    attending: { label: 'Attending', description: 'Guest will attend' },
+    maybe: { label: 'Maybe', description: 'Guest is not sure yet' },
+    declined: { label: 'Declined', description: 'Guest will not attend' },
+  },
+  roles: {
+    owner: { label: 'Owner', description: 'Full access, including billing and the workspace itself' },
+    admin: { label: 'Admin', description: 'Manage teammates and all events' },
+    planner: { label: 'Planner', description: 'Create and manage events' },
+    viewer: { label: 'Viewer', description: 'View events and guest lists' },
+  },
+  permissions: {
+    edit: { label: 'Can edit', description: 'Edit event details, manage guests and send messages' },
+    manage_guests: { label: 'Manage guests', description: 'Add, import and update guests' },
+    send: { label: 'Send messages', description: 'Send invitations and reminders to guests' },
+    view: { label: 'View only', description: 'See event details, guests and RSVPs' },
+  },
+  activityActions: {
+    event_created: 'Event created',
+    event_updated: 'Event edited',
+    event_closed: 'Event closed',
+    event_reopened: 'Event reopened',
+    event_deleted: 'Event deleted',
+    invitations_sent: 'Invitations sent',
+    rsvp_received: 'RSVP received',
+  },
+  activityTime: {
+    justNow: 'Just now',
+    minutesAgo: '{count} min ago',
+    hoursAgo: { one: '{count} hour ago', other: '{count} hours ago' },
+    yesterday: 'Yesterday',
+  },
+  subscriptionStatuses: {
+    active: 'Active',
+    trialing: 'Trial',
+    past_due: 'Payment Due',
+    cancelled: 'Cancelled',
+  },
+  invoiceStatuses: {
+    paid: 'Paid',
+    open: 'Unpaid',
+    failed: 'Failed',
+    void: 'Void',
+  },
+  walletTransactions: {
+    topup: 'Top-up',
+    deduction: 'Messages',
+    refund: 'Refund',
+  },
+  automationTriggers: {
+    rsvp_reminder: { label: 'RSVP reminder', description: 'Invited guests who have not responded yet' },
+    day_before_reminder: { label: 'Day-before reminder', description: 'Guests who confirmed they are attending' },
+    thank_you: { label: 'Thank-you message', description: 'Guests who attended' },
+  },
+  ruleTiming: {
+    eventDay: 'On the event day',
+    before: { one: '{count} day before the event', other: '{count} days before the event' },
+    after: { one: '{count} day after the event', other: '{count} days after the event' },
+  },
+  revisionFields: {
+    event_type: 'Event type',
+    event_name: 'Name',
+    event_location: 'Location',
+    event_date: 'Date',
+    event_time: 'Time',
+    event_description: 'Description',
+    status: 'Status',
+    empty: 'Empty',
+  },
+  activity: {
+    title: 'Recent Activity',
+    empty: 'No activity yet.',
+    loadError: 'Error loading activity',
+    loadErrorMessage: 'Failed to load recent activity. Please try again.',
+  },
+  eventCard: {
+    upcoming: 'Upcoming',
+    past: 'Past',
+    active: 'Active',
+    by: 'By {name}',
+  },
+  eventHistory: {
+    title: 'Change History',
+    subtitle: 'Every edit to this event, newest first.',
+    reopenToRestore: 'Reopen the event to restore earlier values.',
+    empty: 'This event has not been edited since it was created.',
+    revision: 'Revision {number}',
+    latest: 'Latest',
+    restoredFrom: 'Restored from revision {number}',
+    restorePrevious: 'Restore Previous Values',
+    restore: 'Restore',
+    confirmTitle: 'Restore previous values?',
+    confirmMessage: 'This puts back {changes}. The restore is saved as a new revision.',
+    dateChangeWarning:
+      'The date or time will change. Guests who already received an invitation are not told automatically, so consider sending them an update.',
+    loadError: 'Error loading history',
+    loadErrorMessage: 'Failed to load the change history. Please try again.',
+    restored: 'Changes restored',
+    restoredMessage: 'The values from before revision {number} are back.',
+    restoreError: 'Error restoring changes',
+    restoreErrorMessage: 'Failed to restore the previous values. Please try again.',
+  },
+  validation: {
+    emailRequired: 'Email is required',
+    emailInvalid: 'Please enter a valid email address',
+    messageRequired: 'Message is required',
+    messageMax: 'Message must be at most {max} characters',
+    subjectRequired: 'Email subject is required',
+    timeRequired: 'Time is required',
+    phoneRequired: 'Phone number is required',
+    phoneDigits: 'Phone number must contain digits (and spaces) only',
+    phoneMin: 'Phone number must be at least 4 digits',
+    phoneMax: 'Phone number must be at most 20 characters',
+    phoneInvalid: 'Enter a valid phone number',
+    countryCodeRequired: 'Country code is required',
+    countryCodeUnsupported: 'Unsupported country code',
+    firstNameRequired: 'First name is required',
+    firstNameMin: 'First name must be at least 2 characters',
+    lastNameRequired: 'Last name is required',
+    lastNameMin: 'Last name must be at least 2 characters',
+    companyNameRequired: 'Company name is required for business accounts',
+    passwordRequired: 'Password is required',
+    passwordMin: 'Password must be at least 8 characters',
+    passwordUppercase: 'Password must contain at least one uppercase letter',
+    passwordLowercase: 'Password must contain at least one lowercase letter',
+    passwordNumber: 'Password must contain at least one number',
+    passwordConfirm: 'Please confirm your password',
+    passwordsMismatch: "Passwords don't match",
+  },
+  collaborators: {
+    title: 'People with Access',
+    addCohost: 'Add Co-host',
+    emailLabel: 'Email address',
+    emailPlaceholder: 'e.g., cohost@example.com',
+    permission: 'Permission',
+    shareEvent: 'Share Event',
+    organizer: 'Organizer',
+    workspaceMembers: 'Workspace members, according to their role',
+    invitationPending: 'Invitation pending',
+    permissionFor: 'Permission for {name}',
+    revokeFor: 'Revoke access for {name}',
+    emptyHint:
+      'Planning with someone else? Add them as a co-host to share this event without sharing your account.',
+    revokeTitle: 'Revoke access?',
+    revokeMessage:
+      '{name} will no longer be able to open {event}. Guests and messages they added stay on the event.',
+    revokeAccess: 'Revoke Access',
+    loadError: 'Error loading co-hosts',
+    loadErrorMessage: 'Failed to load who has access. Please try again.',
+    shared: 'Event shared',
+    sharedPending: 'We emailed {email} an invitation to sign up and co-host.',
+    sharedActive: '{name} can now {permission}.',
+    shareError: 'Error sharing event',
+    shareErrorMessage: 'Failed to share the event. Please try again.',
+    permissionUpdated: 'Permission updated',
+    permissionError: 'Error updating permission',
+    permissionErrorMessage: 'Failed to change the permission. Please try again.',
+    revoked: 'Access revoked',
+    revokedMessage: '{name} no longer has access to {event}.',
+    revokeError: 'Error revoking access',
+    revokeErrorMessage: 'Failed to revoke access. Please try again.',
+  },
+  automations: {
+    title: 'Automations',
+    subtitle: 'Reminders and thank-you messages sent for you, to whoever matches when they run.',
+    add: 'Add Automation',
+    send: 'Send',
+    daysBefore: 'Days before the event',
+    daysAfter: 'Days after the event',
+    at: 'At',
+    emailSubject: 'Email subject',
+    mergeFieldsHelp: 'Merge fields such as {guestName} and {rsvpLink} are filled in for each guest.',
+    enterDays: 'Enter the number of days.',
+    formPreview: {
+      one: '{timing}, this would go to {count} guest right now.',
+      other: '{timing}, this would go to {count} guests right now.',
+    },
+    emptyCanSend:
+      'No automations yet. Add an RSVP reminder to chase guests who have not responded, without sending it by hand.',
+    empty: 'No automations have been set up for this event.',
+    pausedBadge: 'Paused',
+    timingAt: '{timing} at {time}',
+    next: 'Next: {time}',
+    nothingLeft: 'Nothing left to send',
+    sentCount: '{count} sent',
+    resume: 'Resume',
+    pause: 'Pause',
+    deleteLabel: 'Delete {name}',
+    wouldGoTo: {
+      one: 'Would go to {count} guest right now',
+      other: 'Would go to {count} guests right now',
+    },
+    hide: 'Hide',
+    show: 'Show',
+    andMore: 'and {count} more',
+    scheduledInvitations: 'Scheduled invitations',
+    scopeAll: 'All guests',
+    scopeNotInvited: 'Guests not yet invited',
+    scopeSelected: { one: '{count} chosen guest', other: '{count} chosen guests' },
+    by: 'by {name}',
+    cancelSendLabel: 'Cancel send on {time}',
+    deleteTitle: 'Delete automation?',
+    deleteMessage: 'The {name} will stop sending. To stop it only for a while, pause it instead.',
+    daysNumber: 'Days must be a number',
+    daysWhole: 'Days must be a whole number',
+    daysNegative: 'Days cannot be negative',
+    daysMax: 'Days must be at most {max}',
+    loadError: 'Error loading automations',
+    loadErrorMessage: 'Failed to load reminders and scheduled sends.',
+    added: 'Automation added',
+    addError: 'Error adding automation',
+    addErrorMessage: 'Failed to add the automation. Please try again.',
+    paused: 'Automation paused',
+    resumed: 'Automation resumed',
+    pausedMessage: 'No messages will be sent until you resume it.',
+    nextSendMessage: 'Next send: {time}.',
+    nothingLeftMessage: 'There are no sends left for this event.',
+    updateError: 'Error updating automation',
+    updateErrorMessage: 'Failed to update the automation. Please try again.',
+    deleted: 'Automation deleted',
+    deleteError: 'Error deleting automation',
+    deleteErrorMessage: 'Failed to delete the automation. Please try again.',
+    sendCancelled: 'Scheduled send cancelled',
+    sendCancelledMessage: 'It was due {time}.',
+    cancelError: 'Error cancelling send',
+    cancelErrorMessage: 'Failed to cancel the scheduled send. Please try again.',
+  },
+  deliveryLog: {
+    title: 'Delivery',
+    refresh: 'Refresh delivery status',
+    retryFailed: 'Retry Failed ({count})',
+    empty: 'Delivery reports appear here once invitations are sent.',
+    delivered: 'Delivered',
+    ofTotal: '{count} of {total}',
+    read: 'Read',
+    opened: '{count} opened',
+    inProgress: 'In Progress',
+    awaitingReport: 'Awaiting delivery report',
+    failed: 'Failed',
+    ofMessages: '{rate}% of messages',
+    noMatches: 'No messages with this status.',
+    retried: 'Retried',
+    retryTitle: 'Retry failed messages?',
+    retryMessage: {
+      one: '{count} message failed. Resend with the same message, on the same channel or another one.',
+      other:
+        '{count} messages failed. Resend with the same message, on the same channel or another one.',
+    },
+    retryChannel: 'Retry channel',
+    sameChannel: 'Same channel as before',
+    emailSkipNote: 'Guests without an email address will be skipped.',
+    creditNote: 'SMS and WhatsApp messages beyond your plan allowance are paid from credit.',
+    thatChannel: 'that channel',
+    loadError: 'Error loading delivery status',
+    loadErrorMessage: 'Failed to load the delivery log. Please try again.',
+    retryQueued: 'Retry queued',
+    retryQueuedMessage: {
+      one: '{count} message will be sent again.',
+      other: '{count} messages will be sent again.',
+    },
+    retrySkipped: {
+      one: '{count} guest cannot be reached on {channel}.',
+      other: '{count} guests cannot be reached on {channel}.',
+    },
+    retryError: 'Error retrying messages',
+    retryErrorMessage: 'Failed to retry the failed messages. Please try again.',
+  },
+  smsSegments: {
+    summary: '{length} characters · {segments} SMS per guest',
+    split:
+      'This message is split into {segments} SMS and each one is billed. Shorten it by {over} characters to send a single SMS.',
+    nearLimit:
+      'Only {remaining} characters left in this SMS, so guests with longer names may get one more.',
+    unicode:
+      'Emoji and some special characters switch the SMS to Unicode, which fits {unicode} characters instead of {gsm}.',
+  },
+  templateEditor: {
+    newTitle: 'New Template',
+    editTitle: 'Edit Template',
+    name: 'Template Name',
+    namePlaceholder: 'e.g., Wedding invitation – formal',
+    eventType: 'Event Type',
+    optional: 'optional',
+    emailSubject: 'Email Subject',
+    insertMergeField: 'Insert merge field',
+    preview: 'Preview',
+    previewEvent: 'Preview event',
+    startTyping: 'Start typing to see the preview.',
+    previewNote:
+      'Shown for {guest} at {event}. Each guest receives their own name and RSVP link.',
+    noEvents: 'Create an event to preview templates with real event details.',
+    saveTemplate: 'Save Template',
+    nameMin: 'Name must be at least {min} characters',
+    nameMax: 'Name must be at most {max} characters',
+    englishRequired: 'English message is required',
+    saved: 'Template saved',
+    updated: 'Template updated',
+    saveError: 'Error saving template',
+    saveErrorMessage: 'Failed to save the template. Please try again.',
+  },
+  eventQuota: {
+    payg: "You're on Pay As You Go: each event costs {fee}.",
+    unlimited: 'Your {plan} plan includes unlimited events.',
+    exhausted: "You've used all {count} events on your {plan} plan",
+    remaining: {
+      one: '{remaining} of {count} event left this month',
+      other: '{remaining} of {count} events left this month',
+    },
+    resetsOn: 'Your event quota resets on {date}.',
+    upgradePlan: 'Upgrade Plan',
+  },
+  upgradePlan: {
+    title: "You've reached your event limit",
+    message: {
+      one: 'Your {plan} plan includes {count} event per month and you have used it. Your quota resets on {date}.',
+      other:
+        'Your {plan} plan includes {count} events per month and you have used all of them. Your quota resets on {date}.',
+    },
+    upToEvents: 'Up to {count} events per month',
+    unlimitedEvents: 'Unlimited events',
+    perMonth: 'for {price}/month',
+    customPricing: 'with custom pricing',
+    notNow: 'Not now',
+    upgradeTo: 'Upgrade to {plan}',
+    contactSales: 'Contact Sales',
+  },
+  costCalculator: {
+    title: 'Estimate Your Costs',
+    subtitle: 'Tell us about a typical month and compare what each plan would cost',
+    eventsPerMonth: 'Events per month',
+    channelInvitations: '{channel} invitations',
+    bestValue: 'Best value',
+    custom: 'Custom',
+    customNote: 'Unlimited events and messages. Contact us for pricing.',
+    perMonth: '/month',
+    events: { one: '{count} event', other: '{count} events' },
+    plan: 'Plan',
+    included: 'included',
+    includesUpTo: 'Includes up to {count} events per month',
+    footnote:
+      "Email invitations are free on every plan. Messages beyond a plan's allowance are charged at Pay As You Go rates.",
+  },
+  mpesaCheckout: {
+    title: 'Pay with M-Pesa',
+    close: 'Close checkout',
+    plan: 'Plan',
+    subscriptionMonthly: '{plan} subscription, billed monthly',
+    subscriptionAnnual: '{plan} subscription, billed annually',
+    topupCredit: 'Pay As You Go credit',
+    amount: 'Amount (KES)',
+    amountRange: 'Enter an amount between {min} and {max}',
+    phoneLabel: 'M-Pesa phone number',
+    phoneHelper: 'You will receive a payment prompt on this phone.',
+    startFailed: 'Failed to start the M-Pesa payment. Please try again.',
+    pay: 'Pay {amount}',
+    checkPhone: 'Check your phone',
+    enterPin: 'Enter your M-Pesa PIN on {phone} to pay {amount}.',
+    expiresIn: 'Prompt expires in {time}',
+    receipt: 'M-Pesa receipt: {receipt}',
+    tryAgain: 'Try Again',
+    done: 'Done',
+  },
+  paymentOutcomes: {
+    pending: {
+      title: 'Waiting for payment',
+      description: 'Check your phone and enter your M-Pesa PIN to complete the payment.',
+    },
+    success: {
+      title: 'Payment received',
+      description: 'Thank you! Your payment was successful.',
+    },
+    cancelled: {
+      title: 'Payment cancelled',
+      description: 'The payment was cancelled on your phone. No money was taken.',
+    },
+    insufficient_funds: {
+      title: 'Insufficient funds',
+      description: 'Your M-Pesa balance is too low for this payment. Top up M-Pesa and try again.',
+    },
+    timeout: {
+      title: 'Payment timed out',
+      description: 'We did not receive a response from your phone in time. No money was taken.',
+    },
+    failed: {
+      title: 'Payment failed',
+      description: 'M-Pesa could not complete the payment. Please try again.',
+    },
+  },
+  guestImport: {
+    title: 'Import Guests',
+    close: 'Close import wizard',
+    stepUpload: 'Step 1 of 3 • Upload a spreadsheet',
+    stepMapping: 'Step 2 of 3 • Map columns from {file}',
+    stepPreview: 'Step 3 of 3 • Review and import',
+    complete: 'Import complete',
+    reading: 'Reading file...',
+    chooseFile: 'Choose a CSV or Excel (.xlsx) file',
+    headersHint: 'The first row must contain column headers such as Name, Phone, Email',
+    readFailed: 'Could not read file',
+    readFailedHint: 'Please check the file and try again.',
+    rowsFound: {
+      one: '{count} row found. Match each guest field to a column in your file.',
+      other: '{count} rows found. Match each guest field to a column in your file.',
+    },
+    fields: {
+      full_name: 'Full Name',
+      phone_number: 'Phone Number',
+      email: 'Email',
+      plus_ones: 'Plus-ones',
+      notes: 'Notes',
+    },
+    notInFile: '— Not in file —',
+    column: 'Column {number}',
+    defaultCountry: 'Default Country',
+    defaultCountryHelper: 'Used for numbers written without a country code, e.g. 0712 345 678',
+    pleaseMap: 'Please map: {fields}',
+    chooseAnother: 'Choose another file',
+    preview: 'Preview',
+    readyCount: '{count} ready to import',
+    errorCount: '{count} with errors',
+    duplicateCount: '{count} duplicates skipped',
+    showAll: 'Show all rows',
+    showProblems: 'Show only problems',
+    columns: {
+      row: 'Row',
+      name: 'Name',
+      phone: 'Phone',
+      status: 'Status',
+    },
+    duplicateExisting: 'Already on guest list',
+    duplicateRow: 'Duplicate of an earlier row',
+    ready: 'Ready',
+    progress: 'Imported {done} of {total}...',
+    backToMapping: 'Back to mapping',
+    importButton: { one: 'Import {count} Guest', other: 'Import {count} Guests' },
+    doneTitle: { one: '{count} guest imported', other: '{count} guests imported' },
+    skipped: {
+      one: '{count} row was skipped. Fix it in your file and import again, or add it manually.',
+      other:
+        '{count} rows were skipped. Fix them in your file and import again, or add them manually.',
+    },
+    done: 'Done',
+    imported: 'Guests imported',
+    importedCount: { one: '{count} guest added.', other: '{count} guests added.' },
+    stopped: 'Import stopped',
+    stoppedCount: {
+      one: '{count} guest was added before the error: {error}',
+      other: '{count} guests were added before the error: {error}',
+    },
+    errors: {
+      unsupportedFile: 'Unsupported file type. Please upload a .csv or .xlsx file.',
+      emptyFile: 'The file is empty. Make sure the first row contains column headers.',
+      nameMissing: 'Name is missing or too short',
+      phoneMissing: 'Phone number is missing',
+      phoneInvalid: 'Invalid phone number "{phone}" (supported: {codes})',
+      emailInvalid: 'Invalid email "{email}"',
+      plusOnesInvalid: 'Invalid plus-ones "{value}"',
+    },
+  },
+  checkInPass: {
+    title: 'Your Entry Pass',
+    hint: 'Show this code at the entrance to check in.',
+    alt: 'Check-in code for {name}',
+  },
+  qrScanner: {
+    off: 'Camera is off',
+    unsupported: 'This browser cannot use the camera. Use name search instead.',
+    denied: 'Camera access was denied. Allow camera access or use name search instead.',
+  },
+  cardExport: {
+    title: 'Export Card',
+    subtitle: 'Rendered at 300 DPI in your browser',
+    close: 'Close export dialog',
+    size: 'Size',
+    format: 'Format',
+    formats: {
+      pdf: 'Print-ready, sized to the page',
+      png: 'High-resolution image for sharing',
+    },
+    bleed: 'Add {mm} mm bleed for professional printing',
+    download: 'Download Card',
+    batchTitle: 'Personalised cards for every guest',
+    batchHint: 'One card per guest with their name filled in, downloaded as a ZIP file.',
+    batchNeedsName: 'Add a "Guest name" text block to your design to personalise each card.',
+    progress: 'Rendered {done} of {total}...',
+    downloadBatch: { one: 'Download for {count} Guest', other: 'Download for {count} Guests' },
+    zipName: '{event} guest cards',
+    ready: 'Cards ready',
+    readyCount: {
+      one: '{count} personalised card downloaded.',
+      other: '{count} personalised cards downloaded.',
+    },
+    failed: 'Export failed',
+    cardFailed: 'Failed to export the card. Please try again.',
+    batchFailed: 'Failed to export the guest cards. Please try again.',
+    errors: {
+      backgroundFailed: 'Failed to load the card background image.',
+      unsupported: 'Your browser does not support card rendering.',
+      exportFailed: 'Failed to export the card.',
+    },
+  },
+  errorPages: {
+    goHome: 'Go to Homepage',
+    goBack: 'Go Back',
+    notFound: {
+      title: 'Page Not Found',
+      message:
+        "Oops! The page you're looking for doesn't exist. It might have been moved or deleted.",
+    },
+    unauthorized: {
+      title: 'Access Denied',
+      message: "You don't have permission to access this page.",
+      help: 'If you believe this is an error, please contact support or try logging in again.',
+    },
+  },
+  team: {
+    title: 'Team',
+    subtitle: 'Everyone in a workspace shares its events. Roles decide what each teammate can change.',
+    selectWorkspace: 'Select workspace',
+    chooseWorkspace: 'Choose a workspace',
+    personalTitle: 'You are working in your personal space',
+    personalText: 'Switch to one of your workspaces to see its members and invite teammates.',
+    createTitle: 'Create your team workspace',
+    createText:
+      'Plan events together with your colleagues. You will be the owner and can invite teammates as admins, planners or viewers.',
+    workspacesTitle: 'Team workspaces',
+    workspacesText:
+      "Workspaces let businesses share events across a team. Switch to a business account to create one, or open the link in a teammate's invitation email to join theirs.",
+    workspaceName: 'Workspace name',
+    workspaceNamePlaceholder: 'e.g., Tukio Events Ltd',
+    createWorkspace: 'Create Workspace',
+    editProfile: 'Edit Profile',
+    youAre: 'You are {role}',
+    columns: {
+      member: 'Member',
+      role: 'Role',
+      joined: 'Joined',
+    },
+    you: '(you)',
+    roleFor: 'Role for {name}',
+    remove: 'Remove',
+    inviteTitle: 'Invite a Teammate',
+    email: 'Email',
+    sendInvitation: 'Send Invitation',
+    roles: 'Roles',
+    pendingInvitations: 'Pending Invitations',
+    invitedBy: 'Invited by {name} on {date} · expires {expires}',
+    removeTitle: 'Remove {name}?',
+    removeText:
+      'They will lose access to {workspace} and its events. Events they created stay in the workspace.',
+    loadError: 'Error loading members',
+    loadErrorMessage: 'Failed to load workspace members. Please try again.',
+    created: 'Workspace created',
+    createdMessage: 'Invite your teammates to {name}.',
+    createError: 'Error creating workspace',
+    createErrorMessage: 'Failed to create the workspace. Please try again.',
+    inviteSent: 'Invitation sent',
+    inviteSentMessage: 'We emailed an invitation to {email}.',
+    inviteError: 'Error sending invitation',
+    inviteErrorMessage: 'Failed to send the invitation. Please try again.',
+    roleUpdated: 'Role updated',
+    roleUpdatedMessage: '{name} is now {role}.',
+    roleError: 'Error updating role',
+    roleErrorMessage: 'Failed to change the role. Please try again.',
+    removed: 'Member removed',
+    removedMessage: '{name} no longer has access to {workspace}.',
+    removeError: 'Error removing member',
+    removeErrorMessage: 'Failed to remove the member. Please try again.',
+    inviteCancelled: 'Invitation cancelled',
+    inviteCancelledMessage: '{email} can no longer join.',
+    cancelError: 'Error cancelling invitation',
+    cancelErrorMessage: 'Failed to cancel the invitation. Please try again.',
+    join: {
+      joining: 'Joining workspace…',
+      welcome: 'Welcome to {name}',
+      joinedAs: 'You joined as {role}. {description}.',
+      viewEvents: 'View Events',
+      viewTeam: 'View Team',
+      failed: 'Could not join the workspace',
+      invalid: 'This invitation is no longer valid. Ask your teammate to send a new one.',
+      goToDashboard: 'Go to Dashboard',
+    },
+  },
+  cards: {
+    title: 'Invitation Cards',
+    designedCount: {
+      one: '{designed} of {count} event designed',
+      other: '{designed} of {count} events designed',
+    },
+    designCard: 'Design Card',
+    editDesign: 'Edit Design',
+    emptyTitle: 'No Events Yet',
+    emptyText: 'Create an event first, then design its invitation card.',
+    createEvent: 'Create Event',
+    designed: 'Designed',
+    notDesigned: 'Not designed',
+    loadError: 'Error loading cards',
+    loadErrorMessage: 'Failed to load your cards. Please try again.',
+  },
+  cardDesigner: {
+    title: 'Card Designer',
+    backToCards: 'Back to Cards',
+    event: 'Event',
+    selectEvent: 'Select an event...',
+    export: 'Export',
+    save: 'Save Design',
+    noEvents: 'Create an event first, then come back to design its invitation card.',
+    noEventSelected: 'Select an event above to design its invitation card.',
+    clickToEdit: 'Click a text block to edit it',
+    template: 'Template',
+    templateHint: 'Choosing a template replaces the current colors and text blocks.',
+    colorsAndBackground: 'Colors & Background',
+    backgroundColor: 'Background Color',
+    accentColor: 'Accent Color',
+    border: 'Border',
+    borders: {
+      none: 'None',
+      solid: 'Single line',
+      double: 'Double line',
+    },
+    backgroundImage: 'Background Image',
+    uploadImage: 'Upload Image',
+    replaceImage: 'Replace Image',
+    removeImage: 'Remove Image',
+    imageHelper: 'PNG, JPEG or WebP, up to 5MB.',
+    textBlocks: 'Text Blocks',
+    addText: 'Add Text',
+    editBlock: 'Edit Text Block',
+    removeBlock: 'Remove text block',
+    shows: 'Shows',
+    bindings: {
+      guest_name: 'Guest name',
+      event_name: 'Event name',
+      event_type: 'Event type',
+      event_date: 'Event date',
+      event_time: 'Event time',
+      event_location: 'Location',
+      event_description: 'Description',
+      custom: 'Custom text',
+    },
+    text: 'Text',
+    position: 'Position from top ({percent}%)',
+    size: 'Size ({size})',
+    font: 'Font',
+    fonts: {
+      serif: 'Serif',
+      sansSerif: 'Sans-serif',
+    },
+    weight: 'Weight',
+    weights: {
+      normal: 'Regular',
+      bold: 'Bold',
+    },
+    align: 'Align',
+    alignments: {
+      left: 'Left',
+      center: 'Center',
+      right: 'Right',
+    },
+    color: 'Color',
+    colors: {
+      primary: 'Deep Teal',
+      accent: 'Vibrant Coral',
+      background: 'Warm Off-White',
+      cardBg: 'White',
+      textPrimary: 'Charcoal',
+      textSecondary: 'Slate',
+      success: 'Green',
+      error: 'Red',
+      warning: 'Amber',
+      info: 'Blue',
+    },
+    loadError: 'Error loading card',
+    loadErrorMessage: 'Failed to load the card designer. Please try again.',
+    unsupportedImage: 'Unsupported image',
+    unsupportedImageMessage: 'Please upload a PNG, JPEG or WebP image.',
+    imageTooLarge: 'Image too large',
+    imageTooLargeMessage: 'Background images must be 5MB or smaller.',
+    saved: 'Card saved',
+    savedMessage: 'The invitation card for {event} has been saved.',
+    saveError: 'Error saving card',
+    saveErrorMessage: 'Failed to save the card. Please try again.',
+  },
+  events: {
+    title: 'My Events',
+    workspaceTitle: '{name} Events',
+    count: { one: '{count} event', other: '{count} events' },
+    create: 'Create Event',
+    searchPlaceholder: 'Search events...',
+    allTypes: 'All Types',
+    allStatuses: 'All Statuses',
+    emptyTitle: 'No events yet',
+    emptyText: 'Create your first event to get started',
+    loadError: 'Error loading events',
+    loadErrorMessage: 'Failed to load events. Please try again.',
+  },
+  eventForm: {
+    createTitle: 'Create New Event',
+    createSubtitle: 'Fill in the details below to create your event',
+    editTitle: 'Edit Event',
+    editSubtitle: 'Update the details of {name}',
+    workspaceNotice:
+      'This event will be created in {name}. Everyone in the workspace can see it.',
+    viewerNotice:
+      'You are a viewer in {name}. Ask an admin for planner access to create events here.',
+    eventType: 'Event Type',
+    selectType: 'Select event type',
+    eventName: 'Event Name',
+    namePlaceholder: 'e.g., John & Mary Wedding',
+    eventDate: 'Event Date',
+    eventTime: 'Event Time',
+    eventLocation: 'Event Location',
+    locationPlaceholder: 'e.g., Safari Park Hotel, Nairobi',
+    eventDescription: 'Event Description',
+    descriptionPlaceholder: 'Add any additional details about your event...',
+    descriptionHelp: 'Optional - Describe what guests should know',
+    eventStatus: 'Event Status',
+    statusHelpCreate: 'Save as draft to edit later, or publish as active',
+    statusHelpEdit: 'Change status to control event visibility and editability',
+    tipsTitle: 'Quick Tips',
+    tipDraft: "Choose 'Draft' to save and continue editing later",
+    tipActive: "Set to 'Active' when ready to send invitations",
+    tipClose: 'You can close the event after it concludes',
+    closedWarning: 'This event is closed and cannot be edited. Please reopen the event first.',
+    closingWarning:
+      'Closing this event will prevent further edits. You can reopen it later from the event details page.',
+    create: 'Create Event',
+    notFound: 'Event not found.',
+    created: 'Event created successfully!',
+    createError: 'Error creating event',
+    createErrorMessage: 'Failed to create event. Please try again.',
+    updated: 'Event updated successfully!',
+    updateError: 'Error updating event',
+    updateErrorMessage: 'Failed to update event. Please try again.',
+    cannotEditClosed: 'Cannot edit closed events',
+    noEditAccess: 'You do not have permission to edit this event',
+    loadError: 'Error loading event',
+    loadErrorMessage: 'Failed to load event. Please try again.',
+    validation: {
+      nameMin: 'Event name must be at least 3 characters',
+      nameMax: 'Event name must be at most 255 characters',
+      locationRequired: 'Location is required',
+      dateRequired: 'Date is required',
+      datePast: 'Event date cannot be in the past',
+    },
+  },
+  eventDetail: {
+    tabs: {
+      overview: 'Overview',
+      history: 'History',
+    },
+    backToEvent: 'Back to Event',
+    backToEvents: 'Back to Events',
+    closeEvent: 'Close Event',
+    reopenEvent: 'Reopen Event',
+    loadErrorMessage: 'Failed to load event. Redirecting to events list.',
+    deleted: 'Event deleted successfully',
+    deleteError: 'Error deleting event',
+    deleteErrorMessage: 'Failed to delete event. Please try again.',
+    closed: 'Event closed successfully',
+    closeError: 'Error closing event',
+    closeErrorMessage: 'Failed to close event. Please try again.',
+    reopened: 'Event reopened successfully',
+    reopenError: 'Error reopening event',
+    reopenErrorMessage: 'Failed to reopen event. Please try again.',
+    deleteTitle: 'Delete Event',
+    deleteText:
+      "Are you sure you want to delete '{name}'? All associated data including invitations and RSVPs will be permanently removed.",
+    deleteConfirm: 'Yes, Delete Event',
+    closeText:
+      'Closing this event will prevent any further edits. You can reopen it later if needed. Are you sure?',
+    reopenText: 'Reopening this event will allow you to make edits again. Continue?',
+    closedBanner: 'This event is closed. To make changes, reopen the event first.',
+    details: 'Event Details',
+    date: 'Date',
+    time: 'Time',
+    location: 'Location',
+    description: 'Description',
+    statistics: 'Event Statistics',
+    stats: {
+      invitationsSent: 'Invitations Sent',
+      totalSent: 'Total sent',
+      rsvpsReceived: 'RSVPs Received',
+      responses: 'Responses',
+      confirmed: 'Confirmed',
+      attending: 'Attending',
+      responseRate: 'Response Rate',
+      ofInvitations: 'Of invitations',
+    },
+    noInvitations:
+      'No invitations sent yet. Start by creating and sending invitations to your guests.',
+    activity: 'Activity',
+    quickActions: 'Quick Actions',
+    manageGuests: 'Manage Guests',
+    importGuests: 'Import Guests',
+    sendInvitations: 'Send Invitations',
+    viewRsvps: 'View RSVPs',
+    checkInGuests: 'Check In Guests',
+    editDetails: 'Edit Details',
+    upcoming: 'Upcoming Event',
+    past: 'Past Event',
+    ongoing: 'Ongoing Event',
+    upcomingText: "This event hasn't happened yet.",
+    pastText: 'This event has already taken place.',
+    ongoingText: 'This event is currently active.',
+    info: 'Event Info',
+    created: 'Created',
+    lastUpdated: 'Last Updated',
+    status: 'Status',
+    workspace: 'Workspace',
+    yourRole: 'Your Role',
+    yourAccess: 'Your Access',
+    cohost: 'Co-host · {permission}',
+  },
+  dashboard: {
+    welcome: 'Welcome back, {name}!',
+    user: 'User',
+    subtitle: "Here's what's happening with your events",
+    createEvent: 'Create Event',
+    stats: {
+      totalEvents: 'Total Events',
+      activeDraft: '{active} active • {draft} draft',
+      confirmedAttendees: 'Confirmed attendees',
+      upcomingEvents: 'Upcoming Events',
+      comingSoon: 'Events coming soon',
+      pastEvents: 'Past Events',
+      completed: 'Completed',
+    },
+    emptyTitle: 'No Events Yet',
+    emptyText:
+      "You haven't created any events. Start by creating your first event to see statistics here.",
+    createFirst: 'Create Your First Event',
+    actions: {
+      createEventText: 'Start planning your next event',
+      designCard: 'Design Card',
+      designCardText: 'Create beautiful invitations',
+      viewEvents: 'View Events',
+      viewEventsText: 'Manage your events',
+    },
+    upgradeTitle: 'Upgrade Your Plan',
+    upgradeText:
+      'Get more events, unlimited messages, and premium features. Choose a plan that grows with you.',
+    viewPricing: 'View Pricing',
+    currentPlan: 'Currently on:',
+    activityEmpty: 'No recent activity. Create your first event to get started!',
+  },
+  guests: {
+    title: 'Guest List',
+    guestCount: {
+      one: '{count} guest',
+      other: '{count} guests',
+    },
+    attendeeCount: {
+      one: '{count} expected attendee',
+      other: '{count} expected attendees',
+    },
+    addGuest: 'Add Guest',
+    editGuest: 'Edit Guest',
+    closeForm: 'Close guest form',
+    fullName: 'Full Name',
+    namePlaceholder: 'e.g., Wanjiru Kamau',
+    email: 'Email',
+    optional: 'Optional',
+    countryCode: 'Country Code',
+    phoneNumber: 'Phone Number',
+    plusOnes: 'Plus-ones',
+    notes: 'Notes',
+    notesPlaceholder: "e.g., Bride's side, table 4",
+    searchPlaceholder: 'Search guests by name, email or phone...',
+    noMatchTitle: 'No Matching Guests',
+    noMatchText: 'Try a different search term.',
+    emptyTitle: 'No Guests Yet',
+    emptyText: 'Add the people you want to invite to this event.',
+    name: 'Name',
+    phone: 'Phone',
+    actions: 'Actions',
+    editName: 'Edit {name}',
+    removeName: 'Remove {name}',
+    removeTitle: 'Remove Guest',
+    removeText: "Are you sure you want to remove '{name}' from the guest list?",
+    removeConfirm: 'Yes, Remove Guest',
+    added: 'Guest added successfully',
+    addError: 'Error adding guest',
+    updated: 'Guest updated successfully',
+    updateError: 'Error updating guest',
+    saveErrorMessage: 'Failed to save guest. Please try again.',
+    removed: 'Guest removed successfully',
+    removeError: 'Error removing guest',
+    removeErrorMessage: 'Failed to remove guest. Please try again.',
+    loadError: 'Error loading guests',
+    loadErrorMessage: 'Failed to load guests. Please try again.',
+    validation: {
+      nameMin: 'Name must be at least 2 characters',
+      nameMax: 'Name must be at most 255 characters',
+      plusOnesNumber: 'Plus-ones must be a number',
+      plusOnesInt: 'Plus-ones must be a whole number',
+      plusOnesMin: 'Plus-ones cannot be negative',
+      plusOnesMax: 'Plus-ones must be at most 20',
+    },
+  },
+  rsvps: {
+    title: 'RSVPs',
+    responded: {
+      one: '{responded} of {count} guest responded',
+      other: '{responded} of {count} guests responded',
+    },
+    expectedAttendees: 'Expected Attendees',
+    emptyTitle: 'No RSVPs Yet',
+    emptyText: 'Responses will appear here once you add guests and send invitations.',
+    noMatchTitle: 'No Matching RSVPs',
+    noMatchText: 'Try a different search term or status filter.',
+    guest: 'Guest',
+    status: 'Status',
+    respondedAt: 'Responded',
+    override: 'Override',
+    manual: 'Manual',
+    plusOnesOf: '+{count} of {allowed}',
+    overrideFor: 'Override RSVP for {name}',
+    overrideTitle: 'Update RSVP',
+    overrideText: "Record a response from '{name}' received outside the platform.",
+    plusOnesMax: 'Plus-ones (max {max})',
+    save: 'Save RSVP',
+    updated: 'RSVP updated successfully',
+    updateError: 'Error updating RSVP',
+    updateErrorMessage: 'Failed to update RSVP. Please try again.',
+    loadError: 'Error loading RSVPs',
+    loadErrorMessage: 'Failed to load RSVPs. Redirecting to events list.',
+  },
+  invitations: {
+    noAccess: 'You do not have permission to send messages for this event',
+    steps: {
+      recipients: 'Recipients',
+      channel: 'Channel',
+      message: 'Message',
+      review: 'Review & Send',
+    },
+    scopes: {
+      all: { label: 'All guests', description: 'Everyone on the guest list' },
+      not_invited: {
+        label: 'Not yet invited',
+        description: 'Guests who have never received an invitation',
+      },
+      selected: { label: 'Choose guests', description: 'Search and pick specific guests' },
+    },
+    timings: {
+      now: { label: 'Send now', description: 'Invitations go out as soon as you confirm' },
+      later: { label: 'Schedule', description: 'Pick a date and time to send automatically' },
+    },
+    defaultSubject: "You're invited: {name}",
+    sentSoFar: {
+      one: '{count} invitation sent so far',
+      other: '{count} invitations sent so far',
+    },
+    closed: 'This event is closed. Reopen it to send invitations.',
+    noGuestsText: 'Add guests to this event before sending invitations.',
+    recipientsTitle: 'Who should receive the invitation?',
+    filterPlaceholder: 'Filter guests by name, email or phone...',
+    selectAllShown: 'Select all shown ({count})',
+    clearSelection: 'Clear selection',
+    invited: 'Invited',
+    noMatch: 'No guests match your filter.',
+    allInvited: 'Every guest has already been invited.',
+    channelTitle: 'How should we send it?',
+    perMessage: 'KES {rate} per message',
+    free: 'Free',
+    skipped: {
+      one: "{skipped} of {count} selected guest can't be reached by {channel} and will be skipped.",
+      other:
+        "{skipped} of {count} selected guests can't be reached by {channel} and will be skipped.",
+    },
+    messageTitle: 'Write your message',
+    startFromTemplate: 'Start from a template',
+    template: 'Message template',
+    chooseTemplate: 'Choose a template…',
+    personalLink: 'Each guest receives their own personal RSVP link.',
+    reviewTitle: 'Review and send',
+    recipients: 'Recipients',
+    skippedCount: '{count} skipped',
+    estimatedCost: 'Estimated Cost',
+    emailFree: 'Email invitations are free',
+    includedInPlan: '{included} included in your plan',
+    notEnoughCredit: 'Not enough credit',
+    notEnoughCreditText:
+      'Your balance is {balance}. Top up at least {shortfall} to send these invitations.',
+    topUp: 'Top Up',
+    timingTitle: 'When should it go out?',
+    sendOn: 'Send on',
+    chooseTime: 'Choose when to send',
+    futureTime: 'Choose a time in the future',
+    scheduleHelp:
+      'Guests who match the recipients at that time are included, so guests you add before then get the invitation too.',
+    messageTo: 'Message to {name}',
+    sendCount: {
+      one: 'Send {count} Invitation',
+      other: 'Send {count} Invitations',
+    },
+    scheduleCount: {
+      one: 'Schedule {count} Invitation',
+      other: 'Schedule {count} Invitations',
+    },
+    scheduleTitle: 'Schedule Invitations',
+    confirmSend: {
+      one: "Send {count} {channel} invitation for '{event}'?",
+      other: "Send {count} {channel} invitations for '{event}'?",
+    },
+    confirmSchedule: {
+      one: "Schedule {count} {channel} invitation for '{event}' on {time}?",
+      other: "Schedule {count} {channel} invitations for '{event}' on {time}?",
+    },
+    confirmCost: 'This will cost approximately {cost}.',
+    confirmSendButton: 'Yes, Send Now',
+    confirmScheduleButton: 'Yes, Schedule',
+    creditAdded: 'Credit added',
+    creditAddedMessage: '{amount} was added to your balance.',
+    scheduled: 'Invitations scheduled',
+    scheduledMessage: {
+      one: '{count} invitation will be sent on {time}.',
+      other: '{count} invitations will be sent on {time}.',
+    },
+    sent: 'Invitations sent',
+    sentMessage: {
+      one: '{count} invitation queued for delivery.',
+      other: '{count} invitations queued for delivery.',
+    },
+    sendError: 'Error sending invitations',
+    sendErrorMessage: 'Failed to send invitations. Please try again.',
+  },
+  checkIn: {
+    noAccess: 'You do not have permission to check guests in for this event',
+    title: 'Check-in',
+    onTheList: {
+      one: '{count} guest on the list',
+      other: '{count} guests on the list',
+    },
+    backOnline: 'Back online',
+    offline: 'Offline - check-in continues on this device',
+    pending: {
+      one: '{count} check-in waiting to sync',
+      other: '{count} check-ins waiting to sync',
+    },
+    syncNow: 'Sync Now',
+    twoDevices: 'Checked In on Two Devices',
+    twoDevicesText:
+      'These guests were checked in here while offline and on another device. The earlier check-in was kept. Review them in case a code was shared.',
+    dismiss: 'Dismiss',
+    conflictTimes: 'Other device {other} • This device {local}',
+    arrived: 'Arrived',
+    expected: 'Expected',
+    stillToArrive: 'Still to arrive',
+    scan: 'Scan QR Code',
+    startCamera: 'Start Camera',
+    stopCamera: 'Stop Camera',
+    checking: 'Checking code...',
+    findByName: 'Find by Name',
+    findByNameText: 'For guests without their phone or QR code',
+    searchPlaceholder: 'Search by name or phone...',
+    startTyping: "Start typing a guest's name",
+    noMatch: 'No guests match "{query}"',
+    arrivedBadge: 'Arrived {time}',
+    checkIn: 'Check In',
+    welcome: 'Welcome, {name}',
+    mayBring: {
+      one: 'May bring up to {count} guest.',
+      other: 'May bring up to {count} guests.',
+    },
+    checkedIn: 'Checked in.',
+    queued: 'Saved on this device and will sync when back online.',
+    alreadyCheckedIn: 'Already checked in',
+    alreadyCheckedInName: '{name} is already checked in',
+    arrivedAt: 'This guest arrived at {time}. Check their ID before letting them in again.',
+    arrivedEarlier: 'This guest arrived earlier. Check their ID before letting them in again.',
+    failed: 'Check-in failed',
+    invalidCode: 'This code is not valid for this event. Try searching by name instead.',
+    workingOffline: 'Working offline',
+    workingOfflineMessage: 'Using the guest list saved {time}.',
+    conflicts: 'Check-in conflicts',
+    conflictsMessage: {
+      one: '{count} guest was also checked in on another device.',
+      other: '{count} guests were also checked in on another device.',
+    },
+    synced: 'Check-ins synced',
+    syncedMessage: {
+      one: '{count} offline check-in saved.',
+      other: '{count} offline check-ins saved.',
+    },
+    rejected: 'Some check-ins were rejected',
+    rejectedMessage: {
+      one: '{count} offline check-in could not be saved. The guest may have been removed.',
+      other: '{count} offline check-ins could not be saved. The guest may have been removed.',
+    },
+    loadError: 'Error loading check-in',
+    loadErrorMessage: 'Failed to load the guest list. Redirecting to events list.',
+    errors: {
+      offlineUnsupported: 'Offline check-in is not supported in this browser.',
+      notOnSavedList:
+        'This code is not on the guest list saved on this device. Try searching by name instead.',
+    },
+  },
+  usageMetrics: {
+    events: 'Events',
+    whatsapp: 'WhatsApp messages',
+    sms: 'SMS messages',
+  },
+  pricingPlans: {
+    payg: {
+      description: 'Perfect for occasional events',
+      features: {
+        f1: 'Pay only for what you use',
+        f2: 'No monthly commitments',
+        f3: 'All event types supported',
+        f4: 'Basic card templates',
+        f5: 'Email & SMS invitations',
+        f6: 'RSVP tracking',
+        f7: 'Event analytics',
+      },
+    },
+    starter: {
+      description: 'Great for individuals planning personal events',
+      features: {
+        f1: '5 events per month',
+        f2: '500 WhatsApp messages',
+        f3: '300 SMS messages',
+        f4: 'All basic templates',
+        f5: 'Email & SMS invitations',
+        f6: 'RSVP tracking',
+        f7: 'Event analytics',
+        f8: 'Priority support',
+      },
+    },
+    professional: {
+      description: 'Perfect for event planners and businesses',
+      features: {
+        f1: '20 events per month',
+        f2: '2,000 WhatsApp messages',
+        f3: '1,500 SMS messages',
+        f4: 'All premium templates',
+        f5: 'Custom card branding',
+        f6: 'Advanced analytics',
+        f7: 'Bulk operations',
+        f8: 'Priority support',
+        f9: 'API access',
+      },
+    },
+    enterprise: {
+      description: 'For large organizations and agencies',
+      features: {
+        f1: 'Unlimited events',
+        f2: 'Unlimited messages',
+        f3: 'All premium features',
+        f4: 'Custom integrations',
+        f5: 'Dedicated account manager',
+        f6: 'White-label options',
+        f7: 'Advanced security',
+        f8: '24/7 priority support',
+        f9: 'Custom SLA',
+      },
+    },
+  },
+  billing: {
+    title: 'Billing',
+    subtitle: 'Manage your plan, usage and invoices',
+    currentPlan: 'Current Plan',
+    perMonth: '/month',
+    perYear: '/year',
+    currentPeriod: 'Current period: {start} – {end}',
+    changesOn: 'Changes to {plan} on {date}.',
+    changesAtPeriodEnd: 'Changes to {plan} at the end of this billing period.',
+    usageThisPeriod: 'Usage This Period',
+    billedPerUse: 'billed per use',
+    unlimited: 'unlimited',
+    creditBalance: 'Credit Balance',
+    creditText: 'Pay As You Go messages are paid from your credit balance. Top up with M-Pesa.',
+    history: 'History',
+    changePlan: 'Change Plan',
+    monthly: 'Monthly',
+    annual: 'Annual',
+    popular: 'Popular',
+    payPerUse: 'Pay per use',
+    saveAYear: 'Save {amount} a year',
+    switchToAnnual: 'Switch to Annual',
+    switchToMonthly: 'Switch to Monthly',
+    upgrade: 'Upgrade',
+    downgrade: 'Downgrade',
+    scheduled: 'Scheduled',
+    invoices: 'Invoices',
+    noInvoices: 'No invoices yet.',
+    invoice: 'Invoice',
+    amount: 'Amount',
+    confirm: 'Confirm',
+    confirmAnnualTitle: 'Switch to annual billing?',
+    confirmMonthlyTitle: 'Switch to monthly billing?',
+    confirmUpgradeTitle: 'Upgrade to {plan}?',
+    confirmDowngradeTitle: 'Downgrade to {plan}?',
+    confirmAnnualText:
+      'Your monthly {plan} plan runs until the end of this billing period{period}, then renews with annual billing.',
+    confirmMonthlyText:
+      'Your annual {plan} plan runs until the end of this billing period{period}, then renews with monthly billing.',
+    confirmUpgradeText: 'Your new limits apply immediately. You are moving from {plan}.',
+    confirmDowngradeText:
+      'You keep your {plan} limits until the end of this billing period{period}, then move to {target}.',
+    upgraded: 'Plan upgraded',
+    upgradedMessage: 'You are now on the {plan} plan.',
+    upgradedMonthly: 'You are now on the {plan} plan, billed monthly.',
+    upgradedAnnual: 'You are now on the {plan} plan, billed annually.',
+    changeScheduled: 'Plan change scheduled',
+    changeScheduledMessage: 'Your plan changes to {plan} at the end of this billing period.',
+    changeError: 'Error changing plan',
+    changeErrorMessage: 'Failed to change your plan. Please try again.',
+    loadError: 'Error loading billing',
+    loadErrorMessage: 'Failed to load your billing details. Please try again.',
+  },
+  wallet: {
+    title: 'Credit',
+    backToBilling: 'Back to Billing',
+    subtitle:
+      'Pay As You Go messages cost {whatsapp} per WhatsApp message and {sms} per SMS. Credits never expire.',
+    available: 'Available Balance',
+    about: 'About {whatsapp} WhatsApp or {sms} SMS invitations',
+    spendingByEvent: 'Spending by Event',
+    noSpending: 'No messages charged to your credit yet.',
+    deletedEvent: 'Deleted event',
+    messages: {
+      one: '{formatted} message',
+      other: '{formatted} messages',
+    },
+    filterByEvent: 'Filter by event',
+    allActivity: 'All activity',
+    empty: 'No top-ups or charges yet.',
+    emptyEvent: 'No credit has been used for this event.',
+    type: 'Type',
+    details: 'Details',
+    balance: 'Balance',
+    channelMessages: {
+      one: '{count} {channel} message',
+      other: '{count} {channel} messages',
+    },
+    receipt: 'M-Pesa receipt {receipt}',
+    loadError: 'Error loading credit history',
+    loadErrorMessage: 'Failed to load your credit history. Please try again.',
+  },
+  templates: {
+    title: 'Message Templates',
+    subtitle: 'Save invitation messages once and reuse them for every event',
+    new: 'New Template',
+    filterByType: 'Filter by event type',
+    filterByChannel: 'Filter by channel',
+    allChannels: 'All Channels',
+    emptyTitle: 'No Templates Yet',
+    emptyText: 'Save your invitation text as a template to reuse it, in English and Kiswahili.',
+    noMatchTitle: 'No Matching Templates',
+    noMatchText: 'Try another event type or channel.',
+    createdBy: 'By {name}',
+    editLabel: 'Edit {name}',
+    deleteLabel: 'Delete {name}',
+    deleteTitle: 'Delete template?',
+    deleteText:
+      "'{name}' will be removed from the library for everyone. Invitations already sent with it are not affected.",
+    deleted: 'Template deleted',
+    loadError: 'Error loading templates',
+    loadErrorMessage: 'Failed to load your templates. Please try again.',
+    deleteError: 'Error deleting template',
+    deleteErrorMessage: 'Failed to delete the template. Please try again.',
+  },
+  profile: {
+    title: 'My Profile',
+    edit: 'Edit Profile',
+    verified: '✓ Verified',
+    notVerified: '⚠ Not Verified',
+    about: 'About',
+    contactInfo: 'Contact Information',
+    email: 'Email Address',
+    phone: 'Phone Number',
+    accountInfo: 'Account Information',
+    accountType: 'Account Type',
+    memberSince: 'Member Since',
+    accountStatus: 'Account Status',
+    active: 'Active',
+    inactive: 'Inactive',
+    emailVerified: 'Email Verified',
+    emailNotVerified: 'Email Not Verified',
+  },
+  editProfile: {
+    changePhoto: 'Change Photo',
+    photoHint: 'Max file size: 5MB. JPG, PNG only.',
+    firstName: 'First Name',
+    lastName: 'Last Name',
+    code: 'Code',
+    companyName: 'Company Name',
+    bio: 'Bio',
+    bioPlaceholder: 'Tell us about yourself...',
+    bioCount: '{count}/500 characters',
+    bioMax: 'Bio must be 500 characters or less',
+    emailNote: 'Your email cannot be changed. Contact support if you need to update it.',
+    invalidFileType: 'Invalid file type',
+    invalidFileTypeMessage: 'Please select an image file (JPG, PNG, etc.)',
+    fileTooLarge: 'File too large',
+    fileTooLargeMessage: 'Please select an image smaller than 5MB',
+    updated: 'Profile updated',
+    updatedMessage: 'Your profile has been successfully updated.',
+    updateError: 'Update failed',
+    updateErrorMessage: 'Failed to update profile. Please try again.',
+  },
+  auth: {
+    email: 'Email',
+    password: 'Password',
+    emailPlaceholder: 'your@email.com',
+    togglePassword: 'Toggle password visibility',
+    backToLogin: 'Back to Login',
+    goToLogin: 'Go to Login',
+    requirements: {
+      title: 'Password Requirements',
+      length: 'At least 8 characters',
+      uppercase: 'One uppercase letter',
+      lowercase: 'One lowercase letter',
+      number: 'One number',
+    },
+  },
+  login: {
+    title: 'Welcome Back',
+    subtitle: 'Login to manage your events',
+    passwordPlaceholder: 'Enter your password',
+    rememberMe: 'Remember me',
+    forgotPassword: 'Forgot password?',
+    submit: 'Login',
+    submitting: 'Logging in...',
+    noAccount: "Don't have an account?",
+    signUp: 'Sign up',
+    success: 'Welcome back!',
+    successMessage: 'You have been successfully logged in.',
+    error: 'Login Failed',
+    errorMessage: 'Unable to log in. Please check your credentials.',
+    notVerified: 'Email Not Verified',
+    notVerifiedMessage:
+      'Please verify your email address before logging in. Check your inbox for the verification link.',
+  },
+  register: {
+    title: 'Create Account',
+    submitting: 'Creating Account...',
+    stepOf: 'Step {step} of {total}: {name}',
+    steps: {
+      personal: 'Personal & Contact',
+      account: 'Account Setup',
+    },
+    firstNamePlaceholder: 'John',
+    lastNamePlaceholder: 'Doe',
+    emailPlaceholder: 'john.doe@example.com',
+    companyNamePlaceholder: 'Your company name',
+    passwordPlaceholder: 'Create a strong password',
+    confirmPassword: 'Confirm Password',
+    confirmPasswordPlaceholder: 'Re-enter your password',
+    strength: {
+      label: 'Password strength: {strength}',
+      tooShort: 'Too short',
+      weak: 'Weak',
+      medium: 'Medium',
+      strong: 'Strong',
+    },
+    haveAccount: 'Already have an account?',
+    checking: 'Please wait',
+    checkingMessage: 'Checking email and phone availability...',
+    emailTaken: 'Email Already Registered',
+    phoneTaken: 'Phone Number Already Registered',
+    success: 'Account Created!',
+    successMessage: 'A verification link has been sent to your email.',
+    error: 'Registration Failed',
+    errorMessage: 'Unable to create account',
+  },
+  forgotPassword: {
+    title: 'Reset Your Password',
+    subtitle: "Enter your email and we'll send you a reset link",
+    expiry: 'The reset link will expire in 15 minutes.',
+    submit: 'Send Reset Link',
+    checkEmail: 'Check Your Email',
+    checkEmailText: "If an account exists with that email, we've sent a password reset link.",
+    notReceived: "Didn't receive it? Check your spam folder or try again.",
+    tryAnother: 'Try Another Email',
+    sent: 'Reset Link Sent',
+    sentMessage: 'If an account exists with that email, a password reset link has been sent.',
+    error: 'Request Failed',
+    errorMessage: 'Unable to process your request. Please try again later.',
+  },
+  resetPassword: {
+    title: 'Set New Password',
+    subtitle: 'Choose a strong password for your account',
+    newPassword: 'New Password',
+    confirmPassword: 'Confirm New Password',
+    submit: 'Reset Password',
+    invalidLink: 'Invalid Reset Link',
+    invalidLinkText: 'This password reset link is invalid or has expired.',
+    missingLinkMessage: 'This password reset link is invalid or missing.',
+    requestNew: 'Request New Link',
+    invalidToken: 'Invalid Token',
+    invalidTokenMessage: 'Reset token is missing. Please request a new reset link.',
+    successTitle: 'Password Reset Successfully',
+    successText: 'Your password has been changed. You can now login with your new password.',
+    sessionsNote: 'All existing sessions have been logged out for security.',
+    success: 'Password Reset Successful',
+    successMessage: 'Your password has been changed successfully.',
+    expired: 'Reset Link Expired',
+    expiredMessage: 'This password reset link has expired. Please request a new one.',
+    error: 'Reset Failed',
+    errorMessage: 'Unable to reset password. Please try again.',
+  },
+  verifyEmail: {
+    verifying: 'Verifying Your Email...',
+    verifyingText: 'Please wait while we verify your account',
+    success: 'Email Verified!',
+    successText: 'Your email has been successfully verified!',
+    successMessage: 'You can now log in to your account.',
+    redirecting: {
+      one: 'Redirecting to login in {count} second...',
+      other: 'Redirecting to login in {count} seconds...',
+    },
+    goToLoginNow: 'Go to Login Now',
+    error: 'Verification Failed',
+    errorMessage: 'Unable to verify email. Please try again.',
+    invalidLink: 'Invalid verification link.',
+    invalidLinkText: 'Invalid verification link. Please check your email and try again.',
+    expired: 'Link Expired',
+    expiredText: 'Your verification link has expired. Please request a new one.',
+    resend: 'Resend Link',
+  },
+  verifyEmailSent: {
+    subtitle: 'Email verification link sent',
+    text: 'Please check your email inbox and click the verification link to activate your account.',
+    expiry: 'The verification link will expire in 24 hours.',
+    notReceived: "Didn't receive the email?",
+    resend: 'Resend Verification Email',
+    alreadyVerified: 'Already verified?',
+    loginHere: 'Login here',
+    noEmail: 'Email Not Available',
+    noEmailMessage:
+      'Please use the registration page to create a new account if you need a verification email.',
+    resent: 'Verification email sent!',
+    resentMessage: 'Please check your inbox for the verification link.',
+    resendError: 'Failed to Resend',
+    resendErrorMessage: 'Unable to resend verification email. Please try again later.',
+  },
+  rsvpPage: {
+    notFound: 'Invitation Not Found',
+    invalidLink:
+      'This RSVP link is invalid or has expired. Please contact your host for a new invitation.',
+    loadErrorMessage: 'Unable to load your invitation. Please try again.',
+    invited: '{name}, you are invited to',
+    hostedBy: 'Hosted by {name}',
+    attending: "You're attending",
+    attendingWith: {
+      one: "You're attending with {count} guest",
+      other: "You're attending with {count} guests",
+    },
+    declined: "You've declined this invitation",
+    recorded: 'Your response has been recorded',
+    change: 'Change Response',
+    closed: 'This event is no longer accepting responses.',
+    question: 'Will you attend?',
+    accept: 'Accept',
+    decline: 'Decline',
+    partySize: 'How many people, including you?',
+    justMe: 'Just me',
+    people: { one: '{count} person', other: '{count} people' },
+    message: 'Message to the host (optional)',
+    attendingPlaceholder: 'e.g., Looking forward to it!',
+    declinedPlaceholder: 'e.g., Sorry I can’t make it, congratulations!',
+    submit: 'Send Response',
+    sent: 'Response sent',
+    sentAttending: 'We look forward to seeing you!',
+    sentDeclined: 'Thank you for letting us know.',
+    sendError: 'Could not send response',
+    sendErrorMessage: 'Failed to send your response. Please try again.',
+  },
+  pricing: {
+    eyebrow: 'Transparent Pricing',
+    title: 'Simple, Fair Pricing',
+    subtitle: 'Choose the plan that fits your needs. No hidden fees, cancel anytime.',
+    freeEvent: '🎁 First event free for all new users (up to 50 invitations)',
+    monthlyBilling: 'Monthly billing',
+    annualBilling: 'Annual billing',
+    savePercent: 'Save {percent}%',
+    mostPopular: 'Most Popular',
+    fromPerEvent: 'From {price} per event',
+    rates: {
+      eventCreation: 'per event created',
+      whatsappMessage: 'per WhatsApp message',
+      smsMessage: 'per SMS sent',
+      cardDesign: 'Basic templates free',
+    },
+    annualBreakdown: '{monthly}/month billed annually • Save {savings}',
+    saveWithAnnual: 'Save {percent}% with annual billing',
+    limits: '{events} events • {whatsapp} WhatsApp • {sms} SMS per month',
+    custom: 'Custom',
+    contactForPricing: 'Contact us for pricing',
+    contactSales: 'Contact Sales',
+    startFree: 'Start Free',
+    getStarted: 'Get Started',
+    compareTitle: 'Compare Plans',
+    compareSubtitle: 'Choose the perfect plan for your needs',
+    compare: {
+      feature: 'Feature',
+      events: 'Events per month',
+      payPerEvent: 'Pay per event',
+      unlimited: 'Unlimited',
+      whatsapp: 'WhatsApp messages',
+      sms: 'SMS messages',
+      each: '{price} each',
+      branding: 'Custom branding',
+      api: 'API access',
+      support: 'Priority support',
+    },
+    paymentTitle: 'Flexible Payment Options',
+    paymentSubtitle: 'We accept all major payment methods',
+    faqTitle: 'Frequently Asked Questions',
+    faqSubtitle: 'Everything you need to know about our pricing',
+    ctaTitle: 'Ready to Get Started?',
+    ctaText: 'Create your first event for free. No credit card required.',
+    startTrial: 'Start Free Trial',
+    signIn: 'Sign In',
+  },
+  paymentMethods: {
+    mpesa: 'M-Pesa',
+    card: 'Credit/Debit Card',
+    airtel: 'Airtel Money',
+    tigopesa: 'Tigopesa',
+  },
+  pricingFaq: {
+    payg: {
+      question: 'How does Pay As You Go work?',
+      answer:
+        'With Pay As You Go, you only pay for the services you use. Create an event for KES 500, then pay KES 2 per WhatsApp message and KES 3 per SMS. No monthly fees or commitments.',
+    },
+    switching: {
+      question: 'Can I switch plans later?',
+      answer:
+        'Yes! You can upgrade or downgrade your plan at any time. Changes take effect on your next billing cycle. Unused credits from Pay As You Go never expire.',
+    },
+    limits: {
+      question: 'What happens if I exceed my plan limits?',
+      answer:
+        "If you exceed your monthly limits on a subscription plan, you can either upgrade to a higher plan or pay per-use rates for additional messages. We'll notify you before you hit your limits.",
+    },
+    annual: {
+      question: 'Do you offer annual billing?',
+      answer:
+        'Yes. Pay for a year up front and save 15% on the Starter and Professional plans. You receive a single annual invoice, and your message allowances still reset every month.',
+    },
+    setup: {
+      question: 'Are there any setup fees?',
+      answer:
+        'No setup fees! All plans include everything you need to start creating and managing events immediately.',
+    },
+    payment: {
+      question: 'What payment methods do you accept?',
+      answer:
+        'We accept M-Pesa, credit/debit cards, and mobile money from major Kenyan and Tanzanian providers (Airtel Money, Tigopesa).',
+    },
+    trial: {
+      question: 'Is there a free trial?',
+      answer:
+        'Yes! New users get their first event free (up to 50 invitations) to test the platform. No credit card required.',
+    },
+    cancel: {
+      question: 'Can I cancel anytime?',
+      answer:
+        "Absolutely! Cancel your subscription anytime. You'll retain access until the end of your billing period, and there are no cancellation fees.",
+    },
+    rollover: {
+      question: 'Do unused messages roll over?',
+      answer:
+        "Subscription plan messages reset monthly and don't roll over. However, Pay As You Go credits never expire and can be used anytime.",
+    },
+  },
+  home: {
+    hero: {
+      badge: 'Event Management Made Simple',
+      titleStart: 'Create Stunning Event Cards &',
+      titleHighlight: 'Manage RSVPs',
+      titleEnd: 'Effortlessly',
+      description:
+        'Send beautiful digital invitations via WhatsApp & SMS. Track RSVPs in real-time and manage your events all in one powerful, easy-to-use platform.',
+      getStarted: 'Get Started Free',
+      watchDemo: 'Watch Demo',
+      checks: {
+        noCard: 'No credit card required',
+        freePlan: 'Free forever plan',
+        setup: 'Setup in minutes',
+      },
+    },
+    features: {
+      eyebrow: 'Features',
+      titleStart: 'Everything You Need to',
+      titleHighlight: 'Manage Events',
+      description:
+        "From creation to execution, we've got you covered with powerful tools designed to make your event planning seamless.",
+      items: {
+        events: {
+          title: 'Event Management',
+          description:
+            'Create and manage multiple events with an intuitive dashboard. Track everything from one central location.',
+        },
+        messaging: {
+          title: 'WhatsApp & SMS',
+          description:
+            'Send beautiful invitations instantly via WhatsApp and SMS. Reach your guests where they are.',
+        },
+        rsvp: {
+          title: 'RSVP Tracking',
+          description:
+            "Track responses in real-time with detailed analytics. Know exactly who's attending your event.",
+        },
+        cards: {
+          title: 'Custom Cards',
+          description:
+            'Design stunning invitation cards for any occasion. Choose from templates or create your own.',
+        },
+      },
+    },
+    howItWorks: {
+      eyebrow: 'How It Works',
+      titleStart: 'Get Started in',
+      titleHighlight: '4 Simple Steps',
+      description: "From event creation to guest management, we've made it simple and intuitive.",
+      steps: {
+        create: {
+          title: 'Create Event',
+          description: 'Set up your event details in just a few minutes',
+        },
+        design: {
+          title: 'Design Card',
+          description: 'Choose a beautiful template or customize your own',
+        },
+        send: {
+          title: 'Send Invites',
+          description: 'Deliver via WhatsApp & SMS to all your guests',
+        },
+        track: {
+          title: 'Track RSVPs',
+          description: 'Monitor responses and manage your guest list',
+        },
+      },
+    },
+    stats: {
+      events: { label: 'Events Created', description: 'Trusted by organizers worldwide' },
+      satisfaction: { label: 'Satisfaction Rate', description: 'Loved by our community' },
+      support: { label: 'Support Available', description: "We're here when you need us" },
+    },
+    testimonials: {
+      eyebrow: 'Testimonials',
+      titleStart: 'Loved by',
+      titleHighlight: 'Event Organizers',
+      description: 'See what our users are saying about their experience with Ekadi.',
+      items: {
+        sarah: {
+          role: 'Event Planner',
+          content:
+            'Ekadi has transformed how I manage events. The WhatsApp integration is a game-changer, and my clients love the beautiful invitation cards!',
+        },
+        michael: {
+          role: 'Wedding Coordinator',
+          content:
+            "The RSVP tracking feature saves me hours every week. I can see who's responded instantly. I can't imagine planning events without Ekadi.",
+        },
+        emily: {
+          role: 'Corporate Events Manager',
+          content:
+            'Professional, efficient, and beautiful. Ekadi makes event management feel effortless. Our team productivity increased significantly!',
+        },
+      },
+    },
+    roleAt: '{role} at {company}',
+    pricing: {
+      eyebrow: 'Simple Pricing',
+      titleStart: 'Start Free,',
+      titleHighlight: 'Scale When Ready',
+      description:
+        'Everything you need to get started is completely free. Upgrade anytime as your events grow.',
+      startFree: 'Start Free Today',
+      includes: 'Free plan includes:',
+      features: {
+        events: 'Unlimited event creation',
+        messaging: 'WhatsApp & SMS invitations',
+        cards: 'Beautiful card templates',
+        rsvp: 'Real-time RSVP tracking',
+        guests: 'Guest list management',
+        analytics: 'Event analytics dashboard',
+      },
+    },
+    cta: {
+      title: 'Ready to Transform Your Events?',
+      description:
+        'Join thousands of event organizers using Ekadi to create memorable experiences and manage events effortlessly.',
+      button: 'Create Free Account',
+      note: 'No credit card required • Start in minutes',
+    },
+  },
+  errorBoundary: {
+    title: 'Something Went Wrong',
+    message:
+      'We encountered an error while loading the application. Please try reloading the page.',
+    reload: 'Reload Application',
+    details: 'Error Details (Development)',
+  },
+  notificationCategories: {
+    new_rsvp: { label: 'New RSVPs', description: 'When a guest responds to an invitation' },
+    daily_digest: {
+      label: 'Daily digest',
+      description: 'A summary of RSVPs and deliveries from the past day',
+    },
+    low_credit: {
+      label: 'Low credit balance',
+      description: 'When your messaging credit is about to run out',
+    },
+    plan_limit: {
+      label: 'Plan limit warnings',
+      description: 'When you are close to the events or guests your plan allows',
+    },
+    security: {
+      label: 'Security alerts',
+      description: 'Sign-ins from new devices and password changes',
+    },
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
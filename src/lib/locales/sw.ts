@@ -0,0 +1,1914 @@
+/**
+ * Swahili Translations
+ *
+ * Kiswahili version of every message in the English dictionary, with the
+ * same keys and {placeholders}.
+ *
+ * @module locales/sw
+ */
+
+import type { Messages } from './en';
+
+const sw: Messages = {
+  common: {
+    cancel: 'Ghairi',
+    save: 'Hifadhi',
+    saveChanges: 'Hifadhi Mabadiliko',
+    delete: 'Futa',
+    edit: 'Hariri',
+    back: 'Rudi',
+    continue: 'Endelea',
+    close: 'Funga',
+    retry: 'Jaribu Tena',
+    refresh: 'Onyesha upya',
+    search: 'Tafuta',
+    all: 'Zote',
+    showMore: 'Onyesha Zaidi',
+    loadMore: 'Pakia Zaidi',
+    loading: 'Inapakia...',
+    notAvailable: 'Haipo',
+    yes: 'Ndiyo',
+    no: 'Hapana',
+    or: 'au',
+    copyright: '© 2025 Ekadi Platform. Haki zote zimehifadhiwa.',
+    tryAgain: 'Tafadhali jaribu tena.',
+    userTypes: {
+      individual: 'Binafsi',
+      business: 'Biashara',
+    },
+    channel: 'Njia',
+    message: 'Ujumbe',
+    tooFast: 'Tafadhali subiri kidogo',
+    tooFastMessage: 'Unatuma haraka mno. Tafadhali subiri sekunde chache kabla ya kujaribu tena.',
+  },
+  languages: {
+    en: 'English',
+    sw: 'Kiswahili',
+  },
+  errors: {
+    generic: 'Hitilafu imetokea',
+    network: 'Imeshindwa kuunganisha na seva. Tafadhali angalia muunganisho wako wa intaneti.',
+    timeout: 'Ombi limechukua muda mrefu mno. Tafadhali jaribu tena.',
+    noResponse: 'Seva haikujibu. Tafadhali jaribu tena baadaye.',
+    fields: {
+      email: 'Barua pepe',
+      password: 'Nenosiri',
+      password2: 'Thibitisha nenosiri',
+      first_name: 'Jina la kwanza',
+      last_name: 'Jina la mwisho',
+      phone_number: 'Namba ya simu',
+      country_code: 'Msimbo wa nchi',
+      company_name: 'Jina la kampuni',
+      user_type: 'Aina ya akaunti',
+      bio: 'Wasifu',
+      event_name: 'Jina la tukio',
+      event_type: 'Aina ya tukio',
+      event_date: 'Tarehe ya tukio',
+      event_time: 'Saa ya tukio',
+      event_location: 'Mahali',
+      event_description: 'Maelezo',
+      full_name: 'Jina kamili',
+      plus_ones: 'Wageni wa ziada',
+      message: 'Ujumbe',
+      subject: 'Kichwa',
+      name: 'Jina',
+      non_field_errors: 'Hitilafu',
+    },
+  },
+  nav: {
+    dashboard: 'Dashibodi',
+    events: 'Matukio',
+    cards: 'Kadi',
+    templates: 'Violezo',
+    profile: 'Wasifu',
+    settings: 'Mipangilio',
+    billing: 'Malipo',
+    team: 'Timu',
+    credit: 'Salio',
+    logout: 'Toka',
+    menu: 'Menyu',
+    navigation: 'Urambazaji',
+    account: 'Akaunti',
+    workspace: 'Eneo la kazi',
+    personal: 'Binafsi',
+    personalDetail: 'Matukio yako pekee',
+    individualAccount: 'Akaunti Binafsi',
+    businessAccount: 'Akaunti ya Biashara',
+    goToDashboard: 'Nenda kwenye dashibodi',
+    switchWorkspace: 'Badilisha eneo la kazi',
+    viewCreditBalance: 'Angalia salio',
+    openMenu: 'Fungua menyu',
+    closeMenu: 'Funga menyu',
+  },
+  footer: {
+    tagline: 'Tengeneza kadi za matukio za kuvutia na usimamie RSVP kwa urahisi.',
+    company: 'Kampuni',
+    aboutUs: 'Kuhusu Sisi',
+    contact: 'Wasiliana Nasi',
+    careers: 'Ajira',
+    product: 'Bidhaa',
+    features: 'Vipengele',
+    pricing: 'Bei',
+    helpCenter: 'Kituo cha Msaada',
+    resources: 'Rasilimali',
+    faq: 'Maswali Yanayoulizwa Mara kwa Mara',
+    documentation: 'Nyaraka',
+    blog: 'Blogu',
+    legal: 'Kisheria',
+    privacyPolicy: 'Sera ya Faragha',
+    termsOfService: 'Masharti ya Huduma',
+    cookiePolicy: 'Sera ya Vidakuzi',
+    copyright: '© {year} Ekadi Platform. Haki zote zimehifadhiwa.',
+  },
+  publicNav: {
+    features: 'Vipengele',
+    howItWorks: 'Jinsi Inavyofanya Kazi',
+    testimonials: 'Shuhuda',
+    benefits: 'Faida',
+    pricing: 'Bei',
+    login: 'Ingia',
+    getStarted: 'Anza Sasa',
+    getStartedFree: 'Anza Bure',
+    goToHomepage: 'Nenda ukurasa wa mwanzo',
+    switchLanguage: 'Badilisha lugha',
+    newToEkadi: 'Mgeni kwenye Ekadi?',
+    newToEkadiText:
+      'Tengeneza kadi za matukio za kuvutia na usimamie RSVP kwa urahisi. Anza na mpango wetu wa bure leo!',
+  },
+  settings: {
+    title: 'Mipangilio ya Akaunti',
+    accountInformation: 'Taarifa za Akaunti',
+    email: 'Barua pepe',
+    accountType: 'Aina ya Akaunti',
+    editProfile: 'Hariri Wasifu',
+    notifications: 'Arifa',
+    notificationChannels: { email: 'Barua Pepe', sms: 'SMS' },
+    savePreferences: 'Hifadhi Mapendeleo',
+    preferencesLoadError: 'Imeshindwa kupakia mapendeleo ya arifa',
+    preferencesSaved: 'Mapendeleo ya arifa yamehifadhiwa',
+    preferencesSavedMessage: 'Tutakuarifu kulingana na chaguo zako mpya',
+    preferencesSaveError: 'Imeshindwa kuhifadhi mapendeleo ya arifa',
+    language: 'Lugha',
+    interfaceLanguage: 'Lugha ya Kiolesura',
+    languageUpdated: 'Lugha imebadilishwa',
+    languageUpdatedMessage: 'Lugha ya kiolesura imebadilishwa kuwa {language}',
+    languageSaveFailed: 'Imeshindikana kuhifadhi lugha kwenye wasifu wako',
+    security: 'Usalama',
+    password: 'Nenosiri',
+    passwordLastChangedNever: 'Ilibadilishwa mara ya mwisho: Haijawahi',
+    changePassword: 'Badilisha Nenosiri',
+  },
+  eventTypes: {
+    wedding: 'Harusi',
+    send_off: 'Send-off',
+    conference: 'Mkutano',
+    birthday: 'Siku ya Kuzaliwa',
+    corporate: 'Tukio la Kampuni',
+    other: 'Nyingine',
+  },
+  eventStatuses: {
+    draft: { label: 'Rasimu', description: 'Tukio linaandaliwa' },
+    active: { label: 'Hai', description: 'Tukio limechapishwa' },
+    closed: { label: 'Limefungwa', description: 'Tukio limemalizika' },
+  },
+  channels: {
+    sms: { label: 'SMS', description: 'Ujumbe mfupi kwenye simu ya mgeni' },
+    whatsapp: { label: 'WhatsApp', description: 'Ujumbe wa WhatsApp kwenye simu ya mgeni' },
+    email: { label: 'Barua pepe', description: 'Barua pepe kwa wageni wenye anwani ya barua pepe' },
+  },
+  mergeFields: {
+    guest_name: 'Jina la mgeni',
+    event_name: 'Jina la tukio',
+    event_date: 'Tarehe ya tukio',
+    event_time: 'Saa ya tukio',
+    event_location: 'Mahali pa tukio',
+    rsvp_link: 'Kiungo cha RSVP',
+  },
+  invitationStatuses: {
+    queued: { label: 'Kwenye foleni', description: 'Inasubiri kutumwa' },
+    sent: { label: 'Imetumwa', description: 'Imetumwa, bado hakuna ripoti ya kufika' },
+    delivered: { label: 'Imefika', description: 'Imemfikia mgeni' },
+    read: { label: 'Imesomwa', description: 'Imefunguliwa na mgeni' },
+    failed: { label: 'Imeshindikana', description: 'Haikuweza kufikishwa' },
+  },
+  rsvpStatuses: {
+    pending: { label: 'Inasubiri', description: 'Bado hajajibu' },
+    attending: { label: 'Atahudhuria', description: 'Mgeni atahudhuria' },
+    maybe: { label: 'Labda', description: 'Mgeni bado hana uhakika' },
+    declined: { label: 'Amekataa', description: 'Mgeni hatahudhuria' },
+  },
+  roles: {
+    owner: { label: 'Mmiliki', description: 'Ufikiaji kamili, pamoja na malipo na eneo la kazi lenyewe' },
+    admin: { label: 'Msimamizi', description: 'Simamia wenzako na matukio yote' },
+    planner: { label: 'Mpangaji', description: 'Unda na simamia matukio' },
+    viewer: { label: 'Mtazamaji', description: 'Tazama matukio na orodha za wageni' },
+  },
+  permissions: {
+    edit: { label: 'Anaweza kuhariri', description: 'Hariri maelezo ya tukio, simamia wageni na tuma jumbe' },
+    manage_guests: { label: 'Simamia wageni', description: 'Ongeza, ingiza na sasisha wageni' },
+    send: { label: 'Tuma jumbe', description: 'Tuma mialiko na vikumbusho kwa wageni' },
+    view: { label: 'Kutazama tu', description: 'Ona maelezo ya tukio, wageni na RSVP' },
+  },
+  activityActions: {
+    event_created: 'Tukio limeundwa',
+    event_updated: 'Tukio limehaririwa',
+    event_closed: 'Tukio limefungwa',
+    event_reopened: 'Tukio limefunguliwa tena',
+    event_deleted: 'Tukio limefutwa',
+    invitations_sent: 'Mialiko imetumwa',
+    rsvp_received: 'RSVP imepokelewa',
+  },
+  activityTime: {
+    justNow: 'Sasa hivi',
+    minutesAgo: 'Dakika {count} zilizopita',
+    hoursAgo: { one: 'Saa {count} iliyopita', other: 'Saa {count} zilizopita' },
+    yesterday: 'Jana',
+  },
+  subscriptionStatuses: {
+    active: 'Hai',
+    trialing: 'Majaribio',
+    past_due: 'Malipo Yamechelewa',
+    cancelled: 'Imesitishwa',
+  },
+  invoiceStatuses: {
+    paid: 'Imelipwa',
+    open: 'Haijalipwa',
+    failed: 'Imeshindikana',
+    void: 'Imebatilishwa',
+  },
+  walletTransactions: {
+    topup: 'Kuongeza salio',
+    deduction: 'Jumbe',
+    refund: 'Marejesho',
+  },
+  automationTriggers: {
+    rsvp_reminder: { label: 'Kikumbusho cha RSVP', description: 'Wageni walioalikwa ambao bado hawajajibu' },
+    day_before_reminder: { label: 'Kikumbusho cha siku moja kabla', description: 'Wageni waliothibitisha kuhudhuria' },
+    thank_you: { label: 'Ujumbe wa shukrani', description: 'Wageni waliohudhuria' },
+  },
+  ruleTiming: {
+    eventDay: 'Siku ya tukio',
+    before: { one: 'Siku {count} kabla ya tukio', other: 'Siku {count} kabla ya tukio' },
+    after: { one: 'Siku {count} baada ya tukio', other: 'Siku {count} baada ya tukio' },
+  },
+  revisionFields: {
+    event_type: 'Aina ya tukio',
+    event_name: 'Jina',
+    event_location: 'Mahali',
+    event_date: 'Tarehe',
+    event_time: 'Saa',
+    event_description: 'Maelezo',
+    status: 'Hali',
+    empty: 'Tupu',
+  },
+  activity: {
+    title: 'Shughuli za Hivi Karibuni',
+    empty: 'Bado hakuna shughuli.',
+    loadError: 'Hitilafu katika kupakia shughuli',
+    loadErrorMessage: 'Imeshindikana kupakia shughuli za hivi karibuni. Tafadhali jaribu tena.',
+  },
+  eventCard: {
+    upcoming: 'Linakuja',
+    past: 'Limepita',
+    active: 'Hai',
+    by: 'Na {name}',
+  },
+  eventHistory: {
+    title: 'Historia ya Mabadiliko',
+    subtitle: 'Kila mabadiliko ya tukio hili, ya karibuni kwanza.',
+    reopenToRestore: 'Fungua tukio tena ili kurejesha thamani za awali.',
+    empty: 'Tukio hili halijahaririwa tangu lilipoundwa.',
+    revision: 'Toleo {number}',
+    latest: 'La karibuni',
+    restoredFrom: 'Limerejeshwa kutoka toleo {number}',
+    restorePrevious: 'Rejesha Thamani za Awali',
+    restore: 'Rejesha',
+    confirmTitle: 'Rejesha thamani za awali?',
+    confirmMessage: 'Hii inarudisha {changes}. Urejeshaji huhifadhiwa kama toleo jipya.',
+    dateChangeWarning:
+      'Tarehe au saa itabadilika. Wageni ambao tayari wamepokea mwaliko hawaarifiwi moja kwa moja, hivyo fikiria kuwatumia taarifa.',
+    loadError: 'Hitilafu katika kupakia historia',
+    loadErrorMessage: 'Imeshindikana kupakia historia ya mabadiliko. Tafadhali jaribu tena.',
+    restored: 'Mabadiliko yamerejeshwa',
+    restoredMessage: 'Thamani za kabla ya toleo {number} zimerudi.',
+    restoreError: 'Hitilafu katika kurejesha mabadiliko',
+    restoreErrorMessage: 'Imeshindikana kurejesha thamani za awali. Tafadhali jaribu tena.',
+  },
+  validation: {
+    emailRequired: 'Barua pepe inahitajika',
+    emailInvalid: 'Tafadhali weka anwani sahihi ya barua pepe',
+    messageRequired: 'Ujumbe unahitajika',
+    messageMax: 'Ujumbe usizidi herufi {max}',
+    subjectRequired: 'Kichwa cha barua pepe kinahitajika',
+    timeRequired: 'Saa inahitajika',
+    phoneRequired: 'Nambari ya simu inahitajika',
+    phoneDigits: 'Nambari ya simu iwe na tarakimu (na nafasi) pekee',
+    phoneMin: 'Nambari ya simu iwe na angalau tarakimu 4',
+    phoneMax: 'Nambari ya simu isizidi herufi 20',
+    phoneInvalid: 'Weka nambari sahihi ya simu',
+    countryCodeRequired: 'Msimbo wa nchi unahitajika',
+    countryCodeUnsupported: 'Msimbo wa nchi hautumiki',
+    firstNameRequired: 'Jina la kwanza linahitajika',
+    firstNameMin: 'Jina la kwanza lazima liwe na angalau herufi 2',
+    lastNameRequired: 'Jina la mwisho linahitajika',
+    lastNameMin: 'Jina la mwisho lazima liwe na angalau herufi 2',
+    companyNameRequired: 'Jina la kampuni linahitajika kwa akaunti za biashara',
+    passwordRequired: 'Nenosiri linahitajika',
+    passwordMin: 'Nenosiri lazima liwe na angalau herufi 8',
+    passwordUppercase: 'Nenosiri lazima liwe na angalau herufi kubwa moja',
+    passwordLowercase: 'Nenosiri lazima liwe na angalau herufi ndogo moja',
+    passwordNumber: 'Nenosiri lazima liwe na angalau tarakimu moja',
+    passwordConfirm: 'Tafadhali thibitisha nenosiri lako',
+    passwordsMismatch: 'Manenosiri hayalingani',
+  },
+  collaborators: {
+    title: 'Watu Wenye Ufikiaji',
+    addCohost: 'Ongeza Mwenyeji Mwenza',
+    emailLabel: 'Anwani ya barua pepe',
+    emailPlaceholder: 'mfano, mwenyeji@example.com',
+    permission: 'Ruhusa',
+    shareEvent: 'Shiriki Tukio',
+    organizer: 'Mwandaaji',
+    workspaceMembers: 'Wanachama wa eneo la kazi, kulingana na nafasi zao',
+    invitationPending: 'Mwaliko unasubiri',
+    permissionFor: 'Ruhusa ya {name}',
+    revokeFor: 'Ondoa ufikiaji wa {name}',
+    emptyHint:
+      'Unapanga na mtu mwingine? Mwongeze kama mwenyeji mwenza ili kushiriki tukio hili bila kushiriki akaunti yako.',
+    revokeTitle: 'Ondoa ufikiaji?',
+    revokeMessage:
+      '{name} hataweza tena kufungua {event}. Wageni na jumbe alizoongeza zinabaki kwenye tukio.',
+    revokeAccess: 'Ondoa Ufikiaji',
+    loadError: 'Hitilafu katika kupakia wenyeji wenza',
+    loadErrorMessage: 'Imeshindikana kupakia walio na ufikiaji. Tafadhali jaribu tena.',
+    shared: 'Tukio limeshirikiwa',
+    sharedPending: 'Tumemtumia {email} mwaliko wa kujisajili na kuwa mwenyeji mwenza.',
+    sharedActive: '{name} sasa ana ruhusa: {permission}.',
+    shareError: 'Hitilafu katika kushiriki tukio',
+    shareErrorMessage: 'Imeshindikana kushiriki tukio. Tafadhali jaribu tena.',
+    permissionUpdated: 'Ruhusa imesasishwa',
+    permissionError: 'Hitilafu katika kusasisha ruhusa',
+    permissionErrorMessage: 'Imeshindikana kubadilisha ruhusa. Tafadhali jaribu tena.',
+    revoked: 'Ufikiaji umeondolewa',
+    revokedMessage: '{name} hana tena ufikiaji wa {event}.',
+    revokeError: 'Hitilafu katika kuondoa ufikiaji',
+    revokeErrorMessage: 'Imeshindikana kuondoa ufikiaji. Tafadhali jaribu tena.',
+  },
+  automations: {
+    title: 'Jumbe za Kiotomatiki',
+    subtitle: 'Vikumbusho na jumbe za shukrani zinazotumwa kwa niaba yako, kwa wanaolingana wakati zinapotumwa.',
+    add: 'Ongeza Ujumbe wa Kiotomatiki',
+    send: 'Tuma',
+    daysBefore: 'Siku kabla ya tukio',
+    daysAfter: 'Siku baada ya tukio',
+    at: 'Saa',
+    emailSubject: 'Kichwa cha barua pepe',
+    mergeFieldsHelp: 'Sehemu kama {guestName} na {rsvpLink} hujazwa kwa kila mgeni.',
+    enterDays: 'Weka idadi ya siku.',
+    formPreview: {
+      one: '{timing}, ujumbe huu ungemfikia mgeni {count} sasa hivi.',
+      other: '{timing}, ujumbe huu ungewafikia wageni {count} sasa hivi.',
+    },
+    emptyCanSend:
+      'Bado hakuna jumbe za kiotomatiki. Ongeza kikumbusho cha RSVP kufuatilia wageni ambao hawajajibu, bila kukituma mwenyewe.',
+    empty: 'Hakuna jumbe za kiotomatiki zilizowekwa kwa tukio hili.',
+    pausedBadge: 'Imesimamishwa',
+    timingAt: '{timing} saa {time}',
+    next: 'Inayofuata: {time}',
+    nothingLeft: 'Hakuna kilichobaki kutuma',
+    sentCount: '{count} zimetumwa',
+    resume: 'Endelea',
+    pause: 'Simamisha',
+    deleteLabel: 'Futa {name}',
+    wouldGoTo: {
+      one: 'Ungemfikia mgeni {count} sasa hivi',
+      other: 'Ungewafikia wageni {count} sasa hivi',
+    },
+    hide: 'Ficha',
+    show: 'Onyesha',
+    andMore: 'na wengine {count}',
+    scheduledInvitations: 'Mialiko iliyopangwa',
+    scopeAll: 'Wageni wote',
+    scopeNotInvited: 'Wageni ambao bado hawajaalikwa',
+    scopeSelected: { one: 'Mgeni {count} aliyechaguliwa', other: 'Wageni {count} waliochaguliwa' },
+    by: 'na {name}',
+    cancelSendLabel: 'Ghairi utumaji wa {time}',
+    deleteTitle: 'Futa ujumbe wa kiotomatiki?',
+    deleteMessage: '{name} kitaacha kutumwa. Ili kukisimamisha kwa muda tu, kisimamishe badala yake.',
+    daysNumber: 'Siku lazima ziwe namba',
+    daysWhole: 'Siku lazima ziwe namba kamili',
+    daysNegative: 'Siku haziwezi kuwa hasi',
+    daysMax: 'Siku zisizidi {max}',
+    loadError: 'Hitilafu katika kupakia jumbe za kiotomatiki',
+    loadErrorMessage: 'Imeshindikana kupakia vikumbusho na utumaji uliopangwa.',
+    added: 'Ujumbe wa kiotomatiki umeongezwa',
+    addError: 'Hitilafu katika kuongeza ujumbe wa kiotomatiki',
+    addErrorMessage: 'Imeshindikana kuongeza ujumbe wa kiotomatiki. Tafadhali jaribu tena.',
+    paused: 'Ujumbe wa kiotomatiki umesimamishwa',
+    resumed: 'Ujumbe wa kiotomatiki umeendelezwa',
+    pausedMessage: 'Hakuna jumbe zitakazotumwa hadi utakapouendeleza.',
+    nextSendMessage: 'Utumaji unaofuata: {time}.',
+    nothingLeftMessage: 'Hakuna utumaji uliobaki kwa tukio hili.',
+    updateError: 'Hitilafu katika kusasisha ujumbe wa kiotomatiki',
+    updateErrorMessage: 'Imeshindikana kusasisha ujumbe wa kiotomatiki. Tafadhali jaribu tena.',
+    deleted: 'Ujumbe wa kiotomatiki umefutwa',
+    deleteError: 'Hitilafu katika kufuta ujumbe wa kiotomatiki',
+    deleteErrorMessage: 'Imeshindikana kufuta ujumbe wa kiotomatiki. Tafadhali jaribu tena.',
+    sendCancelled: 'Utumaji uliopangwa umeghairiwa',
+    sendCancelledMessage: 'Ulipangwa {time}.',
+    cancelError: 'Hitilafu katika kughairi utumaji',
+    cancelErrorMessage: 'Imeshindikana kughairi utumaji uliopangwa. Tafadhali jaribu tena.',
+  },
+  deliveryLog: {
+    title: 'Ufikishaji',
+    refresh: 'Onyesha upya hali ya ufikishaji',
+    retryFailed: 'Jaribu Tena Zilizoshindikana ({count})',
+    empty: 'Ripoti za ufikishaji zitaonekana hapa mialiko ikishatumwa.',
+    delivered: 'Zimefika',
+    ofTotal: '{count} kati ya {total}',
+    read: 'Zimesomwa',
+    opened: '{count} zimefunguliwa',
+    inProgress: 'Zinaendelea',
+    awaitingReport: 'Zinasubiri ripoti ya ufikishaji',
+    failed: 'Zimeshindikana',
+    ofMessages: '{rate}% ya jumbe',
+    noMatches: 'Hakuna jumbe zenye hali hii.',
+    retried: 'Imejaribiwa tena',
+    retryTitle: 'Jaribu tena jumbe zilizoshindikana?',
+    retryMessage: {
+      one: 'Ujumbe {count} umeshindikana. Tuma tena ujumbe uleule, kwa njia ileile au nyingine.',
+      other: 'Jumbe {count} zimeshindikana. Tuma tena ujumbe uleule, kwa njia ileile au nyingine.',
+    },
+    retryChannel: 'Njia ya kujaribu tena',
+    sameChannel: 'Njia ileile kama awali',
+    emailSkipNote: 'Wageni wasio na anwani ya barua pepe wataachwa.',
+    creditNote: 'Jumbe za SMS na WhatsApp zinazozidi kiwango cha mpango wako hulipwa kutoka kwenye salio.',
+    thatChannel: 'njia hiyo',
+    loadError: 'Hitilafu katika kupakia hali ya ufikishaji',
+    loadErrorMessage: 'Imeshindikana kupakia kumbukumbu ya ufikishaji. Tafadhali jaribu tena.',
+    retryQueued: 'Kujaribu tena kumepangwa',
+    retryQueuedMessage: {
+      one: 'Ujumbe {count} utatumwa tena.',
+      other: 'Jumbe {count} zitatumwa tena.',
+    },
+    retrySkipped: {
+      one: 'Mgeni {count} hawezi kufikiwa kupitia {channel}.',
+      other: 'Wageni {count} hawawezi kufikiwa kupitia {channel}.',
+    },
+    retryError: 'Hitilafu katika kujaribu tena jumbe',
+    retryErrorMessage: 'Imeshindikana kujaribu tena jumbe zilizoshindikana. Tafadhali jaribu tena.',
+  },
+  smsSegments: {
+    summary: 'Herufi {length} · SMS {segments} kwa kila mgeni',
+    split:
+      'Ujumbe huu umegawanywa katika SMS {segments} na kila moja inalipiwa. Ufupishe kwa herufi {over} ili kutuma SMS moja.',
+    nearLimit:
+      'Zimebaki herufi {remaining} tu katika SMS hii, hivyo wageni wenye majina marefu wanaweza kupata SMS moja zaidi.',
+    unicode:
+      'Emoji na baadhi ya herufi maalum hubadilisha SMS kuwa Unicode, ambayo inabeba herufi {unicode} badala ya {gsm}.',
+  },
+  templateEditor: {
+    newTitle: 'Kiolezo Kipya',
+    editTitle: 'Hariri Kiolezo',
+    name: 'Jina la Kiolezo',
+    namePlaceholder: 'mfano, Mwaliko wa harusi – rasmi',
+    eventType: 'Aina ya Tukio',
+    optional: 'si lazima',
+    emailSubject: 'Kichwa cha Barua Pepe',
+    insertMergeField: 'Weka sehemu ya kujazwa',
+    preview: 'Onyesho',
+    previewEvent: 'Tukio la onyesho',
+    startTyping: 'Anza kuandika ili kuona onyesho.',
+    previewNote:
+      'Imeonyeshwa kwa {guest} kwenye {event}. Kila mgeni hupokea jina lake na kiungo chake cha RSVP.',
+    noEvents: 'Unda tukio ili kuona violezo pamoja na maelezo halisi ya tukio.',
+    saveTemplate: 'Hifadhi Kiolezo',
+    nameMin: 'Jina liwe na angalau herufi {min}',
+    nameMax: 'Jina lisizidi herufi {max}',
+    englishRequired: 'Ujumbe wa Kiingereza unahitajika',
+    saved: 'Kiolezo kimehifadhiwa',
+    updated: 'Kiolezo kimesasishwa',
+    saveError: 'Hitilafu katika kuhifadhi kiolezo',
+    saveErrorMessage: 'Imeshindikana kuhifadhi kiolezo. Tafadhali jaribu tena.',
+  },
+  eventQuota: {
+    payg: 'Uko kwenye Lipa Unavyotumia: kila tukio linagharimu {fee}.',
+    unlimited: 'Mpango wako wa {plan} unajumuisha matukio bila kikomo.',
+    exhausted: 'Umetumia matukio yote {count} ya mpango wako wa {plan}',
+    remaining: {
+      one: 'Limebaki tukio {remaining} kati ya {count} mwezi huu',
+      other: 'Yamebaki matukio {remaining} kati ya {count} mwezi huu',
+    },
+    resetsOn: 'Kiwango chako cha matukio kitaanza upya tarehe {date}.',
+    upgradePlan: 'Pandisha Mpango',
+  },
+  upgradePlan: {
+    title: 'Umefikia kikomo chako cha matukio',
+    message: {
+      one: 'Mpango wako wa {plan} unajumuisha tukio {count} kwa mwezi na umelitumia. Kiwango chako kitaanza upya tarehe {date}.',
+      other:
+        'Mpango wako wa {plan} unajumuisha matukio {count} kwa mwezi na umeyatumia yote. Kiwango chako kitaanza upya tarehe {date}.',
+    },
+    upToEvents: 'Hadi matukio {count} kwa mwezi',
+    unlimitedEvents: 'Matukio bila kikomo',
+    perMonth: 'kwa {price}/mwezi',
+    customPricing: 'kwa bei maalum',
+    notNow: 'Si sasa',
+    upgradeTo: 'Pandisha hadi {plan}',
+    contactSales: 'Wasiliana na Mauzo',
+  },
+  costCalculator: {
+    title: 'Kadiria Gharama Zako',
+    subtitle: 'Tueleze kuhusu mwezi wa kawaida na ulinganishe gharama ya kila mpango',
+    eventsPerMonth: 'Matukio kwa mwezi',
+    channelInvitations: 'Mialiko ya {channel}',
+    bestValue: 'Thamani bora',
+    custom: 'Maalum',
+    customNote: 'Matukio na jumbe bila kikomo. Wasiliana nasi kwa bei.',
+    perMonth: '/mwezi',
+    events: { one: 'Tukio {count}', other: 'Matukio {count}' },
+    plan: 'Mpango',
+    included: 'imejumuishwa',
+    includesUpTo: 'Inajumuisha hadi matukio {count} kwa mwezi',
+    footnote:
+      'Mialiko ya barua pepe ni bure kwenye kila mpango. Jumbe zinazozidi kiwango cha mpango hutozwa kwa viwango vya Lipa Unavyotumia.',
+  },
+  mpesaCheckout: {
+    title: 'Lipa kwa M-Pesa',
+    close: 'Funga malipo',
+    plan: 'Mpango',
+    subscriptionMonthly: 'Usajili wa {plan}, hutozwa kila mwezi',
+    subscriptionAnnual: 'Usajili wa {plan}, hutozwa kila mwaka',
+    topupCredit: 'Salio la Lipa Unavyotumia',
+    amount: 'Kiasi (KES)',
+    amountRange: 'Weka kiasi kati ya {min} na {max}',
+    phoneLabel: 'Nambari ya simu ya M-Pesa',
+    phoneHelper: 'Utapokea ombi la malipo kwenye simu hii.',
+    startFailed: 'Imeshindwa kuanzisha malipo ya M-Pesa. Tafadhali jaribu tena.',
+    pay: 'Lipa {amount}',
+    checkPhone: 'Angalia simu yako',
+    enterPin: 'Weka PIN yako ya M-Pesa kwenye {phone} ili kulipa {amount}.',
+    expiresIn: 'Ombi linaisha baada ya {time}',
+    receipt: 'Risiti ya M-Pesa: {receipt}',
+    tryAgain: 'Jaribu Tena',
+    done: 'Imekamilika',
+  },
+  paymentOutcomes: {
+    pending: {
+      title: 'Tunasubiri malipo',
+      description: 'Angalia simu yako na uweke PIN yako ya M-Pesa ili kukamilisha malipo.',
+    },
+    success: {
+      title: 'Malipo yamepokelewa',
+      description: 'Asante! Malipo yako yamefanikiwa.',
+    },
+    cancelled: {
+      title: 'Malipo yameghairiwa',
+      description: 'Malipo yameghairiwa kwenye simu yako. Hakuna pesa iliyokatwa.',
+    },
+    insufficient_funds: {
+      title: 'Salio halitoshi',
+      description: 'Salio lako la M-Pesa ni dogo mno kwa malipo haya. Ongeza salio la M-Pesa kisha ujaribu tena.',
+    },
+    timeout: {
+      title: 'Muda wa malipo umeisha',
+      description: 'Hatukupokea jibu kutoka kwa simu yako kwa wakati. Hakuna pesa iliyokatwa.',
+    },
+    failed: {
+      title: 'Malipo hayakufaulu',
+      description: 'M-Pesa imeshindwa kukamilisha malipo. Tafadhali jaribu tena.',
+    },
+  },
+  guestImport: {
+    title: 'Ingiza Wageni',
+    close: 'Funga kiingizaji',
+    stepUpload: 'Hatua 1 kati ya 3 • Pakia jedwali',
+    stepMapping: 'Hatua 2 kati ya 3 • Linganisha safu kutoka {file}',
+    stepPreview: 'Hatua 3 kati ya 3 • Kagua na uingize',
+    complete: 'Uingizaji umekamilika',
+    reading: 'Inasoma faili...',
+    chooseFile: 'Chagua faili ya CSV au Excel (.xlsx)',
+    headersHint: 'Mstari wa kwanza lazima uwe na vichwa vya safu kama Jina, Simu, Barua pepe',
+    readFailed: 'Imeshindwa kusoma faili',
+    readFailedHint: 'Tafadhali kagua faili kisha ujaribu tena.',
+    rowsFound: {
+      one: 'Mstari {count} umepatikana. Linganisha kila sehemu ya mgeni na safu kwenye faili yako.',
+      other:
+        'Mistari {count} imepatikana. Linganisha kila sehemu ya mgeni na safu kwenye faili yako.',
+    },
+    fields: {
+      full_name: 'Jina Kamili',
+      phone_number: 'Nambari ya Simu',
+      email: 'Barua pepe',
+      plus_ones: 'Wageni wa ziada',
+      notes: 'Maelezo',
+    },
+    notInFile: '— Haipo kwenye faili —',
+    column: 'Safu {number}',
+    defaultCountry: 'Nchi ya Msingi',
+    defaultCountryHelper: 'Hutumika kwa nambari zisizo na msimbo wa nchi, mf. 0712 345 678',
+    pleaseMap: 'Tafadhali linganisha: {fields}',
+    chooseAnother: 'Chagua faili nyingine',
+    preview: 'Hakiki',
+    readyCount: '{count} tayari kuingizwa',
+    errorCount: '{count} zenye makosa',
+    duplicateCount: '{count} zilizorudiwa zimerukwa',
+    showAll: 'Onyesha mistari yote',
+    showProblems: 'Onyesha matatizo pekee',
+    columns: {
+      row: 'Mstari',
+      name: 'Jina',
+      phone: 'Simu',
+      status: 'Hali',
+    },
+    duplicateExisting: 'Tayari yupo kwenye orodha ya wageni',
+    duplicateRow: 'Imerudiwa kutoka mstari wa awali',
+    ready: 'Tayari',
+    progress: 'Imeingiza {done} kati ya {total}...',
+    backToMapping: 'Rudi kwenye ulinganishaji',
+    importButton: { one: 'Ingiza Mgeni {count}', other: 'Ingiza Wageni {count}' },
+    doneTitle: { one: 'Mgeni {count} ameingizwa', other: 'Wageni {count} wameingizwa' },
+    skipped: {
+      one: 'Mstari {count} umerukwa. Urekebishe kwenye faili yako na uingize tena, au uongeze mwenyewe.',
+      other:
+        'Mistari {count} imerukwa. Irekebishe kwenye faili yako na uingize tena, au uiongeze mwenyewe.',
+    },
+    done: 'Imekamilika',
+    imported: 'Wageni wameingizwa',
+    importedCount: { one: 'Mgeni {count} ameongezwa.', other: 'Wageni {count} wameongezwa.' },
+    stopped: 'Uingizaji umesimama',
+    stoppedCount: {
+      one: 'Mgeni {count} aliongezwa kabla ya hitilafu: {error}',
+      other: 'Wageni {count} waliongezwa kabla ya hitilafu: {error}',
+    },
+    errors: {
+      unsupportedFile: 'Aina ya faili haitumiki. Tafadhali pakia faili ya .csv au .xlsx.',
+      emptyFile: 'Faili haina kitu. Hakikisha mstari wa kwanza una vichwa vya safu.',
+      nameMissing: 'Jina halipo au ni fupi mno',
+      phoneMissing: 'Nambari ya simu haipo',
+      phoneInvalid: 'Nambari ya simu si sahihi "{phone}" (zinazotumika: {codes})',
+      emailInvalid: 'Barua pepe si sahihi "{email}"',
+      plusOnesInvalid: 'Idadi ya wageni wa ziada si sahihi "{value}"',
+    },
+  },
+  checkInPass: {
+    title: 'Pasi Yako ya Kuingia',
+    hint: 'Onyesha msimbo huu mlangoni ili kuingia.',
+    alt: 'Msimbo wa kuingia wa {name}',
+  },
+  qrScanner: {
+    off: 'Kamera imezimwa',
+    unsupported: 'Kivinjari hiki hakiwezi kutumia kamera. Tumia utafutaji wa jina badala yake.',
+    denied: 'Ruhusa ya kamera imekataliwa. Ruhusu kamera au tumia utafutaji wa jina badala yake.',
+  },
+  cardExport: {
+    title: 'Hamisha Kadi',
+    subtitle: 'Inachorwa kwa DPI 300 kwenye kivinjari chako',
+    close: 'Funga dirisha la kuhamisha',
+    size: 'Ukubwa',
+    format: 'Muundo',
+    formats: {
+      pdf: 'Tayari kuchapishwa, kwa ukubwa wa ukurasa',
+      png: 'Picha ya ubora wa juu kwa kushiriki',
+    },
+    bleed: 'Ongeza nafasi ya ziada ya mm {mm} kwa uchapishaji wa kitaalamu',
+    download: 'Pakua Kadi',
+    batchTitle: 'Kadi maalum kwa kila mgeni',
+    batchHint: 'Kadi moja kwa kila mgeni yenye jina lake, inapakuliwa kama faili ya ZIP.',
+    batchNeedsName: 'Ongeza kisanduku cha maandishi cha "Jina la mgeni" kwenye muundo wako ili kuweka jina kwenye kila kadi.',
+    progress: 'Imechora {done} kati ya {total}...',
+    downloadBatch: { one: 'Pakua kwa Mgeni {count}', other: 'Pakua kwa Wageni {count}' },
+    zipName: 'kadi za wageni {event}',
+    ready: 'Kadi ziko tayari',
+    readyCount: {
+      one: 'Kadi maalum {count} imepakuliwa.',
+      other: 'Kadi maalum {count} zimepakuliwa.',
+    },
+    failed: 'Kuhamisha kumeshindwa',
+    cardFailed: 'Imeshindwa kuhamisha kadi. Tafadhali jaribu tena.',
+    batchFailed: 'Imeshindwa kuhamisha kadi za wageni. Tafadhali jaribu tena.',
+    errors: {
+      backgroundFailed: 'Imeshindwa kupakia picha ya mandharinyuma ya kadi.',
+      unsupported: 'Kivinjari chako hakiwezi kuchora kadi.',
+      exportFailed: 'Imeshindwa kuhamisha kadi.',
+    },
+  },
+  errorPages: {
+    goHome: 'Nenda Ukurasa wa Mwanzo',
+    goBack: 'Rudi Nyuma',
+    notFound: {
+      title: 'Ukurasa Haukupatikana',
+      message: 'Samahani! Ukurasa unaoutafuta haupo. Huenda umehamishwa au kufutwa.',
+    },
+    unauthorized: {
+      title: 'Ufikiaji Umekataliwa',
+      message: 'Huna ruhusa ya kufikia ukurasa huu.',
+      help: 'Ikiwa unaamini hili ni kosa, tafadhali wasiliana na msaada au jaribu kuingia tena.',
+    },
+  },
+  team: {
+    title: 'Timu',
+    subtitle: 'Kila mtu kwenye eneo la kazi hushiriki matukio yake. Majukumu huamua kile kila mwenzako anaweza kubadilisha.',
+    selectWorkspace: 'Chagua eneo la kazi',
+    chooseWorkspace: 'Chagua eneo la kazi',
+    personalTitle: 'Unafanya kazi kwenye nafasi yako binafsi',
+    personalText: 'Badilisha hadi mojawapo ya maeneo yako ya kazi ili kuona wanachama wake na kualika wenzako.',
+    createTitle: 'Unda eneo la kazi la timu yako',
+    createText:
+      'Panga matukio pamoja na wenzako. Utakuwa mmiliki na unaweza kualika wenzako kama wasimamizi, wapangaji au watazamaji.',
+    workspacesTitle: 'Maeneo ya kazi ya timu',
+    workspacesText:
+      'Maeneo ya kazi huruhusu biashara kushiriki matukio ndani ya timu. Badilisha hadi akaunti ya biashara ili kuunda moja, au fungua kiungo kwenye barua pepe ya mwaliko wa mwenzako ili ujiunge na lake.',
+    workspaceName: 'Jina la eneo la kazi',
+    workspaceNamePlaceholder: 'mf., Tukio Events Ltd',
+    createWorkspace: 'Unda Eneo la Kazi',
+    editProfile: 'Hariri Wasifu',
+    youAre: 'Wewe ni {role}',
+    columns: {
+      member: 'Mwanachama',
+      role: 'Jukumu',
+      joined: 'Alijiunga',
+    },
+    you: '(wewe)',
+    roleFor: 'Jukumu la {name}',
+    remove: 'Ondoa',
+    inviteTitle: 'Alika Mwenzako',
+    email: 'Barua pepe',
+    sendInvitation: 'Tuma Mwaliko',
+    roles: 'Majukumu',
+    pendingInvitations: 'Mialiko Inayosubiri',
+    invitedBy: 'Amealikwa na {name} tarehe {date} · inaisha {expires}',
+    removeTitle: 'Ondoa {name}?',
+    removeText:
+      'Atapoteza ufikiaji wa {workspace} na matukio yake. Matukio aliyounda yatabaki kwenye eneo la kazi.',
+    loadError: 'Hitilafu ya kupakia wanachama',
+    loadErrorMessage: 'Imeshindwa kupakia wanachama wa eneo la kazi. Tafadhali jaribu tena.',
+    created: 'Eneo la kazi limeundwa',
+    createdMessage: 'Alika wenzako kwenye {name}.',
+    createError: 'Hitilafu ya kuunda eneo la kazi',
+    createErrorMessage: 'Imeshindwa kuunda eneo la kazi. Tafadhali jaribu tena.',
+    inviteSent: 'Mwaliko umetumwa',
+    inviteSentMessage: 'Tumetuma mwaliko kwa barua pepe kwa {email}.',
+    inviteError: 'Hitilafu ya kutuma mwaliko',
+    inviteErrorMessage: 'Imeshindwa kutuma mwaliko. Tafadhali jaribu tena.',
+    roleUpdated: 'Jukumu limesasishwa',
+    roleUpdatedMessage: '{name} sasa ni {role}.',
+    roleError: 'Hitilafu ya kusasisha jukumu',
+    roleErrorMessage: 'Imeshindwa kubadilisha jukumu. Tafadhali jaribu tena.',
+    removed: 'Mwanachama ameondolewa',
+    removedMessage: '{name} hana tena ufikiaji wa {workspace}.',
+    removeError: 'Hitilafu ya kuondoa mwanachama',
+    removeErrorMessage: 'Imeshindwa kuondoa mwanachama. Tafadhali jaribu tena.',
+    inviteCancelled: 'Mwaliko umeghairiwa',
+    inviteCancelledMessage: '{email} hawezi tena kujiunga.',
+    cancelError: 'Hitilafu ya kughairi mwaliko',
+    cancelErrorMessage: 'Imeshindwa kughairi mwaliko. Tafadhali jaribu tena.',
+    join: {
+      joining: 'Inajiunga na eneo la kazi…',
+      welcome: 'Karibu {name}',
+      joinedAs: 'Umejiunga kama {role}. {description}.',
+      viewEvents: 'Tazama Matukio',
+      viewTeam: 'Tazama Timu',
+      failed: 'Imeshindwa kujiunga na eneo la kazi',
+      invalid: 'Mwaliko huu si halali tena. Muombe mwenzako akutumie mwingine.',
+      goToDashboard: 'Nenda kwenye Dashibodi',
+    },
+  },
+  cards: {
+    title: 'Kadi za Mwaliko',
+    designedCount: {
+      one: 'Tukio {designed} kati ya {count} limesanifiwa',
+      other: 'Matukio {designed} kati ya {count} yamesanifiwa',
+    },
+    designCard: 'Sanifu Kadi',
+    editDesign: 'Hariri Muundo',
+    emptyTitle: 'Bado Hakuna Matukio',
+    emptyText: 'Unda tukio kwanza, kisha usanifu kadi yake ya mwaliko.',
+    createEvent: 'Unda Tukio',
+    designed: 'Imesanifiwa',
+    notDesigned: 'Haijasanifiwa',
+    loadError: 'Hitilafu ya kupakia kadi',
+    loadErrorMessage: 'Imeshindwa kupakia kadi zako. Tafadhali jaribu tena.',
+  },
+  cardDesigner: {
+    title: 'Msanifu wa Kadi',
+    backToCards: 'Rudi kwenye Kadi',
+    event: 'Tukio',
+    selectEvent: 'Chagua tukio...',
+    export: 'Hamisha',
+    save: 'Hifadhi Muundo',
+    noEvents: 'Unda tukio kwanza, kisha urudi kusanifu kadi yake ya mwaliko.',
+    noEventSelected: 'Chagua tukio hapo juu ili kusanifu kadi yake ya mwaliko.',
+    clickToEdit: 'Bofya kisanduku cha maandishi ili kukihariri',
+    template: 'Kiolezo',
+    templateHint: 'Kuchagua kiolezo hubadilisha rangi na visanduku vya maandishi vilivyopo.',
+    colorsAndBackground: 'Rangi na Mandharinyuma',
+    backgroundColor: 'Rangi ya Mandharinyuma',
+    accentColor: 'Rangi ya Msisitizo',
+    border: 'Mpaka',
+    borders: {
+      none: 'Hakuna',
+      solid: 'Mstari mmoja',
+      double: 'Mistari miwili',
+    },
+    backgroundImage: 'Picha ya Mandharinyuma',
+    uploadImage: 'Pakia Picha',
+    replaceImage: 'Badilisha Picha',
+    removeImage: 'Ondoa Picha',
+    imageHelper: 'PNG, JPEG au WebP, hadi 5MB.',
+    textBlocks: 'Visanduku vya Maandishi',
+    addText: 'Ongeza Maandishi',
+    editBlock: 'Hariri Kisanduku cha Maandishi',
+    removeBlock: 'Ondoa kisanduku cha maandishi',
+    shows: 'Huonyesha',
+    bindings: {
+      guest_name: 'Jina la mgeni',
+      event_name: 'Jina la tukio',
+      event_type: 'Aina ya tukio',
+      event_date: 'Tarehe ya tukio',
+      event_time: 'Saa ya tukio',
+      event_location: 'Mahali',
+      event_description: 'Maelezo',
+      custom: 'Maandishi maalum',
+    },
+    text: 'Maandishi',
+    position: 'Nafasi kutoka juu ({percent}%)',
+    size: 'Ukubwa ({size})',
+    font: 'Fonti',
+    fonts: {
+      serif: 'Serif',
+      sansSerif: 'Sans-serif',
+    },
+    weight: 'Unene',
+    weights: {
+      normal: 'Kawaida',
+      bold: 'Nzito',
+    },
+    align: 'Mpangilio',
+    alignments: {
+      left: 'Kushoto',
+      center: 'Katikati',
+      right: 'Kulia',
+    },
+    color: 'Rangi',
+    colors: {
+      primary: 'Kijani-bahari Iliyokolea',
+      accent: 'Matumbawe Angavu',
+      background: 'Nyeupe Hafifu',
+      cardBg: 'Nyeupe',
+      textPrimary: 'Kijivu Kilichokolea',
+      textSecondary: 'Kijivu',
+      success: 'Kijani',
+      error: 'Nyekundu',
+      warning: 'Kahawia-njano',
+      info: 'Bluu',
+    },
+    loadError: 'Hitilafu ya kupakia kadi',
+    loadErrorMessage: 'Imeshindwa kupakia msanifu wa kadi. Tafadhali jaribu tena.',
+    unsupportedImage: 'Picha haitumiki',
+    unsupportedImageMessage: 'Tafadhali pakia picha ya PNG, JPEG au WebP.',
+    imageTooLarge: 'Picha ni kubwa mno',
+    imageTooLargeMessage: 'Picha za mandharinyuma zisizidi 5MB.',
+    saved: 'Kadi imehifadhiwa',
+    savedMessage: 'Kadi ya mwaliko ya {event} imehifadhiwa.',
+    saveError: 'Hitilafu ya kuhifadhi kadi',
+    saveErrorMessage: 'Imeshindwa kuhifadhi kadi. Tafadhali jaribu tena.',
+  },
+  events: {
+    title: 'Matukio Yangu',
+    workspaceTitle: 'Matukio ya {name}',
+    count: { one: 'Tukio {count}', other: 'Matukio {count}' },
+    create: 'Unda Tukio',
+    searchPlaceholder: 'Tafuta matukio...',
+    allTypes: 'Aina Zote',
+    allStatuses: 'Hali Zote',
+    emptyTitle: 'Bado hakuna matukio',
+    emptyText: 'Unda tukio lako la kwanza ili kuanza',
+    loadError: 'Hitilafu ya kupakia matukio',
+    loadErrorMessage: 'Imeshindwa kupakia matukio. Tafadhali jaribu tena.',
+  },
+  eventForm: {
+    createTitle: 'Unda Tukio Jipya',
+    createSubtitle: 'Jaza maelezo hapa chini ili kuunda tukio lako',
+    editTitle: 'Hariri Tukio',
+    editSubtitle: 'Sasisha maelezo ya {name}',
+    workspaceNotice:
+      'Tukio hili litaundwa ndani ya {name}. Kila mtu kwenye eneo la kazi anaweza kuliona.',
+    viewerNotice:
+      'Wewe ni mtazamaji ndani ya {name}. Muombe msimamizi akupe ufikiaji wa mpangaji ili kuunda matukio hapa.',
+    eventType: 'Aina ya Tukio',
+    selectType: 'Chagua aina ya tukio',
+    eventName: 'Jina la Tukio',
+    namePlaceholder: 'mf., Harusi ya John na Mary',
+    eventDate: 'Tarehe ya Tukio',
+    eventTime: 'Saa ya Tukio',
+    eventLocation: 'Mahali pa Tukio',
+    locationPlaceholder: 'mf., Safari Park Hotel, Nairobi',
+    eventDescription: 'Maelezo ya Tukio',
+    descriptionPlaceholder: 'Ongeza maelezo mengine kuhusu tukio lako...',
+    descriptionHelp: 'Si lazima - Eleza kile wageni wanapaswa kujua',
+    eventStatus: 'Hali ya Tukio',
+    statusHelpCreate: 'Hifadhi kama rasimu ili uhariri baadaye, au chapisha kama hai',
+    statusHelpEdit: 'Badilisha hali ili kudhibiti kuonekana na kuhaririwa kwa tukio',
+    tipsTitle: 'Vidokezo',
+    tipDraft: "Chagua 'Rasimu' ili kuhifadhi na kuendelea kuhariri baadaye",
+    tipActive: "Weka 'Hai' ukiwa tayari kutuma mialiko",
+    tipClose: 'Unaweza kufunga tukio baada ya kumalizika',
+    closedWarning: 'Tukio hili limefungwa na haliwezi kuhaririwa. Tafadhali lifungue tena kwanza.',
+    closingWarning:
+      'Kufunga tukio hili kutazuia uhariri zaidi. Unaweza kulifungua tena baadaye kutoka ukurasa wa maelezo ya tukio.',
+    create: 'Unda Tukio',
+    notFound: 'Tukio halikupatikana.',
+    created: 'Tukio limeundwa kikamilifu!',
+    createError: 'Hitilafu ya kuunda tukio',
+    createErrorMessage: 'Imeshindwa kuunda tukio. Tafadhali jaribu tena.',
+    updated: 'Tukio limesasishwa kikamilifu!',
+    updateError: 'Hitilafu ya kusasisha tukio',
+    updateErrorMessage: 'Imeshindwa kusasisha tukio. Tafadhali jaribu tena.',
+    cannotEditClosed: 'Matukio yaliyofungwa hayawezi kuhaririwa',
+    noEditAccess: 'Huna ruhusa ya kuhariri tukio hili',
+    loadError: 'Hitilafu ya kupakia tukio',
+    loadErrorMessage: 'Imeshindwa kupakia tukio. Tafadhali jaribu tena.',
+    validation: {
+      nameMin: 'Jina la tukio liwe na angalau herufi 3',
+      nameMax: 'Jina la tukio lisizidi herufi 255',
+      locationRequired: 'Mahali panahitajika',
+      dateRequired: 'Tarehe inahitajika',
+      datePast: 'Tarehe ya tukio haiwezi kuwa imepita',
+    },
+  },
+  eventDetail: {
+    tabs: {
+      overview: 'Muhtasari',
+      history: 'Historia',
+    },
+    backToEvent: 'Rudi kwenye Tukio',
+    backToEvents: 'Rudi kwenye Matukio',
+    closeEvent: 'Funga Tukio',
+    reopenEvent: 'Fungua Tukio Tena',
+    loadErrorMessage: 'Imeshindwa kupakia tukio. Unarudishwa kwenye orodha ya matukio.',
+    deleted: 'Tukio limefutwa',
+    deleteError: 'Hitilafu katika kufuta tukio',
+    deleteErrorMessage: 'Imeshindwa kufuta tukio. Tafadhali jaribu tena.',
+    closed: 'Tukio limefungwa',
+    closeError: 'Hitilafu katika kufunga tukio',
+    closeErrorMessage: 'Imeshindwa kufunga tukio. Tafadhali jaribu tena.',
+    reopened: 'Tukio limefunguliwa tena',
+    reopenError: 'Hitilafu katika kufungua tukio tena',
+    reopenErrorMessage: 'Imeshindwa kufungua tukio tena. Tafadhali jaribu tena.',
+    deleteTitle: 'Futa Tukio',
+    deleteText:
+      "Una uhakika unataka kufuta '{name}'? Data zote zinazohusiana, zikiwemo mialiko na RSVP, zitafutwa kabisa.",
+    deleteConfirm: 'Ndiyo, Futa Tukio',
+    closeText:
+      'Kufunga tukio hili kutazuia mabadiliko zaidi. Unaweza kulifungua tena baadaye. Una uhakika?',
+    reopenText: 'Kufungua tukio hili tena kutakuruhusu kulibadilisha. Endelea?',
+    closedBanner: 'Tukio hili limefungwa. Ili kufanya mabadiliko, lifungue tena kwanza.',
+    details: 'Maelezo ya Tukio',
+    date: 'Tarehe',
+    time: 'Saa',
+    location: 'Mahali',
+    description: 'Maelezo',
+    statistics: 'Takwimu za Tukio',
+    stats: {
+      invitationsSent: 'Mialiko Iliyotumwa',
+      totalSent: 'Jumla iliyotumwa',
+      rsvpsReceived: 'RSVP Zilizopokelewa',
+      responses: 'Majibu',
+      confirmed: 'Waliothibitisha',
+      attending: 'Watahudhuria',
+      responseRate: 'Kiwango cha Majibu',
+      ofInvitations: 'Ya mialiko',
+    },
+    noInvitations:
+      'Bado hakuna mialiko iliyotumwa. Anza kwa kuandaa na kutuma mialiko kwa wageni wako.',
+    activity: 'Shughuli',
+    quickActions: 'Vitendo vya Haraka',
+    manageGuests: 'Simamia Wageni',
+    importGuests: 'Ingiza Wageni',
+    sendInvitations: 'Tuma Mialiko',
+    viewRsvps: 'Tazama RSVP',
+    checkInGuests: 'Sajili Wageni Waliofika',
+    editDetails: 'Hariri Maelezo',
+    upcoming: 'Tukio Lijalo',
+    past: 'Tukio Lililopita',
+    ongoing: 'Tukio Linaloendelea',
+    upcomingText: 'Tukio hili bado halijafanyika.',
+    pastText: 'Tukio hili tayari limefanyika.',
+    ongoingText: 'Tukio hili linaendelea sasa.',
+    info: 'Taarifa za Tukio',
+    created: 'Liliundwa',
+    lastUpdated: 'Lilisasishwa Mwisho',
+    status: 'Hali',
+    workspace: 'Eneo la Kazi',
+    yourRole: 'Jukumu Lako',
+    yourAccess: 'Ruhusa Yako',
+    cohost: 'Mwenyeji mwenza · {permission}',
+  },
+  dashboard: {
+    welcome: 'Karibu tena, {name}!',
+    user: 'Mtumiaji',
+    subtitle: 'Haya ndiyo yanayoendelea kwenye matukio yako',
+    createEvent: 'Unda Tukio',
+    stats: {
+      totalEvents: 'Jumla ya Matukio',
+      activeDraft: 'Hai {active} • Rasimu {draft}',
+      confirmedAttendees: 'Wahudhuriaji waliothibitisha',
+      upcomingEvents: 'Matukio Yajayo',
+      comingSoon: 'Matukio yanayokuja hivi karibuni',
+      pastEvents: 'Matukio Yaliyopita',
+      completed: 'Yamekamilika',
+    },
+    emptyTitle: 'Bado Hakuna Matukio',
+    emptyText:
+      'Bado hujaunda tukio lolote. Anza kwa kuunda tukio lako la kwanza ili kuona takwimu hapa.',
+    createFirst: 'Unda Tukio Lako la Kwanza',
+    actions: {
+      createEventText: 'Anza kupanga tukio lako lijalo',
+      designCard: 'Buni Kadi',
+      designCardText: 'Tengeneza mialiko maridadi',
+      viewEvents: 'Tazama Matukio',
+      viewEventsText: 'Simamia matukio yako',
+    },
+    upgradeTitle: 'Pandisha Mpango Wako',
+    upgradeText:
+      'Pata matukio zaidi, ujumbe usio na kikomo na huduma za ziada. Chagua mpango unaokua pamoja nawe.',
+    viewPricing: 'Tazama Bei',
+    currentPlan: 'Mpango wa sasa:',
+    activityEmpty: 'Hakuna shughuli za hivi karibuni. Unda tukio lako la kwanza ili kuanza!',
+  },
+  guests: {
+    title: 'Orodha ya Wageni',
+    guestCount: {
+      one: 'Mgeni {count}',
+      other: 'Wageni {count}',
+    },
+    attendeeCount: {
+      one: 'Mhudhuriaji {count} anatarajiwa',
+      other: 'Wahudhuriaji {count} wanatarajiwa',
+    },
+    addGuest: 'Ongeza Mgeni',
+    editGuest: 'Hariri Mgeni',
+    closeForm: 'Funga fomu ya mgeni',
+    fullName: 'Jina Kamili',
+    namePlaceholder: 'mf., Wanjiru Kamau',
+    email: 'Barua pepe',
+    optional: 'Si lazima',
+    countryCode: 'Msimbo wa Nchi',
+    phoneNumber: 'Namba ya Simu',
+    plusOnes: 'Wasindikizaji',
+    notes: 'Maelezo',
+    notesPlaceholder: 'mf., Upande wa bibi harusi, meza 4',
+    searchPlaceholder: 'Tafuta wageni kwa jina, barua pepe au simu...',
+    noMatchTitle: 'Hakuna Wageni Wanaolingana',
+    noMatchText: 'Jaribu neno lingine la kutafuta.',
+    emptyTitle: 'Bado Hakuna Wageni',
+    emptyText: 'Ongeza watu unaotaka kuwaalika kwenye tukio hili.',
+    name: 'Jina',
+    phone: 'Simu',
+    actions: 'Vitendo',
+    editName: 'Hariri {name}',
+    removeName: 'Ondoa {name}',
+    removeTitle: 'Ondoa Mgeni',
+    removeText: "Una uhakika unataka kumwondoa '{name}' kwenye orodha ya wageni?",
+    removeConfirm: 'Ndiyo, Ondoa Mgeni',
+    added: 'Mgeni ameongezwa',
+    addError: 'Hitilafu katika kuongeza mgeni',
+    updated: 'Mgeni amesasishwa',
+    updateError: 'Hitilafu katika kusasisha mgeni',
+    saveErrorMessage: 'Imeshindwa kuhifadhi mgeni. Tafadhali jaribu tena.',
+    removed: 'Mgeni ameondolewa',
+    removeError: 'Hitilafu katika kumwondoa mgeni',
+    removeErrorMessage: 'Imeshindwa kumwondoa mgeni. Tafadhali jaribu tena.',
+    loadError: 'Hitilafu katika kupakia wageni',
+    loadErrorMessage: 'Imeshindwa kupakia wageni. Tafadhali jaribu tena.',
+    validation: {
+      nameMin: 'Jina lazima liwe na angalau herufi 2',
+      nameMax: 'Jina lisizidi herufi 255',
+      plusOnesNumber: 'Wasindikizaji lazima iwe namba',
+      plusOnesInt: 'Wasindikizaji lazima iwe namba kamili',
+      plusOnesMin: 'Wasindikizaji hawawezi kuwa chini ya sifuri',
+      plusOnesMax: 'Wasindikizaji wasizidi 20',
+    },
+  },
+  rsvps: {
+    title: 'RSVP',
+    responded: {
+      one: 'Mgeni {responded} kati ya {count} amejibu',
+      other: 'Wageni {responded} kati ya {count} wamejibu',
+    },
+    expectedAttendees: 'Wahudhuriaji Wanaotarajiwa',
+    emptyTitle: 'Bado Hakuna RSVP',
+    emptyText: 'Majibu yataonekana hapa ukishaongeza wageni na kutuma mialiko.',
+    noMatchTitle: 'Hakuna RSVP Zinazolingana',
+    noMatchText: 'Jaribu neno lingine la kutafuta au kichujio kingine cha hali.',
+    guest: 'Mgeni',
+    status: 'Hali',
+    respondedAt: 'Alijibu',
+    override: 'Badilisha',
+    manual: 'Kwa mkono',
+    plusOnesOf: '+{count} kati ya {allowed}',
+    overrideFor: 'Badilisha RSVP ya {name}',
+    overrideTitle: 'Sasisha RSVP',
+    overrideText: "Rekodi jibu la '{name}' lililopokelewa nje ya jukwaa.",
+    plusOnesMax: 'Wasindikizaji (wasizidi {max})',
+    save: 'Hifadhi RSVP',
+    updated: 'RSVP imesasishwa',
+    updateError: 'Hitilafu katika kusasisha RSVP',
+    updateErrorMessage: 'Imeshindwa kusasisha RSVP. Tafadhali jaribu tena.',
+    loadError: 'Hitilafu katika kupakia RSVP',
+    loadErrorMessage: 'Imeshindwa kupakia RSVP. Unarudishwa kwenye orodha ya matukio.',
+  },
+  invitations: {
+    noAccess: 'Huna ruhusa ya kutuma ujumbe kwa tukio hili',
+    steps: {
+      recipients: 'Wapokeaji',
+      channel: 'Njia',
+      message: 'Ujumbe',
+      review: 'Kagua na Tuma',
+    },
+    scopes: {
+      all: { label: 'Wageni wote', description: 'Kila mtu kwenye orodha ya wageni' },
+      not_invited: {
+        label: 'Wasioalikwa bado',
+        description: 'Wageni ambao hawajawahi kupokea mwaliko',
+      },
+      selected: { label: 'Chagua wageni', description: 'Tafuta na uchague wageni maalum' },
+    },
+    timings: {
+      now: { label: 'Tuma sasa', description: 'Mialiko inatumwa mara tu unapothibitisha' },
+      later: { label: 'Panga', description: 'Chagua tarehe na saa ya kutuma yenyewe' },
+    },
+    defaultSubject: 'Umealikwa: {name}',
+    sentSoFar: {
+      one: 'Mwaliko {count} umetumwa hadi sasa',
+      other: 'Mialiko {count} imetumwa hadi sasa',
+    },
+    closed: 'Tukio hili limefungwa. Lifungue tena ili kutuma mialiko.',
+    noGuestsText: 'Ongeza wageni kwenye tukio hili kabla ya kutuma mialiko.',
+    recipientsTitle: 'Nani apokee mwaliko?',
+    filterPlaceholder: 'Chuja wageni kwa jina, barua pepe au simu...',
+    selectAllShown: 'Chagua wote wanaoonekana ({count})',
+    clearSelection: 'Futa uteuzi',
+    invited: 'Amealikwa',
+    noMatch: 'Hakuna wageni wanaolingana na kichujio chako.',
+    allInvited: 'Kila mgeni tayari amealikwa.',
+    channelTitle: 'Tuutume kwa njia gani?',
+    perMessage: 'KES {rate} kwa ujumbe',
+    free: 'Bure',
+    skipped: {
+      one: 'Mgeni {skipped} kati ya {count} aliyechaguliwa hafikiki kwa {channel} na ataachwa.',
+      other:
+        'Wageni {skipped} kati ya {count} waliochaguliwa hawafikiki kwa {channel} na wataachwa.',
+    },
+    messageTitle: 'Andika ujumbe wako',
+    startFromTemplate: 'Anza na kiolezo',
+    template: 'Kiolezo cha ujumbe',
+    chooseTemplate: 'Chagua kiolezo…',
+    personalLink: 'Kila mgeni anapokea kiungo chake binafsi cha RSVP.',
+    reviewTitle: 'Kagua na utume',
+    recipients: 'Wapokeaji',
+    skippedCount: '{count} wameachwa',
+    estimatedCost: 'Gharama Inayokadiriwa',
+    emailFree: 'Mialiko ya barua pepe ni bure',
+    includedInPlan: '{included} zimo kwenye mpango wako',
+    notEnoughCredit: 'Salio halitoshi',
+    notEnoughCreditText:
+      'Salio lako ni {balance}. Ongeza angalau {shortfall} ili kutuma mialiko hii.',
+    topUp: 'Ongeza Salio',
+    timingTitle: 'Itumwe lini?',
+    sendOn: 'Tuma tarehe',
+    chooseTime: 'Chagua wakati wa kutuma',
+    futureTime: 'Chagua wakati ujao',
+    scheduleHelp:
+      'Wageni wanaolingana na wapokeaji wakati huo watajumuishwa, hivyo wageni utakaoongeza kabla ya hapo nao watapata mwaliko.',
+    messageTo: 'Ujumbe kwa {name}',
+    sendCount: {
+      one: 'Tuma Mwaliko {count}',
+      other: 'Tuma Mialiko {count}',
+    },
+    scheduleCount: {
+      one: 'Panga Mwaliko {count}',
+      other: 'Panga Mialiko {count}',
+    },
+    scheduleTitle: 'Panga Mialiko',
+    confirmSend: {
+      one: "Tuma mwaliko {count} wa {channel} kwa '{event}'?",
+      other: "Tuma mialiko {count} ya {channel} kwa '{event}'?",
+    },
+    confirmSchedule: {
+      one: "Panga mwaliko {count} wa {channel} kwa '{event}' tarehe {time}?",
+      other: "Panga mialiko {count} ya {channel} kwa '{event}' tarehe {time}?",
+    },
+    confirmCost: 'Hii itagharimu takriban {cost}.',
+    confirmSendButton: 'Ndiyo, Tuma Sasa',
+    confirmScheduleButton: 'Ndiyo, Panga',
+    creditAdded: 'Salio limeongezwa',
+    creditAddedMessage: '{amount} imeongezwa kwenye salio lako.',
+    scheduled: 'Mialiko imepangwa',
+    scheduledMessage: {
+      one: 'Mwaliko {count} utatumwa {time}.',
+      other: 'Mialiko {count} itatumwa {time}.',
+    },
+    sent: 'Mialiko imetumwa',
+    sentMessage: {
+      one: 'Mwaliko {count} umepangwa kutumwa.',
+      other: 'Mialiko {count} imepangwa kutumwa.',
+    },
+    sendError: 'Hitilafu katika kutuma mialiko',
+    sendErrorMessage: 'Imeshindwa kutuma mialiko. Tafadhali jaribu tena.',
+  },
+  checkIn: {
+    noAccess: 'Huna ruhusa ya kuwapokea wageni wa tukio hili',
+    title: 'Usajili wa Kuwasili',
+    onTheList: {
+      one: 'Mgeni {count} kwenye orodha',
+      other: 'Wageni {count} kwenye orodha',
+    },
+    backOnline: 'Mtandao umerudi',
+    offline: 'Nje ya mtandao - usajili unaendelea kwenye kifaa hiki',
+    pending: {
+      one: 'Usajili {count} unasubiri kusawazishwa',
+      other: 'Usajili {count} unasubiri kusawazishwa',
+    },
+    syncNow: 'Sawazisha Sasa',
+    twoDevices: 'Wamesajiliwa kwenye Vifaa Viwili',
+    twoDevicesText:
+      'Wageni hawa walisajiliwa hapa bila mtandao na pia kwenye kifaa kingine. Usajili wa mapema umehifadhiwa. Wakague iwapo msimbo ulishirikiwa.',
+    dismiss: 'Ondoa',
+    conflictTimes: 'Kifaa kingine {other} • Kifaa hiki {local}',
+    arrived: 'Wamefika',
+    expected: 'Wanatarajiwa',
+    stillToArrive: 'Bado kufika',
+    scan: 'Changanua Msimbo wa QR',
+    startCamera: 'Washa Kamera',
+    stopCamera: 'Zima Kamera',
+    checking: 'Inakagua msimbo...',
+    findByName: 'Tafuta kwa Jina',
+    findByNameText: 'Kwa wageni wasio na simu au msimbo wa QR',
+    searchPlaceholder: 'Tafuta kwa jina au simu...',
+    startTyping: 'Anza kuandika jina la mgeni',
+    noMatch: 'Hakuna wageni wanaolingana na "{query}"',
+    arrivedBadge: 'Alifika {time}',
+    checkIn: 'Sajili',
+    welcome: 'Karibu, {name}',
+    mayBring: {
+      one: 'Anaweza kuja na mgeni {count}.',
+      other: 'Anaweza kuja na wageni hadi {count}.',
+    },
+    checkedIn: 'Amesajiliwa.',
+    queued: 'Imehifadhiwa kwenye kifaa hiki na itasawazishwa mtandao ukirudi.',
+    alreadyCheckedIn: 'Tayari amesajiliwa',
+    alreadyCheckedInName: '{name} tayari amesajiliwa',
+    arrivedAt: 'Mgeni huyu alifika saa {time}. Kagua kitambulisho chake kabla ya kumruhusu tena.',
+    arrivedEarlier: 'Mgeni huyu alifika mapema. Kagua kitambulisho chake kabla ya kumruhusu tena.',
+    failed: 'Usajili umeshindikana',
+    invalidCode: 'Msimbo huu si halali kwa tukio hili. Jaribu kutafuta kwa jina badala yake.',
+    workingOffline: 'Unafanya kazi bila mtandao',
+    workingOfflineMessage: 'Inatumia orodha ya wageni iliyohifadhiwa {time}.',
+    conflicts: 'Migongano ya usajili',
+    conflictsMessage: {
+      one: 'Mgeni {count} pia alisajiliwa kwenye kifaa kingine.',
+      other: 'Wageni {count} pia walisajiliwa kwenye kifaa kingine.',
+    },
+    synced: 'Usajili umesawazishwa',
+    syncedMessage: {
+      one: 'Usajili {count} wa nje ya mtandao umehifadhiwa.',
+      other: 'Usajili {count} wa nje ya mtandao umehifadhiwa.',
+    },
+    rejected: 'Baadhi ya usajili umekataliwa',
+    rejectedMessage: {
+      one: 'Usajili {count} wa nje ya mtandao haukuweza kuhifadhiwa. Huenda mgeni aliondolewa.',
+      other: 'Usajili {count} wa nje ya mtandao haukuweza kuhifadhiwa. Huenda wageni waliondolewa.',
+    },
+    loadError: 'Hitilafu katika kupakia usajili',
+    loadErrorMessage: 'Imeshindwa kupakia orodha ya wageni. Unarudishwa kwenye orodha ya matukio.',
+    errors: {
+      offlineUnsupported: 'Usajili bila mtandao hauwezekani kwenye kivinjari hiki.',
+      notOnSavedList:
+        'Msimbo huu haumo kwenye orodha ya wageni iliyohifadhiwa kwenye kifaa hiki. Jaribu kutafuta kwa jina badala yake.',
+    },
+  },
+  usageMetrics: {
+    events: 'Matukio',
+    whatsapp: 'Jumbe za WhatsApp',
+    sms: 'Jumbe za SMS',
+  },
+  pricingPlans: {
+    payg: {
+      description: 'Bora kwa matukio ya mara kwa mara',
+      features: {
+        f1: 'Lipia unachotumia tu',
+        f2: 'Hakuna ahadi za kila mwezi',
+        f3: 'Aina zote za matukio zinakubaliwa',
+        f4: 'Violezo vya msingi vya kadi',
+        f5: 'Mialiko kwa barua pepe na SMS',
+        f6: 'Ufuatiliaji wa RSVP',
+        f7: 'Takwimu za matukio',
+      },
+    },
+    starter: {
+      description: 'Nzuri kwa watu binafsi wanaopanga matukio yao',
+      features: {
+        f1: 'Matukio 5 kwa mwezi',
+        f2: 'Jumbe 500 za WhatsApp',
+        f3: 'Jumbe 300 za SMS',
+        f4: 'Violezo vyote vya msingi',
+        f5: 'Mialiko kwa barua pepe na SMS',
+        f6: 'Ufuatiliaji wa RSVP',
+        f7: 'Takwimu za matukio',
+        f8: 'Msaada wa kipaumbele',
+      },
+    },
+    professional: {
+      description: 'Bora kwa waandaaji wa matukio na biashara',
+      features: {
+        f1: 'Matukio 20 kwa mwezi',
+        f2: 'Jumbe 2,000 za WhatsApp',
+        f3: 'Jumbe 1,500 za SMS',
+        f4: 'Violezo vyote vya hadhi ya juu',
+        f5: 'Chapa yako kwenye kadi',
+        f6: 'Takwimu za kina',
+        f7: 'Shughuli za jumla',
+        f8: 'Msaada wa kipaumbele',
+        f9: 'Ufikiaji wa API',
+      },
+    },
+    enterprise: {
+      description: 'Kwa mashirika makubwa na mawakala',
+      features: {
+        f1: 'Matukio bila kikomo',
+        f2: 'Jumbe bila kikomo',
+        f3: 'Huduma zote za hadhi ya juu',
+        f4: 'Miunganisho maalum',
+        f5: 'Meneja maalum wa akaunti',
+        f6: 'Chaguo za kutumia chapa yako',
+        f7: 'Usalama wa hali ya juu',
+        f8: 'Msaada wa kipaumbele saa 24/7',
+        f9: 'Makubaliano maalum ya huduma (SLA)',
+      },
+    },
+  },
+  billing: {
+    title: 'Malipo',
+    subtitle: 'Simamia mpango wako, matumizi na ankara',
+    currentPlan: 'Mpango wa Sasa',
+    perMonth: '/mwezi',
+    perYear: '/mwaka',
+    currentPeriod: 'Kipindi cha sasa: {start} – {end}',
+    changesOn: 'Utabadilika kuwa {plan} tarehe {date}.',
+    changesAtPeriodEnd: 'Utabadilika kuwa {plan} mwishoni mwa kipindi hiki cha malipo.',
+    usageThisPeriod: 'Matumizi ya Kipindi Hiki',
+    billedPerUse: 'unalipia kwa matumizi',
+    unlimited: 'bila kikomo',
+    creditBalance: 'Salio la Mkopo',
+    creditText: 'Jumbe za mpango wa Pay As You Go hulipwa kutoka salio lako. Ongeza salio kwa M-Pesa.',
+    history: 'Historia',
+    changePlan: 'Badilisha Mpango',
+    monthly: 'Kila Mwezi',
+    annual: 'Kila Mwaka',
+    popular: 'Maarufu',
+    payPerUse: 'Lipa kwa matumizi',
+    saveAYear: 'Okoa {amount} kwa mwaka',
+    switchToAnnual: 'Hamia Malipo ya Mwaka',
+    switchToMonthly: 'Hamia Malipo ya Mwezi',
+    upgrade: 'Pandisha',
+    downgrade: 'Shusha',
+    scheduled: 'Imepangwa',
+    invoices: 'Ankara',
+    noInvoices: 'Bado hakuna ankara.',
+    invoice: 'Ankara',
+    amount: 'Kiasi',
+    confirm: 'Thibitisha',
+    confirmAnnualTitle: 'Hamia malipo ya kila mwaka?',
+    confirmMonthlyTitle: 'Hamia malipo ya kila mwezi?',
+    confirmUpgradeTitle: 'Pandisha hadi {plan}?',
+    confirmDowngradeTitle: 'Shusha hadi {plan}?',
+    confirmAnnualText:
+      'Mpango wako wa {plan} wa kila mwezi unaendelea hadi mwisho wa kipindi hiki cha malipo{period}, kisha unasasishwa kwa malipo ya kila mwaka.',
+    confirmMonthlyText:
+      'Mpango wako wa {plan} wa kila mwaka unaendelea hadi mwisho wa kipindi hiki cha malipo{period}, kisha unasasishwa kwa malipo ya kila mwezi.',
+    confirmUpgradeText: 'Vikomo vipya vinaanza kutumika mara moja. Unahama kutoka {plan}.',
+    confirmDowngradeText:
+      'Unabaki na vikomo vya {plan} hadi mwisho wa kipindi hiki cha malipo{period}, kisha unahamia {target}.',
+    upgraded: 'Mpango umepandishwa',
+    upgradedMessage: 'Sasa uko kwenye mpango wa {plan}.',
+    upgradedMonthly: 'Sasa uko kwenye mpango wa {plan}, unaolipwa kila mwezi.',
+    upgradedAnnual: 'Sasa uko kwenye mpango wa {plan}, unaolipwa kila mwaka.',
+    changeScheduled: 'Mabadiliko ya mpango yamepangwa',
+    changeScheduledMessage: 'Mpango wako utabadilika kuwa {plan} mwishoni mwa kipindi hiki cha malipo.',
+    changeError: 'Hitilafu katika kubadilisha mpango',
+    changeErrorMessage: 'Imeshindwa kubadilisha mpango wako. Tafadhali jaribu tena.',
+    loadError: 'Hitilafu katika kupakia malipo',
+    loadErrorMessage: 'Imeshindwa kupakia taarifa zako za malipo. Tafadhali jaribu tena.',
+  },
+  wallet: {
+    title: 'Salio',
+    backToBilling: 'Rudi kwenye Malipo',
+    subtitle:
+      'Jumbe za Pay As You Go zinagharimu {whatsapp} kwa ujumbe wa WhatsApp na {sms} kwa SMS. Salio halipitwi na muda.',
+    available: 'Salio Linalopatikana',
+    about: 'Takriban mialiko {whatsapp} ya WhatsApp au {sms} ya SMS',
+    spendingByEvent: 'Matumizi kwa Tukio',
+    noSpending: 'Bado hakuna jumbe zilizotozwa kutoka salio lako.',
+    deletedEvent: 'Tukio lililofutwa',
+    messages: {
+      one: 'Ujumbe {formatted}',
+      other: 'Jumbe {formatted}',
+    },
+    filterByEvent: 'Chuja kwa tukio',
+    allActivity: 'Shughuli zote',
+    empty: 'Bado hakuna malipo ya kuongeza salio wala makato.',
+    emptyEvent: 'Hakuna salio lililotumika kwa tukio hili.',
+    type: 'Aina',
+    details: 'Maelezo',
+    balance: 'Salio',
+    channelMessages: {
+      one: 'Ujumbe {count} wa {channel}',
+      other: 'Jumbe {count} za {channel}',
+    },
+    receipt: 'Risiti ya M-Pesa {receipt}',
+    loadError: 'Hitilafu katika kupakia historia ya salio',
+    loadErrorMessage: 'Imeshindwa kupakia historia ya salio lako. Tafadhali jaribu tena.',
+  },
+  templates: {
+    title: 'Violezo vya Ujumbe',
+    subtitle: 'Hifadhi jumbe za mialiko mara moja na uzitumie tena kwa kila tukio',
+    new: 'Kiolezo Kipya',
+    filterByType: 'Chuja kwa aina ya tukio',
+    filterByChannel: 'Chuja kwa njia',
+    allChannels: 'Njia Zote',
+    emptyTitle: 'Bado Hakuna Violezo',
+    emptyText: 'Hifadhi maandishi ya mwaliko wako kama kiolezo ili uyatumie tena, kwa Kiingereza na Kiswahili.',
+    noMatchTitle: 'Hakuna Violezo Vinavyolingana',
+    noMatchText: 'Jaribu aina nyingine ya tukio au njia nyingine.',
+    createdBy: 'Na {name}',
+    editLabel: 'Hariri {name}',
+    deleteLabel: 'Futa {name}',
+    deleteTitle: 'Futa kiolezo?',
+    deleteText:
+      "'{name}' kitaondolewa kwenye maktaba kwa kila mtu. Mialiko iliyokwisha kutumwa nacho haitaathirika.",
+    deleted: 'Kiolezo kimefutwa',
+    loadError: 'Hitilafu katika kupakia violezo',
+    loadErrorMessage: 'Imeshindwa kupakia violezo vyako. Tafadhali jaribu tena.',
+    deleteError: 'Hitilafu katika kufuta kiolezo',
+    deleteErrorMessage: 'Imeshindwa kufuta kiolezo. Tafadhali jaribu tena.',
+  },
+  profile: {
+    title: 'Wasifu Wangu',
+    edit: 'Hariri Wasifu',
+    verified: '✓ Imethibitishwa',
+    notVerified: '⚠ Haijathibitishwa',
+    about: 'Kuhusu',
+    contactInfo: 'Maelezo ya Mawasiliano',
+    email: 'Barua Pepe',
+    phone: 'Nambari ya Simu',
+    accountInfo: 'Maelezo ya Akaunti',
+    accountType: 'Aina ya Akaunti',
+    memberSince: 'Mwanachama Tangu',
+    accountStatus: 'Hali ya Akaunti',
+    active: 'Hai',
+    inactive: 'Haitumiki',
+    emailVerified: 'Barua Pepe Imethibitishwa',
+    emailNotVerified: 'Barua Pepe Haijathibitishwa',
+  },
+  editProfile: {
+    changePhoto: 'Badilisha Picha',
+    photoHint: 'Ukubwa wa juu: 5MB. JPG, PNG pekee.',
+    firstName: 'Jina la Kwanza',
+    lastName: 'Jina la Mwisho',
+    code: 'Msimbo',
+    companyName: 'Jina la Kampuni',
+    bio: 'Wasifu Mfupi',
+    bioPlaceholder: 'Tueleze kuhusu wewe...',
+    bioCount: 'Herufi {count}/500',
+    bioMax: 'Wasifu mfupi usizidi herufi 500',
+    emailNote: 'Barua pepe yako haiwezi kubadilishwa. Wasiliana na huduma kwa wateja ikiwa unahitaji kuibadilisha.',
+    invalidFileType: 'Aina ya faili si sahihi',
+    invalidFileTypeMessage: 'Tafadhali chagua faili la picha (JPG, PNG, n.k.)',
+    fileTooLarge: 'Faili ni kubwa mno',
+    fileTooLargeMessage: 'Tafadhali chagua picha iliyo chini ya 5MB',
+    updated: 'Wasifu umesasishwa',
+    updatedMessage: 'Wasifu wako umesasishwa.',
+    updateError: 'Imeshindwa kusasisha',
+    updateErrorMessage: 'Imeshindwa kusasisha wasifu. Tafadhali jaribu tena.',
+  },
+  auth: {
+    email: 'Barua Pepe',
+    password: 'Nenosiri',
+    emailPlaceholder: 'wewe@barua.com',
+    togglePassword: 'Onyesha au ficha nenosiri',
+    backToLogin: 'Rudi kwenye Kuingia',
+    goToLogin: 'Nenda Kuingia',
+    requirements: {
+      title: 'Masharti ya Nenosiri',
+      length: 'Angalau herufi 8',
+      uppercase: 'Herufi kubwa moja',
+      lowercase: 'Herufi ndogo moja',
+      number: 'Tarakimu moja',
+    },
+  },
+  login: {
+    title: 'Karibu Tena',
+    subtitle: 'Ingia ili kusimamia matukio yako',
+    passwordPlaceholder: 'Weka nenosiri lako',
+    rememberMe: 'Nikumbuke',
+    forgotPassword: 'Umesahau nenosiri?',
+    submit: 'Ingia',
+    submitting: 'Inaingia...',
+    noAccount: 'Huna akaunti?',
+    signUp: 'Jisajili',
+    success: 'Karibu tena!',
+    successMessage: 'Umeingia kikamilifu.',
+    error: 'Imeshindwa Kuingia',
+    errorMessage: 'Imeshindwa kuingia. Tafadhali hakiki taarifa zako za kuingia.',
+    notVerified: 'Barua Pepe Haijathibitishwa',
+    notVerifiedMessage:
+      'Tafadhali thibitisha barua pepe yako kabla ya kuingia. Angalia kikasha chako kupata kiungo cha uthibitisho.',
+  },
+  register: {
+    title: 'Fungua Akaunti',
+    submitting: 'Inafungua Akaunti...',
+    stepOf: 'Hatua {step} kati ya {total}: {name}',
+    steps: {
+      personal: 'Binafsi na Mawasiliano',
+      account: 'Kuweka Akaunti',
+    },
+    firstNamePlaceholder: 'Juma',
+    lastNamePlaceholder: 'Otieno',
+    emailPlaceholder: 'juma.otieno@mfano.com',
+    companyNamePlaceholder: 'Jina la kampuni yako',
+    passwordPlaceholder: 'Tengeneza nenosiri imara',
+    confirmPassword: 'Thibitisha Nenosiri',
+    confirmPasswordPlaceholder: 'Weka nenosiri lako tena',
+    strength: {
+      label: 'Uimara wa nenosiri: {strength}',
+      tooShort: 'Fupi mno',
+      weak: 'Dhaifu',
+      medium: 'Wastani',
+      strong: 'Imara',
+    },
+    haveAccount: 'Tayari una akaunti?',
+    checking: 'Tafadhali subiri',
+    checkingMessage: 'Tunakagua upatikanaji wa barua pepe na nambari ya simu...',
+    emailTaken: 'Barua Pepe Tayari Imesajiliwa',
+    phoneTaken: 'Nambari ya Simu Tayari Imesajiliwa',
+    success: 'Akaunti Imefunguliwa!',
+    successMessage: 'Kiungo cha uthibitisho kimetumwa kwenye barua pepe yako.',
+    error: 'Usajili Umeshindwa',
+    errorMessage: 'Imeshindwa kufungua akaunti',
+  },
+  forgotPassword: {
+    title: 'Weka Upya Nenosiri Lako',
+    subtitle: 'Weka barua pepe yako na tutakutumia kiungo cha kuweka upya',
+    expiry: 'Kiungo cha kuweka upya kitaisha muda baada ya dakika 15.',
+    submit: 'Tuma Kiungo',
+    checkEmail: 'Angalia Barua Pepe Yako',
+    checkEmailText: 'Ikiwa kuna akaunti yenye barua pepe hiyo, tumetuma kiungo cha kuweka upya nenosiri.',
+    notReceived: 'Hukupokea? Angalia folda ya barua taka au ujaribu tena.',
+    tryAnother: 'Jaribu Barua Pepe Nyingine',
+    sent: 'Kiungo Kimetumwa',
+    sentMessage: 'Ikiwa kuna akaunti yenye barua pepe hiyo, kiungo cha kuweka upya nenosiri kimetumwa.',
+    error: 'Ombi Limeshindwa',
+    errorMessage: 'Imeshindwa kushughulikia ombi lako. Tafadhali jaribu tena baadaye.',
+  },
+  resetPassword: {
+    title: 'Weka Nenosiri Jipya',
+    subtitle: 'Chagua nenosiri imara kwa akaunti yako',
+    newPassword: 'Nenosiri Jipya',
+    confirmPassword: 'Thibitisha Nenosiri Jipya',
+    submit: 'Weka Upya Nenosiri',
+    invalidLink: 'Kiungo cha Kuweka Upya si Sahihi',
+    invalidLinkText: 'Kiungo hiki cha kuweka upya nenosiri si sahihi au kimeisha muda.',
+    missingLinkMessage: 'Kiungo hiki cha kuweka upya nenosiri si sahihi au hakipo.',
+    requestNew: 'Omba Kiungo Kipya',
+    invalidToken: 'Tokeni si Sahihi',
+    invalidTokenMessage: 'Tokeni ya kuweka upya haipo. Tafadhali omba kiungo kipya.',
+    successTitle: 'Nenosiri Limewekwa Upya',
+    successText: 'Nenosiri lako limebadilishwa. Sasa unaweza kuingia kwa nenosiri lako jipya.',
+    sessionsNote: 'Vipindi vyote vilivyokuwa wazi vimefungwa kwa usalama.',
+    success: 'Nenosiri Limewekwa Upya',
+    successMessage: 'Nenosiri lako limebadilishwa.',
+    expired: 'Kiungo Kimeisha Muda',
+    expiredMessage: 'Kiungo hiki cha kuweka upya nenosiri kimeisha muda. Tafadhali omba kipya.',
+    error: 'Imeshindwa Kuweka Upya',
+    errorMessage: 'Imeshindwa kuweka upya nenosiri. Tafadhali jaribu tena.',
+  },
+  verifyEmail: {
+    verifying: 'Inathibitisha Barua Pepe Yako...',
+    verifyingText: 'Tafadhali subiri tunapothibitisha akaunti yako',
+    success: 'Barua Pepe Imethibitishwa!',
+    successText: 'Barua pepe yako imethibitishwa!',
+    successMessage: 'Sasa unaweza kuingia kwenye akaunti yako.',
+    redirecting: {
+      one: 'Inakupeleka kuingia baada ya sekunde {count}...',
+      other: 'Inakupeleka kuingia baada ya sekunde {count}...',
+    },
+    goToLoginNow: 'Nenda Kuingia Sasa',
+    error: 'Uthibitisho Umeshindwa',
+    errorMessage: 'Imeshindwa kuthibitisha barua pepe. Tafadhali jaribu tena.',
+    invalidLink: 'Kiungo cha uthibitisho si sahihi.',
+    invalidLinkText: 'Kiungo cha uthibitisho si sahihi. Tafadhali angalia barua pepe yako na ujaribu tena.',
+    expired: 'Kiungo Kimeisha Muda',
+    expiredText: 'Kiungo chako cha uthibitisho kimeisha muda. Tafadhali omba kipya.',
+    resend: 'Tuma Kiungo Tena',
+  },
+  verifyEmailSent: {
+    subtitle: 'Kiungo cha kuthibitisha barua pepe kimetumwa',
+    text: 'Tafadhali angalia kikasha chako cha barua pepe na ubofye kiungo cha uthibitisho ili kuwezesha akaunti yako.',
+    expiry: 'Kiungo cha uthibitisho kitaisha muda baada ya saa 24.',
+    notReceived: 'Hukupokea barua pepe?',
+    resend: 'Tuma Barua Pepe ya Uthibitisho Tena',
+    alreadyVerified: 'Tayari umethibitisha?',
+    loginHere: 'Ingia hapa',
+    noEmail: 'Barua Pepe Haipatikani',
+    noEmailMessage:
+      'Tafadhali tumia ukurasa wa usajili kufungua akaunti mpya ikiwa unahitaji barua pepe ya uthibitisho.',
+    resent: 'Barua pepe ya uthibitisho imetumwa!',
+    resentMessage: 'Tafadhali angalia kikasha chako kupata kiungo cha uthibitisho.',
+    resendError: 'Imeshindwa Kutuma Tena',
+    resendErrorMessage: 'Imeshindwa kutuma tena barua pepe ya uthibitisho. Tafadhali jaribu tena baadaye.',
+  },
+  rsvpPage: {
+    notFound: 'Mwaliko Haukupatikana',
+    invalidLink:
+      'Kiungo hiki cha RSVP si sahihi au kimeisha muda. Tafadhali wasiliana na mwenyeji wako upate mwaliko mpya.',
+    loadErrorMessage: 'Imeshindwa kupakia mwaliko wako. Tafadhali jaribu tena.',
+    invited: '{name}, umealikwa kwenye',
+    hostedBy: 'Mwenyeji: {name}',
+    attending: 'Utahudhuria',
+    attendingWith: {
+      one: 'Utahudhuria pamoja na mgeni {count}',
+      other: 'Utahudhuria pamoja na wageni {count}',
+    },
+    declined: 'Umekataa mwaliko huu',
+    recorded: 'Jibu lako limehifadhiwa',
+    change: 'Badilisha Jibu',
+    closed: 'Tukio hili halipokei majibu tena.',
+    question: 'Utahudhuria?',
+    accept: 'Kubali',
+    decline: 'Kataa',
+    partySize: 'Mtakuwa watu wangapi, ukiwemo wewe?',
+    justMe: 'Mimi peke yangu',
+    people: { one: 'Mtu {count}', other: 'Watu {count}' },
+    message: 'Ujumbe kwa mwenyeji (si lazima)',
+    attendingPlaceholder: 'k.m., Nasubiri kwa hamu!',
+    declinedPlaceholder: 'k.m., Samahani sitaweza kufika, hongera!',
+    submit: 'Tuma Jibu',
+    sent: 'Jibu limetumwa',
+    sentAttending: 'Tunatarajia kukuona!',
+    sentDeclined: 'Asante kwa kutujulisha.',
+    sendError: 'Imeshindwa kutuma jibu',
+    sendErrorMessage: 'Imeshindwa kutuma jibu lako. Tafadhali jaribu tena.',
+  },
+  pricing: {
+    eyebrow: 'Bei za Wazi',
+    title: 'Bei Rahisi na za Haki',
+    subtitle: 'Chagua mpango unaokufaa. Hakuna ada zilizofichwa, sitisha wakati wowote.',
+    freeEvent: '🎁 Tukio la kwanza ni bure kwa watumiaji wote wapya (hadi mialiko 50)',
+    monthlyBilling: 'Malipo ya kila mwezi',
+    annualBilling: 'Malipo ya kila mwaka',
+    savePercent: 'Okoa {percent}%',
+    mostPopular: 'Unaopendwa Zaidi',
+    fromPerEvent: 'Kuanzia {price} kwa tukio',
+    rates: {
+      eventCreation: 'kwa kila tukio linaloundwa',
+      whatsappMessage: 'kwa kila ujumbe wa WhatsApp',
+      smsMessage: 'kwa kila SMS inayotumwa',
+      cardDesign: 'Violezo vya msingi ni bure',
+    },
+    annualBreakdown: '{monthly}/mwezi kwa malipo ya mwaka • Okoa {savings}',
+    saveWithAnnual: 'Okoa {percent}% kwa malipo ya mwaka',
+    limits: 'Matukio {events} • WhatsApp {whatsapp} • SMS {sms} kwa mwezi',
+    custom: 'Maalum',
+    contactForPricing: 'Wasiliana nasi upate bei',
+    contactSales: 'Wasiliana na Mauzo',
+    startFree: 'Anza Bure',
+    getStarted: 'Anza Sasa',
+    compareTitle: 'Linganisha Mipango',
+    compareSubtitle: 'Chagua mpango unaokufaa kikamilifu',
+    compare: {
+      feature: 'Huduma',
+      events: 'Matukio kwa mwezi',
+      payPerEvent: 'Lipa kwa kila tukio',
+      unlimited: 'Bila kikomo',
+      whatsapp: 'Jumbe za WhatsApp',
+      sms: 'Jumbe za SMS',
+      each: '{price} kila mmoja',
+      branding: 'Chapa yako mwenyewe',
+      api: 'Ufikiaji wa API',
+      support: 'Msaada wa kipaumbele',
+    },
+    paymentTitle: 'Njia Mbalimbali za Malipo',
+    paymentSubtitle: 'Tunapokea njia zote kuu za malipo',
+    faqTitle: 'Maswali Yanayoulizwa Mara kwa Mara',
+    faqSubtitle: 'Kila unachohitaji kujua kuhusu bei zetu',
+    ctaTitle: 'Uko Tayari Kuanza?',
+    ctaText: 'Unda tukio lako la kwanza bure. Hakuna kadi ya benki inayohitajika.',
+    startTrial: 'Anza Kujaribu Bure',
+    signIn: 'Ingia',
+  },
+  paymentMethods: {
+    mpesa: 'M-Pesa',
+    card: 'Kadi ya Benki',
+    airtel: 'Airtel Money',
+    tigopesa: 'Tigopesa',
+  },
+  pricingFaq: {
+    payg: {
+      question: 'Pay As You Go inafanyaje kazi?',
+      answer:
+        'Kwa Pay As You Go, unalipia tu huduma unazotumia. Unda tukio kwa KES 500, kisha lipa KES 2 kwa kila ujumbe wa WhatsApp na KES 3 kwa kila SMS. Hakuna ada za kila mwezi wala ahadi.',
+    },
+    switching: {
+      question: 'Naweza kubadilisha mpango baadaye?',
+      answer:
+        'Ndiyo! Unaweza kupandisha au kushusha mpango wako wakati wowote. Mabadiliko yanaanza mzunguko wako ujao wa malipo. Salio la Pay As You Go ambalo halijatumika halipitwi na muda.',
+    },
+    limits: {
+      question: 'Nini hutokea nikizidi vikomo vya mpango wangu?',
+      answer:
+        'Ukizidi vikomo vyako vya mwezi kwenye mpango wa usajili, unaweza kupandisha mpango au kulipia jumbe za ziada kwa viwango vya matumizi. Tutakujulisha kabla hujafikia vikomo vyako.',
+    },
+    annual: {
+      question: 'Mna malipo ya kila mwaka?',
+      answer:
+        'Ndiyo. Lipia mwaka mzima mapema na uokoe 15% kwenye mipango ya Starter na Professional. Unapokea ankara moja ya mwaka, na kiasi cha jumbe zako bado huanza upya kila mwezi.',
+    },
+    setup: {
+      question: 'Kuna ada za kuanzisha?',
+      answer:
+        'Hakuna ada za kuanzisha! Mipango yote ina kila unachohitaji kuanza kuunda na kusimamia matukio mara moja.',
+    },
+    payment: {
+      question: 'Mnapokea njia gani za malipo?',
+      answer:
+        'Tunapokea M-Pesa, kadi za benki, na pesa za simu kutoka kwa watoa huduma wakuu wa Kenya na Tanzania (Airtel Money, Tigopesa).',
+    },
+    trial: {
+      question: 'Kuna kipindi cha majaribio bure?',
+      answer:
+        'Ndiyo! Watumiaji wapya wanapata tukio lao la kwanza bure (hadi mialiko 50) ili kujaribu jukwaa. Hakuna kadi ya benki inayohitajika.',
+    },
+    cancel: {
+      question: 'Naweza kusitisha wakati wowote?',
+      answer:
+        'Bila shaka! Sitisha usajili wako wakati wowote. Utaendelea kutumia huduma hadi mwisho wa kipindi chako cha malipo, na hakuna ada za kusitisha.',
+    },
+    rollover: {
+      question: 'Jumbe ambazo hazijatumika zinahamia mwezi unaofuata?',
+      answer:
+        'Jumbe za mpango wa usajili huanza upya kila mwezi na hazihamii mwezi unaofuata. Hata hivyo, salio la Pay As You Go halipitwi na muda na linaweza kutumika wakati wowote.',
+    },
+  },
+  home: {
+    hero: {
+      badge: 'Kusimamia Matukio Kumerahisishwa',
+      titleStart: 'Tengeneza Kadi za Kuvutia za Matukio na',
+      titleHighlight: 'Simamia RSVP',
+      titleEnd: 'Bila Shida',
+      description:
+        'Tuma mialiko maridadi ya kidijitali kupitia WhatsApp na SMS. Fuatilia RSVP papo hapo na usimamie matukio yako yote mahali pamoja kwenye jukwaa imara na rahisi kutumia.',
+      getStarted: 'Anza Bure',
+      watchDemo: 'Tazama Onyesho',
+      checks: {
+        noCard: 'Hakuna kadi ya benki inayohitajika',
+        freePlan: 'Mpango wa bure daima',
+        setup: 'Unaanza kwa dakika chache',
+      },
+    },
+    features: {
+      eyebrow: 'Huduma',
+      titleStart: 'Kila Unachohitaji',
+      titleHighlight: 'Kusimamia Matukio',
+      description:
+        'Kuanzia kuandaa hadi kutekeleza, tumekuwekea zana imara za kufanya upangaji wa tukio lako uende shwari.',
+      items: {
+        events: {
+          title: 'Kusimamia Matukio',
+          description:
+            'Unda na usimamie matukio mengi kwenye dashibodi rahisi kutumia. Fuatilia kila kitu mahali pamoja.',
+        },
+        messaging: {
+          title: 'WhatsApp na SMS',
+          description:
+            'Tuma mialiko maridadi papo hapo kupitia WhatsApp na SMS. Wafikie wageni wako walipo.',
+        },
+        rsvp: {
+          title: 'Kufuatilia RSVP',
+          description:
+            'Fuatilia majibu papo hapo kwa takwimu za kina. Jua hasa nani atahudhuria tukio lako.',
+        },
+        cards: {
+          title: 'Kadi Maalum',
+          description:
+            'Buni kadi za mwaliko za kuvutia kwa kila tukio. Chagua kiolezo au tengeneza chako.',
+        },
+      },
+    },
+    howItWorks: {
+      eyebrow: 'Jinsi Inavyofanya Kazi',
+      titleStart: 'Anza kwa',
+      titleHighlight: 'Hatua 4 Rahisi',
+      description: 'Kuanzia kuunda tukio hadi kusimamia wageni, tumeifanya iwe rahisi na wazi.',
+      steps: {
+        create: {
+          title: 'Unda Tukio',
+          description: 'Weka maelezo ya tukio lako kwa dakika chache tu',
+        },
+        design: {
+          title: 'Buni Kadi',
+          description: 'Chagua kiolezo maridadi au ubuni chako mwenyewe',
+        },
+        send: {
+          title: 'Tuma Mialiko',
+          description: 'Wafikishie wageni wako wote kupitia WhatsApp na SMS',
+        },
+        track: {
+          title: 'Fuatilia RSVP',
+          description: 'Fuatilia majibu na usimamie orodha ya wageni wako',
+        },
+      },
+    },
+    stats: {
+      events: { label: 'Matukio Yaliyoundwa', description: 'Yanaaminiwa na waandaaji duniani kote' },
+      satisfaction: { label: 'Kiwango cha Kuridhika', description: 'Tunapendwa na jamii yetu' },
+      support: { label: 'Msaada Unapatikana', description: 'Tupo unapotuhitaji' },
+    },
+    testimonials: {
+      eyebrow: 'Shuhuda',
+      titleStart: 'Tunapendwa na',
+      titleHighlight: 'Waandaaji wa Matukio',
+      description: 'Ona watumiaji wetu wanavyosema kuhusu uzoefu wao na Ekadi.',
+      items: {
+        sarah: {
+          role: 'Mpangaji wa Matukio',
+          content:
+            'Ekadi imebadilisha jinsi ninavyosimamia matukio. Muunganiko wa WhatsApp ni wa ajabu, na wateja wangu wanapenda kadi maridadi za mwaliko!',
+        },
+        michael: {
+          role: 'Mratibu wa Harusi',
+          content:
+            'Kufuatilia RSVP kunaniokolea saa nyingi kila wiki. Naona papo hapo nani amejibu. Siwezi kufikiria kupanga matukio bila Ekadi.',
+        },
+        emily: {
+          role: 'Meneja wa Matukio ya Kampuni',
+          content:
+            'Ya kitaalamu, yenye ufanisi, na maridadi. Ekadi inafanya kusimamia matukio kuwe rahisi. Tija ya timu yetu imeongezeka sana!',
+        },
+      },
+    },
+    roleAt: '{role}, {company}',
+    pricing: {
+      eyebrow: 'Bei Rahisi',
+      titleStart: 'Anza Bure,',
+      titleHighlight: 'Kua Ukiwa Tayari',
+      description:
+        'Kila unachohitaji kuanza ni bure kabisa. Pandisha mpango wakati wowote matukio yako yanapokua.',
+      startFree: 'Anza Bure Leo',
+      includes: 'Mpango wa bure unajumuisha:',
+      features: {
+        events: 'Kuunda matukio bila kikomo',
+        messaging: 'Mialiko kwa WhatsApp na SMS',
+        cards: 'Violezo maridadi vya kadi',
+        rsvp: 'Kufuatilia RSVP papo hapo',
+        guests: 'Kusimamia orodha ya wageni',
+        analytics: 'Dashibodi ya takwimu za tukio',
+      },
+    },
+    cta: {
+      title: 'Uko Tayari Kuboresha Matukio Yako?',
+      description:
+        'Jiunge na maelfu ya waandaaji wa matukio wanaotumia Ekadi kuunda kumbukumbu zisizosahaulika na kusimamia matukio bila shida.',
+      button: 'Fungua Akaunti Bure',
+      note: 'Hakuna kadi ya benki inayohitajika • Anza kwa dakika chache',
+    },
+  },
+  errorBoundary: {
+    title: 'Hitilafu Imetokea',
+    message: 'Tumekutana na hitilafu wakati wa kupakia programu. Tafadhali pakia ukurasa upya.',
+    reload: 'Pakia Programu Upya',
+    details: 'Maelezo ya Hitilafu (Uundaji)',
+  },
+  notificationCategories: {
+    new_rsvp: { label: 'RSVP Mpya', description: 'Mgeni anapojibu mwaliko' },
+    daily_digest: {
+      label: 'Muhtasari wa kila siku',
+      description: 'Muhtasari wa RSVP na ujumbe uliowasilishwa katika siku iliyopita',
+    },
+    low_credit: {
+      label: 'Salio la chini',
+      description: 'Salio lako la ujumbe linapokaribia kuisha',
+    },
+    plan_limit: {
+      label: 'Onyo la kikomo cha mpango',
+      description: 'Unapokaribia idadi ya matukio au wageni mpango wako unaruhusu',
+    },
+    security: {
+      label: 'Tahadhari za usalama',
+      description: 'Kuingia kutoka vifaa vipya na kubadilisha nenosiri',
+    },
+  },
+};
+
+export default sw;
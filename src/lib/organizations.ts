@@ -0,0 +1,308 @@
+/**
+ * Ekadi Platform Organization Workspace API
+ *
+ * This module provides functions for team workspaces on business accounts.
+ * Members of a workspace share its events; what each member can do is set
+ * by their role (owner, admin, planner or viewer). All functions use the
+ * configured apiClient which includes authentication, error handling, and
+ * automatic token refresh.
+ *
+ * Features:
+ * - List and create workspaces
+ * - List members, change roles and remove members
+ * - Invite teammates by email and manage pending invitations
+ * - Accept an invitation from the invitation email
+ * - Role permission and display helpers
+ *
+ * @module organizations
+ */
+
+import apiClient from './api';
+import { API_ENDPOINTS, ORGANIZATION_ROLES } from './constants';
+import { translate } from './i18n';
+import type {
+  Organization,
+  OrganizationInvitation,
+  OrganizationInviteData,
+  OrganizationMember,
+  OrganizationRole,
+} from '@/src/types';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the workspaces the user belongs to
+ *
+ * @returns Promise resolving to array of organizations, with the user's role in each
+ * @throws ApiError if request fails
+ */
+export const getOrganizations = async (): Promise<Organization[]> => {
+  try {
+    const response = await apiClient.get<Organization[] | { results: Organization[] }>(
+      API_ENDPOINTS.ORGANIZATIONS.LIST_CREATE
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching organizations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create a workspace (business accounts only)
+ *
+ * The user becomes its owner.
+ *
+ * @param name - Workspace name
+ * @returns Promise resolving to the created organization
+ * @throws ApiError if the account is not a business account or validation fails
+ *
+ * @example
+ * ```typescript
+ * const organization = await createOrganization('Tukio Events Ltd');
+ * ```
+ */
+export const createOrganization = async (name: string): Promise<Organization> => {
+  try {
+    const response = await apiClient.post<Organization>(
+      API_ENDPOINTS.ORGANIZATIONS.LIST_CREATE,
+      { name }
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get the members of a workspace
+ *
+ * @param organizationId - Organization ID
+ * @returns Promise resolving to array of members
+ * @throws ApiError if request fails
+ */
+export const getOrganizationMembers = async (
+  organizationId: number
+): Promise<OrganizationMember[]> => {
+  try {
+    const response = await apiClient.get<OrganizationMember[] | { results: OrganizationMember[] }>(
+      API_ENDPOINTS.ORGANIZATIONS.MEMBERS(organizationId)
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching organization members:', error);
+    throw error;
+  }
+};
+
+/**
+ * Change a member's role (owners and admins only)
+ *
+ * @param organizationId - Organization ID
+ * @param memberId - Membership ID
+ * @param role - New role
+ * @returns Promise resolving to the updated member
+ * @throws ApiError if not allowed or request fails
+ */
+export const updateMemberRole = async (
+  organizationId: number,
+  memberId: number,
+  role: Exclude<OrganizationRole, 'owner'>
+): Promise<OrganizationMember> => {
+  try {
+    const response = await apiClient.patch<OrganizationMember>(
+      API_ENDPOINTS.ORGANIZATIONS.MEMBER_DETAIL(organizationId, memberId),
+      { role }
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Remove a member from a workspace (owners and admins only)
+ *
+ * The events they created stay in the workspace.
+ *
+ * @param organizationId - Organization ID
+ * @param memberId - Membership ID
+ * @returns Promise resolving when removal is complete
+ * @throws ApiError if not allowed or request fails
+ */
+export const removeMember = async (organizationId: number, memberId: number): Promise<void> => {
+  try {
+    await apiClient.delete(API_ENDPOINTS.ORGANIZATIONS.MEMBER_DETAIL(organizationId, memberId));
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get the pending invitations of a workspace (owners and admins only)
+ *
+ * @param organizationId - Organization ID
+ * @returns Promise resolving to array of pending invitations
+ * @throws ApiError if request fails
+ */
+export const getOrganizationInvitations = async (
+  organizationId: number
+): Promise<OrganizationInvitation[]> => {
+  try {
+    const response = await apiClient.get<
+      OrganizationInvitation[] | { results: OrganizationInvitation[] }
+    >(API_ENDPOINTS.ORGANIZATIONS.INVITATIONS(organizationId));
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching organization invitations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Invite a teammate by email (owners and admins only)
+ *
+ * The backend emails a link to ROUTES.PROTECTED.TEAM_JOIN; the invitee
+ * signs up or logs in and joins with the given role.
+ *
+ * @param organizationId - Organization ID
+ * @param data - Email address and role
+ * @returns Promise resolving to the pending invitation
+ * @throws ApiError if the email is already a member or invited, or request fails
+ *
+ * @example
+ * ```typescript
+ * await inviteMember(1, { email: 'amina@example.com', role: 'planner' });
+ * ```
+ */
+export const inviteMember = async (
+  organizationId: number,
+  data: OrganizationInviteData
+): Promise<OrganizationInvitation> => {
+  try {
+    const response = await apiClient.post<OrganizationInvitation>(
+      API_ENDPOINTS.ORGANIZATIONS.INVITATIONS(organizationId),
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Cancel a pending invitation (owners and admins only)
+ *
+ * @param organizationId - Organization ID
+ * @param invitationId - Invitation ID
+ * @returns Promise resolving when the invitation is cancelled
+ * @throws ApiError if request fails
+ */
+export const cancelInvitation = async (
+  organizationId: number,
+  invitationId: number
+): Promise<void> => {
+  try {
+    await apiClient.delete(
+      API_ENDPOINTS.ORGANIZATIONS.INVITATION_DETAIL(organizationId, invitationId)
+    );
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Accept an invitation to join a workspace
+ *
+ * @param token - Token from the invitation email link
+ * @returns Promise resolving to the joined organization
+ * @throws ApiError if the token is invalid, expired, or for another email address
+ */
+export const acceptInvitation = async (token: string): Promise<Organization> => {
+  try {
+    const response = await apiClient.post<Organization>(
+      API_ENDPOINTS.ORGANIZATIONS.ACCEPT_INVITATION(token)
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Check whether a role can create, edit, close and delete events
+ *
+ * @param role - Member role
+ * @returns False for viewers
+ */
+export const canManageEvents = (role: OrganizationRole): boolean => {
+  return role !== 'viewer';
+};
+
+/**
+ * Check whether a role can invite, remove and change the roles of members
+ *
+ * @param role - Member role
+ * @returns True for owners and admins
+ */
+export const canManageMembers = (role: OrganizationRole): boolean => {
+  return role === 'owner' || role === 'admin';
+};
+
+/**
+ * Get display label and badge color for a role
+ *
+ * @param role - Member role
+ * @returns Label, Chakra color scheme and description
+ */
+export const getRoleDisplay = (
+  role: OrganizationRole
+): { label: string; color: string; description: string } => {
+  const match = ORGANIZATION_ROLES.find((item) => item.value === role);
+  return match
+    ? {
+        label: translate(`roles.${match.value}.label`),
+        color: match.color,
+        description: translate(`roles.${match.value}.description`),
+      }
+    : { label: role, color: 'gray', description: '' };
+};
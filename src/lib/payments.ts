@@ -0,0 +1,141 @@
+/**
+ * Ekadi Platform Payments API
+ *
+ * This module provides functions for paying with M-Pesa. Checkout sends an
+ * STK push (a payment prompt) to the customer's phone; the transaction
+ * stays 'pending' until they enter their PIN, cancel, or the prompt
+ * expires, so callers poll its status until it is final.
+ *
+ * Requests go to API_CONFIG.PAYMENTS_BASE_URL, which can point at the
+ * local mock payments endpoint during development.
+ *
+ * Features:
+ * - Start an M-Pesa STK push for a plan or a Pay As You Go top-up
+ * - Poll transaction status
+ * - Outcome messages for success, cancellation, insufficient funds and timeout
+ *
+ * @module payments
+ */
+
+import apiClient from './api';
+import { API_CONFIG, API_ENDPOINTS } from './constants';
+import { translate } from './i18n';
+import type { MpesaCheckoutPayload, PaymentStatus, PaymentTransaction } from '@/src/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Outcome colors by payment status; texts live in the paymentOutcomes messages */
+const PAYMENT_OUTCOME_COLORS: Record<PaymentStatus, string> = {
+  pending: 'blue',
+  success: 'green',
+  cancelled: 'orange',
+  insufficient_funds: 'red',
+  timeout: 'orange',
+  failed: 'red',
+};
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Start an M-Pesa checkout
+ *
+ * Sends an STK push to the phone number. The returned transaction is
+ * 'pending'; poll getPaymentTransaction until isPaymentFinal.
+ *
+ * @param payload - What to pay for and the phone number to charge
+ * @returns Promise resolving to the pending transaction
+ * @throws ApiError if the request is invalid or M-Pesa is unavailable
+ *
+ * @example
+ * ```typescript
+ * const transaction = await startMpesaCheckout({
+ *   purpose: 'subscription',
+ *   plan: 'starter',
+ *   phone_number: '+254712345678',
+ * });
+ * ```
+ */
+export const startMpesaCheckout = async (
+  payload: MpesaCheckoutPayload
+): Promise<PaymentTransaction> => {
+  try {
+    const response = await apiClient.post<PaymentTransaction>(
+      API_ENDPOINTS.PAYMENTS.MPESA_STK_PUSH,
+      payload,
+      { baseURL: API_CONFIG.PAYMENTS_BASE_URL }
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Get the current status of a payment transaction
+ *
+ * @param transactionId - Transaction ID returned by startMpesaCheckout
+ * @returns Promise resolving to the transaction
+ * @throws ApiError if request fails
+ */
+export const getPaymentTransaction = async (
+  transactionId: string
+): Promise<PaymentTransaction> => {
+  try {
+    const response = await apiClient.get<PaymentTransaction>(
+      API_ENDPOINTS.PAYMENTS.TRANSACTION(transactionId),
+      { baseURL: API_CONFIG.PAYMENTS_BASE_URL }
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Check whether a transaction has reached its final status
+ *
+ * @param status - Transaction status
+ * @returns True for every status except 'pending'
+ */
+export const isPaymentFinal = (status: PaymentStatus): boolean => {
+  return status !== 'pending';
+};
+
+/**
+ * Get the message shown to the customer for a transaction status
+ *
+ * @param status - Transaction status
+ * @returns Title, description and Chakra color scheme
+ */
+export const getPaymentOutcome = (
+  status: PaymentStatus
+): { title: string; description: string; color: string } => {
+  const outcome = status in PAYMENT_OUTCOME_COLORS ? status : 'failed';
+  return {
+    title: translate(`paymentOutcomes.${outcome}.title`),
+    description: translate(`paymentOutcomes.${outcome}.description`),
+    color: PAYMENT_OUTCOME_COLORS[outcome],
+  };
+};
+
+/**
+ * Get the seconds left before an unanswered STK prompt expires
+ *
+ * @param transaction - Pending transaction
+ * @param now - Current time in milliseconds
+ * @returns Whole seconds left (never negative)
+ */
+export const getPaymentSecondsLeft = (
+  transaction: Pick<PaymentTransaction, 'expires_at'>,
+  now: number = Date.now()
+): number => {
+  return Math.max(Math.ceil((new Date(transaction.expires_at).getTime() - now) / 1000), 0);
+};
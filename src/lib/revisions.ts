@@ -0,0 +1,151 @@
+/**
+ * Ekadi Platform Event Revision API
+ *
+ * This module provides the change history of an event. The backend records
+ * a revision with the old and new value of every field each time an event
+ * is updated, so a silently changed date or venue can be traced and undone.
+ * All functions use the configured apiClient which includes authentication,
+ * error handling, and automatic token refresh.
+ *
+ * Features:
+ * - List the revisions of an event
+ * - Restore the values a revision replaced
+ * - Field label and value formatting helpers
+ *
+ * @module revisions
+ */
+
+import apiClient from './api';
+import { API_ENDPOINTS } from './constants';
+import {
+  formatEventDate,
+  formatEventTime,
+  getEventStatusLabel,
+  getEventTypeLabel,
+} from './events';
+import { translate } from './i18n';
+import type { Event, EventFormData, EventRevision, EventRevisionField } from '@/src/types';
+
+/** Optional fields a restore may clear again; required ones can't be emptied */
+const CLEARABLE_FIELDS: EventRevisionField[] = ['event_description'];
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the revisions of an event, newest first
+ *
+ * @param eventId - Event ID
+ * @returns Promise resolving to array of revisions
+ * @throws ApiError if request fails
+ */
+export const getEventRevisions = async (eventId: number): Promise<EventRevision[]> => {
+  try {
+    const response = await apiClient.get<EventRevision[] | { results: EventRevision[] }>(
+      API_ENDPOINTS.EVENTS.REVISIONS(eventId)
+    );
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching event revisions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Restore the values a revision replaced
+ *
+ * Updates the event with the old value of every field the revision
+ * changed. Optional fields that were empty before, such as the description,
+ * are cleared again; required ones such as event_time can't be cleared and
+ * are left as they are. The update is
+ * recorded as a new revision marked with restored_from, so a restore can
+ * be undone the same way. Closed events must be reopened first.
+ *
+ * @param eventId - Event ID
+ * @param revision - Revision to undo
+ * @returns Promise resolving to the updated event
+ * @throws ApiError if the event is closed, validation fails, or request fails
+ *
+ * @example
+ * ```typescript
+ * // Put back the date and venue from before revision 4
+ * await restoreEventRevision(12, revision);
+ * ```
+ */
+export const restoreEventRevision = async (
+  eventId: number,
+  revision: EventRevision
+): Promise<Event> => {
+  const data = revision.changes.reduce<Record<string, string | null>>((values, change) => {
+    if (change.old_value !== null || CLEARABLE_FIELDS.includes(change.field)) {
+      values[change.field] = change.old_value;
+    }
+    return values;
+  }, {});
+
+  try {
+    const response = await apiClient.patch<Event>(API_ENDPOINTS.EVENTS.UPDATE(eventId), {
+      ...(data as Partial<EventFormData>),
+      restored_from: revision.revision_number,
+    });
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the display label of a tracked field
+ *
+ * @param field - Event field
+ * @returns Label, e.g. "Location" for event_location
+ */
+export const getRevisionFieldLabel = (field: EventRevisionField): string => {
+  return translate(`revisionFields.${field}`);
+};
+
+/**
+ * Format a revision value for display
+ *
+ * @param field - Event field the value belongs to
+ * @param value - Value in the API format
+ * @returns Readable value, or "Empty" when there is none
+ *
+ * @example
+ * ```typescript
+ * formatRevisionValue('event_date', '2025-12-25'); // "Dec 25, 2025"
+ * formatRevisionValue('event_time', '14:30:00'); // "2:30 PM"
+ * ```
+ */
+export const formatRevisionValue = (field: EventRevisionField, value: string | null): string => {
+  if (!value) return translate('revisionFields.empty');
+
+  switch (field) {
+    case 'event_date':
+      return formatEventDate(value);
+    case 'event_time':
+      return formatEventTime(value);
+    case 'event_type':
+      return getEventTypeLabel(value);
+    case 'status':
+      return getEventStatusLabel(value);
+    default:
+      return value;
+  }
+};
@@ -0,0 +1,249 @@
+/**
+ * Ekadi Platform RSVP Tracking API
+ *
+ * This module provides functions for tracking guest responses to an event.
+ * Organizer functions use the configured apiClient which includes
+ * authentication, error handling, and automatic token refresh. Guest-facing
+ * functions use publicApiClient and are authorised by the RSVP token alone.
+ *
+ * Features:
+ * - List RSVPs for an event with status and search filters
+ * - Manual override of a guest's response
+ * - Guest-facing RSVP by invitation token (unauthenticated)
+ * - Response summaries and status display helpers
+ *
+ * @module rsvps
+ */
+
+import apiClient, { publicApiClient } from './api';
+import { API_ENDPOINTS, RSVP_STATUSES } from './constants';
+import { translate } from './i18n';
+import type {
+  PublicRsvpInvitation,
+  Rsvp,
+  RsvpResponseData,
+  RsvpStatus,
+  RsvpSummary,
+  RsvpUpdateData,
+} from '@/src/types';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the RSVPs of an event
+ *
+ * Every guest on the event has an RSVP; guests who have not responded
+ * are returned with status 'pending'.
+ *
+ * @param eventId - Event ID the RSVPs belong to
+ * @param filters - Optional filter parameters
+ * @param filters.status - Filter by RSVP status
+ * @param filters.search - Search in guest name, email or phone number
+ * @returns Promise resolving to array of RSVPs
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const rsvps = await getEventRsvps(1);
+ * const attending = await getEventRsvps(1, { status: 'attending' });
+ * ```
+ */
+export const getEventRsvps = async (
+  eventId: number,
+  filters?: {
+    status?: RsvpStatus;
+    search?: string;
+  }
+): Promise<Rsvp[]> => {
+  try {
+    const params = new URLSearchParams();
+
+    if (filters?.status) {
+      params.append('status', filters.status);
+    }
+    if (filters?.search) {
+      params.append('search', filters.search);
+    }
+
+    const queryString = params.toString();
+    const url = `${API_ENDPOINTS.EVENTS.RSVPS(eventId)}${queryString ? `?${queryString}` : ''}`;
+
+    const response = await apiClient.get<Rsvp[] | { results: Rsvp[] }>(url);
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching RSVPs:', error);
+    throw error;
+  }
+};
+
+/**
+ * Manually override a guest's RSVP
+ *
+ * Used when a guest responds outside the platform (phone call, in person).
+ * The backend marks the RSVP as a manual override and stamps responded_at.
+ *
+ * @param eventId - Event ID the RSVP belongs to
+ * @param rsvpId - RSVP ID to update
+ * @param data - New status and optional plus-one count
+ * @returns Promise resolving to the updated RSVP
+ * @throws ApiError if validation fails or request fails
+ *
+ * @example
+ * ```typescript
+ * const rsvp = await updateRsvp(1, 42, { status: 'attending', plus_ones: 1 });
+ * ```
+ */
+export const updateRsvp = async (
+  eventId: number,
+  rsvpId: number,
+  data: RsvpUpdateData
+): Promise<Rsvp> => {
+  try {
+    const response = await apiClient.patch<Rsvp>(
+      API_ENDPOINTS.EVENTS.RSVP_DETAIL(eventId, rsvpId),
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// PUBLIC API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get the invitation behind a guest's RSVP link
+ *
+ * Uses the unauthenticated client - the token in the link identifies
+ * the guest, so no session is required.
+ *
+ * @param token - RSVP token from the invitation link
+ * @returns Promise resolving to the invitation details
+ * @throws ApiError if the token is invalid or request fails
+ *
+ * @example
+ * ```typescript
+ * const invitation = await getRsvpByToken('a1b2c3');
+ * console.log(invitation.event.event_name);
+ * ```
+ */
+export const getRsvpByToken = async (token: string): Promise<PublicRsvpInvitation> => {
+  try {
+    const response = await publicApiClient.get<PublicRsvpInvitation>(
+      API_ENDPOINTS.RSVP.DETAIL(token)
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Submit a guest's response from their RSVP link
+ *
+ * Guests may respond again to change their answer until the event
+ * stops accepting responses.
+ *
+ * @param token - RSVP token from the invitation link
+ * @param data - Guest's answer, plus-ones and optional message
+ * @returns Promise resolving to the updated invitation details
+ * @throws ApiError if validation fails or request fails
+ *
+ * @example
+ * ```typescript
+ * await respondToRsvp('a1b2c3', { status: 'attending', plus_ones: 1 });
+ * ```
+ */
+export const respondToRsvp = async (
+  token: string,
+  data: RsvpResponseData
+): Promise<PublicRsvpInvitation> => {
+  try {
+    const response = await publicApiClient.post<PublicRsvpInvitation>(
+      API_ENDPOINTS.RSVP.RESPOND(token),
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Count RSVPs per status and expected attendees
+ *
+ * @param rsvps - RSVPs of an event
+ * @returns Response counts; total_attendees includes plus-ones of attending guests
+ *
+ * @example
+ * ```typescript
+ * const summary = summarizeRsvps(rsvps);
+ * console.log(summary.attending, summary.total_attendees);
+ * ```
+ */
+export const summarizeRsvps = (rsvps: Rsvp[]): RsvpSummary => {
+  return rsvps.reduce<RsvpSummary>(
+    (summary, rsvp) => {
+      summary[rsvp.status] += 1;
+      if (rsvp.status === 'attending') {
+        summary.total_attendees += 1 + rsvp.plus_ones;
+      }
+      return summary;
+    },
+    { pending: 0, attending: 0, maybe: 0, declined: 0, total_attendees: 0 }
+  );
+};
+
+/**
+ * Get color for RSVP status badge
+ *
+ * Falls back to 'gray' if status is not found.
+ *
+ * @param status - RSVP status string
+ * @returns Color string for badge styling
+ *
+ * @example
+ * ```typescript
+ * getRsvpStatusColor('attending'); // 'green'
+ * getRsvpStatusColor('declined'); // 'red'
+ * ```
+ */
+export const getRsvpStatusColor = (status: string): string => {
+  const rsvpStatus = RSVP_STATUSES.find((rs) => rs.value === status);
+  return rsvpStatus?.color || 'gray';
+};
+
+/**
+ * Get display label for RSVP status
+ *
+ * @param status - RSVP status string
+ * @returns Human-readable label
+ *
+ * @example
+ * ```typescript
+ * getRsvpStatusLabel('maybe'); // 'Maybe'
+ * ```
+ */
+export const getRsvpStatusLabel = (status: string): string => {
+  const rsvpStatus = RSVP_STATUSES.find((rs) => rs.value === status);
+  return rsvpStatus ? translate(`rsvpStatuses.${rsvpStatus.value}.label`) : status;
+};
@@ -0,0 +1,218 @@
+/**
+ * Ekadi Platform Message Template API
+ *
+ * This module provides the message template library: invitation texts
+ * saved per event type and channel so planners don't retype them for every
+ * event. Each template has an English and an optional Swahili variant with
+ * the same merge fields as the send flow. All API functions use the
+ * configured apiClient which includes authentication, error handling, and
+ * automatic token refresh.
+ *
+ * Features:
+ * - List, create, update and delete templates
+ * - Pick a template's text in a language
+ * - SMS segment counting for cost warnings
+ *
+ * @module templates
+ */
+
+import apiClient from './api';
+import { API_ENDPOINTS, SMS_SEGMENT_LIMITS } from './constants';
+import type {
+  EventType,
+  InvitationChannel,
+  MessageTemplate,
+  MessageTemplateContent,
+  MessageTemplateFormData,
+  SmsSegmentInfo,
+  TemplateLanguage,
+} from '@/src/types';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Characters of the GSM 7-bit default alphabet (one character each) */
+const GSM_BASIC_CHARACTERS =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+
+/** Characters of the GSM extension table (sent as two characters each) */
+const GSM_EXTENDED_CHARACTERS = '^{}\\[~]|€\f';
+
+// ============================================================================
+// API FUNCTIONS
+// ============================================================================
+
+/**
+ * Get message templates
+ *
+ * @param filters - Optional event type and channel to narrow the list
+ * @returns Promise resolving to array of templates
+ * @throws ApiError if request fails
+ *
+ * @example
+ * ```typescript
+ * const weddingSms = await getMessageTemplates({ event_type: 'wedding', channel: 'sms' });
+ * ```
+ */
+export const getMessageTemplates = async (filters?: {
+  event_type?: EventType;
+  channel?: InvitationChannel;
+}): Promise<MessageTemplate[]> => {
+  try {
+    const params = new URLSearchParams();
+
+    if (filters?.event_type) {
+      params.append('event_type', filters.event_type);
+    }
+
+    if (filters?.channel) {
+      params.append('channel', filters.channel);
+    }
+
+    const queryString = params.toString();
+    const url = `${API_ENDPOINTS.TEMPLATES.LIST_CREATE}${queryString ? `?${queryString}` : ''}`;
+
+    const response = await apiClient.get<MessageTemplate[] | { results: MessageTemplate[] }>(url);
+
+    if (Array.isArray(response.data)) {
+      return response.data;
+    }
+
+    // Handle paginated responses
+    if (response.data && typeof response.data === 'object' && 'results' in response.data) {
+      return response.data.results || [];
+    }
+
+    console.warn('Unexpected API response format:', response.data);
+    return [];
+  } catch (error) {
+    console.error('Error fetching message templates:', error);
+    throw error;
+  }
+};
+
+/**
+ * Save a new message template
+ *
+ * @param data - Template name, event type, channel and text
+ * @returns Promise resolving to the created template
+ * @throws ApiError if validation fails or request fails
+ */
+export const createMessageTemplate = async (
+  data: MessageTemplateFormData
+): Promise<MessageTemplate> => {
+  try {
+    const response = await apiClient.post<MessageTemplate>(
+      API_ENDPOINTS.TEMPLATES.LIST_CREATE,
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Update a message template
+ *
+ * @param id - Template ID
+ * @param data - Template name, event type, channel and text
+ * @returns Promise resolving to the updated template
+ * @throws ApiError if validation fails or request fails
+ */
+export const updateMessageTemplate = async (
+  id: number,
+  data: MessageTemplateFormData
+): Promise<MessageTemplate> => {
+  try {
+    const response = await apiClient.patch<MessageTemplate>(
+      API_ENDPOINTS.TEMPLATES.DETAIL(id),
+      data
+    );
+    return response.data;
+  } catch (error) {
+    throw error;
+  }
+};
+
+/**
+ * Delete a message template
+ *
+ * Messages already sent with it are not affected.
+ *
+ * @param id - Template ID
+ * @returns Promise resolving when deletion is complete
+ * @throws ApiError if request fails
+ */
+export const deleteMessageTemplate = async (id: number): Promise<void> => {
+  try {
+    await apiClient.delete(API_ENDPOINTS.TEMPLATES.DETAIL(id));
+  } catch (error) {
+    throw error;
+  }
+};
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Get a template's text in a language
+ *
+ * Falls back to English when the template has no Swahili variant.
+ *
+ * @param template - Message template
+ * @param language - Preferred language
+ * @returns Subject and body
+ */
+export const getTemplateContent = (
+  template: Pick<MessageTemplate, 'variants'>,
+  language: TemplateLanguage
+): MessageTemplateContent => {
+  return (language === 'sw' && template.variants.sw) || template.variants.en;
+};
+
+/**
+ * Count the SMS segments a message is split into
+ *
+ * Uses the GSM 7-bit alphabet when every character is in it (extension
+ * characters such as € count twice), otherwise Unicode.
+ *
+ * @param text - Message text with merge fields already replaced
+ * @returns Encoding, length, segments and characters left in the last segment
+ *
+ * @example
+ * ```typescript
+ * getSmsSegmentInfo('a'.repeat(161)); // { encoding: 'gsm', length: 161, segments: 2, remaining: 145 }
+ * getSmsSegmentInfo('Karibu 🎉'); // { encoding: 'unicode', length: 9, segments: 1, remaining: 61 }
+ * ```
+ */
+export const getSmsSegmentInfo = (text: string): SmsSegmentInfo => {
+  let gsmLength = 0;
+  let isGsm = true;
+
+  for (const character of text) {
+    if (GSM_BASIC_CHARACTERS.includes(character)) {
+      gsmLength += 1;
+    } else if (GSM_EXTENDED_CHARACTERS.includes(character)) {
+      gsmLength += 2;
+    } else {
+      isGsm = false;
+      break;
+    }
+  }
+
+  const encoding = isGsm ? 'gsm' : 'unicode';
+  // Unicode SMS count UTF-16 code units, so an emoji takes two
+  const length = isGsm ? gsmLength : text.length;
+  const limits = SMS_SEGMENT_LIMITS[encoding];
+
+  if (length <= limits.single) {
+    return { encoding, length, segments: length > 0 ? 1 : 0, remaining: limits.single - length };
+  }
+
+  const segments = Math.ceil(length / limits.multipart);
+  return { encoding, length, segments, remaining: segments * limits.multipart - length };
+};
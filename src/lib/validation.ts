@@ -0,0 +1,90 @@
+/**
+ * Ekadi Platform Shared Validation
+ *
+ * Zod schemas and normalisation helpers shared between forms.
+ * Keeping them here ensures registration, profile and guest forms
+ * accept and submit phone numbers in exactly the same format.
+ *
+ * @module validation
+ */
+
+import { z } from 'zod';
+import { COUNTRY_CODES } from './constants';
+import { translate } from './i18n';
+
+// ============================================================================
+// PHONE NUMBERS
+// ============================================================================
+
+/**
+ * Local part of a phone number as typed by the user (without country code)
+ * Digits and spaces only, e.g. "712 345 678" or "0712345678"
+ *
+ * Messages are functions so they are translated when the form validates.
+ */
+export const phoneNumberSchema = z
+  .string()
+  .min(1, { error: () => translate('validation.phoneRequired') })
+  .regex(/^[0-9 ]+$/, { error: () => translate('validation.phoneDigits') })
+  .min(4, { error: () => translate('validation.phoneMin') })
+  .max(20, { error: () => translate('validation.phoneMax') });
+
+/**
+ * Country code restricted to the supported COUNTRY_CODES values
+ */
+export const countryCodeSchema = z
+  .string()
+  .min(1, { error: () => translate('validation.countryCodeRequired') })
+  .refine((value) => COUNTRY_CODES.some((code) => code.value === value), {
+    error: () => translate('validation.countryCodeUnsupported'),
+  });
+
+/**
+ * Combine a country code and a locally-typed phone number into
+ * the international format expected by the backend
+ *
+ * Strips whitespace and a single leading trunk zero.
+ *
+ * @param countryCode - Country code from COUNTRY_CODES (e.g. "+254")
+ * @param phoneNumber - Local phone number as typed (e.g. "0712 345 678")
+ * @returns International phone number (e.g. "+254712345678")
+ *
+ * @example
+ * ```typescript
+ * formatPhoneNumber('+254', '0712 345 678'); // "+254712345678"
+ * formatPhoneNumber('+255', '754123456');    // "+255754123456"
+ * ```
+ */
+export const formatPhoneNumber = (countryCode: string, phoneNumber: string): string => {
+  let localNumber = phoneNumber.replace(/\s+/g, '').trim();
+  if (localNumber.startsWith('0')) {
+    localNumber = localNumber.substring(1);
+  }
+  return `${countryCode}${localNumber}`;
+};
+
+/**
+ * Split an international phone number back into its country code
+ * and local part, for pre-filling edit forms
+ *
+ * @param phoneNumber - International phone number (e.g. "+254712345678")
+ * @returns Country code and local number; falls back to the first
+ *          COUNTRY_CODES entry when the prefix is not recognised
+ *
+ * @example
+ * ```typescript
+ * splitPhoneNumber('+254712345678'); // { country_code: '+254', phone_number: '712345678' }
+ * ```
+ */
+export const splitPhoneNumber = (
+  phoneNumber: string
+): { country_code: string; phone_number: string } => {
+  const match = COUNTRY_CODES.find((code) => phoneNumber.startsWith(code.value));
+  if (match) {
+    return {
+      country_code: match.value,
+      phone_number: phoneNumber.slice(match.value.length),
+    };
+  }
+  return { country_code: COUNTRY_CODES[0].value, phone_number: phoneNumber };
+};
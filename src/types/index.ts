@@ -6,6 +6,8 @@
  * easy maintenance and discovery.
  */
 
+import type { Messages } from '@/src/lib/locales/en';
+
 // ============================================================================
 // 1. USER TYPES
 // ============================================================================
@@ -32,8 +34,41 @@ export interface UserProfile {
   profile_picture?: string | null;
   /** Short biography or description */
   bio?: string | null;
+  /** Preferred interface language */
+  locale: Locale;
+  /** Which notifications the user receives, per channel */
+  notification_preferences?: NotificationPreferences;
 }
 
+/**
+ * Interface language
+ */
+export type Locale = 'en' | 'sw';
+
+/**
+ * Kinds of account notification the user can opt in or out of
+ */
+export type NotificationCategory =
+  | 'new_rsvp'
+  | 'daily_digest'
+  | 'low_credit'
+  | 'plan_limit'
+  | 'security';
+
+/**
+ * Channels account notifications are delivered through
+ */
+export type NotificationPreferenceChannel = 'email' | 'sms';
+
+/**
+ * Notification preferences
+ * Whether each category is sent on each channel
+ */
+export type NotificationPreferences = Record<
+  NotificationCategory,
+  Record<NotificationPreferenceChannel, boolean>
+>;
+
 /**
  * User interface
  * Represents the authenticated user with nested profile data
@@ -144,6 +179,8 @@ export interface ApiError {
   status?: number;
   /** Raw field-level validation errors from DRF */
   fieldErrors?: Record<string, any>;
+  /** Plan limit that was reached (set when error is 'Quota Exceeded') */
+  quota?: QuotaExceededDetails;
   /** Field-specific validation errors (allows any additional fields) */
   [key: string]: any;
 }
@@ -261,6 +298,38 @@ export interface AuthContextType {
   refreshUserData: () => Promise<void>;
 }
 
+/**
+ * Locale context type
+ * Holds the interface language and the translate function
+ */
+export interface LocaleContextType {
+  /** Current interface language */
+  locale: Locale;
+  /** Switch the interface language (saved to the profile when logged in) */
+  setLocale: (locale: Locale) => Promise<void>;
+  /** Translate a message key, replacing {placeholders} with params */
+  t: (key: TranslationKey, params?: TranslationParams) => string;
+}
+
+/**
+ * Organization context type
+ * Holds the team workspace that API requests are scoped to
+ */
+export interface OrganizationContextType {
+  /** Workspaces the user belongs to */
+  organizations: Organization[];
+  /** Active workspace (null for the user's personal events) */
+  activeOrganization: Organization | null;
+  /** ID of the active workspace, set before the workspaces load (null for personal) */
+  activeOrganizationId: number | null;
+  /** Whether workspaces are being loaded */
+  loading: boolean;
+  /** Switch workspace (null for personal) */
+  switchOrganization: (organizationId: number | null) => void;
+  /** Reload the user's workspaces */
+  refreshOrganizations: () => Promise<Organization[]>;
+}
+
 /**
  * Theme mode
  * Application theme options
@@ -335,6 +404,35 @@ export type DeepPartial<T> = {
   [P in keyof T]?: T[P] extends object ? DeepPartial<T[P]> : T[P];
 };
 
+/**
+ * Translation message with singular and plural forms
+ * Picked by the count param when translating
+ */
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
+
+/**
+ * Dotted paths to the messages of a translation dictionary
+ * e.g. 'nav.dashboard' for { nav: { dashboard: 'Dashboard' } }
+ */
+type MessagePaths<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage
+    ? K
+    : `${K}.${MessagePaths<T[K]>}`;
+}[keyof T & string];
+
+/**
+ * Key of a translated message
+ */
+export type TranslationKey = MessagePaths<Messages>;
+
+/**
+ * Values for the {placeholders} of a translated message
+ */
+export type TranslationParams = Record<string, string | number>;
+
 /**
  * Async function state
  * Tracks the state of an async function execution
@@ -393,6 +491,10 @@ export interface Event {
   created_by: number;
   /** Full name of the event creator */
   created_by_name: string;
+  /** Workspace the event belongs to (null for personal events) */
+  organization: number | null;
+  /** Name of the workspace the event belongs to */
+  organization_name: string | null;
   /** Total number of invitations sent */
   total_invitations: number;
   /** Total number of RSVPs received */
@@ -437,6 +539,10 @@ export interface EventListItem {
   status_display: string;
   /** Full name of the event creator */
   created_by_name: string;
+  /** Workspace the event belongs to (null for personal events) */
+  organization: number | null;
+  /** Name of the workspace the event belongs to */
+  organization_name: string | null;
   /** Whether the event is scheduled for the future */
   is_upcoming: boolean;
   /** Whether the event has already occurred */
@@ -460,6 +566,10 @@ export interface EventDetail extends Omit<Event, 'created_by'> {
   response_rate: number;
   /** Full user object of the event creator */
   created_by: User;
+  /** The current user's role for this event ('owner' for their personal events) */
+  user_role: OrganizationRole;
+  /** The current user's co-host permission, or null if they are not a co-host */
+  collaborator_permission: CollaboratorPermission | null;
 }
 
 /**
@@ -482,6 +592,8 @@ export interface EventFormData {
   event_description?: string;
   /** Current status of the event */
   status: EventStatus;
+  /** Workspace to create the event in (omit for a personal event) */
+  organization?: number | null;
 }
 
 /**
@@ -508,3 +620,1256 @@ export interface EventStats {
   total_confirmations: number;
 }
 
+// ============================================================================
+// 8. GUEST TYPES
+// ============================================================================
+
+/**
+ * Guest interface
+ * Represents a single invitee on an event's guest list
+ */
+export interface Guest {
+  /** Unique guest identifier */
+  id: number;
+  /** ID of the event the guest belongs to */
+  event: number;
+  /** Guest's full name as it should appear on invitations */
+  full_name: string;
+  /** Optional email address */
+  email?: string | null;
+  /** Contact phone number in international format */
+  phone_number: string;
+  /** Number of additional people the guest may bring */
+  plus_ones: number;
+  /** Optional internal notes (table, side of family, etc.) */
+  notes?: string | null;
+  /** Timestamp of the most recent invitation sent to the guest (null if never invited) */
+  invited_at: string | null;
+  /** Signed token encoded in the guest's check-in QR code */
+  check_in_token: string;
+  /** Timestamp when the guest arrived at the venue (null if not checked in) */
+  checked_in_at: string | null;
+  /** Timestamp when the guest was added */
+  created_at: string;
+  /** Timestamp when the guest was last updated */
+  updated_at: string;
+}
+
+/**
+ * Guest form data interface
+ * Used for creating and updating guests
+ * Contains only editable fields
+ */
+export interface GuestFormData {
+  /** Guest's full name */
+  full_name: string;
+  /** Optional email address */
+  email?: string;
+  /** Contact phone number in international format */
+  phone_number: string;
+  /** Number of additional people the guest may bring */
+  plus_ones: number;
+  /** Optional internal notes */
+  notes?: string;
+}
+
+/**
+ * Guest field that a spreadsheet column can be mapped to during import
+ */
+export type GuestImportField = 'full_name' | 'email' | 'phone_number' | 'plus_ones' | 'notes';
+
+/**
+ * Column mapping for a guest import
+ * Maps each guest field to a zero-based column index (null if unmapped)
+ */
+export type GuestImportMapping = Record<GuestImportField, number | null>;
+
+/**
+ * Parsed spreadsheet
+ * Header row plus data rows, with every cell converted to a string
+ */
+export interface ParsedSheet {
+  /** Column headers from the first row */
+  headers: string[];
+  /** Data rows (excluding the header row and blank rows) */
+  rows: string[][];
+  /** 1-based row number in the file of each data row (header is row 1) */
+  rowNumbers: number[];
+}
+
+/**
+ * Validated import row
+ * One spreadsheet row after mapping, normalisation and validation
+ */
+export interface GuestImportRow {
+  /** 1-based row number in the original file (header is row 1) */
+  rowNumber: number;
+  /** Raw name and phone cells as they appear in the file */
+  raw: {
+    full_name: string;
+    phone_number: string;
+  };
+  /** Guest data ready to submit (null if the row has errors) */
+  guest: GuestFormData | null;
+  /** Validation errors for the row */
+  errors: string[];
+  /** Set when the row duplicates an earlier row or an existing guest */
+  duplicate: 'file' | 'existing' | null;
+}
+
+// ============================================================================
+// 9. INVITATION TYPES
+// ============================================================================
+
+/**
+ * Invitation delivery channel
+ */
+export type InvitationChannel = 'sms' | 'whatsapp' | 'email';
+
+/**
+ * Which guests an invitation send targets
+ * - all: every guest on the event
+ * - not_invited: guests who have never been sent an invitation
+ * - selected: an explicit list of guest IDs
+ */
+export type InvitationRecipientScope = 'all' | 'not_invited' | 'selected';
+
+/**
+ * Invitation delivery status, as reported back by the SMS, WhatsApp and email providers
+ * - queued: accepted, waiting to be handed to the provider
+ * - sent: handed to the provider
+ * - delivered: reached the guest's phone or inbox
+ * - read: opened by the guest (WhatsApp read receipts, email opens)
+ * - failed: could not be delivered (see failure_reason)
+ */
+export type InvitationStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+/**
+ * Invitation interface
+ * Represents a single invitation sent to a guest
+ */
+export interface Invitation {
+  /** Unique invitation identifier */
+  id: number;
+  /** ID of the guest the invitation was sent to */
+  guest: number;
+  /** Name of the guest the invitation was sent to */
+  guest_name: string;
+  /** Channel the invitation was sent through */
+  channel: InvitationChannel;
+  /** Message text as sent, with merge fields filled in */
+  message: string;
+  /** Current status of the invitation */
+  status: InvitationStatus;
+  /** Why delivery failed, as reported by the provider (null unless failed) */
+  failure_reason: string | null;
+  /** ID of the failed invitation this one retries (null for first sends) */
+  retry_of: number | null;
+  /** Timestamp when the invitation was sent */
+  sent_at: string | null;
+  /** Timestamp when the invitation reached the guest */
+  delivered_at: string | null;
+  /** Timestamp when the guest opened the invitation */
+  read_at: string | null;
+  /** Timestamp when the invitation was created */
+  created_at: string;
+}
+
+/**
+ * Invitation counts by delivery status with rates
+ * Rates are percentages of all invitations
+ */
+export interface DeliverySummary {
+  /** Total invitations */
+  total: number;
+  /** Invitations waiting to be sent */
+  queued: number;
+  /** Invitations handed to the provider without a delivery report yet */
+  sent: number;
+  /** Invitations that reached the guest but were not opened */
+  delivered: number;
+  /** Invitations opened by the guest */
+  read: number;
+  /** Invitations that could not be delivered */
+  failed: number;
+  /** Share of invitations delivered (including read) */
+  delivery_rate: number;
+  /** Share of invitations read */
+  read_rate: number;
+  /** Share of invitations that failed */
+  failure_rate: number;
+}
+
+/**
+ * Retry failed invitations request payload
+ */
+export interface RetryInvitationsPayload {
+  /** Failed invitations to resend */
+  invitation_ids: number[];
+  /** Fallback channel to resend through (null resends each on its own channel) */
+  channel: InvitationChannel | null;
+}
+
+/**
+ * Retry failed invitations response
+ */
+export interface RetryInvitationsResult {
+  /** Number of invitations queued again */
+  retried_count: number;
+  /** Number of guests that cannot be reached on the chosen channel */
+  skipped_count: number;
+}
+
+/**
+ * Send invitations request payload
+ */
+export interface SendInvitationsPayload {
+  /** Channel to send through */
+  channel: InvitationChannel;
+  /** Which guests to send to */
+  recipient_scope: InvitationRecipientScope;
+  /** Guest IDs (required when recipient_scope is 'selected') */
+  guest_ids?: number[];
+  /** Message body with merge fields (e.g. {{guest_name}}) */
+  message: string;
+  /** Email subject (email channel only) */
+  subject?: string;
+  /** When to send, in ISO 8601 format (omit to send now) */
+  scheduled_at?: string | null;
+}
+
+/**
+ * Send invitations response
+ */
+export interface SendInvitationsResult {
+  /** Number of invitations accepted for delivery (or scheduled) */
+  sent_count: number;
+  /** Number of guests that could not be invited (e.g. missing email) */
+  skipped_count: number;
+  /** Updated total_invitations for the event */
+  total_invitations: number;
+  /** When the invitations will be sent (null if sent now) */
+  scheduled_at: string | null;
+}
+
+/**
+ * Invitation send scheduled for later
+ * Recipients are resolved when the send runs, so guests added meanwhile are included
+ */
+export interface ScheduledSend {
+  /** Unique scheduled send identifier */
+  id: number;
+  /** Channel to send through */
+  channel: InvitationChannel;
+  /** Which guests to send to */
+  recipient_scope: InvitationRecipientScope;
+  /** Number of guests chosen (recipient_scope 'selected' only) */
+  guest_count: number | null;
+  /** Message body with merge fields */
+  message: string;
+  /** When the send runs */
+  scheduled_at: string;
+  /** Full name of the user who scheduled it */
+  created_by_name: string;
+}
+
+// ============================================================================
+// 10. RSVP TYPES
+// ============================================================================
+
+/**
+ * Guest RSVP status
+ */
+export type RsvpStatus = 'pending' | 'attending' | 'declined' | 'maybe';
+
+/**
+ * RSVP interface
+ * Represents a guest's response to an event invitation
+ */
+export interface Rsvp {
+  /** Unique RSVP identifier */
+  id: number;
+  /** ID of the guest the RSVP belongs to */
+  guest: number;
+  /** Full name of the guest */
+  guest_name: string;
+  /** Guest phone number in international format */
+  guest_phone_number: string;
+  /** Guest email address */
+  guest_email?: string | null;
+  /** Current RSVP status */
+  status: RsvpStatus;
+  /** Number of additional people the guest is bringing */
+  plus_ones: number;
+  /** Maximum plus-ones allowed for the guest */
+  plus_ones_allowed: number;
+  /** Optional message left by the guest */
+  message?: string | null;
+  /** Timestamp of the guest's response (null while pending) */
+  responded_at: string | null;
+  /** Whether the status was set manually by the organizer */
+  is_manual_override: boolean;
+  /** Timestamp when the RSVP was last updated */
+  updated_at: string;
+}
+
+/**
+ * RSVP update data interface
+ * Used by organizers to manually override a guest's response
+ */
+export interface RsvpUpdateData {
+  /** New RSVP status */
+  status: RsvpStatus;
+  /** Number of additional people the guest is bringing */
+  plus_ones?: number;
+}
+
+/**
+ * RSVP summary interface
+ * Response counts for an event, computed from its RSVPs
+ */
+export interface RsvpSummary {
+  /** Guests who have not responded */
+  pending: number;
+  /** Guests who will attend */
+  attending: number;
+  /** Guests who might attend */
+  maybe: number;
+  /** Guests who will not attend */
+  declined: number;
+  /** Attending guests plus their plus-ones */
+  total_attendees: number;
+}
+
+/**
+ * Public RSVP invitation interface
+ * What a guest sees when opening their RSVP link (no authentication)
+ */
+export interface PublicRsvpInvitation {
+  /** Full name of the invited guest */
+  guest_name: string;
+  /** Event the guest is invited to */
+  event: Pick<
+    Event,
+    'event_name' | 'event_type' | 'event_location' | 'event_date' | 'event_time' | 'event_description'
+  >;
+  /** Name of the host shown on the invitation */
+  host_name: string;
+  /** Current RSVP status */
+  status: RsvpStatus;
+  /** Number of additional people the guest is bringing */
+  plus_ones: number;
+  /** Maximum plus-ones allowed for the guest */
+  plus_ones_allowed: number;
+  /** Message previously left by the guest */
+  message?: string | null;
+  /** Timestamp of the guest's last response (null while pending) */
+  responded_at: string | null;
+  /** Whether the event still accepts responses (false once closed or past) */
+  accepting_responses: boolean;
+  /** Signed token encoded in the guest's check-in QR code */
+  check_in_token: string;
+}
+
+/**
+ * RSVP response data interface
+ * Submitted by a guest from the public RSVP page
+ */
+export interface RsvpResponseData {
+  /** Guest's answer */
+  status: Extract<RsvpStatus, 'attending' | 'declined'>;
+  /** Number of additional people the guest is bringing (0 when declining) */
+  plus_ones: number;
+  /** Optional message to the host */
+  message?: string;
+}
+
+// ============================================================================
+// 11. CARD DESIGN TYPES
+// ============================================================================
+
+/**
+ * Card color key
+ * Card colors are limited to the THEME.COLORS palette
+ */
+export type CardColor =
+  | 'primary'
+  | 'accent'
+  | 'background'
+  | 'cardBg'
+  | 'textPrimary'
+  | 'textSecondary'
+  | 'success'
+  | 'error'
+  | 'warning'
+  | 'info';
+
+/**
+ * Event field a card text block displays
+ * 'guest_name' is filled in when cards are personalised per guest;
+ * 'custom' blocks display their own text instead
+ */
+export type CardTextBinding =
+  | 'guest_name'
+  | 'event_name'
+  | 'event_type'
+  | 'event_date'
+  | 'event_time'
+  | 'event_location'
+  | 'event_description'
+  | 'custom';
+
+/**
+ * Card text block interface
+ * Positions and sizes are percentages of the card so designs
+ * render identically at any resolution
+ */
+export interface CardTextBlock {
+  /** Client-generated block identifier */
+  id: string;
+  /** Event field the block displays */
+  binding: CardTextBinding;
+  /** Text for custom blocks (ignored for bound blocks) */
+  text: string;
+  /** Distance from the top edge (% of card height) */
+  y: number;
+  /** Font size (% of card width) */
+  font_size: number;
+  /** Font weight */
+  font_weight: 'normal' | 'bold';
+  /** Font family */
+  font_family: 'serif' | 'sans-serif';
+  /** Horizontal alignment */
+  align: 'left' | 'center' | 'right';
+  /** Text color */
+  color: CardColor;
+}
+
+/**
+ * Card border decoration drawn in the accent color
+ */
+export type CardBorderStyle = 'none' | 'solid' | 'double';
+
+/**
+ * Card design interface
+ * An invitation card design saved against an event
+ */
+export interface CardDesign {
+  /** Unique card design identifier */
+  id: number;
+  /** ID of the event the design belongs to */
+  event: number;
+  /** Name of the event the design belongs to */
+  event_name: string;
+  /** Template the design started from */
+  template: EventType;
+  /** Card background color */
+  background_color: CardColor;
+  /** Accent color used for the border decoration */
+  accent_color: CardColor;
+  /** Border decoration */
+  border_style: CardBorderStyle;
+  /** URL of the uploaded background image (null if none) */
+  background_image: string | null;
+  /** Text blocks drawn on the card */
+  text_blocks: CardTextBlock[];
+  /** Timestamp when the design was created */
+  created_at: string;
+  /** Timestamp when the design was last updated */
+  updated_at: string;
+}
+
+/**
+ * Card layout
+ * The parts of a card design needed to draw it
+ */
+export type CardLayout = Pick<
+  CardDesign,
+  'background_color' | 'accent_color' | 'border_style' | 'background_image' | 'text_blocks'
+>;
+
+/**
+ * Event fields that card text blocks can display
+ */
+export type CardEventData = Pick<
+  EventDetail,
+  | 'event_name'
+  | 'event_type_display'
+  | 'event_date'
+  | 'event_time'
+  | 'event_location'
+  | 'event_description'
+>;
+
+/**
+ * Card design form data interface
+ * Used for saving a card design against an event
+ */
+export interface CardDesignFormData {
+  /** Template the design started from */
+  template: EventType;
+  /** Card background color */
+  background_color: CardColor;
+  /** Accent color used for the border decoration */
+  accent_color: CardColor;
+  /** Border decoration */
+  border_style: CardBorderStyle;
+  /** Text blocks drawn on the card */
+  text_blocks: CardTextBlock[];
+  /** New background image to upload */
+  background_image?: File | null;
+  /** Remove the current background image */
+  remove_background_image?: boolean;
+}
+
+/**
+ * Print size for exported cards
+ */
+export type CardPrintSize = 'A5' | 'A6';
+
+/**
+ * File format for exported cards
+ */
+export type CardExportFormat = 'png' | 'pdf';
+
+/**
+ * Card export options
+ */
+export interface CardExportOptions {
+  /** Print size */
+  size: CardPrintSize;
+  /** Add bleed on every side for professional printing */
+  bleed: boolean;
+  /** File format */
+  format: CardExportFormat;
+}
+
+// ============================================================================
+// 12. CHECK-IN TYPES
+// ============================================================================
+
+/**
+ * How a guest was checked in at the venue
+ * - qr: scanned from the guest's QR code
+ * - manual: found by name on the check-in page
+ */
+export type CheckInMethod = 'qr' | 'manual';
+
+/**
+ * Check-in request payload
+ * Identifies the guest by the token from their QR code or by guest ID
+ */
+export interface CheckInPayload {
+  /** How the guest was identified */
+  method: CheckInMethod;
+  /** Signed guest token read from the QR code (method 'qr') */
+  token?: string;
+  /** Guest ID picked from the guest list (method 'manual') */
+  guest_id?: number;
+  /** When the guest was actually checked in (set for check-ins replayed after being offline) */
+  checked_in_at?: string;
+  /** ID of the device that checked the guest in */
+  device_id?: string;
+}
+
+/**
+ * Check-in response
+ * Checking in a guest twice is not an error; the response flags it instead
+ */
+export interface CheckInResult {
+  /** Guest that was checked in */
+  guest: Guest;
+  /** True if the guest had already been checked in before this request */
+  already_checked_in: boolean;
+  /** Updated number of guests checked in for the event */
+  arrived_count: number;
+}
+
+/**
+ * Check-in summary
+ * Arrived vs expected counts for an event
+ */
+export interface CheckInSummary {
+  /** Number of guests checked in so far */
+  arrived_count: number;
+  /** Number of confirmed attendees (same as EventDetail.attendee_count) */
+  attendee_count: number;
+}
+
+/**
+ * Offline check-in cache
+ * Snapshot of an event's check-in data saved on the device (IndexedDB)
+ */
+export interface CheckInCache {
+  /** Event ID (cache key) */
+  event_id: number;
+  /** Event details */
+  event: EventDetail;
+  /** Guest list with check-in state */
+  guests: Guest[];
+  /** Number of guests checked in when the snapshot was saved */
+  arrived_count: number;
+  /** Number of confirmed attendees */
+  attendee_count: number;
+  /** Timestamp when the snapshot was saved */
+  cached_at: string;
+}
+
+/**
+ * Check-in recorded while offline, waiting to be sent to the server
+ */
+export interface PendingCheckIn {
+  /** Queue entry ID (assigned by IndexedDB) */
+  id: number;
+  /** Event ID the guest belongs to */
+  event_id: number;
+  /** Guest that was checked in */
+  guest_id: number;
+  /** Name of the guest (for conflict messages) */
+  guest_name: string;
+  /** Request to replay, including the original check-in time */
+  payload: CheckInPayload;
+}
+
+/**
+ * Check-in conflict
+ * A guest checked in on this device while offline had already been
+ * checked in on another device
+ */
+export interface CheckInConflict {
+  /** Guest checked in twice */
+  guest_id: number;
+  /** Name of the guest */
+  guest_name: string;
+  /** When this device checked the guest in */
+  local_checked_in_at: string;
+  /** When the server recorded the guest's arrival (the earlier check-in) */
+  server_checked_in_at: string | null;
+}
+
+/**
+ * Result of replaying queued check-ins
+ */
+export interface CheckInSyncResult {
+  /** Check-ins accepted by the server */
+  synced: number;
+  /** Check-ins for guests already checked in on another device */
+  conflicts: CheckInConflict[];
+  /** Check-ins the server rejected (e.g. guest removed) */
+  rejected: number;
+  /** Check-ins still queued because the server could not be reached */
+  remaining: number;
+  /** Guests as returned by the server, to refresh the local list */
+  guests: Guest[];
+}
+
+// ============================================================================
+// 13. BILLING TYPES
+// ============================================================================
+
+/**
+ * Billing plan identifier
+ * One per PRICING_PLANS entry
+ */
+export type PlanId = 'payg' | 'starter' | 'professional' | 'enterprise';
+
+/**
+ * How often a subscription is paid
+ */
+export type BillingCycle = 'monthly' | 'annual';
+
+/**
+ * Subscription status
+ */
+export type SubscriptionStatus = 'active' | 'trialing' | 'past_due' | 'cancelled';
+
+/**
+ * Subscription interface
+ * The plan the user is on and their current billing period
+ */
+export interface Subscription {
+  /** Unique subscription identifier */
+  id: number;
+  /** Current plan */
+  plan: PlanId;
+  /** Subscription status */
+  status: SubscriptionStatus;
+  /** How often the plan is paid (monthly for Pay As You Go) */
+  billing_cycle: BillingCycle;
+  /** Start of the current billing period (ISO 8601) */
+  current_period_start: string;
+  /** End of the current billing period (null for Pay As You Go) */
+  current_period_end: string | null;
+  /** Plan that takes over at the end of the period (set by a downgrade) */
+  scheduled_plan: PlanId | null;
+}
+
+/**
+ * Usage metric counted against plan limits
+ * Matches the keys of PRICING_PLANS limits
+ */
+export type UsageMetric = 'events' | 'whatsapp' | 'sms';
+
+/**
+ * Plan limit details returned with a quota-exceeded error
+ */
+export interface QuotaExceededDetails {
+  /** Limit that was reached */
+  metric: UsageMetric;
+  /** Plan allowance for the period */
+  limit: number;
+  /** Amount already used this period */
+  used: number;
+}
+
+/**
+ * Remaining event quota for the current billing period
+ */
+export interface EventQuota {
+  /** Current plan */
+  plan: PlanId;
+  /** Events included per period (null: no limit) */
+  limit: number | null;
+  /** Events created this period */
+  used: number;
+  /** Events left this period (null: no limit) */
+  remaining: number | null;
+  /** End of the period, when the quota resets (ISO 8601) */
+  resets_at: string;
+}
+
+/**
+ * Usage summary interface
+ * What the user has used in the current billing period
+ */
+export interface UsageSummary {
+  /** Start of the period (ISO 8601) */
+  period_start: string;
+  /** End of the period (ISO 8601) */
+  period_end: string;
+  /** Events created */
+  events: number;
+  /** WhatsApp messages sent */
+  whatsapp: number;
+  /** SMS messages sent */
+  sms: number;
+}
+
+/**
+ * Cost of the messages sent on one channel
+ */
+export interface MessageCostLine {
+  /** Delivery channel */
+  channel: InvitationChannel;
+  /** Messages to send */
+  count: number;
+  /** Messages covered by the plan's remaining allowance */
+  included: number;
+  /** Messages charged at Pay As You Go rates */
+  billable: number;
+  /** Pay As You Go rate per message */
+  rate: number;
+  /** Cost of the billable messages */
+  cost: number;
+}
+
+/**
+ * Estimated cost of sending messages on a plan
+ */
+export interface MessageCostEstimate {
+  /** Plan the estimate is for */
+  plan: PlanId;
+  /** Cost per channel (channels with no messages are left out) */
+  lines: MessageCostLine[];
+  /** Messages covered by the plan allowance */
+  included: number;
+  /** Messages charged at Pay As You Go rates */
+  billable: number;
+  /** Total cost, paid from the credit balance */
+  total: number;
+  /** Currency code */
+  currency: string;
+}
+
+/**
+ * Invoice status
+ */
+export type InvoiceStatus = 'paid' | 'open' | 'failed' | 'void';
+
+/**
+ * Invoice interface
+ */
+export interface Invoice {
+  /** Unique invoice identifier */
+  id: number;
+  /** Invoice number shown to the user (e.g. "INV-2025-0042") */
+  number: string;
+  /** What the invoice is for */
+  description: string;
+  /** Amount charged */
+  amount: number;
+  /** Currency code */
+  currency: string;
+  /** Invoice status */
+  status: InvoiceStatus;
+  /** Timestamp when the invoice was issued */
+  issued_at: string;
+  /** Timestamp when the invoice was paid (null if unpaid) */
+  paid_at: string | null;
+  /** Link to the PDF invoice */
+  pdf_url: string | null;
+}
+
+/**
+ * Pay As You Go credit balance
+ */
+export interface WalletBalance {
+  /** Available credit */
+  balance: number;
+  /** Currency code */
+  currency: string;
+}
+
+/**
+ * Wallet ledger entry type
+ */
+export type WalletTransactionType = 'topup' | 'deduction' | 'refund';
+
+/**
+ * Wallet ledger entry
+ *
+ * Top-ups add credit; deductions are charged per message sent for an
+ * event; refunds return credit for messages that failed to deliver.
+ */
+export interface WalletTransaction {
+  /** Entry ID */
+  id: number;
+  /** Entry type */
+  type: WalletTransactionType;
+  /** Amount (positive for top-ups and refunds, negative for deductions) */
+  amount: number;
+  /** Balance after this entry */
+  balance_after: number;
+  /** Currency code */
+  currency: string;
+  /** Human-readable description */
+  description: string;
+  /** Event the messages were sent for (deductions and refunds) */
+  event: number | null;
+  /** Event name (deductions and refunds) */
+  event_name: string | null;
+  /** Channel the messages were sent on (deductions and refunds) */
+  channel: InvitationChannel | null;
+  /** Number of messages charged (deductions and refunds) */
+  message_count: number | null;
+  /** M-Pesa receipt number (top-ups) */
+  mpesa_receipt: string | null;
+  /** Timestamp of the entry */
+  created_at: string;
+}
+
+// ============================================================================
+// 14. PAYMENT TYPES
+// ============================================================================
+
+/**
+ * What a payment is for
+ * - subscription: paying for a plan
+ * - topup: adding Pay As You Go credit
+ */
+export type PaymentPurpose = 'subscription' | 'topup';
+
+/**
+ * M-Pesa transaction status
+ * 'pending' until the customer answers the STK prompt on their phone
+ */
+export type PaymentStatus =
+  | 'pending'
+  | 'success'
+  | 'cancelled'
+  | 'insufficient_funds'
+  | 'timeout'
+  | 'failed';
+
+/**
+ * M-Pesa checkout request payload
+ */
+export interface MpesaCheckoutPayload {
+  /** What the payment is for */
+  purpose: PaymentPurpose;
+  /** Plan to pay for (purpose 'subscription') */
+  plan?: PlanId;
+  /** Billing cycle to pay for (purpose 'subscription') */
+  billing_cycle?: BillingCycle;
+  /** Amount of credit to buy (purpose 'topup') */
+  amount?: number;
+  /** Safaricom phone number in international format that receives the STK push */
+  phone_number: string;
+}
+
+/**
+ * Payment transaction interface
+ * One STK push and its outcome
+ */
+export interface PaymentTransaction {
+  /** Transaction identifier (M-Pesa CheckoutRequestID) */
+  id: string;
+  /** What the payment is for */
+  purpose: PaymentPurpose;
+  /** Plan paid for (purpose 'subscription') */
+  plan: PlanId | null;
+  /** Billing cycle paid for (purpose 'subscription') */
+  billing_cycle: BillingCycle | null;
+  /** Amount charged */
+  amount: number;
+  /** Currency code */
+  currency: string;
+  /** Phone number the STK push was sent to */
+  phone_number: string;
+  /** Current status */
+  status: PaymentStatus;
+  /** Result message from M-Pesa (set once the transaction is final) */
+  result_description: string | null;
+  /** M-Pesa receipt number (set on success) */
+  mpesa_receipt: string | null;
+  /** Timestamp when the STK push was sent */
+  created_at: string;
+  /** Timestamp after which an unanswered prompt times out */
+  expires_at: string;
+}
+
+// ============================================================================
+// 15. ORGANIZATION TYPES
+// ============================================================================
+
+/**
+ * Role of a member in an organization workspace
+ * - owner: everything, including deleting the workspace
+ * - admin: manage members and all events
+ * - planner: create and manage events
+ * - viewer: read-only access to events
+ */
+export type OrganizationRole = 'owner' | 'admin' | 'planner' | 'viewer';
+
+/**
+ * Organization interface
+ * A business workspace whose members share events
+ */
+export interface Organization {
+  /** Unique organization identifier */
+  id: number;
+  /** Organization name (defaults to the owner's company name) */
+  name: string;
+  /** The current user's role in the organization */
+  role: OrganizationRole;
+  /** Number of members, including the owner */
+  member_count: number;
+  /** Timestamp when the organization was created */
+  created_at: string;
+}
+
+/**
+ * Organization member interface
+ */
+export interface OrganizationMember {
+  /** Unique membership identifier */
+  id: number;
+  /** ID of the member's user account */
+  user_id: number;
+  /** Member's email address */
+  email: string;
+  /** Member's first name */
+  first_name: string;
+  /** Member's last name */
+  last_name: string;
+  /** Member's role */
+  role: OrganizationRole;
+  /** Timestamp when the member joined */
+  joined_at: string;
+}
+
+/**
+ * Pending invitation to join an organization
+ */
+export interface OrganizationInvitation {
+  /** Unique invitation identifier */
+  id: number;
+  /** Email address the invitation was sent to */
+  email: string;
+  /** Role the invitee gets on accepting */
+  role: OrganizationRole;
+  /** Full name of the member who sent the invitation */
+  invited_by_name: string;
+  /** Timestamp when the invitation was sent */
+  created_at: string;
+  /** Timestamp after which the invitation link stops working */
+  expires_at: string;
+}
+
+/**
+ * Invite teammate request payload
+ */
+export interface OrganizationInviteData {
+  /** Email address to invite */
+  email: string;
+  /** Role to give the teammate (owner cannot be invited) */
+  role: Exclude<OrganizationRole, 'owner'>;
+}
+
+// ============================================================================
+// 16. EVENT COLLABORATOR TYPES
+// ============================================================================
+
+/**
+ * Co-host permission on a shared event
+ * - edit: edit details, manage guests and send messages
+ * - manage_guests: add, import and update guests
+ * - send: send invitations and reminders
+ * - view: read-only access
+ */
+export type CollaboratorPermission = 'edit' | 'manage_guests' | 'send' | 'view';
+
+/**
+ * Co-host of a single event
+ *
+ * Invitations to an email without an account stay pending until the
+ * invitee signs up.
+ */
+export interface EventCollaborator {
+  /** Unique collaborator identifier */
+  id: number;
+  /** ID of the co-host's user account (null while pending) */
+  user_id: number | null;
+  /** Email address the event was shared with */
+  email: string;
+  /** Co-host's first name (empty while pending) */
+  first_name: string;
+  /** Co-host's last name (empty while pending) */
+  last_name: string;
+  /** What the co-host can do */
+  permission: CollaboratorPermission;
+  /** Whether the co-host has an account yet */
+  status: 'pending' | 'active';
+  /** Timestamp when the event was shared */
+  invited_at: string;
+}
+
+/**
+ * Invite co-host request payload
+ */
+export interface EventCollaboratorInviteData {
+  /** Email address to share the event with */
+  email: string;
+  /** Permission to give the co-host */
+  permission: CollaboratorPermission;
+}
+
+/**
+ * Actions the current user can take on an event
+ * Derived from their workspace role or co-host permission
+ */
+export interface EventAccess {
+  /** Edit details, close and reopen the event */
+  canEdit: boolean;
+  /** Add, import and update guests */
+  canManageGuests: boolean;
+  /** Check guests in at the door */
+  canCheckIn: boolean;
+  /** Send invitations and reminders */
+  canSend: boolean;
+  /** Share the event with co-hosts and revoke their access */
+  canManageCollaborators: boolean;
+  /** Delete the event */
+  canDelete: boolean;
+}
+
+// ============================================================================
+// 17. ACTIVITY TYPES
+// ============================================================================
+
+/**
+ * Kind of change recorded in the activity feed
+ */
+export type ActivityAction =
+  | 'event_created'
+  | 'event_updated'
+  | 'event_closed'
+  | 'event_reopened'
+  | 'event_deleted'
+  | 'invitations_sent'
+  | 'rsvp_received';
+
+/**
+ * Activity feed entry
+ * One change to an event, recorded by the backend
+ */
+export interface ActivityEntry {
+  /** Unique entry identifier */
+  id: number;
+  /** What happened */
+  action: ActivityAction;
+  /** Who did it (the guest's name for RSVPs) */
+  actor_name: string;
+  /** Event the entry is about */
+  event_id: number;
+  /** Event name at the time of the entry (kept after the event is deleted) */
+  event_name: string;
+  /** Human-readable summary, e.g. "Sent 120 SMS invitations" */
+  description: string;
+  /** Timestamp of the change */
+  created_at: string;
+}
+
+// ============================================================================
+// 18. EVENT REVISION TYPES
+// ============================================================================
+
+/**
+ * Event field tracked in the change history
+ */
+export type EventRevisionField = Exclude<keyof EventFormData, 'organization'>;
+
+/**
+ * One field changed by a revision
+ * Values are sent as strings in the API format (e.g. dates as YYYY-MM-DD)
+ */
+export interface EventFieldChange {
+  /** Field that changed */
+  field: EventRevisionField;
+  /** Value before the change (null if it was empty) */
+  old_value: string | null;
+  /** Value after the change (null if it was cleared) */
+  new_value: string | null;
+}
+
+/**
+ * Event revision interface
+ * Recorded by the backend each time an event is updated
+ */
+export interface EventRevision {
+  /** Unique revision identifier */
+  id: number;
+  /** Revision number within the event, starting at 1 */
+  revision_number: number;
+  /** Full name of the user who made the change */
+  changed_by_name: string;
+  /** Fields changed by this revision */
+  changes: EventFieldChange[];
+  /** Revision number this revision restored, or null for a regular edit */
+  restored_from: number | null;
+  /** Timestamp of the change */
+  created_at: string;
+}
+
+// ============================================================================
+// 19. MESSAGE TEMPLATE TYPES
+// ============================================================================
+
+/**
+ * Language of a message template variant
+ */
+export type TemplateLanguage = 'en' | 'sw';
+
+/**
+ * Text of a message template in one language
+ */
+export interface MessageTemplateContent {
+  /** Email subject (empty for SMS and WhatsApp) */
+  subject: string;
+  /** Message body with merge fields (e.g. {{guest_name}}) */
+  body: string;
+}
+
+/**
+ * Saved invitation message template
+ * Shared by everyone in the workspace it was created in
+ */
+export interface MessageTemplate {
+  /** Unique template identifier */
+  id: number;
+  /** Template name shown in the library */
+  name: string;
+  /** Type of event the template is written for */
+  event_type: EventType;
+  /** Channel the template is written for */
+  channel: InvitationChannel;
+  /** English and Swahili text (Swahili is optional) */
+  variants: {
+    en: MessageTemplateContent;
+    sw: MessageTemplateContent | null;
+  };
+  /** Full name of the user who created the template */
+  created_by_name: string;
+  /** Timestamp of the last change */
+  updated_at: string;
+}
+
+/**
+ * Create or update message template payload
+ */
+export type MessageTemplateFormData = Pick<
+  MessageTemplate,
+  'name' | 'event_type' | 'channel' | 'variants'
+>;
+
+/**
+ * SMS length and segment count of a message
+ */
+export interface SmsSegmentInfo {
+  /** Encoding the message is sent with */
+  encoding: 'gsm' | 'unicode';
+  /** Length in encoded characters */
+  length: number;
+  /** Number of SMS the message is split into */
+  segments: number;
+  /** Characters left before another segment is needed */
+  remaining: number;
+}
+
+// ============================================================================
+// 20. AUTOMATION TYPES
+// ============================================================================
+
+/**
+ * Automatic message an event sends on its own
+ * - rsvp_reminder: invited guests who have not responded, days before the event
+ * - day_before_reminder: attending guests, the day before the event
+ * - thank_you: guests who attended, days after the event
+ */
+export type AutomationTrigger = 'rsvp_reminder' | 'day_before_reminder' | 'thank_you';
+
+/**
+ * Automation rule interface
+ */
+export interface AutomationRule {
+  /** Unique rule identifier */
+  id: number;
+  /** When and to whom the rule sends */
+  trigger: AutomationTrigger;
+  /** Channel to send through */
+  channel: InvitationChannel;
+  /** Message body with merge fields */
+  message: string;
+  /** Email subject (email channel only) */
+  subject: string;
+  /** Days before the event (reminders) or after it (thank-you) */
+  offset_days: number;
+  /** Time of day to send, in HH:MM format (event timezone) */
+  send_time: string;
+  /** Whether the rule is paused */
+  is_paused: boolean;
+  /** When the rule sends next (null if paused or already sent) */
+  next_run_at: string | null;
+  /** When the rule last sent (null if never) */
+  last_run_at: string | null;
+  /** Number of messages sent by the rule so far */
+  sent_count: number;
+}
+
+/**
+ * Create or update automation rule payload
+ */
+export type AutomationRuleFormData = Pick<
+  AutomationRule,
+  'trigger' | 'channel' | 'message' | 'subject' | 'offset_days' | 'send_time'
+>;